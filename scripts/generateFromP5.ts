@@ -147,6 +147,7 @@ interface AttrSpec {
 
 interface ElementDef {
   name: string;
+  module: string;
   documentation?: string;
   attrClasses: string[];
   modelClasses: string[];
@@ -605,6 +606,7 @@ function parseP5(p5: P5Subset): {
   for (const elSpec of p5.elements) {
     const element: ElementDef = {
       name: elSpec.ident,
+      module: elSpec.module,
       documentation: extractDescription(elSpec),
       attrClasses: elSpec.classes?.atts ?? [],
       modelClasses: elSpec.classes?.model ?? [],
@@ -777,6 +779,20 @@ import type { AttrSpec, ContentModel } from '../types/schema';
   lines.push('};');
   lines.push('');
 
+  // Generate element-to-module mappings (ODD moduleRef resolution)
+  lines.push('// ============================================================================');
+  lines.push('// Element-to-Module Mappings');
+  lines.push('// ============================================================================');
+  lines.push('');
+  lines.push('export const TEI_ELEMENT_MODULES: Record<string, string> = {');
+
+  for (const el of elements.sort((a, b) => a.name.localeCompare(b.name))) {
+    lines.push(`  '${el.name}': '${el.module}',`);
+  }
+
+  lines.push('};');
+  lines.push('');
+
   // Generate element definitions
   lines.push('// ============================================================================');
   lines.push(`// TEI P5 Element Definitions (${elements.length} elements)`);
@@ -4,6 +4,8 @@ import { EditorProvider } from './store/EditorContext';
 import { useEditor } from './store/useEditor';
 import { CursorProvider } from './store/CursorContext';
 import { WorkspaceProvider } from './store/WorkspaceContext';
+import { useWorkspace } from './store/useWorkspace';
+import { useSchema } from './store/useSchema';
 import { AIProvider } from './ai/AIContext';
 import { ToastProvider } from './components/Toast/Toast';
 import { useToast } from './components/Toast/useToast';
@@ -17,9 +19,14 @@ import { XmlEditor } from './components/Editor/XmlEditor';
 import { RightPanel } from './components/Layout/RightPanel';
 import { ErrorBoundary } from './components/ErrorBoundary/ErrorBoundary';
 import { NewDocumentDialog } from './components/FileDialog/NewDocumentDialog';
+import { CompareDialog } from './components/Compare/CompareDialog';
+import { ChangeEntryDialog } from './components/FileDialog/ChangeEntryDialog';
+import { RevisionLogSettingsDialog } from './components/FileDialog/RevisionLogSettingsDialog';
 
 // Lazy load PreviewPanel (only shown in preview mode)
 const PreviewPanel = lazy(() => import('./components/Preview/PreviewPanel').then(m => ({ default: m.PreviewPanel })));
+// Lazy load AuthorView (only shown in author mode)
+const AuthorView = lazy(() => import('./components/Author/AuthorView').then(m => ({ default: m.AuthorView })));
 import { AlertDialog } from './components/FileDialog/AlertDialog';
 import { ConfirmDialog } from './components/FileDialog/ConfirmDialog';
 import { HelpDialog } from './components/Toolbar/HelpDialog';
@@ -27,9 +34,25 @@ import logoUrl from '../imgs/logo-oxygen-style-transparent.svg';
 import type { Command } from './components/CommandPalette/CommandPalette';
 import { openFile, saveFile, saveAsFile, isUserCancelledError } from './file/fileSystemAccess';
 import { startAutoSave, stopAutoSave, saveSnapshotToIDB, loadRecoverableSnapshots, clearSnapshotByKey, initAutosaveLiveness, type RecoverableSnapshot, type AutosavedDocument } from './file/autoSave';
-import { createNewDocument } from './types/workspace';
+import { writeSidecar } from './file/trackChangesSidecar';
+import { recordDocumentRevision, startHistorySnapshots, stopHistorySnapshots, type HistorySnapshotSource } from './file/revisionHistory';
+import { createNewDocument, type OpenDocument } from './types/workspace';
 import { useConfirmedTabClose } from './hooks/useConfirmedTabClose';
+import { useWorkspaceSchemas } from './hooks/useWorkspaceSchemas';
+import { useSchemaDeclarationSync } from './hooks/useSchemaDeclarationSync';
 import { detectSchemaDeclarations, analyzeSchemaDeclarations, buildSchemaAlertMessage, detectSchemaIdFromContent } from './utils/schemaDetector';
+import { requestInsertElement, requestRenameElement } from './components/Editor/extensions';
+import { TAG_DISPLAY_MODES } from './components/Editor/tagDisplay';
+import { formatXml, type FormatOptions } from './components/Editor/xmlFormatter';
+import {
+  changeEntryChange,
+  initialsOf,
+  isoDate,
+  whoPointer,
+  type ChangeEntry,
+} from './components/Editor/revisionDesc';
+import { getTracking } from './components/Editor/trackChanges';
+import { useEditorActions } from './hooks/useEditorActions';
 import { undo, redo } from '@codemirror/commands';
 import { openSearchPanel } from '@codemirror/search';
 
@@ -56,10 +79,17 @@ function EditorLayout() {
     createNewTab,
     getActiveDocument,
     setActiveTab,
+    setTagDisplayMode,
     editorViewRef,
   } = useEditor();
+  const editorActions = useEditorActions();
+  const { updateFileIds, state: workspaceState, revisionLog } = useWorkspace();
+  const { refreshDocumentSchematron } = useSchema();
   const toast = useToast();
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [revisionLogOpen, setRevisionLogOpen] = useState(false);
+  const [pendingChangeEntry, setPendingChangeEntry] = useState<{ fileName: string; entry: ChangeEntry; saveAs: boolean } | null>(null);
   const [helpOpen, setHelpOpen] = useState(false);
   const [alertMessage, setAlertMessage] = useState<string | null>(null);
   const [aboutOpen, setAboutOpen] = useState(false);
@@ -68,11 +98,23 @@ function EditorLayout() {
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   // Dirty-guarded tab closing shared by menu / Ctrl+W / command palette
   const { pending: pendingTabClose, requestClose, confirm: confirmTabClose, cancel: cancelTabClose } = useConfirmedTabClose();
+  // Tabs follow their xml-model PI: workspace .rng/.odd files and live edits
+  useWorkspaceSchemas();
+  useSchemaDeclarationSync();
 
   // ═══════════════════════════════════════════════════════════
   // Shared action handlers (used by both menus and keyboard shortcuts)
   // ═══════════════════════════════════════════════════════════
 
+  // Local history failures (Private Mode, quota) are reported once per
+  // session, like autosave's — saving itself is unaffected.
+  const historyErrorNotified = useRef(false);
+  const handleHistoryError = useCallback(() => {
+    if (historyErrorNotified.current) return;
+    historyErrorNotified.current = true;
+    toast.warning('Local history is unavailable in this browser session; revisions are not being recorded.', 8000);
+  }, [toast]);
+
   const handleOpenFile = useCallback(async () => {
     try {
       const result = await openFile();
@@ -94,12 +136,25 @@ function EditorLayout() {
     }
   }, [openFileAsTab, toast]);
 
-  const handleSave = useCallback(async () => {
+  // Add `entry` to the active document's revisionDesc: one undoable edit in
+  // the editor before the write. The store catches up through the editor's
+  // onChange; the text and tracked changes returned for the write are the
+  // new ones already (the changes moved past the entry).
+  const withChangeEntry = useCallback((doc: OpenDocument, entry: ChangeEntry | null) => (
+    entry && editorActions.addChangeEntry(entry) && editorViewRef.current
+      ? { content: editorViewRef.current.state.doc.toString(), tracking: getTracking(editorViewRef.current.state) }
+      : { content: doc.content, tracking: doc.tracking }
+  ), [editorActions, editorViewRef]);
+
+  // Save the active document, after adding `entry` to its revisionDesc
+  const saveActiveDocument = useCallback(async (entry: ChangeEntry | null) => {
     try {
       const activeDoc = getActiveDocument();
       if (!activeDoc) return;
-      const result = await saveFile(activeDoc.content, activeDoc.fileHandle, activeDoc.fileName);
-      setFile(result.fileName, result.fileHandle);
+      const { content, tracking } = withChangeEntry(activeDoc, entry);
+      const result = await saveFile(content, activeDoc.fileHandle, activeDoc.fileName);
+      // Same file: a workspace document keeps its path (and history key)
+      setFile(result.fileName, result.fileHandle, activeDoc.filePath);
       if (result.downloaded) {
         // No File System Access API (Firefox/Safari): the only save is a
         // best-effort download to the Downloads folder, which cannot be
@@ -108,6 +163,23 @@ function EditorLayout() {
         toast.success(`Downloaded ${result.fileName} — check your Downloads folder`);
       } else {
         markSaved();
+        void recordDocumentRevision(
+          { root: activeDoc.filePath ? workspaceState.rootName : null, filePath: activeDoc.filePath, fileHandle: result.fileHandle },
+          content,
+          'save',
+          handleHistoryError,
+        );
+        // Other files' cross-file pointers check against the saved ids, and
+        // documents that declare this file as their ruleset use the new rules.
+        if (activeDoc.filePath) {
+          updateFileIds(activeDoc.filePath, content);
+          refreshDocumentSchematron(activeDoc.filePath, content);
+        }
+        // Pending tracked changes go next to the file, for the saved text
+        if (activeDoc.filePath && tracking && workspaceState.rootHandle) {
+          writeSidecar(workspaceState.rootHandle, activeDoc.filePath, content, tracking)
+            .catch(() => toast.warning(`Could not save the tracked changes of ${result.fileName}`));
+        }
         toast.success(`Saved ${result.fileName}`);
       }
     } catch (error) {
@@ -118,13 +190,15 @@ function EditorLayout() {
         toast.error(`Save failed: ${error instanceof Error ? error.message : 'unknown error'}`, 8000);
       }
     }
-  }, [getActiveDocument, setFile, markSaved, toast]);
+  }, [getActiveDocument, withChangeEntry, setFile, markSaved, updateFileIds, refreshDocumentSchematron, workspaceState.rootName, workspaceState.rootHandle, handleHistoryError, toast]);
 
-  const handleSaveAs = useCallback(async () => {
+  // Save the active document to a new file, after adding `entry` to its revisionDesc
+  const saveActiveDocumentAs = useCallback(async (entry: ChangeEntry | null) => {
     try {
       const activeDoc = getActiveDocument();
       if (!activeDoc) return;
-      const result = await saveAsFile(activeDoc.content, activeDoc.fileName);
+      const { content } = withChangeEntry(activeDoc, entry);
+      const result = await saveAsFile(content, activeDoc.fileName);
       setFile(result.fileName, result.fileHandle);
       if (result.downloaded) {
         // Download fallback (no File System Access API): keep the document
@@ -132,6 +206,12 @@ function EditorLayout() {
         toast.success(`Downloaded ${result.fileName} — check your Downloads folder`);
       } else {
         markSaved();
+        void recordDocumentRevision(
+          { root: null, filePath: null, fileHandle: result.fileHandle },
+          content,
+          'save',
+          handleHistoryError,
+        );
         toast.success(`Saved as ${result.fileName}`);
       }
     } catch (error) {
@@ -139,7 +219,43 @@ function EditorLayout() {
         toast.error(`Save failed: ${error instanceof Error ? error.message : 'unknown error'}`, 8000);
       }
     }
-  }, [getActiveDocument, setFile, markSaved, toast]);
+  }, [getActiveDocument, withChangeEntry, setFile, markSaved, handleHistoryError, toast]);
+
+  // Revision log (revisionLogSettings.ts): a changed document gets a
+  // <change> in its revisionDesc, asked for or added as configured — on
+  // Save and Save As alike.
+  const requestSave = useCallback((saveAs: boolean) => {
+    const activeDoc = getActiveDocument();
+    if (!activeDoc) return;
+    const entry: ChangeEntry = {
+      when: isoDate(),
+      who: whoPointer(revisionLog.who || initialsOf(multiTabState.reviewerName)),
+      text: revisionLog.description,
+      name: multiTabState.reviewerName,
+    };
+    const loggable = revisionLog.mode !== 'off' && activeDoc.isDirty
+      && changeEntryChange(activeDoc.content, entry) !== null;
+    if (loggable && revisionLog.mode === 'ask') {
+      setPendingChangeEntry({ fileName: activeDoc.fileName, entry, saveAs });
+      return;
+    }
+    void (saveAs ? saveActiveDocumentAs : saveActiveDocument)(loggable ? entry : null);
+  }, [getActiveDocument, revisionLog, multiTabState.reviewerName, saveActiveDocument, saveActiveDocumentAs]);
+
+  const handleSave = useCallback(() => requestSave(false), [requestSave]);
+  const handleSaveAs = useCallback(() => requestSave(true), [requestSave]);
+
+  const handleAddChangeEntry = useCallback((entry: ChangeEntry) => {
+    setPendingChangeEntry(null);
+    void (pendingChangeEntry?.saveAs ? saveActiveDocumentAs : saveActiveDocument)(entry);
+  }, [pendingChangeEntry, saveActiveDocument, saveActiveDocumentAs]);
+
+  const handleSkipChangeEntry = useCallback(() => {
+    setPendingChangeEntry(null);
+    void (pendingChangeEntry?.saveAs ? saveActiveDocumentAs : saveActiveDocument)(null);
+  }, [pendingChangeEntry, saveActiveDocument, saveActiveDocumentAs]);
+
+  const handleCancelChangeEntry = useCallback(() => setPendingChangeEntry(null), []);
 
   const handleCloseTab = useCallback(() => {
     if (multiTabState.activeDocumentId) {
@@ -191,6 +307,22 @@ function EditorLayout() {
     }
   }, [editorViewRef]);
 
+  // Format Document / Selection (xmlFormatter.ts). Already formatted is
+  // silent; a document the formatter refuses says why.
+  const handleFormat = useCallback((scope: 'document' | 'selection', options?: FormatOptions) => {
+    const done = scope === 'document' ? editorActions.formatDocument(options) : editorActions.formatSelection(options);
+    const view = editorViewRef.current;
+    if (!done && view && formatXml(view.state.doc.toString()) === null) {
+      toast.warning('The document is not well-formed — fix the tag errors before formatting.');
+    }
+  }, [editorActions, editorViewRef, toast]);
+  const handleFormatDocument = useCallback(() => handleFormat('document'), [handleFormat]);
+  const handleFormatSelection = useCallback(() => handleFormat('selection'), [handleFormat]);
+  const handleFormatCanonical = useCallback(
+    () => handleFormat('document', { normalizeQuotes: true, sortAttributes: true }),
+    [handleFormat],
+  );
+
   const handleCommandPalette = useCallback(() => {
     setCommandPaletteOpen(true);
   }, []);
@@ -207,6 +339,22 @@ function EditorLayout() {
     setDialogOpen(true);
   }, []);
 
+  const handleCompare = useCallback(() => {
+    setCompareOpen(true);
+  }, []);
+
+  const handleCloseCompare = useCallback(() => {
+    setCompareOpen(false);
+  }, []);
+
+  const handleRevisionLog = useCallback(() => {
+    setRevisionLogOpen(true);
+  }, []);
+
+  const handleCloseRevisionLog = useCallback(() => {
+    setRevisionLogOpen(false);
+  }, []);
+
   // Keyboard shortcuts
   const handleKeyDown = useCallback(
     async (e: KeyboardEvent) => {
@@ -280,12 +428,33 @@ function EditorLayout() {
       { id: 'file:open', label: 'Open File', category: 'File', shortcut: 'Ctrl+O', icon: '📂', action: handleOpenFile },
       { id: 'file:save', label: 'Save', category: 'File', shortcut: 'Ctrl+S', icon: '💾', action: handleSave },
       { id: 'file:save-as', label: 'Save As...', category: 'File', shortcut: 'Ctrl+Shift+S', icon: '💾', action: handleSaveAs },
+      { id: 'file:compare', label: 'Compare Documents…', category: 'File', icon: '⇄', action: handleCompare },
+      { id: 'file:revision-log', label: 'Revision Log on Save…', category: 'File', icon: '🗒', action: handleRevisionLog },
       { id: 'edit:close-tab', label: 'Close Tab', category: 'Edit', shortcut: 'Ctrl+W', icon: '✕', action: handleCloseTab },
+      { id: 'edit:insert-element', label: 'Insert Element…', category: 'Edit', shortcut: 'Ctrl+Shift+E', icon: '⊕', action: requestInsertElement },
+      { id: 'edit:rename-element', label: 'Rename Element…', category: 'Edit', shortcut: 'F2', icon: '✎', action: requestRenameElement },
+      { id: 'edit:unwrap-element', label: 'Unwrap Element', category: 'Edit', shortcut: 'Alt+Shift+U', icon: '⊖', action: editorActions.unwrapElement },
+      { id: 'edit:split-element', label: 'Split Element at Cursor', category: 'Edit', shortcut: 'Alt+Shift+S', icon: '⫿', action: editorActions.splitElement },
+      { id: 'edit:join-elements', label: 'Join with Adjacent Element', category: 'Edit', shortcut: 'Alt+Shift+J', icon: '⊔', action: editorActions.joinElements },
+      { id: 'edit:move-element-up', label: 'Move Element Up', category: 'Edit', shortcut: 'Ctrl+Alt+↑', icon: '↑', action: editorActions.moveElementUp },
+      { id: 'edit:move-element-down', label: 'Move Element Down', category: 'Edit', shortcut: 'Ctrl+Alt+↓', icon: '↓', action: editorActions.moveElementDown },
+      { id: 'edit:format-document', label: 'Format Document', category: 'Edit', shortcut: 'Alt+Shift+F', icon: '≡', action: handleFormatDocument },
+      { id: 'edit:format-selection', label: 'Format Selection', category: 'Edit', icon: '≡', action: handleFormatSelection },
+      { id: 'edit:format-canonical', label: 'Format Document (Normalize Attributes)', category: 'Edit', icon: '≡', action: handleFormatCanonical },
+      { id: 'edit:track-changes', label: 'Toggle Track Changes', category: 'Edit', icon: '✐', action: editorActions.toggleTrackChanges },
+      { id: 'edit:accept-all-changes', label: 'Accept All Changes', category: 'Edit', icon: '✓', action: () => editorActions.acceptChanges() },
+      { id: 'edit:reject-all-changes', label: 'Reject All Changes', category: 'Edit', icon: '✕', action: () => editorActions.rejectChanges() },
       { id: 'view:toggle-explorer', label: 'Toggle File Explorer', category: 'View', shortcut: 'Ctrl+B', icon: '📁', action: handleToggleExplorer },
+      ...TAG_DISPLAY_MODES.map(({ mode, label }): Command => ({
+        id: `view:tags-${mode}`, label: `Show ${label}`, category: 'View', icon: '⟨⟩', action: () => setTagDisplayMode(mode),
+      })),
+      { id: 'view:fold-element', label: 'Fold Element', category: 'View', icon: '▸', action: editorActions.foldElement },
+      { id: 'view:fold-all', label: 'Fold All', category: 'View', icon: '▸', action: editorActions.foldAll },
+      { id: 'view:unfold-all', label: 'Unfold All', category: 'View', icon: '▾', action: editorActions.unfoldAll },
       { id: 'help:shortcuts', label: 'Keyboard Shortcuts', category: 'Help', icon: '⌨️', action: handleKeyboardShortcuts },
       { id: 'help:about', label: 'About oXide TEI Editor', category: 'Help', icon: 'ℹ️', action: handleAbout },
     ];
-  }, [createNewTab, handleOpenFile, handleSave, handleSaveAs, handleCloseTab, handleToggleExplorer, handleKeyboardShortcuts, handleAbout, handleNewDocument]);
+  }, [createNewTab, handleOpenFile, handleSave, handleSaveAs, handleCloseTab, handleToggleExplorer, handleKeyboardShortcuts, handleAbout, handleNewDocument, handleCompare, handleRevisionLog, editorActions, setTagDisplayMode, handleFormatDocument, handleFormatSelection, handleFormatCanonical]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -323,7 +492,7 @@ function EditorLayout() {
     (): AutosavedDocument[] =>
       openDocumentsRef.current
         .filter(doc => doc.isDirty)
-        .map(doc => ({ fileName: doc.fileName, content: doc.content })),
+        .map(doc => ({ fileName: doc.fileName, filePath: doc.filePath, content: doc.content })),
     [],
   );
 
@@ -332,6 +501,29 @@ function EditorLayout() {
     return stopAutoSave;
   }, [collectDirtySnapshot, handleAutosaveError]);
 
+  // Local history snapshots of dirty files, read through refs like autosave
+  const rootNameRef = useRef(workspaceState.rootName);
+  useEffect(() => {
+    rootNameRef.current = workspaceState.rootName;
+  });
+  const collectDirtyHistory = useCallback(
+    (): HistorySnapshotSource[] =>
+      openDocumentsRef.current
+        .filter(doc => doc.isDirty)
+        .map(doc => ({
+          root: doc.filePath ? rootNameRef.current : null,
+          filePath: doc.filePath,
+          fileHandle: doc.fileHandle,
+          content: doc.content,
+        })),
+    [],
+  );
+
+  useEffect(() => {
+    startHistorySnapshots(collectDirtyHistory, handleHistoryError);
+    return stopHistorySnapshots;
+  }, [collectDirtyHistory, handleHistoryError]);
+
   // Reconcile the autosave record on the way out. saveSnapshotToIDB deletes the
   // record when nothing is dirty, so this fixes two P4 failures the 30 s timer
   // alone leaves open: (A) save-then-close within 30 s left a stale pre-save
@@ -394,7 +586,9 @@ function EditorLayout() {
     // and keep them dirty — the recovered content exists nowhere on disk.
     // schemaId is re-detected from the content's xml-model PI: autosave
     // deliberately does not persist it (a manual override without a PI is
-    // lost across recovery — acceptable).
+    // lost across recovery — acceptable). The workspace path IS kept, so a
+    // PI pointing at a workspace schema is resolved by useWorkspaceSchemas
+    // once that workspace is open.
     recoveryData.documents.forEach(saved => {
       // Guard each document so one that can't be processed can't abort recovery
       // of the rest (defense in depth alongside the schemaDetector fix — audit #11).
@@ -404,6 +598,7 @@ function EditorLayout() {
           saved.content,
           detectSchemaIdFromContent(saved.content) ?? 'tei_lite',
         );
+        doc.filePath = saved.filePath ?? null;
         doc.isDirty = true;
         openTab(doc);
       } catch (err) {
@@ -450,11 +645,16 @@ function EditorLayout() {
           onOpenFile={handleOpenFile}
           onSave={handleSave}
           onSaveAs={handleSaveAs}
+          onCompare={handleCompare}
+          onRevisionLog={handleRevisionLog}
           onCloseTab={handleCloseTab}
           onUndo={handleUndo}
           onRedo={handleRedo}
           onFind={handleFind}
           onReplace={handleReplace}
+          onFormatDocument={handleFormatDocument}
+          onFormatSelection={handleFormatSelection}
+          onFormatCanonical={handleFormatCanonical}
           onToggleExplorer={handleToggleExplorer}
           onToggleTheme={handleToggleTheme}
           onCommandPalette={handleCommandPalette}
@@ -465,9 +665,15 @@ function EditorLayout() {
         <MainLayout
           left={<FileExplorer onSchemaAlert={setAlertMessage} />}
           center={
-            <div className="editor-container">
+            <div className={`editor-container${state.viewMode === 'author' ? ' editor-container-author' : ''}`}>
               <EditorTabBar />
               <BreadcrumbBar />
+              {state.viewMode === 'author' && (
+                <Suspense fallback={<div className="panel-loader"><span className="loader-spinner" /><span>Loading...</span></div>}>
+                  <AuthorView key={multiTabState.activeDocumentId} />
+                </Suspense>
+              )}
+              {/* Stays mounted in author mode: AuthorView edits through its EditorView */}
               <XmlEditor />
             </div>
           }
@@ -484,6 +690,17 @@ function EditorLayout() {
         />
       </AppShell>
       <NewDocumentDialog open={dialogOpen} onClose={() => setDialogOpen(false)} />
+      {compareOpen && <CompareDialog onClose={handleCloseCompare} />}
+      {revisionLogOpen && <RevisionLogSettingsDialog onClose={handleCloseRevisionLog} />}
+      {pendingChangeEntry && (
+        <ChangeEntryDialog
+          fileName={pendingChangeEntry.fileName}
+          entry={pendingChangeEntry.entry}
+          onAdd={handleAddChangeEntry}
+          onSkip={handleSkipChangeEntry}
+          onCancel={handleCancelChangeEntry}
+        />
+      )}
       <HelpDialog open={helpOpen} onClose={() => setHelpOpen(false)} />
       <AlertDialog
         open={alertMessage !== null}
@@ -0,0 +1,139 @@
+import { useCallback, useDeferredValue, useMemo } from 'react';
+import { useEditor } from '../../store/useEditor';
+import { useCursor } from '../../store/useCursor';
+import { useActiveSchema } from '../../hooks/useActiveSchema';
+import { offsetOf } from '../Editor/breadcrumbPath';
+import {
+  type AttributeChange,
+  type AttributeRow,
+  type InspectedElement,
+  attributeRows,
+  inspectElementAt,
+  removeAttributeChange,
+  setAttributeChange,
+} from './attributeModel';
+import './AttributeInspector.css';
+
+/**
+ * Attributes of the element under the cursor, as a form: the attributes on
+ * its start tag and the ones the schema declares (required ★, closed value
+ * lists as dropdowns, datatype hints, documentation on hover). A value is
+ * written back when the field is committed — Enter, leaving the field, or
+ * picking from a list — as one minimal change to the source.
+ */
+export function AttributeInspector() {
+  const { getActiveDocument, editorViewRef } = useEditor();
+  const { line, column } = useCursor();
+  const schema = useActiveSchema();
+
+  // Deferred like the breadcrumb: the element lookup scans the document
+  const content = useDeferredValue(getActiveDocument()?.content ?? '');
+  const deferredLine = useDeferredValue(line);
+  const deferredColumn = useDeferredValue(column);
+
+  const element = useMemo(
+    () => (content ? inspectElementAt(content, offsetOf(content, deferredLine, deferredColumn)) : null),
+    [content, deferredLine, deferredColumn],
+  );
+  const rows = useMemo(() => (element ? attributeRows(schema, element) : []), [schema, element]);
+
+  // Edits are computed against the view's CURRENT text (the deferred
+  // content may lag a keystroke behind), for the same element.
+  const apply = useCallback((change: (el: InspectedElement) => AttributeChange | null) => {
+    const view = editorViewRef.current;
+    if (!view || !element) return;
+    const current = inspectElementAt(view.state.doc.toString(), element.from + 1);
+    if (!current || current.from !== element.from || current.name !== element.name) return;
+    const spec = change(current);
+    if (spec) view.dispatch({ changes: spec, userEvent: 'input' });
+  }, [editorViewRef, element]);
+
+  const commit = useCallback((row: AttributeRow, value: string) => {
+    if (row.value === null && value === '') return;
+    apply(el => setAttributeChange(el, row.name, value));
+  }, [apply]);
+
+  const remove = useCallback((name: string) => {
+    apply(el => removeAttributeChange(el, name));
+  }, [apply]);
+
+  if (!element) {
+    return (
+      <div className="attribute-inspector">
+        <div className="attribute-inspector-empty">Place the cursor inside an element to see its attributes.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="attribute-inspector">
+      <div className="attribute-inspector-header">
+        <span className="attribute-inspector-element">&lt;{element.name}&gt;</span>
+        <span className="attribute-inspector-count">
+          {element.attributes.length} of {rows.length}
+        </span>
+      </div>
+      {rows.length === 0 ? (
+        <div className="attribute-inspector-empty">No attributes declared for &lt;{element.name}&gt;.</div>
+      ) : (
+        <div className="attribute-inspector-list">
+          {rows.map(row => (
+            <div
+              key={row.name}
+              className={`attribute-row${row.value === null ? ' attribute-row-absent' : ''}${row.problem ? ' attribute-row-invalid' : ''}`}
+            >
+              <label className="attribute-row-label" htmlFor={`attr-${row.name}`} title={row.spec?.documentation || undefined}>
+                <span className="attribute-row-name">{row.name}</span>
+                {row.required && <span className="attribute-row-required" title="Required">★</span>}
+                {row.datatype && <span className="attribute-row-datatype">{row.datatype}</span>}
+              </label>
+              <div className="attribute-row-field">
+                {row.spec?.values && row.spec.values.length > 0 ? (
+                  <select
+                    id={`attr-${row.name}`}
+                    value={row.value ?? ''}
+                    onChange={e => commit(row, e.target.value)}
+                  >
+                    {row.value === null && <option value="">—</option>}
+                    {row.value !== null && !row.spec.values.includes(row.value) && (
+                      <option value={row.value}>{row.value}</option>
+                    )}
+                    {row.spec.values.map(v => <option key={v} value={v}>{v}</option>)}
+                  </select>
+                ) : (
+                  <input
+                    // Re-keyed on the source value so an edit in the editor
+                    // (or undo) replaces the field's draft
+                    key={`${element.from}:${row.value ?? ''}`}
+                    id={`attr-${row.name}`}
+                    type="text"
+                    defaultValue={row.value ?? ''}
+                    placeholder={row.spec?.defaultValue ?? (row.value === null ? 'not set' : '')}
+                    spellCheck={false}
+                    onBlur={e => commit(row, e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commit(row, e.currentTarget.value);
+                      else if (e.key === 'Escape') e.currentTarget.value = row.value ?? '';
+                    }}
+                  />
+                )}
+                {row.value !== null && (
+                  <button
+                    className="attribute-row-remove"
+                    onClick={() => remove(row.name)}
+                    title={`Remove ${row.name}`}
+                    aria-label={`Remove ${row.name}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+              {row.problem && <div className="attribute-row-problem">Expected {row.problem}</div>}
+              {row.spec?.documentation && <div className="attribute-row-doc">{row.spec.documentation}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
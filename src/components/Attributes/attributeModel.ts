@@ -0,0 +1,137 @@
+/**
+ * Pure model for the Attributes panel (kept out of the .tsx, like
+ * outlineModel, so it can be unit-tested directly).
+ *
+ * The panel shows the element under the cursor: the attributes written on
+ * its start tag and the ones its schema declares, merged into one row list.
+ * Edits come back as minimal text changes — a value edit replaces only the
+ * text between the quotes, an addition inserts after the last attribute, a
+ * removal deletes the attribute and the whitespace before it — so the rest
+ * of the tag (quote style, line breaks, attribute order) stays as written.
+ */
+
+import type { AttrSpec, SchemaInfo } from '../../types/schema';
+import { getAttributes } from '../../schema/schemaQuery';
+import { checkAttributeDatatype, datatypeOf, decodeEntities } from '../../schema/attributeDatatypes';
+import { escapeAttribute } from '../../schema/schematronQuickFix';
+import { elementRangeAt } from '../Editor/structuralCommands';
+
+/** An attribute as written in the source. */
+export interface SourceAttribute {
+  name: string;
+  /** Value as written (entities not decoded). */
+  raw: string;
+  quote: '"' | "'";
+  /** Start of the whitespace before the name. */
+  from: number;
+  /** Just after the closing quote. */
+  to: number;
+  valueFrom: number;
+  valueTo: number;
+}
+
+/** The element the panel inspects. */
+export interface InspectedElement {
+  name: string;
+  /** Offset of the start tag's `<`. */
+  from: number;
+  /** Just after the last attribute (or the name) — where a new one goes. */
+  attributesEnd: number;
+  attributes: SourceAttribute[];
+}
+
+/** One row of the panel. */
+export interface AttributeRow {
+  name: string;
+  /** Decoded value, or null when the attribute is not on the tag. */
+  value: string | null;
+  /** Schema declaration, if any (undeclared attributes still get a row). */
+  spec: AttrSpec | null;
+  required: boolean;
+  /** Datatype shown as a hint (schema-declared, else built-in for xml:*). */
+  datatype: string | null;
+  /** What the value should look like, when it fails its datatype. */
+  problem: string | null;
+}
+
+/** A text change against the document the element was read from. */
+export interface AttributeChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+const SOURCE_ATTR_REGEX = /(\s+)([^\s=/>]+)(\s*=\s*)("[^"]*"|'[^']*')/g;
+
+/** The innermost element around `offset` in `content`, with its attributes. */
+export function inspectElementAt(content: string, offset: number): InspectedElement | null {
+  const range = elementRangeAt(content, offset);
+  if (!range) return null;
+  const tag = content.slice(range.from, range.openTo);
+  const attributes: SourceAttribute[] = [];
+  let attributesEnd = range.from + 1 + range.name.length;
+  SOURCE_ATTR_REGEX.lastIndex = 0;
+  for (let m = SOURCE_ATTR_REGEX.exec(tag); m; m = SOURCE_ATTR_REGEX.exec(tag)) {
+    const from = range.from + m.index;
+    const to = from + m[0].length;
+    attributes.push({
+      name: m[2],
+      raw: m[4].slice(1, -1),
+      quote: m[4][0] as '"' | "'",
+      from,
+      to,
+      valueFrom: to - m[4].length + 1,
+      valueTo: to - 1,
+    });
+    attributesEnd = to;
+  }
+  return { name: range.name, from: range.from, attributesEnd, attributes };
+}
+
+/**
+ * Rows for `element`: its attributes in source order, then the declared
+ * ones it lacks — required first, the rest alphabetically.
+ */
+export function attributeRows(schema: SchemaInfo | null, element: InspectedElement): AttributeRow[] {
+  const declared = getAttributes(schema, element.name);
+  const specOf = (name: string) => declared.find(a => a.name === name) ?? null;
+  const row = (name: string, raw: string | null): AttributeRow => {
+    const spec = specOf(name);
+    const datatype = spec ? datatypeOf(spec) : datatypeOf({ name });
+    return {
+      name,
+      value: raw === null ? null : decodeEntities(raw),
+      spec,
+      required: spec?.required ?? false,
+      datatype: datatype ?? null,
+      problem: raw === null ? null : checkAttributeDatatype(spec ?? { name }, raw),
+    };
+  };
+  const present = element.attributes.map(a => row(a.name, a.raw));
+  const absent = declared
+    .filter(a => !element.attributes.some(s => s.name === a.name))
+    .sort((a, b) => Number(b.required ?? false) - Number(a.required ?? false) || a.name.localeCompare(b.name))
+    .map(a => row(a.name, null));
+  return [...present, ...absent];
+}
+
+/**
+ * Change that gives `name` the (decoded) `value` on `element`: the text
+ * between the quotes when the attribute is there, a new ` name="value"`
+ * after the last attribute otherwise. Null when nothing would change.
+ */
+export function setAttributeChange(element: InspectedElement, name: string, value: string): AttributeChange | null {
+  const attr = element.attributes.find(a => a.name === name);
+  if (!attr) {
+    return { from: element.attributesEnd, to: element.attributesEnd, insert: ` ${name}="${escapeAttribute(value)}"` };
+  }
+  if (decodeEntities(attr.raw) === value) return null;
+  const escaped = attr.quote === "'" ? escapeAttribute(value).replace(/'/g, '&apos;') : escapeAttribute(value);
+  return { from: attr.valueFrom, to: attr.valueTo, insert: escaped };
+}
+
+/** Change that removes `name` from `element` (null when it is not there). */
+export function removeAttributeChange(element: InspectedElement, name: string): AttributeChange | null {
+  const attr = element.attributes.find(a => a.name === name);
+  return attr ? { from: attr.from, to: attr.to, insert: '' } : null;
+}
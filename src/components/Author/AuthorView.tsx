@@ -0,0 +1,278 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useEditor } from '../../store/useEditor';
+import { elementPresentation } from '../Preview/teiTransform';
+import { splitElement } from '../Editor/structuralCommands';
+import {
+  type AuthorElement,
+  type AuthorText,
+  buildAuthorTree,
+  rawOffset,
+  shownOffset,
+  textAt,
+  textEdit,
+} from './authorModel';
+import '../Preview/tei-preview.css';
+import './AuthorView.css';
+
+const TAGS_STORAGE_KEY = 'tei-editor-author-tags';
+
+/**
+ * What an empty text run shows: browsers draw no caret in an empty text
+ * node, so it holds a zero-width space, which offsets are clamped past.
+ */
+const EMPTY_RUN_FILLER = '\u200B';
+
+/** HTML tags of the preview mapping that cannot hold an editable caret. */
+const NON_CONTAINER_TAGS = new Set(['img', 'hr', 'br', 'a', 'table', 'tr', 'td', 'ul']);
+
+/** Whether tag chips are shown (remembered across sessions). */
+function loadShowTags(): boolean {
+  try {
+    return localStorage.getItem(TAGS_STORAGE_KEY) !== 'hidden';
+  } catch {
+    return true;
+  }
+}
+
+function saveShowTags(show: boolean): void {
+  try {
+    localStorage.setItem(TAGS_STORAGE_KEY, show ? 'shown' : 'hidden');
+  } catch {
+    // Private Mode — the choice resets on reload
+  }
+}
+
+/** Rendered text runs, both ways. */
+interface RenderedRuns {
+  root: AuthorElement | null;
+  runOf: Map<Text, AuthorText>;
+  domOf: Map<AuthorText, Text>;
+}
+
+/**
+ * Author view: the document styled like the preview (same element
+ * mappings) and editable as text. Tags appear as compact chips, or not at
+ * all when hidden; the text between them is edited in place.
+ *
+ * The view is a projection of the code editor, which stays mounted (hidden)
+ * underneath: every edit is dispatched to that EditorView as a minimal
+ * source change (authorModel.textEdit), so undo, validation, autosave and
+ * the cursor-driven panels all keep working. The DOM is built imperatively
+ * and rebuilt from the new source after each change, with the caret put
+ * back through the source-offset mapping — React never reconciles the
+ * contentEditable region the browser is also editing.
+ */
+export function AuthorView() {
+  const { state, editorViewRef } = useEditor();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const runsRef = useRef<RenderedRuns>({ root: null, runOf: new Map(), domOf: new Map() });
+  // Source offset to put the caret at after the next rebuild
+  const pendingCaretRef = useRef<number | null>(null);
+  // Selection when an IME composition started (its text lands on compositionend)
+  const compositionRef = useRef<{ run: AuthorText; start: number; end: number } | null>(null);
+  const [showTags, setShowTags] = useState(loadShowTags);
+
+  const toggleTags = useCallback(() => {
+    saveShowTags(!showTags);
+    setShowTags(!showTags);
+  }, [showTags]);
+
+  /** Put the DOM caret at source offset `pos` (the nearest text run). */
+  const placeCaret = useCallback((pos: number) => {
+    const { root, domOf } = runsRef.current;
+    const run = textAt(root, pos);
+    const dom = run && domOf.get(run);
+    const selection = document.getSelection();
+    if (!run || !dom || !selection) return;
+    selection.collapse(dom, Math.min(shownOffset(run, pos), dom.length));
+  }, []);
+
+  /** The DOM selection as a range of one text run, or null when it spans markup. */
+  const selectionInRun = useCallback((): { run: AuthorText; start: number; end: number } | null => {
+    const selection = document.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+    const range = selection.getRangeAt(0);
+    const { runOf } = runsRef.current;
+    const run = runOf.get(range.startContainer as Text);
+    if (!run || run !== runOf.get(range.endContainer as Text)) return null;
+    const length = run.text.length;
+    return { run, start: Math.min(range.startOffset, length), end: Math.min(range.endOffset, length) };
+  }, []);
+
+  const applyEdit = useCallback((run: AuthorText, start: number, end: number, insert: string) => {
+    const view = editorViewRef.current;
+    if (!view) return;
+    const change = textEdit(run, start, end, insert);
+    const caret = change ? change.from + change.insert.length : rawOffset(run, end);
+    pendingCaretRef.current = caret;
+    if (change) view.dispatch({ changes: change, selection: { anchor: caret }, userEvent: 'input.type' });
+    else placeCaret(caret);
+  }, [editorViewRef, placeCaret]);
+
+  // (Re)build the view from the source. Runs after every content change,
+  // including our own edits.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const root = buildAuthorTree(state.content);
+    const runOf = new Map<Text, AuthorText>();
+    const domOf = new Map<AuthorText, Text>();
+
+    const renderElement = (el: AuthorElement): Node => {
+      const presentation = elementPresentation(el.name, el.attributes.rend);
+      const tag = NON_CONTAINER_TAGS.has(presentation.tag) ? (presentation.block ? 'div' : 'span') : presentation.tag;
+      const chip = (kind: 'open' | 'close' | 'empty') => {
+        const span = document.createElement('span');
+        span.className = `author-tag author-tag-${kind}`;
+        span.contentEditable = 'false';
+        span.textContent = el.name;
+        span.dataset.from = String(el.from);
+        const attrs = Object.entries(el.attributes).map(([k, v]) => `${k}="${v}"`).join(' ');
+        span.title = attrs ? `<${el.name} ${attrs}>` : `<${el.name}>`;
+        return span;
+      };
+      if (el.empty) {
+        const fragment = document.createDocumentFragment();
+        fragment.append(chip('empty'));
+        if (el.name === 'lb') fragment.append(document.createElement('br'));
+        return fragment;
+      }
+      const node = document.createElement(tag);
+      node.className = [...presentation.classes, 'author-element'].join(' ');
+      if (el.attributes.type) node.dataset.type = el.attributes.type;
+      node.append(chip('open'));
+      for (const child of el.children) {
+        if (child.kind === 'element') {
+          node.append(renderElement(child));
+        } else {
+          const text = document.createTextNode(child.text || EMPTY_RUN_FILLER);
+          runOf.set(text, child);
+          domOf.set(child, text);
+          node.append(text);
+        }
+      }
+      node.append(chip('close'));
+      return node;
+    };
+
+    container.replaceChildren(...(root ? [renderElement(root)] : []));
+    runsRef.current = { root, runOf, domOf };
+
+    const pending = pendingCaretRef.current;
+    pendingCaretRef.current = null;
+    if (pending !== null) placeCaret(pending);
+  }, [state.content, placeCaret]);
+
+  // Caret moves in the view move the (hidden) editor's cursor, so the
+  // breadcrumb and the Attributes panel follow.
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const container = containerRef.current;
+      const view = editorViewRef.current;
+      const selection = document.getSelection();
+      if (!container || !view || !selection?.anchorNode || !container.contains(selection.anchorNode)) return;
+      const run = runsRef.current.runOf.get(selection.anchorNode as Text);
+      if (!run) return;
+      const anchor = rawOffset(run, Math.min(selection.anchorOffset, run.text.length));
+      if (anchor <= view.state.doc.length && anchor !== view.state.selection.main.head) {
+        view.dispatch({ selection: { anchor } });
+      }
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [editorViewRef]);
+
+  // Every edit goes through here: the browser's own DOM change is cancelled
+  // and the source is changed instead.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleBeforeInput = (e: InputEvent) => {
+      // Composition text can't be cancelled; it is applied on compositionend
+      if (e.inputType === 'insertCompositionText') return;
+      e.preventDefault();
+      const view = editorViewRef.current;
+      const sel = selectionInRun();
+      if (!view || !sel) return;
+      const { run, start, end } = sel;
+      switch (e.inputType) {
+        case 'insertText':
+        case 'insertReplacementText':
+        case 'insertFromPaste':
+        case 'insertFromDrop': {
+          const text = e.data ?? e.dataTransfer?.getData('text/plain') ?? '';
+          applyEdit(run, start, end, text);
+          break;
+        }
+        case 'deleteContentBackward':
+          if (start !== end) applyEdit(run, start, end, '');
+          else if (start > 0) applyEdit(run, start - 1, end, '');
+          break;
+        case 'deleteContentForward':
+          if (start !== end) applyEdit(run, start, end, '');
+          else if (end < run.text.length) applyEdit(run, start, end + 1, '');
+          break;
+        case 'deleteByCut':
+          applyEdit(run, start, end, '');
+          break;
+        case 'insertParagraph': {
+          // Enter splits the element around the caret into two siblings
+          view.dispatch({ selection: { anchor: rawOffset(run, start) } });
+          if (splitElement(view)) pendingCaretRef.current = view.state.selection.main.head;
+          break;
+        }
+      }
+    };
+
+    const handleCompositionStart = () => {
+      compositionRef.current = selectionInRun();
+    };
+    const handleCompositionEnd = (e: CompositionEvent) => {
+      const started = compositionRef.current;
+      compositionRef.current = null;
+      if (started) applyEdit(started.run, started.start, started.end, e.data);
+    };
+
+    container.addEventListener('beforeinput', handleBeforeInput);
+    container.addEventListener('compositionstart', handleCompositionStart);
+    container.addEventListener('compositionend', handleCompositionEnd);
+    return () => {
+      container.removeEventListener('beforeinput', handleBeforeInput);
+      container.removeEventListener('compositionstart', handleCompositionStart);
+      container.removeEventListener('compositionend', handleCompositionEnd);
+    };
+  }, [editorViewRef, selectionInRun, applyEdit]);
+
+  // A click on a tag chip puts the editor's cursor in that start tag, so
+  // the Attributes panel shows the element.
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    const chip = (e.target as HTMLElement).closest?.('.author-tag') as HTMLElement | null;
+    const view = editorViewRef.current;
+    if (!chip?.dataset.from || !view) return;
+    const from = Number(chip.dataset.from);
+    if (from < view.state.doc.length) view.dispatch({ selection: { anchor: from + 1 } });
+  }, [editorViewRef]);
+
+  return (
+    <div className={`author-view${showTags ? '' : ' author-tags-hidden'}`}>
+      <div className="author-toolbar">
+        <span className="author-title">Author</span>
+        <button className="author-toggle" onClick={toggleTags} aria-pressed={showTags}>
+          {showTags ? 'Hide tags' : 'Show tags'}
+        </button>
+      </div>
+      <div
+        ref={containerRef}
+        className="author-content tei-rendered"
+        contentEditable
+        suppressContentEditableWarning
+        spellCheck
+        onMouseDown={handleMouseDown}
+        role="textbox"
+        aria-multiline="true"
+        aria-label="Author view"
+      />
+    </div>
+  );
+}
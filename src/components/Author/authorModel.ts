@@ -0,0 +1,176 @@
+/**
+ * Pure model for the Author view: the document as a tree of elements and
+ * text runs that remember their source ranges, so the styled view maps both
+ * ways — a caret in the view to an offset in the XML, an offset back to a
+ * caret — and an edit in the view becomes a text change to the source.
+ *
+ * Only text is edited in the Author view. Markup is never rewritten: an
+ * edit is accepted when it stays within one text run (entities and all),
+ * and is turned into the smallest change to that run's source text.
+ * Structure is changed through the element commands (split on Enter) or in
+ * the code view. Comments, processing instructions and CDATA sections are
+ * not shown and therefore never touched.
+ */
+
+import { tokenizeXmlTags, parseAttributes } from '../../schema/xmlTokenizer';
+import { decodeEntities } from '../../schema/attributeDatatypes';
+import { escapeText } from '../../schema/schematronQuickFix';
+
+export interface AuthorText {
+  kind: 'text';
+  /**
+   * Source range of the run, as written (entities not decoded). Zero-length
+   * for the content of an element with none.
+   */
+  from: number;
+  to: number;
+  raw: string;
+  /** What the view shows. */
+  text: string;
+}
+
+export interface AuthorElement {
+  kind: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  /** Offset of the start tag's `<`. */
+  from: number;
+  /** Just after the end tag (the start tag for an empty element). */
+  to: number;
+  empty: boolean;
+  children: AuthorNode[];
+}
+
+export type AuthorNode = AuthorText | AuthorElement;
+
+/** A text change to the source. */
+export interface SourceChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+const ENTITY_REGEX = /&(?:#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/y;
+
+/**
+ * The root element of `content` with its descendants, or null when there is
+ * none. Tolerant like the outline: a stray end tag is skipped and elements
+ * left open end with the document.
+ */
+export function buildAuthorTree(content: string): AuthorElement | null {
+  let root: AuthorElement | null = null;
+  const stack: AuthorElement[] = [];
+  let textFrom = -1;
+
+  const flushText = (to: number) => {
+    const parent = stack[stack.length - 1];
+    if (parent && textFrom >= 0 && to > textFrom) {
+      const raw = content.slice(textFrom, to);
+      parent.children.push({ kind: 'text', from: textFrom, to, raw, text: decodeEntities(raw) });
+    }
+    textFrom = -1;
+  };
+
+  for (const tok of tokenizeXmlTags(content)) {
+    flushText(tok.offset);
+    const end = tok.offset + tok.length;
+    if (tok.kind === 'open' || tok.kind === 'self-close') {
+      const el: AuthorElement = {
+        kind: 'element',
+        name: tok.name,
+        attributes: parseAttributes(tok.attributesText),
+        from: tok.offset,
+        to: end,
+        empty: tok.kind === 'self-close',
+        children: [],
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(el);
+      else if (!root) root = el;
+      else continue; // a second root is not shown
+      if (tok.kind === 'open') stack.push(el);
+    } else if (tok.kind === 'close') {
+      const depth = stack.map(el => el.name).lastIndexOf(tok.name);
+      if (depth !== -1) {
+        // An element with nothing in it gets a zero-length run, so it can
+        // take the caret and be typed into (after Enter at the end of a <p>)
+        const closing = stack[depth];
+        if (depth === stack.length - 1 && closing.children.length === 0) {
+          closing.children.push({ kind: 'text', from: tok.offset, to: tok.offset, raw: '', text: '' });
+        }
+        for (const el of stack.slice(depth)) el.to = end;
+        stack.length = depth;
+      }
+    }
+    textFrom = stack.length > 0 ? end : -1;
+  }
+  flushText(content.length);
+  for (const el of stack) el.to = content.length;
+  return root;
+}
+
+/** Source offset of the `index`-th character a text run shows. */
+export function rawOffset(node: AuthorText, index: number): number {
+  let i = 0;
+  let shown = 0;
+  while (i < node.raw.length && shown < index) {
+    ENTITY_REGEX.lastIndex = i;
+    const entity = ENTITY_REGEX.exec(node.raw);
+    const width = entity ? entity[0].length : 1;
+    shown += entity ? decodeEntities(entity[0]).length : 1;
+    i += width;
+  }
+  return node.from + i;
+}
+
+/** Index in the run's shown text of source offset `pos` (clamped to the run). */
+export function shownOffset(node: AuthorText, pos: number): number {
+  const end = Math.min(Math.max(pos, node.from), node.to) - node.from;
+  let i = 0;
+  let shown = 0;
+  while (i < end) {
+    ENTITY_REGEX.lastIndex = i;
+    const entity = ENTITY_REGEX.exec(node.raw);
+    // A position inside an entity counts as before it
+    if (entity && i + entity[0].length > end) break;
+    shown += entity ? decodeEntities(entity[0]).length : 1;
+    i += entity ? entity[0].length : 1;
+  }
+  return shown;
+}
+
+/** The text run containing source offset `pos` (its end included), if any. */
+export function textAt(root: AuthorElement | null, pos: number): AuthorText | null {
+  if (!root || pos < root.from || pos > root.to) return null;
+  for (const child of root.children) {
+    if (child.kind === 'text') {
+      if (child.from <= pos && pos <= child.to) return child;
+    } else if (child.from < pos && pos < child.to) {
+      return textAt(child, pos);
+    }
+  }
+  return null;
+}
+
+/**
+ * Change replacing the shown text between `start` and `end` of run `node`
+ * with `insert` (escaped for element content). Only the part that differs
+ * from the run's current source is replaced, so an entity next to the edit
+ * is left as written.
+ */
+export function textEdit(node: AuthorText, start: number, end: number, insert: string): SourceChange | null {
+  const from = rawOffset(node, start);
+  const to = rawOffset(node, end);
+  const escaped = escapeText(insert);
+  const old = node.raw.slice(from - node.from, to - node.from);
+  if (old === escaped) return null;
+  // Trim the common prefix and suffix
+  let head = 0;
+  while (head < old.length && head < escaped.length && old[head] === escaped[head]) head++;
+  let tail = 0;
+  while (
+    tail < old.length - head && tail < escaped.length - head
+    && old[old.length - 1 - tail] === escaped[escaped.length - 1 - tail]
+  ) tail++;
+  return { from: from + head, to: to - tail, insert: escaped.slice(head, escaped.length - tail) };
+}
@@ -0,0 +1,198 @@
+import { useCallback, useDeferredValue, useMemo, useState } from 'react';
+import { useEditor } from '../../store/useEditor';
+import { useWorkspace } from '../../store/useWorkspace';
+import { useEditorActions } from '../../hooks/useEditorActions';
+import {
+  type FavoriteItem,
+  UNICODE_BLOCKS,
+  blockCharacters,
+  characterName,
+  charDeclEntries,
+  codePointLabel,
+  displayGlyph,
+  insertionText,
+  internalSubsetEntities,
+  loadFavorites,
+  sameItem,
+  saveFavorites,
+  searchCharacters,
+} from './characterModel';
+import './CharacterPalette.css';
+
+interface Selected {
+  item: FavoriteItem;
+  /** What the cell shows. */
+  glyph: string;
+  /** Name and code point, xml:id, or entity value. */
+  detail: string;
+}
+
+/**
+ * Characters for transcription: Unicode blocks to browse or search by name,
+ * the glyphs declared in the document's `<charDecl>` (inserted as
+ * `<g ref="#id"/>`), the entities of its DOCTYPE internal subset (inserted
+ * as `&name;`), and a favorites row kept per workspace folder. A click
+ * inserts at the cursor, replacing the selection.
+ */
+export function CharacterPalette() {
+  const { getActiveDocument } = useEditor();
+  const { state: workspace } = useWorkspace();
+  const { replaceSelection } = useEditorActions();
+  const project = workspace.rootName ?? '';
+
+  const [query, setQuery] = useState('');
+  const [blockName, setBlockName] = useState(UNICODE_BLOCKS[0].name);
+  const [selected, setSelected] = useState<Selected | null>(null);
+  const [favorites, setFavorites] = useState<{ project: string; items: FavoriteItem[] }>(
+    () => ({ project, items: loadFavorites(project) }),
+  );
+  // Another folder opened: its own favorites (adjusted during render)
+  if (favorites.project !== project) setFavorites({ project, items: loadFavorites(project) });
+
+  const content = useDeferredValue(getActiveDocument()?.content ?? '');
+  const gaiji = useMemo(() => charDeclEntries(content), [content]);
+  const entities = useMemo(() => internalSubsetEntities(content), [content]);
+
+  const deferredQuery = useDeferredValue(query);
+  const characters = useMemo(() => {
+    if (deferredQuery.trim()) return searchCharacters(deferredQuery);
+    const block = UNICODE_BLOCKS.find(b => b.name === blockName) ?? UNICODE_BLOCKS[0];
+    return blockCharacters(block);
+  }, [deferredQuery, blockName]);
+
+  const insert = useCallback((entry: Selected) => {
+    replaceSelection(insertionText(entry.item));
+    setSelected(entry);
+  }, [replaceSelection]);
+
+  const toggleFavorite = useCallback((item: FavoriteItem) => {
+    const items = favorites.items.some(f => sameItem(f, item))
+      ? favorites.items.filter(f => !sameItem(f, item))
+      : [...favorites.items, item];
+    setFavorites({ project, items });
+    saveFavorites(project, items);
+  }, [favorites.items, project]);
+
+  const charEntry = (char: string): Selected => ({
+    item: { kind: 'char', value: char },
+    glyph: displayGlyph(char),
+    detail: [characterName(char), codePointLabel(char)].filter(Boolean).join(' · '),
+  });
+
+  const gaijiEntry = (id: string): Selected => {
+    const decl = gaiji.find(g => g.id === id);
+    return {
+      item: { kind: 'gaiji', value: id },
+      glyph: decl?.mapping || '◊',
+      detail: `<g ref="#${id}"/>${decl?.name ? ` · ${decl.name}` : ''}${decl ? '' : ' · not declared in this document'}`,
+    };
+  };
+
+  const entityEntry = (name: string): Selected => {
+    const decl = entities.find(e => e.name === name);
+    return {
+      item: { kind: 'entity', value: name },
+      glyph: decl?.value || '&',
+      detail: `&${name};${decl ? ` · ${decl.value}` : ' · not declared in this document'}`,
+    };
+  };
+
+  const entryOf = (item: FavoriteItem) => (
+    item.kind === 'char' ? charEntry(item.value) : item.kind === 'gaiji' ? gaijiEntry(item.value) : entityEntry(item.value)
+  );
+
+  const cell = (entry: Selected, key: string) => (
+    <button
+      key={key}
+      type="button"
+      className={`character-cell character-cell-${entry.item.kind}${selected && sameItem(selected.item, entry.item) ? ' character-cell-selected' : ''}`}
+      title={entry.detail}
+      onClick={() => insert(entry)}
+    >
+      {entry.glyph}
+    </button>
+  );
+
+  const isFavorite = selected !== null && favorites.items.some(f => sameItem(f, selected.item));
+
+  return (
+    <div className="character-palette">
+      <div className="character-palette-controls">
+        <input
+          type="search"
+          aria-label="Search characters"
+          placeholder="Search by name or U+code"
+          value={query}
+          spellCheck={false}
+          onChange={e => setQuery(e.target.value)}
+        />
+        <select
+          aria-label="Unicode block"
+          value={blockName}
+          disabled={query.trim() !== ''}
+          onChange={e => setBlockName(e.target.value)}
+        >
+          {UNICODE_BLOCKS.map(b => <option key={b.name} value={b.name}>{b.name}</option>)}
+        </select>
+      </div>
+
+      <div className="character-palette-sections">
+        {favorites.items.length > 0 && (
+          <section className="character-section">
+            <h3 className="character-section-title">Favorites</h3>
+            <div className="character-grid">
+              {favorites.items.map(f => cell(entryOf(f), `fav:${f.kind}:${f.value}`))}
+            </div>
+          </section>
+        )}
+
+        {gaiji.length > 0 && (
+          <section className="character-section">
+            <h3 className="character-section-title">Document glyphs (charDecl)</h3>
+            <div className="character-grid">
+              {gaiji.map(g => cell(gaijiEntry(g.id), `gaiji:${g.id}`))}
+            </div>
+          </section>
+        )}
+
+        {entities.length > 0 && (
+          <section className="character-section">
+            <h3 className="character-section-title">DTD entities</h3>
+            <div className="character-grid">
+              {entities.map(e => cell(entityEntry(e.name), `entity:${e.name}`))}
+            </div>
+          </section>
+        )}
+
+        <section className="character-section">
+          <h3 className="character-section-title">
+            {query.trim() ? `${characters.length} matching` : blockName}
+          </h3>
+          {characters.length === 0 ? (
+            <div className="character-palette-empty">No characters match “{query.trim()}”.</div>
+          ) : (
+            <div className="character-grid">
+              {characters.map(c => cell(charEntry(c), `char:${c}`))}
+            </div>
+          )}
+        </section>
+      </div>
+
+      {selected && (
+        <div className="character-palette-detail">
+          <span className="character-detail-glyph">{selected.glyph}</span>
+          <span className="character-detail-text">{selected.detail}</span>
+          <button
+            type="button"
+            className={`character-detail-favorite${isFavorite ? ' character-detail-favorite-on' : ''}`}
+            title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+            aria-pressed={isFavorite}
+            onClick={() => toggleFavorite(selected.item)}
+          >
+            {isFavorite ? '★' : '☆'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * Data behind the Characters panel: Unicode blocks to browse, character
+ * names to search, the document's own gaiji declarations (`<charDecl>`) and
+ * DTD entities, and the favorites list.
+ *
+ * The browser has no Unicode name table, and shipping one would dwarf the
+ * app. Names are derived instead: a precomposed letter is named from its
+ * canonical decomposition (`é` → E + COMBINING ACUTE → "LATIN SMALL LETTER
+ * E WITH ACUTE"), and the characters that don't decompose — long s, thorn,
+ * the medieval abbreviation letters, punctuation — come from a table of the
+ * ones transcribers look for. Anything else is found by code point.
+ */
+
+import { parseAttributes, tokenizeXmlTags } from '../../schema/xmlTokenizer';
+import { decodeEntities } from '../../schema/attributeDatatypes';
+
+export interface UnicodeBlock {
+  name: string;
+  from: number;
+  to: number;
+}
+
+/** Blocks offered for browsing, in the order shown. */
+export const UNICODE_BLOCKS: UnicodeBlock[] = [
+  { name: 'Latin-1 Supplement', from: 0x00a0, to: 0x00ff },
+  { name: 'Latin Extended-A', from: 0x0100, to: 0x017f },
+  { name: 'Latin Extended-B', from: 0x0180, to: 0x024f },
+  { name: 'Latin Extended Additional', from: 0x1e00, to: 0x1eff },
+  { name: 'Latin Extended-D (medieval)', from: 0xa720, to: 0xa7ff },
+  { name: 'Combining Diacritical Marks', from: 0x0300, to: 0x036f },
+  { name: 'Greek and Coptic', from: 0x0370, to: 0x03ff },
+  { name: 'General Punctuation', from: 0x2000, to: 0x206f },
+  { name: 'Superscripts and Subscripts', from: 0x2070, to: 0x209f },
+  { name: 'Currency Symbols', from: 0x20a0, to: 0x20cf },
+  { name: 'Letterlike Symbols', from: 0x2100, to: 0x214f },
+  { name: 'Number Forms', from: 0x2150, to: 0x218f },
+  { name: 'Alphabetic Presentation Forms', from: 0xfb00, to: 0xfb4f },
+];
+
+const UNASSIGNED = /^[\p{Cn}\p{Cs}]$/u;
+const COMBINING = /^\p{M}$/u;
+
+/** Names of the characters that can't be derived (see the module comment). */
+const NAMES = new Map<number, string>();
+
+function name(cp: number, text: string) {
+  NAMES.set(cp, text);
+}
+
+/** Capital at `cp`, small at `cp + 1`. */
+function letterPair(cp: number, text: string) {
+  name(cp, `LATIN CAPITAL LETTER ${text}`);
+  name(cp + 1, `LATIN SMALL LETTER ${text}`);
+}
+
+const COMBINING_NAMES: [number, string][] = [
+  [0x0300, 'GRAVE'], [0x0301, 'ACUTE'], [0x0302, 'CIRCUMFLEX'], [0x0303, 'TILDE'],
+  [0x0304, 'MACRON'], [0x0305, 'OVERLINE'], [0x0306, 'BREVE'], [0x0307, 'DOT ABOVE'],
+  [0x0308, 'DIAERESIS'], [0x0309, 'HOOK ABOVE'], [0x030a, 'RING ABOVE'], [0x030b, 'DOUBLE ACUTE'],
+  [0x030c, 'CARON'], [0x030f, 'DOUBLE GRAVE'], [0x0311, 'INVERTED BREVE'], [0x0313, 'COMMA ABOVE'],
+  [0x0314, 'REVERSED COMMA ABOVE'], [0x031b, 'HORN'], [0x0323, 'DOT BELOW'], [0x0324, 'DIAERESIS BELOW'],
+  [0x0325, 'RING BELOW'], [0x0326, 'COMMA BELOW'], [0x0327, 'CEDILLA'], [0x0328, 'OGONEK'],
+  [0x032d, 'CIRCUMFLEX BELOW'], [0x032e, 'BREVE BELOW'], [0x0330, 'TILDE BELOW'], [0x0331, 'MACRON BELOW'],
+  [0x0335, 'SHORT STROKE OVERLAY'], [0x0336, 'LONG STROKE OVERLAY'], [0x0338, 'LONG SOLIDUS OVERLAY'],
+  [0x0342, 'PERISPOMENI'], [0x0345, 'YPOGEGRAMMENI'],
+];
+for (const [cp, mark] of COMBINING_NAMES) name(cp, `COMBINING ${mark}`);
+// Medieval superscript letters (U+0363–U+036F)
+[...'aeioucdhmrtvx'].forEach((letter, i) => name(0x0363 + i, `COMBINING LATIN SMALL LETTER ${letter.toUpperCase()}`));
+
+/** Mark names as used after "WITH" in a derived name. */
+const MARK_NAMES = new Map(COMBINING_NAMES.map(([cp, mark]) => [cp, mark]));
+
+[
+  [0x00a0, 'NO-BREAK SPACE'], [0x00a1, 'INVERTED EXCLAMATION MARK'], [0x00a2, 'CENT SIGN'],
+  [0x00a3, 'POUND SIGN'], [0x00a4, 'CURRENCY SIGN'], [0x00a5, 'YEN SIGN'], [0x00a6, 'BROKEN BAR'],
+  [0x00a7, 'SECTION SIGN'], [0x00a8, 'DIAERESIS'], [0x00a9, 'COPYRIGHT SIGN'],
+  [0x00aa, 'FEMININE ORDINAL INDICATOR'], [0x00ab, 'LEFT-POINTING DOUBLE ANGLE QUOTATION MARK'],
+  [0x00ac, 'NOT SIGN'], [0x00ad, 'SOFT HYPHEN'], [0x00ae, 'REGISTERED SIGN'], [0x00af, 'MACRON'],
+  [0x00b0, 'DEGREE SIGN'], [0x00b1, 'PLUS-MINUS SIGN'], [0x00b2, 'SUPERSCRIPT TWO'],
+  [0x00b3, 'SUPERSCRIPT THREE'], [0x00b4, 'ACUTE ACCENT'], [0x00b5, 'MICRO SIGN'], [0x00b6, 'PILCROW SIGN'],
+  [0x00b7, 'MIDDLE DOT'], [0x00b8, 'CEDILLA'], [0x00b9, 'SUPERSCRIPT ONE'],
+  [0x00ba, 'MASCULINE ORDINAL INDICATOR'], [0x00bb, 'RIGHT-POINTING DOUBLE ANGLE QUOTATION MARK'],
+  [0x00bc, 'VULGAR FRACTION ONE QUARTER'], [0x00bd, 'VULGAR FRACTION ONE HALF'],
+  [0x00be, 'VULGAR FRACTION THREE QUARTERS'], [0x00bf, 'INVERTED QUESTION MARK'],
+  [0x00d7, 'MULTIPLICATION SIGN'], [0x00df, 'LATIN SMALL LETTER SHARP S'], [0x00f7, 'DIVISION SIGN'],
+  [0x0131, 'LATIN SMALL LETTER DOTLESS I'], [0x0138, 'LATIN SMALL LETTER KRA'],
+  [0x0149, 'LATIN SMALL LETTER N PRECEDED BY APOSTROPHE'], [0x017f, 'LATIN SMALL LETTER LONG S'],
+  [0x01bf, 'LATIN LETTER WYNN'], [0x01f7, 'LATIN CAPITAL LETTER WYNN'],
+  [0x0292, 'LATIN SMALL LETTER EZH'], [0x01b7, 'LATIN CAPITAL LETTER EZH'],
+  [0x2002, 'EN SPACE'], [0x2003, 'EM SPACE'], [0x2009, 'THIN SPACE'], [0x200a, 'HAIR SPACE'],
+  [0x200b, 'ZERO WIDTH SPACE'], [0x200c, 'ZERO WIDTH NON-JOINER'], [0x200d, 'ZERO WIDTH JOINER'],
+  [0x2010, 'HYPHEN'], [0x2011, 'NON-BREAKING HYPHEN'], [0x2012, 'FIGURE DASH'], [0x2013, 'EN DASH'],
+  [0x2014, 'EM DASH'], [0x2015, 'HORIZONTAL BAR'], [0x2016, 'DOUBLE VERTICAL LINE'],
+  [0x2018, 'LEFT SINGLE QUOTATION MARK'], [0x2019, 'RIGHT SINGLE QUOTATION MARK'],
+  [0x201a, 'SINGLE LOW-9 QUOTATION MARK'], [0x201c, 'LEFT DOUBLE QUOTATION MARK'],
+  [0x201d, 'RIGHT DOUBLE QUOTATION MARK'], [0x201e, 'DOUBLE LOW-9 QUOTATION MARK'],
+  [0x2020, 'DAGGER'], [0x2021, 'DOUBLE DAGGER'], [0x2022, 'BULLET'], [0x2026, 'HORIZONTAL ELLIPSIS'],
+  [0x2030, 'PER MILLE SIGN'], [0x2032, 'PRIME'], [0x2039, 'SINGLE LEFT-POINTING ANGLE QUOTATION MARK'],
+  [0x203a, 'SINGLE RIGHT-POINTING ANGLE QUOTATION MARK'], [0x203b, 'REFERENCE MARK'],
+  [0x203d, 'INTERROBANG'], [0x2042, 'ASTERISM'], [0x204a, 'TIRONIAN SIGN ET'],
+  [0x204b, 'REVERSED PILCROW SIGN'], [0x2052, 'COMMERCIAL MINUS SIGN'],
+  [0x20a4, 'LIRA SIGN'], [0x20ac, 'EURO SIGN'], [0x20b0, 'GERMAN PENNY SIGN'],
+  [0x2108, 'SCRUPLE'], [0x2114, 'L B BAR SYMBOL'], [0x2116, 'NUMERO SIGN'], [0x211e, 'PRESCRIPTION TAKE'],
+  [0x2123, 'VERSICLE'], [0x2125, 'OUNCE SIGN'],
+  [0x2183, 'ROMAN NUMERAL REVERSED ONE HUNDRED'], [0x2184, 'LATIN SMALL LETTER REVERSED C'],
+  [0x2180, 'ROMAN NUMERAL ONE THOUSAND C D'], [0x2181, 'ROMAN NUMERAL FIVE THOUSAND'],
+  [0x2182, 'ROMAN NUMERAL TEN THOUSAND'], [0x2185, 'ROMAN NUMERAL SIX LATE FORM'],
+  [0x2186, 'ROMAN NUMERAL FIFTY EARLY FORM'],
+  [0xa770, 'MODIFIER LETTER US'], [0xa771, 'LATIN SMALL LETTER DUM'], [0xa772, 'LATIN SMALL LETTER LUM'],
+  [0xa773, 'LATIN SMALL LETTER MUM'], [0xa774, 'LATIN SMALL LETTER NUM'], [0xa775, 'LATIN SMALL LETTER RUM'],
+  [0xa776, 'LATIN LETTER SMALL CAPITAL RUM'], [0xa777, 'LATIN SMALL LETTER TUM'], [0xa778, 'LATIN SMALL LETTER UM'],
+  [0xa77d, 'LATIN CAPITAL LETTER INSULAR G'],
+  [0xfb00, 'LATIN SMALL LIGATURE FF'], [0xfb01, 'LATIN SMALL LIGATURE FI'], [0xfb02, 'LATIN SMALL LIGATURE FL'],
+  [0xfb03, 'LATIN SMALL LIGATURE FFI'], [0xfb04, 'LATIN SMALL LIGATURE FFL'],
+  [0xfb05, 'LATIN SMALL LIGATURE LONG S T'], [0xfb06, 'LATIN SMALL LIGATURE ST'],
+].forEach(([cp, text]) => name(cp as number, text as string));
+
+name(0x00c6, 'LATIN CAPITAL LETTER AE');
+name(0x00e6, 'LATIN SMALL LETTER AE');
+name(0x00d0, 'LATIN CAPITAL LETTER ETH');
+name(0x00f0, 'LATIN SMALL LETTER ETH');
+name(0x00d8, 'LATIN CAPITAL LETTER O WITH STROKE');
+name(0x00f8, 'LATIN SMALL LETTER O WITH STROKE');
+name(0x00de, 'LATIN CAPITAL LETTER THORN');
+name(0x00fe, 'LATIN SMALL LETTER THORN');
+for (const [cp, text] of [
+  [0x0110, 'D WITH STROKE'], [0x0126, 'H WITH STROKE'], [0x0132, 'LIGATURE IJ'], [0x013f, 'L WITH MIDDLE DOT'],
+  [0x0141, 'L WITH STROKE'], [0x014a, 'ENG'], [0x0152, 'LIGATURE OE'], [0x0166, 'T WITH STROKE'],
+  [0x021c, 'YOGH'],
+  [0xa732, 'AA'], [0xa734, 'AO'], [0xa736, 'AU'], [0xa738, 'AV'], [0xa73c, 'AY'], [0xa740, 'K WITH STROKE'],
+  [0xa746, 'BROKEN L'], [0xa748, 'L WITH HIGH STROKE'], [0xa74a, 'O WITH LONG STROKE OVERLAY'],
+  [0xa74c, 'O WITH LOOP'], [0xa74e, 'OO'], [0xa750, 'P WITH STROKE THROUGH DESCENDER'],
+  [0xa752, 'P WITH FLOURISH'], [0xa754, 'P WITH SQUIRREL TAIL'], [0xa756, 'Q WITH STROKE THROUGH DESCENDER'],
+  [0xa758, 'Q WITH DIAGONAL STROKE'], [0xa75a, 'R ROTUNDA'], [0xa75c, 'RUM ROTUNDA'],
+  [0xa75e, 'V WITH DIAGONAL STROKE'], [0xa760, 'VY'], [0xa762, 'VISIGOTHIC Z'], [0xa764, 'THORN WITH STROKE'],
+  [0xa766, 'THORN WITH STROKE THROUGH DESCENDER'], [0xa768, 'VEND'], [0xa76a, 'ET'], [0xa76c, 'IS'],
+  [0xa76e, 'CON'], [0xa779, 'INSULAR D'], [0xa77b, 'INSULAR F'], [0xa77e, 'TURNED INSULAR G'],
+  [0xa780, 'TURNED L'], [0xa782, 'INSULAR R'], [0xa784, 'INSULAR S'], [0xa786, 'INSULAR T'],
+] as [number, string][]) {
+  letterPair(cp, text);
+}
+
+const GREEK_LETTERS = [
+  'ALPHA', 'BETA', 'GAMMA', 'DELTA', 'EPSILON', 'ZETA', 'ETA', 'THETA', 'IOTA', 'KAPPA', 'LAMDA', 'MU',
+  'NU', 'XI', 'OMICRON', 'PI', 'RHO', 'FINAL SIGMA', 'SIGMA', 'TAU', 'UPSILON', 'PHI', 'CHI', 'PSI', 'OMEGA',
+];
+GREEK_LETTERS.forEach((letter, i) => {
+  if (letter !== 'FINAL SIGMA') name(0x0391 + i, `GREEK CAPITAL LETTER ${letter}`);
+  name(0x03b1 + i, `GREEK SMALL LETTER ${letter}`);
+});
+
+['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE', 'TEN', 'ELEVEN', 'TWELVE', 'FIFTY',
+  'ONE HUNDRED', 'FIVE HUNDRED', 'ONE THOUSAND'].forEach((numeral, i) => {
+  name(0x2160 + i, `ROMAN NUMERAL ${numeral}`);
+  name(0x2170 + i, `SMALL ROMAN NUMERAL ${numeral}`);
+});
+
+['ZERO', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE'].forEach((digit, i) => {
+  if (i === 0 || i > 3) name(0x2070 + i, `SUPERSCRIPT ${digit}`);
+  name(0x2080 + i, `SUBSCRIPT ${digit}`);
+});
+
+/**
+ * Name of a character, derived or from the table; '' when unknown (it can
+ * still be found by code point).
+ */
+export function characterName(char: string): string {
+  const cp = char.codePointAt(0)!;
+  const known = NAMES.get(cp);
+  if (known) return known;
+  if (cp < 0x80 && /[a-zA-Z]/.test(char)) {
+    return `LATIN ${char === char.toUpperCase() ? 'CAPITAL' : 'SMALL'} LETTER ${char.toUpperCase()}`;
+  }
+  const decomposed = [...char.normalize('NFD')];
+  if (decomposed.length < 2) return '';
+  const base = characterName(decomposed[0]);
+  const marks = decomposed.slice(1).map(m => MARK_NAMES.get(m.codePointAt(0)!));
+  if (!base || marks.some(m => !m)) return '';
+  return `${base} WITH ${marks.join(' AND ')}`;
+}
+
+/** `U+017F` */
+export function codePointLabel(char: string): string {
+  return `U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+/** How to show a character in the grid: combining marks on a dotted circle. */
+export function displayGlyph(char: string): string {
+  return COMBINING.test(char) ? `◌${char}` : char;
+}
+
+/** The assigned characters of a block. */
+export function blockCharacters(block: UnicodeBlock): string[] {
+  const chars: string[] = [];
+  for (let cp = block.from; cp <= block.to; cp++) {
+    const char = String.fromCodePoint(cp);
+    if (!UNASSIGNED.test(char)) chars.push(char);
+  }
+  return chars;
+}
+
+const MAX_RESULTS = 300;
+
+/**
+ * Characters of all blocks matching `query`: every word of it in the name,
+ * a code point (`U+017F`, `17f`), or the character itself.
+ */
+export function searchCharacters(query: string): string[] {
+  const q = query.trim();
+  if (!q) return [];
+  const all = UNICODE_BLOCKS.flatMap(blockCharacters);
+  const hex = /^(?:u\+)?([0-9a-f]{2,6})$/i.exec(q);
+  if (hex) {
+    const cp = parseInt(hex[1], 16);
+    const exact = all.filter(c => c.codePointAt(0) === cp);
+    if (exact.length > 0) return exact;
+  }
+  if ([...q].length === 1 && q.codePointAt(0)! > 0x7f) return all.filter(c => c === q);
+  const words = q.toUpperCase().split(/\s+/);
+  return all.filter(c => {
+    const n = characterName(c);
+    return n && words.every(w => n.includes(w));
+  }).slice(0, MAX_RESULTS);
+}
+
+// ── The document's own characters ──
+
+/** A `<char>` or `<glyph>` declared in the document's `<charDecl>`. */
+export interface GaijiEntry {
+  id: string;
+  kind: 'char' | 'glyph';
+  /** `<charName>` / `<glyphName>`, '' when absent. */
+  name: string;
+  /** The first `<mapping>`, '' when absent — shown as the glyph's stand-in. */
+  mapping: string;
+}
+
+/** Declared characters and glyphs with an xml:id, in document order. */
+export function charDeclEntries(content: string): GaijiEntry[] {
+  const entries: GaijiEntry[] = [];
+  let declDepth = 0;
+  let current: GaijiEntry | null = null;
+  // Field whose text runs to the next tag
+  let field: { key: 'name' | 'mapping'; from: number } | null = null;
+
+  for (const tok of tokenizeXmlTags(content)) {
+    if (field && current && !current[field.key]) {
+      current[field.key] = decodeEntities(content.slice(field.from, tok.offset)).trim();
+    }
+    field = null;
+    if (tok.kind === 'open' && tok.name === 'charDecl') declDepth++;
+    else if (tok.kind === 'close' && tok.name === 'charDecl') declDepth = Math.max(0, declDepth - 1);
+    if (declDepth === 0) continue;
+
+    if (tok.kind === 'open' && (tok.name === 'char' || tok.name === 'glyph')) {
+      current = { id: parseAttributes(tok.attributesText)['xml:id'] ?? '', kind: tok.name, name: '', mapping: '' };
+    } else if (tok.kind === 'close' && (tok.name === 'char' || tok.name === 'glyph')) {
+      if (current?.id) entries.push(current);
+      current = null;
+    } else if (tok.kind === 'open' && current) {
+      if (tok.name === 'charName' || tok.name === 'glyphName') field = { key: 'name', from: tok.offset + tok.length };
+      else if (tok.name === 'mapping') field = { key: 'mapping', from: tok.offset + tok.length };
+    }
+  }
+  return entries;
+}
+
+/** A general entity declared in the DOCTYPE internal subset. */
+export interface NamedEntity {
+  name: string;
+  /** Replacement text, character references decoded. */
+  value: string;
+}
+
+const INTERNAL_SUBSET = /<!DOCTYPE[^[>]*\[([\s\S]*?)\]\s*>/;
+const ENTITY_DECL = /<!ENTITY\s+([^\s%][^\s]*)\s+(?:"([^"]*)"|'([^']*)')\s*>/g;
+
+/** Internal (not SYSTEM/PUBLIC, not parameter) entities of the document. */
+export function internalSubsetEntities(content: string): NamedEntity[] {
+  const subset = INTERNAL_SUBSET.exec(content);
+  if (!subset) return [];
+  return [...subset[1].matchAll(ENTITY_DECL)].map(([, entity, double, single]) => ({
+    name: entity,
+    value: decodeEntities(double ?? single),
+  }));
+}
+
+// ── Favorites ──
+
+/** A favorite: a character, a declared glyph (by xml:id) or an entity (by name). */
+export interface FavoriteItem {
+  kind: 'char' | 'gaiji' | 'entity';
+  value: string;
+}
+
+/** Text inserted for an item. */
+export function insertionText(item: FavoriteItem): string {
+  switch (item.kind) {
+    case 'char': return item.value;
+    case 'gaiji': return `<g ref="#${item.value}"/>`;
+    case 'entity': return `&${item.value};`;
+  }
+}
+
+export function sameItem(a: FavoriteItem, b: FavoriteItem): boolean {
+  return a.kind === b.kind && a.value === b.value;
+}
+
+const FAVORITES_STORAGE_PREFIX = 'oxide-char-favorites:';
+
+/** Favorites of the workspace folder `project` ('' when no folder is open). */
+export function loadFavorites(project: string): FavoriteItem[] {
+  try {
+    const stored = localStorage.getItem(FAVORITES_STORAGE_PREFIX + project);
+    const items: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(items)
+      ? items.filter((i): i is FavoriteItem => (
+        typeof i?.value === 'string' && ['char', 'gaiji', 'entity'].includes(i?.kind)
+      ))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFavorites(project: string, items: FavoriteItem[]): void {
+  try {
+    localStorage.setItem(FAVORITES_STORAGE_PREFIX + project, JSON.stringify(items));
+  } catch {
+    // Storage unavailable (Private Mode) — favorites last for this session.
+  }
+}
@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useEditor } from '../../store/useEditor';
+import { useWorkspace } from '../../store/useWorkspace';
+import { useToast } from '../Toast/useToast';
+import { flattenFileNodes } from '../../file/batchValidation';
+import { readFileContent } from '../../file/fileSystemAccess';
+import { type CompareHunk, type HunkChoice, compareXml, mergeXml } from './xmlCompare';
+import './CompareDialog.css';
+
+interface Props {
+  onClose: () => void;
+}
+
+/** A document to compare: an open tab, or a workspace file that isn't open. */
+interface Source {
+  id: string;
+  name: string;
+  label: string;
+  tabId: string | null;
+  handle: FileSystemFileHandle | null;
+}
+
+const NOTHING = '(nothing)';
+
+/**
+ * Compare two documents — open tabs or workspace files — structurally
+ * (xmlCompare.ts) and merge them hunk by hunk. Every hunk starts on the
+ * left; choosing Right for it takes the right document's version. The
+ * result is applied to the left tab as one undoable edit, or opened as a
+ * new tab. Mounted while open, so each opening starts from the active tab.
+ */
+export function CompareDialog({ onClose }: Props) {
+  const { multiTabState, editorViewRef, updateTabContent, setActiveTab, createNewTab } = useEditor();
+  const { state: workspace } = useWorkspace();
+  const toast = useToast();
+  const { openDocuments, activeDocumentId } = multiTabState;
+
+  const sources = useMemo<Source[]>(() => {
+    const tabs = openDocuments.map(doc => ({
+      id: `tab:${doc.id}`,
+      name: doc.fileName,
+      label: `${doc.fileName}${doc.isDirty ? ' •' : ''} (tab)`,
+      tabId: doc.id,
+      handle: null,
+    }));
+    const files = flattenFileNodes(workspace.fileTree)
+      .filter(node => !openDocuments.some(doc => doc.filePath === node.path))
+      .map(node => ({ id: `file:${node.path}`, name: node.name, label: node.path, tabId: null, handle: node.handle as FileSystemFileHandle }));
+    return [...tabs, ...files];
+  }, [openDocuments, workspace.fileTree]);
+
+  const [leftId, setLeftId] = useState(activeDocumentId ? `tab:${activeDocumentId}` : '');
+  const [rightId, setRightId] = useState('');
+  const [ignoreWhitespace, setIgnoreWhitespace] = useState(true);
+  // Workspace files' text, read from disk when chosen (null when unreadable)
+  const [texts, setTexts] = useState<Record<string, string | null>>({});
+
+  const left = sources.find(s => s.id === leftId) ?? null;
+  const right = sources.find(s => s.id === rightId) ?? sources.find(s => s.id !== leftId) ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    for (const source of [left, right]) {
+      if (!source?.handle || source.id in texts) continue;
+      const { id, handle } = source;
+      readFileContent(handle)
+        .then(text => !cancelled && setTexts(prev => ({ ...prev, [id]: text })))
+        .catch(() => !cancelled && setTexts(prev => ({ ...prev, [id]: null })));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [left, right, texts]);
+
+  const textOf = (source: Source | null): string | null | undefined => {
+    if (!source) return undefined;
+    // The store follows the editor (setContent on every change)
+    return source.tabId ? openDocuments.find(d => d.id === source.tabId)?.content ?? '' : texts[source.id];
+  };
+  const leftText = textOf(left);
+  const rightText = textOf(right);
+
+  const hunks = useMemo(
+    () => (typeof leftText === 'string' && typeof rightText === 'string'
+      ? compareXml(leftText, rightText, { ignoreWhitespace })
+      : null),
+    [leftText, rightText, ignoreWhitespace],
+  );
+
+  // Choices belong to one hunk list; a new comparison starts all-left
+  const [choices, setChoices] = useState<{ hunks: CompareHunk[] | null; map: Map<number, HunkChoice> }>(
+    { hunks: null, map: new Map() },
+  );
+  if (choices.hunks !== hunks) setChoices({ hunks, map: new Map() });
+
+  const choose = (id: number, choice: HunkChoice) => {
+    setChoices(prev => ({ hunks: prev.hunks, map: new Map(prev.map).set(id, choice) }));
+  };
+  const chooseAll = (choice: HunkChoice) => {
+    setChoices(prev => ({ hunks: prev.hunks, map: new Map((prev.hunks ?? []).map(h => [h.id, choice])) }));
+  };
+
+  const fromRight = hunks ? hunks.filter(h => choices.map.get(h.id) === 'right').length : 0;
+
+  const applyToLeft = () => {
+    if (!hunks || typeof leftText !== 'string' || !left?.tabId) return;
+    const merged = mergeXml(leftText, hunks, choices.map);
+    const view = editorViewRef.current;
+    if (left.tabId === activeDocumentId && view) {
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: merged }, userEvent: 'input' });
+    } else {
+      // Switching tabs remounts the editor from the new content
+      updateTabContent(left.tabId, merged);
+      setActiveTab(left.tabId);
+    }
+    toast.success(`Merged ${fromRight} change${fromRight === 1 ? '' : 's'} into ${left.name}`);
+    onClose();
+  };
+
+  const openMerged = () => {
+    if (!hunks || typeof leftText !== 'string') return;
+    createNewTab(mergeXml(leftText, hunks, choices.map), 'Merged.xml');
+    onClose();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const sourceSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="compare-source">
+      <span>{label}</span>
+      <select aria-label={label} value={value} onChange={e => onChange(e.target.value)}>
+        {!value && <option value="">—</option>}
+        {sources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+      </select>
+    </label>
+  );
+
+  let body: React.ReactNode;
+  if (!left || !right) {
+    body = <div className="compare-message">Open two documents, or a workspace folder, to compare.</div>;
+  } else if (leftText === undefined || rightText === undefined) {
+    body = <div className="compare-message">Reading…</div>;
+  } else if (leftText === null || rightText === null) {
+    body = <div className="compare-message">The file could not be read.</div>;
+  } else if (!hunks) {
+    body = <div className="compare-message">Both documents must be well-formed to compare them structurally.</div>;
+  } else if (hunks.length === 0) {
+    body = <div className="compare-message">No differences{ignoreWhitespace ? ' (ignoring whitespace)' : ''}.</div>;
+  } else {
+    body = (
+      <ol className="compare-hunks">
+        {hunks.map(h => {
+          const choice = choices.map.get(h.id) ?? 'left';
+          return (
+            <li key={h.id} className={`compare-hunk compare-hunk-${h.kind}`}>
+              <div className="compare-hunk-header">
+                <span className="compare-hunk-kind">{h.kind}</span>
+                <span className="compare-hunk-path">{h.path}</span>
+                <span className="compare-hunk-summary">{h.summary}</span>
+              </div>
+              <div className="compare-hunk-sides">
+                {(['left', 'right'] as const).map(side => (
+                  <button
+                    key={side}
+                    type="button"
+                    className={`compare-hunk-side${choice === side ? ' compare-hunk-side-chosen' : ''}`}
+                    aria-pressed={choice === side}
+                    title={side === 'left' ? 'Keep the left version' : 'Take the right version'}
+                    onClick={() => choose(h.id, side)}
+                  >
+                    <pre>{h[side].text || NOTHING}</pre>
+                  </button>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    );
+  }
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div
+        className="compare-dialog"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-dialog-title"
+      >
+        <h2 id="compare-dialog-title" className="dialog-title">Compare Documents</h2>
+        <div className="compare-sources">
+          {sourceSelect('Left', left?.id ?? '', setLeftId)}
+          {sourceSelect('Right', right?.id ?? '', setRightId)}
+          <label className="compare-option">
+            <input type="checkbox" checked={ignoreWhitespace} onChange={e => setIgnoreWhitespace(e.target.checked)} />
+            Ignore whitespace-only changes
+          </label>
+        </div>
+        <div className="compare-body">{body}</div>
+        <div className="dialog-actions">
+          {hunks && hunks.length > 0 && (
+            <span className="compare-status">
+              {hunks.length} difference{hunks.length === 1 ? '' : 's'} · {fromRight} from right
+            </span>
+          )}
+          <button className="dialog-secondary" onClick={() => chooseAll('left')} disabled={!hunks?.length}>All Left</button>
+          <button className="dialog-secondary" onClick={() => chooseAll('right')} disabled={!hunks?.length}>All Right</button>
+          <button className="dialog-secondary" onClick={openMerged} disabled={!hunks?.length}>Open Merged as New Tab</button>
+          <button
+            className="dialog-primary"
+            onClick={applyToLeft}
+            disabled={!hunks || fromRight === 0 || !left?.tabId}
+            title={left?.tabId ? undefined : 'The left document is not open in a tab'}
+          >
+            Merge into Left
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
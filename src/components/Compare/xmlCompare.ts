@@ -0,0 +1,323 @@
+/**
+ * Structure-aware comparison of two XML documents, and merging them hunk
+ * by hunk.
+ *
+ * Both documents are read into element trees with source offsets. Matching
+ * goes top-down: the children of two matched elements are aligned by key —
+ * `#id` for an element with an xml:id, otherwise its name and position
+ * among its same-name siblings (the path step, `p[3]`) — with the text
+ * between child elements as `#text` items, using the line diff's edit
+ * script. Then:
+ *
+ * - matched elements recurse, after their start tags are compared
+ *   attribute by attribute (one hunk per attribute);
+ * - matched text items are compared as text (optionally ignoring
+ *   whitespace-only differences);
+ * - a run of unmatched items is one hunk: elements added, removed or
+ *   replaced, or text that only one side has.
+ *
+ * Every hunk names a range of the LEFT document and the RIGHT text that
+ * would replace it. Hunks never overlap — recursion only happens inside
+ * matched elements, and each attribute owns its own range — so a merge is
+ * the left document with the right text put in for each hunk accepted
+ * from the right.
+ */
+
+import { tokenizeXmlTags } from '../../schema/xmlTokenizer';
+import { editScript } from '../../utils/lineDiff';
+
+export interface CompareOptions {
+  /** Treat text differing only in whitespace as equal (and skip whitespace-only text). */
+  ignoreWhitespace?: boolean;
+}
+
+export type HunkKind = 'attribute' | 'text' | 'element';
+
+/** A range of one document and its text. */
+export interface HunkSide {
+  from: number;
+  to: number;
+  text: string;
+}
+
+/** One difference between the documents. */
+export interface CompareHunk {
+  /** Index in the hunk list (document order of the left side). */
+  id: number;
+  kind: HunkKind;
+  /** Element the difference is in, as a path: `/TEI/text/body/div[2]`, `p#p1`. */
+  path: string;
+  /** One line for the list: `@type: "a" → "b"`, `added <note>`, `text changed`. */
+  summary: string;
+  left: HunkSide;
+  right: HunkSide;
+}
+
+export type HunkChoice = 'left' | 'right';
+
+interface SourceAttribute {
+  name: string;
+  /** Value as written. */
+  value: string;
+  /** From the whitespace before the name to after the closing quote. */
+  from: number;
+  to: number;
+}
+
+interface CompareElement {
+  name: string;
+  id: string | null;
+  attributes: SourceAttribute[];
+  from: number;
+  /** Just after the last attribute — where a new one goes. */
+  attributesEnd: number;
+  /** Content range: between the start and end tag (empty for `<x/>`). */
+  contentFrom: number;
+  contentTo: number;
+  to: number;
+  children: CompareElement[];
+}
+
+const SOURCE_ATTR_REGEX = /(\s+)([^\s=/>]+)\s*=\s*("[^"]*"|'[^']*')/g;
+
+/** Attributes of the start tag at `from`–`to`, read from the tag as written. */
+function readAttributes(text: string, from: number, to: number, name: string) {
+  const tag = text.slice(from, to);
+  const attributes: SourceAttribute[] = [];
+  let attributesEnd = from + 1 + name.length;
+  SOURCE_ATTR_REGEX.lastIndex = 0;
+  for (let m = SOURCE_ATTR_REGEX.exec(tag); m; m = SOURCE_ATTR_REGEX.exec(tag)) {
+    attributesEnd = from + m.index + m[0].length;
+    attributes.push({ name: m[2], value: m[3].slice(1, -1), from: from + m.index, to: attributesEnd });
+  }
+  return { attributes, attributesEnd };
+}
+
+/**
+ * The document as a virtual root element spanning the whole text, or null
+ * when it is not well-formed (mismatched or unclosed tags).
+ */
+function parseTree(text: string): CompareElement | null {
+  const root: CompareElement = {
+    name: '', id: null, attributes: [], from: 0, attributesEnd: 0,
+    contentFrom: 0, contentTo: text.length, to: text.length, children: [],
+  };
+  const stack: CompareElement[] = [root];
+  let pos = 0;
+  for (const tok of tokenizeXmlTags(text)) {
+    const end = tok.offset + tok.length;
+    pos = end;
+    if (tok.kind === 'open' || tok.kind === 'self-close') {
+      const { attributes, attributesEnd } = readAttributes(text, tok.offset, end, tok.name);
+      const rawId = attributes.find(a => a.name === 'xml:id')?.value;
+      const el: CompareElement = {
+        name: tok.name,
+        id: rawId ? rawId.trim() : null,
+        attributes,
+        from: tok.offset,
+        attributesEnd,
+        contentFrom: end,
+        contentTo: end,
+        to: end,
+        children: [],
+      };
+      stack[stack.length - 1].children.push(el);
+      if (tok.kind === 'open') stack.push(el);
+    } else if (tok.kind === 'close') {
+      const el = stack.pop();
+      if (!el || el === root || el.name !== tok.name) return null;
+      el.contentTo = tok.offset;
+      el.to = end;
+    }
+  }
+  if (stack.length > 1) return null;
+  // The tokenizer stops at an unterminated tag
+  if (text.includes('<', pos)) return null;
+  return root;
+}
+
+/** A child element, or the text between two of them. */
+type Item =
+  | { kind: 'element'; key: string; el: CompareElement; from: number; to: number }
+  | { kind: 'text'; key: '#text'; from: number; to: number };
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function contentItems(text: string, el: CompareElement, options: CompareOptions): Item[] {
+  const items: Item[] = [];
+  const ordinals = new Map<string, number>();
+  const addText = (from: number, to: number) => {
+    if (from >= to) return;
+    if (options.ignoreWhitespace && !/\S/.test(text.slice(from, to))) return;
+    items.push({ kind: 'text', key: '#text', from, to });
+  };
+  let pos = el.contentFrom;
+  for (const child of el.children) {
+    addText(pos, child.from);
+    let key: string;
+    if (child.id) {
+      key = `#${child.id}`;
+    } else {
+      const n = (ordinals.get(child.name) ?? 0) + 1;
+      ordinals.set(child.name, n);
+      key = `${child.name}[${n}]`;
+    }
+    items.push({ kind: 'element', key, el: child, from: child.from, to: child.to });
+    pos = child.to;
+  }
+  addText(pos, el.contentTo);
+  return items;
+}
+
+/** Path step of a child: `p`, `p[2]` (when it has same-name siblings), `p#p1`. */
+function pathStep(parent: CompareElement, child: CompareElement): string {
+  if (child.id) return `${child.name}#${child.id}`;
+  const same = parent.children.filter(c => c.name === child.name && !c.id);
+  return same.length > 1 ? `${child.name}[${same.indexOf(child) + 1}]` : child.name;
+}
+
+function quote(text: string, max = 40): string {
+  const flat = normalizeSpace(text);
+  return `"${flat.length > max ? `${flat.slice(0, max - 1)}…` : flat}"`;
+}
+
+function itemsSummary(items: Item[]): string {
+  const names = items.flatMap(i => (i.kind === 'element' ? [`<${i.el.name}>`] : []));
+  return names.length > 3 ? `${names.slice(0, 3).join(', ')} and ${names.length - 3} more` : names.join(', ');
+}
+
+class Comparer {
+  readonly hunks: Omit<CompareHunk, 'id'>[] = [];
+
+  constructor(
+    private readonly leftText: string,
+    private readonly rightText: string,
+    private readonly options: CompareOptions,
+  ) {}
+
+  private add(kind: HunkKind, path: string, summary: string, left: [number, number], right: [number, number]) {
+    this.hunks.push({
+      kind,
+      path,
+      summary,
+      left: { from: left[0], to: left[1], text: this.leftText.slice(left[0], left[1]) },
+      right: { from: right[0], to: right[1], text: this.rightText.slice(right[0], right[1]) },
+    });
+  }
+
+  private textEqual(a: string, b: string): boolean {
+    return this.options.ignoreWhitespace ? normalizeSpace(a) === normalizeSpace(b) : a === b;
+  }
+
+  attributes(l: CompareElement, r: CompareElement, path: string) {
+    for (const la of l.attributes) {
+      const ra = r.attributes.find(a => a.name === la.name);
+      if (!ra) {
+        this.add('attribute', path, `@${la.name} removed`, [la.from, la.to], [r.attributesEnd, r.attributesEnd]);
+      } else if (la.value !== ra.value) {
+        this.add('attribute', path, `@${la.name}: ${quote(la.value)} → ${quote(ra.value)}`, [la.from, la.to], [ra.from, ra.to]);
+      }
+    }
+    for (const ra of r.attributes) {
+      if (!l.attributes.some(a => a.name === ra.name)) {
+        this.add('attribute', path, `@${ra.name} added: ${quote(ra.value)}`, [l.attributesEnd, l.attributesEnd], [ra.from, ra.to]);
+      }
+    }
+  }
+
+  element(l: CompareElement, r: CompareElement, path: string) {
+    if (l.name !== r.name) {
+      // Same xml:id, different element
+      this.add('element', path, `<${l.name}> replaced with <${r.name}>`, [l.from, l.to], [r.from, r.to]);
+      return;
+    }
+    this.attributes(l, r, path);
+    const leftItems = contentItems(this.leftText, l, this.options);
+    const rightItems = contentItems(this.rightText, r, this.options);
+    const ops = editScript(leftItems.map(i => i.key), rightItems.map(i => i.key));
+    const here = path || '/';
+
+    let i = 0;
+    let j = 0;
+    // Where the next insertion goes on each side: after the last matched item
+    let leftPos = l.contentFrom;
+    let rightPos = r.contentFrom;
+    for (let p = 0; p < ops.length;) {
+      if (ops[p] === '=') {
+        const li = leftItems[i++];
+        const ri = rightItems[j++];
+        if (li.kind === 'element' && ri.kind === 'element') {
+          this.element(li.el, ri.el, `${path}/${pathStep(l, li.el)}`);
+        } else if (!this.textEqual(this.leftText.slice(li.from, li.to), this.rightText.slice(ri.from, ri.to))) {
+          this.add('text', here, 'text changed', [li.from, li.to], [ri.from, ri.to]);
+        }
+        leftPos = li.to;
+        rightPos = ri.to;
+        p++;
+        continue;
+      }
+      const removed: Item[] = [];
+      const added: Item[] = [];
+      for (; p < ops.length && ops[p] !== '='; p++) {
+        if (ops[p] === '-') removed.push(leftItems[i++]);
+        else added.push(rightItems[j++]);
+      }
+      // A pure insertion or removal takes the skipped whitespace before it
+      // along (ignoreWhitespace), so the merged text keeps its indentation
+      const leftRange: [number, number] = removed.length > 0
+        ? [added.length > 0 ? removed[0].from : leftPos, removed[removed.length - 1].to]
+        : [leftPos, leftPos];
+      const rightRange: [number, number] = added.length > 0
+        ? [removed.length > 0 ? added[0].from : rightPos, added[added.length - 1].to]
+        : [rightPos, rightPos];
+      leftPos = leftRange[1];
+      rightPos = rightRange[1];
+      if (this.textEqual(this.leftText.slice(...leftRange), this.rightText.slice(...rightRange))) continue;
+
+      const removedNames = itemsSummary(removed);
+      const addedNames = itemsSummary(added);
+      if (removedNames || addedNames) {
+        const summary = removedNames && addedNames
+          ? `${removedNames} replaced with ${addedNames}`
+          : removedNames ? `removed ${removedNames}` : `added ${addedNames}`;
+        this.add('element', here, summary, leftRange, rightRange);
+      } else {
+        this.add('text', here, removed.length === 0 ? 'text added' : added.length === 0 ? 'text removed' : 'text changed', leftRange, rightRange);
+      }
+    }
+  }
+}
+
+/**
+ * The differences between two documents, in left document order. Null when
+ * either is not well-formed.
+ */
+export function compareXml(left: string, right: string, options: CompareOptions = {}): CompareHunk[] | null {
+  const leftTree = parseTree(left);
+  const rightTree = parseTree(right);
+  if (!leftTree || !rightTree) return null;
+  const comparer = new Comparer(left, right, options);
+  comparer.element(leftTree, rightTree, '');
+  return comparer.hunks
+    .map((h, index) => ({ h, index }))
+    .sort((a, b) => a.h.left.from - b.h.left.from || a.index - b.index)
+    .map(({ h }, id) => ({ id, ...h }));
+}
+
+/**
+ * The left document with the right side put in for every hunk whose choice
+ * is 'right' (hunks without a choice keep the left).
+ */
+export function mergeXml(left: string, hunks: CompareHunk[], choices: ReadonlyMap<number, HunkChoice>): string {
+  const accepted = hunks.filter(h => choices.get(h.id) === 'right');
+  let out = '';
+  let pos = 0;
+  // Hunks are in left order; insertions at one offset keep that order
+  for (const h of accepted) {
+    out += left.slice(pos, h.left.from) + h.right.text;
+    pos = h.left.to;
+  }
+  return out + left.slice(pos);
+}
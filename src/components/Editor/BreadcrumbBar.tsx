@@ -1,11 +1,11 @@
 import { useMemo, useCallback, useDeferredValue } from 'react';
 import { useEditor } from '../../store/useEditor';
 import { useCursor } from '../../store/useCursor';
-import { type PathElement, offsetOf, getElementPathAtOffset } from './breadcrumbPath';
+import { type PathElement, offsetOf, elementPathAt } from './breadcrumbPath';
 import './BreadcrumbBar.css';
 
 export function BreadcrumbBar() {
-  const { getActiveDocument, scrollToLine } = useEditor();
+  const { getActiveDocument, scrollToLine, editorViewRef } = useEditor();
   // Live cursor (CursorContext) — updates without re-rendering EditorContext
   // consumers. See C7 in CHANGELOG.
   const { line: cursorLine, column: cursorColumn } = useCursor();
@@ -28,10 +28,12 @@ export function BreadcrumbBar() {
     [deferredContent, deferredLine, deferredColumn],
   );
 
-  // Get element path at cursor position
+  // Get element path at cursor position (from the editor's syntax tree when
+  // it shows this text — see elementPathAt)
   const elementPath = useMemo(
-    () => (deferredContent ? getElementPathAtOffset(deferredContent, cursorOffset) : []),
-    [deferredContent, cursorOffset],
+    // eslint-disable-next-line react-hooks/refs -- only the view's current syntax tree is read; without a view the path falls back to a text scan
+    () => elementPathAt(editorViewRef.current, deferredContent, cursorOffset),
+    [deferredContent, cursorOffset, editorViewRef],
   );
 
   const handleElementClick = useCallback(
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { InsertableElement } from './elementSkeleton';
+import './QuickTagMenu.css';
+
+interface Props {
+  /** Screen coordinates where to show the menu; null hides it */
+  position: { x: number; y: number } | null;
+  /** Element the insertion lands in (shown in the header) */
+  parentElement: string | null;
+  /** Elements allowed at the cursor, required ones first */
+  elements: InsertableElement[];
+  /** Called with the chosen element name */
+  onSelect: (name: string) => void;
+  /** Called when the menu should close without inserting */
+  onClose: () => void;
+  /** Header title (the Rename Element command reuses the picker) */
+  title?: string;
+  /** Whether Enter takes a typed name that matches no listed element */
+  allowCustomName?: boolean;
+}
+
+const XML_NAME = /^[a-zA-Z_][\w.:_-]*$/;
+
+// Same footprint as the quick tag menu (shares its stylesheet)
+const MENU_WIDTH = 280;
+const MENU_HEIGHT = 350;
+const MENU_PADDING = 8;
+const MAX_VISIBLE = 50;
+
+/**
+ * Element picker for the Insert Element command. Lists what the schema
+ * allows at the cursor — the next required child marked ★ — and hands the
+ * choice back for insertElementSkeleton. The filter input takes focus so
+ * typing never reaches the document while the menu is open. With
+ * `allowCustomName` (Rename Element), a name nothing in the list matches
+ * can be typed and taken with Enter, as in the quick tag menu.
+ */
+export function InsertElementMenu({
+  position,
+  parentElement,
+  elements,
+  onSelect,
+  onClose,
+  title = 'Insert element',
+  allowCustomName = false,
+}: Props) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [filter, setFilter] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const filtered = useMemo(() => {
+    const lower = filter.toLowerCase();
+    return lower ? elements.filter(el => el.name.toLowerCase().includes(lower)) : elements;
+  }, [elements, filter]);
+
+  // Reset selection when the filter changes, and the filter when the menu
+  // closes (render-time pattern)
+  const [prevFilter, setPrevFilter] = useState(filter);
+  if (prevFilter !== filter) {
+    setPrevFilter(filter);
+    setSelectedIndex(0);
+  }
+  const [prevPosition, setPrevPosition] = useState(position);
+  if (prevPosition !== position) {
+    setPrevPosition(position);
+    if (!position) {
+      setFilter('');
+      setSelectedIndex(0);
+    }
+  }
+
+  useEffect(() => {
+    if (position) inputRef.current?.focus();
+  }, [position]);
+
+  useEffect(() => {
+    if (!position) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [position, onClose]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('.quick-tag-item.selected')?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedIndex(prev => Math.min(prev + 1, filtered.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex(prev => Math.max(prev - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (filtered[selectedIndex]) onSelect(filtered[selectedIndex].name);
+        else if (allowCustomName && XML_NAME.test(filter)) onSelect(filter);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  }, [filtered, selectedIndex, onSelect, onClose, allowCustomName, filter]);
+
+  if (!position) return null;
+
+  // 메뉴 위치 계산 (뷰포트 내에 유지)
+  const left = Math.min(position.x, window.innerWidth - MENU_WIDTH - MENU_PADDING);
+  const top = position.y + 5 + MENU_HEIGHT > window.innerHeight - MENU_PADDING
+    ? position.y - MENU_HEIGHT - 5
+    : position.y + 5;
+
+  return (
+    <div ref={menuRef} className="quick-tag-menu" style={{ left, top }}>
+      <div className="quick-tag-header">
+        <span className="quick-tag-title">{title}</span>
+        {parentElement && <span className="quick-tag-selection">in &lt;{parentElement}&gt;</span>}
+      </div>
+
+      <div className="quick-tag-search">
+        <input
+          ref={inputRef}
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Filter elements... (↑↓ to navigate)"
+          className="quick-tag-input"
+          aria-label="Filter elements"
+        />
+        <span className="quick-tag-count">
+          {filter ? `${filtered.length} / ${elements.length}` : `${elements.length} tags`}
+        </span>
+      </div>
+
+      <div className="quick-tag-list" ref={listRef}>
+        {filtered.slice(0, MAX_VISIBLE).map((el, index) => (
+          <button
+            key={el.name}
+            className={`quick-tag-item ${index === selectedIndex ? 'selected' : ''}`}
+            onClick={() => onSelect(el.name)}
+            onMouseEnter={() => setSelectedIndex(index)}
+            title={el.required ? 'Required here' : undefined}
+          >
+            <span className="quick-tag-name">&lt;{el.name}&gt;{el.required ? ' ★' : ''}</span>
+            {el.documentation && (
+              <span className="quick-tag-desc" title={el.documentation}>
+                {el.documentation.length > 25 ? el.documentation.slice(0, 25) + '...' : el.documentation}
+              </span>
+            )}
+          </button>
+        ))}
+
+        {filtered.length === 0 && (
+          <div className="quick-tag-custom">
+            {allowCustomName && XML_NAME.test(filter)
+              ? <>Press Enter to use &lt;{filter}&gt;</>
+              : 'No element allowed here matches'}
+          </div>
+        )}
+
+        {filtered.length > MAX_VISIBLE && (
+          <div className="quick-tag-more">+{filtered.length - MAX_VISIBLE} more tags...</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ interface Props {
   position: { x: number; y: number } | null;
   /** The selected text to wrap */
   selectedText: string;
+  /** Element enclosing the selection; limits the list to its allowed children */
+  parentElement?: string | null;
   /** Called when a tag is selected */
   onSelectTag: (tagName: string) => void;
   /** Called when menu should close */
@@ -93,7 +95,7 @@ function getTagScore(tagName: string, usageData: UsageData): number {
   return usage.count + recencyBonus;
 }
 
-export function QuickTagMenu({ position, selectedText, onSelectTag, onClose, onEscape }: Props) {
+export function QuickTagMenu({ position, selectedText, parentElement, onSelectTag, onClose, onEscape }: Props) {
   const schema = useActiveSchema();
   const menuRef = useRef<HTMLDivElement>(null);
   const [filter, setFilter] = useState('');
@@ -113,7 +115,14 @@ export function QuickTagMenu({ position, selectedText, onSelectTag, onClose, onE
   const allTags = useMemo(() => {
     if (!schema) return [];
 
-    return schema.elements
+    // Inside a known element, offer what its content model allows; an
+    // unknown parent (or one without a child list) gets every element.
+    const allowed = parentElement ? schema.elementMap.get(parentElement)?.children : undefined;
+    const candidates = allowed?.length
+      ? schema.elements.filter(element => allowed.includes(element.name))
+      : schema.elements;
+
+    return candidates
       .map(element => {
         const requiredAttrs = element.attributes?.filter(a => a.required) ?? [];
         return {
@@ -129,7 +138,7 @@ export function QuickTagMenu({ position, selectedText, onSelectTag, onClose, onE
         if (scoreB !== scoreA) return scoreB - scoreA;
         return a.name.localeCompare(b.name);
       });
-  }, [schema, usageData]);
+  }, [schema, parentElement, usageData]);
 
   // Filter tags based on user input
   const filteredTags = useMemo(() => {
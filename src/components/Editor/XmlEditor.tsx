@@ -1,16 +1,30 @@
 import { useCallback, useMemo, useRef, useEffect, useState, useSyncExternalStore } from 'react';
 import CodeMirror from '@uiw/react-codemirror';
 import type { EditorView, ViewUpdate } from '@codemirror/view';
+import { Transaction } from '@codemirror/state';
+import { forceLinting } from '@codemirror/lint';
 import { useEditor } from '../../store/useEditor';
 import { useActiveSchema } from '../../hooks/useActiveSchema';
-import { useSchema } from '../../store/useSchema';
+import { useActiveSchematron } from '../../hooks/useActiveSchematron';
+import { useWorkspace } from '../../store/useWorkspace';
 import { useCursor } from '../../store/useCursor';
 import { useFileDrop } from '../../hooks/useFileDrop';
 import { useWrapSelection } from '../../hooks/useWrapSelection';
 import { useToast } from '../../components/Toast/useToast';
-import { createEditorExtensions, FILE_DROP_EVENT, QUICK_TAG_MENU_EVENT } from './extensions';
+import { createEditorExtensions, FILE_DROP_EVENT, INSERT_ELEMENT_EVENT, QUICK_TAG_MENU_EVENT, RENAME_ELEMENT_EVENT } from './extensions';
+import { insertableElementsAt, insertElementSkeleton, type InsertableElement } from './elementSkeleton';
+import { renameCandidatesAt, renameElement } from './structuralCommands';
+import { getElementContext } from './elementContext';
+import { ContextMenu, type MenuItemOrDivider } from '../ContextMenu/ContextMenu';
+import { useContextMenu } from '../ContextMenu/useContextMenu';
 import { validationErrorsCompartment, validationErrorsFacet } from './scrollbarMarkers';
+import { tagDisplayModeEffect } from './tagDisplay';
+import { getTracking, restoreTracking, trackAuthorEffect } from './trackChanges';
+import { parseSidecar, readSidecar } from '../../file/trackChangesSidecar';
 import { isValidXmlFile, getDragData } from '../../utils/dragDropUtils';
+import type { ValidationError } from '../../types/schema';
+import type { ReferenceContext } from '../../schema/referenceIntegrity';
+import type { PointerSources } from './completionSource';
 
 // Subscribe to theme changes via MutationObserver
 function subscribeToTheme(callback: () => void) {
@@ -26,6 +40,7 @@ function getThemeSnapshot() {
   return document.documentElement.getAttribute('data-theme') === 'dark';
 }
 import { QuickTagMenu } from './QuickTagMenu';
+import { InsertElementMenu } from './InsertElementMenu';
 import './XmlEditor.css';
 
 export function XmlEditor() {
@@ -36,11 +51,15 @@ export function XmlEditor() {
     setCursor,
     setTabCursor,
     setErrors,
+    setTabErrors,
+    setTabTracking,
     editorViewRef,
+    editorViewCreated,
     openFileAsTab,
   } = useEditor();
   const schema = useActiveSchema();
-  const { schematron } = useSchema();
+  const schematron = useActiveSchematron();
+  const { idIndex, authorityIndex, state: workspace } = useWorkspace();
   const { setLiveCursor } = useCursor();
   const wrapSelection = useWrapSelection();
   const { isDragOver, resetDragState, dragProps } = useFileDrop();
@@ -77,10 +96,22 @@ export function XmlEditor() {
   // Quick tag menu state
   const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
   const [selectedText, setSelectedText] = useState('');
+  const [selectionParent, setSelectionParent] = useState<string | null>(null);
   const selectionTimeoutRef = useRef<number | null>(null);
   // Suppress menu after wrap operation (prevents menu from reappearing)
   const suppressMenuUntilRef = useRef<number>(0);
 
+  // Element picker for Insert Element (palette / right-click / Mod-Shift-E)
+  // and Rename Element (F2)
+  const [insertMenu, setInsertMenu] = useState<{
+    mode: 'insert' | 'rename';
+    title: string;
+    position: { x: number; y: number };
+    parent: string | null;
+    elements: InsertableElement[];
+  } | null>(null);
+  const contextMenu = useContextMenu();
+
   // Update content ref when active document changes
   useEffect(() => {
     if (activeDoc) {
@@ -121,10 +152,49 @@ export function XmlEditor() {
   }, [activeDocId]);
 
   // Register EditorView with the context when it changes
+  // The tag display mode is global; a new editor (tab switch, reload) starts
+  // in 'full' and picks the current mode up here.
+  const tagDisplayMode = multiTabState.tagDisplayMode;
+  const tagDisplayModeRef = useRef(tagDisplayMode);
+  // Tracked changes live in the editor and are mirrored to the tab
+  // (handleUpdate); a new editor for the document starts from the copy.
+  // The author of new changes is the global reviewer name.
+  const reviewerName = multiTabState.reviewerName;
+  const reviewerNameRef = useRef(reviewerName);
+  const activeTracking = activeDoc?.tracking;
+  const activeTrackingRef = useRef(activeTracking);
+
+  const activeFilePath = activeDoc?.filePath ?? null;
+
   const handleCreateEditor = useCallback((view: EditorView) => {
     localViewRef.current = view;
-    editorViewRef.current = view;
-  }, [editorViewRef]);
+    if (tagDisplayModeRef.current !== 'full') {
+      view.dispatch({ effects: tagDisplayModeEffect(tagDisplayModeRef.current) });
+    }
+    const tracking = activeTrackingRef.current;
+    view.dispatch({
+      effects: tracking
+        ? [trackAuthorEffect(reviewerNameRef.current), restoreTracking.of(tracking)]
+        : trackAuthorEffect(reviewerNameRef.current),
+      annotations: Transaction.addToHistory.of(false),
+    });
+    // Views only exist for an active document (see the early return below)
+    editorViewCreated(view, activeDocId!, activeFilePath);
+  }, [editorViewCreated, activeDocId, activeFilePath]);
+
+  useEffect(() => {
+    tagDisplayModeRef.current = tagDisplayMode;
+    editorViewRef.current?.dispatch({ effects: tagDisplayModeEffect(tagDisplayMode) });
+  }, [tagDisplayMode, editorViewRef]);
+
+  useEffect(() => {
+    reviewerNameRef.current = reviewerName;
+    editorViewRef.current?.dispatch({ effects: trackAuthorEffect(reviewerName) });
+  }, [reviewerName, editorViewRef]);
+
+  useEffect(() => {
+    activeTrackingRef.current = activeTracking;
+  }, [activeTracking]);
 
   // Cleanup on unmount: EditorView 참조 + 타임아웃 정리
   useEffect(() => {
@@ -150,11 +220,12 @@ export function XmlEditor() {
     const handleQuickTagMenuEvent = (e: Event) => {
       const customEvent = e as CustomEvent<{
         selection?: string;
+        parent?: string | null;
         x?: number;
         y?: number;
         cancel?: boolean;
       }>;
-      const { selection, x, y, cancel } = customEvent.detail;
+      const { selection, parent, x, y, cancel } = customEvent.detail;
 
       // Handle cancel event (mousedown started)
       if (cancel) {
@@ -178,6 +249,7 @@ export function XmlEditor() {
 
         if (selection && x !== undefined && y !== undefined) {
           setSelectedText(selection);
+          setSelectionParent(parent ?? null);
           setMenuPosition({ x, y });
         }
       }, 200); // 200ms delay for menu display
@@ -187,6 +259,92 @@ export function XmlEditor() {
     return () => document.removeEventListener(QUICK_TAG_MENU_EVENT, handleQuickTagMenuEvent);
   }, []);
 
+  // Insert Element: list what the schema allows at the cursor and open the
+  // picker there. Without a schema there is nothing to scaffold from.
+  const openInsertMenu = useCallback((at?: { x: number; y: number }) => {
+    const view = localViewRef.current;
+    if (!view || !schema) return;
+    const pos = view.state.selection.main.from;
+    const rect = at ? null : view.coordsAtPos(pos);
+    const position = at ?? (rect && { x: rect.left, y: rect.bottom });
+    if (!position) return;
+    const { ancestors } = getElementContext(view.state, pos);
+    setInsertMenu({
+      mode: 'insert',
+      title: 'Insert element',
+      position,
+      parent: ancestors[ancestors.length - 1]?.name ?? null,
+      elements: insertableElementsAt(schema, view.state, pos),
+    });
+  }, [schema]);
+
+  // Rename Element: the same picker, listing what the parent allows in
+  // the element's place; any other name can be typed
+  const openRenameMenu = useCallback((at?: { x: number; y: number }) => {
+    const view = localViewRef.current;
+    if (!view) return;
+    const rename = renameCandidatesAt(schema, view.state, view.state.selection.main.head);
+    if (!rename) return;
+    const rect = at ? null : view.coordsAtPos(rename.element.from);
+    const position = at ?? (rect && { x: rect.left, y: rect.bottom });
+    if (!position) return;
+    const { element, candidates } = rename;
+    setInsertMenu({
+      mode: 'rename',
+      title: `Rename <${element.name}>`,
+      position,
+      parent: element.parent?.name ?? null,
+      elements: candidates,
+    });
+  }, [schema]);
+
+  useEffect(() => {
+    const handleInsertElement = () => openInsertMenu();
+    const handleRenameElement = () => openRenameMenu();
+    document.addEventListener(INSERT_ELEMENT_EVENT, handleInsertElement);
+    document.addEventListener(RENAME_ELEMENT_EVENT, handleRenameElement);
+    return () => {
+      document.removeEventListener(INSERT_ELEMENT_EVENT, handleInsertElement);
+      document.removeEventListener(RENAME_ELEMENT_EVENT, handleRenameElement);
+    };
+  }, [openInsertMenu, openRenameMenu]);
+
+  const handleInsertSelect = useCallback((name: string) => {
+    const view = localViewRef.current;
+    const mode = insertMenu?.mode;
+    setInsertMenu(null);
+    if (!view) return;
+    if (mode === 'rename') renameElement(name)(view);
+    else if (schema) insertElementSkeleton(view, schema, name);
+    view.focus();
+  }, [schema, insertMenu?.mode]);
+
+  const handleInsertClose = useCallback(() => {
+    setInsertMenu(null);
+    localViewRef.current?.focus();
+  }, []);
+
+  // Right-click offers Insert Element at the click. The browser's own menu
+  // stays for selected text, Shift+right-click, and documents without a schema.
+  const { open: openContextMenu } = contextMenu;
+  const handleEditorContextMenu = useCallback((e: React.MouseEvent) => {
+    const view = localViewRef.current;
+    if (!view || !schema || e.shiftKey || !view.contentDOM.contains(e.target as Node)) return;
+    const pos = view.posAtCoords({ x: e.clientX, y: e.clientY });
+    const { from, to } = view.state.selection.main;
+    if (pos === null || (from !== to && from <= pos && pos <= to)) return;
+    view.dispatch({ selection: { anchor: pos } });
+    openContextMenu(e);
+  }, [schema, openContextMenu]);
+
+  const contextMenuItems = useMemo((): MenuItemOrDivider[] => [{
+    id: 'insert-element',
+    label: 'Insert Element…',
+    icon: '⊕',
+    shortcut: 'Ctrl+Shift+E',
+    action: () => openInsertMenu({ x: contextMenu.x, y: contextMenu.y }),
+  }], [openInsertMenu, contextMenu.x, contextMenu.y]);
+
   // Listen for custom file drop events from CodeMirror extension
   // This bridges CodeMirror's drop handling to React's file open logic
   useEffect(() => {
@@ -255,12 +413,75 @@ export function XmlEditor() {
     return () => document.removeEventListener(FILE_DROP_EVENT, handleFileDrop);
   }, [openFileAsTab, toast, resetDragState]);
 
+  // Validation now resolves asynchronously (worker pass), so the result is
+  // routed to the document that was validated — never to whichever tab
+  // happens to be active when the worker answers.
+  const reportErrors = useCallback(
+    (errors: ValidationError[]) => {
+      if (activeDocId) setTabErrors(activeDocId, errors);
+      else setErrors(errors);
+    },
+    [activeDocId, setTabErrors, setErrors],
+  );
+
+  // Cross-file pointer checks need the active file's workspace path and the
+  // workspace id index. Both change without the linter being rebuilt, so
+  // the linter reads them through a ref on every pass.
+  const referencesRef = useRef<ReferenceContext | null>(null);
+  useEffect(() => {
+    referencesRef.current = activeFilePath && idIndex ? { filePath: activeFilePath, workspaceIds: idIndex } : null;
+    // A freshly built (or save-refreshed) index re-checks the open document now
+    // rather than on the next keystroke.
+    if (localViewRef.current) forceLinting(localViewRef.current);
+  }, [activeFilePath, idIndex]);
+  const getReferences = useCallback(() => referencesRef.current, []);
+
+  // Pointer completion offers the authority files' ids — read the same way.
+  const pointerSourcesRef = useRef<PointerSources | null>(null);
+  useEffect(() => {
+    pointerSourcesRef.current = activeFilePath && authorityIndex ? { filePath: activeFilePath, authorities: authorityIndex } : null;
+  }, [activeFilePath, authorityIndex]);
+  const getPointerSources = useCallback(() => pointerSourcesRef.current, []);
+
+  // A workspace file's pending changes from an earlier session
+  // (trackChangesSidecar.ts), read the first time the file is shown
+  const rootHandle = workspace.rootHandle;
+  const activeFileName = activeDoc?.fileName;
+  const sidecarCheckedRef = useRef(new Set<string>());
+  useEffect(() => {
+    if (!activeDocId || !activeFilePath || !rootHandle) return;
+    if (sidecarCheckedRef.current.has(activeDocId)) return;
+    const checked = sidecarCheckedRef.current;
+    checked.add(activeDocId);
+    let active = true;
+    let settled = false;
+    void readSidecar(rootHandle, activeFilePath).then((json) => {
+      settled = true;
+      const view = localViewRef.current;
+      // Only into the same, still untracked document
+      if (!active || json === null || !view || getTracking(view.state).changes.length > 0) return;
+      const tracking = parseSidecar(json, view.state.doc.toString());
+      if (!tracking) {
+        toast.warning(`Tracked changes saved for ${activeFileName} belong to another version of the file and were not loaded`);
+        return;
+      }
+      view.dispatch({ effects: restoreTracking.of(tracking), annotations: Transaction.addToHistory.of(false) });
+    });
+    return () => {
+      active = false;
+      // Left before the read finished: try again next time
+      if (!settled) checked.delete(activeDocId);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- once per document; the name is for the message only
+  }, [activeDocId, activeFilePath, rootHandle]);
+
   // Extensions는 schema, schematron, isDarkMode 변경 시에만 재생성
   // (reconfigure는 교체 방식 — tests/editorExtensions.test.ts가 고정)
   // 에러 업데이트는 useEffect에서 Compartment.reconfigure()로 처리
   const extensions = useMemo(
-    () => createEditorExtensions(schema, setErrors, isDarkMode, schematron),
-    [schema, setErrors, isDarkMode, schematron],
+    // eslint-disable-next-line react-hooks/refs -- the getters are only called by the linter and completion, never during render
+    () => createEditorExtensions(schema, reportErrors, isDarkMode, schematron, getReferences, getPointerSources),
+    [schema, reportErrors, isDarkMode, schematron, getReferences, getPointerSources],
   );
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -331,6 +552,11 @@ export function XmlEditor() {
         persistCursorDebounced();
       }
 
+      const tracking = getTracking(update.state);
+      if (activeDocId && tracking !== getTracking(update.startState)) {
+        setTabTracking(activeDocId, tracking);
+      }
+
       // Content is persisted in handleChange (onChange) — no doc.toString()
       // here. handleUpdate only handles cursor + selection UI below.
 
@@ -349,7 +575,7 @@ export function XmlEditor() {
         setSelectedText('');
       }
     },
-    [setLiveCursor, persistCursorDebounced],
+    [setLiveCursor, persistCursorDebounced, activeDocId, setTabTracking],
   );
 
   // Handle tag selection from quick menu
@@ -418,6 +644,7 @@ export function XmlEditor() {
       className={`xml-editor ${isDragOver ? 'drag-over' : ''}`}
       style={{ '--editor-font-size': `${multiTabState.editorFontSize}px` } as React.CSSProperties}
       {...dragProps}
+      onContextMenu={handleEditorContextMenu}
     >
       <CodeMirror
         key={editorKey}
@@ -444,11 +671,27 @@ export function XmlEditor() {
       <QuickTagMenu
         position={menuPosition}
         selectedText={selectedText}
+        parentElement={selectionParent}
         onSelectTag={handleQuickTagSelect}
         onClose={handleMenuClose}
         onEscape={handleMenuEscape}
       />
 
+      {/* Element picker - Insert Element (Ctrl+Shift+E) or Rename Element (F2) */}
+      <InsertElementMenu
+        title={insertMenu?.title}
+        position={insertMenu?.position ?? null}
+        parentElement={insertMenu?.parent ?? null}
+        elements={insertMenu?.elements ?? []}
+        allowCustomName={insertMenu?.mode === 'rename'}
+        onSelect={handleInsertSelect}
+        onClose={handleInsertClose}
+      />
+
+      {contextMenu.isOpen && (
+        <ContextMenu x={contextMenu.x} y={contextMenu.y} items={contextMenuItems} onClose={contextMenu.close} />
+      )}
+
       {/* Drop overlay - appears when dragging files over editor */}
       {isDragOver && (
         <div className="drop-overlay">
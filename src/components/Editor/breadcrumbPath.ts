@@ -5,9 +5,15 @@
  * Both functions are bounded by the CURSOR OFFSET, not the whole document, and
  * allocate no full line array — important because the breadcrumb recomputes on
  * cursor movement (finding #2: the previous code split the entire document on
- * every cursor move, defeating the CursorContext split).
+ * every cursor move, defeating the CursorContext split). When the editor's
+ * syntax tree is available, the path comes from the element-context service
+ * instead (pathFromElementContext) and no text is scanned at all.
  */
 
+import type { Text } from '@codemirror/state';
+import type { EditorView } from '@codemirror/view';
+import { elementContextFromTree, type ElementContext } from './elementContext';
+
 export interface PathElement {
   name: string;
   line: number;
@@ -83,3 +89,21 @@ export function getElementPathAtOffset(content: string, offset: number): PathEle
 
   return path;
 }
+
+/** The breadcrumb path for an element context (see elementContext.ts). */
+export function pathFromElementContext(doc: Text, context: ElementContext): PathElement[] {
+  return context.ancestors.map(({ name, from }) => ({ name, line: doc.lineAt(from).number, offset: from }));
+}
+
+/**
+ * The breadcrumb path at `offset` of `content`: an O(depth) walk of the
+ * editor's syntax tree while `view` shows this text, else the text scan.
+ * BreadcrumbBar's copy of the content is deferred and can lag the view by
+ * a render; a length mismatch is the cheap tell.
+ */
+export function elementPathAt(view: EditorView | null, content: string, offset: number): PathElement[] {
+  if (!content) return [];
+  const state = view?.state;
+  const context = state && state.doc.length === content.length ? elementContextFromTree(state, offset) : null;
+  return state && context ? pathFromElementContext(state.doc, context) : getElementPathAtOffset(content, offset);
+}
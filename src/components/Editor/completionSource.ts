@@ -2,8 +2,17 @@ import type { CompletionContext, CompletionResult, Completion } from '@codemirro
 import { snippetCompletion } from '@codemirror/autocomplete';
 import type { SchemaInfo, ElementSpec } from '../../types/schema';
 import { getRequiredChildren } from '../../schema/xmlValidator';
-import { getOpenElementStackWithChildren, scanAttributeNames, type OpenElementFrame } from '../../schema/xmlTokenizer';
+import { allowedChildrenAt } from '../../schema/rngValidator';
+import { datatypeOf } from '../../schema/attributeDatatypes';
+import {
+  collectIdTargets,
+  isPointerAttribute,
+  relativeWorkspacePath,
+  type AuthorityIndex,
+  type IdTarget,
+} from '../../schema/referenceIntegrity';
 import { getAttribute, getAttributes, getElement } from '../../schema/schemaQuery';
+import { getElementContext, type ElementContext } from './elementContext';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // 정규식 캐싱 (모듈 레벨)
@@ -20,11 +29,16 @@ const ATTR_NAME_REGEX = /<([a-zA-Z_][\w.:_-]*)\s[^>]*?([a-zA-Z_][\w.:_-]*)$/;
 const SPACE_IN_TAG_REGEX = /<([a-zA-Z_][\w.:_-]*)(?:\s[^>]*)?\s$/;
 /** 닫는 태그 입력 패턴: </tagName */
 const CLOSING_TAG_REGEX = /<\/([a-zA-Z_][\w.:_-]*)$/;
-/** 열린 태그 패턴: <tag attrs... */
-const OPEN_TAG_REGEX = /<([a-zA-Z_][\w.:_-]*)(\s[^>]*)?$/;
 /** 등호 직후 패턴 */
 const AFTER_EQUALS_REGEX = /=\s*$/;
 
+/** Pointer targets outside the document: the workspace's authority files. */
+export interface PointerSources {
+  /** Workspace path of the edited document; pointers are written relative to it. */
+  filePath: string;
+  authorities: AuthorityIndex;
+}
+
 /**
  * Creates a CodeMirror completion source with context-aware TEI suggestions.
  *
@@ -35,7 +49,10 @@ const AFTER_EQUALS_REGEX = /=\s*$/;
  * This gives contextually valid completions — e.g., inside <teiHeader>,
  * only header-valid elements are suggested, not <p> or <lg>.
  */
-export function createSchemaCompletionSource(schema: SchemaInfo | null) {
+export function createSchemaCompletionSource(
+  schema: SchemaInfo | null,
+  getPointerSources?: () => PointerSources | null,
+) {
   return function teiCompletionSource(context: CompletionContext): CompletionResult | null {
     if (!schema) return null;
 
@@ -44,71 +61,63 @@ export function createSchemaCompletionSource(schema: SchemaInfo | null) {
     // inherently local (partial tag/attribute being typed at the cursor).
     const textBefore = state.doc.sliceString(Math.max(0, pos - 2000), pos);
 
-    // Element context (parent + its children so far) must see the WHOLE
-    // document before the cursor: the parent element usually opened far
-    // beyond any fixed window (a 2,000-char window silently degraded
-    // completions to the unfiltered element list in real-sized documents).
+    // Element context (parent, its children so far, the attributes already
+    // on the tag being edited) comes from the shared element-context service
+    // (elementContext.ts): an O(depth) walk of the incremental lang-xml
+    // syntax tree, or — for states without the XML language — a tokenizer
+    // pass over the whole document before the cursor. Either way the parent
+    // is found however far back it opened (a 2,000-char window once
+    // silently degraded completions to the unfiltered element list).
     // Computed lazily so keystrokes that trigger no completion — ordinary
-    // text content — never pay for the full-document scan.
-    //
-    // Cost (audit #15): every complete* result below sets `validFor`, so CM
-    // filters as the user types the name and only RE-INVOKES this source once
-    // per tag opened (per `<`/`</`), not per keystroke — so the O(prefix)
-    // sliceString + tokenize runs once per tag, not per character. The proper
-    // O(depth) fix is to derive the ancestor chain from the incremental
-    // lang-xml syntax tree (syntaxTree(state).resolveInner(pos)); that is
-    // deferred as a dedicated task because the completion tests build plain
-    // EditorStates with no language (no tree), so switching would need a
-    // test-harness rewrite and risks semantic divergence on this
-    // correctness-critical path.
-    let cachedStack: OpenElementFrame[] | null = null;
-    const getStack = (): OpenElementFrame[] =>
-      (cachedStack ??= getOpenElementStackWithChildren(state.doc.sliceString(0, pos)));
+    // text content — never pay for it; and every complete* result below sets
+    // `validFor`, so CM re-invokes this source once per tag opened, not per
+    // keystroke (audit #15).
+    let cachedContext: ElementContext | null = null;
+    const getContext = (): ElementContext => (cachedContext ??= getElementContext(state, pos));
 
     // 요소명 자동완성: '<' 뒤에서 요소명 타이핑 중
     const elementMatch = textBefore.match(ELEMENT_START_REGEX);
     if (elementMatch) {
-      const top = getStack()[getStack().length - 1];
-      const parentSpec = top ? getElement(schema, top.name) : null;
-      return completeElementName(schema, elementMatch[1], pos - elementMatch[1].length, parentSpec, top?.children ?? []);
+      return completeElementName(schema, elementMatch[1], pos - elementMatch[1].length, getContext());
     }
 
     // 요소 시작: '<' 직후 (닫는 태그 제외)
     if (textBefore.endsWith('<') && !textBefore.endsWith('</')) {
-      const top = getStack()[getStack().length - 1];
-      const parentSpec = top ? getElement(schema, top.name) : null;
-      return completeElementName(schema, '', pos, parentSpec, top?.children ?? []);
+      return completeElementName(schema, '', pos, getContext());
     }
 
     // 속성값 자동완성: attr="value 입력 중 (속성명보다 먼저 체크)
     const valueMatch = textBefore.match(ATTR_VALUE_REGEX);
     if (valueMatch) {
+      if (isPointer(schema, valueMatch[1], valueMatch[2])) {
+        // Pointer lists are whitespace-separated; complete the last one.
+        const pointer = valueMatch[3].slice(valueMatch[3].search(/\S*$/));
+        return completePointer(state.doc.toString(), pointer, pos - pointer.length, getPointerSources?.() ?? null);
+      }
       return completeAttributeValue(schema, valueMatch[1], valueMatch[2], valueMatch[3], pos - valueMatch[3].length);
     }
 
     // 속성명 자동완성: 여는 태그 내에서 속성명 타이핑 중
     const attrMatch = textBefore.match(ATTR_NAME_REGEX);
     if (attrMatch) {
-      const usedAttrs = getUsedAttributes(textBefore);
-      return completeAttributeName(schema, attrMatch[1], attrMatch[2], pos - attrMatch[2].length, usedAttrs);
+      return completeAttributeName(schema, attrMatch[1], attrMatch[2], pos - attrMatch[2].length, usedAttributes(getContext()));
     }
 
     // 태그 내 스페이스: 첫 스페이스 또는 속성 후 스페이스
     const spaceInTagMatch = textBefore.match(SPACE_IN_TAG_REGEX);
     if (spaceInTagMatch && !AFTER_EQUALS_REGEX.test(textBefore)) {
       // '=' 직후에는 트리거하지 않음 (값 입력 대기 중)
-      const usedAttrs = getUsedAttributes(textBefore);
-      return completeAttributeName(schema, spaceInTagMatch[1], '', pos, usedAttrs);
+      return completeAttributeName(schema, spaceInTagMatch[1], '', pos, usedAttributes(getContext()));
     }
 
     // 닫는 태그 자동완성: '</' 뒤에서 타이핑 중
     const closingMatch = textBefore.match(CLOSING_TAG_REGEX);
     if (closingMatch) {
-      return completeClosingTag(closingMatch[1], pos - closingMatch[1].length, getStack().map(f => f.name));
+      return completeClosingTag(closingMatch[1], pos - closingMatch[1].length, getContext().ancestors.map(f => f.name));
     }
 
     if (textBefore.endsWith('</')) {
-      return completeClosingTag('', pos, getStack().map(f => f.name));
+      return completeClosingTag('', pos, getContext().ancestors.map(f => f.name));
     }
 
     return null;
@@ -116,22 +125,12 @@ export function createSchemaCompletionSource(schema: SchemaInfo | null) {
 }
 
 /**
- * 현재 열린 태그에서 이미 사용된 속성명 추출
- * (중복 속성 제안 방지용)
- *
- * Quote-aware: `name=` patterns inside quoted attribute VALUES (URLs with
- * query strings, etc.) are not mistaken for attribute names.
+ * 현재 열린 태그에서 이미 사용된 속성명 (중복 속성 제안 방지용).
+ * The service's scan is quote-aware: `name=` patterns inside quoted
+ * attribute VALUES (URLs with query strings, etc.) are not attribute names.
  */
-function getUsedAttributes(text: string): Set<string> {
-  const used = new Set<string>();
-  // 닫히지 않은 마지막 여는 태그 찾기
-  const tagMatch = text.match(OPEN_TAG_REGEX);
-  if (tagMatch && tagMatch[2]) {
-    for (const occ of scanAttributeNames(tagMatch[2])) {
-      used.add(occ.name);
-    }
-  }
-  return used;
+function usedAttributes(ctx: ElementContext): Set<string> {
+  return new Set(ctx.tag?.attributes ?? []);
 }
 
 /**
@@ -185,7 +184,8 @@ function makeElementCompletion(el: ElementSpec, boost: number, isRequired: boole
 }
 
 /**
- * Get allowed children with required status based on ContentModel.
+ * Allowed children from the flat children list, with required status from
+ * the ContentModel — for parents whose model the grammar can't evaluate.
  */
 function getAllowedNextChildren(
   parentSpec: ElementSpec | null | undefined,
@@ -212,16 +212,42 @@ function getAllowedNextChildren(
   return result;
 }
 
+/**
+ * Elements the schema allows at the context's position inside its parent.
+ *
+ * When the parent's content model compiles (allowedChildrenAt), only
+ * children valid at this exact point of the sequence — judged against the
+ * siblings before AND after the position, so an exhausted maxOccurs or an
+ * out-of-order element drops out — with `required` on the next expected
+ * element. Otherwise the flat children list, with `required` for required
+ * children not present yet. Null when there is no parent or it has no
+ * child list (anything goes).
+ */
+export function allowedElementsAt(
+  schema: SchemaInfo,
+  ctx: ElementContext,
+): { name: string; required: boolean }[] | null {
+  const parent = ctx.ancestors[ctx.ancestors.length - 1];
+  const parentSpec = parent ? getElement(schema, parent.name) : null;
+  if (!parentSpec?.children || parentSpec.children.length === 0) return null;
+  return allowedChildrenAt(schema, parentSpec.name, ctx.siblings, ctx.followingSiblings)
+    ?? getAllowedNextChildren(parentSpec, ctx.siblings);
+}
+
+/**
+ * Element name completion inside the cursor's parent: the elements of
+ * allowedElementsAt, the next expected ones with ★ and ranked first.
+ */
 function completeElementName(
   schema: SchemaInfo,
   partial: string,
   from: number,
-  parentSpec: ElementSpec | null | undefined,
-  existingChildren: string[] = [],
+  ctx: ElementContext,
 ): CompletionResult {
+  const allowedInfo = allowedElementsAt(schema, ctx);
+
   // Use context-aware filtering: only suggest children valid in the parent
-  if (parentSpec?.children && parentSpec.children.length > 0) {
-    const allowedInfo = getAllowedNextChildren(parentSpec, existingChildren);
+  if (allowedInfo) {
     const allowedSet = new Set(allowedInfo.map(a => a.name));
     const requiredSet = new Set(allowedInfo.filter(a => a.required).map(a => a.name));
 
@@ -299,6 +325,46 @@ function completeAttributeValue(
   return { from, options, validFor: /^[a-zA-Z_][\w.:_-]*$/ };
 }
 
+/** teidata.pointer by the schema, or a pointer attribute the schema doesn't type. */
+function isPointer(schema: SchemaInfo, elementName: string, attrName: string): boolean {
+  const spec = getAttribute(schema, elementName, attrName);
+  const datatype = spec ? datatypeOf(spec) : undefined;
+  return datatype ? datatype === 'teidata.pointer' : isPointerAttribute(attrName);
+}
+
+/**
+ * Pointer value completion: `#id` for every xml:id in the document, then
+ * `persons.xml#id` for the ids in the workspace's authority files. Each
+ * option shows the target element and the start of its text.
+ */
+function completePointer(
+  doc: string,
+  partial: string,
+  from: number,
+  sources: PointerSources | null,
+): CompletionResult {
+  const option = (target: IdTarget, label: string, boost: number): Completion => ({
+    label,
+    type: 'variable',
+    detail: `<${target.element}>${target.preview ? ` ${target.preview}` : ''}`,
+    boost,
+  });
+
+  const options = collectIdTargets(doc).map((t) => option(t, `#${t.id}`, 1));
+  for (const [path, targets] of sources?.authorities ?? []) {
+    if (path === sources!.filePath) continue; // already offered as #id
+    const prefix = relativeWorkspacePath(sources!.filePath, path);
+    options.push(...targets.map((t) => option(t, `${prefix}#${t.id}`, 0)));
+  }
+
+  const lower = partial.toLowerCase();
+  return {
+    from,
+    options: options.filter((o) => o.label.toLowerCase().includes(lower)),
+    validFor: /^[^\s"'<>]*$/,
+  };
+}
+
 function completeClosingTag(
   partial: string,
   from: number,
@@ -0,0 +1,229 @@
+/**
+ * Element context at a document position — the shared answer to "where am I
+ * in the element tree?" for completion, the breadcrumb, tag sync, paragraph
+ * indentation and the quick tag menu.
+ *
+ * Read from the lang-xml syntax tree (`syntaxTree(state)`), which CodeMirror
+ * keeps up to date incrementally: the ancestor chain is a walk up from the
+ * node at the position — O(depth), no re-tokenizing of the text before it.
+ * When the state has no XML language (plain EditorStates in tests, or text
+ * outside an editor) or the parser can't reach the position within a small
+ * time budget, the same answer is computed by the tag tokenizer instead.
+ *
+ * Both paths agree on well-formed input (tests/elementContext.test.ts runs
+ * the existing fixtures through both). On malformed input the tree is the
+ * more faithful: `<a><b>x</a>` closes both elements, where the tokenizer's
+ * tolerant stack keeps `b` open.
+ */
+
+import { ensureSyntaxTree } from '@codemirror/language';
+import type { EditorState } from '@codemirror/state';
+import type { SyntaxNode } from '@lezer/common';
+import { scanAttributeNames, tokenizeXmlTags } from '../../schema/xmlTokenizer';
+
+/** One open element around the position. */
+export interface ElementFrame {
+  name: string;
+  /** Offset of the start tag's `<`. */
+  from: number;
+}
+
+/** The start tag the position is inside (typing attributes). */
+export interface TagContext {
+  name: string;
+  /** Offset of the tag's `<`. */
+  from: number;
+  /** Attributes already on the tag, except one being typed at the position. */
+  attributes: string[];
+}
+
+export interface ElementContext {
+  /** Open elements around the position, outermost first. */
+  ancestors: ElementFrame[];
+  /** Child elements of the innermost ancestor that start before the position. */
+  siblings: string[];
+  /** Child elements of the innermost ancestor that start after the position. */
+  followingSiblings: string[];
+  tag: TagContext | null;
+}
+
+/** Time the parser may spend catching up to a position before we fall back. */
+const PARSE_BUDGET_MS = 50;
+
+/** Characters before the position searched for an unclosed start tag (fallback path). */
+const TAG_WINDOW = 2000;
+
+const OPEN_TAG_REGEX = /<([a-zA-Z_][\w.:_-]*)(\s[^>]*)?$/;
+
+/** Element context at `pos`, from the syntax tree when there is one. */
+export function getElementContext(state: EditorState, pos: number): ElementContext {
+  return elementContextFromTree(state, pos) ?? elementContextFromText(state, pos);
+}
+
+/**
+ * Element context from the syntax tree, or null when the state has no XML
+ * tree covering `pos` (callers with a cheaper fallback of their own use this).
+ */
+export function elementContextFromTree(state: EditorState, pos: number): ElementContext | null {
+  const tree = ensureSyntaxTree(state, pos, PARSE_BUDGET_MS);
+  if (!tree || tree.length < pos) return null;
+
+  const inner = tree.resolveInner(pos, -1);
+  const ancestors: ElementFrame[] = [];
+  let innermost: SyntaxNode | null = null;
+  let tag: TagContext | null = null;
+
+  for (let node: SyntaxNode | null = inner; node; node = node.parent) {
+    if (!tag && (node.name === 'OpenTag' || node.name === 'SelfClosingTag')) {
+      tag = tagContextAt(state, node, pos);
+    }
+    if (node.name !== 'Element') continue;
+    const open = node.firstChild;
+    if (!open || open.name !== 'OpenTag' || !isComplete(open) || open.to > pos) continue;
+    const close = node.getChild('CloseTag');
+    if (close && isComplete(close) && close.to <= pos) continue;
+    const name = tagName(state, open);
+    if (!name) continue;
+    ancestors.unshift({ name, from: node.from });
+    innermost ??= node;
+  }
+
+  return {
+    ancestors,
+    siblings: innermost ? childElementsBefore(state, innermost, pos) : [],
+    followingSiblings: innermost ? childElementsAfter(state, innermost, pos) : [],
+    tag,
+  };
+}
+
+/**
+ * The tag whose name matches the tag at `tagFrom` (its close for a start
+ * tag, its start for a close tag), as `{ from, to, nameFrom, nameTo }`.
+ * `null` when it has none; `undefined` when the tree can't tell (no XML
+ * tree, or not parsed far enough) — callers then fall back to a text scan.
+ */
+export function matchingTagFromTree(
+  state: EditorState,
+  tagFrom: number,
+): { from: number; to: number; nameFrom: number; nameTo: number } | null | undefined {
+  const tree = ensureSyntaxTree(state, state.doc.length, PARSE_BUDGET_MS);
+  if (!tree || tree.length < state.doc.length) return undefined;
+
+  let tagNode: SyntaxNode | null = tree.resolveInner(tagFrom, 1);
+  while (tagNode && tagNode.name !== 'OpenTag' && tagNode.name !== 'CloseTag') tagNode = tagNode.parent;
+  if (!tagNode || tagNode.from !== tagFrom || !tagNode.parent) return undefined;
+
+  const element = tagNode.parent;
+  const other = tagNode.name === 'OpenTag' ? element.getChild('CloseTag') : element.getChild('OpenTag');
+  if (!other || !isComplete(other)) return null;
+  const name = tagNode.getChild('TagName');
+  const otherName = other.getChild('TagName');
+  if (!name || !otherName || state.sliceDoc(name.from, name.to) !== state.sliceDoc(otherName.from, otherName.to)) {
+    return null;
+  }
+  return { from: other.from, to: other.to, nameFrom: otherName.from, nameTo: otherName.to };
+}
+
+/** Tokenizer fallback — same results as the tree on well-formed input. */
+function elementContextFromText(state: EditorState, pos: number): ElementContext {
+  const stack: (ElementFrame & { children: string[] })[] = [];
+  for (const tok of tokenizeXmlTags(state.doc.sliceString(0, pos))) {
+    if (tok.kind === 'close') {
+      // Only pop on a match, so a stray close tag keeps a sensible parent.
+      if (stack[stack.length - 1]?.name === tok.name) stack.pop();
+    } else if (tok.kind === 'open' || tok.kind === 'self-close') {
+      stack[stack.length - 1]?.children.push(tok.name);
+      if (tok.kind === 'open') stack.push({ name: tok.name, from: tok.offset, children: [] });
+    }
+  }
+
+  const windowStart = Math.max(0, pos - TAG_WINDOW);
+  const match = state.doc.sliceString(windowStart, pos).match(OPEN_TAG_REGEX);
+  const tag = match
+    ? {
+        name: match[1],
+        from: windowStart + match.index!,
+        attributes: match[2] ? scanAttributeNames(match[2]).map((occ) => occ.name) : [],
+      }
+    : null;
+
+  return {
+    ancestors: stack.map(({ name, from }) => ({ name, from })),
+    siblings: stack[stack.length - 1]?.children ?? [],
+    followingSiblings: stack.length > 0 ? followingSiblingsFromText(state, pos) : [],
+    tag,
+  };
+}
+
+/** Element children from `pos` up to the close tag of the element around it. */
+function followingSiblingsFromText(state: EditorState, pos: number): string[] {
+  const names: string[] = [];
+  let depth = 0;
+  for (const tok of tokenizeXmlTags(state.doc.sliceString(pos))) {
+    if (tok.kind === 'close') {
+      if (depth === 0) break;
+      depth--;
+    } else if (tok.kind === 'open' || tok.kind === 'self-close') {
+      if (depth === 0) names.push(tok.name);
+      if (tok.kind === 'open') depth++;
+    }
+  }
+  return names;
+}
+
+function tagContextAt(state: EditorState, node: SyntaxNode, pos: number): TagContext | null {
+  if (pos <= node.from || (isComplete(node) && pos >= node.to)) return null;
+  const name = tagName(state, node);
+  if (!name) return null;
+  const attributes: string[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.name !== 'Attribute' || (child.from <= pos && pos <= child.to)) continue;
+    const attrName = child.getChild('AttributeName');
+    if (attrName) attributes.push(state.sliceDoc(attrName.from, attrName.to));
+  }
+  return { name, from: node.from, attributes };
+}
+
+function childElementsBefore(state: EditorState, element: SyntaxNode, pos: number): string[] {
+  const names: string[] = [];
+  for (let child = element.firstChild; child && child.from < pos; child = child.nextSibling) {
+    if (child.name !== 'Element') continue;
+    const open = child.firstChild;
+    if (!open || !isComplete(open) || open.to > pos) continue;
+    const name = tagName(state, open);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+function childElementsAfter(state: EditorState, element: SyntaxNode, pos: number): string[] {
+  const names: string[] = [];
+  const collect = (parent: SyntaxNode) => {
+    for (let child = parent.firstChild; child; child = child.nextSibling) {
+      if (child.name !== 'Element' || child.to <= pos) continue;
+      const open = child.firstChild;
+      if (!open) continue;
+      // A half-typed start tag (`<` or `<na` at the cursor) makes the parser
+      // nest everything after it inside; those are really siblings.
+      if (open.name === 'OpenTag' && !isComplete(open)) {
+        collect(child);
+      } else if (open.from >= pos) {
+        const name = tagName(state, open);
+        if (name) names.push(name);
+      }
+    }
+  };
+  collect(element);
+  return names;
+}
+
+/** Whether a start/close tag node got as far as its `>` or `/>`. */
+function isComplete(tag: SyntaxNode): boolean {
+  const last = tag.lastChild;
+  return last !== null && (last.name === 'EndTag' || last.name === 'SelfCloseEndTag');
+}
+
+function tagName(state: EditorState, tag: SyntaxNode): string | null {
+  const name = tag.getChild('TagName');
+  return name ? state.sliceDoc(name.from, name.to) : null;
+}
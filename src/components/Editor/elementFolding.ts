@@ -0,0 +1,62 @@
+/**
+ * Element folding driven by the XML structure.
+ *
+ * lang-xml already marks every element as foldable (its content, between
+ * the start and end tag) and the fold gutter uses that. The gutter and the
+ * default Ctrl-Shift-[ fold what starts on the cursor's line, though; with
+ * inline markup several elements start on one line. `foldElement` folds the
+ * element the cursor is in instead, and each further call folds the next
+ * enclosing element, so the View menu can collapse structure outward.
+ */
+
+import { type EditorState, StateEffect, type StateCommand } from '@codemirror/state';
+import { codeFolding, foldEffect, foldState, foldedRanges, syntaxTree } from '@codemirror/language';
+import type { SyntaxNode } from '@lezer/common';
+
+/** Content range of an element node (between its start and end tag). */
+export interface FoldRange {
+  name: string;
+  from: number;
+  to: number;
+}
+
+function isFolded(state: EditorState, range: FoldRange): boolean {
+  let folded = false;
+  foldedRanges(state).between(range.from, range.to, (from, to) => {
+    if (from === range.from && to === range.to) folded = true;
+  });
+  return folded;
+}
+
+/**
+ * The enclosing elements of `pos` that can be folded, innermost first:
+ * those whose content spans more than one line.
+ */
+export function foldableElementsAt(state: EditorState, pos: number): FoldRange[] {
+  const ranges: FoldRange[] = [];
+  for (let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, 1); node; node = node.parent) {
+    if (node.name !== 'Element') continue;
+    const open = node.firstChild;
+    const close = node.lastChild;
+    if (!open || open.name !== 'OpenTag') continue;
+    const nameNode = open.getChild('TagName');
+    const to = close && close.name === 'CloseTag' ? close.from : node.to;
+    if (to <= open.to || state.doc.lineAt(open.to).number === state.doc.lineAt(to).number) continue;
+    ranges.push({ name: nameNode ? state.sliceDoc(nameNode.from, nameNode.to) : '', from: open.to, to });
+  }
+  return ranges;
+}
+
+/**
+ * Fold the innermost element around the cursor that is not folded yet.
+ * False when there is none.
+ */
+export const foldElement: StateCommand = ({ state, dispatch }) => {
+  const target = foldableElementsAt(state, state.selection.main.head).find(range => !isFolded(state, range));
+  if (!target) return false;
+  const effects: StateEffect<unknown>[] = [foldEffect.of({ from: target.from, to: target.to })];
+  // The fold state lives in codeFolding(); add it if the editor has none
+  if (!state.field(foldState, false)) effects.push(StateEffect.appendConfig.of(codeFolding()));
+  dispatch(state.update({ effects }));
+  return true;
+};
@@ -0,0 +1,175 @@
+/**
+ * Insert Element — an element together with everything its content model
+ * requires, as a snippet whose tab-stops walk the required values.
+ *
+ * With a TEI-like model, `<choice>` becomes
+ * `<choice><sic>${1}</sic><corr>${2}</corr></choice>` and `<msDesc>` comes
+ * with its msIdentifier (repository, idno). The walk is the one
+ * getRequiredChildren does over the ContentModel, extended to what it
+ * skips: a required choice takes its first alternative not used yet,
+ * minOccurs > 1 repeats, and each child is scaffolded the same way
+ * recursively. Every required attribute value and every leaf's content is a
+ * numbered field, in document order.
+ *
+ * The skeleton is only as exact as the schema's ContentModel. Project RNG
+ * schemas carry the real one; the built-in schemas and ODDs get it for the
+ * header, the text frame and the compound elements (teiContentModels.ts),
+ * so `<biblStruct>` comes with monogr and imprint. Other TEI All elements
+ * keep a relaxed model that requires nothing (teiStaticSchema.ts) and come
+ * with their required attributes only.
+ */
+
+import { snippet } from '@codemirror/autocomplete';
+import type { EditorState } from '@codemirror/state';
+import type { EditorView } from '@codemirror/view';
+import type { ContentItem, ContentModel, ElementSpec, SchemaInfo } from '../../types/schema';
+import { getElement } from '../../schema/schemaQuery';
+import { allowedElementsAt } from './completionSource';
+import { getElementContext } from './elementContext';
+
+/** Nesting levels scaffolded below the inserted element. */
+const MAX_DEPTH = 6;
+
+/** Repetitions written out for a large minOccurs. */
+const MAX_REPEAT = 4;
+
+/** An element offered by the Insert Element command. */
+export interface InsertableElement {
+  name: string;
+  /** The parent still needs it (the next expected child). */
+  required: boolean;
+  documentation: string;
+}
+
+/**
+ * Elements that may be inserted at `pos`: the parent's allowed children
+ * there (required ones first), or every element outside a known parent.
+ */
+export function insertableElementsAt(schema: SchemaInfo, state: EditorState, pos: number): InsertableElement[] {
+  const allowed = allowedElementsAt(schema, getElementContext(state, pos))
+    ?? schema.elements.map(el => ({ name: el.name, required: false }));
+  return allowed
+    .map(({ name, required }) => ({ name, required, documentation: getElement(schema, name)?.documentation ?? '' }))
+    .sort((a, b) => Number(b.required) - Number(a.required) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Snippet template for `name` with its required attributes and content.
+ * `block` lays element-only content out one child per line (indented with
+ * `\t`, which the snippet expands to the editor's indent unit); mixed
+ * content always stays on one line.
+ */
+export function buildElementSkeleton(schema: SchemaInfo, name: string, block = false): string {
+  let field = 0;
+  const nextField = (value = '') => `\${${++field}${value ? `:${value.replace(/[{}]/g, '')}` : ''}}`;
+
+  const render = (elementName: string, path: string[], level: number, inline: boolean): string => {
+    const spec = getElement(schema, elementName);
+    const attrs = (spec?.attributes ?? [])
+      .filter(a => a.required)
+      .map(a => ` ${a.name}="${nextField(a.defaultValue)}"`)
+      .join('');
+    if (spec && isEmptyElement(spec)) return `<${elementName}${attrs}/>`;
+
+    const children = spec?.contentModel && path.length < MAX_DEPTH && !path.includes(elementName)
+      ? requiredChildNames(spec.contentModel, elementName)
+      : [];
+    if (children.length === 0) return `<${elementName}${attrs}>${nextField()}</${elementName}>`;
+
+    const childPath = [...path, elementName];
+    if (inline || allowsText(spec!)) {
+      const content = children.map(child => render(child, childPath, level + 1, true)).join('');
+      return `<${elementName}${attrs}>${content}</${elementName}>`;
+    }
+    const indent = '\t'.repeat(level + 1);
+    const lines = children.map(child => indent + render(child, childPath, level + 1, false));
+    return `<${elementName}${attrs}>\n${lines.join('\n')}\n${'\t'.repeat(level)}</${elementName}>`;
+  };
+
+  return render(name, [], 0, !block);
+}
+
+/**
+ * Replace the selection with the skeleton of `name` and start its snippet.
+ * On an otherwise blank line element-only content is laid out in block form.
+ */
+export function insertElementSkeleton(view: EditorView, schema: SchemaInfo, name: string): void {
+  const { from, to } = view.state.selection.main;
+  const line = view.state.doc.lineAt(from);
+  const block = /^\s*$/.test(view.state.sliceDoc(line.from, from))
+    && /^\s*$/.test(view.state.sliceDoc(to, view.state.doc.lineAt(to).to));
+  snippet(buildElementSkeleton(schema, name, block))(view, null, from, to);
+}
+
+function isEmptyElement(spec: ElementSpec): boolean {
+  if (spec.contentModel || spec.contentModelType) {
+    return spec.contentModel?.type === 'empty' || spec.contentModelType === 'empty';
+  }
+  // No model at all: same rule as element completion (no children → empty)
+  return !spec.children || spec.children.length === 0;
+}
+
+function allowsText(spec: ElementSpec): boolean {
+  if (!spec.contentModel) return spec.contentModelType !== 'empty';
+  const visit = (model: ContentModel): boolean =>
+    model.type === 'text' || (model.items ?? []).some(item => item.kind === 'text' || (item.content ? visit(item.content) : false));
+  return visit(spec.contentModel);
+}
+
+/** Element children a model needs at minimum, in order. */
+function requiredChildNames(model: ContentModel, self: string): string[] {
+  const names: string[] = [];
+  addModel(model, self, names);
+  return names;
+}
+
+function addModel(model: ContentModel, self: string, names: string[]): void {
+  if (model.minOccurs === 0 || model.type === 'empty' || model.type === 'text') return;
+  const repeat = Math.min(Math.max(model.minOccurs, 1), MAX_REPEAT);
+  for (let i = 0; i < repeat; i++) {
+    if (model.type !== 'choice') {
+      for (const item of model.items ?? []) {
+        for (let j = 0; j < Math.min(item.minOccurs, MAX_REPEAT); j++) addItem(item, self, names);
+      }
+      continue;
+    }
+    const alternatives = choiceAlternatives(model.items ?? []);
+    // A nullable alternative (text, optional item or group) satisfies the choice.
+    if (alternatives.length === 0 || alternatives.some(isNullable)) return;
+    // Prefer an alternative not used yet (sic + corr rather than sic + sic),
+    // and never the element itself (<choice> inside <choice>).
+    const pick = alternatives.find(item => item.name !== self && !names.includes(item.name ?? ''))
+      ?? alternatives.find(item => item.name !== self)
+      ?? alternatives[0];
+    addItem(pick, self, names);
+  }
+}
+
+function addItem(item: ContentItem, self: string, names: string[]): void {
+  if (item.kind === 'element' && item.name) names.push(item.name);
+  else if (item.kind === 'group' && item.content) addModel(item.content, self, names);
+  // Unresolved model classes and text need no element.
+}
+
+/** Whether `item` can match nothing, so a choice needs no element for it. */
+function isNullable(item: ContentItem): boolean {
+  if (item.minOccurs === 0 || item.kind === 'text') return true;
+  const content = item.content;
+  if (item.kind !== 'group' || !content) return false;
+  if (content.minOccurs === 0 || content.type === 'empty' || content.type === 'text') return true;
+  const items = content.items ?? [];
+  return content.type === 'choice' ? items.some(isNullable) : items.every(isNullable);
+}
+
+/**
+ * A choice's alternatives, with nested single choices flattened into it and
+ * one-item groups (how rngParser wraps a `<ref>`) unwrapped to that item.
+ */
+function choiceAlternatives(items: ContentItem[]): ContentItem[] {
+  return items.flatMap(item => {
+    const content = item.content;
+    if (item.kind !== 'group' || !content || item.minOccurs !== 1 || content.minOccurs !== 1) return [item];
+    if (content.type === 'choice') return choiceAlternatives(content.items ?? []);
+    return content.items?.length === 1 && content.maxOccurs === 1 ? choiceAlternatives(content.items) : [item];
+  });
+}
@@ -3,18 +3,24 @@ import { autocompletion } from '@codemirror/autocomplete';
 import { lintGutter } from '@codemirror/lint';
 import { keymap, EditorView } from '@codemirror/view';
 import { indentWithTab } from '@codemirror/commands';
-import type { Extension } from '@codemirror/state';
+import { Prec, type Extension } from '@codemirror/state';
 import type { SchemaInfo } from '../../types/schema';
 import type { ValidationError } from '../../types/schema';
-import { createSchemaCompletionSource } from './completionSource';
+import { createSchemaCompletionSource, type PointerSources } from './completionSource';
 import { createValidationLinter } from './validationLinter';
 import type { SchematronSchema } from '../../schema/schematron';
+import type { ReferenceContext } from '../../schema/referenceIntegrity';
 import { teiEditorTheme, teiEditorThemeLight } from './theme';
 import { lineNumbers } from '@codemirror/view';
 import { paragraphIndentation } from './paragraphIndent';
 import { INTERNAL_DRAG_TYPE } from '../../utils/dragDropUtils';
 import { createTagSyncExtension } from './tagSync';
+import { getElementContext } from './elementContext';
 import { createScrollbarMarkersExtension } from './scrollbarMarkers';
+import { createTagDisplayExtension } from './tagDisplay';
+import { createTrackChangesExtension } from './trackChanges';
+import { joinElements, moveElementDown, moveElementUp, splitElement, unwrapElement } from './structuralCommands';
+import { formatDocument } from './xmlFormatter';
 import './scrollbarMarkers.css';
 
 /**
@@ -29,6 +35,31 @@ export const FILE_DROP_EVENT = 'oxide-file-drop';
  */
 export const QUICK_TAG_MENU_EVENT = 'oxide-quick-tag-menu';
 
+/**
+ * Custom event name for the Insert Element command.
+ * Fired by the command palette, the editor context menu and Mod-Shift-E;
+ * XmlEditor opens the element picker at the cursor.
+ */
+export const INSERT_ELEMENT_EVENT = 'oxide-insert-element';
+
+/** Ask the editor to open the Insert Element picker (a keymap command). */
+export function requestInsertElement(): boolean {
+  document.dispatchEvent(new CustomEvent(INSERT_ELEMENT_EVENT));
+  return true;
+}
+
+/**
+ * Custom event name for the Rename Element command (F2, palette, context
+ * menu); XmlEditor opens the element picker for the element at the cursor.
+ */
+export const RENAME_ELEMENT_EVENT = 'oxide-rename-element';
+
+/** Ask the editor to open the Rename Element picker (a keymap command). */
+export function requestRenameElement(): boolean {
+  document.dispatchEvent(new CustomEvent(RENAME_ELEMENT_EVENT));
+  return true;
+}
+
 /**
  * Create an extension that handles mouseup events within the editor.
  *
@@ -38,7 +69,8 @@ export const QUICK_TAG_MENU_EVENT = 'oxide-quick-tag-menu';
  *
  * Solution: Use EditorView.domEventHandlers() to register mouseup
  * handler that only fires when mouseup occurs within the editor.
- * Dispatches a custom event with selection info for React to handle.
+ * Dispatches a custom event with selection info (and the enclosing
+ * element) for React to handle.
  */
 export function createMouseUpExtension(): Extension {
   return EditorView.domEventHandlers({
@@ -54,8 +86,12 @@ export function createMouseUpExtension(): Extension {
         if (selection.length >= 1 && selection.length <= 500 && !selection.includes('\n')) {
           const coords = view.coordsAtPos(to);
           if (coords) {
+            // The element the wrapper would land in, so the menu can offer
+            // only tags the schema allows there.
+            const { ancestors } = getElementContext(view.state, from);
+            const parent = ancestors[ancestors.length - 1]?.name ?? null;
             document.dispatchEvent(new CustomEvent(QUICK_TAG_MENU_EVENT, {
-              detail: { selection, x: coords.left, y: coords.bottom }
+              detail: { selection, parent, x: coords.left, y: coords.bottom }
             }));
           }
         }
@@ -150,6 +186,8 @@ export function createEditorExtensions(
   onValidationErrors?: (errors: ValidationError[]) => void,
   isDarkMode?: boolean,
   schematron?: SchematronSchema | null,
+  getReferences?: () => ReferenceContext | null,
+  getPointerSources?: () => PointerSources | null,
 ): Extension[] {
   // Determine theme: check parameter first, then DOM attribute
   const dark = isDarkMode ?? document.documentElement.getAttribute('data-theme') === 'dark';
@@ -168,20 +206,40 @@ export function createEditorExtensions(
     autocompletion({
       activateOnTyping: true,
       maxRenderedOptions: 50,
-      override: [createSchemaCompletionSource(schema)],
+      override: [createSchemaCompletionSource(schema, getPointerSources)],
     }),
     // Real-time validation linter (schema + optional Schematron layer)
-    createValidationLinter(schema, onValidationErrors, schematron),
+    createValidationLinter(schema, onValidationErrors, schematron, getReferences),
     // Lint gutter for error markers
     lintGutter(),
-    // Tab indentation
-    keymap.of([indentWithTab]),
+    // Tab indentation; Mod-Shift-E opens the Insert Element picker;
+    // Alt-Shift-F formats the document (xmlFormatter.ts)
+    keymap.of([
+      indentWithTab,
+      { key: 'Mod-Shift-e', run: requestInsertElement },
+      { key: 'Alt-Shift-f', run: formatDocument() },
+    ]),
+    // Element commands (structuralCommands.ts). Above the default keymap so
+    // that Mod-Alt-Arrow moves an element instead of adding a cursor; a
+    // command with nothing to act on lets the key through.
+    Prec.high(keymap.of([
+      { key: 'F2', run: requestRenameElement },
+      { key: 'Alt-Shift-u', run: unwrapElement },
+      { key: 'Alt-Shift-s', run: splitElement },
+      { key: 'Alt-Shift-j', run: joinElements },
+      { key: 'Mod-Alt-ArrowUp', run: moveElementUp },
+      { key: 'Mod-Alt-ArrowDown', run: moveElementDown },
+    ])),
     // Line wrapping (no horizontal scroll)
     EditorView.lineWrapping,
     // Custom theme (Light or Dark based on current setting)
     editorTheme,
     // Paragraph block indentation (<p>, <lg> 등 내부 콘텐츠 들여쓰기)
     paragraphIndentation(),
+    // Tag display modes (full / short names / hidden), set from the View menu
+    createTagDisplayExtension(),
+    // Track changes (recorded insertions/deletions), toggled per document
+    createTrackChangesExtension(),
     // File drop handling (prevent CodeMirror from inserting file content as text)
     createFileDropExtension(),
     // Tag name synchronization (opening ↔ closing tag names sync)
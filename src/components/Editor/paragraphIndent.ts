@@ -1,5 +1,6 @@
 import { type Extension, RangeSetBuilder } from '@codemirror/state';
 import { Decoration, type DecorationSet, EditorView, ViewPlugin, type ViewUpdate } from '@codemirror/view';
+import { elementContextFromTree } from './elementContext';
 
 /**
  * 문단 블록 태그(<p>, <lg> 등) 내부 콘텐츠에 시각적 들여쓰기 적용
@@ -14,10 +15,10 @@ import { Decoration, type DecorationSet, EditorView, ViewPlugin, type ViewUpdate
  *
  * 성능(감사 #1): 이전 구현은 StateField로 매 keystroke마다 문서 "전체"의
  * 데코레이션과 RangeSet를 동기 재빌드했다. 이제 ViewPlugin으로 "보이는 줄"만
- * 데코레이션한다. 뷰포트 시작 지점의 문단-태그 스택은 문서 처음부터 스캔해서
- * 구하지만(정규식/스택만, 데코레이션 할당 없음), 대부분의 줄에는 문단 태그가
- * 없어 정규식이 빠르게 실패하므로 저렴하다. 보이는 줄에 대한 출력은 이전과
- * 동일하다. (앞부분 스캔까지 없애려면 lang-xml 구문트리 기반으로 확장 가능.)
+ * 데코레이션한다. 뷰포트 시작 지점의 문단-태그 스택은 lang-xml 구문트리의
+ * 조상 체인(elementContext, O(depth))에서 바로 얻는다. 구문트리가 없으면
+ * (언어 확장 없는 에디터) 예전처럼 문서 처음부터 줄 단위로 스캔한다
+ * (정규식/스택만, 데코레이션 할당 없음). 보이는 줄에 대한 출력은 이전과 동일하다.
  */
 
 // 문단 수준 블록 태그 (들여쓰기 적용 대상)
@@ -148,9 +149,28 @@ export function paragraphIndentation(): Extension {
   return [plugin, indentTheme];
 }
 
+/**
+ * `pos`(줄 시작)에서 열려 있는 문단-태그 스택. 구문트리의 조상 중 문단 태그만
+ * 골라 쓰고, 트리가 없으면 문서 처음부터 줄 단위로 스캔한다.
+ */
+export function openParagraphTagsAt(view: EditorView, pos: number): string[] {
+  const context = elementContextFromTree(view.state, pos);
+  if (context) {
+    return context.ancestors
+      .map((frame) => frame.name.toLowerCase())
+      .filter((name) => PARAGRAPH_TAGS.includes(name));
+  }
+  const doc = view.state.doc;
+  const stack: string[] = [];
+  for (let i = 1, end = doc.lineAt(pos).number; i < end; i++) {
+    updateTagStack(doc.line(i).text, stack);
+  }
+  return stack;
+}
+
 /**
  * 현재 보이는 범위의 줄에만 들여쓰기 데코레이션을 만든다. 각 보이는 범위의
- * 시작 줄에서의 문단-태그 스택은 문서 처음부터 스캔해서 구한다.
+ * 시작 줄에서의 문단-태그 스택은 openParagraphTagsAt으로 구한다.
  */
 function buildVisibleDecorations(view: EditorView): DecorationSet {
   const builder = new RangeSetBuilder<Decoration>();
@@ -160,11 +180,8 @@ function buildVisibleDecorations(view: EditorView): DecorationSet {
     const startLine = doc.lineAt(from).number;
     const endLine = doc.lineAt(to).number;
 
-    // 첫 보이는 줄 직전까지의 열린 문단-태그 스택을 계산 (데코레이션 할당 없이)
-    const stack: string[] = [];
-    for (let i = 1; i < startLine; i++) {
-      updateTagStack(doc.line(i).text, stack);
-    }
+    // 첫 보이는 줄 직전까지의 열린 문단-태그 스택 (데코레이션 할당 없이)
+    const stack = openParagraphTagsAt(view, doc.line(startLine).from);
 
     // 보이는 줄만 데코레이션
     for (let i = startLine; i <= endLine; i++) {
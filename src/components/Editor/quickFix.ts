@@ -0,0 +1,29 @@
+/**
+ * Applying quick fixes (Schematron SQF) to an editor.
+ *
+ * A QuickFix is a set of text edits computed against the text that was
+ * validated. It is applied as ONE transaction, so a single Undo reverts the
+ * whole fix, and only while the node it was computed for still has the
+ * same source text — otherwise the offsets may point anywhere.
+ */
+
+import type { EditorView } from '@codemirror/view';
+import type { QuickFix } from '../../types/schema';
+
+/** True when `fix` still fits the editor's current text. */
+export function isQuickFixCurrent(view: EditorView, fix: QuickFix): boolean {
+  const { from, to, text } = fix.anchor;
+  return to <= view.state.doc.length && view.state.sliceDoc(from, to) === text;
+}
+
+/** Apply `fix` to `view`. Returns false (and changes nothing) when the fix is stale. */
+export function applyQuickFix(view: EditorView, fix: QuickFix): boolean {
+  if (!isQuickFixCurrent(view, fix)) return false;
+  view.dispatch({
+    changes: fix.edits.map(({ from, to, insert }) => ({ from, to, insert })),
+    selection: { anchor: fix.edits[0].from },
+    scrollIntoView: true,
+    userEvent: 'input.quickfix',
+  });
+  return true;
+}
@@ -0,0 +1,99 @@
+/**
+ * Change log entries in `teiHeader/revisionDesc` — the `<change>` a save
+ * can add (the revision log, see revisionLogSettings.ts).
+ *
+ * The newest entry goes first, as the Guidelines recommend: before the
+ * first `<change>`, or first inside a `<listChange>`. A header without
+ * `revisionDesc` gets one as its last child, which is where the content
+ * model of `teiHeader` puts it (after fileDesc, encodingDesc, profileDesc
+ * and xenoData). A `revisionDesc` holding a `<list>` of items is left
+ * alone. Indentation follows the surrounding lines. A `@who` the document
+ * doesn't declare gets a `<respStmt>` to point at (teiHeader.ts).
+ */
+
+import { indentUnit } from '@codemirror/language';
+import type { StateCommand } from '@codemirror/state';
+import { escapeAttr, escapeText, findHeader, insertFirst, insertLast, respStmtChange } from './teiHeader';
+import { untrackedEdit } from './trackChanges';
+import type { FormatChange } from './xmlFormatter';
+
+/** One `<change when="…" who="…">text</change>`. */
+export interface ChangeEntry {
+  /** ISO date, `YYYY-MM-DD`. */
+  when: string;
+  /** Pointer to the person responsible (`#JD`); omitted when empty. */
+  who: string;
+  /** Description of the change; an empty one gives `<change/>`. */
+  text: string;
+  /** Name declared for `who` when the document has no xml:id for it yet. */
+  name?: string;
+}
+
+/** Local date as `YYYY-MM-DD`. */
+export function isoDate(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Initials of a name: "Jane van Doe" → "JvD". */
+export function initialsOf(name: string): string {
+  return name.trim().split(/\s+/).filter(Boolean).map(part => [...part][0]).join('');
+}
+
+/**
+ * `@who` pointer for what the user typed: initials become `#JD`; a value
+ * that is already a pointer or URI is kept.
+ */
+export function whoPointer(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.startsWith('#') || trimmed.includes(':')) return trimmed;
+  return `#${trimmed.replace(/\s+/g, '_')}`;
+}
+
+function changeElement(entry: ChangeEntry): string {
+  const who = entry.who ? ` who="${escapeAttr(entry.who)}"` : '';
+  const open = `<change when="${escapeAttr(entry.when)}"${who}`;
+  const text = entry.text.trim();
+  return text ? `${open}>${escapeText(text)}</change>` : `${open}/>`;
+}
+
+/**
+ * Change adding `entry` to the change log of `text`. Null when the document
+ * has no `teiHeader` under its root element (or a self-closing one), or
+ * its `revisionDesc` is a `<list>`.
+ */
+export function changeEntryChange(text: string, entry: ChangeEntry, unit = '  '): FormatChange | null {
+  const header = findHeader(text);
+  if (!header || header.closeFrom === null) return null;
+  const change = changeElement(entry);
+  const revisionDesc = header.children.find(el => el.name === 'revisionDesc');
+  if (!revisionDesc) {
+    return insertLast(text, header, ['<revisionDesc>', `${unit}${change}`, '</revisionDesc>'], unit);
+  }
+  const listChange = revisionDesc.children.find(el => el.name === 'listChange');
+  if (listChange) return insertFirst(text, listChange, [change], unit);
+  if (revisionDesc.children.some(el => el.name === 'list')) return null;
+  return insertFirst(text, revisionDesc, [change], unit);
+}
+
+/**
+ * Add `entry` to the change log as one undo step, with the `<respStmt>`
+ * its `@who` points at when the document has none. Not a tracked change:
+ * rejecting all changes keeps the log. False when the document has
+ * nowhere to put it (changeEntryChange).
+ */
+export function addChangeEntry(entry: ChangeEntry): StateCommand {
+  return ({ state, dispatch }) => {
+    const text = state.doc.toString();
+    const unit = state.facet(indentUnit);
+    const change = changeEntryChange(text, entry, unit);
+    if (!change) return false;
+    const declaration = respStmtChange(text, [{ pointer: entry.who, name: entry.name ?? '' }], unit);
+    dispatch(state.update({
+      changes: declaration ? [change, declaration] : change,
+      userEvent: 'input',
+      annotations: untrackedEdit.of(true),
+    }));
+    return true;
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Element-level editing commands — rename, unwrap, split, join and move.
+ *
+ * Each is a CodeMirror StateCommand acting on the innermost element at the
+ * main cursor, applied as ONE transaction (one undo step) and returning
+ * false when there is nothing to act on, so the keymap lets the key through.
+ * The transactions carry `pairedTagEdit`, so tag sync (tagSync.ts) does not
+ * take their tag edits for a rename or a deleted tag and "fix" them.
+ * Wrapping stays in useWrapSelection; these are exposed together with it
+ * through useEditorActions, the command palette and the editor keymap.
+ *
+ * Elements are located with the tag tokenizer over the whole document: the
+ * commands run on demand, not per keystroke, and need every element's full
+ * range (start tag through end tag), not just the ancestor chain.
+ */
+
+import type { StateCommand, EditorState, TransactionSpec } from '@codemirror/state';
+import type { SchemaInfo } from '../../types/schema';
+import { getElement } from '../../schema/schemaQuery';
+import { tokenizeXmlTags } from '../../schema/xmlTokenizer';
+import { allowedElementsAt } from './completionSource';
+import { getElementContext } from './elementContext';
+import type { InsertableElement } from './elementSkeleton';
+import { pairedTagEdit } from './tagSync';
+
+/** One element's source range. */
+export interface ElementRange {
+  name: string;
+  /** Offset of the start tag's `<`. */
+  from: number;
+  /** Offset just after the start tag (`>`), or the whole element when self-closing. */
+  openTo: number;
+  /** Offset of the end tag's `<`; null for a self-closing element. */
+  closeFrom: number | null;
+  /** Offset just after the end tag. */
+  to: number;
+  /** Raw attribute text of the start tag (trimmed). */
+  attributesText: string;
+  parent: ElementRange | null;
+  children: ElementRange[];
+}
+
+const XML_ID_ATTR = /(?:^|\s+)xml:id\s*=\s*(?:"[^"]*"|'[^']*')/;
+
+/**
+ * Element tree of `text`: the top-level elements, children nested. An end
+ * tag that matches no open element is skipped; elements left open at the end
+ * are dropped (they have no range to act on).
+ */
+export function parseElementRanges(text: string): ElementRange[] {
+  const roots: ElementRange[] = [];
+  const stack: ElementRange[] = [];
+  for (const tok of tokenizeXmlTags(text)) {
+    if (tok.kind === 'open' || tok.kind === 'self-close') {
+      const parent = stack[stack.length - 1] ?? null;
+      const end = tok.offset + tok.length;
+      const el: ElementRange = {
+        name: tok.name,
+        from: tok.offset,
+        openTo: end,
+        closeFrom: tok.kind === 'self-close' ? null : -1,
+        to: end,
+        attributesText: tok.attributesText,
+        parent,
+        children: [],
+      };
+      if (tok.kind === 'open') stack.push(el);
+      else (parent ? parent.children : roots).push(el);
+    } else if (tok.kind === 'close') {
+      const depth = stack.map(el => el.name).lastIndexOf(tok.name);
+      if (depth === -1) continue;
+      // Elements opened inside and never closed are dropped with their range.
+      stack.length = depth + 1;
+      const el = stack.pop()!;
+      el.closeFrom = tok.offset;
+      el.to = tok.offset + tok.length;
+      (el.parent ? el.parent.children : roots).push(el);
+    }
+  }
+  return roots;
+}
+
+/**
+ * Innermost element whose range contains `pos` (start tag included, the
+ * position right after the end tag excluded).
+ */
+export function elementAt(state: EditorState, pos: number): ElementRange | null {
+  return elementRangeAt(state.doc.toString(), pos);
+}
+
+/** elementAt over plain text (for callers without an EditorState). */
+export function elementRangeAt(text: string, pos: number): ElementRange | null {
+  let found: ElementRange | null = null;
+  let level = parseElementRanges(text);
+  for (;;) {
+    const next: ElementRange | undefined = level.find(el => el.from <= pos && pos < el.to);
+    if (!next) return found;
+    found = next;
+    level = next.children;
+  }
+}
+
+/** Whether `pos` lies inside a tag, comment, PI, CDATA section or entity reference. */
+function insideMarkup(text: string, pos: number): boolean {
+  for (const tok of tokenizeXmlTags(text)) {
+    if (tok.offset >= pos) break;
+    if (pos < tok.offset + tok.length) return true;
+  }
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  return /&[^\s&;<]*$/.test(text.slice(lineStart, pos)) && /^[^\s&;<]*;/.test(text.slice(pos));
+}
+
+/**
+ * Innermost element whose CONTENT contains `pos` as character data
+ * (between its tags, not inside any markup).
+ */
+function elementWithContentAt(state: EditorState, pos: number): ElementRange | null {
+  if (insideMarkup(state.doc.toString(), pos)) return null;
+  for (let el = elementAt(state, pos); el; el = el.parent) {
+    if (el.closeFrom !== null && el.openTo <= pos && pos <= el.closeFrom) return el;
+  }
+  return null;
+}
+
+function siblingsOf(state: EditorState, el: ElementRange): ElementRange[] {
+  return el.parent ? el.parent.children : parseElementRanges(state.doc.toString());
+}
+
+function indexAmong(siblings: ElementRange[], el: ElementRange): number {
+  return siblings.findIndex(s => s.from === el.from);
+}
+
+/**
+ * Names the element at `pos` may be renamed to: what its parent allows in
+ * that slot (the element itself taken out of the following siblings),
+ * required ones first. Every element outside a known parent, none without
+ * a schema (the picker then takes a typed name); null when there is no
+ * element at `pos`.
+ */
+export function renameCandidatesAt(
+  schema: SchemaInfo | null,
+  state: EditorState,
+  pos: number,
+): { element: ElementRange; candidates: InsertableElement[] } | null {
+  const element = elementAt(state, pos);
+  if (!element) return null;
+  if (!schema) return { element, candidates: [] };
+  const ctx = getElementContext(state, element.from);
+  const allowed = allowedElementsAt(schema, { ...ctx, followingSiblings: ctx.followingSiblings.slice(1) })
+    ?? schema.elements.map(el => ({ name: el.name, required: false }));
+  const candidates = allowed
+    .filter(({ name }) => name !== element.name)
+    .map(({ name, required }) => ({ name, required, documentation: getElement(schema, name)?.documentation ?? '' }))
+    .sort((a, b) => Number(b.required) - Number(a.required) || a.name.localeCompare(b.name));
+  return { element, candidates };
+}
+
+/** Rename the element at the cursor — start and end tag together. */
+export function renameElement(newName: string): StateCommand {
+  return ({ state, dispatch }) => {
+    const el = elementAt(state, state.selection.main.head);
+    if (!el || !newName || newName === el.name) return false;
+    const changes = [{ from: el.from + 1, to: el.from + 1 + el.name.length, insert: newName }];
+    if (el.closeFrom !== null) changes.push({ from: el.closeFrom + 2, to: el.closeFrom + 2 + el.name.length, insert: newName });
+    dispatch(state.update({ changes, scrollIntoView: true, annotations: pairedTagEdit.of(true), userEvent: 'input' }));
+    return true;
+  };
+}
+
+/** Remove the tags of the element at the cursor, keeping its content. */
+export const unwrapElement: StateCommand = ({ state, dispatch }) => {
+  const el = elementAt(state, state.selection.main.head);
+  if (!el || el.closeFrom === null) return false;
+  dispatch(state.update({
+    changes: [{ from: el.from, to: el.openTo }, { from: el.closeFrom, to: el.to }],
+    scrollIntoView: true,
+    annotations: pairedTagEdit.of(true),
+    userEvent: 'delete',
+  }));
+  return true;
+};
+
+/**
+ * Split the element around the cursor into two siblings at the cursor. The
+ * second copy keeps the attributes except xml:id, which must stay unique.
+ */
+export const splitElement: StateCommand = ({ state, dispatch }) => {
+  const pos = state.selection.main.head;
+  const el = elementWithContentAt(state, pos);
+  if (!el) return false;
+  const attrs = el.attributesText.replace(XML_ID_ATTR, '').trim();
+  const reopen = `<${el.name}${attrs ? ` ${attrs}` : ''}>`;
+  const insert = `</${el.name}>${reopen}`;
+  dispatch(state.update({
+    changes: { from: pos, insert },
+    selection: { anchor: pos + insert.length },
+    scrollIntoView: true,
+    annotations: pairedTagEdit.of(true),
+    userEvent: 'input',
+  }));
+  return true;
+};
+
+/**
+ * Join the element at the cursor with its next sibling of the same name
+ * (or, failing that, its previous one) when only whitespace lies between.
+ * The joined element keeps the first one's start tag; the whitespace goes.
+ */
+export const joinElements: StateCommand = ({ state, dispatch }) => {
+  const el = elementAt(state, state.selection.main.head);
+  if (!el) return false;
+  const siblings = siblingsOf(state, el);
+  const i = indexAmong(siblings, el);
+  const joinable = (first?: ElementRange, second?: ElementRange) =>
+    first && second && first.name === second.name && first.closeFrom !== null && second.closeFrom !== null
+    && /^\s*$/.test(state.sliceDoc(first.to, second.from));
+  const [first, second] = joinable(el, siblings[i + 1])
+    ? [el, siblings[i + 1]]
+    : joinable(siblings[i - 1], el) ? [siblings[i - 1], el] : [];
+  if (!first || !second) return false;
+  const at = first.closeFrom!;
+  dispatch(state.update({
+    changes: { from: at, to: second.openTo },
+    selection: { anchor: at },
+    scrollIntoView: true,
+    annotations: pairedTagEdit.of(true),
+    userEvent: 'delete',
+  }));
+  return true;
+};
+
+/** Swap the element at the cursor with its previous (-1) or next (1) element sibling. */
+function moveElement(direction: -1 | 1): StateCommand {
+  return ({ state, dispatch }) => {
+    const pos = state.selection.main.head;
+    const el = elementAt(state, pos);
+    if (!el) return false;
+    const siblings = siblingsOf(state, el);
+    const other = siblings[indexAmong(siblings, el) + direction];
+    if (!other) return false;
+    const [first, second] = direction < 0 ? [other, el] : [el, other];
+    const firstText = state.sliceDoc(first.from, first.to);
+    const secondText = state.sliceDoc(second.from, second.to);
+    // Where el's text starts once the two have traded places
+    const newStart = direction < 0 ? first.from : second.to - firstText.length;
+    const spec: TransactionSpec = {
+      changes: [
+        { from: first.from, to: first.to, insert: secondText },
+        { from: second.from, to: second.to, insert: firstText },
+      ],
+      selection: { anchor: newStart + (pos - el.from) },
+      scrollIntoView: true,
+      annotations: pairedTagEdit.of(true),
+      userEvent: 'move',
+    };
+    dispatch(state.update(spec));
+    return true;
+  };
+}
+
+export const moveElementUp = moveElement(-1);
+export const moveElementDown = moveElement(1);
@@ -0,0 +1,167 @@
+/**
+ * Tag display modes for the code editor.
+ *
+ * Dense inline markup (`<persName ref="#p1">`, `<lb/>`, `<pb n="12"/>`)
+ * buries the text it annotates. Besides the source as written ('full'), the
+ * editor can show each tag as a compact chip with just the element name
+ * ('short'), or as a small marker ('hidden'). Both are replace decorations
+ * over the visible ranges only: the document is never changed, and the full
+ * tag is in the chip's tooltip.
+ *
+ * A tag the selection is in is shown as written, so it can still be edited
+ * where it is. Tags spanning several lines are left alone (a view plugin may
+ * not replace line breaks).
+ *
+ * The mode is a facet value in `tagDisplayCompartment`; XmlEditor
+ * reconfigures it from the global setting, like the scrollbar errors.
+ */
+
+import { Compartment, Facet, RangeSetBuilder, type EditorState, type Extension } from '@codemirror/state';
+import { Decoration, type DecorationSet, EditorView, ViewPlugin, type ViewUpdate, WidgetType } from '@codemirror/view';
+import { syntaxTree } from '@codemirror/language';
+import type { TagDisplayMode } from '../../types/editor';
+import './tagDisplay.css';
+
+export const TAG_DISPLAY_MODES: { mode: TagDisplayMode; label: string }[] = [
+  { mode: 'full', label: 'Full Tags' },
+  { mode: 'short', label: 'Short Tags' },
+  { mode: 'hidden', label: 'Hidden Tags' },
+];
+
+/** Compartment holding the `tagDisplayModeFacet` value. */
+export const tagDisplayCompartment = new Compartment();
+
+/** The active tag display mode (the last one provided wins). */
+export const tagDisplayModeFacet = Facet.define<TagDisplayMode, TagDisplayMode>({
+  combine: (values) => (values.length > 0 ? values[values.length - 1] : 'full'),
+});
+
+export type TagKind = 'open' | 'close' | 'empty';
+
+const TAG_NODES: Record<string, TagKind> = {
+  OpenTag: 'open',
+  CloseTag: 'close',
+  SelfClosingTag: 'empty',
+};
+
+/** Marker shown for a tag in 'hidden' mode. */
+const HIDDEN_MARKERS: Record<TagKind, string> = { open: '‹', close: '›', empty: '◆' };
+
+class TagWidget extends WidgetType {
+  constructor(
+    readonly kind: TagKind,
+    readonly name: string,
+    readonly source: string,
+    readonly mode: 'short' | 'hidden',
+  ) {
+    super();
+  }
+
+  eq(other: TagWidget) {
+    return other.kind === this.kind && other.name === this.name && other.source === this.source && other.mode === this.mode;
+  }
+
+  toDOM() {
+    const span = document.createElement('span');
+    span.className = `cm-tag-chip cm-tag-chip-${this.kind} cm-tag-chip-${this.mode}`;
+    span.textContent = this.mode === 'short'
+      ? (this.kind === 'close' ? `/${this.name}` : this.name)
+      : HIDDEN_MARKERS[this.kind];
+    span.title = this.source;
+    return span;
+  }
+
+  ignoreEvent() {
+    return false;
+  }
+}
+
+/** A tag in the syntax tree, with its element name. */
+export interface TagRange {
+  kind: TagKind;
+  name: string;
+  from: number;
+  to: number;
+}
+
+/** Complete tags between `from` and `to` (one that starts before `from` is skipped). */
+export function tagsInRange(state: EditorState, from: number, to: number): TagRange[] {
+  const tags: TagRange[] = [];
+  syntaxTree(state).iterate({
+    from,
+    to,
+    enter: (node) => {
+      const kind = TAG_NODES[node.name];
+      if (!kind) return;
+      if (node.from >= from) {
+        const nameNode = node.node.getChild('TagName');
+        // An unfinished tag (no name or no '>') is still being typed
+        const last = node.node.lastChild;
+        if (nameNode && last && (last.name === 'EndTag' || last.name === 'SelfCloseEndTag')) {
+          tags.push({ kind, name: state.sliceDoc(nameNode.from, nameNode.to), from: node.from, to: node.to });
+        }
+      }
+      return false;
+    },
+  });
+  return tags;
+}
+
+/** Whether the selection is inside the tag (touching its edges does not count). */
+function selectionInside(state: EditorState, tag: TagRange): boolean {
+  return state.selection.ranges.some((r) =>
+    r.empty ? r.head > tag.from && r.head < tag.to : r.from < tag.to && r.to > tag.from,
+  );
+}
+
+function buildDecorations(view: EditorView, mode: TagDisplayMode): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>();
+  if (mode === 'full') return builder.finish();
+  const { state } = view;
+  for (const { from, to } of view.visibleRanges) {
+    for (const tag of tagsInRange(state, from, to)) {
+      if (selectionInside(state, tag)) continue;
+      if (state.doc.lineAt(tag.from).number !== state.doc.lineAt(tag.to).number) continue;
+      const source = state.sliceDoc(tag.from, tag.to);
+      builder.add(tag.from, tag.to, Decoration.replace({ widget: new TagWidget(tag.kind, tag.name, source, mode) }));
+    }
+  }
+  return builder.finish();
+}
+
+const tagDisplayPlugin = ViewPlugin.fromClass(
+  class {
+    decorations: DecorationSet;
+
+    constructor(view: EditorView) {
+      this.decorations = buildDecorations(view, view.state.facet(tagDisplayModeFacet));
+    }
+
+    update(update: ViewUpdate) {
+      const mode = update.state.facet(tagDisplayModeFacet);
+      if (
+        update.docChanged || update.viewportChanged || update.selectionSet
+        || mode !== update.startState.facet(tagDisplayModeFacet)
+        || syntaxTree(update.state) !== syntaxTree(update.startState)
+      ) {
+        this.decorations = buildDecorations(update.view, mode);
+      }
+    }
+  },
+  {
+    decorations: (v) => v.decorations,
+  },
+);
+
+/** The tag display plugin, starting in 'full' mode. */
+export function createTagDisplayExtension(): Extension {
+  return [
+    tagDisplayPlugin,
+    tagDisplayCompartment.of(tagDisplayModeFacet.of('full')),
+  ];
+}
+
+/** Effect switching an editor to `mode`. */
+export function tagDisplayModeEffect(mode: TagDisplayMode) {
+  return tagDisplayCompartment.reconfigure(tagDisplayModeFacet.of(mode));
+}
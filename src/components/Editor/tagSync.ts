@@ -9,8 +9,9 @@
  * Uses CodeMirror's transaction system for proper Undo/Redo integration.
  */
 
-import { Extension, Annotation, Text } from '@codemirror/state';
+import { Extension, Annotation, Text, type EditorState, type Transaction } from '@codemirror/state';
 import { EditorView } from '@codemirror/view';
+import { matchingTagFromTree } from './elementContext';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Types
@@ -36,6 +37,17 @@ export interface TagInfo {
  */
 const syncAnnotation = Annotation.define<boolean>();
 
+/**
+ * Marks a transaction that edits an element's start and end tags together
+ * (the element commands in structuralCommands.ts). The sync leaves it
+ * alone: there is nothing to pair up, and its edits would read as a rename
+ * or a deleted tag.
+ */
+export const pairedTagEdit = Annotation.define<boolean>();
+
+/** Whether the sync must not react to `tr`. */
+const skipsSync = (tr: Transaction) => tr.annotation(syncAnnotation) || tr.annotation(pairedTagEdit);
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Tag Finding Utilities
 // ═══════════════════════════════════════════════════════════════════════════
@@ -236,6 +248,26 @@ export function findMatchingTag(doc: Text, tagInfo: TagInfo): TagInfo | null {
   }
 }
 
+/**
+ * Find the matching tag in an editor state: read off the lang-xml syntax
+ * tree when the state has one (no scan at all), otherwise the text scan of
+ * findMatchingTag. Same answer on well-formed markup.
+ */
+export function findMatchingTagInState(state: EditorState, tagInfo: TagInfo): TagInfo | null {
+  if (tagInfo.type === 'self-closing') return null;
+  const match = matchingTagFromTree(state, tagInfo.tagStart);
+  if (match === undefined) return findMatchingTag(state.doc, tagInfo);
+  if (!match) return null;
+  return {
+    type: tagInfo.type === 'opening' ? 'closing' : 'opening',
+    name: tagInfo.name,
+    nameStart: match.nameFrom,
+    nameEnd: match.nameTo,
+    tagStart: match.from,
+    tagEnd: match.to,
+  };
+}
+
 /**
  * Find matching closing tag for an opening tag.
  * Handles nested same-name tags by counting depth.
@@ -368,7 +400,7 @@ export function createTagSyncExtension(): Extension {
       if (!update.docChanged) return;
 
       // Skip if this change is itself a sync operation.
-      if (update.transactions.some((tr) => tr.annotation(syncAnnotation))) {
+      if (update.transactions.some(skipsSync)) {
         return;
       }
 
@@ -393,7 +425,7 @@ export function createTagSyncExtension(): Extension {
       if (originalTag.name === currentTag.name) return;
 
       // Find the matching tag in the OLD doc (where names still agree).
-      const originalMatching = findMatchingTag(update.startState.doc, originalTag);
+      const originalMatching = findMatchingTagInState(update.startState, originalTag);
       if (!originalMatching) return;
 
       // Translate the matching tag's name region into post-change doc
@@ -417,12 +449,12 @@ export function createTagSyncExtension(): Extension {
       if (!update.docChanged) return;
 
       // Skip sync-triggered changes
-      if (update.transactions.some((tr) => tr.annotation(syncAnnotation))) {
+      if (update.transactions.some(skipsSync)) {
         return;
       }
 
       for (const tr of update.transactions) {
-        if (tr.annotation(syncAnnotation)) continue;
+        if (skipsSync(tr)) continue;
 
         tr.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
           // Only check pure deletions (no insertion)
@@ -442,7 +474,7 @@ export function createTagSyncExtension(): Extension {
 
               if (originalClosingTag && originalClosingTag.type === 'closing') {
                 // Find the matching opening tag that should be deleted
-                const matchingOpening = findMatchingTag(update.startState.doc, originalClosingTag);
+                const matchingOpening = findMatchingTagInState(update.startState, originalClosingTag);
 
                 if (matchingOpening) {
                   // Calculate adjusted position after the "/" deletion
@@ -477,13 +509,13 @@ export function createTagSyncExtension(): Extension {
       if (!update.docChanged) return;
 
       // Skip sync-triggered changes
-      if (update.transactions.some((tr) => tr.annotation(syncAnnotation))) {
+      if (update.transactions.some(skipsSync)) {
         return;
       }
 
       // Check each transaction for deletions
       for (const tr of update.transactions) {
-        if (tr.annotation(syncAnnotation)) continue;
+        if (skipsSync(tr)) continue;
 
         // Collect all deletions in this transaction
         const deletions: Array<{ fromA: number; toA: number }> = [];
@@ -520,7 +552,7 @@ export function createTagSyncExtension(): Extension {
           };
 
           // Find the matching tag in the ORIGINAL document (before deletion)
-          const matchingTag = findMatchingTag(update.startState.doc, deletedTag);
+          const matchingTag = findMatchingTagInState(update.startState, deletedTag);
           if (!matchingTag) continue;
 
           // Calculate the new position of the matching tag after the first deletion
@@ -553,12 +585,12 @@ export function createTagSyncExtension(): Extension {
       if (!update.docChanged) return;
 
       // Skip sync-triggered changes
-      if (update.transactions.some((tr) => tr.annotation(syncAnnotation))) {
+      if (update.transactions.some(skipsSync)) {
         return;
       }
 
       for (const tr of update.transactions) {
-        if (tr.annotation(syncAnnotation)) continue;
+        if (skipsSync(tr)) continue;
 
         tr.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
           // Check if this is a deletion (can also be deletion + insertion)
@@ -599,7 +631,7 @@ export function createTagSyncExtension(): Extension {
             // The tag was destroyed - check if we need to clean up the matching tag
             // But only if the original tag was complete (had a name)
             if (originalTag.name && (originalTag.type === 'opening' || originalTag.type === 'closing')) {
-              const matchingTag = findMatchingTag(update.startState.doc, originalTag);
+              const matchingTag = findMatchingTagInState(update.startState, originalTag);
 
               if (matchingTag) {
                 // Calculate adjusted position in the new document
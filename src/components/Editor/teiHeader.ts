@@ -0,0 +1,117 @@
+/**
+ * Edits to the `teiHeader` that generated markup needs: the insertion
+ * helpers the change log uses (revisionDesc.ts), and the `<respStmt>`
+ * declaring a person that generated pointers name.
+ *
+ * Track changes writes `@resp="#Jane_Doe"` on `<add>`/`<del>` and the
+ * revision log `@who="#JD"` on `<change>`. Both point at an xml:id, which
+ * reference integrity checks (referenceIntegrity.ts), so the first time a
+ * person is named the header gains
+ * `<respStmt xml:id="Jane_Doe"><resp>revised by</resp><name>Jane Doe</name></respStmt>`
+ * at the end of `fileDesc/titleStmt`, where its content model allows it.
+ * Indentation follows the surrounding lines.
+ */
+
+import { collectXmlIds } from '../../schema/referenceIntegrity';
+import { parseElementRanges, type ElementRange } from './structuralCommands';
+import type { FormatChange } from './xmlFormatter';
+
+export const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+export const escapeAttr = (text: string) => escapeText(text).replace(/"/g, '&quot;');
+
+/** The document's header: the root element's `teiHeader` child. */
+export function findHeader(text: string): ElementRange | null {
+  const root = parseElementRanges(text)[0];
+  return root?.children.find(el => el.name === 'teiHeader') ?? null;
+}
+
+/** Leading whitespace of the line `pos` is on. */
+function lineIndent(text: string, pos: number): string {
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart, pos))![0];
+}
+
+/** `lines` on one line, for markup that isn't broken into lines either. */
+const inline = (lines: string[]) => lines.map(line => line.trimStart()).join('');
+
+/** Whether only whitespace stands between the start of its line and `pos`. */
+function startsLine(text: string, pos: number): boolean {
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  return lineStart > 0 && /^[ \t]*$/.test(text.slice(lineStart, pos));
+}
+
+/**
+ * Insert `lines` (already indented relative to each other) as the first
+ * child of `parent`, before its first element child, or alone in it.
+ */
+export function insertFirst(text: string, parent: ElementRange, lines: string[], unit: string): FormatChange {
+  const first = parent.children[0];
+  if (first) {
+    const indent = startsLine(text, first.from) ? lineIndent(text, first.from) : null;
+    const block = indent === null ? inline(lines) : lines.join(`\n${indent}`) + `\n${indent}`;
+    return { from: first.from, to: first.from, insert: block };
+  }
+  return fillEmpty(text, parent, lines, unit);
+}
+
+/** Insert `lines` as the last child of `parent`, after its last element child. */
+export function insertLast(text: string, parent: ElementRange, lines: string[], unit: string): FormatChange {
+  const last = parent.children[parent.children.length - 1];
+  if (last) {
+    const indent = startsLine(text, last.from) ? lineIndent(text, last.from) : null;
+    const block = indent === null ? inline(lines) : `\n${indent}` + lines.join(`\n${indent}`);
+    return { from: last.to, to: last.to, insert: block };
+  }
+  return fillEmpty(text, parent, lines, unit);
+}
+
+/**
+ * Content for an element without element children. A self-closing one is
+ * opened up; whitespace-only content is replaced with the indented lines.
+ */
+function fillEmpty(text: string, parent: ElementRange, lines: string[], unit: string): FormatChange {
+  const outer = lineIndent(text, parent.from);
+  const inner = outer + unit;
+  const block = `\n${inner}${lines.join(`\n${inner}`)}\n${outer}`;
+  if (parent.closeFrom === null) {
+    const startTag = text.slice(parent.from, parent.openTo).replace(/\s*\/>$/, '>');
+    return { from: parent.from, to: parent.to, insert: `${startTag}${block}</${parent.name}>` };
+  }
+  const content = text.slice(parent.openTo, parent.closeFrom);
+  return /^\s*$/.test(content)
+    ? { from: parent.openTo, to: parent.closeFrom, insert: block }
+    : { from: parent.closeFrom, to: parent.closeFrom, insert: inline(lines) };
+}
+
+/** A person a generated pointer names: `#Jane_Doe` and "Jane Doe". */
+export interface RespPerson {
+  pointer: string;
+  name: string;
+}
+
+/**
+ * Change declaring the people whose pointers `text` does not resolve yet,
+ * as `<respStmt>`s at the end of `titleStmt`. Null when there is nothing to
+ * declare (every pointer resolves, or is a URI rather than `#id`) or no
+ * `teiHeader/fileDesc/titleStmt` to declare it in.
+ */
+export function respStmtChange(text: string, people: readonly RespPerson[], unit = '  '): FormatChange | null {
+  const ids = collectXmlIds(text);
+  const missing = new Map<string, string>();
+  for (const { pointer, name } of people) {
+    const id = pointer.startsWith('#') ? pointer.slice(1) : '';
+    if (id && !ids.has(id) && !missing.has(id)) missing.set(id, name.trim() || id);
+  }
+  if (missing.size === 0) return null;
+  const titleStmt = findHeader(text)
+    ?.children.find(el => el.name === 'fileDesc')
+    ?.children.find(el => el.name === 'titleStmt');
+  if (!titleStmt) return null;
+  const lines = [...missing].flatMap(([id, name]) => [
+    `<respStmt xml:id="${escapeAttr(id)}">`,
+    `${unit}<resp>revised by</resp>`,
+    `${unit}<name>${escapeText(name)}</name>`,
+    '</respStmt>',
+  ]);
+  return insertLast(text, titleStmt, lines, unit);
+}
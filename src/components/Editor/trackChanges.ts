@@ -0,0 +1,378 @@
+/**
+ * Track changes for the code editor.
+ *
+ * While tracking is on, every edit is recorded with its author and time:
+ * inserted text stays in the document and is marked; deleted text leaves
+ * the document and is shown, struck through, where it was. A reviewer then
+ * accepts each change (it stays as it is) or rejects it (inserted text is
+ * removed, deleted text put back).
+ *
+ * Recording is a state field fed by the transactions themselves, so it
+ * covers typing, paste, element commands and Author view edits alike.
+ * Deleting text that is itself a pending insertion just takes it out again;
+ * consecutive typing or deleting by one author extends one change. The
+ * field's previous value is an inverted effect, so undo and redo restore
+ * the changes along with the text.
+ *
+ * Pending changes can also be written into the document as TEI
+ * `<add>`/`<del>` with `@resp` and `@when` (teiChangesSpec), where the
+ * markup allows it; an author the header doesn't declare yet gets a
+ * `<respStmt>` for `@resp` to point at (teiHeader.ts). The state is mirrored to the document's tab by
+ * XmlEditor; the author is a facet value in `trackAuthorCompartment`,
+ * reconfigured from the reviewer name setting like the tag display mode.
+ */
+
+import { Annotation, Compartment, Facet, StateEffect, StateField, type ChangeDesc, type EditorState, type Extension, type Transaction, type TransactionSpec } from '@codemirror/state';
+import { Decoration, EditorView, WidgetType, type Command } from '@codemirror/view';
+import { invertedEffects } from '@codemirror/commands';
+import { indentUnit } from '@codemirror/language';
+import { tokenizeXmlTags } from '../../schema/xmlTokenizer';
+import type { TrackedChange, TrackingState } from '../../types/editor';
+import { respStmtChange, type RespPerson } from './teiHeader';
+import './trackChanges.css';
+
+export const EMPTY_TRACKING: TrackingState = { enabled: false, changes: [] };
+
+/** Compartment holding the `trackAuthorFacet` value. */
+export const trackAuthorCompartment = new Compartment();
+
+/** Who new changes are recorded for (the last one provided wins). */
+export const trackAuthorFacet = Facet.define<string, string>({
+  combine: (values) => (values.length > 0 ? values[values.length - 1] : ''),
+});
+
+/** Effect recording new changes for `author`. */
+export function trackAuthorEffect(author: string) {
+  return trackAuthorCompartment.reconfigure(trackAuthorFacet.of(author));
+}
+
+let changeCounter = 0;
+
+function changeId(): string {
+  return `tc-${Date.now().toString(36)}-${(changeCounter++).toString(36)}`;
+}
+
+function byPosition(a: TrackedChange, b: TrackedChange): number {
+  // At one position the deleted text shows before the inserted
+  return a.from - b.from || (a.kind === b.kind ? 0 : a.kind === 'deletion' ? -1 : 1);
+}
+
+/**
+ * The changes moved through a document change. An insertion whose text is
+ * gone is dropped; text typed at its edges is not taken in.
+ */
+export function mapTrackedChanges(changes: readonly TrackedChange[], mapping: ChangeDesc): readonly TrackedChange[] {
+  let moved = false;
+  const out: TrackedChange[] = [];
+  for (const c of changes) {
+    const from = mapping.mapPos(c.from, c.kind === 'insertion' ? 1 : -1);
+    const to = c.kind === 'insertion' ? mapping.mapPos(c.to, -1) : from;
+    if (c.kind === 'insertion' && from >= to) {
+      moved = true;
+      continue;
+    }
+    if (from !== c.from || to !== c.to) moved = true;
+    out.push(from === c.from && to === c.to ? c : { ...c, from, to });
+  }
+  return moved ? out : changes;
+}
+
+/** Changes that fit a document of `length` (restored state may be stale). */
+function sanitizeTracking(tracking: TrackingState, length: number): TrackingState {
+  const changes = tracking.changes
+    .filter(c => c.from >= 0 && c.to <= length && (c.kind === 'insertion' ? c.from < c.to : c.from === c.to && c.text !== ''))
+    .sort(byPosition);
+  return { enabled: tracking.enabled, changes };
+}
+
+/** Record the edits of `tr` on top of the pending changes. */
+function recordChanges(prev: readonly TrackedChange[], tr: Transaction, author: string): readonly TrackedChange[] {
+  const oldDoc = tr.startState.doc;
+  const now = Date.now();
+  const insertions = prev.filter(c => c.kind === 'insertion');
+  const next = [...prev];
+  const ownDeletion = (c: TrackedChange) => c.kind === 'deletion' && c.author === author;
+
+  // Deletions, in the old document's positions
+  tr.changes.iterChanges((fromA, toA) => {
+    if (toA === fromA) return;
+    // Pending inserted text is just taken out again
+    let text = '';
+    let pos = fromA;
+    for (const ins of insertions) {
+      if (ins.to <= pos || ins.from >= toA) continue;
+      if (ins.from > pos) text += oldDoc.sliceString(pos, ins.from);
+      pos = Math.max(pos, ins.to);
+    }
+    if (pos < toA) text += oldDoc.sliceString(pos, toA);
+    if (!text) return;
+    // Backspacing extends a deletion at the end of the range, deleting
+    // forward one at its start
+    const before = next.findIndex(c => ownDeletion(c) && c.from === toA);
+    const after = before < 0 ? next.findIndex(c => ownDeletion(c) && c.from === fromA) : -1;
+    if (before >= 0) next[before] = { ...next[before], text: text + next[before].text };
+    else if (after >= 0) next[after] = { ...next[after], text: next[after].text + text };
+    else next.push({ id: changeId(), kind: 'deletion', from: fromA, to: fromA, text, author, timestamp: now });
+  });
+
+  // Insertions, in the new document's positions
+  const mapped = [...mapTrackedChanges(next, tr.changes)];
+  tr.changes.iterChanges((_fromA, _toA, fromB, toB) => {
+    if (toB === fromB) return;
+    if (mapped.some(c => c.kind === 'insertion' && c.from <= fromB && toB <= c.to)) return;
+    const i = mapped.findIndex(c => c.kind === 'insertion' && c.author === author && (c.to === fromB || c.from === toB));
+    if (i >= 0) mapped[i] = { ...mapped[i], from: Math.min(mapped[i].from, fromB), to: Math.max(mapped[i].to, toB) };
+    else mapped.push({ id: changeId(), kind: 'insertion', from: fromB, to: toB, text: '', author, timestamp: now });
+  });
+  return mapped.sort(byPosition);
+}
+
+/** Replace the pending changes (review actions, undo); positions after the transaction. */
+const setTrackedChanges = StateEffect.define<readonly TrackedChange[]>({
+  map: (changes, mapping) => mapTrackedChanges(changes, mapping),
+});
+
+const setTrackingEnabled = StateEffect.define<boolean>();
+
+/**
+ * Marks an edit the editor makes on its own behalf (the change log entry
+ * added on save): pending changes move with it, but it is not recorded.
+ */
+export const untrackedEdit = Annotation.define<boolean>();
+
+/** Put back a document's saved state (tab switch, sidecar). Not for undo history. */
+export const restoreTracking = StateEffect.define<TrackingState>();
+
+export const trackingField = StateField.define<TrackingState>({
+  create: () => EMPTY_TRACKING,
+  update(value, tr) {
+    let { enabled } = value;
+    let explicit: readonly TrackedChange[] | null = null;
+    for (const e of tr.effects) {
+      if (e.is(restoreTracking)) return sanitizeTracking(e.value, tr.newDoc.length);
+      if (e.is(setTrackingEnabled)) enabled = e.value;
+      if (e.is(setTrackedChanges)) explicit = e.value;
+    }
+    let changes = value.changes;
+    if (explicit) changes = explicit;
+    else if (tr.docChanged) {
+      changes = value.enabled && !tr.annotation(untrackedEdit)
+        ? recordChanges(value.changes, tr, tr.startState.facet(trackAuthorFacet))
+        : mapTrackedChanges(value.changes, tr.changes);
+    }
+    return enabled === value.enabled && changes === value.changes ? value : { enabled, changes };
+  },
+});
+
+/** Undoing an edit brings back the changes as they were before it. */
+const undoTracking = invertedEffects.of((tr) => {
+  const before = tr.startState.field(trackingField, false);
+  const after = tr.state.field(trackingField, false);
+  return before && after && before.changes !== after.changes ? [setTrackedChanges.of(before.changes)] : [];
+});
+
+/** Tooltip of a change: what, who, when. */
+export function describeChange(change: TrackedChange): string {
+  const what = change.kind === 'insertion' ? 'Inserted' : 'Deleted';
+  return `${what} by ${change.author || 'unknown'}, ${new Date(change.timestamp).toLocaleString()}`;
+}
+
+class DeletionWidget extends WidgetType {
+  constructor(readonly change: TrackedChange) {
+    super();
+  }
+
+  eq(other: DeletionWidget) {
+    return other.change.id === this.change.id && other.change.text === this.change.text;
+  }
+
+  toDOM() {
+    const span = document.createElement('span');
+    span.className = 'cm-tracked-deletion';
+    span.textContent = this.change.text;
+    span.title = describeChange(this.change);
+    return span;
+  }
+
+  ignoreEvent() {
+    return false;
+  }
+}
+
+const trackDecorations = EditorView.decorations.compute([trackingField], (state) => Decoration.set(
+  state.field(trackingField).changes.map(c => (c.kind === 'insertion'
+    ? Decoration.mark({ class: 'cm-tracked-insertion', attributes: { title: describeChange(c) } }).range(c.from, c.to)
+    : Decoration.widget({ widget: new DeletionWidget(c), side: -1 }).range(c.from))),
+  true,
+));
+
+/** The track-changes field and its decorations, with tracking off. */
+export function createTrackChangesExtension(): Extension {
+  return [
+    trackingField,
+    undoTracking,
+    trackDecorations,
+    trackAuthorCompartment.of(trackAuthorFacet.of('')),
+  ];
+}
+
+/** The editor's track-changes state. */
+export function getTracking(state: EditorState): TrackingState {
+  return state.field(trackingField, false) ?? EMPTY_TRACKING;
+}
+
+/** Turn recording on or off. */
+export const toggleTrackChanges: Command = (view) => {
+  view.dispatch({ effects: setTrackingEnabled.of(!getTracking(view.state).enabled) });
+  return true;
+};
+
+/**
+ * Accept or reject the changes with the given ids (all when omitted), as
+ * one transaction. Null when there are none.
+ */
+function resolveSpec(state: EditorState, accept: boolean, ids?: ReadonlySet<string>): TransactionSpec | null {
+  const { changes } = getTracking(state);
+  const chosen = changes.filter(c => !ids || ids.has(c.id));
+  if (chosen.length === 0) return null;
+  const edits = accept
+    ? []
+    : chosen.map(c => (c.kind === 'insertion' ? { from: c.from, to: c.to } : { from: c.from, insert: c.text }));
+  const changeSet = state.changes(edits);
+  const rest = mapTrackedChanges(changes.filter(c => !chosen.includes(c)), changeSet);
+  return {
+    changes: changeSet,
+    effects: setTrackedChanges.of(rest),
+    userEvent: accept ? 'review.accept' : 'review.reject',
+  };
+}
+
+/** Keep the changes as they are and stop tracking them. */
+export function acceptChanges(ids?: ReadonlySet<string>): Command {
+  return (view) => {
+    const spec = resolveSpec(view.state, true, ids);
+    if (!spec) return false;
+    view.dispatch(spec);
+    return true;
+  };
+}
+
+/** Undo the changes: inserted text removed, deleted text put back. */
+export function rejectChanges(ids?: ReadonlySet<string>): Command {
+  return (view) => {
+    const spec = resolveSpec(view.state, false, ids);
+    if (!spec) return false;
+    view.dispatch(spec);
+    return true;
+  };
+}
+
+// ─── TEI serialization ───
+
+/** Whether a text is a well-formed fragment: balanced tags, no stray `<` or `&`. */
+function isBalancedFragment(text: string): boolean {
+  const stack: string[] = [];
+  let end = 0;
+  for (const tok of tokenizeXmlTags(text)) {
+    end = tok.offset + tok.length;
+    if (tok.kind === 'open') stack.push(tok.name);
+    else if (tok.kind === 'close' && stack.pop() !== tok.name) return false;
+  }
+  if (stack.length > 0 || text.indexOf('<', end) >= 0) return false;
+  return !/&(?![A-Za-z_:][\w.:-]*;|#\d+;|#x[\da-fA-F]+;)/.test(text);
+}
+
+/**
+ * Element depth at each position of the document: a position inside
+ * markup (a tag, comment or PI) is null.
+ */
+function depthAt(text: string): (pos: number) => number | null {
+  const ends: number[] = [];
+  const starts: number[] = [];
+  const depths: number[] = [];
+  let depth = 0;
+  for (const tok of tokenizeXmlTags(text)) {
+    if (tok.kind === 'open') depth++;
+    else if (tok.kind === 'close') depth--;
+    starts.push(tok.offset);
+    ends.push(tok.offset + tok.length);
+    depths.push(depth);
+  }
+  return (pos) => {
+    // Last token starting before pos
+    let lo = 0;
+    let hi = starts.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (starts[mid] < pos) lo = mid + 1;
+      else hi = mid;
+    }
+    const i = lo - 1;
+    if (i < 0) return 0;
+    return pos < ends[i] ? null : depths[i];
+  };
+}
+
+/** `@resp` pointer for an author name: `#Jane_Doe`. */
+export function respPointer(author: string): string | null {
+  const id = author.trim().replace(/[^\w.-]+/g, '_');
+  return id ? `#${id}` : null;
+}
+
+/** `@when` of a change: ISO date-time to the second. */
+function whenValue(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function changeAttributes(change: TrackedChange): string {
+  const resp = respPointer(change.author);
+  return `${resp ? ` resp="${resp}"` : ''} when="${whenValue(change.timestamp)}"`;
+}
+
+export interface TeiChangesResult {
+  /** The transaction writing them, or null when none could be written. */
+  spec: TransactionSpec | null;
+  written: number;
+  /** Changes left pending: inside a tag, outside the root, or cutting markup. */
+  skipped: number;
+}
+
+/**
+ * Write the pending changes into the document as `<add>` (around inserted
+ * text) and `<del>` (holding deleted text). A change is written only where
+ * the result stays well-formed: inside the root element, not inside a tag,
+ * with balanced markup in its text. The rest stay pending. Authors the
+ * document has no xml:id for are declared in `titleStmt`.
+ */
+export function teiChangesSpec(state: EditorState): TeiChangesResult {
+  const { changes } = getTracking(state);
+  const text = state.doc.toString();
+  const depth = depthAt(text);
+  const inContent = (pos: number) => (depth(pos) ?? 0) > 0;
+  const edits: { from: number; to?: number; insert: string }[] = [];
+  const kept: TrackedChange[] = [];
+  const authors: RespPerson[] = [];
+  for (const c of changes) {
+    const fragment = c.kind === 'insertion' ? text.slice(c.from, c.to) : c.text;
+    if (!inContent(c.from) || !inContent(c.to) || !isBalancedFragment(fragment)) {
+      kept.push(c);
+      continue;
+    }
+    authors.push({ pointer: respPointer(c.author) ?? '', name: c.author });
+    if (c.kind === 'insertion') {
+      edits.push({ from: c.from, insert: `<add${changeAttributes(c)}>` }, { from: c.to, insert: '</add>' });
+    } else {
+      edits.push({ from: c.from, insert: `<del${changeAttributes(c)}>${c.text}</del>` });
+    }
+  }
+  const written = changes.length - kept.length;
+  if (written === 0) return { spec: null, written, skipped: kept.length };
+  const declaration = respStmtChange(text, authors, state.facet(indentUnit));
+  if (declaration) edits.push(declaration);
+  const changeSet = state.changes(edits);
+  return {
+    spec: { changes: changeSet, effects: setTrackedChanges.of(mapTrackedChanges(kept, changeSet)), userEvent: 'review.tei' },
+    written,
+    skipped: kept.length,
+  };
+}
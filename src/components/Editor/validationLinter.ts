@@ -2,40 +2,63 @@ import { linter, type Diagnostic } from '@codemirror/lint';
 import type { Extension } from '@codemirror/state';
 import type { SchemaInfo } from '../../types/schema';
 import type { ValidationError } from '../../types/schema';
-import { validateXml } from '../../schema/xmlValidator';
-import { validateSchematron, type SchematronSchema } from '../../schema/schematron';
+import type { SchematronSchema } from '../../schema/schematron';
+import type { ReferenceContext } from '../../schema/referenceIntegrity';
+import { validationService } from '../../schema/validationService';
+import { applyQuickFix } from './quickFix';
+
+// Each linter instance is its own validation lane, so a newer snapshot of
+// THIS editor supersedes an older one without touching other editors.
+let nextLaneId = 0;
 
 /**
  * Creates a CodeMirror 6 linter extension that validates XML against
  * the loaded TEI schema, plus the optional Schematron project-rules
  * layer (its diagnostics are simply concatenated — same ValidationError
- * shape, same StatusBar/scrollbar plumbing).
+ * shape, same StatusBar/scrollbar plumbing). xml:id / pointer integrity
+ * runs on every pass; `getReferences` is read per pass (the workspace id
+ * index changes without the extension being rebuilt) and adds the
+ * cross-file `file.xml#id` checks.
  *
  * CM6's linter API provides:
  * - Debouncing (delay option)
  * - Inline underline markers
  * - Gutter error indicators (via lintGutter() in extensions.ts)
- * - Tooltip on hover over errors
+ * - Tooltip on hover over errors, with a button per quick fix (Schematron
+ *   SQF) — applied as one undoable transaction (see quickFix.ts)
+ *
+ * The source is async: the snapshot is handed to the validation service
+ * (schema conformance runs in a Web Worker — see validationService.ts).
+ * A superseded snapshot resolves null and reports nothing; CM6 also drops
+ * any result whose document no longer matches the editor's.
  */
 export function createValidationLinter(
   schema: SchemaInfo | null,
   onErrors?: (errors: ValidationError[]) => void,
   schematron?: SchematronSchema | null,
+  getReferences?: () => ReferenceContext | null,
 ): Extension {
+  const laneKey = `linter:${++nextLaneId}`;
   return linter(
-    (view) => {
-      const doc = view.state.doc.toString();
-      const errors = validateXml(doc, schema);
-      if (schematron) {
-        errors.push(...validateSchematron(doc, schematron));
-      }
+    async (view) => {
+      const doc = view.state.doc;
+      const errors = await validationService.validate(
+        laneKey,
+        doc.toString(),
+        schema,
+        schematron ?? null,
+        getReferences?.() ?? null,
+      );
+      // Superseded, or the editor moved on while the worker ran — a fresh
+      // pass is already scheduled for the newer text.
+      if (errors === null || view.state.doc !== doc) return [];
 
       // Report errors to parent (for StatusBar)
       onErrors?.(errors);
 
       // Convert ValidationError[] to CM6 Diagnostic[]
       return errors
-        .map((err) => validationErrorToDiagnostic(err, view.state.doc))
+        .map((err) => validationErrorToDiagnostic(err, doc))
         .filter((d): d is Diagnostic => d !== null);
     },
     {
@@ -61,10 +84,20 @@ function validationErrorToDiagnostic(
 
   if (from > lineInfo.to) return null;
 
-  return {
+  const diagnostic: Diagnostic = {
     from: Math.min(from, lineInfo.to),
     to: Math.min(to, lineInfo.to),
     severity: error.severity === 'error' ? 'error' : 'warning',
     message: error.message,
   };
+  if (error.fixes?.length) {
+    // A stale fix is a no-op; the next lint pass replaces it anyway.
+    diagnostic.actions = error.fixes.map((fix) => ({
+      name: fix.description,
+      apply: (view) => {
+        applyQuickFix(view, fix);
+      },
+    }));
+  }
+  return diagnostic;
 }
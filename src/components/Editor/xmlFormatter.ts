@@ -0,0 +1,272 @@
+/**
+ * TEI-aware pretty-printer — Format Document and Format Selection.
+ *
+ * Only whitespace that cannot matter is changed. An element's children are
+ * put on their own lines, one indentation level deeper, when:
+ *
+ * - the element contains no text other than whitespace (and no CDATA) —
+ *   mixed content is kept exactly as written, whatever it contains;
+ * - it is not inside, and does not carry, `xml:space="preserve"`;
+ * - it is not an inline element of the preview mapping (teiTransform's
+ *   ELEMENT_MAP), unless it has a block-level child (`<TEI>`);
+ * - no line break would be added between two children that are not
+ *   block-level where the source has no whitespace at all, so
+ *   `<w>a</w><pc>,</pc>` never becomes "a ,".
+ *
+ * Everything else is kept as written, apart from the tags themselves:
+ * `<lb />` becomes `<lb/>`, and the attributes can optionally be written
+ * with double quotes and in a canonical order. Formatting is idempotent —
+ * the tests pin that — and refuses a document that is not well-formed
+ * (mismatched or unclosed tags), where moving text around could lose it.
+ */
+
+import type { EditorState, StateCommand } from '@codemirror/state';
+import { indentUnit } from '@codemirror/language';
+import { parseAttributes, tokenizeXmlTags } from '../../schema/xmlTokenizer';
+import { elementLayout } from '../Preview/teiTransform';
+
+export interface FormatOptions {
+  /** One indentation level (default: two spaces). */
+  indentUnit?: string;
+  /** Write every attribute value in double quotes. */
+  normalizeQuotes?: boolean;
+  /** Order attributes: namespace declarations, then xml:*, then the rest, each alphabetically. */
+  sortAttributes?: boolean;
+}
+
+/** A text change to the document. */
+export interface FormatChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+interface FormatElement {
+  kind: 'element';
+  name: string;
+  attributesText: string;
+  empty: boolean;
+  from: number;
+  to: number;
+  children: FormatNode[];
+}
+
+interface FormatLeaf {
+  kind: 'text' | 'cdata' | 'comment' | 'pi';
+  from: number;
+  to: number;
+}
+
+type FormatNode = FormatElement | FormatLeaf;
+
+const ATTRIBUTE_REGEX = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Top-level nodes of `text`, or null when it is not well-formed enough to
+ * format: an end tag that does not close the innermost open element, an
+ * element left open, or an unterminated tag.
+ */
+function parseDocument(text: string): FormatNode[] | null {
+  const top: FormatNode[] = [];
+  const stack: FormatElement[] = [];
+  const add = (node: FormatNode) => (stack.length > 0 ? stack[stack.length - 1].children : top).push(node);
+  let pos = 0;
+  for (const tok of tokenizeXmlTags(text)) {
+    if (tok.offset > pos) add({ kind: 'text', from: pos, to: tok.offset });
+    const end = tok.offset + tok.length;
+    pos = end;
+    if (tok.kind === 'open' || tok.kind === 'self-close') {
+      const el: FormatElement = {
+        kind: 'element',
+        name: tok.name,
+        attributesText: tok.attributesText,
+        empty: tok.kind === 'self-close',
+        from: tok.offset,
+        to: end,
+        children: [],
+      };
+      add(el);
+      if (tok.kind === 'open') stack.push(el);
+    } else if (tok.kind === 'close') {
+      const el = stack.pop();
+      if (!el || el.name !== tok.name) return null;
+      el.to = end;
+    } else {
+      add({ kind: tok.kind, from: tok.offset, to: end });
+    }
+  }
+  if (stack.length > 0) return null;
+  if (pos < text.length) {
+    // The tokenizer stops at an unterminated tag
+    if (text.includes('<', pos)) return null;
+    add({ kind: 'text', from: pos, to: text.length });
+  }
+  return top;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function isBlock(node: FormatNode): boolean {
+  return node.kind === 'element' && elementLayout(localName(node.name)) === 'block';
+}
+
+function preserves(el: FormatElement): boolean {
+  return parseAttributes(el.attributesText)['xml:space'] === 'preserve';
+}
+
+class Formatter {
+  private readonly unit: string;
+
+  constructor(private readonly text: string, private readonly options: FormatOptions) {
+    this.unit = options.indentUnit ?? '  ';
+  }
+
+  slice(node: FormatNode): string {
+    return this.text.slice(node.from, node.to);
+  }
+
+  isWhitespace(node: FormatNode): boolean {
+    return node.kind === 'text' && !/\S/.test(this.slice(node));
+  }
+
+  /** Whether the element's children go on their own lines (see the module comment). */
+  laysOut(el: FormatElement): boolean {
+    const { children } = el;
+    if (el.empty || preserves(el)) return false;
+    if (!children.some(c => c.kind !== 'text')) return false;
+    if (children.some(c => c.kind === 'cdata' || (c.kind === 'text' && !this.isWhitespace(c)))) return false;
+    if (elementLayout(localName(el.name)) === 'inline' && !children.some(isBlock)) return false;
+    // Adjacent children with no whitespace between them
+    return children.every((c, i) => {
+      const next = children[i + 1];
+      return c.kind === 'text' || !next || next.kind === 'text' || isBlock(c) || isBlock(next);
+    });
+  }
+
+  attributes(attributesText: string): string {
+    const { normalizeQuotes, sortAttributes } = this.options;
+    if (!normalizeQuotes && !sortAttributes) return attributesText;
+    // Leave a start tag we can't fully read as written
+    if (/\S/.test(attributesText.replace(ATTRIBUTE_REGEX, ''))) return attributesText;
+    const attrs = [...attributesText.matchAll(ATTRIBUTE_REGEX)].map(([, name, double, single]) => {
+      if (double !== undefined) return { name, text: `${name}="${double}"` };
+      return { name, text: normalizeQuotes ? `${name}="${single.replace(/"/g, '&quot;')}"` : `${name}='${single}'` };
+    });
+    if (sortAttributes) {
+      const rank = (name: string) => (name === 'xmlns' || name.startsWith('xmlns:') ? 0 : name.startsWith('xml:') ? 1 : 2);
+      attrs.sort((a, b) => rank(a.name) - rank(b.name) || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    }
+    return attrs.map(a => a.text).join(' ');
+  }
+
+  startTag(el: FormatElement): string {
+    const attrs = this.attributes(el.attributesText);
+    return `<${el.name}${attrs ? ` ${attrs}` : ''}${el.empty ? '/>' : '>'}`;
+  }
+
+  /** A node as written, tags normalized; nothing inside is laid out. */
+  inline(node: FormatNode): string {
+    if (node.kind !== 'element') return this.slice(node);
+    if (node.empty) return this.startTag(node);
+    return `${this.startTag(node)}${node.children.map(c => this.inline(c)).join('')}</${node.name}>`;
+  }
+
+  /** A node on its own line at `indent` (the indent itself not included). */
+  block(node: FormatNode, indent: string): string {
+    if (node.kind === 'text') return this.slice(node).trim();
+    if (node.kind !== 'element' || !this.laysOut(node)) return this.inline(node);
+    const inner = indent + this.unit;
+    const lines = node.children
+      .filter(c => !this.isWhitespace(c))
+      .map(c => inner + this.block(c, inner));
+    return `${this.startTag(node)}\n${lines.join('\n')}\n${indent}</${node.name}>`;
+  }
+}
+
+/** The smallest change turning `text.slice(from, to)` into `insert`, or null. */
+function minimalChange(text: string, from: number, to: number, insert: string): FormatChange | null {
+  const old = text.slice(from, to);
+  if (old === insert) return null;
+  let head = 0;
+  while (head < old.length && head < insert.length && old[head] === insert[head]) head++;
+  let tail = 0;
+  while (
+    tail < old.length - head && tail < insert.length - head
+    && old[old.length - 1 - tail] === insert[insert.length - 1 - tail]
+  ) tail++;
+  return { from: from + head, to: to - tail, insert: insert.slice(head, insert.length - tail) };
+}
+
+/**
+ * The whole document formatted: the prolog, comments and root element each
+ * on their own line, ending with a newline. Null when it is not well-formed.
+ */
+export function formatXml(text: string, options: FormatOptions = {}): string | null {
+  const nodes = parseDocument(text);
+  if (!nodes) return null;
+  const formatter = new Formatter(text, options);
+  const lines = nodes.filter(n => !formatter.isWhitespace(n)).map(n => formatter.block(n, ''));
+  return lines.length > 0 ? `${lines.join('\n')}\n` : text;
+}
+
+/** Change formatting the whole document, or null when there is none. */
+export function formatDocumentChange(text: string, options: FormatOptions = {}): FormatChange | null {
+  const formatted = formatXml(text, options);
+  return formatted === null ? null : minimalChange(text, 0, text.length, formatted);
+}
+
+/**
+ * Change formatting the selection `from`–`to`: the smallest element around
+ * it that sits on its own line in a formatted document, re-indented from
+ * the indentation of the line it starts on. The whole document when no
+ * such element contains the selection.
+ */
+export function formatSelectionChange(text: string, from: number, to: number, options: FormatOptions = {}): FormatChange | null {
+  const nodes = parseDocument(text);
+  if (!nodes) return null;
+  const formatter = new Formatter(text, options);
+  let target: FormatElement | null = null;
+  let siblings = nodes;
+  for (;;) {
+    const el = siblings.find((c): c is FormatElement => c.kind === 'element' && c.from <= from && to <= c.to);
+    if (!el) break;
+    target = el;
+    // Below an element kept as written, nothing is laid out
+    if (!formatter.laysOut(el)) break;
+    siblings = el.children;
+  }
+  if (!target) return formatDocumentChange(text, options);
+  const lineStart = text.lastIndexOf('\n', target.from - 1) + 1;
+  const indent = /^[ \t]*/.exec(text.slice(lineStart, target.from))![0];
+  return minimalChange(text, target.from, target.to, formatter.block(target, indent));
+}
+
+function editorOptions(state: EditorState, options: FormatOptions): FormatOptions {
+  return { indentUnit: state.facet(indentUnit), ...options };
+}
+
+/**
+ * Format the whole document as one undo step. False when it is not
+ * well-formed or already formatted.
+ */
+export function formatDocument(options: FormatOptions = {}): StateCommand {
+  return ({ state, dispatch }) => {
+    const change = formatDocumentChange(state.doc.toString(), editorOptions(state, options));
+    if (!change) return false;
+    dispatch(state.update({ changes: change, userEvent: 'input' }));
+    return true;
+  };
+}
+
+/** Format the element around the main selection (formatSelectionChange). */
+export function formatSelection(options: FormatOptions = {}): StateCommand {
+  return ({ state, dispatch }) => {
+    const { from, to } = state.selection.main;
+    const change = formatSelectionChange(state.doc.toString(), from, to, editorOptions(state, options));
+    if (!change) return false;
+    dispatch(state.update({ changes: change, scrollIntoView: true, userEvent: 'input' }));
+    return true;
+  };
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { whoPointer, type ChangeEntry } from '../Editor/revisionDesc';
+import './RevisionLogDialog.css';
+
+interface Props {
+  fileName: string;
+  /** The entry to start from (today, the configured initials and description). */
+  entry: ChangeEntry;
+  /** Add the entry, then save. */
+  onAdd: (entry: ChangeEntry) => void;
+  /** Save without an entry. */
+  onSkip: () => void;
+  /** Don't save. */
+  onCancel: () => void;
+}
+
+/**
+ * Asked on save when the revision log is set to ask: the `<change>` to add
+ * to the document's revisionDesc before it is written. Mounted while open.
+ */
+export function ChangeEntryDialog({ fileName, entry, onAdd, onSkip, onCancel }: Props) {
+  const [text, setText] = useState(entry.text);
+  const [who, setWho] = useState(entry.who);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.select();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pointer = whoPointer(who);
+    // Other initials than proposed name someone else than the reviewer
+    onAdd({ when: entry.when, who: pointer, text, name: pointer === entry.who ? entry.name : who.trim() });
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={onCancel}>
+      <form
+        className="dialog revision-log-dialog"
+        onClick={e => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="change-entry-title"
+      >
+        <h2 id="change-entry-title" className="dialog-title">Log Change to {fileName}</h2>
+        <p className="revision-log-hint">
+          Added to <code>teiHeader/revisionDesc</code> as <code>&lt;change when=&quot;{entry.when}&quot;&gt;</code>.
+        </p>
+        <label className="revision-log-field">
+          <span>Description</span>
+          <input ref={inputRef} type="text" value={text} onChange={e => setText(e.target.value)} />
+        </label>
+        <label className="revision-log-field">
+          <span>Who</span>
+          <input type="text" value={who} placeholder="Initials, e.g. JD" onChange={e => setWho(e.target.value)} />
+        </label>
+        <div className="dialog-actions">
+          <button type="button" className="dialog-secondary" onClick={onCancel}>Cancel</button>
+          <button type="button" className="dialog-secondary" onClick={onSkip}>Save Without Entry</button>
+          <button type="submit" className="dialog-primary">Add and Save</button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { useEditor } from '../../store/useEditor';
+import { useWorkspace } from '../../store/useWorkspace';
+import { initialsOf } from '../Editor/revisionDesc';
+import type { RevisionLogMode } from '../../file/revisionLogSettings';
+import './RevisionLogDialog.css';
+
+interface Props {
+  onClose: () => void;
+}
+
+const MODES: { mode: RevisionLogMode; label: string; description: string }[] = [
+  { mode: 'off', label: 'Off', description: 'Save without touching the revisionDesc.' },
+  { mode: 'ask', label: 'Ask on save', description: 'Ask for a description before each save of a changed document.' },
+  { mode: 'auto', label: 'Add automatically', description: 'Add the entry below on each save of a changed document.' },
+];
+
+/**
+ * Revision log settings for the open workspace folder (or for files opened
+ * on their own): whether saving adds a `<change>` to the revisionDesc, and
+ * its `@who` and description. Mounted while open.
+ */
+export function RevisionLogSettingsDialog({ onClose }: Props) {
+  const { multiTabState } = useEditor();
+  const { state: workspace, revisionLog, setRevisionLog } = useWorkspace();
+  const [mode, setMode] = useState(revisionLog.mode);
+  const [who, setWho] = useState(revisionLog.who);
+  const [description, setDescription] = useState(revisionLog.description);
+  const reviewerInitials = initialsOf(multiTabState.reviewerName);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setRevisionLog({ mode, who: who.trim(), description });
+    onClose();
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <form
+        className="dialog revision-log-dialog"
+        onClick={e => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="revision-log-title"
+      >
+        <h2 id="revision-log-title" className="dialog-title">Revision Log on Save</h2>
+        <p className="revision-log-hint">
+          {workspace.rootName
+            ? <>For the workspace <strong>{workspace.rootName}</strong>.</>
+            : 'For files opened outside a workspace folder.'}
+        </p>
+        <fieldset className="revision-log-modes">
+          <legend>Add a &lt;change&gt; to revisionDesc</legend>
+          {MODES.map(m => (
+            <label key={m.mode} className="revision-log-mode">
+              <input type="radio" name="revision-log-mode" checked={mode === m.mode} onChange={() => setMode(m.mode)} />
+              <span>
+                <strong>{m.label}</strong>
+                <span className="revision-log-mode-description">{m.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+        <label className="revision-log-field">
+          <span>Who</span>
+          <input
+            type="text"
+            value={who}
+            placeholder={reviewerInitials ? `${reviewerInitials} (reviewer's initials)` : 'Initials, e.g. JD'}
+            onChange={e => setWho(e.target.value)}
+          />
+        </label>
+        <label className="revision-log-field">
+          <span>Description</span>
+          <input type="text" value={description} onChange={e => setDescription(e.target.value)} />
+        </label>
+        <div className="dialog-actions">
+          <button type="button" className="dialog-secondary" onClick={onClose}>Cancel</button>
+          <button type="submit" className="dialog-primary">Save Settings</button>
+        </div>
+      </form>
+    </div>
+  );
+}
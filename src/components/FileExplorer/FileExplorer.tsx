@@ -3,24 +3,47 @@ import { useWorkspace } from '../../store/useWorkspace';
 import { useEditor } from '../../store/useEditor';
 import { openFile, readFileContent } from '../../file/fileSystemAccess';
 import { detectSchemaDeclarations, analyzeSchemaDeclarations, buildSchemaAlertMessage } from '../../utils/schemaDetector';
+import { resolveSchemaDeclarationPath } from '../../file/documentSchema';
 import { ContextMenu, type MenuItem, type MenuDivider } from '../ContextMenu/ContextMenu';
 import { useContextMenu } from '../ContextMenu/useContextMenu';
+import { ConfirmDialog } from '../FileDialog/ConfirmDialog';
+import { useToast } from '../Toast/useToast';
+import { useWorkspaceFileOps } from '../../hooks/useWorkspaceFileOps';
+import { getTemplateContent } from '../../file/templates';
+import { isWithinPath, parentPath } from '../../file/fileTreeEdit';
+import { TREE_DRAG_TYPE } from '../../utils/dragDropUtils';
 import { FileTreeItem } from './FileTreeItem';
-import type { FileTreeNode } from '../../types/workspace';
+import { EMPTY_TEMPLATE, FileNameDialog } from './FileNameDialog';
+import type { FileTreeNode, OpenDocument } from '../../types/workspace';
 import './FileExplorer.css';
 
 interface FileExplorerProps {
   onSchemaAlert?: (message: string) => void;
 }
 
+/** An entry waiting for its name in the FileNameDialog. */
+type NameRequest =
+  | { kind: 'new-file' | 'new-folder'; dir: string }
+  | { kind: 'rename'; node: FileTreeNode };
+
 export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
-  const { state, isSupported, openWorkspace, closeWorkspace, refreshFileTree } = useWorkspace();
-  const { openFileAsTab } = useEditor();
+  const {
+    state, isSupported, openWorkspace, closeWorkspace, refreshFileTree, findFileNode,
+    authorityFiles, toggleAuthorityFile,
+  } = useWorkspace();
+  const { openFileAsTab, multiTabState } = useEditor();
+  const fileOps = useWorkspaceFileOps();
+  const toast = useToast();
 
   // Context menu state
   const contextMenu = useContextMenu();
   const [contextNode, setContextNode] = useState<FileTreeNode | null>(null);
 
+  // File operations: the entry being named, the one waiting to be deleted
+  const [nameRequest, setNameRequest] = useState<NameRequest | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<FileTreeNode | null>(null);
+  const [isRootDropTarget, setIsRootDropTarget] = useState(false);
+
   // Handle opening a file from the tree
   const handleOpenFile = useCallback(
     async (path: string, handle: FileSystemHandle) => {
@@ -31,9 +54,13 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
         const fileName = handle.name;
         openFileAsTab(content, fileName, handle as FileSystemFileHandle, path);
 
-        // Check for schema declarations and warn if needed
+        // Check for schema declarations and warn if needed. Schemas found in
+        // the workspace are loaded automatically (useWorkspaceSchemas).
         if (onSchemaAlert) {
-          const declarations = detectSchemaDeclarations(content);
+          const declarations = detectSchemaDeclarations(content).filter((decl) => {
+            const schemaPath = resolveSchemaDeclarationPath(decl, path);
+            return !schemaPath || !findFileNode(schemaPath);
+          });
           if (declarations.length > 0) {
             const analysis = analyzeSchemaDeclarations(declarations);
             const message = buildSchemaAlertMessage(analysis);
@@ -46,7 +73,7 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
         console.error('Failed to open file:', error);
       }
     },
-    [openFileAsTab, onSchemaAlert],
+    [openFileAsTab, onSchemaAlert, findFileNode],
   );
 
   // Handle file tree item context menu
@@ -65,11 +92,96 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
     }
   }, [contextNode]);
 
+  // Run a file operation, reporting a failure (permission revoked, name
+  // taken meanwhile, file locked) instead of dropping it
+  const runFileOp = useCallback(
+    async (what: string, op: () => Promise<unknown>) => {
+      try {
+        await op();
+      } catch (error) {
+        toast.error(`Could not ${what}: ${error instanceof Error ? error.message : 'unknown error'}`, 8000);
+      }
+    },
+    [toast],
+  );
+
+  const validateName = useCallback(
+    (name: string): string | null => {
+      if (!nameRequest) return null;
+      if (nameRequest.kind === 'rename') {
+        const { node } = nameRequest;
+        return fileOps.nameError(parentPath(node.path), name, node.type, node.name);
+      }
+      return fileOps.nameError(nameRequest.dir, name, nameRequest.kind === 'new-file' ? 'file' : 'directory');
+    },
+    [nameRequest, fileOps],
+  );
+
+  const handleNameConfirm = useCallback(
+    (name: string, templateId: string) => {
+      const request = nameRequest;
+      setNameRequest(null);
+      if (!request) return;
+      if (request.kind === 'rename') {
+        void runFileOp(`rename ${request.node.name}`, () => fileOps.rename(request.node, name));
+      } else if (request.kind === 'new-folder') {
+        void runFileOp(`create ${name}`, () => fileOps.createFolder(request.dir, name));
+      } else {
+        const content = templateId === EMPTY_TEMPLATE ? '' : getTemplateContent(templateId);
+        void runFileOp(`create ${name}`, () => fileOps.createFile(request.dir, name, content));
+      }
+    },
+    [nameRequest, fileOps, runFileOp],
+  );
+
+  const handleNameCancel = useCallback(() => setNameRequest(null), []);
+
+  const handleDeleteConfirm = useCallback(() => {
+    const node = pendingDelete;
+    setPendingDelete(null);
+    if (node) void runFileOp(`delete ${node.name}`, () => fileOps.remove(node));
+  }, [pendingDelete, fileOps, runFileOp]);
+
+  const handleDeleteCancel = useCallback(() => setPendingDelete(null), []);
+
+  // Drag-and-drop within the tree: the entry at `path` into folder `dir`
+  const handleMove = useCallback(
+    (path: string, dir: string) => {
+      const node = findFileNode(path);
+      if (node) void runFileOp(`move ${node.name}`, () => fileOps.move(node, dir));
+    },
+    [findFileNode, fileOps, runFileOp],
+  );
+
+  // Dropped on the tree outside any entry: into the workspace root
+  const handleRootDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(TREE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsRootDropTarget(true);
+  }, []);
+
+  const handleRootDragLeave = useCallback(() => setIsRootDropTarget(false), []);
+
+  const handleRootDrop = useCallback(
+    (e: React.DragEvent) => {
+      const path = e.dataTransfer.getData(TREE_DRAG_TYPE);
+      setIsRootDropTarget(false);
+      if (!path) return;
+      e.preventDefault();
+      handleMove(path, '');
+    },
+    [handleMove],
+  );
+
   // Build context menu items for file tree
   const getContextMenuItems = useCallback((): (MenuItem | MenuDivider)[] => {
     if (!contextNode) return [];
 
     const isFile = contextNode.type === 'file';
+    // New entries go into the folder, or next to the file
+    const dir = isFile ? parentPath(contextNode.path) : contextNode.path;
+    const node = contextNode;
 
     return [
       ...(isFile
@@ -80,9 +192,49 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
               icon: '📄',
               action: () => handleOpenFile(contextNode.path, contextNode.handle),
             } as MenuItem,
+            {
+              // Pointer attributes (@ref, @who, …) complete against its xml:ids
+              id: 'authority',
+              label: authorityFiles.includes(contextNode.path) ? 'Stop Using as Authority File' : 'Use as Authority File',
+              icon: '👤',
+              action: () => toggleAuthorityFile(contextNode.path),
+            } as MenuItem,
             { type: 'divider' as const } as MenuDivider,
           ]
         : []),
+      {
+        id: 'new-file',
+        label: 'New File…',
+        icon: '➕',
+        action: () => setNameRequest({ kind: 'new-file', dir }),
+      },
+      {
+        id: 'new-folder',
+        label: 'New Folder…',
+        icon: '📁',
+        action: () => setNameRequest({ kind: 'new-folder', dir }),
+      },
+      { type: 'divider' },
+      {
+        id: 'rename',
+        label: 'Rename…',
+        icon: '✎',
+        action: () => setNameRequest({ kind: 'rename', node }),
+      },
+      {
+        id: 'duplicate',
+        label: 'Duplicate',
+        icon: '⧉',
+        action: () => void runFileOp(`duplicate ${node.name}`, () => fileOps.duplicate(node)),
+      },
+      {
+        id: 'delete',
+        label: 'Delete…',
+        icon: '🗑',
+        danger: true,
+        action: () => setPendingDelete(node),
+      },
+      { type: 'divider' },
       {
         id: 'copy-path',
         label: 'Copy Path',
@@ -96,7 +248,7 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
         action: () => navigator.clipboard.writeText(contextNode.name),
       },
     ];
-  }, [contextNode, handleCopyPath, handleOpenFile]);
+  }, [contextNode, handleCopyPath, handleOpenFile, authorityFiles, toggleAuthorityFile, fileOps, runFileOp]);
 
   // Handle opening a single file (without workspace)
   const handleOpenSingleFile = useCallback(async () => {
@@ -198,6 +350,20 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
       <div className="file-explorer-header">
         <span className="file-explorer-title">EXPLORER</span>
         <div className="file-explorer-actions">
+          <button
+            className="file-explorer-action-btn"
+            onClick={() => setNameRequest({ kind: 'new-file', dir: '' })}
+            title="New File…"
+          >
+            ＋
+          </button>
+          <button
+            className="file-explorer-action-btn"
+            onClick={() => setNameRequest({ kind: 'new-folder', dir: '' })}
+            title="New Folder…"
+          >
+            ⊞
+          </button>
           <button
             className="file-explorer-action-btn"
             onClick={refreshFileTree}
@@ -220,7 +386,12 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
         <span className="workspace-name">{state.rootName}</span>
       </div>
 
-      <div className="file-explorer-tree">
+      <div
+        className={`file-explorer-tree ${isRootDropTarget ? 'drop-target' : ''}`}
+        onDragOver={handleRootDragOver}
+        onDragLeave={handleRootDragLeave}
+        onDrop={handleRootDrop}
+      >
         {state.fileTree.length === 0 ? (
           <div className="file-explorer-empty-tree">
             <p>No XML files found</p>
@@ -233,6 +404,7 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
               depth={0}
               onFileClick={handleOpenFile}
               onContextMenu={handleTreeContextMenu}
+              onMove={handleMove}
             />
           ))
         )}
@@ -247,6 +419,50 @@ export function FileExplorer({ onSchemaAlert }: FileExplorerProps) {
           onClose={contextMenu.close}
         />
       )}
+
+      {nameRequest && (
+        <FileNameDialog
+          title={
+            nameRequest.kind === 'rename'
+              ? `Rename ${nameRequest.node.name}`
+              : `${nameRequest.kind === 'new-file' ? 'New File' : 'New Folder'} in ${nameRequest.dir || state.rootName}`
+          }
+          initialName={
+            nameRequest.kind === 'rename' ? nameRequest.node.name : nameRequest.kind === 'new-file' ? 'Untitled.xml' : 'New Folder'
+          }
+          confirmLabel={nameRequest.kind === 'rename' ? 'Rename' : 'Create'}
+          validate={validateName}
+          withTemplates={nameRequest.kind === 'new-file'}
+          onConfirm={handleNameConfirm}
+          onCancel={handleNameCancel}
+        />
+      )}
+
+      <ConfirmDialog
+        open={pendingDelete !== null}
+        title={pendingDelete?.type === 'directory' ? 'Delete Folder' : 'Delete File'}
+        message={pendingDelete ? deleteMessage(pendingDelete, multiTabState.openDocuments) : ''}
+        confirmLabel="Delete"
+        variant="danger"
+        onConfirm={handleDeleteConfirm}
+        onCancel={handleDeleteCancel}
+      />
     </div>
   );
 }
+
+/** What deleting `node` does, including to the tabs of its files. */
+function deleteMessage(node: FileTreeNode, openDocuments: OpenDocument[]): string {
+  const what = node.type === 'directory'
+    ? `Delete the folder "${node.name}" and everything in it?`
+    : `Delete "${node.name}"?`;
+  const open = openDocuments.filter(d => d.filePath && isWithinPath(d.filePath, node.path));
+  const dirty = open.filter(d => d.isDirty).length;
+  const clean = open.length - dirty;
+  let tabs = '';
+  if (clean > 0) tabs += ` ${clean === 1 ? '1 open tab' : `${clean} open tabs`} will close.`;
+  if (dirty > 0) {
+    tabs += ` ${dirty === 1 ? '1 tab with unsaved changes stays' : `${dirty} tabs with unsaved changes stay`} open, no longer linked to a file.`;
+  }
+  return `${what} This cannot be undone.${tabs}`;
+}
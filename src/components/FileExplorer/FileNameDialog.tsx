@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { TEMPLATES } from '../../file/templates';
+import './FileNameDialog.css';
+
+/** The template choice for an empty file. */
+export const EMPTY_TEMPLATE = 'empty';
+
+interface Props {
+  title: string;
+  /** Name to start from; its stem (before the extension) is selected. */
+  initialName: string;
+  confirmLabel: string;
+  /** Why a name can't be used, or null. */
+  validate: (name: string) => string | null;
+  /** Offer the New Document templates (and an empty file). */
+  withTemplates?: boolean;
+  onConfirm: (name: string, templateId: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Name for a new or renamed workspace entry — New File (with its template),
+ * New Folder, Rename. The name is checked as it is typed. Mounted while open.
+ */
+export function FileNameDialog({ title, initialName, confirmLabel, validate, withTemplates, onConfirm, onCancel }: Props) {
+  const [name, setName] = useState(initialName);
+  const [templateId, setTemplateId] = useState(TEMPLATES[0]?.id ?? EMPTY_TEMPLATE);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const error = validate(name);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.focus();
+    const dot = initialName.lastIndexOf('.');
+    input.setSelectionRange(0, dot > 0 ? dot : initialName.length);
+  }, [initialName]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!error) onConfirm(name, templateId);
+  };
+
+  return (
+    <div className="dialog-overlay" onClick={onCancel}>
+      <form
+        className="dialog file-name-dialog"
+        onClick={e => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="file-name-dialog-title"
+      >
+        <h2 id="file-name-dialog-title" className="dialog-title">{title}</h2>
+        <label className="file-name-field">
+          <span>Name</span>
+          <input
+            ref={inputRef}
+            type="text"
+            value={name}
+            aria-invalid={error !== null}
+            aria-describedby="file-name-dialog-error"
+            onChange={e => setName(e.target.value)}
+          />
+        </label>
+        {withTemplates && (
+          <label className="file-name-field">
+            <span>Template</span>
+            <select value={templateId} onChange={e => setTemplateId(e.target.value)}>
+              {TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              <option value={EMPTY_TEMPLATE}>Empty file</option>
+            </select>
+          </label>
+        )}
+        <div id="file-name-dialog-error" className="file-name-error" role="alert">{error}</div>
+        <div className="dialog-actions">
+          <button type="button" className="dialog-secondary" onClick={onCancel}>Cancel</button>
+          <button type="submit" className="dialog-primary" disabled={error !== null}>{confirmLabel}</button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 import { memo, useCallback, useState } from 'react';
 import { useWorkspace } from '../../store/useWorkspace';
 import type { FileTreeNode } from '../../types/workspace';
-import { setDragData, INTERNAL_DRAG_TYPE } from '../../utils/dragDropUtils';
+import { setDragData, INTERNAL_DRAG_TYPE, TREE_DRAG_TYPE } from '../../utils/dragDropUtils';
+import { parentPath } from '../../file/fileTreeEdit';
 
 interface FileTreeItemProps {
   node: FileTreeNode;
   depth: number;
   onFileClick: (path: string, handle: FileSystemHandle) => void;
   onContextMenu?: (e: React.MouseEvent, node: FileTreeNode) => void;
+  /** Move the entry at `path` into folder `dir` (dropped on this item). */
+  onMove?: (path: string, dir: string) => void;
 }
 
 /** Get icon for file based on extension */
@@ -25,9 +28,10 @@ function getFileIcon(fileName: string): string {
   }
 }
 
-export const FileTreeItem = memo(function FileTreeItem({ node, depth, onFileClick, onContextMenu }: FileTreeItemProps) {
+export const FileTreeItem = memo(function FileTreeItem({ node, depth, onFileClick, onContextMenu, onMove }: FileTreeItemProps) {
   const { toggleDirectory } = useWorkspace();
   const [isDragging, setIsDragging] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
 
   const handleClick = useCallback(() => {
     if (node.type === 'directory') {
@@ -46,24 +50,24 @@ export const FileTreeItem = memo(function FileTreeItem({ node, depth, onFileClic
     [node, onContextMenu],
   );
 
-  // ─── Drag Handlers (only for files) ───
+  // ─── Drag Handlers ───
+  // Files drag into the editor (opened as a tab, a copy) and within the
+  // tree (moved); folders only within the tree.
 
   const handleDragStart = useCallback(
     (e: React.DragEvent) => {
-      if (node.type === 'directory') {
-        e.preventDefault();
-        return;
+      e.stopPropagation();
+      e.dataTransfer.setData(TREE_DRAG_TYPE, node.path);
+      if (node.type === 'file') {
+        // Store drag data and get ID
+        const dragId = setDragData({
+          filePath: node.path,
+          fileHandle: node.handle as FileSystemFileHandle,
+          fileName: node.name,
+        });
+        e.dataTransfer.setData(INTERNAL_DRAG_TYPE, dragId);
       }
-
-      // Store drag data and get ID
-      const dragId = setDragData({
-        filePath: node.path,
-        fileHandle: node.handle as FileSystemFileHandle,
-        fileName: node.name,
-      });
-
-      e.dataTransfer.setData(INTERNAL_DRAG_TYPE, dragId);
-      e.dataTransfer.effectAllowed = 'copy';
+      e.dataTransfer.effectAllowed = 'copyMove';
       setIsDragging(true);
     },
     [node],
@@ -73,6 +77,36 @@ export const FileTreeItem = memo(function FileTreeItem({ node, depth, onFileClic
     setIsDragging(false);
   }, []);
 
+  // ─── Drop Handlers (moves within the tree) ───
+  // Dropped on a folder, an entry moves into it; on a file, next to it.
+
+  const handleDragOver = useCallback(
+    (e: React.DragEvent) => {
+      if (!onMove || !e.dataTransfer.types.includes(TREE_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setIsDropTarget(true);
+    },
+    [onMove],
+  );
+
+  const handleDragLeave = useCallback(() => {
+    setIsDropTarget(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      const path = e.dataTransfer.getData(TREE_DRAG_TYPE);
+      if (!onMove || !path) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setIsDropTarget(false);
+      onMove(path, node.type === 'directory' ? node.path : parentPath(node.path));
+    },
+    [node, onMove],
+  );
+
   const isFolder = node.type === 'directory';
   const icon = isFolder
     ? node.isExpanded ? '📂' : '📁'
@@ -81,14 +115,17 @@ export const FileTreeItem = memo(function FileTreeItem({ node, depth, onFileClic
   return (
     <div className="file-tree-item-container">
       <div
-        className={`file-tree-item ${isFolder ? 'folder' : 'file'} ${isDragging ? 'dragging' : ''}`}
+        className={`file-tree-item ${isFolder ? 'folder' : 'file'} ${isDragging ? 'dragging' : ''} ${isDropTarget ? 'drop-target' : ''}`}
         style={{ paddingLeft: `${depth * 12 + 8}px` }}
         onClick={handleClick}
         onContextMenu={handleContextMenu}
         title={node.path}
-        draggable={!isFolder}
+        draggable
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
       >
         {isFolder && (
           <span className={`tree-chevron ${node.isExpanded ? 'expanded' : ''}`}>
@@ -108,6 +145,7 @@ export const FileTreeItem = memo(function FileTreeItem({ node, depth, onFileClic
               depth={depth + 1}
               onFileClick={onFileClick}
               onContextMenu={onContextMenu}
+              onMove={onMove}
             />
           ))}
         </div>
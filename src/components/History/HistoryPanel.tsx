@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useEditor } from '../../store/useEditor';
+import { useWorkspace } from '../../store/useWorkspace';
+import {
+  type RevisionMeta,
+  historyKey,
+  listRevisions,
+  loadRevisionContent,
+  recordRevision,
+  revisionFileName,
+  subscribeRevisions,
+} from '../../file/revisionHistory';
+import { RevisionDiffDialog } from './RevisionDiffDialog';
+import './HistoryPanel.css';
+
+interface Comparing {
+  revision: RevisionMeta;
+  content: string;
+  current: string;
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+function formatSize(size: number): string {
+  return size < 1024 ? `${size} chars` : `${(size / 1024).toFixed(1)} K chars`;
+}
+
+/**
+ * Revisions of the active document's file (revisionHistory.ts), newest
+ * first. Compare opens a side-by-side diff with the current buffer, from
+ * which a revision is restored in place — one undoable edit, the replaced
+ * buffer kept as a revision too — or opened as a new untitled tab.
+ */
+export function HistoryPanel() {
+  const { getActiveDocument, editorViewRef, createNewTab, setContent } = useEditor();
+  const { state: workspace } = useWorkspace();
+  const doc = getActiveDocument();
+  const docId = doc?.id ?? null;
+  const filePath = doc?.filePath ?? null;
+  const fileHandle = doc?.fileHandle ?? null;
+  const root = filePath ? workspace.rootName : null;
+
+  const [history, setHistory] = useState<{ docId: string | null; key: string | null; revisions: RevisionMeta[] } | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+  const [comparing, setComparing] = useState<Comparing | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const key = await historyKey({ root, filePath, fileHandle });
+      const revisions = key ? await listRevisions(key, () => setUnavailable(true)) : [];
+      if (!cancelled) setHistory({ docId, key, revisions });
+    };
+    void load();
+    const unsubscribe = subscribeRevisions(() => void load());
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [docId, root, filePath, fileHandle]);
+
+  const currentText = useCallback(
+    () => editorViewRef.current?.state.doc.toString() ?? getActiveDocument()?.content ?? '',
+    [editorViewRef, getActiveDocument],
+  );
+
+  const compare = useCallback(async (revision: RevisionMeta) => {
+    const content = await loadRevisionContent(revision.id, () => setUnavailable(true));
+    if (content !== null) setComparing({ revision, content, current: currentText() });
+  }, [currentText]);
+
+  const restoreInPlace = useCallback(async () => {
+    if (!comparing) return;
+    const { content } = comparing;
+    setComparing(null);
+    if (history?.key) await recordRevision(history.key, currentText(), 'auto');
+    const view = editorViewRef.current;
+    if (view) {
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: content }, userEvent: 'input' });
+      view.focus();
+    } else {
+      setContent(content);
+    }
+  }, [comparing, history, currentText, editorViewRef, setContent]);
+
+  const openAsTab = useCallback(() => {
+    if (!comparing || !doc) return;
+    createNewTab(comparing.content, revisionFileName(doc.fileName, comparing.revision.timestamp));
+    setComparing(null);
+  }, [comparing, doc, createNewTab]);
+
+  const closeCompare = useCallback(() => setComparing(null), []);
+
+  if (!doc) {
+    return <div className="history-panel"><div className="history-panel-empty">No document open.</div></div>;
+  }
+
+  const current = history?.docId === docId ? history : null;
+
+  return (
+    <div className="history-panel">
+      <div className="history-panel-header">
+        <span className="history-panel-file">{doc.fileName}</span>
+        {current?.key && <span className="history-panel-count">{current.revisions.length} revisions</span>}
+      </div>
+      {unavailable ? (
+        <div className="history-panel-empty">History is unavailable in this browser session (storage blocked).</div>
+      ) : !current ? null : !current.key ? (
+        <div className="history-panel-empty">Save this document to start its history.</div>
+      ) : current.revisions.length === 0 ? (
+        <div className="history-panel-empty">No revisions yet. One is recorded on every save, and every few minutes while there are unsaved changes.</div>
+      ) : (
+        <ul className="history-list">
+          {current.revisions.map(r => (
+            <li key={r.id} className="history-item">
+              <button
+                type="button"
+                className="history-item-button"
+                title="Compare with the current buffer"
+                onClick={() => void compare(r)}
+              >
+                <span className="history-item-time">{formatTimestamp(r.timestamp)}</span>
+                <span className={`history-item-reason history-item-reason-${r.reason}`}>
+                  {r.reason === 'save' ? 'Saved' : 'Snapshot'}
+                </span>
+                <span className="history-item-size">{formatSize(r.size)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {comparing && (
+        <RevisionDiffDialog
+          title={`${doc.fileName} — ${formatTimestamp(comparing.revision.timestamp)}`}
+          leftLabel={`Revision (${formatTimestamp(comparing.revision.timestamp)})`}
+          rightLabel="Current buffer"
+          left={comparing.content}
+          right={comparing.current}
+          onRestore={() => void restoreInPlace()}
+          onOpenAsTab={openAsTab}
+          onClose={closeCompare}
+        />
+      )}
+    </div>
+  );
+}
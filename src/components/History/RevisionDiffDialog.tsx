@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collapseUnchanged, diffLines, hasChanges, type DiffLine } from '../../utils/lineDiff';
+import './HistoryPanel.css';
+
+interface Props {
+  /** Dialog heading, e.g. the file and the revision's date. */
+  title: string;
+  leftLabel: string;
+  rightLabel: string;
+  left: string;
+  right: string;
+  onRestore: () => void;
+  onOpenAsTab: () => void;
+  onClose: () => void;
+}
+
+function Cell({ line, side, kind }: { line: DiffLine | null; side: 'left' | 'right'; kind: string }) {
+  return (
+    <>
+      <td className="revision-diff-number">{line?.number ?? ''}</td>
+      <td className={`revision-diff-text revision-diff-${side} revision-diff-${line ? kind : 'blank'}`}>
+        {line?.text ?? ''}
+      </td>
+    </>
+  );
+}
+
+/**
+ * Side-by-side comparison of a revision (left) with the current buffer
+ * (right), unchanged stretches folded by default, with the two restore
+ * actions at hand.
+ */
+export function RevisionDiffDialog({ title, leftLabel, rightLabel, left, right, onRestore, onOpenAsTab, onClose }: Props) {
+  const [changesOnly, setChangesOnly] = useState(true);
+  const rows = useMemo(() => diffLines(left, right), [left, right]);
+  const shown = useMemo(() => (changesOnly ? collapseUnchanged(rows) : rows), [rows, changesOnly]);
+  const changed = hasChanges(rows);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="dialog-overlay" onClick={onClose}>
+      <div
+        className="revision-diff-dialog"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="revision-diff-title"
+      >
+        <div className="revision-diff-header">
+          <h2 id="revision-diff-title" className="dialog-title">{title}</h2>
+          <label className="revision-diff-toggle">
+            <input type="checkbox" checked={changesOnly} onChange={e => setChangesOnly(e.target.checked)} />
+            Changes only
+          </label>
+        </div>
+        {changed ? (
+          <div className="revision-diff-body">
+            <table className="revision-diff-table">
+              <thead>
+                <tr>
+                  <th colSpan={2}>{leftLabel}</th>
+                  <th colSpan={2}>{rightLabel}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((row, i) => (row.kind === 'skip' ? (
+                  <tr key={i} className="revision-diff-skip">
+                    <td colSpan={4}>⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}</td>
+                  </tr>
+                ) : (
+                  <tr key={i}>
+                    <Cell line={row.left} side="left" kind={row.kind} />
+                    <Cell line={row.right} side="right" kind={row.kind} />
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="revision-diff-same">This revision is identical to the current buffer.</div>
+        )}
+        <div className="dialog-actions">
+          <button className="dialog-secondary" onClick={onClose}>Close</button>
+          <button className="dialog-secondary" onClick={onOpenAsTab}>Open as New Tab</button>
+          <button className="dialog-primary" onClick={onRestore} disabled={!changed}>Restore in Place</button>
+        </div>
+      </div>
+    </div>
+  );
+}
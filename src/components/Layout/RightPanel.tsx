@@ -1,13 +1,17 @@
 import { useState, useCallback, lazy, Suspense } from 'react';
 import { OutlinePanel } from '../Outline/OutlinePanel';
+import { AttributeInspector } from '../Attributes/AttributeInspector';
 import './RightPanel.css';
 
 // Lazy load heavy panels to reduce initial bundle size
 const PreviewPanel = lazy(() => import('../Preview/PreviewPanel').then(m => ({ default: m.PreviewPanel })));
 const AIPanel = lazy(() => import('../AI/AIPanel').then(m => ({ default: m.AIPanel })));
 const ProblemsPanel = lazy(() => import('../Problems/ProblemsPanel').then(m => ({ default: m.ProblemsPanel })));
+const ChangesPanel = lazy(() => import('../Review/ChangesPanel').then(m => ({ default: m.ChangesPanel })));
+const HistoryPanel = lazy(() => import('../History/HistoryPanel').then(m => ({ default: m.HistoryPanel })));
+const CharacterPalette = lazy(() => import('../Characters/CharacterPalette').then(m => ({ default: m.CharacterPalette })));
 
-type PanelMode = 'outline' | 'preview' | 'problems' | 'ai';
+type PanelMode = 'outline' | 'attributes' | 'preview' | 'problems' | 'characters' | 'changes' | 'history' | 'ai';
 
 /** Loading fallback for lazy-loaded panels */
 function PanelLoader() {
@@ -20,8 +24,10 @@ function PanelLoader() {
 }
 
 /**
- * Right panel wrapper that allows toggling between Outline, Preview,
- * Problems (corpus validation), and AI.
+ * Right panel wrapper that allows toggling between Outline, Attributes
+ * (of the element at the cursor), Preview, Problems (corpus validation),
+ * Characters (special characters and gaiji), Changes (track changes and
+ * review), History (local revisions of the file), and AI.
  * Used in split mode to give users flexibility in what they see
  */
 export function RightPanel() {
@@ -41,6 +47,13 @@ export function RightPanel() {
         >
           Outline
         </button>
+        <button
+          className={`right-panel-tab ${mode === 'attributes' ? 'right-panel-tab-active' : ''}`}
+          onClick={() => handleModeChange('attributes')}
+          title="Attributes of the element at the cursor"
+        >
+          Attributes
+        </button>
         <button
           className={`right-panel-tab ${mode === 'preview' ? 'right-panel-tab-active' : ''}`}
           onClick={() => handleModeChange('preview')}
@@ -55,6 +68,27 @@ export function RightPanel() {
         >
           Problems
         </button>
+        <button
+          className={`right-panel-tab ${mode === 'characters' ? 'right-panel-tab-active' : ''}`}
+          onClick={() => handleModeChange('characters')}
+          title="Special characters, document glyphs and entities"
+        >
+          Characters
+        </button>
+        <button
+          className={`right-panel-tab ${mode === 'changes' ? 'right-panel-tab-active' : ''}`}
+          onClick={() => handleModeChange('changes')}
+          title="Tracked changes: record, accept and reject"
+        >
+          Changes
+        </button>
+        <button
+          className={`right-panel-tab ${mode === 'history' ? 'right-panel-tab-active' : ''}`}
+          onClick={() => handleModeChange('history')}
+          title="Earlier revisions of this file"
+        >
+          History
+        </button>
         <button
           className={`right-panel-tab ${mode === 'ai' ? 'right-panel-tab-active' : ''}`}
           onClick={() => handleModeChange('ai')}
@@ -65,6 +99,7 @@ export function RightPanel() {
       </div>
       <div className="right-panel-content">
         {mode === 'outline' && <OutlinePanel />}
+        {mode === 'attributes' && <AttributeInspector />}
         {mode === 'preview' && (
           <Suspense fallback={<PanelLoader />}>
             <PreviewPanel />
@@ -75,6 +110,21 @@ export function RightPanel() {
             <ProblemsPanel />
           </Suspense>
         )}
+        {mode === 'characters' && (
+          <Suspense fallback={<PanelLoader />}>
+            <CharacterPalette />
+          </Suspense>
+        )}
+        {mode === 'changes' && (
+          <Suspense fallback={<PanelLoader />}>
+            <ChangesPanel />
+          </Suspense>
+        )}
+        {mode === 'history' && (
+          <Suspense fallback={<PanelLoader />}>
+            <HistoryPanel />
+          </Suspense>
+        )}
         {mode === 'ai' && (
           <Suspense fallback={<PanelLoader />}>
             <AIPanel />
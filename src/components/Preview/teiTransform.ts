@@ -180,6 +180,42 @@ const REND_MAP: Record<string, string> = {
   indent: 'rend-indent',
 };
 
+/** How an element is rendered: its HTML tag, CSS classes and block/inline. */
+export interface ElementPresentation {
+  tag: string;
+  /** `tei-{name}` (or the mapped class) plus one class per known @rend value */
+  classes: string[];
+  block: boolean;
+}
+
+/**
+ * Presentation of a TEI element from ELEMENT_MAP / REND_MAP. Shared by the
+ * preview and the Author view so both style a document the same way;
+ * unmapped elements are inline spans.
+ */
+export function elementPresentation(localName: string, rend?: string | null): ElementPresentation {
+  const mapping = ELEMENT_MAP[localName];
+  const classes = [mapping?.className ?? `tei-${localName}`];
+  if (rend) {
+    for (const r of rend.split(/\s+/)) {
+      const cls = REND_MAP[r.toLowerCase()];
+      if (cls) classes.push(cls);
+    }
+  }
+  return { tag: mapping?.tag ?? 'span', classes, block: mapping?.block ?? false };
+}
+
+/**
+ * Whether the preview maps an element as a block or inline, or null for an
+ * element it does not map. The formatter uses this to decide where line
+ * breaks may be added.
+ */
+export function elementLayout(localName: string): 'block' | 'inline' | null {
+  const mapping = ELEMENT_MAP[localName];
+  if (!mapping) return null;
+  return mapping.block ? 'block' : 'inline';
+}
+
 function transformNode(node: Node): string {
   if (node.nodeType === Node.TEXT_NODE) {
     return escapeHtml(node.textContent ?? '');
@@ -223,20 +259,7 @@ function transformNode(node: Node): string {
   }
 
   const childHtml = Array.from(el.childNodes).map(transformNode).join('');
-
-  // Build class list
-  const classes: string[] = [];
-  if (mapping?.className) classes.push(mapping.className);
-  else classes.push(`tei-${localName}`);
-
-  // Map @rend attribute to CSS classes
-  const rend = el.getAttribute('rend');
-  if (rend) {
-    for (const r of rend.split(/\s+/)) {
-      const cls = REND_MAP[r.toLowerCase()];
-      if (cls) classes.push(cls);
-    }
-  }
+  const { classes } = elementPresentation(localName, el.getAttribute('rend'));
 
   // Map @type to a data attribute for CSS targeting
   const type = el.getAttribute('type');
@@ -1,45 +1,79 @@
-import { useCallback } from 'react';
+import { Fragment, useCallback } from 'react';
 import { useWorkspace } from '../../store/useWorkspace';
 import { useEditor } from '../../store/useEditor';
 import { useBatchValidation } from '../../hooks/useBatchValidation';
 import { readFileContent } from '../../file/fileSystemAccess';
 import type { BatchFileResult } from '../../file/batchValidation';
-import type { ValidationError } from '../../types/schema';
+import type { QuickFix, ValidationError } from '../../types/schema';
+import { applyQuickFix } from '../Editor/quickFix';
+import { goToLineInView } from '../../utils/goToLineInView';
+import { useToast } from '../Toast/useToast';
 import './ProblemsPanel.css';
 
 /**
  * Corpus-wide validation results (P2 batch validation).
  *
  * "Validate workspace" runs every XML file in the tree through the same
- * schema (+ Schematron) validators the editor uses live; results group by
- * file and a click opens the file (deduped by path) at the offending line.
+ * schema (+ Schematron + xml:id/pointer integrity) validators the editor
+ * uses live — cross-file `file.xml#id` pointers resolve against the whole
+ * corpus; results group by file and a click opens the file (deduped by
+ * path) at the offending line. Schematron quick fixes get a button each,
+ * which opens the file and applies the fix in the editor (undoable there).
+ * Both wait for the file's editor view (runInFileEditor), since opening a
+ * tab mounts a new one.
  */
 export function ProblemsPanel() {
   const { state, batch, findFileNode } = useWorkspace();
-  const { openFileAsTab, goToLine } = useEditor();
+  const { openFileAsTab, runInFileEditor } = useEditor();
   const runBatch = useBatchValidation();
+  const toast = useToast();
 
-  const handleDiagnosticClick = useCallback(
-    async (result: BatchFileResult, error: ValidationError) => {
+  /** Open (or activate) the result's file. False when it cannot be read. */
+  const openResult = useCallback(
+    async (result: BatchFileResult): Promise<boolean> => {
       const node = findFileNode(result.path);
-      if (!node || node.type !== 'file') return;
+      if (!node || node.type !== 'file') return false;
 
       try {
         const content = await readFileContent(node.handle as FileSystemFileHandle);
         // OPEN_TAB dedupes by filePath: an already-open (possibly dirty) tab
         // is simply activated — its content is NOT overwritten.
         openFileAsTab(content, node.name, node.handle as FileSystemFileHandle, result.path);
+        return true;
       } catch {
-        return; // File unreadable (moved/permission) — nothing to navigate to.
+        return false; // File unreadable (moved/permission) — nothing to navigate to.
       }
+    },
+    [findFileNode, openFileAsTab],
+  );
+
+  const handleDiagnosticClick = useCallback(
+    async (result: BatchFileResult, error: ValidationError) => {
+      if (!(await openResult(result))) return;
+      runInFileEditor(result.path, view => goToLineInView(view, error.line));
+    },
+    [openResult, runInFileEditor],
+  );
+
+  const handleFixClick = useCallback(
+    async (result: BatchFileResult, fix: QuickFix) => {
+      if (!(await openResult(result))) return;
 
-      // The editor remounts asynchronously when a new tab opens, and
-      // goToLine targets the live view ref. Navigate once quickly (covers
-      // the already-open case) and once after the remount settles.
-      setTimeout(() => goToLine(error.line), 50);
-      setTimeout(() => goToLine(error.line), 400);
+      // The fix refuses itself if the open tab's text no longer matches
+      // what was validated.
+      runInFileEditor(result.path, view => {
+        if (applyQuickFix(view, fix)) {
+          view.focus();
+          return;
+        }
+        toast.warning(
+          `"${fix.description}" no longer applies: ${result.fileName} changed since it was validated. ` +
+            'Run “Validate workspace” again to refresh the fixes.',
+          8000,
+        );
+      });
     },
-    [findFileNode, openFileAsTab, goToLine],
+    [openResult, runInFileEditor, toast],
   );
 
   const hasWorkspace = state.rootHandle !== null;
@@ -69,7 +103,8 @@ export function ProblemsPanel() {
       {hasWorkspace && !batch.running && results === null && (
         <div className="problems-empty">
           Run “Validate workspace” to check every XML file against its schema
-          and the active Schematron rules.
+          and the active Schematron rules, and every xml:id pointer across
+          the corpus.
         </div>
       )}
 
@@ -96,15 +131,30 @@ export function ProblemsPanel() {
                     </span>
                   </div>
                   {result.errors.map((error, i) => (
-                    <button
-                      key={`${result.path}-${i}`}
-                      className={`problems-item problems-item-${error.severity}`}
-                      onClick={() => handleDiagnosticClick(result, error)}
-                      title={`${result.path}:${error.line}`}
-                    >
-                      <span className="problems-item-line">:{error.line}</span>
-                      <span className="problems-item-message">{error.message}</span>
-                    </button>
+                    <Fragment key={`${result.path}-${i}`}>
+                      <button
+                        className={`problems-item problems-item-${error.severity}`}
+                        onClick={() => handleDiagnosticClick(result, error)}
+                        title={`${result.path}:${error.line}`}
+                      >
+                        <span className="problems-item-line">:{error.line}</span>
+                        <span className="problems-item-message">{error.message}</span>
+                      </button>
+                      {error.fixes && error.fixes.length > 0 && (
+                        <div className="problems-fixes">
+                          {error.fixes.map((fix, j) => (
+                            <button
+                              key={j}
+                              className="problems-fix-btn"
+                              onClick={() => handleFixClick(result, fix)}
+                              title="Open the file and apply this quick fix"
+                            >
+                              {fix.description}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </Fragment>
                   ))}
                 </div>
               ))}
@@ -0,0 +1,118 @@
+import { useCallback } from 'react';
+import { useEditor } from '../../store/useEditor';
+import { useWorkspace } from '../../store/useWorkspace';
+import { useEditorActions } from '../../hooks/useEditorActions';
+import { useToast } from '../Toast/useToast';
+import { sidecarPath } from '../../file/trackChangesSidecar';
+import type { TrackedChange } from '../../types/editor';
+import './ChangesPanel.css';
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+function snippet(text: string, max = 80): string {
+  const flat = text.replace(/\s+/g, ' ');
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+/**
+ * Track changes for the active document (trackChanges.ts): the switch that
+ * records edits, the reviewer name they are recorded under, and the pending
+ * changes in document order, each accepted or rejected on its own or all
+ * at once. Pending changes can be written into the document as TEI
+ * `<add>`/`<del>`; a workspace file keeps them in a sidecar when saved.
+ */
+export function ChangesPanel() {
+  const { getActiveDocument, multiTabState, setReviewerName, editorViewRef } = useEditor();
+  const { state: workspace } = useWorkspace();
+  const actions = useEditorActions();
+  const toast = useToast();
+  const doc = getActiveDocument();
+  const tracking = doc?.tracking;
+  const changes = tracking?.changes ?? [];
+
+  const select = useCallback((change: TrackedChange) => {
+    const view = editorViewRef.current;
+    if (!view) return;
+    view.dispatch({ selection: { anchor: change.from, head: change.to }, scrollIntoView: true });
+    view.focus();
+  }, [editorViewRef]);
+
+  const writeAsTei = () => {
+    const { written, skipped } = actions.writeChangesAsTei();
+    if (written > 0) toast.success(`Wrote ${written} change${written === 1 ? '' : 's'} as <add>/<del>`);
+    if (skipped > 0) {
+      toast.warning(`${skipped} change${skipped === 1 ? '' : 's'} left pending: inside a tag, outside the root element, or cutting through markup`);
+    }
+  };
+
+  if (!doc) {
+    return <div className="changes-panel"><div className="changes-panel-empty">No document open.</div></div>;
+  }
+
+  return (
+    <div className="changes-panel">
+      <div className="changes-panel-header">
+        <label className="changes-panel-toggle">
+          <input type="checkbox" checked={tracking?.enabled ?? false} onChange={() => actions.toggleTrackChanges()} />
+          Track changes
+        </label>
+        <span className="changes-panel-count">{changes.length} pending</span>
+      </div>
+      <label className="changes-panel-reviewer">
+        <span>Reviewer</span>
+        <input
+          type="text"
+          value={multiTabState.reviewerName}
+          placeholder="Your name"
+          aria-label="Reviewer name"
+          onChange={e => setReviewerName(e.target.value)}
+        />
+      </label>
+      {changes.length === 0 ? (
+        <div className="changes-panel-empty">
+          {tracking?.enabled
+            ? 'No changes yet. Edits are recorded as you make them.'
+            : 'Turn on Track changes to record insertions and deletions with who made them and when.'}
+        </div>
+      ) : (
+        <ul className="changes-list">
+          {changes.map(c => (
+            <li key={c.id} className={`changes-item changes-item-${c.kind}`}>
+              <button type="button" className="changes-item-main" title="Show in the editor" onClick={() => select(c)}>
+                <span className="changes-item-meta">
+                  <span className="changes-item-kind">{c.kind === 'insertion' ? 'Inserted' : 'Deleted'}</span>
+                  {' '}{c.author || 'unknown'} · {formatTimestamp(c.timestamp)}
+                </span>
+                <span className="changes-item-text">
+                  {snippet(c.kind === 'insertion' ? doc.content.slice(c.from, c.to) : c.text)}
+                </span>
+              </button>
+              <span className="changes-item-actions">
+                <button type="button" title="Accept" aria-label="Accept" onClick={() => actions.acceptChanges(new Set([c.id]))}>✓</button>
+                <button type="button" title="Reject" aria-label="Reject" onClick={() => actions.rejectChanges(new Set([c.id]))}>✕</button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="changes-panel-footer">
+        <div className="changes-panel-buttons">
+          <button type="button" disabled={changes.length === 0} onClick={() => actions.acceptChanges()}>Accept All</button>
+          <button type="button" disabled={changes.length === 0} onClick={() => actions.rejectChanges()}>Reject All</button>
+          <button type="button" disabled={changes.length === 0} onClick={writeAsTei} title="Record the pending changes in the document as <add> and <del> with @resp and @when">
+            Write as &lt;add&gt;/&lt;del&gt;
+          </button>
+        </div>
+        <div className="changes-panel-note">
+          {doc.filePath && workspace.rootHandle
+            ? `Pending changes are kept in ${sidecarPath(doc.fileName)} when the file is saved.`
+            : 'Pending changes last while the tab is open. Open the file from a workspace folder to keep them between sessions.'}
+        </div>
+      </div>
+    </div>
+  );
+}
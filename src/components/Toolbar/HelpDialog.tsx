@@ -48,6 +48,13 @@ const SHORTCUTS: ShortcutSection[] = [
       { keys: 'Shift+Tab', description: 'Outdent' },
       { keys: `${modKey}+[`, description: 'Fold code block' },
       { keys: `${modKey}+]`, description: 'Unfold code block' },
+      { keys: `${modKey}+Shift+E`, description: 'Insert element (with required content)' },
+      { keys: 'F2', description: 'Rename element (both tags)' },
+      { keys: 'Alt+Shift+U', description: 'Unwrap element (keep content)' },
+      { keys: 'Alt+Shift+S', description: 'Split element at cursor' },
+      { keys: 'Alt+Shift+J', description: 'Join with adjacent same-name element' },
+      { keys: `${modKey}+Alt+↑ / ↓`, description: 'Move element up / down among siblings' },
+      { keys: 'Alt+Shift+F', description: 'Format document' },
     ],
   },
   {
@@ -2,6 +2,10 @@ import { useCallback, useRef } from 'react';
 import { useSchema } from '../../store/useSchema';
 import { useEditor } from '../../store/useEditor';
 import { schemaEngine } from '../../schema/SchemaEngine';
+import { isOdd } from '../../schema/oddProcessor';
+import { findDocumentSchemaPath, schemaDeclarationHref } from '../../file/documentSchema';
+import { detectSchemaIdFromContent, extractProlog, schemaDeclarationEdit } from '../../utils/schemaDetector';
+import type { SchemaInfo } from '../../types/schema';
 
 /**
  * Schema selector for the ACTIVE document (M3 per-document schema).
@@ -10,10 +14,16 @@ import { schemaEngine } from '../../schema/SchemaEngine';
  * switches the displayed schema, and picking a schema here affects only the
  * current document. Uploaded custom schemas are registered app-wide (any tab
  * may select them) but are only ASSIGNED to the active document.
+ *
+ * Picking a schema also writes it into the document's xml-model PI (one
+ * undoable edit), so the choice survives saving and reopening. Only schemas
+ * the document can point at are written: the built-ins and, for workspace
+ * documents, workspace schemas. An uploaded schema is assigned but leaves
+ * the PI alone. The reverse direction is useSchemaDeclarationSync.
  */
 export function SchemaSelector() {
   const { schemasById, availableSchemas, isLoading, ensureSchema, registerCustomSchema } = useSchema();
-  const { getActiveDocument, setDocumentSchemaId } = useEditor();
+  const { getActiveDocument, setDocumentSchemaId, editorViewRef } = useEditor();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const activeDoc = getActiveDocument();
@@ -21,6 +31,23 @@ export function SchemaSelector() {
 
   const customSchemaIds = Object.keys(schemasById).filter(id => !availableSchemas.includes(id));
 
+  const declareSchema = useCallback(
+    (schemaId: string, schema: SchemaInfo | null) => {
+      const view = editorViewRef.current;
+      if (!activeDoc || !view) return;
+      const href = schemaDeclarationHref(schemaId, schema, activeDoc.filePath);
+      if (!href) return;
+      // Keep an existing declaration that already names this schema (e.g. a
+      // mirror of tei_lite.rng, or the same workspace file spelled differently).
+      const prolog = extractProlog(view.state.doc.toString());
+      if (detectSchemaIdFromContent(prolog) === schemaId) return;
+      if (schema?.sourcePath && activeDoc.filePath && findDocumentSchemaPath(prolog, activeDoc.filePath) === schema.sourcePath) return;
+      const edit = schemaDeclarationEdit(prolog, href);
+      if (edit) view.dispatch({ changes: edit, userEvent: 'input.schema' });
+    },
+    [activeDoc, editorViewRef],
+  );
+
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
       const value = e.target.value;
@@ -33,8 +60,9 @@ export function SchemaSelector() {
       if (!activeDoc) return;
       void ensureSchema(value);
       setDocumentSchemaId(activeDoc.id, value);
+      declareSchema(value, schemasById[value] ?? null);
     },
-    [activeDoc, activeSchemaId, ensureSchema, setDocumentSchemaId],
+    [activeDoc, activeSchemaId, ensureSchema, setDocumentSchemaId, declareSchema, schemasById],
   );
 
   const handleFileUpload = useCallback(
@@ -46,7 +74,7 @@ export function SchemaSelector() {
       if (file.name.toLowerCase().endsWith('.dtd')) {
         alert(
           '⚠️ DTD schemas are not directly supported.\n\n' +
-          'Only RelaxNG (.rng) schemas can be uploaded.\n\n' +
+          'Only RelaxNG (.rng) schemas and TEI ODD (.odd) customizations can be uploaded.\n\n' +
           'To convert DTD to RelaxNG:\n' +
           '• Using trang: java -jar trang.jar schema.dtd schema.rng\n' +
           '• Online: https://relaxng.org/jclark/trang.html'
@@ -56,9 +84,12 @@ export function SchemaSelector() {
       }
 
       try {
-        const rngXml = await file.text();
-        const name = file.name.replace(/\.(rng|xml)$/i, '');
-        const info = await schemaEngine.loadCustomRng(rngXml, name);
+        const text = await file.text();
+        const name = file.name.replace(/\.(rng|odd|xml)$/i, '');
+        // An ODD may come as .odd or .xml; its <schemaSpec> gives it away.
+        const info = /\.odd$/i.test(file.name) || isOdd(text)
+          ? await schemaEngine.loadCustomOdd(text, name)
+          : await schemaEngine.loadCustomRng(text, name);
         registerCustomSchema(info);
         if (activeDoc) {
           setDocumentSchemaId(activeDoc.id, info.id);
@@ -98,12 +129,12 @@ export function SchemaSelector() {
         {!availableSchemas.includes(activeSchemaId) && !customSchemaIds.includes(activeSchemaId) && (
           <option value={activeSchemaId}>{activeSchemaId.replace(/^custom_/, '')}</option>
         )}
-        <option value="__upload__">Upload .rng...</option>
+        <option value="__upload__">Upload .rng / .odd...</option>
       </select>
       <input
         ref={fileInputRef}
         type="file"
-        accept=".rng,.xml,.dtd,application/xml"
+        accept=".rng,.odd,.xml,.dtd,application/xml"
         style={{ display: 'none' }}
         onChange={handleFileUpload}
       />
@@ -1,5 +1,6 @@
 import { useCallback, useRef } from 'react';
 import { useSchema } from '../../store/useSchema';
+import { ALL_PHASES } from '../../schema/schematron';
 import { Tooltip } from '../Tooltip/Tooltip';
 
 /**
@@ -7,10 +8,14 @@ import { Tooltip } from '../Tooltip/Tooltip';
  *
  * Loads a .sch ruleset that validates ON TOP of every document's schema —
  * the "house rules" layer real TEI projects use for team consistency.
- * App-level by design: one project, one ruleset, all open documents.
+ * App-level: one project, one ruleset, all open documents — except
+ * documents that declare their own ruleset via xml-model, which use that
+ * one instead (see useActiveSchematron).
+ * A ruleset with <phase>s gets a phase picker next to it; the choice
+ * applies to the live linter and to "Validate workspace" alike.
  */
 export function SchematronSelector() {
-  const { schematron, loadSchematron, clearSchematron } = useSchema();
+  const { schematron, loadSchematron, clearSchematron, setSchematronPhase } = useSchema();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = useCallback(
@@ -44,6 +49,20 @@ export function SchematronSelector() {
           <button onClick={() => fileInputRef.current?.click()}>Rules...</button>
         </Tooltip>
       )}
+      {schematron && schematron.phases.length > 0 && (
+        <select
+          value={schematron.activePhase ?? schematron.defaultPhase ?? ALL_PHASES}
+          onChange={(e) => setSchematronPhase(e.target.value)}
+          title="Schematron phase — which rule patterns are checked"
+        >
+          <option value={ALL_PHASES}>All phases</option>
+          {schematron.phases.map((phase) => (
+            <option key={phase.id} value={phase.id}>
+              {phase.id}{phase.id === schematron.defaultPhase ? ' (default)' : ''}
+            </option>
+          ))}
+        </select>
+      )}
       <input
         ref={fileInputRef}
         type="file"
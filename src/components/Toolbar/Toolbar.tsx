@@ -1,6 +1,8 @@
 import { useState, useCallback, useMemo } from 'react';
 import { useEditor } from '../../store/useEditor';
 import { useWrapSelection } from '../../hooks/useWrapSelection';
+import { useEditorActions } from '../../hooks/useEditorActions';
+import { TAG_DISPLAY_MODES } from '../Editor/tagDisplay';
 import type { ViewMode } from '../../types/editor';
 import { MenuBar, type MenuDefinition } from './MenuBar';
 import { SchemaSelector } from './SchemaSelector';
@@ -18,11 +20,16 @@ interface Props {
   onOpenFile: () => void;
   onSave: () => void;
   onSaveAs: () => void;
+  onCompare: () => void;
+  onRevisionLog: () => void;
   onCloseTab: () => void;
   onUndo: () => void;
   onRedo: () => void;
   onFind: () => void;
   onReplace: () => void;
+  onFormatDocument: () => void;
+  onFormatSelection: () => void;
+  onFormatCanonical: () => void;
   onToggleExplorer: () => void;
   onToggleTheme: () => void;
   onCommandPalette: () => void;
@@ -36,19 +43,29 @@ export function Toolbar({
   onOpenFile,
   onSave,
   onSaveAs,
+  onCompare,
+  onRevisionLog,
   onCloseTab,
   onUndo,
   onRedo,
   onFind,
   onReplace,
+  onFormatDocument,
+  onFormatSelection,
+  onFormatCanonical,
   onToggleExplorer,
   onToggleTheme,
   onCommandPalette,
   onKeyboardShortcuts,
   onAbout,
 }: Props) {
-  const { state, setViewMode, getSelection } = useEditor();
+  const { state, multiTabState, setViewMode, setTagDisplayMode, getSelection } = useEditor();
   const wrapSelection = useWrapSelection();
+  const { foldElement, foldAll, unfoldAll, toggleTrackChanges, acceptChanges, rejectChanges } = useEditorActions();
+  const tagDisplayMode = multiTabState.tagDisplayMode;
+  const tracking = multiTabState.openDocuments.find(d => d.id === multiTabState.activeDocumentId)?.tracking;
+  const trackingEnabled = tracking?.enabled ?? false;
+  const hasTrackedChanges = (tracking?.changes.length ?? 0) > 0;
   const [wrapDialogOpen, setWrapDialogOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
   const [selectedText, setSelectedText] = useState('');
@@ -80,6 +97,9 @@ export function Toolbar({
         { label: 'Save', shortcut: 'Ctrl+S', action: onSave },
         { label: 'Save As...', shortcut: 'Ctrl+Shift+S', action: onSaveAs },
         { divider: true, label: '' },
+        { label: 'Compare Documents…', action: onCompare },
+        { label: 'Revision Log on Save…', action: onRevisionLog },
+        { divider: true, label: '' },
         { label: 'Close Tab', shortcut: 'Ctrl+W', action: onCloseTab },
       ],
     },
@@ -91,6 +111,14 @@ export function Toolbar({
         { divider: true, label: '' },
         { label: 'Find', shortcut: 'Ctrl+F', action: onFind },
         { label: 'Replace', shortcut: 'Ctrl+H', action: onReplace },
+        { divider: true, label: '' },
+        { label: 'Format Document', shortcut: 'Alt+Shift+F', action: onFormatDocument },
+        { label: 'Format Selection', action: onFormatSelection },
+        { label: 'Format Document (Normalize Attributes)', action: onFormatCanonical },
+        { divider: true, label: '' },
+        { label: `${trackingEnabled ? '✓ ' : ''}Track Changes`, action: toggleTrackChanges },
+        { label: 'Accept All Changes', action: () => acceptChanges(), disabled: !hasTrackedChanges },
+        { label: 'Reject All Changes', action: () => rejectChanges(), disabled: !hasTrackedChanges },
       ],
     },
     {
@@ -101,6 +129,16 @@ export function Toolbar({
         { label: 'Code View', action: () => setViewMode('editor') },
         { label: 'Split View', action: () => setViewMode('split') },
         { label: 'Preview', action: () => setViewMode('preview') },
+        { label: 'Author View', action: () => setViewMode('author') },
+        { divider: true, label: '' },
+        ...TAG_DISPLAY_MODES.map(({ mode, label }) => ({
+          label: `${mode === tagDisplayMode ? '✓ ' : ''}${label}`,
+          action: () => setTagDisplayMode(mode),
+        })),
+        { divider: true, label: '' },
+        { label: 'Fold Element', action: foldElement },
+        { label: 'Fold All', action: foldAll },
+        { label: 'Unfold All', action: unfoldAll },
         { divider: true, label: '' },
         { label: 'Toggle Dark/Light Theme', action: onToggleTheme },
         { divider: true, label: '' },
@@ -116,10 +154,12 @@ export function Toolbar({
       ],
     },
   ], [
-    onNewDocument, onNewEmptyTab, onOpenFile, onSave, onSaveAs, onCloseTab,
-    onUndo, onRedo, onFind, onReplace,
+    onNewDocument, onNewEmptyTab, onOpenFile, onSave, onSaveAs, onCompare, onRevisionLog, onCloseTab,
+    onUndo, onRedo, onFind, onReplace, onFormatDocument, onFormatSelection, onFormatCanonical,
     onToggleExplorer, onToggleTheme, onCommandPalette,
     onKeyboardShortcuts, onAbout, setViewMode,
+    tagDisplayMode, setTagDisplayMode, foldElement, foldAll, unfoldAll,
+    trackingEnabled, hasTrackedChanges, toggleTrackChanges, acceptChanges, rejectChanges,
   ]);
 
   return (
@@ -162,7 +202,7 @@ export function Toolbar({
       {/* Right section: View mode */}
       <div className="toolbar-section toolbar-right">
         <div className="toolbar-group">
-          {(['editor', 'split', 'preview'] as ViewMode[]).map((mode) => (
+          {(['editor', 'split', 'preview', 'author'] as ViewMode[]).map((mode) => (
             <Tooltip
               key={mode}
               content={`${mode.charAt(0).toUpperCase() + mode.slice(1)} view`}
@@ -171,7 +211,7 @@ export function Toolbar({
                 className={state.viewMode === mode ? 'toolbar-btn-active' : ''}
                 onClick={() => setViewMode(mode)}
               >
-                {mode === 'editor' ? 'Code' : mode === 'split' ? 'Split' : 'Preview'}
+                {mode === 'editor' ? 'Code' : mode === 'split' ? 'Split' : mode === 'preview' ? 'Preview' : 'Author'}
               </button>
             </Tooltip>
           ))}
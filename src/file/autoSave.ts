@@ -43,6 +43,8 @@ const SELF_KEY = `${AUTOSAVE_PREFIX}:${INSTANCE_ID}`;
 /** One document inside an autosave snapshot. */
 export interface AutosavedDocument {
   fileName: string | null;
+  /** Workspace path (absent in records written before it was kept). */
+  filePath?: string | null;
   content: string;
 }
 
@@ -2,18 +2,37 @@
  * Batch (corpus) validation core — P2's last item.
  *
  * Validates every XML file in the workspace tree against its OWN detected
- * schema (M3) plus the optional app-level Schematron ruleset, reusing the
+ * schema (M3) — a built-in one, or the workspace .rng/.odd its xml-model
+ * points at — plus its Schematron ruleset — the one the file declares via
+ * xml-model when the workspace has it, else the optional app-level one —
+ * reusing the
  * exact validators the editor runs per keystroke. Pure of React: the
  * caller supplies a schema resolver and receives progress callbacks, so
  * this module is unit-testable with fake file handles.
+ *
+ * Validation goes through the shared validation service, so with Worker
+ * support the schema pass runs in the same pool the live linter uses and
+ * several files are checked at once (one per worker). The UI-yield between
+ * files is only needed on the inline fallback.
+ *
+ * Every file is read before any is validated: the reference-integrity pass
+ * resolves `other.xml#id` pointers against the ids of the whole corpus.
+ * Reads run a few at a time, not all at once, so a large corpus doesn't
+ * open thousands of files together.
  */
 
 import type { FileTreeNode } from '../types/workspace';
 import type { SchemaInfo, ValidationError } from '../types/schema';
-import { validateXml } from '../schema/xmlValidator';
-import { validateSchematron, type SchematronSchema } from '../schema/schematron';
+import type { SchematronSchema } from '../schema/schematron';
+import { validationService } from '../schema/validationService';
+import { collectXmlIds, type WorkspaceIdIndex } from '../schema/referenceIntegrity';
 import { detectSchemaIdFromContent } from '../utils/schemaDetector';
 import { readFileContent } from './fileSystemAccess';
+import { findDocumentSchematronPath, parseDocumentSchematron } from './documentSchematron';
+import { findDocumentSchemaPath } from './documentSchema';
+
+/** Files read at the same time while the corpus is loaded. */
+const READ_CONCURRENCY = 8;
 
 export interface BatchFileResult {
   /** Workspace-relative path (FileTreeNode.path). */
@@ -28,6 +47,9 @@ export interface BatchFileResult {
 
 export type SchemaResolver = (schemaId: string) => Promise<SchemaInfo | null>;
 
+/** Loads a schema by workspace path (see documentSchema.ts); null when unusable. */
+export type WorkspaceSchemaResolver = (path: string) => Promise<SchemaInfo | null>;
+
 export interface BatchProgress {
   done: number;
   total: number;
@@ -47,6 +69,14 @@ export function flattenFileNodes(tree: FileTreeNode[]): FileTreeNode[] {
   return out;
 }
 
+/**
+ * The files a batch run validates: every file except Schematron rulesets,
+ * which are rules for the documents rather than documents themselves.
+ */
+export function batchDocumentNodes(tree: FileTreeNode[]): FileTreeNode[] {
+  return flattenFileNodes(tree).filter(node => !node.name.toLowerCase().endsWith('.sch'));
+}
+
 /**
  * Validate every file in the tree. Never throws for individual files — a
  * file that cannot be read yields a synthetic error result so the corpus
@@ -57,52 +87,149 @@ export async function runBatchValidation(
   resolveSchema: SchemaResolver,
   schematron: SchematronSchema | null,
   onProgress?: (progress: BatchProgress) => void,
+  resolveWorkspaceSchema?: WorkspaceSchemaResolver,
 ): Promise<BatchFileResult[]> {
-  const files = flattenFileNodes(tree);
-  const results: BatchFileResult[] = [];
-
-  for (let i = 0; i < files.length; i++) {
-    const node = files[i];
-    onProgress?.({ done: i, total: files.length, currentPath: node.path });
-
-    let errors: ValidationError[];
-    let schemaId = 'tei_lite';
-
-    try {
-      // FileTreeNode.handle is typed FileSystemHandle; file nodes always
-      // carry a FileSystemFileHandle (buildFileTree only stores files here).
-      const content = await readFileContent(node.handle as FileSystemFileHandle);
-      schemaId = detectSchemaIdFromContent(content) ?? 'tei_lite';
-      const schema = await resolveSchema(schemaId);
-      errors = validateXml(content, schema);
-      if (schematron) {
-        errors.push(...validateSchematron(content, schematron));
-      }
-    } catch (err) {
-      errors = [{
-        message: `Could not read file: ${err instanceof Error ? err.message : 'unknown error'}`,
-        line: 1,
-        column: 1,
-        severity: 'error',
-      }];
+  const allFiles = flattenFileNodes(tree);
+  const allContents = await mapConcurrently(allFiles, READ_CONCURRENCY, readFileNode);
+  const workspaceIds: WorkspaceIdIndex = new Map();
+  const contentByPath = new Map<string, string>();
+  allContents.forEach((content, i) => {
+    if (typeof content !== 'string') return;
+    workspaceIds.set(allFiles[i].path, collectXmlIds(content));
+    contentByPath.set(allFiles[i].path, content);
+  });
+  const documents = new Set(batchDocumentNodes(tree));
+  const files = allFiles.filter(node => documents.has(node));
+  const contents = allContents.filter((_, i) => documents.has(allFiles[i]));
+
+  // Rulesets the files declare themselves, parsed once per run; a file
+  // without one (or whose ruleset is missing or unusable) gets the app-level
+  // ruleset.
+  const declaredRulesets = new Map<string, SchematronSchema | null>();
+  const schematronFor = (node: FileTreeNode, content: string): SchematronSchema | null => {
+    const path = findDocumentSchematronPath(content, node.path);
+    if (!path) return schematron;
+    if (!declaredRulesets.has(path)) {
+      const schXml = contentByPath.get(path);
+      declaredRulesets.set(path, schXml === undefined ? null : parseDocumentSchematron(schXml, path));
     }
+    return declaredRulesets.get(path) ?? schematron;
+  };
 
-    results.push({
-      path: node.path,
-      fileName: node.name,
-      schemaId,
-      errors,
-      errorCount: errors.filter(e => e.severity === 'error').length,
-      warningCount: errors.filter(e => e.severity === 'warning').length,
-    });
-
-    // Yield to the UI thread between files so a large corpus doesn't
-    // freeze rendering (progress stays visible).
-    if (i % 5 === 4) {
-      await new Promise(resolve => setTimeout(resolve, 0));
+  // Workspace schemas, loaded once per run however many files share one. A
+  // file whose declared schema cannot be loaded falls back to detection.
+  const declaredSchemas = new Map<string, Promise<SchemaInfo | null>>();
+  const schemaFor = async (node: FileTreeNode, content: string): Promise<{ schemaId: string; schema: SchemaInfo | null }> => {
+    const path = resolveWorkspaceSchema ? findDocumentSchemaPath(content, node.path) : null;
+    if (path && resolveWorkspaceSchema) {
+      if (!declaredSchemas.has(path)) declaredSchemas.set(path, resolveWorkspaceSchema(path).catch(() => null));
+      const schema = await declaredSchemas.get(path)!;
+      if (schema) return { schemaId: schema.id, schema };
     }
-  }
+    const schemaId = detectSchemaIdFromContent(content) ?? 'tei_lite';
+    return { schemaId, schema: await resolveSchema(schemaId) };
+  };
+
+  const results: BatchFileResult[] = new Array(files.length);
+  let next = 0;
+  let done = 0;
+
+  // Each runner pulls the next file until the list is drained; results are
+  // stored by index so the report keeps tree order whatever finishes first.
+  const runner = async () => {
+    while (next < files.length) {
+      const i = next++;
+      const node = files[i];
+      onProgress?.({ done, total: files.length, currentPath: node.path });
+
+      results[i] = await validateFileNode(node, contents[i], schemaFor, schematronFor, workspaceIds);
+      done++;
+
+      // Inline fallback: yield to the UI thread between files so a large
+      // corpus doesn't freeze rendering (progress stays visible).
+      if (!validationService.usesWorkers && done % 5 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: validationService.concurrency }, runner));
 
   onProgress?.({ done: files.length, total: files.length, currentPath: '' });
   return results;
 }
+
+/** `fn` over `items`, at most `limit` at a time; results in item order. */
+async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runner = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runner));
+  return results;
+}
+
+/** File text, or the read failure (reported per file, never thrown). */
+async function readFileNode(node: FileTreeNode): Promise<string | Error> {
+  try {
+    // FileTreeNode.handle is typed FileSystemHandle; file nodes always
+    // carry a FileSystemFileHandle (buildFileTree only stores files here).
+    return await readFileContent(node.handle as FileSystemFileHandle);
+  } catch (err) {
+    return err instanceof Error ? err : new Error('unknown error');
+  }
+}
+
+async function validateFileNode(
+  node: FileTreeNode,
+  content: string | Error,
+  schemaFor: (node: FileTreeNode, content: string) => Promise<{ schemaId: string; schema: SchemaInfo | null }>,
+  schematronFor: (node: FileTreeNode, content: string) => SchematronSchema | null,
+  workspaceIds: WorkspaceIdIndex,
+): Promise<BatchFileResult> {
+  // A read failure, a schema that won't load and a validator error are
+  // told apart, so the report points at the right thing
+  const failure = (what: string, err: unknown): ValidationError[] => [{
+    message: `${what}: ${err instanceof Error ? err.message : 'unknown error'}`,
+    line: 1,
+    column: 1,
+    severity: 'error',
+  }];
+  if (content instanceof Error) return fileResult(node, 'tei_lite', failure('Could not read file', content));
+
+  let resolved: { schemaId: string; schema: SchemaInfo | null };
+  try {
+    resolved = await schemaFor(node, content);
+  } catch (err) {
+    return fileResult(node, 'tei_lite', failure('Could not load schema', err));
+  }
+
+  try {
+    // One lane per path: a file is never superseded within a run, so a
+    // null result cannot occur here — treat it as "no diagnostics" anyway.
+    const errors = (await validationService.validate(
+      `batch:${node.path}`,
+      content,
+      resolved.schema,
+      schematronFor(node, content),
+      { filePath: node.path, workspaceIds },
+    )) ?? [];
+    return fileResult(node, resolved.schemaId, errors);
+  } catch (err) {
+    return fileResult(node, resolved.schemaId, failure('Could not validate file', err));
+  }
+}
+
+function fileResult(node: FileTreeNode, schemaId: string, errors: ValidationError[]): BatchFileResult {
+  return {
+    path: node.path,
+    fileName: node.name,
+    schemaId,
+    errors,
+    errorCount: errors.filter(e => e.severity === 'error').length,
+    warningCount: errors.filter(e => e.severity === 'warning').length,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Workspace schemas — the RELAX NG (or ODD) schema a document declares with
+ *
+ *   <?xml-model href="../schema/project.rng" type="application/xml"
+ *               schematypens="http://relaxng.org/ns/structure/1.0"?>
+ *
+ * The built-in detector only knows tei_all/tei_lite hrefs; when the
+ * document lives in an open workspace, a local href is resolved against
+ * its path and the file is read through the workspace's directory handle
+ * and loaded as a custom schema (SchemaEngine caches by content, so
+ * documents sharing a schema share one SchemaInfo).
+ */
+
+import type { SchemaInfo } from '../types/schema';
+import { schemaEngine } from '../schema/SchemaEngine';
+import { isOdd } from '../schema/oddProcessor';
+import { relativeWorkspacePath, resolveWorkspacePath } from '../schema/referenceIntegrity';
+import {
+  BUILTIN_SCHEMA_HREFS,
+  detectSchemaDeclarations,
+  isSchematronDeclaration,
+  type SchemaDeclaration,
+} from '../utils/schemaDetector';
+import { readWorkspaceFile } from './fileSystemAccess';
+
+/**
+ * Workspace path of a local RELAX NG / ODD declaration, or null when it is
+ * remote, a Schematron ruleset, another format, or above the root.
+ */
+export function resolveSchemaDeclarationPath(decl: SchemaDeclaration, filePath: string): string | null {
+  if (decl.type !== 'xml-model' || !decl.isLocal || isSchematronDeclaration(decl)) return null;
+  if (decl.format !== 'rng' && decl.format !== 'odd') return null;
+  return resolveWorkspacePath(filePath, decl.href);
+}
+
+/** Workspace path of the schema `content` declares, or null. */
+export function findDocumentSchemaPath(content: string, filePath: string): string | null {
+  for (const decl of detectSchemaDeclarations(content)) {
+    const path = resolveSchemaDeclarationPath(decl, filePath);
+    if (path) return path;
+  }
+  return null;
+}
+
+/**
+ * Read and load a workspace schema. The schema is named after its path
+ * (`schema/project`), so same-named schemas in different folders get
+ * different ids, and carries its `sourcePath` so the document can be
+ * pointed back at it. Rejects when the file is missing or not a usable schema.
+ */
+export async function loadWorkspaceSchema(root: FileSystemDirectoryHandle, path: string): Promise<SchemaInfo> {
+  const source = await readWorkspaceFile(root, path);
+  const name = path.replace(/\.(rng|odd|xml)$/i, '');
+  const info = path.toLowerCase().endsWith('.odd') || isOdd(source)
+    ? await schemaEngine.loadCustomOdd(source, name)
+    : await schemaEngine.loadCustomRng(source, name);
+  return { ...info, sourcePath: path };
+}
+
+/**
+ * The xml-model href under which `filePath` can declare `schemaId`: the
+ * canonical TEI URL for a built-in schema, a relative path for a workspace
+ * schema (documents in the workspace only). Null for uploaded schemas,
+ * which have no address the document could point at.
+ */
+export function schemaDeclarationHref(
+  schemaId: string,
+  schema: SchemaInfo | null,
+  filePath: string | null,
+): string | null {
+  if (BUILTIN_SCHEMA_HREFS[schemaId]) return BUILTIN_SCHEMA_HREFS[schemaId];
+  if (!schema?.sourcePath || !filePath) return null;
+  return relativeWorkspacePath(filePath, schema.sourcePath);
+}
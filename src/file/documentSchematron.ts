@@ -0,0 +1,39 @@
+/**
+ * Per-document Schematron — the ruleset a document declares itself with
+ *
+ *   <?xml-model href="rules/house.sch" schematypens="http://purl.oclc.org/dsdl/schematron"?>
+ *
+ * The href is resolved against the document's workspace path, so only
+ * rulesets inside the open workspace are used; remote hrefs, and files the
+ * workspace does not contain, leave the document on the app-level ruleset.
+ * A declaration pointing at a file that is not a Schematron <schema> (e.g.
+ * an .rng with embedded rules) fails to parse and falls back the same way.
+ */
+
+import { parseSchematron, type SchematronSchema } from '../schema/schematron';
+import { resolveWorkspacePath } from '../schema/referenceIntegrity';
+import { detectSchemaDeclarations, isSchematronDeclaration } from '../utils/schemaDetector';
+
+/** Workspace path of the Schematron ruleset `content` declares, or null. */
+export function findDocumentSchematronPath(content: string, filePath: string): string | null {
+  for (const decl of detectSchemaDeclarations(content)) {
+    if (!decl.isLocal || !isSchematronDeclaration(decl)) continue;
+    const path = resolveWorkspacePath(filePath, decl.href);
+    if (path) return path;
+  }
+  return null;
+}
+
+/**
+ * Parse a document's Schematron file. Null when it is not usable — the
+ * caller falls back to the app-level ruleset, so this only warns.
+ */
+export function parseDocumentSchematron(schXml: string, path: string): SchematronSchema | null {
+  try {
+    // Named like an uploaded ruleset: the file name without its extension.
+    return parseSchematron(schXml, (path.split('/').pop() ?? path).replace(/\.(sch|xml)$/i, ''));
+  } catch (err) {
+    console.warn(`Ignoring Schematron ${path}: ${err instanceof Error ? err.message : 'unusable'}`);
+    return null;
+  }
+}
@@ -5,11 +5,12 @@
 
 import { hasFileSystemAccess, hasDirectoryPicker } from '../utils/browserCompat';
 import type { FileTreeNode } from '../types/workspace';
+import { compareFileTreeNodes, sameEntryName } from './fileTreeEdit';
 
 const XML_FILE_TYPES = [
   {
     description: 'XML Files',
-    accept: { 'application/xml': ['.xml', '.tei', '.rng'] },
+    accept: { 'application/xml': ['.xml', '.tei', '.rng', '.odd', '.sch'] },
   },
 ];
 
@@ -24,7 +25,8 @@ export function isUserCancelledError(error: unknown): boolean {
 }
 
 /** File extensions to include in file tree */
-const XML_EXTENSIONS = ['.xml', '.tei', '.rng'];
+/** Extensions of the files the workspace tree lists. */
+export const XML_EXTENSIONS = ['.xml', '.tei', '.rng', '.odd', '.sch'];
 
 /** Open an XML file using the best available API */
 export async function openFile(): Promise<{
@@ -123,7 +125,7 @@ function openWithInput(): Promise<{
   return new Promise((resolve, reject) => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.xml,.tei,.rng,application/xml';
+    input.accept = '.xml,.tei,.rng,.odd,.sch,application/xml';
 
     input.onchange = async () => {
       const file = input.files?.[0];
@@ -260,12 +262,7 @@ export async function buildFileTree(
   }
 
   // Sort: directories first, then files, both alphabetically
-  return nodes.sort((a, b) => {
-    if (a.type !== b.type) {
-      return a.type === 'directory' ? -1 : 1;
-    }
-    return a.name.localeCompare(b.name);
-  });
+  return nodes.sort(compareFileTreeNodes);
 }
 
 /**
@@ -278,6 +275,190 @@ export async function readFileContent(
   return file.text();
 }
 
+/**
+ * Read a file by its workspace-relative path (`schema/project.rng`),
+ * walking the directory handles from the root. Unlike the file tree this
+ * reaches any file type at any depth. Rejects when a segment is missing.
+ */
+export async function readWorkspaceFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<string> {
+  const { dir, fileName } = await workspaceParent(root, path);
+  return readFileContent(await dir.getFileHandle(fileName));
+}
+
+/**
+ * Write a file by its workspace-relative path, creating the file (not its
+ * folders) when missing.
+ */
+export async function writeWorkspaceFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  content: string,
+): Promise<void> {
+  const { dir, fileName } = await workspaceParent(root, path);
+  await saveToHandle(await dir.getFileHandle(fileName, { create: true }), content);
+}
+
+/**
+ * Delete a file by its workspace-relative path. A file that is not there
+ * is not an error.
+ */
+export async function removeWorkspaceFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<void> {
+  try {
+    const { dir, fileName } = await workspaceParent(root, path);
+    await dir.removeEntry(fileName);
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'NotFoundError')) throw error;
+  }
+}
+
+/** Error thrown when a workspace file operation would overwrite an entry */
+export class WorkspaceEntryExistsError extends Error {
+  constructor(path: string) {
+    super(`"${path}" already exists`);
+    this.name = 'WorkspaceEntryExistsError';
+  }
+}
+
+/** A folder by its workspace-relative path ('' is the root). */
+export async function getWorkspaceDirectory(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<FileSystemDirectoryHandle> {
+  let dir = root;
+  for (const segment of path.split('/').filter(Boolean)) {
+    dir = await dir.getDirectoryHandle(segment);
+  }
+  return dir;
+}
+
+/** A file handle by its workspace-relative path. */
+export async function getWorkspaceFileHandle(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<FileSystemFileHandle> {
+  const { dir, fileName } = await workspaceParent(root, path);
+  return dir.getFileHandle(fileName);
+}
+
+// Case-insensitive: on Windows and macOS `Letter.xml` IS `letter.xml`, and
+// creating one would open the other
+async function entryExists(dir: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+  for await (const key of dir.keys()) {
+    if (sameEntryName(key, name)) return true;
+  }
+  return false;
+}
+
+/**
+ * Create a file by its workspace-relative path. Rejects with
+ * WorkspaceEntryExistsError rather than overwrite.
+ */
+export async function createWorkspaceFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  content: string,
+): Promise<FileSystemFileHandle> {
+  const { dir, fileName } = await workspaceParent(root, path);
+  if (await entryExists(dir, fileName)) throw new WorkspaceEntryExistsError(path);
+  return createFileInDirectory(dir, fileName, content);
+}
+
+/** Create a folder by its workspace-relative path (its parent must exist). */
+export async function createWorkspaceFolder(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<FileSystemDirectoryHandle> {
+  const { dir, fileName } = await workspaceParent(root, path);
+  if (await entryExists(dir, fileName)) throw new WorkspaceEntryExistsError(path);
+  return dir.getDirectoryHandle(fileName, { create: true });
+}
+
+async function copyEntry(
+  handle: FileSystemHandle,
+  targetDir: FileSystemDirectoryHandle,
+  name: string,
+): Promise<FileSystemHandle> {
+  if (handle.kind === 'file') {
+    const file = await (handle as FileSystemFileHandle).getFile();
+    const copy = await targetDir.getFileHandle(name, { create: true });
+    const writable = await copy.createWritable();
+    await writable.write(file);
+    await writable.close();
+    return copy;
+  }
+  const copy = await targetDir.getDirectoryHandle(name, { create: true });
+  for await (const [childName, child] of (handle as FileSystemDirectoryHandle).entries()) {
+    await copyEntry(child, copy, childName);
+  }
+  return copy;
+}
+
+/**
+ * Copy a file or folder (with everything in it) to another
+ * workspace-relative path, whose parent must exist. Rejects with
+ * WorkspaceEntryExistsError rather than overwrite.
+ */
+export async function copyWorkspaceEntry(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+): Promise<FileSystemHandle> {
+  const source = await workspaceParent(root, from);
+  const target = await workspaceParent(root, to);
+  if (await entryExists(target.dir, target.fileName)) throw new WorkspaceEntryExistsError(to);
+  const handle = await source.dir.getFileHandle(source.fileName)
+    .catch(() => source.dir.getDirectoryHandle(source.fileName));
+  return copyEntry(handle, target.dir, target.fileName);
+}
+
+/**
+ * Rename or move a file or folder to another workspace-relative path. The
+ * declared File System Access API has no move, so this is a copy followed
+ * by deleting the original; the returned handle is the new entry. A rename
+ * that only changes case goes through a temporary name, since on a
+ * case-insensitive file system the copy would be the original itself.
+ */
+export async function moveWorkspaceEntry(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+): Promise<FileSystemHandle> {
+  if (from !== to && sameEntryName(from, to)) {
+    const temporary = `${to}.${Date.now().toString(36)}.renaming`;
+    await moveWorkspaceEntry(root, from, temporary);
+    return moveWorkspaceEntry(root, temporary, to);
+  }
+  const handle = await copyWorkspaceEntry(root, from, to);
+  await removeWorkspaceEntry(root, from);
+  return handle;
+}
+
+/** Delete a file, or a folder with everything in it, by its workspace-relative path. */
+export async function removeWorkspaceEntry(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<void> {
+  const { dir, fileName } = await workspaceParent(root, path);
+  await dir.removeEntry(fileName, { recursive: true });
+}
+
+async function workspaceParent(root: FileSystemDirectoryHandle, path: string) {
+  const segments = path.split('/').filter(Boolean);
+  const fileName = segments.pop();
+  if (!fileName) throw new Error(`Not a file path: ${path}`);
+  let dir = root;
+  for (const segment of segments) {
+    dir = await dir.getDirectoryHandle(segment);
+  }
+  return { dir, fileName };
+}
+
 /**
  * Save content to a file handle within a workspace.
  */
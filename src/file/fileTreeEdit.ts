@@ -0,0 +1,104 @@
+/**
+ * Edits to the workspace file tree after a file operation (create, rename,
+ * move, delete, duplicate), so the explorer follows without re-scanning
+ * the folder. Paths are workspace-relative with `/` separators, '' being
+ * the root.
+ */
+
+import type { FileTreeNode } from '../types/workspace';
+
+/** Folders first, then files, each alphabetically (as buildFileTree sorts). */
+export function compareFileTreeNodes(a: FileTreeNode, b: FileTreeNode): number {
+  if (a.type !== b.type) {
+    return a.type === 'directory' ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+/** Folder path of `path` ('' for a top-level entry). */
+export function parentPath(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+export function joinPath(dir: string, name: string): string {
+  return dir ? `${dir}/${name}` : name;
+}
+
+/** Whether `path` is `dir` or lies inside it. */
+export function isWithinPath(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(`${dir}/`);
+}
+
+/** `path` moved along with `from` to `to`; unchanged when outside `from`. */
+export function rebasePath(path: string, from: string, to: string): string {
+  return isWithinPath(path, from) ? to + path.slice(from.length) : path;
+}
+
+/**
+ * Whether two names are one entry on a case-insensitive file system (the
+ * Windows and macOS default), where they can't be told apart.
+ */
+export function sameEntryName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Why `name` can't name a file or folder, or null when it can. Names
+ * starting with a dot are refused too: the explorer does not list them.
+ */
+export function entryNameError(name: string): string | null {
+  if (!name.trim()) return 'Enter a name.';
+  if (name !== name.trim()) return 'A name cannot start or end with a space.';
+  if (/[/\\:*?"<>|]/.test(name)) return 'A name cannot contain / \\ : * ? " < > |';
+  if (name.startsWith('.')) return 'A name cannot start with a dot.';
+  return null;
+}
+
+/**
+ * A name for a copy of `name` that `taken` doesn't have: "letter copy.xml",
+ * then "letter copy 2.xml", and so on.
+ */
+export function copyName(name: string, taken: ReadonlySet<string>): string {
+  const dot = name.lastIndexOf('.');
+  const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  for (let n = 1; ; n++) {
+    const candidate = `${stem} copy${n === 1 ? '' : ` ${n}`}${ext}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+/** The entries directly in folder `dir` ('' for the root), or null when not in the tree. */
+export function childrenOf(tree: FileTreeNode[], dir: string): FileTreeNode[] | null {
+  if (!dir) return tree;
+  for (const node of tree) {
+    if (node.path === dir) return node.children ?? [];
+    if (node.children && isWithinPath(dir, node.path)) return childrenOf(node.children, dir);
+  }
+  return null;
+}
+
+/**
+ * `tree` with `node` added to folder `dir`, in sort order, replacing an
+ * entry at the same path. The folders on the way are expanded so the new
+ * entry shows; a folder that is not in the tree leaves it unchanged.
+ */
+export function insertTreeNode(tree: FileTreeNode[], dir: string, node: FileTreeNode): FileTreeNode[] {
+  if (!dir) {
+    return [...tree.filter(n => n.path !== node.path), node].sort(compareFileTreeNodes);
+  }
+  return tree.map(n => {
+    if (n.type !== 'directory' || !isWithinPath(dir, n.path)) return n;
+    const children = n.path === dir
+      ? insertTreeNode(n.children ?? [], '', node)
+      : insertTreeNode(n.children ?? [], dir, node);
+    return { ...n, children, isExpanded: true };
+  });
+}
+
+/** `tree` without the entry at `path` (and anything in it). */
+export function removeTreeNode(tree: FileTreeNode[], path: string): FileTreeNode[] {
+  return tree
+    .filter(n => n.path !== path)
+    .map(n => (n.children && isWithinPath(path, n.path) ? { ...n, children: removeTreeNode(n.children, path) } : n));
+}
@@ -0,0 +1,294 @@
+/**
+ * Per-file revision history in IndexedDB.
+ *
+ * Autosave (autoSave.ts) is crash recovery: one record per app instance,
+ * deleted as soon as everything is saved. This is the opposite — a
+ * long-lived list of snapshots per FILE, recorded on every save and
+ * periodically while the file is dirty, so an earlier state can be compared
+ * and restored days later.
+ *
+ * A file is identified by its workspace path (`<folder>/<path>`) when it
+ * was opened from the workspace, otherwise by its file handle: handles are
+ * stored in IndexedDB and matched with `isSameEntry`, so a file opened
+ * from the picker again finds its history. Untitled documents have none.
+ * A workspace file's history follows it when the explorer renames or moves
+ * it, and is deleted with it.
+ *
+ * Layout, in a database of its own (`oxide-history`):
+ *  - `index:<file>` — the file's RevisionMeta list, oldest first (small,
+ *    read by the History panel)
+ *  - `content:<revision id>` — the snapshot text, read on demand
+ *  - `handles` — file handles and the history key each one was given
+ */
+import { createStore, get, set, delMany, keys, update, type UseStore } from 'idb-keyval';
+import { contentHash } from '../utils/contentHash';
+import { isWithinPath, rebasePath } from './fileTreeEdit';
+
+const HISTORY_DB = 'oxide-history';
+const HISTORY_STORE = 'revisions';
+const HANDLES_KEY = 'handles';
+const SNAPSHOT_INTERVAL = 5 * 60_000; // 5 minutes
+/** Revisions kept per file; the oldest are dropped first. */
+export const MAX_REVISIONS = 100;
+
+export type RevisionReason = 'save' | 'auto';
+
+/** One recorded revision, without its text. */
+export interface RevisionMeta {
+  id: string;
+  timestamp: number;
+  reason: RevisionReason;
+  /** Length of the text in characters. */
+  size: number;
+  /** FNV-1a of the text — a save that changed nothing records nothing. */
+  hash: string;
+}
+
+/** What identifies an open document's file. */
+export interface HistoryTarget {
+  /** Workspace folder the file was opened from (its root name), if any. */
+  root: string | null;
+  /** Path within that folder. */
+  filePath: string | null;
+  fileHandle: FileSystemFileHandle | null;
+}
+
+interface HandleEntry {
+  key: string;
+  handle: FileSystemFileHandle;
+}
+
+export type HistoryErrorHandler = (error: unknown) => void;
+
+// Created on first use: opening the database at import time would throw
+// where IndexedDB is missing, instead of failing the one call.
+let store: UseStore | null = null;
+function historyStore(): UseStore {
+  store ??= createStore(HISTORY_DB, HISTORY_STORE);
+  return store;
+}
+
+const indexKey = (fileKey: string) => `index:${fileKey}`;
+const contentKey = (id: string) => `content:${id}`;
+
+function revisionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// ─── Change notification (the History panel re-reads on it) ───
+
+type RevisionListener = (fileKey: string) => void;
+const listeners = new Set<RevisionListener>();
+
+/** Be told when a file's revision list changes. Returns the unsubscribe. */
+export function subscribeRevisions(listener: RevisionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ─── File identity ───
+
+// One lookup per handle object, so two concurrent saves can't register it twice
+const handleKeys = new WeakMap<FileSystemFileHandle, Promise<string | null>>();
+
+async function keyForHandle(handle: FileSystemFileHandle): Promise<string | null> {
+  const entries = (await get<HandleEntry[]>(HANDLES_KEY, historyStore())) ?? [];
+  for (const entry of entries) {
+    try {
+      if (await entry.handle.isSameEntry(handle)) return entry.key;
+    } catch {
+      // A handle whose file is gone — not this one
+    }
+  }
+  const key = `handle:${revisionId()}`;
+  await update<HandleEntry[]>(HANDLES_KEY, old => [...(old ?? []), { key, handle }], historyStore());
+  return key;
+}
+
+/**
+ * The history key of a file, or null when it has no identity yet (untitled,
+ * or saved only as a download).
+ */
+export function historyKey(target: HistoryTarget): Promise<string | null> {
+  if (target.root && target.filePath) return Promise.resolve(`path:${target.root}/${target.filePath}`);
+  const handle = target.fileHandle;
+  if (!handle) return Promise.resolve(null);
+  let pending = handleKeys.get(handle);
+  if (!pending) {
+    pending = keyForHandle(handle).catch(() => {
+      handleKeys.delete(handle);
+      return null;
+    });
+    handleKeys.set(handle, pending);
+  }
+  return pending;
+}
+
+// ─── Revisions ───
+
+/** The file's revisions, newest first. */
+export async function listRevisions(fileKey: string, onError?: HistoryErrorHandler): Promise<RevisionMeta[]> {
+  try {
+    const list = (await get<RevisionMeta[]>(indexKey(fileKey), historyStore())) ?? [];
+    return [...list].reverse();
+  } catch (error) {
+    console.warn('Revision history unavailable (IndexedDB error):', error);
+    onError?.(error);
+    return [];
+  }
+}
+
+/** The text of a revision, or null when it is gone. */
+export async function loadRevisionContent(id: string, onError?: HistoryErrorHandler): Promise<string | null> {
+  try {
+    return (await get<string>(contentKey(id), historyStore())) ?? null;
+  } catch (error) {
+    console.warn('Revision history unavailable (IndexedDB error):', error);
+    onError?.(error);
+    return null;
+  }
+}
+
+/**
+ * Record `content` as the file's newest revision. Returns null, recording
+ * nothing, when it equals the newest one. Beyond {@link MAX_REVISIONS} the
+ * oldest revisions are dropped.
+ */
+export async function recordRevision(
+  fileKey: string,
+  content: string,
+  reason: RevisionReason,
+  onError?: HistoryErrorHandler,
+): Promise<RevisionMeta | null> {
+  try {
+    const hash = contentHash(content);
+    const existing = (await get<RevisionMeta[]>(indexKey(fileKey), historyStore())) ?? [];
+    const newest = existing[existing.length - 1];
+    if (newest && newest.hash === hash && newest.size === content.length) return null;
+
+    const meta: RevisionMeta = { id: revisionId(), timestamp: Date.now(), reason, size: content.length, hash };
+    // Text first: an index entry must never point at missing content
+    await set(contentKey(meta.id), content, historyStore());
+    let dropped: RevisionMeta[] = [];
+    await update<RevisionMeta[]>(indexKey(fileKey), old => {
+      const list = [...(old ?? []), meta];
+      dropped = list.slice(0, Math.max(0, list.length - MAX_REVISIONS));
+      return list.slice(dropped.length);
+    }, historyStore());
+    if (dropped.length > 0) await delMany(dropped.map(r => contentKey(r.id)), historyStore());
+    listeners.forEach(l => l(fileKey));
+    return meta;
+  } catch (error) {
+    console.warn('Revision history unavailable (IndexedDB error):', error);
+    onError?.(error);
+    return null;
+  }
+}
+
+/**
+ * Record a revision of the document's file, resolving its key first.
+ * Does nothing for a document without one.
+ */
+export async function recordDocumentRevision(
+  target: HistoryTarget,
+  content: string,
+  reason: RevisionReason,
+  onError?: HistoryErrorHandler,
+): Promise<RevisionMeta | null> {
+  const key = await historyKey(target);
+  return key ? recordRevision(key, content, reason, onError) : null;
+}
+
+// ─── Workspace file operations ───
+
+/** Keys of the files at or under `path` in workspace folder `root` that have a history. */
+async function pathHistoryKeys(root: string, path: string): Promise<string[]> {
+  const prefix = indexKey(`path:${root}/`);
+  return (await keys(historyStore()))
+    .filter((key): key is string => typeof key === 'string' && key.startsWith(prefix))
+    .filter(key => isWithinPath(key.slice(prefix.length), path))
+    .map(key => key.slice('index:'.length));
+}
+
+/**
+ * Carry the history of a renamed or moved workspace file (or of every file
+ * in a moved folder) over to its new path. A history already at the new
+ * path — left by a file deleted outside the editor — is dropped.
+ */
+export async function moveFileHistory(
+  root: string,
+  from: string,
+  to: string,
+  onError?: HistoryErrorHandler,
+): Promise<void> {
+  try {
+    const prefix = `path:${root}/`;
+    for (const fileKey of await pathHistoryKeys(root, from)) {
+      const target = prefix + rebasePath(fileKey.slice(prefix.length), from, to);
+      const list = (await get<RevisionMeta[]>(indexKey(fileKey), historyStore())) ?? [];
+      const stale = (await get<RevisionMeta[]>(indexKey(target), historyStore())) ?? [];
+      await set(indexKey(target), list, historyStore());
+      await delMany([indexKey(fileKey), ...stale.map(r => contentKey(r.id))], historyStore());
+      listeners.forEach(l => {
+        l(fileKey);
+        l(target);
+      });
+    }
+  } catch (error) {
+    console.warn('Revision history unavailable (IndexedDB error):', error);
+    onError?.(error);
+  }
+}
+
+/** Delete the history of a deleted workspace file, or of every file in a deleted folder. */
+export async function deleteFileHistory(root: string, path: string, onError?: HistoryErrorHandler): Promise<void> {
+  try {
+    for (const fileKey of await pathHistoryKeys(root, path)) {
+      const list = (await get<RevisionMeta[]>(indexKey(fileKey), historyStore())) ?? [];
+      await delMany([indexKey(fileKey), ...list.map(r => contentKey(r.id))], historyStore());
+      listeners.forEach(l => l(fileKey));
+    }
+  } catch (error) {
+    console.warn('Revision history unavailable (IndexedDB error):', error);
+    onError?.(error);
+  }
+}
+
+/** `letter.xml` → `letter (2026-10-19 14.05).xml` — the tab name of a revision opened as a new tab. */
+export function revisionFileName(fileName: string, timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}.${pad(d.getMinutes())}`;
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? `${fileName.slice(0, dot)} (${stamp})${fileName.slice(dot)}` : `${fileName} (${stamp})`;
+}
+
+// ─── Periodic snapshots ───
+
+/** A dirty document to snapshot. */
+export interface HistorySnapshotSource extends HistoryTarget {
+  content: string;
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Snapshot the dirty documents every five minutes. Like startAutoSave,
+ * `getDirty` is read at each tick and should read state through a ref.
+ * Unchanged documents record nothing (see recordRevision).
+ */
+export function startHistorySnapshots(getDirty: () => HistorySnapshotSource[], onError?: HistoryErrorHandler) {
+  stopHistorySnapshots();
+  timer = setInterval(() => {
+    for (const doc of getDirty()) void recordDocumentRevision(doc, doc.content, 'auto', onError);
+  }, SNAPSHOT_INTERVAL);
+}
+
+export function stopHistorySnapshots() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
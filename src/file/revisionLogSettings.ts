@@ -0,0 +1,46 @@
+/**
+ * Revision log — whether saving a document adds a `<change>` to its
+ * `revisionDesc` (revisionDesc.ts), and with what. Chosen per workspace
+ * folder; files opened on their own share one setting.
+ */
+
+export type RevisionLogMode = 'off' | 'ask' | 'auto';
+
+export interface RevisionLogSettings {
+  /** Off; ask for the entry on every save; or add it without asking. */
+  mode: RevisionLogMode;
+  /** Initials (or a pointer) for `@who`; empty uses the reviewer's initials. */
+  who: string;
+  /** Description of an entry added without asking, and the one asked with. */
+  description: string;
+}
+
+export const DEFAULT_REVISION_LOG: RevisionLogSettings = { mode: 'off', who: '', description: 'Revised' };
+
+const REVISION_LOG_STORAGE_PREFIX = 'oxide-revision-log:';
+const MODES: readonly RevisionLogMode[] = ['off', 'ask', 'auto'];
+
+/** Settings for the workspace folder `rootName` (null: no folder open). */
+export function loadRevisionLogSettings(rootName: string | null): RevisionLogSettings {
+  try {
+    const stored = localStorage.getItem(REVISION_LOG_STORAGE_PREFIX + (rootName ?? ''));
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_REVISION_LOG;
+    const { mode, who, description } = parsed as Partial<Record<keyof RevisionLogSettings, unknown>>;
+    return {
+      mode: MODES.includes(mode as RevisionLogMode) ? (mode as RevisionLogMode) : DEFAULT_REVISION_LOG.mode,
+      who: typeof who === 'string' ? who : DEFAULT_REVISION_LOG.who,
+      description: typeof description === 'string' ? description : DEFAULT_REVISION_LOG.description,
+    };
+  } catch {
+    return DEFAULT_REVISION_LOG;
+  }
+}
+
+export function saveRevisionLogSettings(rootName: string | null, settings: RevisionLogSettings): void {
+  try {
+    localStorage.setItem(REVISION_LOG_STORAGE_PREFIX + (rootName ?? ''), JSON.stringify(settings));
+  } catch {
+    // Storage unavailable (Private Mode) — the choice lasts for this session.
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Pending tracked changes kept next to a workspace file, in
+ * `<file>.changes.json`, so a review can continue in a later session or on
+ * another machine sharing the folder.
+ *
+ * Positions are offsets into the file's text, so the sidecar records a hash
+ * of the text it belongs to; if the file was changed without the editor
+ * (or the sidecar is from another version), it is not applied. Writing a
+ * sidecar without pending changes removes it.
+ */
+import type { TrackedChange, TrackingState } from '../types/editor';
+import { contentHash } from '../utils/contentHash';
+import { readWorkspaceFile, removeWorkspaceFile, writeWorkspaceFile } from './fileSystemAccess';
+
+export const SIDECAR_SUFFIX = '.changes.json';
+
+interface SidecarFile {
+  version: 1;
+  /** Hash and length of the text the positions refer to */
+  hash: string;
+  size: number;
+  enabled: boolean;
+  changes: TrackedChange[];
+}
+
+export function sidecarPath(filePath: string): string {
+  return filePath + SIDECAR_SUFFIX;
+}
+
+export function serializeSidecar(content: string, tracking: TrackingState): string {
+  const file: SidecarFile = {
+    version: 1,
+    hash: contentHash(content),
+    size: content.length,
+    enabled: tracking.enabled,
+    changes: [...tracking.changes],
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+function isTrackedChange(value: unknown): value is TrackedChange {
+  const c = value as TrackedChange;
+  return typeof c === 'object' && c !== null
+    && typeof c.id === 'string'
+    && (c.kind === 'insertion' || c.kind === 'deletion')
+    && Number.isInteger(c.from) && Number.isInteger(c.to)
+    && typeof c.text === 'string' && typeof c.author === 'string' && typeof c.timestamp === 'number';
+}
+
+/** The tracking state in a sidecar, or null when it is malformed or for other text. */
+export function parseSidecar(json: string, content: string): TrackingState | null {
+  try {
+    const file = JSON.parse(json) as Partial<SidecarFile>;
+    if (file.version !== 1 || file.size !== content.length || file.hash !== contentHash(content)) return null;
+    if (!Array.isArray(file.changes) || !file.changes.every(isTrackedChange)) return null;
+    return { enabled: file.enabled === true, changes: file.changes };
+  } catch {
+    return null;
+  }
+}
+
+/** The sidecar text of `filePath`, or null when there is none. */
+export async function readSidecar(root: FileSystemDirectoryHandle, filePath: string): Promise<string | null> {
+  try {
+    return await readWorkspaceFile(root, sidecarPath(filePath));
+  } catch {
+    return null;
+  }
+}
+
+/** Write (or, with nothing pending, remove) the sidecar of `filePath`. */
+export async function writeSidecar(
+  root: FileSystemDirectoryHandle,
+  filePath: string,
+  content: string,
+  tracking: TrackingState,
+): Promise<void> {
+  if (tracking.changes.length === 0) {
+    await removeWorkspaceFile(root, sidecarPath(filePath));
+  } else {
+    await writeWorkspaceFile(root, sidecarPath(filePath), serializeSidecar(content, tracking));
+  }
+}
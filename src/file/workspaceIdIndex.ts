@@ -0,0 +1,74 @@
+/**
+ * Workspace xml:id index — which ids each workspace file declares, so
+ * `persons.xml#shakespeare` pointers can be checked without opening
+ * persons.xml. Built from the saved files; the open document's own ids
+ * always come from its live text (see referenceIntegrity.ts).
+ *
+ * Authority files (a personography, a placeography, …) are the workspace
+ * files the user picked to complete pointers against; their ids are kept
+ * with a text preview of each target.
+ */
+
+import type { FileTreeNode } from '../types/workspace';
+import {
+  collectIdTargets,
+  collectXmlIds,
+  type AuthorityIndex,
+  type WorkspaceIdIndex,
+} from '../schema/referenceIntegrity';
+import { readFileContent } from './fileSystemAccess';
+
+/**
+ * Read every file node and collect its xml:ids. Unreadable files are left
+ * out — a pointer into one reports "not in the workspace", which is what
+ * the editor can actually verify.
+ */
+export async function buildWorkspaceIdIndex(files: FileTreeNode[]): Promise<WorkspaceIdIndex> {
+  const index: WorkspaceIdIndex = new Map();
+  for (const node of files) {
+    if (node.type !== 'file') continue;
+    try {
+      const content = await readFileContent(node.handle as FileSystemFileHandle);
+      index.set(node.path, collectXmlIds(content));
+    } catch {
+      // Moved or permission revoked since the tree was scanned.
+    }
+  }
+  return index;
+}
+
+/** Id targets of each authority file; unreadable files are left out. */
+export async function buildAuthorityIndex(files: FileTreeNode[]): Promise<AuthorityIndex> {
+  const index: AuthorityIndex = new Map();
+  for (const node of files) {
+    if (node.type !== 'file') continue;
+    try {
+      const content = await readFileContent(node.handle as FileSystemFileHandle);
+      index.set(node.path, collectIdTargets(content));
+    } catch {
+      // Moved or permission revoked since the tree was scanned.
+    }
+  }
+  return index;
+}
+
+const AUTHORITY_STORAGE_PREFIX = 'oxide-authority-files:';
+
+/** Authority file paths chosen for the workspace folder `rootName`. */
+export function loadAuthorityFiles(rootName: string): string[] {
+  try {
+    const stored = localStorage.getItem(AUTHORITY_STORAGE_PREFIX + rootName);
+    const paths: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(paths) ? paths.filter((p): p is string => typeof p === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAuthorityFiles(rootName: string, paths: string[]): void {
+  try {
+    localStorage.setItem(AUTHORITY_STORAGE_PREFIX + rootName, JSON.stringify(paths));
+  } catch {
+    // Storage unavailable (Private Mode) — the choice lasts for this session.
+  }
+}
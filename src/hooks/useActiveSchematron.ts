@@ -0,0 +1,54 @@
+import { useEffect, useMemo } from 'react';
+import type { SchematronSchema } from '../schema/schematron';
+import { useEditor } from '../store/useEditor';
+import { useSchema } from '../store/useSchema';
+import { useWorkspace } from '../store/useWorkspace';
+import { readFileContent } from '../file/fileSystemAccess';
+import { findDocumentSchematronPath } from '../file/documentSchematron';
+
+/**
+ * Resolve the ACTIVE document's Schematron ruleset.
+ *
+ * A document inside the workspace that declares a ruleset via
+ * `<?xml-model … schematypens="http://purl.oclc.org/dsdl/schematron"?>`
+ * validates against that file; everything else (and a declared ruleset
+ * that is missing or unusable) uses the app-level ruleset. Joins
+ * EditorContext (the document and its path), WorkspaceContext (reading the
+ * .sch) and SchemaContext (the parsed-ruleset registry) — the same
+ * provider-join pattern as useActiveSchema.
+ *
+ * The declaration is read from the live text, so editing the xml-model PI
+ * switches rulesets without reopening the document.
+ */
+export function useActiveSchematron(): SchematronSchema | null {
+  const { getActiveDocument } = useEditor();
+  const { schematron, documentSchematrons, loadDocumentSchematron } = useSchema();
+  const { findFileNode } = useWorkspace();
+
+  const activeDoc = getActiveDocument();
+  const content = activeDoc?.content ?? '';
+  const filePath = activeDoc?.filePath ?? null;
+  const path = useMemo(() => (filePath ? findDocumentSchematronPath(content, filePath) : null), [content, filePath]);
+  const ruleset = path ? documentSchematrons[path] : undefined;
+
+  // Load (once per path) rulesets the workspace contains. A path the tree
+  // doesn't know stays unloaded and falls back silently, like a remote href.
+  useEffect(() => {
+    if (!path || ruleset !== undefined) return;
+    const node = findFileNode(path);
+    if (!node || node.type !== 'file') return;
+    let cancelled = false;
+    readFileContent(node.handle as FileSystemFileHandle)
+      .then((schXml) => {
+        if (!cancelled) loadDocumentSchematron(path, schXml);
+      })
+      .catch(() => {
+        if (!cancelled) loadDocumentSchematron(path, null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [path, ruleset, findFileNode, loadDocumentSchematron]);
+
+  return ruleset ?? schematron;
+}
@@ -1,28 +1,27 @@
 import { useCallback } from 'react';
-import type { FileTreeNode } from '../types/workspace';
 import { useWorkspace } from '../store/useWorkspace';
 import { useSchema } from '../store/useSchema';
-import { runBatchValidation } from '../file/batchValidation';
+import { batchDocumentNodes, runBatchValidation } from '../file/batchValidation';
+import { loadWorkspaceSchema } from '../file/documentSchema';
 
 /**
  * Run corpus validation over the whole workspace tree.
  *
  * Joins WorkspaceContext (file tree + shared batch state) with
- * SchemaContext (per-file schema resolution via the M3 registry + the
- * app-level Schematron ruleset) — the usual two-provider join hook so the
+ * SchemaContext (per-file schema resolution via the M3 registry, workspace
+ * schemas a file's xml-model points at, and the app-level Schematron ruleset, the fallback for files that declare no
+ * ruleset of their own) — the usual two-provider join hook so the
  * providers stay decoupled.
  */
 export function useBatchValidation(): () => Promise<void> {
   const { state, batch, startBatch, reportBatchProgress, finishBatch } = useWorkspace();
-  const { ensureSchema, schematron } = useSchema();
+  const { ensureSchema, registerCustomSchema, schematron } = useSchema();
 
   return useCallback(async () => {
     if (batch.running) return;
 
     // Count first so the progress bar has a stable total.
-    const countFiles = (nodes: FileTreeNode[]): number =>
-      nodes.reduce((n, node) => n + (node.type === 'file' ? 1 : 0) + (node.children ? countFiles(node.children) : 0), 0);
-    startBatch(countFiles(state.fileTree));
+    startBatch(batchDocumentNodes(state.fileTree).length);
 
     const results = await runBatchValidation(
       state.fileTree,
@@ -31,8 +30,21 @@ export function useBatchValidation(): () => Promise<void> {
       (schemaId) => ensureSchema(schemaId),
       schematron,
       ({ done }) => reportBatchProgress(done),
+      // Workspace .rng/.odd schemas are registered like uploaded ones, so a
+      // problem's file opens with its schema already in the registry.
+      async (path) => {
+        if (!state.rootHandle) return null;
+        try {
+          const info = await loadWorkspaceSchema(state.rootHandle, path);
+          registerCustomSchema(info);
+          return info;
+        } catch (err) {
+          console.warn(`Could not load workspace schema ${path}:`, err);
+          return null;
+        }
+      },
     );
 
     finishBatch(results);
-  }, [batch.running, state.fileTree, startBatch, reportBatchProgress, finishBatch, ensureSchema, schematron]);
+  }, [batch.running, state.fileTree, state.rootHandle, startBatch, reportBatchProgress, finishBatch, ensureSchema, registerCustomSchema, schematron]);
 }
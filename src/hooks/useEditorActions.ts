@@ -1,7 +1,15 @@
 import { useCallback, useMemo } from 'react';
+import type { StateCommand } from '@codemirror/state';
+import type { Command } from '@codemirror/view';
+import { foldAll, unfoldAll } from '@codemirror/language';
 import { useEditor } from '../store/useEditor';
 import { useWrapSelection } from './useWrapSelection';
 import { goToLineInView } from '../utils/goToLineInView';
+import * as structural from '../components/Editor/structuralCommands';
+import { foldElement } from '../components/Editor/elementFolding';
+import { formatDocument, formatSelection, type FormatOptions } from '../components/Editor/xmlFormatter';
+import * as tracking from '../components/Editor/trackChanges';
+import { addChangeEntry, type ChangeEntry } from '../components/Editor/revisionDesc';
 
 /**
  * Imperative editor operations that need a live `EditorView` instance.
@@ -23,6 +31,54 @@ export interface EditorActions {
   replaceSelection: (xml: string) => void;
   /** Move the cursor to the start of the given 1-based line and scroll to it. */
   goToLine: (line: number) => void;
+  /*
+   * Element commands on the element at the cursor (structuralCommands.ts),
+   * one undo step each. They return false when there is nothing to act on —
+   * no element there, no same-name sibling to join, no sibling to move past.
+   */
+  /** Rename the element — start and end tag. */
+  renameElement: (name: string) => boolean;
+  /** Remove the element's tags, keeping its content. */
+  unwrapElement: () => boolean;
+  /** Split the element around the cursor into two siblings. */
+  splitElement: () => boolean;
+  /** Join the element with its adjacent same-name sibling. */
+  joinElements: () => boolean;
+  /** Swap the element with its previous element sibling. */
+  moveElementUp: () => boolean;
+  /** Swap the element with its next element sibling. */
+  moveElementDown: () => boolean;
+  /**
+   * Pretty-print the document (xmlFormatter.ts). False when it is not
+   * well-formed or already formatted.
+   */
+  formatDocument: (options?: FormatOptions) => boolean;
+  /** Pretty-print the element around the selection. */
+  formatSelection: (options?: FormatOptions) => boolean;
+  /** Fold the innermost unfolded element around the cursor (elementFolding.ts). */
+  foldElement: () => boolean;
+  /** Fold every foldable element. */
+  foldAll: () => boolean;
+  /** Unfold everything. */
+  unfoldAll: () => boolean;
+  /*
+   * Track changes (trackChanges.ts). Accept and reject act on the changes
+   * with the given ids, or all of them; false when there are none.
+   */
+  /** Turn recording of edits on or off for the active document. */
+  toggleTrackChanges: () => boolean;
+  acceptChanges: (ids?: ReadonlySet<string>) => boolean;
+  rejectChanges: (ids?: ReadonlySet<string>) => boolean;
+  /**
+   * Write the pending changes into the document as `<add>`/`<del>`; how
+   * many were written and how many stay pending.
+   */
+  writeChangesAsTei: () => { written: number; skipped: number };
+  /**
+   * Add a `<change>` to the revisionDesc (revisionDesc.ts); false when the
+   * document has no teiHeader to hold it.
+   */
+  addChangeEntry: (entry: ChangeEntry) => boolean;
 }
 
 export function useEditorActions(): EditorActions {
@@ -62,8 +118,49 @@ export function useEditorActions(): EditorActions {
     [editorViewRef],
   );
 
+  const runCommand = useCallback(
+    (command: StateCommand | Command): boolean => {
+      const view = editorViewRef.current;
+      if (!view) return false;
+      const done = command(view);
+      view.focus();
+      return done;
+    },
+    [editorViewRef],
+  );
+
+  const writeChangesAsTei = useCallback(() => {
+    const view = editorViewRef.current;
+    if (!view) return { written: 0, skipped: 0 };
+    const { spec, written, skipped } = tracking.teiChangesSpec(view.state);
+    if (spec) view.dispatch(spec);
+    view.focus();
+    return { written, skipped };
+  }, [editorViewRef]);
+
   return useMemo(
-    () => ({ wrapSelection, insertAtCursor, replaceSelection, goToLine }),
-    [wrapSelection, insertAtCursor, replaceSelection, goToLine],
+    () => ({
+      wrapSelection,
+      insertAtCursor,
+      replaceSelection,
+      goToLine,
+      renameElement: (name: string) => runCommand(structural.renameElement(name)),
+      unwrapElement: () => runCommand(structural.unwrapElement),
+      splitElement: () => runCommand(structural.splitElement),
+      joinElements: () => runCommand(structural.joinElements),
+      moveElementUp: () => runCommand(structural.moveElementUp),
+      moveElementDown: () => runCommand(structural.moveElementDown),
+      formatDocument: (options?: FormatOptions) => runCommand(formatDocument(options)),
+      formatSelection: (options?: FormatOptions) => runCommand(formatSelection(options)),
+      foldElement: () => runCommand(foldElement),
+      foldAll: () => runCommand(foldAll),
+      unfoldAll: () => runCommand(unfoldAll),
+      toggleTrackChanges: () => runCommand(tracking.toggleTrackChanges),
+      acceptChanges: (ids?: ReadonlySet<string>) => runCommand(tracking.acceptChanges(ids)),
+      rejectChanges: (ids?: ReadonlySet<string>) => runCommand(tracking.rejectChanges(ids)),
+      writeChangesAsTei,
+      addChangeEntry: (entry: ChangeEntry) => runCommand(addChangeEntry(entry)),
+    }),
+    [wrapSelection, insertAtCursor, replaceSelection, goToLine, runCommand, writeChangesAsTei],
   );
 }
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { useEditor } from '../store/useEditor';
+import { detectSchemaIdFromContent, extractProlog } from '../utils/schemaDetector';
+
+/** Quiet period after the last edit before a changed prolog is re-read. */
+export const SCHEMA_SYNC_DELAY_MS = 400;
+
+/**
+ * Follow edits to a document's xml-model declaration.
+ *
+ * Once typing pauses, every tab whose prolog changed is re-detected; when
+ * the declaration now names a different built-in schema, the tab's
+ * schemaId follows (SET_TAB_SCHEMA). Workspace hrefs are useWorkspaceSchemas'
+ * business. The other direction — the selector writing the PI — lives in
+ * SchemaSelector.
+ *
+ * Only a change in what the declaration NAMES counts: touching the XML
+ * declaration or a comment, or an xml-model that still names the same
+ * schema, keeps a manual selector override in place.
+ */
+export function useSchemaDeclarationSync(): void {
+  const { multiTabState, setDocumentSchemaId } = useEditor();
+  // docId → prolog as of the last pass
+  const prologs = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const open = new Set<string>();
+      for (const doc of multiTabState.openDocuments) {
+        open.add(doc.id);
+        const prolog = extractProlog(doc.content);
+        const previous = prologs.current.get(doc.id);
+        prologs.current.set(doc.id, prolog);
+        // A tab seen for the first time was already detected when it opened.
+        if (previous === undefined || previous === prolog) continue;
+
+        const schemaId = detectSchemaIdFromContent(prolog);
+        if (schemaId && schemaId !== detectSchemaIdFromContent(previous) && schemaId !== doc.schemaId) {
+          setDocumentSchemaId(doc.id, schemaId);
+        }
+      }
+      for (const id of prologs.current.keys()) {
+        if (!open.has(id)) prologs.current.delete(id);
+      }
+    }, SCHEMA_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [multiTabState.openDocuments, setDocumentSchemaId]);
+}
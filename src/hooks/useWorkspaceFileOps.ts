@@ -0,0 +1,172 @@
+import { useCallback, useMemo } from 'react';
+import { useWorkspace } from '../store/useWorkspace';
+import { useEditor } from '../store/useEditor';
+import {
+  XML_EXTENSIONS,
+  buildFileTree,
+  copyWorkspaceEntry,
+  createWorkspaceFile,
+  createWorkspaceFolder,
+  getWorkspaceFileHandle,
+  moveWorkspaceEntry,
+  removeWorkspaceEntry,
+  removeWorkspaceFile,
+} from '../file/fileSystemAccess';
+import {
+  childrenOf,
+  copyName,
+  entryNameError,
+  isWithinPath,
+  joinPath,
+  parentPath,
+  rebasePath,
+  sameEntryName,
+} from '../file/fileTreeEdit';
+import { deleteFileHistory, moveFileHistory } from '../file/revisionHistory';
+import { sidecarPath } from '../file/trackChangesSidecar';
+import type { FileTreeNode } from '../types/workspace';
+
+export interface WorkspaceFileOps {
+  /** Create a file in folder `dir` and open it in a tab. */
+  createFile: (dir: string, name: string, content: string) => Promise<void>;
+  /** Create an (empty) folder in folder `dir`. */
+  createFolder: (dir: string, name: string) => Promise<void>;
+  /** Give an entry another name in the same folder. */
+  rename: (node: FileTreeNode, name: string) => Promise<void>;
+  /** Move an entry into folder `dir`; false when it is already there. */
+  move: (node: FileTreeNode, dir: string) => Promise<boolean>;
+  /** Copy an entry next to itself ("name copy.xml"). */
+  duplicate: (node: FileTreeNode) => Promise<void>;
+  /**
+   * Delete an entry with everything in it. Tabs of deleted files close;
+   * one with unsaved edits stays open, detached from the file.
+   */
+  remove: (node: FileTreeNode) => Promise<void>;
+  /** Why `name` can't be used in folder `dir` (taken, invalid), or null. */
+  nameError: (dir: string, name: string, kind: FileTreeNode['type'], current?: string) => string | null;
+}
+
+/**
+ * File operations on the open workspace folder through its directory
+ * handle (fileSystemAccess.ts).
+ *
+ * Joins WorkspaceContext (the tree, edited in place rather than re-scanned)
+ * with EditorContext (open tabs follow their files to a new path, or close
+ * with them) — the usual two-provider join hook. A file's track-changes
+ * sidecar and local revision history go wherever the file goes. Names are
+ * compared case-insensitively, as the Windows and macOS file systems do.
+ * Operations reject on I/O failure; the caller reports it.
+ */
+export function useWorkspaceFileOps(): WorkspaceFileOps {
+  const { state, addTreeNode, removeTreeNode, moveTreeNode } = useWorkspace();
+  const { multiTabState, openFileAsTab, setTabFile, closeTab } = useEditor();
+  const root = state.rootHandle;
+  const { fileTree, rootName } = state;
+  const { openDocuments } = multiTabState;
+
+  const requireRoot = useCallback(() => {
+    if (!root) throw new Error('No workspace folder is open');
+    return root;
+  }, [root]);
+
+  const nameError = useCallback(
+    (dir: string, name: string, kind: FileTreeNode['type'], current?: string) => {
+      const invalid = entryNameError(name);
+      if (invalid) return invalid;
+      if (kind === 'file' && !XML_EXTENSIONS.includes(name.slice(name.lastIndexOf('.')).toLowerCase())) {
+        return `Use one of the extensions the explorer lists: ${XML_EXTENSIONS.join(' ')}`;
+      }
+      const taken = (childrenOf(fileTree, dir) ?? []).some(n => sameEntryName(n.name, name) && n.name !== current);
+      return taken ? `"${name}" already exists here.` : null;
+    },
+    [fileTree],
+  );
+
+  // Tree node for an entry created or moved to `path`: a folder is
+  // re-scanned from its new handle, since every handle inside it changed.
+  const nodeFor = useCallback(async (path: string, handle: FileSystemHandle): Promise<FileTreeNode> => {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    if (handle.kind === 'file') return { name, path, type: 'file', handle };
+    const children = await buildFileTree(handle as FileSystemDirectoryHandle, path);
+    return { name, path, type: 'directory', handle, children, isExpanded: false };
+  }, []);
+
+  // Point the tabs of files under `from` at their new place under `to`
+  const retargetTabs = useCallback(async (from: string, to: string) => {
+    const rootHandle = requireRoot();
+    for (const doc of openDocuments) {
+      if (!doc.filePath || !isWithinPath(doc.filePath, from)) continue;
+      const path = rebasePath(doc.filePath, from, to);
+      const handle = await getWorkspaceFileHandle(rootHandle, path);
+      setTabFile(doc.id, handle.name, handle, path);
+    }
+  }, [openDocuments, requireRoot, setTabFile]);
+
+  const relocate = useCallback(async (node: FileTreeNode, to: string) => {
+    const rootHandle = requireRoot();
+    const handle = await moveWorkspaceEntry(rootHandle, node.path, to);
+    moveTreeNode(node.path, parentPath(to), await nodeFor(to, handle));
+    await retargetTabs(node.path, to);
+    if (rootName) await moveFileHistory(rootName, node.path, to);
+    if (node.type === 'file') {
+      await moveWorkspaceEntry(rootHandle, sidecarPath(node.path), sidecarPath(to)).catch((error: unknown) => {
+        // No sidecar (no pending tracked changes) — nothing to move
+        if (!(error instanceof DOMException && error.name === 'NotFoundError')) throw error;
+      });
+    }
+  }, [requireRoot, rootName, moveTreeNode, nodeFor, retargetTabs]);
+
+  const createFile = useCallback(async (dir: string, name: string, content: string) => {
+    const path = joinPath(dir, name);
+    const handle = await createWorkspaceFile(requireRoot(), path, content);
+    addTreeNode(dir, { name, path, type: 'file', handle });
+    openFileAsTab(content, name, handle, path);
+  }, [requireRoot, addTreeNode, openFileAsTab]);
+
+  const createFolder = useCallback(async (dir: string, name: string) => {
+    const path = joinPath(dir, name);
+    const handle = await createWorkspaceFolder(requireRoot(), path);
+    addTreeNode(dir, { name, path, type: 'directory', handle, children: [], isExpanded: true });
+  }, [requireRoot, addTreeNode]);
+
+  const rename = useCallback(async (node: FileTreeNode, name: string) => {
+    if (name === node.name) return;
+    await relocate(node, joinPath(parentPath(node.path), name));
+  }, [relocate]);
+
+  const move = useCallback(async (node: FileTreeNode, dir: string) => {
+    if (parentPath(node.path) === dir) return false;
+    if (isWithinPath(dir, node.path)) throw new Error(`Cannot move "${node.name}" into itself`);
+    if ((childrenOf(fileTree, dir) ?? []).some(n => sameEntryName(n.name, node.name))) {
+      throw new Error(`"${node.name}" already exists in ${dir || 'the workspace root'}`);
+    }
+    await relocate(node, joinPath(dir, node.name));
+    return true;
+  }, [fileTree, relocate]);
+
+  const duplicate = useCallback(async (node: FileTreeNode) => {
+    const dir = parentPath(node.path);
+    const name = copyName(node.name, new Set((childrenOf(fileTree, dir) ?? []).map(n => n.name)));
+    const path = joinPath(dir, name);
+    const handle = await copyWorkspaceEntry(requireRoot(), node.path, path);
+    addTreeNode(dir, await nodeFor(path, handle));
+  }, [fileTree, requireRoot, addTreeNode, nodeFor]);
+
+  const remove = useCallback(async (node: FileTreeNode) => {
+    const rootHandle = requireRoot();
+    await removeWorkspaceEntry(rootHandle, node.path);
+    if (node.type === 'file') await removeWorkspaceFile(rootHandle, sidecarPath(node.path));
+    removeTreeNode(node.path);
+    if (rootName) await deleteFileHistory(rootName, node.path);
+    for (const doc of openDocuments) {
+      if (!doc.filePath || !isWithinPath(doc.filePath, node.path)) continue;
+      if (doc.isDirty) setTabFile(doc.id, doc.fileName, null, null);
+      else closeTab(doc.id);
+    }
+  }, [requireRoot, rootName, removeTreeNode, openDocuments, setTabFile, closeTab]);
+
+  return useMemo(
+    () => ({ createFile, createFolder, rename, move, duplicate, remove, nameError }),
+    [createFile, createFolder, rename, move, duplicate, remove, nameError],
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { useEditor } from '../store/useEditor';
+import { useSchema } from '../store/useSchema';
+import { useWorkspace } from '../store/useWorkspace';
+import { findDocumentSchemaPath, loadWorkspaceSchema } from '../file/documentSchema';
+import { extractProlog } from '../utils/schemaDetector';
+import { SCHEMA_SYNC_DELAY_MS } from './useSchemaDeclarationSync';
+
+/**
+ * Assign workspace schemas to open documents.
+ *
+ * A tab whose xml-model points at a .rng/.odd inside the open workspace
+ * (`../schema/project.rng`) gets that file loaded, registered as a custom
+ * schema and set as its schemaId — whether it was opened from the explorer,
+ * recovered after a crash (autosave keeps the path), or opened before the
+ * workspace was. Joins EditorContext (tabs), WorkspaceContext (the root
+ * handle) and SchemaContext (the registry), like useActiveSchema.
+ *
+ * Each (tab, workspace, declared path) is resolved once, so picking another
+ * schema from the selector sticks until the declaration itself changes. A
+ * schema that can't be loaded leaves the detected fallback in place.
+ */
+export function useWorkspaceSchemas(): void {
+  const { multiTabState, setDocumentSchemaId } = useEditor();
+  const { registerCustomSchema } = useSchema();
+  const { state } = useWorkspace();
+  const rootHandle = state.rootHandle;
+
+  // docId → declared path already attempted under `resolvedRoot`.
+  const attempted = useRef(new Map<string, string>());
+  const resolvedRoot = useRef<FileSystemDirectoryHandle | null>(null);
+
+  useEffect(() => {
+    if (resolvedRoot.current !== rootHandle) {
+      resolvedRoot.current = rootHandle;
+      attempted.current.clear();
+    }
+    if (!rootHandle) return;
+
+    // Debounced like useSchemaDeclarationSync, so typing an href doesn't
+    // try to load every prefix of it.
+    const timer = setTimeout(() => {
+      for (const doc of multiTabState.openDocuments) {
+        if (!doc.filePath) continue;
+        const path = findDocumentSchemaPath(extractProlog(doc.content), doc.filePath);
+        if (!path || attempted.current.get(doc.id) === path) continue;
+        attempted.current.set(doc.id, path);
+
+        loadWorkspaceSchema(rootHandle, path)
+          .then((info) => {
+            // The workspace may have been closed or swapped while loading.
+            if (resolvedRoot.current !== rootHandle) return;
+            registerCustomSchema(info);
+            setDocumentSchemaId(doc.id, info.id);
+          })
+          .catch((err) => console.warn(`Could not load workspace schema ${path}:`, err));
+      }
+    }, SCHEMA_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [multiTabState.openDocuments, rootHandle, registerCustomSchema, setDocumentSchemaId]);
+}
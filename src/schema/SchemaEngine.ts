@@ -1,6 +1,7 @@
 import type { SchemaInfo, ElementSpec } from '../types/schema';
 import { getTeiLiteElements, getTeiAllElements, getElementCounts } from './teiStaticSchema';
 import { parseRng } from './rngParser';
+import { parseOdd } from './oddProcessor';
 
 /**
  * SchemaEngine is the central module for loading, parsing, and managing TEI schemas.
@@ -8,7 +9,7 @@ import { parseRng } from './rngParser';
  *
  * Built-in schemas are always freshly constructed from the static data
  * to avoid stale cache issues during development (HMR).
- * Custom schemas (uploaded .rng files) are cached since they're expensive to parse.
+ * Custom schemas (uploaded .rng / .odd files) are cached since they're expensive to parse.
  */
 export class SchemaEngine {
   private customCache = new Map<string, SchemaInfo>();
@@ -38,21 +39,40 @@ export class SchemaEngine {
         throw new Error(`Unknown builtin schema: ${id}`);
     }
 
-    return this.buildSchemaInfo(id, name, elements);
+    // Both validate with their content models (teiContentModels.ts, and
+    // TEI All's relaxed P5 ones); elements without one keep the
+    // allowed-children check.
+    return this.buildSchemaInfo(id, name, elements, true);
   }
 
   /** Load a custom schema from RNG XML string */
   async loadCustomRng(rngXml: string, name: string): Promise<SchemaInfo> {
+    return this.loadCustom(rngXml, name, async () => parseRng(rngXml));
+  }
+
+  /**
+   * Load a custom schema from a TEI ODD customization, compiled against the
+   * bundled P5 data (see oddProcessor.ts).
+   */
+  async loadCustomOdd(oddXml: string, name: string): Promise<SchemaInfo> {
+    return this.loadCustom(oddXml, name, () => parseOdd(oddXml));
+  }
+
+  private async loadCustom(
+    source: string,
+    name: string,
+    parse: () => Promise<ElementSpec[]>,
+  ): Promise<SchemaInfo> {
     const id = `custom_${name}`;
     // Cache by CONTENT, not by name: re-uploading an edited schema with the
     // same file name must reflect the edits (previously it returned the
     // stale first parse until a full page reload).
-    const cacheKey = `${id}#${hashString(rngXml)}`;
+    const cacheKey = `${id}#${hashString(source)}`;
     const cached = this.customCache.get(cacheKey);
     if (cached) return cached;
 
-    const elements = parseRng(rngXml);
-    const info = this.buildSchemaInfo(id, name, elements);
+    const elements = await parse();
+    const info = this.buildSchemaInfo(id, name, elements, elements.some((el) => el.contentModel));
 
     // Bound the cache — schema-iteration workflows would otherwise
     // accumulate one entry per edit for the whole session.
@@ -64,7 +84,7 @@ export class SchemaEngine {
   }
 
   /** Build SchemaInfo from element specs */
-  private buildSchemaInfo(id: string, name: string, elements: ElementSpec[]): SchemaInfo {
+  private buildSchemaInfo(id: string, name: string, elements: ElementSpec[], hasGrammar: boolean): SchemaInfo {
     const elementMap = new Map<string, ElementSpec>();
     for (const el of elements) {
       elementMap.set(el.name, el);
@@ -75,7 +95,7 @@ export class SchemaEngine {
       name,
       elements,
       elementMap,
-      hasSalveGrammar: false,
+      hasSalveGrammar: hasGrammar,
     };
   }
 }
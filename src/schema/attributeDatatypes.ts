@@ -0,0 +1,236 @@
+/**
+ * Attribute datatype checks (AttrSpec.datatype → value syntax).
+ *
+ * The generated P5 data and parsed RNG schemas tag attributes with their
+ * TEI datatype (teidata.pointer, teidata.temporal.w3c, ...). xmlValidator
+ * only checked closed value lists; this registry adds a syntax check per
+ * datatype so `when="2024-13-01"` or `xml:id="1st"` is flagged where it is
+ * typed instead of surfacing later in an XSLT or publication step.
+ *
+ * Each checker returns null for an acceptable value, or a short
+ * description of what was expected ("a W3C date or time (e.g. 2024-03-15)").
+ * Datatypes without a checker (teidata.text, teidata.word, ...) accept
+ * anything — the registry errs towards silence, never towards false
+ * positives on values the schema allows.
+ */
+import type { AttrSpec } from '../types/schema';
+
+/** null = valid; otherwise what the value should have looked like. */
+export type DatatypeChecker = (value: string) => string | null;
+
+const registry = new Map<string, DatatypeChecker>();
+
+/** Register (or replace) the checker for a datatype name. */
+export function registerDatatype(names: string | string[], checker: DatatypeChecker): void {
+  for (const name of Array.isArray(names) ? names : [names]) {
+    registry.set(name, checker);
+  }
+}
+
+/** Checker for a datatype, or undefined when values of that type are not checked. */
+export function getDatatypeChecker(datatype: string): DatatypeChecker | undefined {
+  return registry.get(datatype);
+}
+
+// XML-namespace attributes have a fixed type whatever the schema says —
+// TEI Lite's hand-written specs carry no datatype for them.
+const XML_ATTRIBUTE_DATATYPES: Record<string, string> = {
+  'xml:id': 'ID',
+  'xml:lang': 'teidata.language',
+};
+
+/** The datatype to check an attribute against (schema-declared, else built-in). */
+export function datatypeOf(attr: AttrSpec): string | undefined {
+  return attr.datatype ?? XML_ATTRIBUTE_DATATYPES[attr.name];
+}
+
+/**
+ * Check a raw attribute value (as written in the source, entities and all)
+ * against the attribute's datatype. Returns null when the value is valid or
+ * the datatype is not checked.
+ */
+export function checkAttributeDatatype(attr: AttrSpec, rawValue: string): string | null {
+  const datatype = datatypeOf(attr);
+  if (!datatype) return null;
+  const checker = registry.get(datatype);
+  return checker ? checker(decodeEntities(rawValue)) : null;
+}
+
+/** Decode the predefined and numeric character references in an attribute value. */
+export function decodeEntities(value: string): string {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, ref: string) => {
+    switch (ref) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = ref[1] === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : '\uFFFD';
+  });
+}
+
+// ── Dates and durations (XML Schema Part 2) ──
+
+const YEAR = '-?(?:[1-9]\\d{4,}|\\d{4})';
+const TZ = '(?:Z|[+-](?:(?:0\\d|1[0-3]):[0-5]\\d|14:00))?';
+const TIME = '(?:[01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d(?:\\.\\d+)?|24:00:00(?:\\.0+)?';
+
+const W3C_TEMPORAL = [
+  new RegExp(`^(${YEAR})-(\\d{2})-(\\d{2})${TZ}$`), // date
+  new RegExp(`^(${YEAR})-(\\d{2})-(\\d{2})T(?:${TIME})${TZ}$`), // dateTime
+  new RegExp(`^(${YEAR})-(\\d{2})${TZ}$`), // gYearMonth
+  new RegExp(`^(${YEAR})${TZ}$`), // gYear
+  new RegExp(`^--()(\\d{2})-(\\d{2})${TZ}$`), // gMonthDay
+  new RegExp(`^--()(\\d{2})${TZ}$`), // gMonth
+  new RegExp(`^---()()(\\d{2})${TZ}$`), // gDay
+  new RegExp(`^(?:${TIME})${TZ}$`), // time
+];
+
+function daysInMonth(year: number | null, month: number): number {
+  if (month === 2) {
+    // Without a year (gMonthDay) February 29 is allowed.
+    if (year === null) return 29;
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 29 : 28;
+  }
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+function isW3cTemporal(value: string): boolean {
+  for (const re of W3C_TEMPORAL) {
+    const m = re.exec(value);
+    if (!m) continue;
+    const [, y, mo, d] = m;
+    if (y === '-0000' || y === '0000') return false; // XSD 1.0 has no year zero
+    const month = mo ? Number(mo) : null;
+    if (month !== null && (month < 1 || month > 12)) return false;
+    if (d) {
+      const day = Number(d);
+      const max = month === null ? 31 : daysInMonth(y ? Number(y) : null, month);
+      if (day < 1 || day > max) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+const W3C_DURATION = /^-?P(?=\d|T\d)(?:\d+Y)?(?:\d+M)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+(?:\.\d+)?S)?)?$/;
+
+registerDatatype(['teidata.temporal.w3c', 'date', 'dateTime', 'gYear', 'gYearMonth', 'time'], (value) =>
+  isW3cTemporal(value) ? null : 'a W3C date or time (e.g. 2024-03-15, 1867-05, 1867)',
+);
+
+registerDatatype(['teidata.duration.w3c', 'duration'], (value) =>
+  W3C_DURATION.test(value) ? null : 'a W3C duration (e.g. P1Y2M, PT30M)',
+);
+
+// ── Numbers ──
+
+registerDatatype(['teidata.count', 'nonNegativeInteger'], (value) =>
+  /^\+?\d+$/.test(value) ? null : 'a non-negative whole number',
+);
+
+registerDatatype('teidata.unboundedCount', (value) =>
+  /^\+?\d+$/.test(value) || value === 'unbounded' ? null : 'a non-negative whole number or "unbounded"',
+);
+
+registerDatatype('integer', (value) =>
+  /^[+-]?\d+$/.test(value) ? null : 'a whole number',
+);
+
+const DECIMAL_OR_DOUBLE = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+registerDatatype('teidata.numeric', (value) =>
+  DECIMAL_OR_DOUBLE.test(value) || /^-?\d+\/-?\d+$/.test(value) || ['INF', '-INF', 'NaN'].includes(value)
+    ? null
+    : 'a number (e.g. 12, 0.5, 3/4)',
+);
+
+registerDatatype('teidata.probability', (value) => {
+  const n = Number(value);
+  return DECIMAL_OR_DOUBLE.test(value) && n >= 0 && n <= 1 ? null : 'a probability between 0 and 1';
+});
+
+registerDatatype(['teidata.truthValue', 'boolean'], (value) =>
+  ['true', 'false', '1', '0'].includes(value) ? null : 'true or false',
+);
+
+registerDatatype('teidata.xTruthValue', (value) =>
+  ['true', 'false', '1', '0', 'unknown', 'inapplicable'].includes(value)
+    ? null
+    : 'true, false, unknown or inapplicable',
+);
+
+// ── Names ──
+
+// XML 1.0 (5th ed.) NameStartChar / NameChar, minus ':' for NCName.
+const NC_NAME_START = 'A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\u{10000}-\\u{EFFFF}';
+const NC_NAME_CHAR = `${NC_NAME_START}\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040`;
+// eslint-disable-next-line no-misleading-character-class -- combining marks are NameChars by spec
+const NC_NAME = new RegExp(`^[${NC_NAME_START}][${NC_NAME_CHAR}]*$`, 'u');
+
+registerDatatype(['ID', 'NCName', 'teidata.xmlName'], (value) =>
+  NC_NAME.test(value) ? null : 'an XML name: a letter or "_" first, then letters, digits, ".", "-" or "_"',
+);
+
+// BCP 47 (RFC 5646) well-formedness — syntax only, subtags are not looked
+// up in the IANA registry.
+const BCP47 = new RegExp(
+  '^(?:' +
+    // langtag
+    '(?:[a-z]{2,3}(?:-[a-z]{3}){0,3}|[a-z]{4}|[a-z]{5,8})' + // language (+ extlang)
+    '(?:-[a-z]{4})?' + // script
+    '(?:-(?:[a-z]{2}|\\d{3}))?' + // region
+    '(?:-(?:[a-z\\d]{5,8}|\\d[a-z\\d]{3}))*' + // variants
+    '(?:-[\\da-wy-z](?:-[a-z\\d]{2,8})+)*' + // extensions
+    '(?:-x(?:-[a-z\\d]{1,8})+)?' + // private use suffix
+    '|x(?:-[a-z\\d]{1,8})+' + // private use tag
+    '|i-[a-z]{2,8}|en-gb-oed|sgn-[a-z]{2}-[a-z]{2,3}' + // grandfathered
+  ')$',
+  'i',
+);
+
+registerDatatype(['teidata.language', 'language'], (value) =>
+  // TEI allows the empty string ("no language").
+  value === '' || BCP47.test(value) ? null : 'a BCP 47 language tag (e.g. en, ko, grc-Latn, zh-Hant-TW)',
+);
+
+// ── Pointers ──
+
+const URI_SCHEME = /^[A-Za-z][A-Za-z\d+.-]*$/;
+
+function hasControlChar(s: string): boolean {
+  for (let i = 0; i < s.length; i++) {
+    const code = s.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) return true;
+  }
+  return false;
+}
+
+function uriProblem(uri: string): string | null {
+  if (/[<>"{}|\\^`]/.test(uri) || hasControlChar(uri)) return 'contains a character not allowed in a URI';
+  if (/%(?![0-9A-Fa-f]{2})/.test(uri)) return 'has a "%" not followed by two hex digits';
+  if (uri.indexOf('#') !== uri.lastIndexOf('#')) return 'has more than one "#"';
+  const colon = uri.indexOf(':');
+  if (colon === 0) return 'has an empty scheme';
+  if (colon > 0) {
+    const firstDelimiter = uri.search(/[/?#]/);
+    if ((firstDelimiter === -1 || colon < firstDelimiter) && !URI_SCHEME.test(uri.slice(0, colon))) {
+      return 'has an invalid scheme';
+    }
+  }
+  return null;
+}
+
+// Pointer attributes (@target, @ref, @corresp, ...) hold one or more
+// whitespace-separated URIs, so each token is checked on its own.
+registerDatatype(['teidata.pointer', 'anyURI'], (value) => {
+  for (const uri of value.split(/\s+/)) {
+    if (!uri) continue;
+    const problem = uriProblem(uri);
+    if (problem) return `a URI or #id pointer — "${uri}" ${problem}`;
+  }
+  return null;
+});
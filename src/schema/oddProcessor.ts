@@ -0,0 +1,469 @@
+import type { ElementSpec, AttrSpec, ContentModel, ContentItem } from '../types/schema';
+import { getTeiAllElements, loadP5Module } from './teiStaticSchema';
+import { pruneModel } from './teiContentModels';
+
+/**
+ * Compile a TEI ODD customization into ElementSpec[] against the bundled P5
+ * data (teiP5Generated.ts), so a project that maintains its schema as an ODD
+ * can upload it directly instead of running it through Roma/oxgarage first.
+ *
+ * Applied from the first <schemaSpec>, in ODD processing order:
+ *
+ *   1. <moduleRef key include|except> and <elementRef key> pick the elements
+ *   2. <classSpec type="atts"> add / change / replace / delete attribute classes
+ *   3. <elementSpec> add / change / replace / delete elements, including their
+ *      <attList> (attDef add/change/replace/delete, usage="req", <datatype>,
+ *      <valList>), <classes> memberships, <content> and <gloss>/<desc>
+ *
+ * Elements the ODD leaves alone keep the TEI All spec (content model,
+ * merged documentation), minus references to elements the ODD removed. A new or replaced <content> is written in pure ODD
+ * (<sequence>/<alternate>/<elementRef>/...) and is validated as authored.
+ *
+ * Not supported — the bundled data has no way to express them:
+ *   - model classes: <classSpec type="model"> and model-class <memberOf> are
+ *     ignored, and a <classRef>/<macroRef> in <content> accepts any element
+ *   - <moduleRef url> (external RNG), <macroSpec>, <dataSpec>, Schematron
+ *     <constraintSpec> (load those through the Schematron selector)
+ *   - RELAX NG inside <content>: the element keeps no content model
+ *   - open and semi-open <valList>s: AttrSpec.values is always enforced, so
+ *     only closed lists become values
+ *   - attribute classes are available whichever modules are referenced
+ */
+
+type P5Module = typeof import('./teiP5Generated');
+
+const TEI_NS = 'http://www.tei-c.org/ns/1.0';
+const RNG_NS = 'http://relaxng.org/ns/structure/1.0';
+
+/** Parse an ODD and build its element specs (loads the P5 chunk on first use). */
+export async function parseOdd(oddXml: string): Promise<ElementSpec[]> {
+  const [p5, base] = await Promise.all([loadP5Module(), getTeiAllElements()]);
+  return applyOdd(oddXml, p5, base);
+}
+
+/** True when `xml` looks like an ODD rather than an RNG grammar. */
+export function isOdd(xml: string): boolean {
+  return /<(?:\w+:)?schemaSpec[\s>]/.test(xml);
+}
+
+/**
+ * Apply an ODD's <schemaSpec> to the P5 data. `base` supplies the specs of
+ * unmodified elements (getTeiAllElements()).
+ */
+export function applyOdd(oddXml: string, p5: P5Module, base: ElementSpec[]): ElementSpec[] {
+  const doc = new DOMParser().parseFromString(oddXml, 'application/xml');
+  const errorNode = doc.querySelector('parsererror');
+  if (errorNode) {
+    throw new Error(`ODD parse error: ${errorNode.textContent}`);
+  }
+
+  const schemaSpec = doc.getElementsByTagNameNS(TEI_NS, 'schemaSpec')[0];
+  if (!schemaSpec) {
+    throw new Error('ODD has no <schemaSpec> in the TEI namespace');
+  }
+  const specs = expandSpecGroups(doc, schemaSpec);
+
+  const baseByName = new Map(base.map((el) => [el.name, el]));
+  const p5ByName = new Map(p5.TEI_P5_ELEMENTS.map((el) => [el.name, el]));
+
+  // --- 1. Element selection -------------------------------------------------
+  const modules = new Map<string, string[]>();
+  for (const [name, module] of Object.entries(p5.TEI_ELEMENT_MODULES)) {
+    const list = modules.get(module);
+    if (list) list.push(name);
+    else modules.set(module, [name]);
+  }
+
+  const selected = new Set<string>();
+  for (const spec of specs) {
+    const key = spec.getAttribute('key');
+    if (!key) continue;
+    if (spec.localName === 'elementRef') {
+      selected.add(key);
+    } else if (spec.localName === 'moduleRef') {
+      const members = modules.get(key) ?? [];
+      const include = tokens(spec.getAttribute('include'));
+      const except = new Set(tokens(spec.getAttribute('except')));
+      for (const name of include.length > 0 ? include.filter((n) => members.includes(n)) : members) {
+        if (!except.has(name)) selected.add(name);
+      }
+    }
+  }
+
+  // --- 2. Attribute classes -------------------------------------------------
+  const attClasses = new Map<string, AttrSpec[]>(Object.entries(p5.TEI_ATTRIBUTE_CLASSES));
+  const inheritance = new Map<string, string[]>(Object.entries(p5.TEI_ATTR_CLASS_INHERITANCE));
+
+  for (const spec of specs) {
+    if (spec.localName !== 'classSpec' || spec.getAttribute('type') !== 'atts') continue;
+    const ident = spec.getAttribute('ident');
+    if (!ident) continue;
+    const mode = spec.getAttribute('mode') ?? 'add';
+
+    if (mode === 'delete') {
+      attClasses.delete(ident);
+      inheritance.delete(ident);
+      continue;
+    }
+    const fresh = mode === 'add' || mode === 'replace' || !attClasses.has(ident);
+    attClasses.set(ident, applyAttList(fresh ? [] : attClasses.get(ident)!, spec));
+    inheritance.set(ident, applyMemberships(fresh ? [] : inheritance.get(ident) ?? [], spec));
+  }
+
+  const resolveClassAttributes = (classes: string[]): AttrSpec[] => {
+    const attrs: AttrSpec[] = [];
+    const seen = new Set<string>();
+    const resolved = new Set<string>();
+    const queue = [...classes];
+    while (queue.length > 0) {
+      const className = queue.shift()!;
+      if (resolved.has(className)) continue;
+      resolved.add(className);
+      queue.push(...(inheritance.get(className) ?? []));
+      for (const attr of attClasses.get(className) ?? []) {
+        if (!seen.has(attr.name)) {
+          seen.add(attr.name);
+          attrs.push(attr);
+        }
+      }
+    }
+    return attrs;
+  };
+
+  const mergeAttrs = (local: AttrSpec[], inherited: AttrSpec[]): AttrSpec[] => {
+    const seen = new Set(local.map((a) => a.name));
+    return [...local, ...inherited.filter((a) => !seen.has(a.name))];
+  };
+
+  // --- 3. Elements ----------------------------------------------------------
+  const elementSpecs = new Map<string, Element>();
+  for (const spec of specs) {
+    const ident = spec.getAttribute('ident');
+    if (spec.localName !== 'elementSpec' || !ident) continue;
+    const mode = spec.getAttribute('mode') ?? 'add';
+    if (mode === 'delete') {
+      selected.delete(ident);
+      elementSpecs.delete(ident);
+    } else if (mode === 'change') {
+      // Changing an element the schema doesn't include has no effect.
+      if (selected.has(ident)) elementSpecs.set(ident, spec);
+    } else {
+      selected.add(ident);
+      elementSpecs.set(ident, spec);
+    }
+  }
+
+  const elements: ElementSpec[] = [];
+  for (const name of selected) {
+    const spec = elementSpecs.get(name);
+    const p5El = p5ByName.get(name);
+    const baseEl = baseByName.get(name);
+    const mode = spec?.getAttribute('mode') ?? 'add';
+    // add/replace start from nothing; an add that names an existing P5
+    // element behaves like TEI's ODD processors and redefines it.
+    const fresh = spec !== undefined && mode !== 'change';
+    if (!spec && !p5El) continue; // elementRef/moduleRef to an unknown name
+
+    const classes = applyMemberships(fresh ? [] : p5.TEI_ELEMENT_CLASSES[name] ?? [], spec);
+    const local = fresh ? [] : p5El?.localAttrs ?? [];
+    let attributes = mergeAttrs(local, resolveClassAttributes(classes));
+    if (spec) attributes = applyAttList(attributes, spec);
+
+    const el: ElementSpec = {
+      name,
+      documentation: documentationOf(spec, fresh ? undefined : baseEl?.documentation),
+      attributes,
+    };
+
+    const content = spec && childByName(spec, 'content');
+    if (content) {
+      const compiled = compileContent(content);
+      el.contentModel = compiled.model;
+      const open = compiled.open ? baseEl?.children : [];
+      el.children = compiled.open && !baseEl ? undefined : [...new Set([...compiled.children, ...(open ?? [])])];
+    } else if (!fresh) {
+      el.children = baseEl?.children;
+      el.contentModel = baseEl?.contentModel;
+    }
+    const ns = spec?.getAttribute('ns');
+    if (ns) el.ns = ns;
+    elements.push(el);
+  }
+
+  // Drop references to elements the customization doesn't include, so the
+  // validator reports them as not allowed and completion stops offering them.
+  const names = new Set(elements.map((el) => el.name));
+  for (const el of elements) {
+    if (el.children) el.children = el.children.filter((c) => names.has(c));
+    if (el.contentModel) el.contentModel = pruneModel(el.contentModel, names);
+  }
+
+  return elements.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// <schemaSpec> traversal
+// ============================================================================
+
+/** schemaSpec's spec children, with <specGrpRef>s replaced by their <specGrp>. */
+function expandSpecGroups(doc: Document, schemaSpec: Element): Element[] {
+  const groups = new Map<string, Element>();
+  const groupEls = doc.getElementsByTagNameNS(TEI_NS, 'specGrp');
+  for (let i = 0; i < groupEls.length; i++) {
+    const id = groupEls[i].getAttribute('xml:id');
+    if (id) groups.set(id, groupEls[i]);
+  }
+
+  const result: Element[] = [];
+  const visit = (parent: Element, seen: Set<string>) => {
+    for (const child of teiChildren(parent)) {
+      if (child.localName === 'specGrpRef') {
+        const id = (child.getAttribute('target') ?? '').replace(/^#/, '');
+        const group = groups.get(id);
+        if (group && !seen.has(id)) visit(group, new Set([...seen, id]));
+      } else if (child.localName === 'specGrp') {
+        visit(child, seen);
+      } else {
+        result.push(child);
+      }
+    }
+  };
+  visit(schemaSpec, new Set());
+  return result;
+}
+
+function teiChildren(parent: Element): Element[] {
+  return Array.from(parent.children).filter((c) => c.namespaceURI === TEI_NS);
+}
+
+function childByName(parent: Element, localName: string): Element | undefined {
+  return teiChildren(parent).find((c) => c.localName === localName);
+}
+
+function tokens(value: string | null): string[] {
+  return value ? value.trim().split(/\s+/).filter(Boolean) : [];
+}
+
+function occurrence(value: string | null, fallback: number): number {
+  if (value === null) return fallback;
+  if (value === 'unbounded') return Infinity;
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) ? fallback : n;
+}
+
+// ============================================================================
+// Documentation
+// ============================================================================
+
+/** The English (or unlabelled) child, falling back to the first one. */
+function preferredText(parent: Element, localName: string): string | undefined {
+  const candidates = teiChildren(parent).filter((c) => c.localName === localName);
+  const chosen = candidates.find((c) => {
+    const lang = c.getAttribute('xml:lang');
+    return !lang || lang === 'en';
+  }) ?? candidates[0];
+  const text = chosen?.textContent?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * "(gloss) desc", the shape the P5 data uses. A gloss-only change keeps the
+ * existing description.
+ */
+function documentationOf(spec: Element | undefined, fallback: string | undefined): string | undefined {
+  if (!spec) return fallback;
+  const gloss = preferredText(spec, 'gloss');
+  const desc = preferredText(spec, 'desc') ?? fallback?.replace(/^\([^)]*\)\s*/, '');
+  if (!gloss) return desc;
+  return desc ? `(${gloss}) ${desc}` : `(${gloss})`;
+}
+
+// ============================================================================
+// Attributes
+// ============================================================================
+
+/** Apply a spec's <attList> (including nested attLists) to `attrs`. */
+function applyAttList(attrs: AttrSpec[], spec: Element): AttrSpec[] {
+  const attList = childByName(spec, 'attList');
+  if (!attList) return attrs;
+
+  const result = [...attrs];
+  const visit = (list: Element) => {
+    for (const child of teiChildren(list)) {
+      if (child.localName === 'attList') {
+        visit(child);
+        continue;
+      }
+      if (child.localName !== 'attDef') continue;
+      const ident = child.getAttribute('ident');
+      if (!ident) continue;
+      const mode = child.getAttribute('mode') ?? 'add';
+      const index = result.findIndex((a) => a.name === ident);
+
+      if (mode === 'delete') {
+        if (index !== -1) result.splice(index, 1);
+      } else if (mode === 'change' && index !== -1) {
+        result[index] = changeAttDef(result[index], child);
+      } else {
+        const attr = changeAttDef({ name: ident }, child);
+        if (index !== -1) result[index] = attr;
+        else result.push(attr);
+      }
+    }
+  };
+  visit(attList);
+  return result;
+}
+
+/** `attr` with whatever the <attDef> states overriding it. */
+function changeAttDef(attr: AttrSpec, attDef: Element): AttrSpec {
+  const next: AttrSpec = { ...attr };
+
+  const usage = attDef.getAttribute('usage');
+  if (usage) next.required = usage === 'req';
+
+  const documentation = documentationOf(attDef, attr.documentation);
+  if (documentation) next.documentation = documentation;
+
+  const datatype = childByName(attDef, 'datatype');
+  if (datatype) next.datatype = datatypeName(datatype);
+
+  const defaultVal = childByName(attDef, 'defaultVal')?.textContent?.trim();
+  if (defaultVal) next.defaultValue = defaultVal;
+
+  const valList = childByName(attDef, 'valList');
+  if (valList) next.values = applyValList(attr.values, valList);
+
+  if (next.values === undefined) delete next.values;
+  return next;
+}
+
+function datatypeName(datatype: Element): string | undefined {
+  for (const child of Array.from(datatype.children)) {
+    if (child.namespaceURI === TEI_NS && child.localName === 'dataRef') {
+      return child.getAttribute('key') ?? child.getAttribute('name') ?? undefined;
+    }
+    if (child.namespaceURI === RNG_NS && child.localName === 'ref') {
+      return child.getAttribute('name') ?? undefined;
+    }
+    if (child.namespaceURI === RNG_NS && child.localName === 'data') {
+      return child.getAttribute('type') ?? undefined;
+    }
+  }
+  return undefined;
+}
+
+function applyValList(current: string[] | undefined, valList: Element): string[] | undefined {
+  const mode = valList.getAttribute('mode') ?? 'add';
+  if (mode === 'delete') return undefined;
+
+  const valItems = teiChildren(valList).filter((c) => c.localName === 'valItem');
+  const type = valList.getAttribute('type');
+  if (mode !== 'change') {
+    return type === 'closed' ? valItems.map((c) => c.getAttribute('ident')).filter((v): v is string => !!v) : undefined;
+  }
+
+  // A change without @type keeps the list's closure; <valItem mode="delete">
+  // removes a value, any other valItem adds one.
+  if (type ? type !== 'closed' : !current) return undefined;
+  const values = [...(current ?? [])];
+  for (const item of valItems) {
+    const ident = item.getAttribute('ident');
+    if (!ident) continue;
+    const index = values.indexOf(ident);
+    if (item.getAttribute('mode') === 'delete') {
+      if (index !== -1) values.splice(index, 1);
+    } else if (index === -1) {
+      values.push(ident);
+    }
+  }
+  return values;
+}
+
+/** Apply a spec's <classes><memberOf> to a list of attribute classes. */
+function applyMemberships(classes: string[], spec: Element | undefined): string[] {
+  const classesEl = spec && childByName(spec, 'classes');
+  if (!classesEl) return classes;
+
+  let result = classesEl.getAttribute('mode') === 'replace' ? [] : [...classes];
+  for (const memberOf of teiChildren(classesEl)) {
+    const key = memberOf.getAttribute('key');
+    if (memberOf.localName !== 'memberOf' || !key?.startsWith('att.')) continue;
+    if (memberOf.getAttribute('mode') === 'delete') {
+      result = result.filter((c) => c !== key);
+    } else if (!result.includes(key)) {
+      result.push(key);
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Content
+// ============================================================================
+
+interface CompiledContent {
+  model: ContentModel | undefined;
+  /** Element names the content refers to directly. */
+  children: string[];
+  /** Whether a class/macro/anyElement reference lets in more than `children`. */
+  open: boolean;
+}
+
+/** Compile a pure-ODD <content> into a ContentModel. */
+function compileContent(content: Element): CompiledContent {
+  const children: string[] = [];
+  let open = false;
+  let unsupported = false;
+
+  const toItem = (node: Element): ContentItem | undefined => {
+    if (node.namespaceURI !== TEI_NS) {
+      unsupported = true;
+      return undefined;
+    }
+    const minOccurs = occurrence(node.getAttribute('minOccurs'), 1);
+    const maxOccurs = occurrence(node.getAttribute('maxOccurs'), 1);
+    switch (node.localName) {
+      case 'elementRef': {
+        const name = node.getAttribute('key');
+        if (!name) return undefined;
+        children.push(name);
+        return { kind: 'element', name, minOccurs, maxOccurs };
+      }
+      case 'sequence':
+      case 'alternate':
+        return { kind: 'group', content: toModel(node), minOccurs, maxOccurs };
+      case 'classRef':
+      case 'macroRef':
+      case 'anyElement':
+        open = true;
+        return { kind: 'model', name: node.getAttribute('key') ?? '*', minOccurs, maxOccurs };
+      case 'textNode':
+      case 'dataRef':
+      case 'valList':
+        return { kind: 'text', minOccurs: 0, maxOccurs: Infinity };
+      default:
+        return undefined;
+    }
+  };
+
+  const toModel = (node: Element): ContentModel => {
+    const items = teiChildren(node).map(toItem).filter((i): i is ContentItem => !!i);
+    // TEI <sequence preserveOrder="false"> is an interleave.
+    const type = node.localName === 'alternate'
+      ? 'choice'
+      : node.getAttribute('preserveOrder') === 'false' ? 'interleave' : 'sequence';
+    return { type, items, minOccurs: 1, maxOccurs: 1 };
+  };
+
+  const particles = Array.from(content.children);
+  if (particles.some((p) => p.namespaceURI !== TEI_NS)) unsupported = true;
+  if (particles.length === 1 && particles[0].localName === 'empty' && particles[0].namespaceURI === TEI_NS) {
+    return { model: { type: 'empty', minOccurs: 1, maxOccurs: 1 }, children: [], open: false };
+  }
+
+  const model = toModel(content);
+  if (unsupported) return { model: undefined, children, open: true };
+  return { model, children, open };
+}
+
@@ -0,0 +1,272 @@
+/**
+ * xml:id uniqueness + cross-reference integrity.
+ *
+ * TEI editions hang together on `@xml:id` and the pointers that target it
+ * (`@corresp`, `@ref`, `@target`, `@who`, ...). Schema validation can't see
+ * those links, so this pass runs alongside it:
+ *
+ *   - a second `xml:id="x"` in the same document         → error
+ *   - `#x` with no `xml:id="x"` in the document           → warning
+ *   - `other.xml#x` (workspace open) where other.xml is
+ *     missing from the workspace or has no `xml:id="x"`  → warning
+ *
+ * Only XML files are checked across files: the workspace index holds
+ * nothing else, and `@facs="page1.jpg#xywh=…"` points at an image.
+ *
+ * Pure text scan over the tag tokenizer (no DOM), so it is cheap enough to
+ * run on every lint pass. Absolute URIs (`https:`, `viaf:`, prefixDef
+ * shorthands) are never resolved — they point outside the workspace.
+ */
+import type { ValidationError } from '../types/schema';
+import { tokenizeXmlTags } from './xmlTokenizer';
+
+/** Workspace-relative file path → xml:ids declared in that file. */
+export type WorkspaceIdIndex = Map<string, ReadonlySet<string>>;
+
+/** An element carrying an xml:id, as offered by pointer completion. */
+export interface IdTarget {
+  id: string;
+  /** Name of the element the id is on. */
+  element: string;
+  /** Start of the element's text content, whitespace collapsed. */
+  preview: string;
+}
+
+/** Authority file path (personography, placeography, …) → its id targets. */
+export type AuthorityIndex = Map<string, IdTarget[]>;
+
+/** Where the validated document sits, for resolving `file.xml#id` pointers. */
+export interface ReferenceContext {
+  /** Workspace-relative path of the validated document. */
+  filePath: string;
+  workspaceIds: WorkspaceIdIndex;
+}
+
+// TEI attributes whose values are (lists of) pointers to xml:ids.
+const POINTER_ATTRIBUTES = new Set([
+  'ana', 'copyOf', 'corresp', 'decls', 'edRef', 'exclude', 'facs', 'hand', 'inst',
+  'next', 'prev', 'ref', 'rendition', 'resp', 'sameAs', 'scribeRef', 'scriptRef',
+  'select', 'source', 'spanTo', 'synch', 'target', 'who', 'wit',
+]);
+
+/** Whether `name` is a TEI pointer attribute (teidata.pointer values). */
+export function isPointerAttribute(name: string): boolean {
+  return POINTER_ATTRIBUTES.has(name);
+}
+
+const ATTR_REGEX = /([a-zA-Z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+interface AttributeOccurrence {
+  name: string;
+  value: string;
+  /** 0-based offset of the value's first character in the document. */
+  valueOffset: number;
+}
+
+function* scanAttributes(xml: string): Generator<AttributeOccurrence> {
+  for (const token of tokenizeXmlTags(xml)) {
+    if (token.kind !== 'open' && token.kind !== 'self-close') continue;
+    const raw = xml.slice(token.offset, token.offset + token.length);
+    const attrStart = 1 + token.name.length;
+    ATTR_REGEX.lastIndex = attrStart;
+    let m: RegExpExecArray | null;
+    while ((m = ATTR_REGEX.exec(raw)) !== null) {
+      const value = m[2] ?? m[3] ?? '';
+      const quote = m[0].length - value.length - 1;
+      yield { name: m[1], value, valueOffset: token.offset + m.index + quote };
+    }
+  }
+}
+
+/** Every xml:id declared in `xml` (duplicates collapse). */
+export function collectXmlIds(xml: string): Set<string> {
+  const ids = new Set<string>();
+  for (const attr of scanAttributes(xml)) {
+    if (attr.name === 'xml:id' && attr.value) ids.add(attr.value);
+  }
+  return ids;
+}
+
+const PREVIEW_LENGTH = 60;
+// Enough source text to fill a preview even through a run of markup.
+const PREVIEW_SOURCE_LENGTH = 600;
+const XML_ID_REGEX = /\sxml:id\s*=\s*(?:"([^"]*)"|'([^']*)')/;
+
+/**
+ * Every element with an xml:id in `xml`, in document order, with a short
+ * preview of its text (`<person xml:id="shakespeare"><persName>William
+ * Shakespeare</persName>…` → "William Shakespeare …").
+ */
+export function collectIdTargets(xml: string): IdTarget[] {
+  const targets: IdTarget[] = [];
+  const open: { name: string; target: IdTarget | null; contentStart: number }[] = [];
+  const finish = (target: IdTarget, contentStart: number, contentEnd: number) => {
+    const text = xml
+      .slice(contentStart, Math.min(contentEnd, contentStart + PREVIEW_SOURCE_LENGTH))
+      .replace(/<[^>]*>?/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    target.preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+  };
+
+  for (const token of tokenizeXmlTags(xml)) {
+    if (token.kind === 'close') {
+      // Pop to the matching start tag; unclosed children end with it.
+      const at = open.map((f) => f.name).lastIndexOf(token.name);
+      if (at === -1) continue;
+      for (const frame of open.splice(at)) {
+        if (frame.target) finish(frame.target, frame.contentStart, token.offset);
+      }
+    } else if (token.kind === 'open' || token.kind === 'self-close') {
+      const m = XML_ID_REGEX.exec(` ${token.attributesText}`);
+      const id = m ? m[1] ?? m[2] : '';
+      const target = id ? { id, element: token.name, preview: '' } : null;
+      if (target) targets.push(target);
+      if (token.kind === 'open') open.push({ name: token.name, target, contentStart: token.offset + token.length });
+    }
+  }
+  for (const frame of open) {
+    if (frame.target) finish(frame.target, frame.contentStart, xml.length);
+  }
+  return targets;
+}
+
+/**
+ * Resolve a relative reference against the referring file's workspace
+ * path (`texts/a.xml` + `../persons.xml` → `persons.xml`). Returns null
+ * when the reference climbs above the workspace root.
+ */
+export function resolveWorkspacePath(fromPath: string, href: string): string | null {
+  const segments = href.startsWith('/') ? [] : fromPath.split('/').slice(0, -1);
+  for (const segment of href.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(decodeURIComponentSafe(segment));
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * `to` relative to the folder of `from` (both workspace paths) — the
+ * inverse of resolveWorkspacePath, URI-escaped for an attribute value.
+ */
+export function relativeWorkspacePath(from: string, to: string): string {
+  const fromDirs = from.split('/').slice(0, -1);
+  const toParts = to.split('/');
+  let common = 0;
+  while (common < fromDirs.length && common < toParts.length - 1 && fromDirs[common] === toParts[common]) common++;
+  const up = fromDirs.slice(common).map(() => '..');
+  return encodeURI([...up, ...toParts.slice(common)].join('/'));
+}
+
+function decodeURIComponentSafe(s: string): string {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+}
+
+const URI_SCHEME = /^[A-Za-z][A-Za-z\d+.-]*:/;
+// The extensions the workspace explorer lists (fileSystemAccess XML_EXTENSIONS)
+const XML_FILE = /\.(?:xml|tei|rng|odd|sch)$/i;
+
+/**
+ * Check ids and pointers in one document. `context` enables cross-file
+ * checks; without it only same-document `#id` pointers are verified.
+ */
+export function checkReferenceIntegrity(
+  xml: string,
+  context: ReferenceContext | null = null,
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const lineStarts = [0];
+  for (let i = 0; i < xml.length; i++) {
+    if (xml.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+  const position = (offset: number, length: number) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    const column = offset - lineStarts[lo] + 1;
+    return { line: lo + 1, column, endLine: lo + 1, endColumn: column + length };
+  };
+
+  const firstIdLine = new Map<string, number>();
+  const pointers: AttributeOccurrence[] = [];
+
+  for (const attr of scanAttributes(xml)) {
+    if (attr.name === 'xml:id') {
+      if (!attr.value) continue;
+      const pos = position(attr.valueOffset, attr.value.length);
+      const firstLine = firstIdLine.get(attr.value);
+      if (firstLine !== undefined) {
+        errors.push({
+          message: `Duplicate xml:id "${attr.value}" (first declared on line ${firstLine})`,
+          ...pos,
+          severity: 'error',
+        });
+      } else {
+        firstIdLine.set(attr.value, pos.line);
+      }
+    } else if (POINTER_ATTRIBUTES.has(attr.name)) {
+      pointers.push(attr);
+    }
+  }
+
+  for (const attr of pointers) {
+    const tokenRegex = /\S+/g;
+    let m: RegExpExecArray | null;
+    while ((m = tokenRegex.exec(attr.value)) !== null) {
+      const pointer = m[0];
+      const hash = pointer.indexOf('#');
+      if (hash === -1 || URI_SCHEME.test(pointer)) continue;
+
+      const fragment = decodeURIComponentSafe(pointer.slice(hash + 1));
+      if (!fragment) continue;
+      const pos = position(attr.valueOffset + m.index, pointer.length);
+
+      if (hash === 0) {
+        if (!firstIdLine.has(fragment)) {
+          errors.push({
+            message: `@${attr.name} points to "#${fragment}", but no element has xml:id="${fragment}"`,
+            ...pos,
+            severity: 'warning',
+          });
+        }
+        continue;
+      }
+
+      if (!context || !XML_FILE.test(pointer.slice(0, hash))) continue;
+      const target = resolveWorkspacePath(context.filePath, pointer.slice(0, hash));
+      // A pointer back into this file is checked against the live text, not
+      // the (possibly stale) saved copy in the index.
+      const targetIds = target === context.filePath
+        ? firstIdLine
+        : target !== null ? context.workspaceIds.get(target) : undefined;
+      if (!targetIds) {
+        errors.push({
+          message: `@${attr.name} points to "${pointer}", but ${pointer.slice(0, hash)} is not in the workspace`,
+          ...pos,
+          severity: 'warning',
+        });
+      } else if (!targetIds.has(fragment)) {
+        errors.push({
+          message: `@${attr.name} points to "${pointer}", but ${target} has no xml:id="${fragment}"`,
+          ...pos,
+          severity: 'warning',
+        });
+      }
+    }
+  }
+
+  return errors.sort((a, b) => a.line - b.line || a.column - b.column);
+}
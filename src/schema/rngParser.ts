@@ -17,6 +17,9 @@ import type { ElementSpec, AttrSpec, ContentModel, ContentItem } from '../types/
 const RNG_NS = 'http://relaxng.org/ns/structure/1.0';
 const TEI_NS = 'http://www.tei-c.org/ns/1.0';
 
+/** `kind: 'model'` name for a nameless (wildcard) <element> pattern. */
+const ANY_ELEMENT_MODEL = '*';
+
 // `visited` cuts cycles along the CURRENT path but is deleted on the way back
 // out, so a define shared by two branches is re-expanded on each — a crafted
 // grammar (Di references Di+1 twice) expands 2^depth times and freezes the tab,
@@ -181,12 +184,25 @@ function parseContentNode(
       };
     }
 
+    // Data-typed content is still character data as far as element
+    // structure is concerned (datatypes are checked separately).
     case 'text':
+    case 'data':
+    case 'value':
+    case 'list':
       return { type: 'text', minOccurs: 0, maxOccurs: Infinity };
 
     case 'empty':
       return { type: 'empty', minOccurs: 0, maxOccurs: 0 };
 
+    case 'mixed': {
+      // <mixed>p</mixed> ≡ <interleave><text/>p</interleave>
+      const inner = parseContentModel(node, defines, visited);
+      const items: ContentItem[] = [{ kind: 'text', minOccurs: 0, maxOccurs: Infinity }];
+      if (inner) items.push({ kind: 'group', content: inner, minOccurs: inner.minOccurs, maxOccurs: inner.maxOccurs });
+      return { type: 'interleave', items, minOccurs: 1, maxOccurs: 1 };
+    }
+
     case 'choice':
     case 'interleave':
     case 'group': {
@@ -270,12 +286,30 @@ function contentNodeToItem(
       if (elName) {
         return { kind: 'element', name: elName, minOccurs: 1, maxOccurs: 1 };
       }
-      return undefined;
+      // <element><anyName/>…</element> — a wildcard the grammar can't name.
+      return { kind: 'model', name: ANY_ELEMENT_MODEL, minOccurs: 1, maxOccurs: 1 };
     }
 
     case 'text':
+    case 'data':
+    case 'value':
+    case 'list':
       return { kind: 'text', minOccurs: 0, maxOccurs: Infinity };
 
+    // Dropping these would turn <choice><empty/><ref/></choice> into a
+    // mandatory ref, or lose the text of a <mixed> — both make a grammar
+    // stricter than the schema.
+    case 'empty':
+      return { kind: 'group', content: { type: 'empty', minOccurs: 0, maxOccurs: 0 }, minOccurs: 0, maxOccurs: 1 };
+
+    case 'mixed': {
+      const content = parseContentNode(node, defines, visited);
+      if (content) {
+        return { kind: 'group', content, minOccurs: 1, maxOccurs: 1 };
+      }
+      return undefined;
+    }
+
     case 'ref': {
       const refName = node.getAttribute('name');
       if (refName && !visited.has(refName) && refBudgetAllows(visited)) {
@@ -363,6 +397,7 @@ function extractAttributes(
               required,
               values: extractValues(child),
               documentation: extractDocumentation(child),
+              datatype: extractDatatype(child),
             });
           }
         }
@@ -439,6 +474,32 @@ function extractValues(attrNode: Element): string[] | undefined {
   return values.length > 0 ? values : undefined;
 }
 
+/**
+ * The attribute's datatype: a TEI `teidata.*` ref (TEI-generated RNGs) or an
+ * XSD `<data type>` (hand-written ones). Undefined when the value pattern
+ * mixes several types, or wraps a non-pointer type in a `<list>` — the
+ * value checkers only understand single values (pointers split themselves).
+ */
+function extractDatatype(attrNode: Element): string | undefined {
+  const types = new Set<string>();
+  const refs = attrNode.getElementsByTagNameNS(RNG_NS, 'ref');
+  for (let i = 0; i < refs.length; i++) {
+    const name = refs[i].getAttribute('name');
+    if (name?.startsWith('teidata.')) types.add(name);
+  }
+  const data = attrNode.getElementsByTagNameNS(RNG_NS, 'data');
+  for (let i = 0; i < data.length; i++) {
+    const type = data[i].getAttribute('type');
+    if (type) types.add(type);
+  }
+  if (types.size !== 1) return undefined;
+  const [datatype] = types;
+  if (attrNode.getElementsByTagNameNS(RNG_NS, 'list').length > 0 && datatype !== 'teidata.pointer' && datatype !== 'anyURI') {
+    return undefined;
+  }
+  return datatype;
+}
+
 function extractDocumentation(node: Element): string | undefined {
   // TEI uses <a:documentation> or <desc>
   for (let i = 0; i < node.children.length; i++) {
@@ -0,0 +1,639 @@
+/**
+ * Derivative-based RELAX NG content validation.
+ *
+ * Implements the algorithm from James Clark's "An algorithm for RELAX NG
+ * validation" (Brzozowski derivatives) over the ContentModel trees that
+ * parseRng — or the P5 data, see teiStaticSchema — attaches to each
+ * ElementSpec. Each element's children are validated against its OWN
+ * compiled pattern: the derivative of the pattern with respect to every
+ * child (element name or non-whitespace text run) yields the pattern for
+ * the rest of the content, and the element is complete iff the final
+ * pattern is nullable. Ordering in sequences, interleave, nested group
+ * cardinality and choice exclusivity all fall out of the same two rules.
+ *
+ * Patterns are hash-consed (structurally identical patterns are the same
+ * object), so derivatives memoize on pattern id and a document of any size
+ * walks a small, shared state graph.
+ *
+ * Error recovery: on an unexpected child the validator searches (bounded
+ * BFS) for the shortest run of elements that would have to be inserted for
+ * the child to fit — that yields the "expected <titleStmt> before
+ * <publicationStmt>" message and lets validation continue from the state
+ * after the child. If no insertion helps, the child is reported and skipped.
+ *
+ * Attributes are not part of the patterns: xmlValidator checks them
+ * separately against AttrSpec.
+ *
+ * The same patterns drive completion (allowedChildrenAt): derive through the
+ * children before the cursor, and a candidate fits if the children after it
+ * still derive.
+ */
+import type { SchemaInfo, ElementSpec, ContentModel, ContentItem, ValidationError, AllowedChild } from '../types/schema';
+
+/** One child of an element, in document order. Whitespace-only text is not an event. */
+export type ContentEvent =
+  | { kind: 'element'; name: string; line: number; column: number }
+  | { kind: 'text'; line: number; column: number };
+
+type PatternFields =
+  | { k: 'empty'; nullable: true }
+  | { k: 'notAllowed'; nullable: false }
+  | { k: 'text'; nullable: true }
+  | { k: 'any'; nullable: true }
+  | { k: 'element'; nullable: false; name: string }
+  | { k: 'choice'; nullable: boolean; alts: Pattern[] }
+  | { k: 'group'; nullable: boolean; a: Pattern; b: Pattern }
+  | { k: 'interleave'; nullable: boolean; a: Pattern; b: Pattern }
+  | { k: 'oneOrMore'; nullable: boolean; p: Pattern };
+
+type Pattern = PatternFields & { id: number };
+
+/** Marker in a first-set for "any element" (wildcard / unresolved ref). */
+const ANY_NAME = '*';
+
+/** Counted repetitions beyond this are treated as unbounded. */
+const MAX_COUNTED_REPEAT = 16;
+
+// Recovery search bounds (per unexpected child).
+const MAX_INSERTION_DEPTH = 3;
+const MAX_INSERTION_STATES = 64;
+
+const MAX_ERRORS_PER_ELEMENT = 10;
+const MAX_EXPECTED_SHOWN = 4;
+
+// A pathological document could keep minting states; past this the tables
+// are dropped (patterns already compiled stay valid — ids never repeat).
+const MAX_INTERNED_PATTERNS = 100_000;
+
+/** Hash-consed pattern constructors plus memoized derivatives. */
+class PatternAlgebra {
+  private interned = new Map<string, Pattern>();
+  private derivMemo = new Map<number, Map<string, Pattern>>();
+  private textMemo = new Map<number, Pattern>();
+  private firstMemo = new Map<number, ReadonlySet<string>>();
+  private nextId = 0;
+
+  readonly empty = this.intern('E', { k: 'empty', nullable: true });
+  readonly notAllowed = this.intern('N', { k: 'notAllowed', nullable: false });
+  readonly text = this.intern('T', { k: 'text', nullable: true });
+  readonly any = this.intern('A', { k: 'any', nullable: true });
+
+  private intern(key: string, fields: PatternFields): Pattern {
+    const existing = this.interned.get(key);
+    if (existing) return existing;
+    const p = { ...fields, id: this.nextId++ } as Pattern;
+    this.interned.set(key, p);
+    return p;
+  }
+
+  trimIfNeeded(): void {
+    if (this.interned.size <= MAX_INTERNED_PATTERNS) return;
+    this.interned.clear();
+    this.derivMemo.clear();
+    this.textMemo.clear();
+    this.firstMemo.clear();
+    for (const base of [this.empty, this.notAllowed, this.text, this.any]) {
+      this.interned.set(base.k[0].toUpperCase(), base);
+    }
+  }
+
+  element(name: string): Pattern {
+    return this.intern(`<${name}`, { k: 'element', nullable: false, name });
+  }
+
+  choice(ps: Pattern[]): Pattern {
+    const alts = new Map<number, Pattern>();
+    for (const p of ps) {
+      if (p.k === 'any') return this.any;
+      if (p.k === 'notAllowed') continue;
+      for (const alt of p.k === 'choice' ? p.alts : [p]) alts.set(alt.id, alt);
+    }
+    if (alts.size === 0) return this.notAllowed;
+    if (alts.size === 1) return alts.values().next().value as Pattern;
+    const sorted = [...alts.values()].sort((x, y) => x.id - y.id);
+    return this.intern(`|${sorted.map((p) => p.id).join(',')}`, {
+      k: 'choice',
+      nullable: sorted.some((p) => p.nullable),
+      alts: sorted,
+    });
+  }
+
+  group(a: Pattern, b: Pattern): Pattern {
+    if (a.k === 'notAllowed' || b.k === 'notAllowed') return this.notAllowed;
+    if (a.k === 'empty') return b;
+    if (b.k === 'empty') return a;
+    return this.intern(`,${a.id},${b.id}`, { k: 'group', nullable: a.nullable && b.nullable, a, b });
+  }
+
+  interleave(a: Pattern, b: Pattern): Pattern {
+    if (a.k === 'notAllowed' || b.k === 'notAllowed') return this.notAllowed;
+    if (a.k === 'empty') return b;
+    if (b.k === 'empty') return a;
+    // Interleave is commutative — order operands so both spellings share an id.
+    const [x, y] = a.id <= b.id ? [a, b] : [b, a];
+    return this.intern(`&${x.id},${y.id}`, { k: 'interleave', nullable: x.nullable && y.nullable, a: x, b: y });
+  }
+
+  oneOrMore(p: Pattern): Pattern {
+    switch (p.k) {
+      case 'notAllowed':
+      case 'empty':
+      case 'text':
+      case 'any':
+      case 'oneOrMore':
+        return p;
+      default:
+        return this.intern(`+${p.id}`, { k: 'oneOrMore', nullable: p.nullable, p });
+    }
+  }
+
+  /** p{min,max} expressed with group / choice / oneOrMore. */
+  repeat(p: Pattern, min: number, max: number): Pattern {
+    if (max === 0) return this.empty;
+    const lo = Math.min(min, MAX_COUNTED_REPEAT);
+    const unbounded = max === Infinity || max > MAX_COUNTED_REPEAT;
+    const optional = this.choice([p, this.empty]);
+
+    let result: Pattern = this.empty;
+    if (unbounded) {
+      for (let i = 1; i < lo; i++) result = this.group(result, p);
+      const tail = lo === 0 ? this.choice([this.oneOrMore(p), this.empty]) : this.oneOrMore(p);
+      return this.group(result, tail);
+    }
+    for (let i = 0; i < lo; i++) result = this.group(result, p);
+    for (let i = lo; i < max; i++) result = this.group(result, optional);
+    return result;
+  }
+
+  /** Derivative with respect to a child element named `name`. */
+  deriv(p: Pattern, name: string): Pattern {
+    let memo = this.derivMemo.get(p.id);
+    const cached = memo?.get(name);
+    if (cached) return cached;
+
+    let result: Pattern;
+    switch (p.k) {
+      case 'element':
+        result = p.name === name ? this.empty : this.notAllowed;
+        break;
+      case 'any':
+        result = this.any;
+        break;
+      case 'choice':
+        result = this.choice(p.alts.map((alt) => this.deriv(alt, name)));
+        break;
+      case 'group': {
+        const first = this.group(this.deriv(p.a, name), p.b);
+        result = p.a.nullable ? this.choice([first, this.deriv(p.b, name)]) : first;
+        break;
+      }
+      case 'interleave':
+        result = this.choice([
+          this.interleave(this.deriv(p.a, name), p.b),
+          this.interleave(p.a, this.deriv(p.b, name)),
+        ]);
+        break;
+      case 'oneOrMore':
+        result = this.group(this.deriv(p.p, name), this.choice([p, this.empty]));
+        break;
+      default:
+        result = this.notAllowed;
+    }
+
+    if (!memo) {
+      memo = new Map();
+      this.derivMemo.set(p.id, memo);
+    }
+    memo.set(name, result);
+    return result;
+  }
+
+  /** Derivative with respect to a (non-whitespace) text run. */
+  textDeriv(p: Pattern): Pattern {
+    const cached = this.textMemo.get(p.id);
+    if (cached) return cached;
+
+    let result: Pattern;
+    switch (p.k) {
+      case 'text':
+      case 'any':
+        result = p;
+        break;
+      case 'choice':
+        result = this.choice(p.alts.map((alt) => this.textDeriv(alt)));
+        break;
+      case 'group': {
+        const first = this.group(this.textDeriv(p.a), p.b);
+        result = p.a.nullable ? this.choice([first, this.textDeriv(p.b)]) : first;
+        break;
+      }
+      case 'interleave':
+        result = this.choice([
+          this.interleave(this.textDeriv(p.a), p.b),
+          this.interleave(p.a, this.textDeriv(p.b)),
+        ]);
+        break;
+      case 'oneOrMore':
+        result = this.group(this.textDeriv(p.p), this.choice([p, this.empty]));
+        break;
+      default:
+        result = this.notAllowed;
+    }
+
+    this.textMemo.set(p.id, result);
+    return result;
+  }
+
+  /** Element names that may come next (ANY_NAME when a wildcard is open). */
+  first(p: Pattern): ReadonlySet<string> {
+    const cached = this.firstMemo.get(p.id);
+    if (cached) return cached;
+
+    const names = new Set<string>();
+    const add = (from: ReadonlySet<string>) => from.forEach((n) => names.add(n));
+    switch (p.k) {
+      case 'element':
+        names.add(p.name);
+        break;
+      case 'any':
+        names.add(ANY_NAME);
+        break;
+      case 'choice':
+        p.alts.forEach((alt) => add(this.first(alt)));
+        break;
+      case 'group':
+        add(this.first(p.a));
+        if (p.a.nullable) add(this.first(p.b));
+        break;
+      case 'interleave':
+        add(this.first(p.a));
+        add(this.first(p.b));
+        break;
+      case 'oneOrMore':
+        add(this.first(p.p));
+        break;
+    }
+
+    this.firstMemo.set(p.id, names);
+    return names;
+  }
+}
+
+/** Per-element compiled patterns for one SchemaInfo. */
+class CompiledGrammar {
+  readonly algebra = new PatternAlgebra();
+  private patterns = new Map<string, { pattern: Pattern; names: ReadonlySet<string> } | null>();
+
+  constructor(private schema: SchemaInfo) {}
+
+  /**
+   * The element's content pattern plus every element name it mentions, or
+   * null when the element is unchecked: no content model, or a model that
+   * does not cover the element's own children list (an incomplete model
+   * would report valid children as errors — the children-list check in
+   * xmlValidator still runs either way).
+   */
+  entryFor(name: string): { pattern: Pattern; names: ReadonlySet<string> } | null {
+    if (this.patterns.has(name)) return this.patterns.get(name) ?? null;
+
+    const spec = this.schema.elementMap.get(name);
+    let entry: { pattern: Pattern; names: ReadonlySet<string> } | null = null;
+    if (spec?.contentModel) {
+      const pattern = this.compileModel(spec.contentModel);
+      const names = new Set<string>();
+      collectNames(pattern, names, new Set());
+      if (covers(spec, names)) entry = { pattern, names };
+    }
+    this.patterns.set(name, entry);
+    return entry;
+  }
+
+  private compileModel(model: ContentModel): Pattern {
+    const a = this.algebra;
+    const items = (model.items ?? []).map((item) => this.compileItem(item));
+    let base: Pattern;
+    switch (model.type) {
+      case 'empty':
+        return a.empty;
+      case 'text':
+        return a.text;
+      case 'element':
+        base = items[0] ?? a.empty;
+        break;
+      case 'choice':
+        // Every alternative dropped by the parser means we can't tell what
+        // is allowed — stay permissive rather than reject everything.
+        base = items.length > 0 ? a.choice(items) : a.any;
+        break;
+      case 'interleave':
+        base = items.reduce((acc, p) => a.interleave(acc, p), a.empty);
+        break;
+      default: // sequence | group
+        base = items.reduce((acc, p) => a.group(acc, p), a.empty);
+    }
+    return a.repeat(base, model.minOccurs, model.maxOccurs);
+  }
+
+  private compileItem(item: ContentItem): Pattern {
+    const a = this.algebra;
+    switch (item.kind) {
+      case 'text':
+        return a.text;
+      case 'model':
+        // Unresolved ref / wildcard element — anything goes here.
+        return a.any;
+      case 'element':
+        return item.name ? a.repeat(a.element(item.name), item.minOccurs, item.maxOccurs) : a.any;
+      case 'group':
+        return item.content ? a.repeat(this.compileModel(item.content), item.minOccurs, item.maxOccurs) : a.empty;
+    }
+  }
+}
+
+function collectNames(p: Pattern, names: Set<string>, seen: Set<number>): void {
+  if (seen.has(p.id)) return;
+  seen.add(p.id);
+  switch (p.k) {
+    case 'element':
+      names.add(p.name);
+      break;
+    case 'any':
+      names.add(ANY_NAME);
+      break;
+    case 'choice':
+      p.alts.forEach((alt) => collectNames(alt, names, seen));
+      break;
+    case 'group':
+    case 'interleave':
+      collectNames(p.a, names, seen);
+      collectNames(p.b, names, seen);
+      break;
+    case 'oneOrMore':
+      collectNames(p.p, names, seen);
+      break;
+  }
+}
+
+function covers(spec: ElementSpec, names: ReadonlySet<string>): boolean {
+  if (names.has(ANY_NAME)) return true;
+  return (spec.children ?? []).every((child) => names.has(child));
+}
+
+const grammars = new WeakMap<SchemaInfo, CompiledGrammar>();
+
+function grammarFor(schema: SchemaInfo): CompiledGrammar {
+  let grammar = grammars.get(schema);
+  if (!grammar) {
+    grammar = new CompiledGrammar(schema);
+    grammars.set(schema, grammar);
+  }
+  return grammar;
+}
+
+/** "<a>, <b> or </parent>" — empty when a wildcard makes the list meaningless. */
+function describeExpected(names: ReadonlySet<string>, parentName: string, allowEnd: boolean): string {
+  if (names.has(ANY_NAME)) return '';
+  const sorted = [...names].sort();
+  const shown = sorted.slice(0, MAX_EXPECTED_SHOWN).map((n) => `<${n}>`);
+  if (sorted.length > MAX_EXPECTED_SHOWN) shown.push(`… (${sorted.length - MAX_EXPECTED_SHOWN} more)`);
+  if (allowEnd) shown.push(`</${parentName}>`);
+  if (shown.length === 0) return '';
+  if (shown.length === 1) return shown[0];
+  return `${shown.slice(0, -1).join(', ')} or ${shown[shown.length - 1]}`;
+}
+
+/**
+ * Shortest run of elements (bounded) whose insertion lets `name` match.
+ * Returns the names that would fit at the first missing position and the
+ * pattern after `name`, or null when no insertion helps.
+ */
+function findInsertion(
+  a: PatternAlgebra,
+  state: Pattern,
+  name: string,
+): { missing: string[]; next: Pattern } | null {
+  let frontier: { p: Pattern; path: string[] }[] = [{ p: state, path: [] }];
+  const seen = new Set<number>([state.id]);
+
+  for (let depth = 0; depth < MAX_INSERTION_DEPTH; depth++) {
+    const successes: { path: string[]; after: Pattern }[] = [];
+    const nextFrontier: { p: Pattern; path: string[] }[] = [];
+    for (const { p, path } of frontier) {
+      for (const candidate of a.first(p)) {
+        if (candidate === ANY_NAME) continue;
+        const q = a.deriv(p, candidate);
+        if (q.k === 'notAllowed') continue;
+        const after = a.deriv(q, name);
+        if (after.k !== 'notAllowed') {
+          successes.push({ path: [...path, candidate], after });
+        } else if (!seen.has(q.id) && seen.size < MAX_INSERTION_STATES) {
+          seen.add(q.id);
+          nextFrontier.push({ p: q, path: [...path, candidate] });
+        }
+      }
+    }
+    if (successes.length > 0) {
+      // Alternatives at the FIRST missing position ("<a> or <b>"); the rest
+      // of a longer path is implied by the schema.
+      const missing = [...new Set(successes.map((s) => s.path[0]))];
+      return { missing, next: a.choice(successes.map((s) => s.after)) };
+    }
+    frontier = nextFrontier;
+  }
+  return null;
+}
+
+/**
+ * Validate one element's children against its compiled content pattern.
+ * Returns [] when the element has no (usable) content model.
+ */
+export function validateElementContent(
+  schema: SchemaInfo,
+  element: { name: string; line: number; column: number },
+  events: ContentEvent[],
+): ValidationError[] {
+  const grammar = grammarFor(schema);
+  const entry = grammar.entryFor(element.name);
+  if (!entry) return [];
+
+  const a = grammar.algebra;
+  a.trimIfNeeded();
+  const errors: ValidationError[] = [];
+  let state = entry.pattern;
+
+  for (const event of events) {
+    if (errors.length >= MAX_ERRORS_PER_ELEMENT) break;
+
+    if (event.kind === 'text') {
+      const next = a.textDeriv(state);
+      if (next.k === 'notAllowed') {
+        errors.push({
+          message: `Text is not allowed here in <${element.name}>`,
+          line: event.line,
+          column: event.column,
+          severity: 'error',
+        });
+      } else {
+        state = next;
+      }
+      continue;
+    }
+
+    // Names the model never mentions are left to the children-list /
+    // unknown-element checks — reporting them twice is just noise.
+    if (!entry.names.has(event.name) && !entry.names.has(ANY_NAME)) continue;
+
+    const next = a.deriv(state, event.name);
+    if (next.k !== 'notAllowed') {
+      state = next;
+      continue;
+    }
+
+    const insertion = findInsertion(a, state, event.name);
+    if (insertion) {
+      const missing = insertion.missing.map((n) => `<${n}>`).join(' or ');
+      errors.push({
+        message: `Expected ${missing} before <${event.name}> in <${element.name}>`,
+        line: event.line,
+        column: event.column,
+        // Missing content is the normal state of a half-typed element.
+        severity: 'warning',
+      });
+      state = insertion.next;
+      continue;
+    }
+
+    const expected = describeExpected(a.first(state), element.name, state.nullable);
+    errors.push({
+      message: `<${event.name}> is not allowed at this position in <${element.name}>${expected ? `; expected ${expected}` : ''}`,
+      line: event.line,
+      column: event.column,
+      severity: 'error',
+    });
+    // Skip the offending child and keep validating the rest.
+  }
+
+  if (!state.nullable && errors.length < MAX_ERRORS_PER_ELEMENT) {
+    const expected = describeExpected(a.first(state), element.name, false);
+    errors.push({
+      message: `<${element.name}> is incomplete${expected ? `: expected ${expected}` : ''}`,
+      line: element.line,
+      column: element.column,
+      severity: 'warning',
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Elements that may be inserted at one position inside `parentName`, given
+ * the element children already before and after it.
+ *
+ * A candidate is offered only if the content stays valid with it in place
+ * (so a sequence's order holds and an exhausted maxOccurs drops it);
+ * `required` marks the elements that start the shortest run the content
+ * still needs to be complete — the next expected element. `remaining`
+ * counts how many could go here in a row (-1: unbounded). Content after the
+ * position that is invalid anyway is ignored rather than ruling everything
+ * out. Returns null when the element has no usable content model or a
+ * wildcard makes any element acceptable.
+ */
+export function allowedChildrenAt(
+  schema: SchemaInfo,
+  parentName: string,
+  before: string[],
+  after: string[],
+): AllowedChild[] | null {
+  const grammar = grammarFor(schema);
+  const entry = grammar.entryFor(parentName);
+  if (!entry || entry.names.has(ANY_NAME)) return null;
+
+  const a = grammar.algebra;
+  a.trimIfNeeded();
+  // Like validateElementContent: unmentioned names and misplaced children
+  // are somebody else's diagnostics, not a reason to offer nothing.
+  let state = entry.pattern;
+  for (const name of before) {
+    if (!entry.names.has(name)) continue;
+    const next = a.deriv(state, name);
+    if (next.k !== 'notAllowed') state = next;
+  }
+
+  let rest = after.filter((name) => entry.names.has(name));
+  const withRest = (p: Pattern) =>
+    rest.reduce((q, name) => (q.k === 'notAllowed' ? q : a.deriv(q, name)), p);
+  if (withRest(state).k === 'notAllowed' && !firstFits(a, state, withRest)) rest = [];
+
+  const fits = (p: Pattern) => withRest(p).k !== 'notAllowed';
+  const complete = (p: Pattern) => withRest(p).nullable;
+  const expected = complete(state) ? new Set<string>() : shortestCompletion(a, state, complete);
+
+  const allowed: AllowedChild[] = [];
+  for (const name of a.first(state)) {
+    let p = a.deriv(state, name);
+    if (!fits(p)) continue;
+    let remaining = 1;
+    for (; remaining < MAX_COUNTED_REPEAT; remaining++) {
+      const q = a.deriv(p, name);
+      if (q.k === 'notAllowed' || !fits(q)) break;
+      p = q;
+    }
+    allowed.push({
+      name,
+      required: expected.has(name),
+      remaining: remaining >= MAX_COUNTED_REPEAT ? -1 : remaining,
+    });
+  }
+  return allowed;
+}
+
+function firstFits(a: PatternAlgebra, state: Pattern, withRest: (p: Pattern) => Pattern): boolean {
+  for (const name of a.first(state)) {
+    if (withRest(a.deriv(state, name)).k !== 'notAllowed') return true;
+  }
+  return false;
+}
+
+/**
+ * First names of the shortest element runs (bounded, like findInsertion)
+ * that take `state` to one where `complete` holds.
+ */
+function shortestCompletion(
+  a: PatternAlgebra,
+  state: Pattern,
+  complete: (p: Pattern) => boolean,
+): Set<string> {
+  let frontier: { p: Pattern; head: string }[] = [];
+  // Per first name, so alternatives that converge each keep their credit.
+  const seen = new Set<string>();
+  const found = new Set<string>();
+
+  for (const name of a.first(state)) {
+    const q = a.deriv(state, name);
+    if (q.k === 'notAllowed') continue;
+    if (complete(q)) found.add(name);
+    else {
+      seen.add(`${q.id}:${name}`);
+      frontier.push({ p: q, head: name });
+    }
+  }
+
+  for (let depth = 1; found.size === 0 && depth < MAX_INSERTION_DEPTH; depth++) {
+    const nextFrontier: { p: Pattern; head: string }[] = [];
+    for (const { p, head } of frontier) {
+      for (const name of a.first(p)) {
+        const q = a.deriv(p, name);
+        if (q.k === 'notAllowed') continue;
+        const key = `${q.id}:${head}`;
+        if (complete(q)) found.add(head);
+        else if (!seen.has(key) && seen.size < MAX_INSERTION_STATES) {
+          seen.add(key);
+          nextFrontier.push({ p: q, head });
+        }
+      }
+    }
+    frontier = nextFrontier;
+  }
+  return found;
+}
@@ -6,12 +6,30 @@
  * added dependencies, and nothing the production CSP (`script-src 'self'`)
  * objects to.
  *
- * Supported subset (covers typical TEI project rules):
+ * Supported subset (covers typical TEI project rules, including the .sch
+ * generated from ODD constraintSpecs):
  *   <ns prefix uri>, <pattern>, <rule context>, <assert test>, <report test>,
- *   @role severity mapping, <name/> substitution inside messages,
- *   first-matching-rule-wins per pattern (ISO semantics).
- * Not supported (documented): phases, abstract patterns/rules, <let>,
- *   <value-of>, key(), document().
+ *   @role severity mapping, first-matching-rule-wins per pattern (ISO
+ *   semantics), <name/> and <name path>, <value-of select> inside messages,
+ *   <let> at schema / phase / pattern / rule level, <phase>/<active> with
+ *   @defaultPhase, abstract patterns (<pattern is-a> + <param>) and abstract
+ *   rules (<extends rule>), and Schematron Quick Fixes — <sqf:fix>es
+ *   referenced from an assert/report's @sqf:fix (see schematronQuickFix.ts).
+ * Not supported (documented): <include>, <diagnostics>, <let> without
+ *   @value, key(), document().
+ *
+ * Documents are read with the XML DOM of xmlDom.ts and evaluated with its
+ * XPath engine (xpathEngine.ts) on the main thread and in the validation
+ * worker alike, because the DOM's XPath API cannot bind variables.
+ *
+ * Variables: each <let> is evaluated where ISO scopes it (schema/phase/
+ * pattern lets once per document at the root, rule lets per context node)
+ * and bound by value — a node-set stays the nodes — for every later
+ * expression, so `$ids` is a lookup wherever it is used.
+ *
+ * Abstract patterns are instantiated at parse time: ISO <param>s are macro
+ * substitutions, so `$name` is replaced textually in every attribute of
+ * the abstract pattern's copy before it is parsed like any other pattern.
  *
  * Namespace handling: expressions are evaluated with a resolver built from
  * the schema's own <ns> declarations (plus tei/xml conveniences). If the
@@ -19,15 +37,25 @@
  * convertToLocalNameXPath-style local-name() comparisons so that quick,
  * prefix-less rules still match default-namespaced TEI documents.
  *
- * NOTE (testing): jsdom's XPath engine cannot evaluate prefixed name tests
- * or local-name() predicates, so full evaluation against TEI-namespaced
- * documents is verified in a real browser; unit tests exercise parsing,
- * line attribution, and evaluation over no-namespace documents.
+ * The .sch itself is still read with the browser's DOMParser (parseSchematron
+ * runs on the main thread only).
  */
 
-import type { ValidationError } from '../types/schema';
-import { createElementLineResolver } from './xmlTokenizer';
+import type { QuickFix, ValidationError } from '../types/schema';
+import { createElementLineResolver, createNodeSourceMap, type NodeSourceMap } from './xmlTokenizer';
+import {
+  DIRECTIVE,
+  SQF_NS,
+  escapeAttribute,
+  escapeText,
+  resolveQuickFix,
+  type QuickFixEnvironment,
+  type SchematronFix,
+  type SqfOperation,
+} from './schematronQuickFix';
 import { rewriteUnprefixedNamesToLocalName, splitTopLevelUnion } from './xpathLocalName';
+import { parseXmlDocument, type XmlNode } from './xmlDom';
+import { evaluateXPath, evaluateXPathValue, type XPathValue } from './xpathEngine';
 
 /** One assert/report inside a rule. */
 export interface SchematronTest {
@@ -38,18 +66,42 @@ export interface SchematronTest {
   /** 'assert' fires when the test is FALSE; 'report' fires when TRUE. */
   kind: 'assert' | 'report';
   severity: 'error' | 'warning';
+  /** Quick fixes named in @sqf:fix, offered when the test fires. */
+  fixes: SchematronFix[];
+}
+
+/** A <let>: `$name` bound to the value of the XPath `value`. */
+export interface SchematronLet {
+  name: string;
+  value: string;
 }
 
 export interface SchematronRule {
   context: string;
+  /** Evaluated per matched node, before the tests. */
+  lets: SchematronLet[];
   tests: SchematronTest[];
 }
 
 export interface SchematronPattern {
+  /** @id — what <phase>/<active pattern> refers to. */
+  id: string | null;
+  /** Evaluated once per document, at the root. */
+  lets: SchematronLet[];
   /** Rules in document order — the FIRST rule whose context matches a node wins. */
   rules: SchematronRule[];
 }
 
+export interface SchematronPhase {
+  id: string;
+  /** Ids of the patterns the phase activates. */
+  patterns: string[];
+  lets: SchematronLet[];
+}
+
+/** Phase id that runs every pattern (ISO). */
+export const ALL_PHASES = '#ALL';
+
 export interface SchematronSchema {
   /** Display name (usually the uploaded file name). */
   name: string;
@@ -57,7 +109,17 @@ export interface SchematronSchema {
   title: string | null;
   /** prefix → namespace URI from <ns> declarations. */
   nsMap: Record<string, string>;
+  /** Schema-level <let>s, evaluated once per document at the root. */
+  lets: SchematronLet[];
   patterns: SchematronPattern[];
+  phases: SchematronPhase[];
+  /** @defaultPhase, if any. */
+  defaultPhase: string | null;
+  /**
+   * Phase chosen in the UI; null means @defaultPhase (or every pattern when
+   * there is none).
+   */
+  activePhase: string | null;
   /** Total assert+report count (for UI display). */
   testCount: number;
 }
@@ -118,54 +180,307 @@ export function parseSchematron(schXml: string, name: string): SchematronSchema
   const titleEl = childrenOf(root, 'title')[0];
   const title = titleEl?.textContent?.trim() || null;
 
+  // Abstract rules may be <extend>ed from any rule; abstract patterns are
+  // only templates for <pattern is-a>.
+  const abstractRules = new Map<string, Element>();
+  for (const ruleEl of Array.from(root.getElementsByTagNameNS(root.namespaceURI, 'rule'))) {
+    const id = ruleEl.getAttribute('id');
+    if (ruleEl.getAttribute('abstract') === 'true' && id) abstractRules.set(id, ruleEl);
+  }
+  const abstractPatterns = new Map<string, Element>();
+  for (const patternEl of childrenOf(root, 'pattern')) {
+    const id = patternEl.getAttribute('id');
+    if (patternEl.getAttribute('abstract') === 'true' && id) abstractPatterns.set(id, patternEl);
+  }
+
+  // Fixes in a top-level <sqf:fixes> are visible to every rule; a rule's
+  // own <sqf:fix> children only to that rule (and rules extending it).
+  const globalFixes = collectFixes(root, new Map());
+
   const patterns: SchematronPattern[] = [];
   let testCount = 0;
 
   for (const patternEl of childrenOf(root, 'pattern')) {
-    if (patternEl.getAttribute('abstract') === 'true') continue; // unsupported
-    const rules: SchematronRule[] = [];
+    if (patternEl.getAttribute('abstract') === 'true') continue; // template only
+    const isA = patternEl.getAttribute('is-a');
+    let source = patternEl;
+    if (isA) {
+      const template = abstractPatterns.get(isA);
+      if (!template) throw new Error(`<pattern is-a="${isA}"> refers to no abstract pattern`);
+      source = instantiateAbstractPattern(template, patternEl);
+    }
 
-    for (const ruleEl of childrenOf(patternEl, 'rule')) {
-      if (ruleEl.getAttribute('abstract') === 'true') continue; // unsupported
+    const rules: SchematronRule[] = [];
+    for (const ruleEl of childrenOf(source, 'rule')) {
+      if (ruleEl.getAttribute('abstract') === 'true') continue; // only via <extends>
       const context = ruleEl.getAttribute('context');
       if (!context) continue;
 
+      const lets: SchematronLet[] = [];
       const tests: SchematronTest[] = [];
-      for (const el of Array.from(ruleEl.children)) {
-        const kind = isSch(el, 'assert') ? 'assert' : isSch(el, 'report') ? 'report' : null;
-        if (!kind) continue;
-        const test = el.getAttribute('test');
-        if (!test) continue;
-        tests.push({
-          test,
-          message: extractMessageTemplate(el),
-          kind,
-          severity: mapRoleToSeverity(el.getAttribute('role'), kind),
-        });
-      }
+      collectRuleBody(ruleEl, abstractRules, globalFixes, lets, tests, new Set());
 
       if (tests.length > 0) {
-        rules.push({ context, tests });
+        rules.push({ context, lets, tests });
         testCount += tests.length;
       }
     }
 
-    if (rules.length > 0) patterns.push({ rules });
+    if (rules.length > 0) {
+      patterns.push({ id: patternEl.getAttribute('id'), lets: parseLets(source), rules });
+    }
   }
 
   if (testCount === 0) {
     throw new Error('No <rule>/<assert> found — is this a Schematron file?');
   }
 
-  return { name, title, nsMap, patterns, testCount };
+  const phases: SchematronPhase[] = [];
+  for (const phaseEl of childrenOf(root, 'phase')) {
+    const id = phaseEl.getAttribute('id');
+    if (!id) continue;
+    phases.push({
+      id,
+      patterns: childrenOf(phaseEl, 'active').map((a) => a.getAttribute('pattern') ?? '').filter(Boolean),
+      lets: parseLets(phaseEl),
+    });
+  }
+
+  return {
+    name,
+    title,
+    nsMap,
+    lets: parseLets(root),
+    patterns,
+    phases,
+    defaultPhase: root.getAttribute('defaultPhase'),
+    activePhase: null,
+    testCount,
+  };
+}
+
+function parseLets(parent: Element): SchematronLet[] {
+  const lets: SchematronLet[] = [];
+  for (const letEl of childrenOf(parent, 'let')) {
+    const name = letEl.getAttribute('name');
+    const value = letEl.getAttribute('value');
+    if (name && value) lets.push({ name, value });
+  }
+  return lets;
 }
 
 /**
- * Flatten an assert/report body into a message template. `<name/>` becomes
- * the placeholder `\u0000name\u0000`, resolved to the context element's name
- * when the diagnostic fires; other child elements contribute their text.
+ * Gather a rule's <let>s and asserts/reports in document order, splicing in
+ * the bodies of <extends rule="…"/>d abstract rules. `seen` guards against
+ * rules that extend each other.
  */
-const NAME_PLACEHOLDER = '\u0000name\u0000';
+function collectRuleBody(
+  ruleEl: Element,
+  abstractRules: Map<string, Element>,
+  inheritedFixes: FixIndex,
+  lets: SchematronLet[],
+  tests: SchematronTest[],
+  seen: Set<string>,
+): void {
+  const fixes = collectFixes(ruleEl, inheritedFixes);
+  for (const el of Array.from(ruleEl.children)) {
+    if (isSch(el, 'let')) {
+      const name = el.getAttribute('name');
+      const value = el.getAttribute('value');
+      if (name && value) lets.push({ name, value });
+      continue;
+    }
+    if (isSch(el, 'extends')) {
+      const id = el.getAttribute('rule');
+      const target = id ? abstractRules.get(id) : undefined;
+      if (id && target && !seen.has(id)) {
+        collectRuleBody(target, abstractRules, fixes, lets, tests, new Set([...seen, id]));
+      }
+      continue;
+    }
+    const kind = isSch(el, 'assert') ? 'assert' : isSch(el, 'report') ? 'report' : null;
+    if (!kind) continue;
+    const test = el.getAttribute('test');
+    if (!test) continue;
+    tests.push({
+      test,
+      message: extractMessageTemplate(el),
+      kind,
+      severity: mapRoleToSeverity(el.getAttribute('role'), kind),
+      fixes: (el.getAttributeNS(SQF_NS, 'fix') ?? '')
+        .split(/\s+/)
+        .flatMap((fixId) => fixes.get(fixId) ?? []),
+    });
+  }
+}
+
+// ============================================================================
+// Quick fixes (SQF)
+// ============================================================================
+
+/** Fix id → fixes (an <sqf:group> id names all of its fixes). */
+type FixIndex = Map<string, SchematronFix[]>;
+
+const TEI_NS = 'http://www.tei-c.org/ns/1.0';
+
+function isSqf(el: Element, local: string): boolean {
+  return el.localName === local && el.namespaceURI === SQF_NS;
+}
+
+/** `inherited` plus the fixes declared among `parent`'s children. */
+function collectFixes(parent: Element, inherited: FixIndex): FixIndex {
+  let index = inherited;
+  const add = (id: string, fixes: SchematronFix[]) => {
+    if (index === inherited) index = new Map(inherited);
+    index.set(id, fixes);
+  };
+  for (const el of Array.from(parent.children)) {
+    if (isSqf(el, 'fixes')) {
+      for (const [id, fixes] of collectFixes(el, new Map())) add(id, fixes);
+    } else if (isSqf(el, 'group')) {
+      const members = Array.from(el.children)
+        .filter((c) => isSqf(c, 'fix'))
+        .map(parseFix)
+        .filter((f): f is SchematronFix => f !== null);
+      for (const fix of members) add(fix.id, [fix]);
+      const id = el.getAttribute('id');
+      if (id) add(id, members);
+    } else if (isSqf(el, 'fix')) {
+      const fix = parseFix(el);
+      if (fix) add(fix.id, [fix]);
+    }
+  }
+  return index;
+}
+
+function parseFix(el: Element): SchematronFix | null {
+  const id = el.getAttribute('id');
+  if (!id) return null;
+  let description = '';
+  const operations: SqfOperation[] = [];
+  for (const child of Array.from(el.children)) {
+    if (child.namespaceURI !== SQF_NS) continue;
+    switch (child.localName) {
+      case 'description': {
+        const titleEl = Array.from(child.children).find((c) => isSqf(c, 'title'));
+        description = (titleEl ?? child).textContent?.replace(/\s+/g, ' ').trim() ?? '';
+        break;
+      }
+      case 'add':
+      case 'delete':
+      case 'replace':
+      case 'stringReplace':
+        operations.push(parseOperation(child, child.localName));
+        break;
+      case 'user-entry':
+      case 'call-fix':
+      case 'param':
+        // Interactive and parameterised fixes need a dialog — not offered.
+        return null;
+    }
+  }
+  if (operations.length === 0) return null;
+  return { id, description: description || id, useWhen: el.getAttribute('use-when'), operations };
+}
+
+function parseOperation(el: Element, kind: SqfOperation['kind']): SqfOperation {
+  const nodeType = el.getAttribute('node-type');
+  const position = el.getAttribute('position');
+  // Indentation around literal markup is layout, not content; a bare text
+  // replacement like " " is kept as written.
+  const hasMarkup = Array.from(el.children).some((c) => !isSch(c, 'value-of'));
+  const content = (markup: boolean) => {
+    const out = fixContent(el, markup);
+    return hasMarkup ? out.trim() : out;
+  };
+  return {
+    kind,
+    match: el.getAttribute('match') || '.',
+    target: el.getAttribute('target'),
+    nodeType: nodeType === 'pi'
+      ? 'processing-instruction'
+      : nodeType === 'element' || nodeType === 'attribute' || nodeType === 'comment' || nodeType === 'processing-instruction'
+        ? nodeType
+        : null,
+    position: position === 'before' || position === 'after' || position === 'last-child' ? position : 'first-child',
+    select: el.getAttribute('select'),
+    content: content(true),
+    text: content(false),
+    regex: el.getAttribute('regex'),
+    flags: el.getAttribute('flags') ?? '',
+  };
+}
+
+/**
+ * Literal content of an operation — as markup (elements re-serialized
+ * without the .sch's namespace declarations, TEI/Schematron prefixes
+ * dropped) or as plain text. <sch:value-of select> becomes a
+ * DIRECTIVE-delimited XPath, evaluated when the fix is resolved.
+ */
+function fixContent(parent: Element, markup: boolean): string {
+  let out = '';
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      const data = (node as CharacterData).data;
+      out += markup ? escapeText(data) : data;
+    } else if (node.nodeType === Node.COMMENT_NODE) {
+      if (markup) out += `<!--${(node as Comment).data}-->`;
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      const child = node as Element;
+      if (isSch(child, 'value-of')) {
+        const select = child.getAttribute('select');
+        if (select) out += DIRECTIVE + select + DIRECTIVE;
+      } else if (!markup) {
+        out += fixContent(child, false);
+      } else {
+        const ns = child.namespaceURI;
+        const name = ns === null || ns === TEI_NS || SCH_NAMESPACES.has(ns) ? child.localName : child.tagName;
+        const attrs = Array.from(child.attributes)
+          .filter((a) => a.name !== 'xmlns' && !a.name.startsWith('xmlns:'))
+          .map((a) => ` ${a.name}="${escapeAttribute(a.value)}"`)
+          .join('');
+        const inner = fixContent(child, true);
+        out += inner ? `<${name}${attrs}>${inner}</${name}>` : `<${name}${attrs}/>`;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Copy of an abstract pattern with the instance's <param>s substituted into
+ * every attribute (`$name` → value, longest names first so `$a` does not
+ * eat `$ab`).
+ */
+function instantiateAbstractPattern(template: Element, instance: Element): Element {
+  const params = childrenOf(instance, 'param')
+    .map((p) => [p.getAttribute('name') ?? '', p.getAttribute('value') ?? ''] as const)
+    .filter(([n]) => n)
+    .sort((a, b) => b[0].length - a[0].length);
+
+  const copy = template.cloneNode(true) as Element;
+  const substitute = (el: Element) => {
+    for (const attr of Array.from(el.attributes)) {
+      let value = attr.value;
+      for (const [name, replacement] of params) {
+        value = value.replace(new RegExp(`\\$${name.replace(/[.-]/g, '\\$&')}(?![\\w.-])`, 'g'), () => replacement);
+      }
+      if (value !== attr.value) el.setAttribute(attr.name, value);
+    }
+    for (const child of Array.from(el.children)) substitute(child);
+  };
+  substitute(copy);
+  return copy;
+}
+
+/**
+ * Flatten an assert/report body into a message template. `<name/>`,
+ * `<name path>` and `<value-of select>` become directives between
+ * `\u0000` markers (`\u0000name\u0000`, `\u0000name tei:head\u0000`,
+ * `\u0000value-of @n\u0000`), resolved against the context node when the
+ * diagnostic fires; other child elements contribute their text.
+ */
+const MARK = '\u0000';
 
 function extractMessageTemplate(el: Element): string {
   let out = '';
@@ -174,10 +489,22 @@ function extractMessageTemplate(el: Element): string {
       out += node.textContent ?? '';
     } else if (node.nodeType === Node.ELEMENT_NODE) {
       const child = node as Element;
-      out += isSch(child, 'name') && !child.getAttribute('path') ? NAME_PLACEHOLDER : (child.textContent ?? '');
+      if (isSch(child, 'name')) {
+        const path = child.getAttribute('path');
+        out += MARK + (path ? `name ${path}` : 'name') + MARK;
+      } else if (isSch(child, 'value-of') && child.getAttribute('select')) {
+        out += `${MARK}value-of ${child.getAttribute('select')}${MARK}`;
+      } else {
+        out += child.textContent ?? '';
+      }
     }
   }
-  return out.replace(/\s+/g, ' ').trim();
+  // Collapse whitespace in the text only — directives keep their XPath intact.
+  return out
+    .split(MARK)
+    .map((part, i) => (i % 2 === 0 ? part.replace(/\s+/g, ' ') : part))
+    .join(MARK)
+    .trim();
 }
 
 /**
@@ -189,10 +516,13 @@ function extractMessageTemplate(el: Element): string {
  */
 function contextToXPath(context: string): string {
   return splitTopLevelUnion(context)
-    .map((branch) => (branch.startsWith('/') ? branch : `//${branch}`))
+    .map((branch) => (branch.startsWith('/') || branch.startsWith('$') ? branch : `//${branch}`))
     .join(' | ');
 }
 
+/** <let> values by name. */
+type Variables = ReadonlyMap<string, XPathValue>;
+
 /**
  * Validate a document against a parsed Schematron schema.
  * Returns ValidationError[] in the same shape the schema validator emits, so
@@ -201,7 +531,8 @@ function contextToXPath(context: string): string {
 export function validateSchematron(xmlContent: string, schema: SchematronSchema): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  const doc = new DOMParser().parseFromString(xmlContent, 'application/xml');
+  // The line and source maps read the XML DOM through the DOM interfaces it mirrors
+  const doc = parseXmlDocument(xmlContent) as unknown as Document;
   if (doc.querySelector('parsererror')) {
     // Not well-formed — the main validator already reports this.
     return errors;
@@ -220,6 +551,8 @@ export function validateSchematron(xmlContent: string, schema: SchematronSchema)
   // without a namespace evaluate unprefixed names natively.
   const needsRewrite = !hasNs && !!doc.documentElement.namespaceURI;
   const prep = (expr: string): string => (needsRewrite ? rewriteUnprefixedNamesToLocalName(expr) : expr);
+  const evaluate = (expr: string, context: Node, type: number, vars: Variables): XPathResult =>
+    evaluateXPath(prep(expr), context as unknown as XmlNode, resolver, type, vars) as unknown as XPathResult;
 
   // Node→line attribution, built lazily on the first fired diagnostic (most
   // lint passes fire nothing, so a clean document never pays for this). The
@@ -235,6 +568,16 @@ export function validateSchematron(xmlContent: string, schema: SchematronSchema)
     if (!resolveLine) resolveLine = createElementLineResolver(xmlContent, doc);
     return resolveLine(el);
   };
+  // Same for the node→source-range map quick fixes are resolved against.
+  let sourceMap: NodeSourceMap | null = null;
+  const fixEnvironment = (vars: Variables): QuickFixEnvironment => ({
+    xml: xmlContent,
+    get source() {
+      if (!sourceMap) sourceMap = createNodeSourceMap(xmlContent, doc);
+      return sourceMap;
+    },
+    evaluate: (expr, context, type) => evaluate(expr, context, type, vars),
+  });
 
   const ruleErrorReported = new Set<string>();
   const reportRuleError = (expr: string, err: unknown) => {
@@ -248,23 +591,62 @@ export function validateSchematron(xmlContent: string, schema: SchematronSchema)
     });
   };
 
-  for (const pattern of schema.patterns) {
+  /** Bind `lets` in order on top of `vars`; a let that fails is reported and left unbound. */
+  const evaluateLets = (lets: SchematronLet[], context: Node, vars: Variables): Variables => {
+    if (lets.length === 0) return vars;
+    const scope = new Map(vars);
+    for (const l of lets) {
+      try {
+        scope.set(l.name, evaluateXPathValue(prep(l.value), context as unknown as XmlNode, resolver, scope));
+      } catch (err) {
+        reportRuleError(l.value, err);
+      }
+    }
+    return scope;
+  };
+
+  const renderMessage = (template: string, el: Element, vars: Variables): string =>
+    template
+      .split(MARK)
+      .map((part, i) => {
+        if (i % 2 === 0) return part;
+        if (part === 'name') return `<${el.localName}>`;
+        const [directive, ...rest] = part.split(' ');
+        const expr = rest.join(' ');
+        try {
+          if (directive === 'value-of') {
+            return evaluate(expr, el, XPathResult.STRING_TYPE, vars).stringValue;
+          }
+          const node = evaluate(expr, el, XPathResult.FIRST_ORDERED_NODE_TYPE, vars).singleNodeValue;
+          if (!node) return '';
+          return node.nodeType === Node.ATTRIBUTE_NODE ? `@${node.nodeName}` : `<${(node as Element).localName ?? node.nodeName}>`;
+        } catch (err) {
+          reportRuleError(rest.join(' '), err);
+          return '';
+        }
+      })
+      .join('');
+
+  // Phase: the UI's choice, else @defaultPhase, else every pattern. An
+  // unknown phase id (stale selection) also runs everything.
+  const phaseId = schema.activePhase ?? schema.defaultPhase ?? ALL_PHASES;
+  const phase = phaseId === ALL_PHASES ? undefined : schema.phases.find((p) => p.id === phaseId);
+  const activePatterns = phase
+    ? schema.patterns.filter((p) => p.id !== null && phase.patterns.includes(p.id))
+    : schema.patterns;
+
+  const globalVars = evaluateLets([...schema.lets, ...(phase?.lets ?? [])], doc, new Map());
+
+  for (const pattern of activePatterns) {
+    const patternVars = evaluateLets(pattern.lets, doc, globalVars);
     // ISO semantics: within a pattern, a node is checked only by the FIRST
     // rule whose context matches it.
     const claimed = new Set<Element>();
 
     for (const rule of pattern.rules) {
-      const contextExpr = contextToXPath(rule.context);
-
       let matched: Element[];
       try {
-        const snapshot = doc.evaluate(
-          prep(contextExpr),
-          doc,
-          resolver,
-          XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
-          null,
-        );
+        const snapshot = evaluate(contextToXPath(rule.context), doc, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, patternVars);
         matched = [];
         for (let i = 0; i < snapshot.snapshotLength; i++) {
           const node = snapshot.snapshotItem(i);
@@ -288,11 +670,12 @@ export function validateSchematron(xmlContent: string, schema: SchematronSchema)
       for (const el of matched) {
         if (claimed.has(el)) continue;
         claimed.add(el);
+        const vars = evaluateLets(rule.lets, el, patternVars);
 
         for (const t of rule.tests) {
           let value: boolean;
           try {
-            value = doc.evaluate(prep(t.test), el, resolver, XPathResult.BOOLEAN_TYPE, null).booleanValue;
+            value = evaluate(t.test, el, XPathResult.BOOLEAN_TYPE, vars).booleanValue;
           } catch (err) {
             reportRuleError(t.test, err);
             continue;
@@ -300,12 +683,20 @@ export function validateSchematron(xmlContent: string, schema: SchematronSchema)
 
           const fired = t.kind === 'assert' ? !value : value;
           if (fired) {
-            errors.push({
-              message: `[Schematron] ${t.message.split(NAME_PLACEHOLDER).join(`<${el.localName}>`)}`,
+            const error: ValidationError = {
+              message: `[Schematron] ${renderMessage(t.message, el, vars)}`,
               line: lineOf(el),
               column: 1,
               severity: t.severity,
-            });
+            };
+            if (t.fixes.length > 0) {
+              const env = fixEnvironment(vars);
+              const fixes = t.fixes
+                .map((fix) => resolveQuickFix(fix, el, env))
+                .filter((fix): fix is QuickFix => fix !== null);
+              if (fixes.length > 0) error.fixes = fixes;
+            }
+            errors.push(error);
           }
         }
       }
@@ -0,0 +1,272 @@
+/**
+ * Schematron Quick Fixes (SQF) — turns the <sqf:fix>es attached to a fired
+ * assert/report into concrete text edits on the validated document.
+ *
+ * Fixes are resolved when the diagnostic fires, against the DOM the rule
+ * ran on: every operation's @match is evaluated from the rule's context
+ * node, and each matched node is mapped back to its source range
+ * (createNodeSourceMap), so applying a fix is a plain text change that the
+ * editor's history can undo. The edits carry the context element's source
+ * text as an anchor; a fix whose anchor no longer matches is stale.
+ *
+ * Supported operations: sqf:add, sqf:delete, sqf:replace and
+ * sqf:stringReplace, with @match, @target, @node-type (element, attribute,
+ * comment, processing-instruction), @position (default first-child), @select
+ * or literal content (which may contain <sch:value-of>), @regex and @flags.
+ * Fixes with sqf:user-entry or sqf:call-fix are not offered, and a fix
+ * whose operations touch overlapping text is dropped rather than guessed at.
+ */
+
+import type { QuickFix, TextEdit } from '../types/schema';
+import type { NodeSourceMap } from './xmlTokenizer';
+
+/** The SQF namespace. */
+export const SQF_NS = 'http://www.schematron-quickfix.com/validator/process';
+
+/** One sqf:add / sqf:delete / sqf:replace / sqf:stringReplace. */
+export interface SqfOperation {
+  kind: 'add' | 'delete' | 'replace' | 'stringReplace';
+  /** XPath from the rule context to the node(s) the operation applies to. */
+  match: string;
+  /** Name of the new element / attribute / PI. */
+  target: string | null;
+  nodeType: 'element' | 'attribute' | 'comment' | 'processing-instruction' | null;
+  /** Where sqf:add puts the new node, relative to the matched node. */
+  position: 'before' | 'after' | 'first-child' | 'last-child';
+  /** XPath (from the matched node) for the new content, instead of `content`. */
+  select: string | null;
+  /** Literal content as markup, with <sch:value-of> kept as `\u0000select\u0000` directives. */
+  content: string;
+  /** The same content as plain text (for attribute values and string replacements). */
+  text: string;
+  /** sqf:stringReplace only. */
+  regex: string | null;
+  flags: string;
+}
+
+/** A parsed <sqf:fix>. */
+export interface SchematronFix {
+  id: string;
+  /** <sqf:description>/<sqf:title>, else the id. */
+  description: string;
+  /** @use-when — offered only where this XPath is true. */
+  useWhen: string | null;
+  operations: SqfOperation[];
+}
+
+/** What resolveQuickFix needs from the validation pass. */
+export interface QuickFixEnvironment {
+  /** The validated text. */
+  xml: string;
+  source: NodeSourceMap;
+  /** Evaluate an XPath (variables and namespaces applied) from `context`. */
+  evaluate(expr: string, context: Node, type: number): XPathResult;
+}
+
+export const DIRECTIVE = '\u0000';
+
+export function escapeText(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function escapeAttribute(s: string): string {
+  return escapeText(s).replace(/"/g, '&quot;');
+}
+
+class UnsupportedFix extends Error {}
+
+/**
+ * Resolve `fix` at the rule's context element. Null when the fix does not
+ * apply here (@use-when false, nothing matched) or cannot be expressed as
+ * non-overlapping edits.
+ */
+export function resolveQuickFix(fix: SchematronFix, context: Element, env: QuickFixEnvironment): QuickFix | null {
+  const anchor = env.source.element(context);
+  if (!anchor) return null;
+  try {
+    if (fix.useWhen && !env.evaluate(fix.useWhen, context, XPathResult.BOOLEAN_TYPE).booleanValue) return null;
+
+    const edits: TextEdit[] = [];
+    for (const op of fix.operations) {
+      const result = env.evaluate(op.match, context, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE);
+      for (let i = 0; i < result.snapshotLength; i++) {
+        edits.push(...operationEdits(op, result.snapshotItem(i)!, env));
+      }
+    }
+    if (edits.length === 0) return null;
+
+    // Stable sort: insertions at the same offset keep operation order.
+    edits.sort((a, b) => a.from - b.from);
+    for (let i = 1; i < edits.length; i++) {
+      if (edits[i].from < edits[i - 1].to) return null;
+    }
+    return {
+      description: fix.description,
+      edits,
+      anchor: { from: anchor.from, to: anchor.to, text: env.xml.slice(anchor.from, anchor.to) },
+    };
+  } catch {
+    // XPath errors and unsupported node kinds: no fix rather than a wrong one.
+    return null;
+  }
+}
+
+function operationEdits(op: SqfOperation, node: Node, env: QuickFixEnvironment): TextEdit[] {
+  const { source } = env;
+  switch (op.kind) {
+    case 'delete': {
+      const range = rangeOf(node, source);
+      return [{ from: range.from, to: range.to, insert: '' }];
+    }
+
+    case 'add': {
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        if (op.position !== 'before' && op.position !== 'after') throw new UnsupportedFix();
+        const range = rangeOf(node, source);
+        const at = op.position === 'before' ? range.from : range.to;
+        return [{ from: at, to: at, insert: newMarkup(op, node, env) }];
+      }
+      const el = node as Element;
+      const range = source.element(el);
+      if (!range) throw new UnsupportedFix();
+
+      if (op.nodeType === 'attribute') {
+        if (!op.target) throw new UnsupportedFix();
+        const value = escapeAttribute(newText(op, node, env));
+        const existing = el.getAttributeNode(op.target);
+        const attrRange = existing && source.attribute(existing);
+        if (attrRange) return [{ from: attrRange.valueFrom, to: attrRange.valueTo, insert: value }];
+        return [{ from: range.attributesEnd, to: range.attributesEnd, insert: ` ${op.target}="${value}"` }];
+      }
+
+      const markup = newMarkup(op, node, env);
+      if (op.position === 'before') return [{ from: range.from, to: range.from, insert: markup }];
+      if (op.position === 'after') return [{ from: range.to, to: range.to, insert: markup }];
+      if (range.selfClosing) {
+        // <pb/> has no inside yet: rewrite it as <pb>…</pb>.
+        const open = env.xml.slice(range.from, range.to).replace(/\s*\/>$/, '>');
+        return [{ from: range.from, to: range.to, insert: `${open}${markup}</${el.tagName}>` }];
+      }
+      const at = op.position === 'first-child' ? range.openEnd : range.closeStart;
+      return [{ from: at, to: at, insert: markup }];
+    }
+
+    case 'replace': {
+      if (node.nodeType === Node.ATTRIBUTE_NODE) {
+        const attrRange = source.attribute(node as Attr);
+        if (!attrRange) throw new UnsupportedFix();
+        const value = escapeAttribute(newText(op, node, env));
+        if (op.nodeType === 'attribute' && op.target) {
+          return [{ from: attrRange.from, to: attrRange.to, insert: ` ${op.target}="${value}"` }];
+        }
+        return [{ from: attrRange.valueFrom, to: attrRange.valueTo, insert: value }];
+      }
+      const range = rangeOf(node, source);
+      return [{ from: range.from, to: range.to, insert: newMarkup(op, node, env) }];
+    }
+
+    case 'stringReplace': {
+      if (!op.regex) throw new UnsupportedFix();
+      // XPath 2 flags: i, m and s match JavaScript; x (free spacing) has no equivalent.
+      const regex = new RegExp(op.regex, `g${op.flags.replace(/[^ims]/g, '')}`);
+      const replacement = newText(op, node, env);
+      const replace = (s: string) => s.replace(regex, () => replacement);
+
+      if (node.nodeType === Node.ATTRIBUTE_NODE) {
+        const attr = node as Attr;
+        const attrRange = source.attribute(attr);
+        if (!attrRange) throw new UnsupportedFix();
+        const value = replace(attr.value);
+        return value === attr.value ? [] : [{ from: attrRange.valueFrom, to: attrRange.valueTo, insert: escapeAttribute(value) }];
+      }
+      const texts: Text[] = [];
+      if (node.nodeType === Node.TEXT_NODE) {
+        texts.push(node as Text);
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        const walker = node.ownerDocument!.createTreeWalker(node, 4 /* NodeFilter.SHOW_TEXT */);
+        for (let n = walker.nextNode(); n; n = walker.nextNode()) texts.push(n as Text);
+      } else {
+        throw new UnsupportedFix();
+      }
+      const edits: TextEdit[] = [];
+      for (const text of texts) {
+        const value = replace(text.data);
+        if (value === text.data) continue;
+        const range = source.text(text);
+        if (!range) throw new UnsupportedFix();
+        edits.push({ from: range.from, to: range.to, insert: escapeText(value) });
+      }
+      return edits;
+    }
+  }
+}
+
+function rangeOf(node: Node, source: NodeSourceMap): { from: number; to: number } {
+  const range = node.nodeType === Node.ELEMENT_NODE
+    ? source.element(node as Element)
+    : node.nodeType === Node.ATTRIBUTE_NODE
+      ? source.attribute(node as Attr)
+      : node.nodeType === Node.TEXT_NODE ? source.text(node as Text) : null;
+  if (!range) throw new UnsupportedFix();
+  return range;
+}
+
+/** The new node(s) of an add/replace, as markup. */
+function newMarkup(op: SqfOperation, node: Node, env: QuickFixEnvironment): string {
+  const inner = op.select !== null ? selectMarkup(op.select, node, env) : renderContent(op.content, node, env, escapeText);
+  switch (op.nodeType ?? (op.target ? 'element' : null)) {
+    case 'element':
+      if (!op.target) throw new UnsupportedFix();
+      return inner ? `<${op.target}>${inner}</${op.target}>` : `<${op.target}/>`;
+    case 'comment':
+      return `<!--${inner}-->`;
+    case 'processing-instruction':
+      if (!op.target) throw new UnsupportedFix();
+      return inner ? `<?${op.target} ${inner}?>` : `<?${op.target}?>`;
+    case 'attribute':
+      throw new UnsupportedFix();
+    default:
+      return inner;
+  }
+}
+
+/** The new content as plain text. */
+function newText(op: SqfOperation, node: Node, env: QuickFixEnvironment): string {
+  if (op.select !== null) return env.evaluate(op.select, node, XPathResult.STRING_TYPE).stringValue;
+  return renderContent(op.text, node, env, (s) => s);
+}
+
+/** @select as markup: selected nodes are copied from the source text, atomic values escaped. */
+function selectMarkup(select: string, node: Node, env: QuickFixEnvironment): string {
+  const result = env.evaluate(select, node, XPathResult.ANY_TYPE);
+  switch (result.resultType) {
+    case XPathResult.STRING_TYPE:
+      return escapeText(result.stringValue);
+    case XPathResult.NUMBER_TYPE:
+      return String(result.numberValue);
+    case XPathResult.BOOLEAN_TYPE:
+      return String(result.booleanValue);
+  }
+  let out = '';
+  for (let n = result.iterateNext(); n; n = result.iterateNext()) {
+    if (n.nodeType === Node.ATTRIBUTE_NODE) {
+      out += escapeText((n as Attr).value);
+    } else {
+      const range = rangeOf(n, env.source);
+      out += env.xml.slice(range.from, range.to);
+    }
+  }
+  return out;
+}
+
+function renderContent(
+  template: string,
+  node: Node,
+  env: QuickFixEnvironment,
+  escape: (s: string) => string,
+): string {
+  return template
+    .split(DIRECTIVE)
+    .map((part, i) => (i % 2 === 0 ? part : escape(env.evaluate(part, node, XPathResult.STRING_TYPE).stringValue)))
+    .join('');
+}
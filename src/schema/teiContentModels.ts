@@ -0,0 +1,142 @@
+import type { ContentItem, ContentModel, ElementSpec } from '../types/schema';
+
+/**
+ * Content models of the TEI elements that frame a document — the header,
+ * the text and its parts — and of the compound elements Insert Element
+ * scaffolds, transcribed from the TEI P5 Guidelines with their order and
+ * cardinality.
+ *
+ * The generated P5 data (teiP5Generated.ts) lost its occurrence data and
+ * some macro expansions, so teiStaticSchema.ts has to relax those models
+ * until nothing is required. The elements below replace them: fileDesc
+ * needs its titleStmt first and takes one, TEI one teiHeader, body no loose
+ * text. Where a model lists a whole class (body's divisions and paragraphs,
+ * a choice's alternatives) it is written as `REST`: any of the element's
+ * children not named elsewhere in the model, so it follows the children
+ * lists (and every listed child stays allowed — see covers() in
+ * rngValidator.ts). Those parts keep the class's cardinality but not the
+ * order within it.
+ */
+
+/** Stands for the element's children the model does not name. */
+const REST = '#rest';
+
+type Particle = string | ContentItem;
+
+const item = (p: Particle): ContentItem =>
+  typeof p === 'string' ? { kind: 'element', name: p, minOccurs: 1, maxOccurs: 1 } : p;
+
+const group = (type: 'sequence' | 'choice', particles: Particle[]): ContentItem => ({
+  kind: 'group',
+  content: { type, items: particles.map(item), minOccurs: 1, maxOccurs: 1 },
+  minOccurs: 1,
+  maxOccurs: 1,
+});
+
+const seq = (...particles: Particle[]) => group('sequence', particles);
+const alt = (...particles: Particle[]) => group('choice', particles);
+const repeat = (p: Particle, minOccurs: number, maxOccurs: number): ContentItem => ({ ...item(p), minOccurs, maxOccurs });
+const opt = (p: Particle) => repeat(p, 0, 1);
+const star = (p: Particle) => repeat(p, 0, Infinity);
+const plus = (p: Particle) => repeat(p, 1, Infinity);
+
+const RESP_LIKE = ['author', 'editor', 'funder', 'meeting', 'principal', 'respStmt', 'sponsor'];
+const P_LIKE = ['p', 'ab'];
+
+const MODELS: Record<string, Particle> = {
+  TEI: seq('teiHeader', alt(
+    seq(plus(alt('text', 'facsimile', 'sourceDoc', 'standOff', 'fsdDecl')), star('TEI')),
+    plus('TEI'),
+  )),
+  teiHeader: seq('fileDesc', star(alt('encodingDesc', 'profileDesc', 'xenoData')), opt('revisionDesc')),
+  fileDesc: seq(
+    'titleStmt', opt('editionStmt'), opt('extent'), 'publicationStmt', star('seriesStmt'), opt('notesStmt'),
+    plus('sourceDesc'),
+  ),
+  titleStmt: seq(plus('title'), star(alt(...RESP_LIKE))),
+  editionStmt: alt(plus(alt(...P_LIKE)), seq('edition', star(REST))),
+  publicationStmt: alt(
+    plus(seq(alt('authority', 'distributor', 'publisher'), star(alt('address', 'availability', 'date', 'idno', 'pubPlace', REST)))),
+    plus(alt(...P_LIKE)),
+  ),
+  sourceDesc: alt(plus(alt(...P_LIKE)), plus(REST)),
+  revisionDesc: alt('list', 'listChange', plus('change')),
+
+  text: seq(star(REST), opt(seq('front', star(REST))), alt('body', 'group'), star(REST), opt(seq('back', star(REST)))),
+  front: star(REST),
+  // Paragraphs or divisions; p first so Insert Element scaffolds one
+  body: plus(alt(...P_LIKE, 'div', REST)),
+  back: star(REST),
+  group: seq(star(REST), alt('text', 'group'), star(alt('text', 'group', REST))),
+
+  choice: repeat(alt(REST), 2, Infinity),
+  app: seq(opt('lem'), star(REST)),
+  biblStruct: seq(star('analytic'), plus(seq('monogr', star('series'))), star(REST)),
+  // Authors, titles and editions before the imprint, in any order
+  monogr: seq(star(REST), 'imprint', star(alt('imprint', 'extent', 'biblScope'))),
+  imprint: seq(
+    star(alt('classCode', 'catRef')),
+    plus(seq(alt('pubPlace', 'publisher', 'date', 'biblScope', 'distributor', 'time'), star('respStmt'), star(REST))),
+  ),
+  msDesc: seq('msIdentifier', star('head'), alt(
+    plus(alt(...P_LIKE)),
+    seq(opt('msContents'), opt('physDesc'), opt('history'), opt('additional'), alt(star('msPart'), star('msFrag'))),
+  )),
+  msIdentifier: seq(
+    ...['placeName', 'bloc', 'country', 'region', 'settlement', 'district', 'geogName'].map(opt),
+    opt('institution'), opt('repository'), star('collection'), star('idno'),
+    star(alt('msName', 'objectName', 'altIdentifier')),
+  ),
+};
+
+/**
+ * `elements` with the models above in place of their own, each resolved
+ * against the element's children and pruned to the elements either
+ * defined or listed as its children (TEI Lite lists a few it doesn't
+ * define, such as editionStmt).
+ */
+export function withTeiContentModels(elements: ElementSpec[]): ElementSpec[] {
+  const defined = elements.map((el) => el.name);
+  return elements.map((el) => {
+    const particle = MODELS[el.name];
+    if (!particle) return el;
+    const children = el.children ?? [];
+    const model: ContentModel = { type: 'sequence', items: [item(particle)], minOccurs: 1, maxOccurs: 1 };
+    return { ...el, contentModel: pruneModel(resolveRest(model, children), new Set([...defined, ...children])) };
+  });
+}
+
+/** Replace `REST` with a choice of the `children` the model does not name. */
+function resolveRest(model: ContentModel, children: string[]): ContentModel {
+  const named = new Set<string>();
+  const collect = (m: ContentModel) => {
+    for (const i of m.items ?? []) {
+      if (i.kind === 'element' && i.name) named.add(i.name);
+      if (i.content) collect(i.content);
+    }
+  };
+  collect(model);
+  const rest = children.filter((name) => !named.has(name));
+  const choice: ContentModel = { type: 'choice', items: rest.map(item), minOccurs: 1, maxOccurs: 1 };
+  const resolve = (m: ContentModel): ContentModel => ({
+    ...m,
+    items: m.items?.map((i) =>
+      i.name === REST ? { kind: 'group', content: choice, minOccurs: i.minOccurs, maxOccurs: i.maxOccurs }
+        : i.content ? { ...i, content: resolve(i.content) } : i),
+  });
+  return resolve(model);
+}
+
+/** Remove element particles not in `names`; groups left empty go too. */
+export function pruneModel(model: ContentModel, names: Set<string>): ContentModel {
+  const pruneItem = (item: ContentItem): ContentItem | undefined => {
+    if (item.kind === 'element') return item.name && names.has(item.name) ? item : undefined;
+    if (item.kind === 'group' && item.content) {
+      const content = pruneModel(item.content, names);
+      return content.items && content.items.length > 0 ? { ...item, content } : undefined;
+    }
+    return item;
+  };
+  if (!model.items) return model;
+  return { ...model, items: model.items.map(pruneItem).filter((i): i is ContentItem => !!i) };
+}
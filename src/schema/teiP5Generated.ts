@@ -990,6 +990,601 @@ export const TEI_ELEMENT_CLASSES: Record<string, string[]> = {
   'zone': ['att.global', 'att.coordinated', 'att.typed', 'att.written'],
 };
 
+// ============================================================================
+// Element-to-Module Mappings
+// ============================================================================
+
+export const TEI_ELEMENT_MODULES: Record<string, string> = {
+  'ab': 'linking',
+  'abbr': 'core',
+  'abstract': 'header',
+  'accMat': 'msdescription',
+  'acquisition': 'msdescription',
+  'activity': 'corpus',
+  'actor': 'drama',
+  'add': 'core',
+  'additional': 'msdescription',
+  'additions': 'msdescription',
+  'addName': 'namesdates',
+  'address': 'core',
+  'addrLine': 'core',
+  'addSpan': 'transcr',
+  'adminInfo': 'msdescription',
+  'affiliation': 'namesdates',
+  'age': 'namesdates',
+  'alt': 'linking',
+  'alternate': 'tagdocs',
+  'altGrp': 'linking',
+  'altIdent': 'tagdocs',
+  'altIdentifier': 'msdescription',
+  'am': 'transcr',
+  'analytic': 'core',
+  'anchor': 'linking',
+  'annotation': 'linking',
+  'annotationBlock': 'spoken',
+  'anyElement': 'tagdocs',
+  'app': 'textcrit',
+  'appInfo': 'header',
+  'application': 'header',
+  'arc': 'nets',
+  'argument': 'textstructure',
+  'att': 'tagdocs',
+  'attDef': 'tagdocs',
+  'attList': 'tagdocs',
+  'attRef': 'tagdocs',
+  'author': 'core',
+  'authority': 'header',
+  'availability': 'header',
+  'back': 'textstructure',
+  'bibl': 'core',
+  'biblFull': 'header',
+  'biblScope': 'core',
+  'biblStruct': 'core',
+  'bicond': 'iso-fs',
+  'binary': 'iso-fs',
+  'binaryObject': 'core',
+  'binding': 'msdescription',
+  'bindingDesc': 'msdescription',
+  'birth': 'namesdates',
+  'bloc': 'namesdates',
+  'body': 'textstructure',
+  'broadcast': 'spoken',
+  'byline': 'textstructure',
+  'c': 'analysis',
+  'caesura': 'verse',
+  'calendar': 'header',
+  'calendarDesc': 'header',
+  'camera': 'drama',
+  'caption': 'drama',
+  'case': 'dictionaries',
+  'castGroup': 'drama',
+  'castItem': 'drama',
+  'castList': 'drama',
+  'catchwords': 'msdescription',
+  'catDesc': 'header',
+  'category': 'header',
+  'catRef': 'header',
+  'cb': 'core',
+  'cell': 'figures',
+  'certainty': 'certainty',
+  'change': 'header',
+  'channel': 'corpus',
+  'char': 'gaiji',
+  'charDecl': 'gaiji',
+  'choice': 'core',
+  'cit': 'core',
+  'citeData': 'header',
+  'citedRange': 'core',
+  'citeStructure': 'header',
+  'cl': 'analysis',
+  'classCode': 'header',
+  'classDecl': 'header',
+  'classes': 'tagdocs',
+  'classRef': 'tagdocs',
+  'classSpec': 'tagdocs',
+  'climate': 'namesdates',
+  'closer': 'textstructure',
+  'code': 'tagdocs',
+  'collation': 'msdescription',
+  'collection': 'msdescription',
+  'colloc': 'dictionaries',
+  'colophon': 'msdescription',
+  'cond': 'iso-fs',
+  'condition': 'msdescription',
+  'constitution': 'corpus',
+  'constraint': 'tagdocs',
+  'constraintDecl': 'tagdocs',
+  'constraintSpec': 'tagdocs',
+  'content': 'tagdocs',
+  'conversion': 'header',
+  'corr': 'core',
+  'correction': 'header',
+  'correspAction': 'header',
+  'correspContext': 'header',
+  'correspDesc': 'header',
+  'country': 'namesdates',
+  'creation': 'header',
+  'cRefPattern': 'header',
+  'custEvent': 'msdescription',
+  'custodialHist': 'msdescription',
+  'damage': 'transcr',
+  'damageSpan': 'transcr',
+  'dataFacet': 'tagdocs',
+  'dataRef': 'tagdocs',
+  'dataSpec': 'tagdocs',
+  'datatype': 'tagdocs',
+  'date': 'core',
+  'dateline': 'textstructure',
+  'death': 'namesdates',
+  'decoDesc': 'msdescription',
+  'decoNote': 'msdescription',
+  'def': 'dictionaries',
+  'default': 'iso-fs',
+  'defaultVal': 'tagdocs',
+  'del': 'core',
+  'delSpan': 'transcr',
+  'depth': 'msdescription',
+  'derivation': 'corpus',
+  'desc': 'core',
+  'dictScrap': 'dictionaries',
+  'dim': 'msdescription',
+  'dimensions': 'msdescription',
+  'distinct': 'core',
+  'distributor': 'header',
+  'district': 'namesdates',
+  'div': 'textstructure',
+  'div1': 'textstructure',
+  'div2': 'textstructure',
+  'div3': 'textstructure',
+  'div4': 'textstructure',
+  'div5': 'textstructure',
+  'div6': 'textstructure',
+  'div7': 'textstructure',
+  'divGen': 'core',
+  'docAuthor': 'textstructure',
+  'docDate': 'textstructure',
+  'docEdition': 'textstructure',
+  'docImprint': 'textstructure',
+  'docTitle': 'textstructure',
+  'domain': 'corpus',
+  'edition': 'header',
+  'editionStmt': 'header',
+  'editor': 'core',
+  'editorialDecl': 'header',
+  'education': 'namesdates',
+  'eg': 'tagdocs',
+  'egXML': 'tagdocs',
+  'eLeaf': 'nets',
+  'elementRef': 'tagdocs',
+  'elementSpec': 'tagdocs',
+  'ellipsis': 'core',
+  'email': 'core',
+  'emph': 'core',
+  'empty': 'tagdocs',
+  'encodingDesc': 'header',
+  'entry': 'dictionaries',
+  'entryFree': 'dictionaries',
+  'epigraph': 'textstructure',
+  'epilogue': 'drama',
+  'equipment': 'spoken',
+  'equiv': 'tagdocs',
+  'eTree': 'nets',
+  'etym': 'dictionaries',
+  'event': 'namesdates',
+  'eventName': 'namesdates',
+  'ex': 'transcr',
+  'exemplum': 'tagdocs',
+  'expan': 'core',
+  'explicit': 'msdescription',
+  'extent': 'header',
+  'f': 'iso-fs',
+  'facsimile': 'transcr',
+  'factuality': 'corpus',
+  'faith': 'namesdates',
+  'fDecl': 'iso-fs',
+  'fDescr': 'iso-fs',
+  'figDesc': 'figures',
+  'figure': 'figures',
+  'fileDesc': 'header',
+  'filiation': 'msdescription',
+  'finalRubric': 'msdescription',
+  'fLib': 'iso-fs',
+  'floatingText': 'textstructure',
+  'floruit': 'namesdates',
+  'foliation': 'msdescription',
+  'foreign': 'core',
+  'forename': 'namesdates',
+  'forest': 'nets',
+  'form': 'dictionaries',
+  'formula': 'figures',
+  'front': 'textstructure',
+  'fs': 'iso-fs',
+  'fsConstraints': 'iso-fs',
+  'fsdDecl': 'iso-fs',
+  'fsDecl': 'iso-fs',
+  'fsDescr': 'iso-fs',
+  'fsdLink': 'iso-fs',
+  'funder': 'header',
+  'fvLib': 'iso-fs',
+  'fw': 'transcr',
+  'g': 'gaiji',
+  'gap': 'core',
+  'gb': 'core',
+  'gen': 'dictionaries',
+  'gender': 'namesdates',
+  'genName': 'namesdates',
+  'geo': 'namesdates',
+  'geoDecl': 'header',
+  'geogFeat': 'namesdates',
+  'geogName': 'namesdates',
+  'gi': 'tagdocs',
+  'gloss': 'core',
+  'glyph': 'gaiji',
+  'gram': 'dictionaries',
+  'gramGrp': 'dictionaries',
+  'graph': 'nets',
+  'graphic': 'core',
+  'group': 'textstructure',
+  'handDesc': 'msdescription',
+  'handNote': 'header',
+  'handNotes': 'header',
+  'handShift': 'transcr',
+  'head': 'core',
+  'headItem': 'core',
+  'headLabel': 'core',
+  'height': 'msdescription',
+  'heraldry': 'msdescription',
+  'hi': 'core',
+  'history': 'msdescription',
+  'hom': 'dictionaries',
+  'hyph': 'dictionaries',
+  'hyphenation': 'header',
+  'ident': 'tagdocs',
+  'idno': 'header',
+  'if': 'iso-fs',
+  'iff': 'iso-fs',
+  'imprimatur': 'textstructure',
+  'imprint': 'core',
+  'incident': 'spoken',
+  'incipit': 'msdescription',
+  'index': 'core',
+  'iNode': 'nets',
+  'institution': 'msdescription',
+  'interaction': 'corpus',
+  'interp': 'analysis',
+  'interpGrp': 'analysis',
+  'interpretation': 'header',
+  'item': 'core',
+  'iType': 'dictionaries',
+  'join': 'linking',
+  'joinGrp': 'linking',
+  'keywords': 'header',
+  'kinesic': 'spoken',
+  'l': 'core',
+  'label': 'core',
+  'lacunaEnd': 'textcrit',
+  'lacunaStart': 'textcrit',
+  'lang': 'dictionaries',
+  'langKnowledge': 'namesdates',
+  'langKnown': 'namesdates',
+  'language': 'header',
+  'langUsage': 'header',
+  'layout': 'msdescription',
+  'layoutDesc': 'msdescription',
+  'lb': 'core',
+  'lbl': 'dictionaries',
+  'leaf': 'msdescription',
+  'lem': 'textcrit',
+  'lg': 'core',
+  'licence': 'header',
+  'line': 'transcr',
+  'link': 'linking',
+  'linkGrp': 'linking',
+  'list': 'core',
+  'listAnnotation': 'linking',
+  'listApp': 'textcrit',
+  'listBibl': 'core',
+  'listChange': 'header',
+  'listEvent': 'namesdates',
+  'listForest': 'nets',
+  'listNym': 'namesdates',
+  'listObject': 'namesdates',
+  'listOrg': 'namesdates',
+  'listPerson': 'namesdates',
+  'listPlace': 'namesdates',
+  'listPrefixDef': 'header',
+  'listRef': 'core',
+  'listRelation': 'namesdates',
+  'listTranspose': 'transcr',
+  'listWit': 'textcrit',
+  'locale': 'corpus',
+  'localProp': 'gaiji',
+  'location': 'namesdates',
+  'locus': 'msdescription',
+  'locusGrp': 'msdescription',
+  'm': 'analysis',
+  'macroRef': 'tagdocs',
+  'macroSpec': 'tagdocs',
+  'mapping': 'gaiji',
+  'material': 'msdescription',
+  'measure': 'core',
+  'measureGrp': 'core',
+  'media': 'core',
+  'meeting': 'core',
+  'memberOf': 'tagdocs',
+  'mentioned': 'core',
+  'metamark': 'transcr',
+  'metDecl': 'verse',
+  'metSym': 'verse',
+  'milestone': 'core',
+  'mod': 'transcr',
+  'model': 'tagdocs',
+  'modelGrp': 'tagdocs',
+  'modelSequence': 'tagdocs',
+  'moduleRef': 'tagdocs',
+  'moduleSpec': 'tagdocs',
+  'monogr': 'core',
+  'mood': 'dictionaries',
+  'move': 'drama',
+  'msContents': 'msdescription',
+  'msDesc': 'msdescription',
+  'msFrag': 'msdescription',
+  'msIdentifier': 'msdescription',
+  'msItem': 'msdescription',
+  'msItemStruct': 'msdescription',
+  'msName': 'msdescription',
+  'msPart': 'msdescription',
+  'musicNotation': 'msdescription',
+  'name': 'core',
+  'nameLink': 'namesdates',
+  'namespace': 'header',
+  'nationality': 'namesdates',
+  'node': 'nets',
+  'normalization': 'header',
+  'notatedMusic': 'figures',
+  'note': 'core',
+  'noteGrp': 'core',
+  'notesStmt': 'header',
+  'num': 'core',
+  'number': 'dictionaries',
+  'numeric': 'iso-fs',
+  'nym': 'namesdates',
+  'object': 'namesdates',
+  'objectDesc': 'msdescription',
+  'objectIdentifier': 'namesdates',
+  'objectName': 'namesdates',
+  'objectType': 'msdescription',
+  'occupation': 'namesdates',
+  'offset': 'namesdates',
+  'opener': 'textstructure',
+  'oRef': 'dictionaries',
+  'org': 'namesdates',
+  'orgName': 'namesdates',
+  'orig': 'core',
+  'origDate': 'msdescription',
+  'origin': 'msdescription',
+  'origPlace': 'msdescription',
+  'orth': 'dictionaries',
+  'outputRendition': 'tagdocs',
+  'p': 'core',
+  'param': 'tagdocs',
+  'paramList': 'tagdocs',
+  'paramSpec': 'tagdocs',
+  'particDesc': 'corpus',
+  'path': 'transcr',
+  'pause': 'spoken',
+  'pb': 'core',
+  'pc': 'analysis',
+  'per': 'dictionaries',
+  'performance': 'drama',
+  'persName': 'namesdates',
+  'person': 'namesdates',
+  'persona': 'namesdates',
+  'personGrp': 'namesdates',
+  'persPronouns': 'namesdates',
+  'phr': 'analysis',
+  'physDesc': 'msdescription',
+  'place': 'namesdates',
+  'placeName': 'namesdates',
+  'population': 'namesdates',
+  'pos': 'dictionaries',
+  'post': 'cmc',
+  'postBox': 'core',
+  'postCode': 'core',
+  'postscript': 'textstructure',
+  'precision': 'certainty',
+  'pRef': 'dictionaries',
+  'prefixDef': 'header',
+  'preparedness': 'corpus',
+  'principal': 'header',
+  'profileDesc': 'header',
+  'projectDesc': 'header',
+  'prologue': 'drama',
+  'pron': 'dictionaries',
+  'provenance': 'msdescription',
+  'ptr': 'core',
+  'publicationStmt': 'header',
+  'publisher': 'core',
+  'pubPlace': 'core',
+  'punctuation': 'header',
+  'purpose': 'corpus',
+  'q': 'core',
+  'quotation': 'header',
+  'quote': 'core',
+  'rb': 'core',
+  'rdg': 'textcrit',
+  'rdgGrp': 'textcrit',
+  're': 'dictionaries',
+  'recordHist': 'msdescription',
+  'recording': 'spoken',
+  'recordingStmt': 'spoken',
+  'redo': 'transcr',
+  'ref': 'core',
+  'refsDecl': 'header',
+  'refState': 'header',
+  'reg': 'core',
+  'region': 'namesdates',
+  'relatedItem': 'core',
+  'relation': 'namesdates',
+  'remarks': 'tagdocs',
+  'rendition': 'header',
+  'repository': 'msdescription',
+  'residence': 'namesdates',
+  'resp': 'core',
+  'respons': 'certainty',
+  'respStmt': 'core',
+  'restore': 'transcr',
+  'retrace': 'transcr',
+  'revisionDesc': 'header',
+  'rhyme': 'verse',
+  'role': 'drama',
+  'roleDesc': 'drama',
+  'roleName': 'namesdates',
+  'root': 'nets',
+  'row': 'figures',
+  'rs': 'core',
+  'rt': 'core',
+  'rubric': 'msdescription',
+  'ruby': 'core',
+  's': 'analysis',
+  'said': 'core',
+  'salute': 'textstructure',
+  'samplingDecl': 'header',
+  'schemaRef': 'header',
+  'schemaSpec': 'tagdocs',
+  'scriptDesc': 'msdescription',
+  'scriptNote': 'header',
+  'scriptStmt': 'spoken',
+  'seal': 'msdescription',
+  'sealDesc': 'msdescription',
+  'secFol': 'msdescription',
+  'secl': 'transcr',
+  'seg': 'linking',
+  'segmentation': 'header',
+  'sense': 'dictionaries',
+  'sequence': 'tagdocs',
+  'series': 'core',
+  'seriesStmt': 'header',
+  'set': 'drama',
+  'setting': 'corpus',
+  'settingDesc': 'corpus',
+  'settlement': 'namesdates',
+  'sex': 'namesdates',
+  'shift': 'spoken',
+  'sic': 'core',
+  'signatures': 'msdescription',
+  'signed': 'textstructure',
+  'soCalled': 'core',
+  'socecStatus': 'namesdates',
+  'sound': 'drama',
+  'source': 'msdescription',
+  'sourceDesc': 'header',
+  'sourceDoc': 'transcr',
+  'sp': 'core',
+  'space': 'transcr',
+  'span': 'analysis',
+  'spanGrp': 'analysis',
+  'speaker': 'core',
+  'specDesc': 'tagdocs',
+  'specGrp': 'tagdocs',
+  'specGrpRef': 'tagdocs',
+  'specList': 'tagdocs',
+  'spGrp': 'drama',
+  'sponsor': 'header',
+  'stage': 'core',
+  'stamp': 'msdescription',
+  'standOff': 'linking',
+  'state': 'namesdates',
+  'stdVals': 'header',
+  'street': 'core',
+  'stress': 'dictionaries',
+  'string': 'iso-fs',
+  'styleDefDecl': 'header',
+  'subc': 'dictionaries',
+  'subst': 'transcr',
+  'substJoin': 'transcr',
+  'summary': 'msdescription',
+  'superEntry': 'dictionaries',
+  'supplied': 'transcr',
+  'support': 'msdescription',
+  'supportDesc': 'msdescription',
+  'surface': 'transcr',
+  'surfaceGrp': 'transcr',
+  'surname': 'namesdates',
+  'surplus': 'transcr',
+  'surrogates': 'msdescription',
+  'syll': 'dictionaries',
+  'symbol': 'iso-fs',
+  'table': 'figures',
+  'tag': 'tagdocs',
+  'tagsDecl': 'header',
+  'tagUsage': 'header',
+  'taxonomy': 'header',
+  'tech': 'drama',
+  'TEI': 'textstructure',
+  'teiCorpus': 'core',
+  'teiHeader': 'header',
+  'term': 'core',
+  'terrain': 'namesdates',
+  'text': 'textstructure',
+  'textClass': 'header',
+  'textDesc': 'corpus',
+  'textLang': 'core',
+  'textNode': 'tagdocs',
+  'then': 'iso-fs',
+  'time': 'core',
+  'timeline': 'linking',
+  'title': 'core',
+  'titlePage': 'textstructure',
+  'titlePart': 'textstructure',
+  'titleStmt': 'header',
+  'tns': 'dictionaries',
+  'trailer': 'textstructure',
+  'trait': 'namesdates',
+  'transcriptionDesc': 'header',
+  'transpose': 'transcr',
+  'tree': 'nets',
+  'triangle': 'nets',
+  'typeDesc': 'msdescription',
+  'typeNote': 'msdescription',
+  'u': 'spoken',
+  'unclear': 'core',
+  'undo': 'transcr',
+  'unicodeProp': 'gaiji',
+  'unihanProp': 'gaiji',
+  'unit': 'header',
+  'unitDecl': 'header',
+  'unitDef': 'header',
+  'usg': 'dictionaries',
+  'val': 'tagdocs',
+  'valDesc': 'tagdocs',
+  'valItem': 'tagdocs',
+  'valList': 'tagdocs',
+  'vAlt': 'iso-fs',
+  'variantEncoding': 'textcrit',
+  'vColl': 'iso-fs',
+  'vDefault': 'iso-fs',
+  'view': 'drama',
+  'vLabel': 'iso-fs',
+  'vMerge': 'iso-fs',
+  'vNot': 'iso-fs',
+  'vocal': 'spoken',
+  'vRange': 'iso-fs',
+  'w': 'analysis',
+  'watermark': 'msdescription',
+  'when': 'linking',
+  'width': 'msdescription',
+  'wit': 'textcrit',
+  'witDetail': 'textcrit',
+  'witEnd': 'textcrit',
+  'witness': 'textcrit',
+  'witStart': 'textcrit',
+  'writing': 'spoken',
+  'xenoData': 'header',
+  'xr': 'dictionaries',
+  'zone': 'transcr',
+};
+
 // ============================================================================
 // TEI P5 Element Definitions (588 elements)
 // ============================================================================
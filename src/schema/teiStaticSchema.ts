@@ -1,5 +1,6 @@
-import type { ElementSpec, AttrSpec } from '../types/schema';
+import type { ElementSpec, AttrSpec, ContentModel, ContentItem } from '../types/schema';
 import { TEI_AUTO_GENERATED_ELEMENTS } from './teiAutoGenerated';
+import { withTeiContentModels } from './teiContentModels';
 
 /**
  * Static TEI schema data for immediate autocompletion.
@@ -17,13 +18,13 @@ const globalAttrs: AttrSpec[] = [
   { name: 'type', documentation: 'Type classification' },
   { name: 'subtype', documentation: 'Sub-classification' },
   { name: 'rend', documentation: 'Rendition (e.g. "italic", "bold")' },
-  { name: 'rendition', documentation: 'Points to a rendition element' },
+  { name: 'rendition', documentation: 'Points to a rendition element', datatype: 'teidata.pointer' },
   { name: 'style', documentation: 'CSS-like style string' },
-  { name: 'resp', documentation: 'Responsible party' },
+  { name: 'resp', documentation: 'Responsible party', datatype: 'teidata.pointer' },
   { name: 'cert', documentation: 'Certainty level', values: ['high', 'medium', 'low', 'unknown'] },
-  { name: 'source', documentation: 'Source of information' },
-  { name: 'corresp', documentation: 'Corresponds to' },
-  { name: 'ana', documentation: 'Analysis or interpretation' },
+  { name: 'source', documentation: 'Source of information', datatype: 'teidata.pointer' },
+  { name: 'corresp', documentation: 'Corresponds to', datatype: 'teidata.pointer' },
+  { name: 'ana', documentation: 'Analysis or interpretation', datatype: 'teidata.pointer' },
 ];
 
 function el(
@@ -74,15 +75,15 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
     { name: 'status', values: ['free', 'unknown', 'restricted'], documentation: 'Availability status' },
   ]),
   el('licence', 'Licence information', ['p'], [
-    { name: 'target', documentation: 'URL of the licence' },
+    { name: 'target', documentation: 'URL of the licence', datatype: 'teidata.pointer' },
   ]),
   el('sourceDesc', 'Source description', ['p', 'bibl', 'biblStruct', 'biblFull', 'listBibl', 'msDesc', 'listWit']),
   el('encodingDesc', 'Encoding description', ['projectDesc', 'editorialDecl', 'tagsDecl', 'classDecl', 'appInfo', 'p']),
   el('profileDesc', 'Profile description', ['creation', 'langUsage', 'textClass', 'correspDesc', 'settingDesc', 'particDesc', 'abstract']),
   el('revisionDesc', 'Revision description', ['change', 'listChange']),
   el('change', 'A change record', paraContent, [
-    { name: 'when', documentation: 'Date of change' },
-    { name: 'who', documentation: 'Person responsible' },
+    { name: 'when', documentation: 'Date of change', datatype: 'teidata.temporal.w3c' },
+    { name: 'who', documentation: 'Person responsible', datatype: 'teidata.pointer' },
   ]),
   el('idno', 'Identifier', paraContent, [
     { name: 'type', documentation: 'Type of identifier (e.g. ISBN, DOI, URL)' },
@@ -121,7 +122,7 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
 
   // Drama
   el('sp', 'Speech', ['speaker', 'p', 'lg', 'l', 'ab', 'stage', 'note'], [
-    { name: 'who', documentation: 'Speaker identifier' },
+    { name: 'who', documentation: 'Speaker identifier', datatype: 'teidata.pointer' },
   ]),
   el('speaker', 'Speaker name', paraContent),
   el('stage', 'Stage direction', paraContent, [
@@ -141,35 +142,35 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
   // Names & entities
   el('name', 'Name', paraContent, [
     { name: 'type', documentation: 'Type (e.g. person, place, org)' },
-    { name: 'ref', documentation: 'Reference to authority record' },
+    { name: 'ref', documentation: 'Reference to authority record', datatype: 'teidata.pointer' },
   ]),
   el('persName', 'Personal name', [...paraContent, 'forename', 'surname', 'genName', 'roleName', 'addName', 'nameLink'], [
-    { name: 'ref', documentation: 'Reference to person record' },
+    { name: 'ref', documentation: 'Reference to person record', datatype: 'teidata.pointer' },
   ]),
   el('forename', 'Forename', paraContent),
   el('surname', 'Surname', paraContent),
   el('placeName', 'Place name', [...paraContent, 'settlement', 'region', 'country', 'bloc', 'geogName'], [
-    { name: 'ref', documentation: 'Reference to place record' },
+    { name: 'ref', documentation: 'Reference to place record', datatype: 'teidata.pointer' },
   ]),
   el('settlement', 'Settlement name', paraContent),
   el('region', 'Region name', paraContent),
   el('country', 'Country name', paraContent),
   el('orgName', 'Organization name', paraContent, [
-    { name: 'ref', documentation: 'Reference to org record' },
+    { name: 'ref', documentation: 'Reference to org record', datatype: 'teidata.pointer' },
   ]),
   el('rs', 'Referring string', paraContent, [
     { name: 'type', documentation: 'Type of referent' },
-    { name: 'ref', documentation: 'Reference' },
+    { name: 'ref', documentation: 'Reference', datatype: 'teidata.pointer' },
     { name: 'key', documentation: 'Key for referent' },
   ]),
 
   // Dates & numbers
   el('date', 'Date', paraContent, [
-    { name: 'when', documentation: 'Normalized date (ISO 8601)' },
-    { name: 'notBefore', documentation: 'Earliest possible date' },
-    { name: 'notAfter', documentation: 'Latest possible date' },
-    { name: 'from', documentation: 'Start of date range' },
-    { name: 'to', documentation: 'End of date range' },
+    { name: 'when', documentation: 'Normalized date (ISO 8601)', datatype: 'teidata.temporal.w3c' },
+    { name: 'notBefore', documentation: 'Earliest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notAfter', documentation: 'Latest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'from', documentation: 'Start of date range', datatype: 'teidata.temporal.w3c' },
+    { name: 'to', documentation: 'End of date range', datatype: 'teidata.temporal.w3c' },
     { name: 'calendar', documentation: 'Calendar system' },
   ]),
   el('num', 'Number', paraContent, [
@@ -184,7 +185,7 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
 
   // Quotation & citation
   el('q', 'Quoted text', paraContent, [
-    { name: 'who', documentation: 'Speaker' },
+    { name: 'who', documentation: 'Speaker', datatype: 'teidata.pointer' },
     { name: 'type', documentation: 'Type (spoken, written, thought)' },
   ]),
   el('quote', 'Block quotation', [...paraContent, 'p', 'lg', 'l']),
@@ -196,7 +197,7 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
     { name: 'xml:lang', documentation: 'Language of the foreign text' },
   ]),
   el('term', 'Technical term', paraContent, [
-    { name: 'ref', documentation: 'Reference to definition' },
+    { name: 'ref', documentation: 'Reference to definition', datatype: 'teidata.pointer' },
   ]),
   el('gloss', 'Gloss or explanation', paraContent),
   el('soCalled', 'So-called', paraContent),
@@ -233,17 +234,17 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
 
   // References & links
   el('ref', 'Reference or link', paraContent, [
-    { name: 'target', documentation: 'Target URL or pointer' },
+    { name: 'target', documentation: 'Target URL or pointer', datatype: 'teidata.pointer' },
     { name: 'type', documentation: 'Type of reference' },
   ]),
   el('ptr', 'Pointer', [], [
-    { name: 'target', documentation: 'Target URL or pointer' },
+    { name: 'target', documentation: 'Target URL or pointer', datatype: 'teidata.pointer' },
     { name: 'type', documentation: 'Type of pointer' },
   ]),
   el('note', 'Note or annotation', [...paraContent, 'p'], [
     { name: 'place', documentation: 'Where the note appears (foot, end, margin, inline)' },
     { name: 'type', documentation: 'Type of note' },
-    { name: 'target', documentation: 'What the note is about' },
+    { name: 'target', documentation: 'What the note is about', datatype: 'teidata.pointer' },
     { name: 'anchored', values: ['true', 'false'], documentation: 'Whether anchored' },
   ]),
   el('anchor', 'Anchor point', []),
@@ -274,7 +275,7 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
     { name: 'type', documentation: 'Type of figure' },
   ]),
   el('graphic', 'Graphic', [], [
-    { name: 'url', documentation: 'URL of the image' },
+    { name: 'url', documentation: 'URL of the image', datatype: 'teidata.pointer' },
     { name: 'width', documentation: 'Width' },
     { name: 'height', documentation: 'Height' },
     { name: 'mimeType', documentation: 'MIME type' },
@@ -284,7 +285,7 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
   // Milestones
   el('pb', 'Page break', [], [
     { name: 'n', documentation: 'Page number' },
-    { name: 'facs', documentation: 'Facsimile reference' },
+    { name: 'facs', documentation: 'Facsimile reference', datatype: 'teidata.pointer' },
   ]),
   el('lb', 'Line break', [], [
     { name: 'n', documentation: 'Line number' },
@@ -310,15 +311,15 @@ export const TEI_LITE_ELEMENTS: ElementSpec[] = [
   // Critical apparatus
   el('app', 'Apparatus entry', ['lem', 'rdg', 'rdgGrp', 'note', 'witDetail']),
   el('lem', 'Lemma (base text reading)', paraContent, [
-    { name: 'wit', documentation: 'Witness(es)' },
+    { name: 'wit', documentation: 'Witness(es)', datatype: 'teidata.pointer' },
   ]),
   el('rdg', 'Reading (variant)', paraContent, [
-    { name: 'wit', documentation: 'Witness(es)' },
+    { name: 'wit', documentation: 'Witness(es)', datatype: 'teidata.pointer' },
     { name: 'type', documentation: 'Type of variant' },
   ]),
   el('witDetail', 'Witness detail', paraContent, [
-    { name: 'wit', documentation: 'Witness' },
-    { name: 'target', documentation: 'Target reading' },
+    { name: 'wit', documentation: 'Witness', datatype: 'teidata.pointer' },
+    { name: 'target', documentation: 'Target reading', datatype: 'teidata.pointer' },
   ]),
 
   // Manuscript description (simplified)
@@ -354,7 +355,7 @@ export const TEI_ALL_EXTRA_ELEMENTS: ElementSpec[] = [
   el('standOff', 'Stand-off markup', ['listAnnotation', 'listEvent', 'listPerson', 'listPlace', 'listOrg', 'listBibl']),
   el('listAnnotation', 'List of annotations', ['annotation']),
   el('annotation', 'Annotation', ['p', 'note'], [
-    { name: 'target', documentation: 'Target of annotation' },
+    { name: 'target', documentation: 'Target of annotation', datatype: 'teidata.pointer' },
     { name: 'type', documentation: 'Type of annotation' },
   ]),
 
@@ -375,7 +376,7 @@ export const TEI_ALL_EXTRA_ELEMENTS: ElementSpec[] = [
   ]),
   el('listEvent', 'List of events', ['event', 'listEvent', 'head']),
   el('event', 'Event', ['label', 'desc', 'note'], [
-    { name: 'when', documentation: 'Date of event' },
+    { name: 'when', documentation: 'Date of event', datatype: 'teidata.temporal.w3c' },
     { name: 'from', documentation: 'Start date' },
     { name: 'to', documentation: 'End date' },
   ]),
@@ -448,7 +449,7 @@ export const TEI_ALL_EXTRA_ELEMENTS: ElementSpec[] = [
   ]),
   el('docAuthor', 'Author on title page', paraContent),
   el('docDate', 'Date on title page', paraContent, [
-    { name: 'when', documentation: 'Normalized date' },
+    { name: 'when', documentation: 'Normalized date', datatype: 'teidata.temporal.w3c' },
   ]),
 ];
 
@@ -571,22 +572,22 @@ export const TEI_MSDESC_ELEMENTS: ElementSpec[] = [
   el('history', 'History of the manuscript', ['p', 'summary', 'origin', 'provenance', 'acquisition']),
   el('origin', 'Origin of the manuscript', ['p', 'origPlace', 'origDate']),
   el('origPlace', 'Place of origin', paraContent, [
-    { name: 'ref', documentation: 'Reference to a place authority' },
+    { name: 'ref', documentation: 'Reference to a place authority', datatype: 'teidata.pointer' },
   ]),
   el('origDate', 'Date of origin', paraContent, [
-    { name: 'when', documentation: 'Normalized date' },
-    { name: 'notBefore', documentation: 'Earliest possible date' },
-    { name: 'notAfter', documentation: 'Latest possible date' },
+    { name: 'when', documentation: 'Normalized date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notBefore', documentation: 'Earliest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notAfter', documentation: 'Latest possible date', datatype: 'teidata.temporal.w3c' },
   ]),
   el('provenance', 'Provenance record', ['p'], [
-    { name: 'when', documentation: 'Date of this provenance event' },
-    { name: 'notBefore', documentation: 'Earliest possible date' },
-    { name: 'notAfter', documentation: 'Latest possible date' },
+    { name: 'when', documentation: 'Date of this provenance event', datatype: 'teidata.temporal.w3c' },
+    { name: 'notBefore', documentation: 'Earliest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notAfter', documentation: 'Latest possible date', datatype: 'teidata.temporal.w3c' },
   ]),
   el('acquisition', 'Acquisition of the manuscript', ['p'], [
-    { name: 'when', documentation: 'Date of acquisition' },
-    { name: 'notBefore', documentation: 'Earliest possible date' },
-    { name: 'notAfter', documentation: 'Latest possible date' },
+    { name: 'when', documentation: 'Date of acquisition', datatype: 'teidata.temporal.w3c' },
+    { name: 'notBefore', documentation: 'Earliest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notAfter', documentation: 'Latest possible date', datatype: 'teidata.temporal.w3c' },
   ]),
 
   // Additional information
@@ -596,7 +597,7 @@ export const TEI_MSDESC_ELEMENTS: ElementSpec[] = [
   el('custodialHist', 'Custodial history', ['custEvent', 'p']),
   el('custEvent', 'Custodial event', ['p'], [
     { name: 'type', documentation: 'Type of event' },
-    { name: 'when', documentation: 'Date of event' },
+    { name: 'when', documentation: 'Date of event', datatype: 'teidata.temporal.w3c' },
   ]),
   el('surrogates', 'Information about surrogates', ['p', 'bibl', 'listBibl']),
 
@@ -625,7 +626,7 @@ export const TEI_MSDESC_ELEMENTS: ElementSpec[] = [
   el('biblFull', 'Full bibliographic description', ['titleStmt', 'editionStmt', 'extent', 'publicationStmt', 'seriesStmt', 'notesStmt', 'sourceDesc']),
   el('relatedItem', 'Related item', ['bibl', 'biblStruct', 'biblFull', 'p'], [
     { name: 'type', documentation: 'Type of relationship' },
-    { name: 'target', documentation: 'Target of relationship' },
+    { name: 'target', documentation: 'Target of relationship', datatype: 'teidata.pointer' },
   ]),
 ];
 
@@ -654,7 +655,7 @@ export const TEI_HEADER_EXTRA_ELEMENTS: ElementSpec[] = [
     { name: 'scheme', documentation: 'Classification scheme' },
   ]),
   el('catRef', 'Category reference', [], [
-    { name: 'target', documentation: 'Target category' },
+    { name: 'target', documentation: 'Target category', datatype: 'teidata.pointer' },
     { name: 'scheme', documentation: 'Classification scheme' },
   ]),
   el('taxonomy', 'Taxonomy definition', ['category', 'taxonomy', 'desc', 'bibl']),
@@ -703,7 +704,7 @@ export const TEI_HEADER_EXTRA_ELEMENTS: ElementSpec[] = [
   ]),
   el('normalization', 'Normalization principles', ['p'], [
     { name: 'method', values: ['silent', 'markup'], documentation: 'Normalization method' },
-    { name: 'source', documentation: 'Authority for normalization' },
+    { name: 'source', documentation: 'Authority for normalization', datatype: 'teidata.pointer' },
   ]),
   el('quotation', 'Quotation handling', ['p'], [
     { name: 'marks', values: ['none', 'some', 'all'], documentation: 'Quotation marks handling' },
@@ -724,7 +725,7 @@ export const TEI_HEADER_EXTRA_ELEMENTS: ElementSpec[] = [
   el('application', 'Application used', ['label', 'p'], [
     { name: 'ident', documentation: 'Application identifier' },
     { name: 'version', documentation: 'Version number' },
-    { name: 'when', documentation: 'Date used' },
+    { name: 'when', documentation: 'Date used', datatype: 'teidata.temporal.w3c' },
   ]),
 
   // XenoData
@@ -737,13 +738,13 @@ export const TEI_HEADER_EXTRA_ELEMENTS: ElementSpec[] = [
 
   // Misc header elements
   el('funder', 'Funding body', paraContent, [
-    { name: 'ref', documentation: 'Reference to funder record' },
+    { name: 'ref', documentation: 'Reference to funder record', datatype: 'teidata.pointer' },
   ]),
   el('principal', 'Principal researcher', paraContent, [
-    { name: 'ref', documentation: 'Reference to person record' },
+    { name: 'ref', documentation: 'Reference to person record', datatype: 'teidata.pointer' },
   ]),
   el('sponsor', 'Sponsoring organization', paraContent, [
-    { name: 'ref', documentation: 'Reference to org record' },
+    { name: 'ref', documentation: 'Reference to org record', datatype: 'teidata.pointer' },
   ]),
   el('authority', 'Release authority', paraContent),
   el('distributor', 'Distributor', paraContent),
@@ -761,19 +762,19 @@ export const TEI_HEADER_EXTRA_ELEMENTS: ElementSpec[] = [
 export const TEI_NAMESDATES_ELEMENTS: ElementSpec[] = [
   // Person components
   el('birth', 'Birth information', ['date', 'placeName', 'p', ...paraContent], [
-    { name: 'when', documentation: 'Date of birth' },
-    { name: 'notBefore', documentation: 'Earliest possible date' },
-    { name: 'notAfter', documentation: 'Latest possible date' },
+    { name: 'when', documentation: 'Date of birth', datatype: 'teidata.temporal.w3c' },
+    { name: 'notBefore', documentation: 'Earliest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notAfter', documentation: 'Latest possible date', datatype: 'teidata.temporal.w3c' },
   ]),
   el('death', 'Death information', ['date', 'placeName', 'p', ...paraContent], [
-    { name: 'when', documentation: 'Date of death' },
-    { name: 'notBefore', documentation: 'Earliest possible date' },
-    { name: 'notAfter', documentation: 'Latest possible date' },
+    { name: 'when', documentation: 'Date of death', datatype: 'teidata.temporal.w3c' },
+    { name: 'notBefore', documentation: 'Earliest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notAfter', documentation: 'Latest possible date', datatype: 'teidata.temporal.w3c' },
   ]),
   el('floruit', 'Floruit period', ['date', 'p', ...paraContent], [
-    { name: 'when', documentation: 'Floruit date' },
-    { name: 'notBefore', documentation: 'Earliest possible date' },
-    { name: 'notAfter', documentation: 'Latest possible date' },
+    { name: 'when', documentation: 'Floruit date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notBefore', documentation: 'Earliest possible date', datatype: 'teidata.temporal.w3c' },
+    { name: 'notAfter', documentation: 'Latest possible date', datatype: 'teidata.temporal.w3c' },
   ]),
   el('residence', 'Place of residence', ['placeName', 'p', ...paraContent], [
     { name: 'from', documentation: 'Start of residence' },
@@ -853,7 +854,7 @@ export const TEI_NAMESDATES_ELEMENTS: ElementSpec[] = [
   el('climate', 'Climate description', ['p', 'ab']),
   el('terrain', 'Terrain description', ['p', 'ab']),
   el('population', 'Population information', ['p', 'ab'], [
-    { name: 'when', documentation: 'Date of population count' },
+    { name: 'when', documentation: 'Date of population count', datatype: 'teidata.temporal.w3c' },
     { name: 'quantity', documentation: 'Population number' },
   ]),
 
@@ -876,7 +877,7 @@ export const TEI_NAMESDATES_ELEMENTS: ElementSpec[] = [
   // Setting
   el('setting', 'Setting description', ['p', 'name', 'placeName', 'date', 'time', 'locale', 'activity']),
   el('time', 'Time reference', paraContent, [
-    { name: 'when', documentation: 'Normalized time' },
+    { name: 'when', documentation: 'Normalized time', datatype: 'teidata.temporal.w3c' },
   ]),
   el('locale', 'Locale description', paraContent),
   el('activity', 'Activity description', paraContent),
@@ -898,16 +899,16 @@ export const TEI_TEXTCRIT_ELEMENTS: ElementSpec[] = [
     { name: 'type', documentation: 'Type of reading group' },
   ]),
   el('lacunaStart', 'Start of lacuna', [], [
-    { name: 'wit', documentation: 'Witness(es)' },
+    { name: 'wit', documentation: 'Witness(es)', datatype: 'teidata.pointer' },
   ]),
   el('lacunaEnd', 'End of lacuna', [], [
-    { name: 'wit', documentation: 'Witness(es)' },
+    { name: 'wit', documentation: 'Witness(es)', datatype: 'teidata.pointer' },
   ]),
   el('witStart', 'Start of witness reading', [], [
-    { name: 'wit', documentation: 'Witness' },
+    { name: 'wit', documentation: 'Witness', datatype: 'teidata.pointer' },
   ]),
   el('witEnd', 'End of witness reading', [], [
-    { name: 'wit', documentation: 'Witness' },
+    { name: 'wit', documentation: 'Witness', datatype: 'teidata.pointer' },
   ]),
   el('variantEncoding', 'Variant encoding method', [], [
     { name: 'method', values: ['location-referenced', 'double-end-point', 'parallel-segmentation'], documentation: 'Encoding method' },
@@ -983,10 +984,10 @@ export const TEI_TRANSCR_ELEMENTS: ElementSpec[] = [
     { name: 'type', documentation: 'Type of modification' },
   ]),
   el('redo', 'Reinstatement of deleted text', paraContent, [
-    { name: 'target', documentation: 'What is reinstated' },
+    { name: 'target', documentation: 'What is reinstated', datatype: 'teidata.pointer' },
   ]),
   el('undo', 'Cancellation of an addition', paraContent, [
-    { name: 'target', documentation: 'What is undone' },
+    { name: 'target', documentation: 'What is undone', datatype: 'teidata.pointer' },
   ]),
   el('retrace', 'Retracing of text', paraContent),
   el('restore', 'Restoration of text', paraContent, [
@@ -1000,7 +1001,7 @@ export const TEI_TRANSCR_ELEMENTS: ElementSpec[] = [
   el('metamark', 'Mark in the source not part of content', paraContent, [
     { name: 'function', documentation: 'Function of metamark' },
     { name: 'place', documentation: 'Location of metamark' },
-    { name: 'target', documentation: 'What it refers to' },
+    { name: 'target', documentation: 'What it refers to', datatype: 'teidata.pointer' },
   ]),
   el('transpose', 'Transposition of elements', ['ptr'], [
     { name: 'type', documentation: 'Type of transposition' },
@@ -1025,7 +1026,7 @@ export const TEI_GAIJI_ELEMENTS: ElementSpec[] = [
   el('localName', 'Local property name', paraContent),
   el('value', 'Property value', paraContent),
   el('g', 'Special character reference', paraContent, [
-    { name: 'ref', documentation: 'Reference to character definition' },
+    { name: 'ref', documentation: 'Reference to character definition', datatype: 'teidata.pointer' },
   ]),
   el('glyph', 'Glyph definition', ['glyphName', 'charProp', 'mapping', 'figure', 'note', 'desc'], [
     { name: 'xml:id', documentation: 'Glyph identifier' },
@@ -1062,7 +1063,7 @@ export const TEI_VERSE_ELEMENTS: ElementSpec[] = [
 
 export const TEI_SPOKEN_ELEMENTS: ElementSpec[] = [
   el('u', 'Utterance', [...paraContent, 'pause', 'vocal', 'kinesic', 'incident'], [
-    { name: 'who', documentation: 'Speaker' },
+    { name: 'who', documentation: 'Speaker', datatype: 'teidata.pointer' },
     { name: 'trans', values: ['smooth', 'latching', 'overlap', 'pause'], documentation: 'Transition type' },
   ]),
   el('pause', 'Pause in speech', [], [
@@ -1071,18 +1072,18 @@ export const TEI_SPOKEN_ELEMENTS: ElementSpec[] = [
   ]),
   el('vocal', 'Vocalization', paraContent, [
     { name: 'type', documentation: 'Type (e.g., cough, laugh)' },
-    { name: 'who', documentation: 'Who made the sound' },
+    { name: 'who', documentation: 'Who made the sound', datatype: 'teidata.pointer' },
   ]),
   el('kinesic', 'Kinesic movement', paraContent, [
     { name: 'type', documentation: 'Type of movement' },
-    { name: 'who', documentation: 'Who made the movement' },
+    { name: 'who', documentation: 'Who made the movement', datatype: 'teidata.pointer' },
   ]),
   el('incident', 'External event', paraContent, [
     { name: 'type', documentation: 'Type of incident' },
   ]),
   el('writing', 'Written material in spoken text', paraContent, [
     { name: 'type', documentation: 'Type of writing' },
-    { name: 'who', documentation: 'Who wrote it' },
+    { name: 'who', documentation: 'Who wrote it', datatype: 'teidata.pointer' },
   ]),
   el('shift', 'Shift in vocal quality', [], [
     { name: 'feature', documentation: 'Changed feature' },
@@ -1113,7 +1114,7 @@ export const TEI_FIGURES_ELEMENTS: ElementSpec[] = [
     { name: 'encoding', documentation: 'Encoding (e.g., base64)' },
   ]),
   el('media', 'Media object', [], [
-    { name: 'url', documentation: 'URL' },
+    { name: 'url', documentation: 'URL', datatype: 'teidata.pointer' },
     { name: 'mimeType', documentation: 'MIME type' },
     { name: 'width', documentation: 'Width' },
     { name: 'height', documentation: 'Height' },
@@ -1127,7 +1128,8 @@ export const TEI_FIGURES_ELEMENTS: ElementSpec[] = [
 // `teiP5Generated` is ~528 KB of static element/attribute data. We avoid
 // importing it eagerly so that users who only ever load TEI Lite never pay
 // for it. The TEI All loader and the diagnostic counter both go through
-// `loadP5Module()` which lazily fetches the chunk on first use and caches it.
+// `loadP5Module()` which lazily fetches the chunk on first use and caches it
+// (the ODD processor uses it too).
 //
 // The cost is one network round-trip the first time a user picks TEI All
 // (deferred from page-load to schema-load); validation itself is unaffected
@@ -1141,7 +1143,7 @@ export const TEI_FIGURES_ELEMENTS: ElementSpec[] = [
 
 type P5Module = typeof import('./teiP5Generated');
 let p5ModulePromise: Promise<P5Module> | null = null;
-function loadP5Module(): Promise<P5Module> {
+export function loadP5Module(): Promise<P5Module> {
   if (!p5ModulePromise) {
     p5ModulePromise = import('./teiP5Generated');
   }
@@ -1160,10 +1162,57 @@ async function getP5AllElements(): Promise<ElementSpec[]> {
     documentation: p5El.documentation,
     children: p5El.children,
     attributes: mod.getElementAttributes(p5El.name),
+    contentModel: p5El.contentModel && relaxP5ContentModel(p5El.contentModel),
   }));
   return cachedP5Elements;
 }
 
+/**
+ * Make a generated P5 content model safe to validate against.
+ *
+ * The generator's structure (sequence order, alternatives, class expansion)
+ * is mostly faithful, but its occurrence data is not: every particle comes
+ * out 1..1 (fileDesc would require editionStmt and allow a single
+ * sourceDesc), and text nodes and whole macro expansions can be lost (p's
+ * model is just paramSpec). So every NESTED particle becomes 0..∞ and the
+ * model is interleaved with text. The element's own top-level sequence is
+ * kept non-repeating — that still enforces order; a top-level choice
+ * becomes repeatable. The result accepts every valid TEI document and only
+ * rejects misordered content.
+ *
+ * This is the fallback: the elements of teiContentModels.ts (the header,
+ * the text frame, the compound elements) get their real models instead.
+ */
+function relaxP5ContentModel(model: ContentModel): ContentModel {
+  const relaxItem = (item: ContentItem): ContentItem => ({
+    ...item,
+    content: item.content && relaxModel(item.content),
+    minOccurs: 0,
+    maxOccurs: Infinity,
+  });
+  const relaxModel = (m: ContentModel): ContentModel => ({
+    ...m,
+    items: m.items?.map(relaxItem),
+    minOccurs: 0,
+    maxOccurs: Infinity,
+  });
+  const ordered = model.type === 'sequence' || model.type === 'group';
+  return {
+    type: 'interleave',
+    items: [
+      { kind: 'text', minOccurs: 0, maxOccurs: Infinity },
+      {
+        kind: 'group',
+        content: { ...relaxModel(model), maxOccurs: ordered ? model.maxOccurs : Infinity },
+        minOccurs: 0,
+        maxOccurs: 1,
+      },
+    ],
+    minOccurs: 1,
+    maxOccurs: 1,
+  };
+}
+
 // ============================================================================
 // Utility function to get all TEI elements
 // ============================================================================
@@ -1171,13 +1220,16 @@ async function getP5AllElements(): Promise<ElementSpec[]> {
 /**
  * TEI Lite elements (synchronous, no P5 dependency).
  *
- * Returns `TEI_LITE_ELEMENTS` as-is. Each entry already carries
- * `globalAttrs` plus its element-specific attributes; the previous
- * P5-class enrichment was dropped to keep TEI Lite truly lightweight
- * (no 528 KB chunk download for Lite-only users).
+ * `TEI_LITE_ELEMENTS` with the real content models of teiContentModels.ts
+ * (built once). Each entry already carries `globalAttrs` plus its
+ * element-specific attributes; the previous P5-class enrichment was dropped
+ * to keep TEI Lite truly lightweight (no 528 KB chunk download for
+ * Lite-only users).
  */
+let cachedTeiLiteElements: ElementSpec[] | null = null;
 export function getTeiLiteElements(): ElementSpec[] {
-  return TEI_LITE_ELEMENTS;
+  if (!cachedTeiLiteElements) cachedTeiLiteElements = withTeiContentModels(TEI_LITE_ELEMENTS);
+  return cachedTeiLiteElements;
 }
 
 /**
@@ -1237,7 +1289,9 @@ export async function getTeiAllElements(): Promise<ElementSpec[]> {
     }
   }
 
-  return Array.from(elementMap.values());
+  // Real models where the P5 data's had to be relaxed (against the merged
+  // children lists)
+  return withTeiContentModels(Array.from(elementMap.values()));
 }
 
 /**
@@ -0,0 +1,23 @@
+/**
+ * Web Worker entry for schema and Schematron validation. All logic lives in
+ * validationWorkerCore.ts; this file only wires it to the worker scope.
+ */
+import { createValidationWorkerHandler, type ValidationWorkerRequest } from './validationWorkerCore';
+import { installXmlDom } from './xmlDom';
+
+// The app's tsconfig only loads the DOM lib, so the worker global is typed
+// structurally instead of pulling in the (conflicting) WebWorker lib.
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<ValidationWorkerRequest>) => void) | null;
+  postMessage: (msg: unknown) => void;
+};
+
+// Schematron compares against the DOM's Node and XPathResult constants, which workers lack
+installXmlDom(self as unknown as Record<string, unknown>);
+
+const handle = createValidationWorkerHandler();
+
+scope.onmessage = (e) => {
+  const response = handle(e.data);
+  if (response) scope.postMessage(response);
+};
@@ -0,0 +1,361 @@
+/**
+ * Off-main-thread validation service (worker pool + per-document lanes).
+ *
+ * The live linter used to run the whole validateXml + validateSchematron
+ * pass synchronously on every debounce tick; on 5k-line editions the
+ * schema-conformance scan alone stalls typing. This service moves that scan
+ * and the Schematron rules into a small pool of Web Workers and keeps the
+ * rest of the pipeline byte-for-byte what validateXml() produces:
+ *
+ *   1. well-formedness (DOMParser, native + fast)   — main thread
+ *   2. checkSchemaConformance (the heavy JS scan)    — worker
+ *   3. validateSchematron (DOM + XPath)              — worker
+ *   4. checkReferenceIntegrity (xml:id / pointers)   — main thread
+ *
+ * Workers expose neither DOMParser nor document.evaluate; phase 3 reads
+ * documents with the XML DOM and XPath engine of xmlDom.ts, wherever it
+ * runs. Phase 4 stays: a
+ * cheap text scan that needs the workspace id index living on the main
+ * thread, run only for the newest snapshot.
+ *
+ * VERSIONING: every request belongs to a lane (one per document key) and
+ * is stamped with the lane's next version. A lane holds at most one queued
+ * snapshot — a newer request replaces the queued one (which resolves null
+ * immediately) — and a newer request also abandons the running job: it
+ * resolves null at once and the newest snapshot starts. The worker's answer
+ * to an abandoned job is ignored by its request id, and a worker busy with
+ * nothing but abandoned jobs is terminated and replaced, so the newest
+ * snapshot never waits for stale work. Callers treat null as "superseded,
+ * ignore".
+ *
+ * FALLBACK: without Worker support (jsdom, old browsers, a worker script
+ * the CSP or network refused) phases 2 and 3 run inline, so results are
+ * identical in every environment — only where the work happens changes.
+ */
+import type { SchemaInfo, ValidationError } from '../types/schema';
+import { checkWellFormedness } from './xmlValidator';
+import type { SchematronSchema } from './schematron';
+import { checkReferenceIntegrity, type ReferenceContext } from './referenceIntegrity';
+import { checkDocument, type ValidationWorkerRequest, type ValidationWorkerResponse } from './validationWorkerCore';
+
+/** The slice of the Worker API the pool uses (lets tests inject a fake). */
+export interface ValidationWorkerLike {
+  postMessage(msg: ValidationWorkerRequest): void;
+  onmessage: ((e: { data: ValidationWorkerResponse }) => void) | null;
+  onerror: ((e: unknown) => void) | null;
+  terminate(): void;
+}
+
+export type ValidationWorkerFactory = () => ValidationWorkerLike;
+
+interface PendingRequest {
+  resolve: (errors: ValidationError[] | null) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolSlot {
+  worker: ValidationWorkerLike;
+  /** Schema object last posted per id — re-post when the object changes (custom re-upload). */
+  schemas: Map<string, SchemaInfo>;
+  /** Ids of the Schematron schemas posted to this worker. */
+  schematrons: Set<string>;
+  pending: Map<number, PendingRequest>;
+  /** Requests of abandoned jobs the worker is still busy with; their answers are dropped. */
+  abandoned: Set<number>;
+}
+
+interface LaneJob {
+  version: number;
+  content: string;
+  schema: SchemaInfo | null;
+  schematron: SchematronSchema | null;
+  references: ReferenceContext | null;
+  resolve: (errors: ValidationError[] | null) => void;
+  /** Stop waiting for the worker (set while the job is posted to one). */
+  abandon?: () => void;
+}
+
+interface Lane {
+  version: number;
+  running: LaneJob | null;
+  queued: LaneJob | null;
+}
+
+const MAX_POOL_SIZE = 4;
+
+function defaultWorkerFactory(): ValidationWorkerFactory | null {
+  if (typeof Worker === 'undefined') return null;
+  return () =>
+    new Worker(new URL('./validation.worker.ts', import.meta.url), {
+      type: 'module',
+    }) as unknown as ValidationWorkerLike;
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 2 : 2;
+  // Leave one core for the UI thread.
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+export class ValidationService {
+  private factory: ValidationWorkerFactory | null;
+  private poolSize: number;
+  private slots: PoolSlot[] | null = null;
+  private lanes = new Map<string, Lane>();
+  private nextRequestId = 1;
+  /** Schematron schemas are registered by object: a phase change is a new object. */
+  private schematronIds = new WeakMap<SchematronSchema, string>();
+  private nextSchematronId = 1;
+  /** Schematron id each document last validated with; an id no document uses is unregistered. */
+  private schematronUsers = new Map<string, string>();
+
+  constructor(factory: ValidationWorkerFactory | null = defaultWorkerFactory(), poolSize = defaultPoolSize()) {
+    this.factory = factory;
+    this.poolSize = poolSize;
+  }
+
+  /** True while schema conformance runs off the main thread. */
+  get usesWorkers(): boolean {
+    return this.factory !== null;
+  }
+
+  /** How many documents can usefully be validated at once (batch fan-out). */
+  get concurrency(): number {
+    return this.usesWorkers ? this.poolSize : 1;
+  }
+
+  /**
+   * Validate a snapshot of `docKey`. Resolves with the same diagnostics
+   * validateXml + validateSchematron would return — plus the reference
+   * integrity pass, cross-file when `references` places the document in a
+   * workspace — or null when a newer snapshot of the same document
+   * superseded this one.
+   */
+  validate(
+    docKey: string,
+    content: string,
+    schema: SchemaInfo | null,
+    schematron: SchematronSchema | null = null,
+    references: ReferenceContext | null = null,
+  ): Promise<ValidationError[] | null> {
+    let lane = this.lanes.get(docKey);
+    if (!lane) {
+      lane = { version: 0, running: null, queued: null };
+      this.lanes.set(docKey, lane);
+    }
+    const version = ++lane.version;
+    this.useSchematron(docKey, schematron);
+
+    return new Promise((resolve) => {
+      // A queued snapshot that never started is simply dropped, and the
+      // running one stops waiting for its worker.
+      lane.queued?.resolve(null);
+      lane.queued = { version, content, schema, schematron, references, resolve };
+      lane.running?.abandon?.();
+      this.pump(docKey, lane);
+    });
+  }
+
+  /** Stop all workers; the next validation lazily starts a fresh pool. */
+  dispose(): void {
+    for (const slot of this.slots ?? []) {
+      slot.worker.terminate();
+      for (const p of slot.pending.values()) p.reject(new Error('Validation service disposed'));
+    }
+    this.slots = null;
+  }
+
+  /**
+   * Record which ruleset `docKey` now validates with. When that replaces
+   * its previous one (new rules, another phase) and no other document
+   * still uses the old one, every worker holding it drops it.
+   */
+  private useSchematron(docKey: string, schematron: SchematronSchema | null): void {
+    const id = schematron ? this.schematronIdOf(schematron) : null;
+    const previous = this.schematronUsers.get(docKey) ?? null;
+    if (id === previous) return;
+    if (id) this.schematronUsers.set(docKey, id);
+    else this.schematronUsers.delete(docKey);
+    if (!previous || [...this.schematronUsers.values()].includes(previous)) return;
+    // Posted after any validate that still names it, so those still find it
+    for (const slot of this.slots ?? []) {
+      if (slot.schematrons.delete(previous)) slot.worker.postMessage({ type: 'unregister-schematron', id: previous });
+    }
+  }
+
+  private schematronIdOf(schematron: SchematronSchema): string {
+    let id = this.schematronIds.get(schematron);
+    if (!id) {
+      id = `schematron:${this.nextSchematronId++}`;
+      this.schematronIds.set(schematron, id);
+    }
+    return id;
+  }
+
+  private pump(docKey: string, lane: Lane): void {
+    if (lane.running || !lane.queued) return;
+    const job = lane.queued;
+    lane.queued = null;
+    lane.running = job;
+
+    this.runJob(job, () => lane.version !== job.version)
+      .then(job.resolve, () => job.resolve(null))
+      .finally(() => {
+        lane.running = null;
+        if (lane.queued) {
+          this.pump(docKey, lane);
+        } else {
+          this.lanes.delete(docKey);
+        }
+      });
+  }
+
+  private async runJob(job: LaneJob, isStale: () => boolean): Promise<ValidationError[] | null> {
+    const wellFormed = checkWellFormedness(job.content);
+    // Can't do schema or rule checks on malformed XML
+    if (wellFormed.length > 0) return wellFormed;
+
+    const errors = job.schema || job.schematron ? await this.checkOffThread(job) : [];
+    if (errors === null || isStale()) return null;
+
+    errors.push(...checkReferenceIntegrity(job.content, job.references));
+    return errors;
+  }
+
+  /** Phases 2 and 3 in a worker, or inline without one; null when abandoned. */
+  private async checkOffThread(job: LaneJob): Promise<ValidationError[] | null> {
+    const slot = this.acquireSlot();
+    if (!slot) return checkDocument(job.content, job.schema, job.schematron);
+
+    try {
+      return await this.postValidate(slot, job);
+    } catch {
+      // Worker refused or failed this request — the inline result is identical.
+      return checkDocument(job.content, job.schema, job.schematron);
+    }
+  }
+
+  private postValidate(slot: PoolSlot, job: LaneJob): Promise<ValidationError[] | null> {
+    const { schema, schematron } = job;
+    return new Promise((resolve, reject) => {
+      const requestId = this.nextRequestId++;
+      slot.pending.set(requestId, { resolve, reject });
+      let schematronId: string | null = null;
+      try {
+        if (schema && slot.schemas.get(schema.id) !== schema) {
+          slot.worker.postMessage({ type: 'register-schema', schema });
+          slot.schemas.set(schema.id, schema);
+        }
+        if (schematron) {
+          schematronId = this.schematronIdOf(schematron);
+          if (!slot.schematrons.has(schematronId)) {
+            slot.worker.postMessage({ type: 'register-schematron', id: schematronId, schematron });
+            slot.schematrons.add(schematronId);
+          }
+        }
+        slot.worker.postMessage({ type: 'validate', requestId, schemaId: schema?.id ?? null, schematronId, content: job.content });
+      } catch (err) {
+        // e.g. DataCloneError — drop the registrations so they are retried next time
+        slot.pending.delete(requestId);
+        if (schema) slot.schemas.delete(schema.id);
+        if (schematronId) slot.schematrons.delete(schematronId);
+        reject(err instanceof Error ? err : new Error('postMessage failed'));
+        return;
+      }
+      job.abandon = () => {
+        if (!slot.pending.delete(requestId)) return;
+        slot.abandoned.add(requestId);
+        resolve(null);
+      };
+    });
+  }
+
+  /** Least-busy worker, starting the pool on first use; null = run inline. */
+  private acquireSlot(): PoolSlot | null {
+    if (!this.factory) return null;
+    if (!this.slots) {
+      try {
+        this.slots = Array.from({ length: this.poolSize }, () => this.createSlot());
+      } catch {
+        this.disableWorkers();
+        return null;
+      }
+    }
+    const load = (slot: PoolSlot) => slot.pending.size + slot.abandoned.size;
+    let best = this.slots[0];
+    for (const slot of this.slots) {
+      if (load(slot) < load(best)) best = slot;
+    }
+    // Busy with nothing but abandoned jobs: a fresh worker starts sooner
+    if (best.pending.size === 0 && best.abandoned.size > 0) {
+      try {
+        best.worker.terminate();
+        this.startWorker(best);
+      } catch {
+        this.disableWorkers();
+        return null;
+      }
+    }
+    return best;
+  }
+
+  private createSlot(): PoolSlot {
+    const slot: PoolSlot = {
+      worker: this.spawnWorker(),
+      schemas: new Map(),
+      schematrons: new Set(),
+      pending: new Map(),
+      abandoned: new Set(),
+    };
+    this.listen(slot);
+    return slot;
+  }
+
+  /** Replace the slot's worker with a fresh one, which has nothing registered yet. */
+  private startWorker(slot: PoolSlot): void {
+    slot.worker = this.spawnWorker();
+    slot.schemas.clear();
+    slot.schematrons.clear();
+    slot.abandoned.clear();
+    this.listen(slot);
+  }
+
+  private spawnWorker(): ValidationWorkerLike {
+    if (!this.factory) throw new Error('Workers disabled');
+    return this.factory();
+  }
+
+  private listen(slot: PoolSlot): void {
+    const worker = slot.worker;
+    worker.onmessage = (e) => {
+      const msg = e.data;
+      if (slot.worker !== worker || slot.abandoned.delete(msg.requestId)) return;
+      const pending = slot.pending.get(msg.requestId);
+      if (!pending) return;
+      slot.pending.delete(msg.requestId);
+      if (msg.type === 'result') {
+        pending.resolve(msg.errors);
+      } else {
+        pending.reject(new Error(msg.message));
+      }
+    };
+
+    // A worker that fails to load (CSP, offline without the chunk cached)
+    // errors once and never answers — switch the whole service to inline.
+    worker.onerror = () => {
+      if (slot.worker !== worker) return;
+      const orphaned = [...slot.pending.values()];
+      slot.pending.clear();
+      this.disableWorkers();
+      for (const p of orphaned) p.reject(new Error('Validation worker failed'));
+    };
+  }
+
+  private disableWorkers(): void {
+    this.dispose();
+    this.factory = null;
+  }
+}
+
+/** Singleton instance */
+export const validationService = new ValidationService();
@@ -0,0 +1,94 @@
+/**
+ * Validation worker protocol + message handler.
+ *
+ * Kept separate from the worker entry (`validation.worker.ts`) so the
+ * handler is a plain function: the service's tests drive it through an
+ * in-process fake Worker, and the entry file stays a short shim.
+ *
+ * The worker OWNS the schema registry — a SchemaInfo (or a Schematron
+ * schema) is structured-cloned across once per (worker, schema object) and
+ * every later request refers to it by id, so a keystroke only ships the
+ * document text.
+ *
+ * Schema conformance and Schematron run here. Schematron reads documents
+ * with the XML DOM and XPath engine of xmlDom.ts, which need nothing a
+ * worker lacks; the well-formedness pre-check stays on the main thread
+ * (see validationService.ts).
+ */
+import type { SchemaInfo, ValidationError } from '../types/schema';
+import { checkSchemaConformance } from './xmlValidator';
+import { validateSchematron, type SchematronSchema } from './schematron';
+
+/** Main thread → worker. */
+export type ValidationWorkerRequest =
+  | { type: 'register-schema'; schema: SchemaInfo }
+  | { type: 'register-schematron'; id: string; schematron: SchematronSchema }
+  | { type: 'unregister-schematron'; id: string }
+  | { type: 'validate'; requestId: number; schemaId: string | null; schematronId: string | null; content: string };
+
+/** Worker → main thread. */
+export type ValidationWorkerResponse =
+  | { type: 'result'; requestId: number; errors: ValidationError[] }
+  | { type: 'failed'; requestId: number; message: string };
+
+/**
+ * The phases that run off the main thread, on a well-formed document:
+ * schema conformance, then Schematron. The service runs the same function
+ * inline when there are no workers.
+ */
+export function checkDocument(
+  content: string,
+  schema: SchemaInfo | null,
+  schematron: SchematronSchema | null,
+): ValidationError[] {
+  const errors = schema ? checkSchemaConformance(content, schema) : [];
+  if (schematron) errors.push(...validateSchematron(content, schematron));
+  return errors;
+}
+
+/**
+ * Create a handler bound to its own schema registry. Returns the response
+ * to post back, or null for messages that need no reply (registration).
+ */
+export function createValidationWorkerHandler(): (
+  msg: ValidationWorkerRequest,
+) => ValidationWorkerResponse | null {
+  const registry = new Map<string, SchemaInfo>();
+  const schematrons = new Map<string, SchematronSchema>();
+
+  return (msg) => {
+    switch (msg.type) {
+      case 'register-schema':
+        registry.set(msg.schema.id, msg.schema);
+        return null;
+
+      case 'register-schematron':
+        schematrons.set(msg.id, msg.schematron);
+        return null;
+
+      case 'unregister-schematron':
+        schematrons.delete(msg.id);
+        return null;
+
+      case 'validate': {
+        const schema = msg.schemaId === null ? null : registry.get(msg.schemaId);
+        if (schema === undefined) {
+          return { type: 'failed', requestId: msg.requestId, message: `Schema not registered: ${msg.schemaId}` };
+        }
+        const schematron = msg.schematronId === null ? null : schematrons.get(msg.schematronId);
+        if (schematron === undefined) {
+          return { type: 'failed', requestId: msg.requestId, message: `Schematron not registered: ${msg.schematronId}` };
+        }
+        try {
+          return { type: 'result', requestId: msg.requestId, errors: checkDocument(msg.content, schema, schematron) };
+        } catch (err) {
+          return {
+            type: 'failed',
+            requestId: msg.requestId,
+            message: err instanceof Error ? err.message : 'validation failed',
+          };
+        }
+      }
+    }
+  };
+}
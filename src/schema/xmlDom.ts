@@ -0,0 +1,504 @@
+/**
+ * A small XML DOM for the Schematron engine.
+ *
+ * Dedicated workers have neither DOMParser nor document.evaluate, and the
+ * DOM's XPath cannot bind variables, so Schematron (schematron.ts,
+ * schematronQuickFix.ts) reads documents with this module on both threads.
+ * It parses a document into nodes with the part of the DOM API those
+ * modules and the node→source maps (xmlTokenizer.ts) read — node types,
+ * names and namespaces, siblings, attributes, getElementsByTagName, a text
+ * TreeWalker — and evaluates XPath 1.0 over them (xpathEngine.ts).
+ * installXmlDom() gives a worker the DOM's `Node` and `XPathResult`
+ * constants those modules compare against.
+ *
+ * The parser is strict enough for documents the main thread has already
+ * found well-formed (the worker only sees those): namespaces are resolved,
+ * the five predefined and numeric entities are decoded, CDATA, comments
+ * and processing instructions become nodes. General entities declared in
+ * the DOCTYPE's internal subset are expanded, markup included, as the
+ * browser's parser does; external ones are not fetched and expand to
+ * nothing. Anything it cannot read yields a document with a
+ * `<parsererror>`, as DOMParser does.
+ */
+
+import { decodeEntities } from './attributeDatatypes';
+import { evaluateXPath, XPATH_RESULT_TYPES, type XPathNamespaceResolver, type XPathResultLike } from './xpathEngine';
+
+/** Node type numbers, as in the DOM's `Node` interface. */
+export const NODE_TYPES = {
+  ELEMENT_NODE: 1,
+  ATTRIBUTE_NODE: 2,
+  TEXT_NODE: 3,
+  CDATA_SECTION_NODE: 4,
+  PROCESSING_INSTRUCTION_NODE: 7,
+  COMMENT_NODE: 8,
+  DOCUMENT_NODE: 9,
+} as const;
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+/** NodeFilter.SHOW_ELEMENT and SHOW_TEXT, the filters createTreeWalker supports. */
+const SHOW_ELEMENT = 1;
+const SHOW_TEXT = 4;
+
+export abstract class XmlNode {
+  abstract readonly nodeType: number;
+  abstract readonly nodeName: string;
+  parentNode: XmlElement | XmlDocument | null = null;
+  previousSibling: XmlNode | null = null;
+  nextSibling: XmlNode | null = null;
+  readonly childNodes: XmlNode[] = [];
+  /** Position in document order (the XPath engine sorts by it). */
+  order = 0;
+
+  constructor(readonly ownerDocument: XmlDocument | null) {}
+
+  get firstChild(): XmlNode | null {
+    return this.childNodes[0] ?? null;
+  }
+
+  get lastChild(): XmlNode | null {
+    return this.childNodes[this.childNodes.length - 1] ?? null;
+  }
+
+  get nodeValue(): string | null {
+    return null;
+  }
+
+  /** The concatenated text of the node (its XPath string-value). */
+  get textContent(): string {
+    return this.nodeValue ?? '';
+  }
+
+  appendChild(child: XmlNode): void {
+    const last = this.lastChild;
+    if (last) last.nextSibling = child;
+    child.previousSibling = last;
+    child.parentNode = this as unknown as XmlElement | XmlDocument;
+    this.childNodes.push(child);
+  }
+}
+
+export class XmlCharacterData extends XmlNode {
+  constructor(
+    readonly nodeType: typeof NODE_TYPES.TEXT_NODE | typeof NODE_TYPES.CDATA_SECTION_NODE | typeof NODE_TYPES.COMMENT_NODE,
+    public data: string,
+    ownerDocument: XmlDocument,
+  ) {
+    super(ownerDocument);
+  }
+
+  get nodeName(): string {
+    return this.nodeType === NODE_TYPES.COMMENT_NODE ? '#comment'
+      : this.nodeType === NODE_TYPES.CDATA_SECTION_NODE ? '#cdata-section' : '#text';
+  }
+
+  get nodeValue(): string {
+    return this.data;
+  }
+}
+
+export class XmlProcessingInstruction extends XmlNode {
+  readonly nodeType = NODE_TYPES.PROCESSING_INSTRUCTION_NODE;
+
+  constructor(readonly target: string, public data: string, ownerDocument: XmlDocument) {
+    super(ownerDocument);
+  }
+
+  get nodeName(): string {
+    return this.target;
+  }
+
+  get nodeValue(): string {
+    return this.data;
+  }
+}
+
+export class XmlAttr extends XmlNode {
+  readonly nodeType = NODE_TYPES.ATTRIBUTE_NODE;
+  ownerElement: XmlElement | null = null;
+
+  constructor(
+    readonly name: string,
+    readonly prefix: string | null,
+    readonly localName: string,
+    readonly namespaceURI: string | null,
+    public value: string,
+    ownerDocument: XmlDocument,
+  ) {
+    super(ownerDocument);
+  }
+
+  get nodeName(): string {
+    return this.name;
+  }
+
+  get nodeValue(): string {
+    return this.value;
+  }
+}
+
+export class XmlElement extends XmlNode {
+  readonly nodeType = NODE_TYPES.ELEMENT_NODE;
+  readonly attributes: XmlAttr[] = [];
+
+  constructor(
+    readonly tagName: string,
+    readonly prefix: string | null,
+    readonly localName: string,
+    readonly namespaceURI: string | null,
+    ownerDocument: XmlDocument,
+  ) {
+    super(ownerDocument);
+  }
+
+  get nodeName(): string {
+    return this.tagName;
+  }
+
+  get children(): XmlElement[] {
+    return this.childNodes.filter((n): n is XmlElement => n instanceof XmlElement);
+  }
+
+  get textContent(): string {
+    return this.childNodes
+      .filter(n => n.nodeType !== NODE_TYPES.COMMENT_NODE && n.nodeType !== NODE_TYPES.PROCESSING_INSTRUCTION_NODE)
+      .map(n => n.textContent)
+      .join('');
+  }
+
+  getAttributeNode(name: string): XmlAttr | null {
+    return this.attributes.find(a => a.name === name) ?? null;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.getAttributeNode(name)?.value ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.getAttributeNode(name) !== null;
+  }
+
+  getAttributeNS(namespaceURI: string | null, localName: string): string | null {
+    return this.attributes.find(a => a.namespaceURI === namespaceURI && a.localName === localName)?.value ?? null;
+  }
+}
+
+export class XmlDocument extends XmlNode {
+  readonly nodeType = NODE_TYPES.DOCUMENT_NODE;
+  readonly nodeName = '#document';
+  documentElement: XmlElement | null = null;
+
+  constructor() {
+    super(null);
+  }
+
+  get textContent(): string {
+    return this.documentElement?.textContent ?? '';
+  }
+
+  /** Elements with the qualified name `name` (`*` for all), in document order. */
+  getElementsByTagName(name: string): XmlElement[] {
+    const out: XmlElement[] = [];
+    const visit = (node: XmlNode) => {
+      for (const child of node.childNodes) {
+        if (child instanceof XmlElement) {
+          if (name === '*' || child.tagName === name) out.push(child);
+          visit(child);
+        }
+      }
+    };
+    visit(this);
+    return out;
+  }
+
+  /** Only what the Schematron engine asks: `parsererror`, by element name. */
+  querySelector(selector: string): XmlElement | null {
+    return this.getElementsByTagName(selector)[0] ?? null;
+  }
+
+  /** A walker over the elements or the text nodes below `root` (NodeFilter.SHOW_ELEMENT / SHOW_TEXT). */
+  createTreeWalker(root: XmlNode, whatToShow: number): { nextNode(): XmlNode | null } {
+    const nodes: XmlNode[] = [];
+    const visit = (node: XmlNode) => {
+      for (const child of node.childNodes) {
+        if ((whatToShow & SHOW_ELEMENT && child.nodeType === NODE_TYPES.ELEMENT_NODE)
+          || (whatToShow & SHOW_TEXT && child.nodeType === NODE_TYPES.TEXT_NODE)) nodes.push(child);
+        visit(child);
+      }
+    };
+    visit(root);
+    let index = 0;
+    return { nextNode: () => nodes[index++] ?? null };
+  }
+
+  evaluate(
+    expression: string,
+    contextNode: XmlNode,
+    resolver: XPathNamespaceResolver | null,
+    type: number,
+    _result?: unknown,
+  ): XPathResultLike {
+    return evaluateXPath(expression, contextNode, resolver, type);
+  }
+}
+
+class XmlSyntaxError extends Error {}
+
+const NAME = /[A-Za-z_:\u00C0-\uFFFF][\w.\-:\u00B7\u00C0-\uFFFF]*/y;
+const WHITESPACE = /[ \t\n]*/y;
+const REFERENCE = /&([^&;\s<]*)(;?)/g;
+const PREDEFINED = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+const ENTITY_DECLARATION = /<!ENTITY\s+(%\s+)?([^\s%"'>]+)\s+(?:"([^"]*)"|'([^']*)'|(?:SYSTEM|PUBLIC)\b(?:[^>"']|"[^"]*"|'[^']*')*)\s*>/g;
+/** Expansions per document — past this, a nested entity bomb is refused. */
+const MAX_EXPANSIONS = 100_000;
+
+/**
+ * General entities of a DOCTYPE's internal subset: replacement text by
+ * name, null for an external one. Character references in a literal are
+ * expanded when it is declared; the first declaration of a name wins.
+ */
+function entityDeclarations(subset: string): Map<string, string | null> {
+  const entities = new Map<string, string | null>();
+  for (const m of subset.replace(/<!--[\s\S]*?-->/g, '').matchAll(ENTITY_DECLARATION)) {
+    const [, parameter, name, double, single] = m;
+    if (parameter || entities.has(name)) continue;
+    const literal = double ?? single;
+    entities.set(name, literal === undefined ? null : literal.replace(/&#(x[0-9a-fA-F]+|[0-9]+);/g, (ref) => decodeEntities(ref)));
+  }
+  return entities;
+}
+
+/** Parse `xml` into an XmlDocument; unreadable input gives a `<parsererror>` document. */
+export function parseXmlDocument(xml: string): XmlDocument {
+  try {
+    return parse(xml.replace(/\r\n?/g, '\n'));
+  } catch (err) {
+    if (!(err instanceof XmlSyntaxError)) throw err;
+    const doc = new XmlDocument();
+    const error = new XmlElement('parsererror', null, 'parsererror', null, doc);
+    error.appendChild(new XmlCharacterData(NODE_TYPES.TEXT_NODE, err.message, doc));
+    doc.appendChild(error);
+    doc.documentElement = error;
+    return doc;
+  }
+}
+
+function parse(source: string): XmlDocument {
+  const doc = new XmlDocument();
+  // Replaced by an entity's text while it is expanded
+  let xml = source;
+  let entities = new Map<string, string | null>();
+  const expanding: string[] = [];
+  let expansions = 0;
+  const stack: { node: XmlElement | XmlDocument; namespaces: Map<string, string | null> }[] = [
+    { node: doc, namespaces: new Map([['xml', XML_NS]]) },
+  ];
+  let i = 0;
+  const fail = (message: string): never => {
+    throw new XmlSyntaxError(`${message} at offset ${i}`);
+  };
+  const readName = (): string => {
+    NAME.lastIndex = i;
+    const match = NAME.exec(xml);
+    if (!match) fail('Name expected');
+    i += match![0].length;
+    return match![0];
+  };
+  const skipWhitespace = () => {
+    WHITESPACE.lastIndex = i;
+    i += WHITESPACE.exec(xml)![0].length;
+  };
+  const until = (end: string): string => {
+    const at = xml.indexOf(end, i);
+    if (at === -1) fail(`Missing ${end}`);
+    const text = xml.slice(i, at);
+    i = at + end.length;
+    return text;
+  };
+  const declared = (name: string): string | null => {
+    if (expanding.includes(name)) fail(`Recursive entity &${name};`);
+    if (++expansions > MAX_EXPANSIONS) fail('Too many entity expansions');
+    return entities.get(name) ?? null;
+  };
+  // Character data with its references decoded; declared entities may not hold markup here
+  const decode = (raw: string): string => raw.replace(REFERENCE, (ref, name: string, semicolon: string) => {
+    if (!semicolon || !name) return fail('Undefined entity');
+    if (name[0] === '#') {
+      if (!/^#(?:x[0-9a-fA-F]+|[0-9]+)$/.test(name)) fail('Malformed character reference');
+      return decodeEntities(ref);
+    }
+    if (PREDEFINED.has(name)) return decodeEntities(ref);
+    if (!entities.has(name)) return fail(`Undefined entity &${name};`);
+    const replacement = declared(name) ?? '';
+    if (replacement.includes('<')) fail(`Entity &${name}; holds markup`);
+    expanding.push(name);
+    const text = decode(replacement);
+    expanding.pop();
+    return text;
+  });
+  const appendText = (parent: XmlElement | XmlDocument, text: string) => {
+    if (parent === doc) {
+      if (text.trim()) fail('Text outside the root element');
+      return;
+    }
+    if (!text) return;
+    // Text around an expanded entity is one node, as in the browser's DOM
+    const last = parent.lastChild;
+    if (last instanceof XmlCharacterData && last.nodeType === NODE_TYPES.TEXT_NODE) last.data += text;
+    else parent.appendChild(new XmlCharacterData(NODE_TYPES.TEXT_NODE, text, doc));
+  };
+  // Parse an entity's replacement text in place of its reference
+  const expand = (name: string) => {
+    const replacement = declared(name);
+    if (!replacement) return;
+    const outer = { xml, i, depth: stack.length };
+    expanding.push(name);
+    xml = replacement;
+    i = 0;
+    content();
+    if (stack.length !== outer.depth) fail(`Entity &${name}; is not balanced`);
+    expanding.pop();
+    ({ xml, i } = outer);
+  };
+  const top = () => stack[stack.length - 1];
+
+  const content = () => {
+    while (i < xml.length) {
+      const parent = top().node;
+      if (xml[i] !== '<') {
+        const end = xml.indexOf('<', i);
+        let raw = xml.slice(i, end === -1 ? xml.length : end);
+        // Up to the first reference to a declared entity, which may hold markup
+        let entity: string | null = null;
+        for (const m of raw.matchAll(REFERENCE)) {
+          if (m[2] && entities.has(m[1])) {
+            entity = m[1];
+            raw = raw.slice(0, m.index);
+            break;
+          }
+        }
+        appendText(parent, decode(raw));
+        i += raw.length;
+        if (entity !== null) {
+          i += entity.length + 2;
+          expand(entity);
+        }
+      } else if (xml.startsWith('<!--', i)) {
+        i += 4;
+        parent.appendChild(new XmlCharacterData(NODE_TYPES.COMMENT_NODE, until('-->'), doc));
+      } else if (xml.startsWith('<![CDATA[', i)) {
+        if (parent === doc) fail('CDATA outside the root element');
+        i += 9;
+        parent.appendChild(new XmlCharacterData(NODE_TYPES.CDATA_SECTION_NODE, until(']]>'), doc));
+      } else if (xml.startsWith('<?', i)) {
+        i += 2;
+        const target = readName();
+        const data = until('?>').replace(/^[ \t\n]+/, '');
+        if (target.toLowerCase() !== 'xml') parent.appendChild(new XmlProcessingInstruction(target, data, doc));
+      } else if (xml.startsWith('<!DOCTYPE', i)) {
+        // Skip to the `>` that closes it, past an internal subset and quoted
+        // strings, keeping the subset's entity declarations
+        let depth = 0;
+        let quote = '';
+        let subsetFrom = -1;
+        for (i += 9; i < xml.length; i++) {
+          const ch = xml[i];
+          if (quote) {
+            if (ch === quote) quote = '';
+          } else if (ch === '"' || ch === "'") quote = ch;
+          else if (ch === '[' && depth++ === 0) subsetFrom = i + 1;
+          else if (ch === ']' && --depth === 0 && subsetFrom !== -1) entities = entityDeclarations(xml.slice(subsetFrom, i));
+          else if (ch === '>' && depth === 0) break;
+        }
+        i++;
+      } else if (xml.startsWith('</', i)) {
+        i += 2;
+        const name = readName();
+        skipWhitespace();
+        if (xml[i] !== '>') fail('Malformed end tag');
+        i++;
+        if (parent === doc || (parent as XmlElement).tagName !== name) fail(`Unexpected </${name}>`);
+        stack.pop();
+      } else {
+        i++;
+        const tagName = readName();
+        const raw: [string, string][] = [];
+        for (;;) {
+          const before = i;
+          skipWhitespace();
+          if (xml.startsWith('/>', i) || xml[i] === '>') break;
+          if (i === before) fail('Whitespace expected');
+          const name = readName();
+          skipWhitespace();
+          if (xml[i] !== '=') fail('= expected');
+          i++;
+          skipWhitespace();
+          const quote = xml[i];
+          if (quote !== '"' && quote !== "'") fail('Quoted value expected');
+          i++;
+          const value = until(quote);
+          if (value.includes('<')) fail('< in attribute value');
+          if (raw.some(([n]) => n === name)) fail(`Duplicate attribute ${name}`);
+          raw.push([name, decode(value.replace(/[\t\n]/g, ' '))]);
+        }
+        const selfClosing = xml[i] === '/';
+        i += selfClosing ? 2 : 1;
+
+        const namespaces = new Map(top().namespaces);
+        for (const [name, value] of raw) {
+          if (name === 'xmlns') namespaces.set('', value || null);
+          else if (name.startsWith('xmlns:')) namespaces.set(name.slice(6), value);
+        }
+        const qualify = (name: string, isAttribute: boolean): [string | null, string, string | null] => {
+          const colon = name.indexOf(':');
+          if (colon === -1) {
+            if (isAttribute) return [null, name, name === 'xmlns' ? XMLNS_NS : null];
+            return [null, name, namespaces.get('') ?? null];
+          }
+          const prefix = name.slice(0, colon);
+          if (prefix === 'xmlns') return [prefix, name.slice(colon + 1), XMLNS_NS];
+          const uri = namespaces.get(prefix);
+          if (!uri) fail(`Undeclared prefix ${prefix}`);
+          return [prefix, name.slice(colon + 1), uri!];
+        };
+
+        const el = new XmlElement(tagName, ...qualify(tagName, false), doc);
+        for (const [name, value] of raw) {
+          const attr = new XmlAttr(name, ...qualify(name, true), value, doc);
+          attr.ownerElement = el;
+          el.attributes.push(attr);
+        }
+        if (parent === doc) {
+          if (doc.documentElement) fail('A second root element');
+          doc.documentElement = el;
+        }
+        parent.appendChild(el);
+        if (!selfClosing) stack.push({ node: el, namespaces });
+      }
+    }
+  };
+  content();
+  if (stack.length > 1) fail(`Unclosed <${(top().node as XmlElement).tagName}>`);
+  if (!doc.documentElement) fail('No root element');
+
+  // Document order: each element, then its attributes, then its content
+  let order = 0;
+  const number = (node: XmlNode) => {
+    node.order = order++;
+    if (node instanceof XmlElement) for (const attr of node.attributes) attr.order = order++;
+    for (const child of node.childNodes) number(child);
+  };
+  number(doc);
+  return doc;
+}
+
+/**
+ * Give a worker scope the Node and XPathResult constants when it has none,
+ * so schematron.ts and schematronQuickFix.ts run there unchanged.
+ */
+export function installXmlDom(scope: Record<string, unknown>): void {
+  if (typeof scope.Node === 'undefined') scope.Node = NODE_TYPES;
+  if (typeof scope.XPathResult === 'undefined') scope.XPathResult = XPATH_RESULT_TYPES;
+}
@@ -426,3 +426,120 @@ export function parseAttributes(attributesText: string): Record<string, string>
   }
   return out;
 }
+
+/** Source range of an element: start tag through end tag (0-based, end exclusive). */
+export interface ElementSourceRange {
+  from: number;
+  to: number;
+  /** End of the start tag (just after `>`). Equals `to` for `<x/>`. */
+  openEnd: number;
+  /** Start of the end tag `</x>`. Equals `to` for `<x/>`. */
+  closeStart: number;
+  selfClosing: boolean;
+  /** Just after the last attribute (or the tag name) — where a new attribute goes. */
+  attributesEnd: number;
+}
+
+/** Source range of an attribute, including the whitespace before its name. */
+export interface AttributeSourceRange {
+  from: number;
+  to: number;
+  /** The value between the quotes. */
+  valueFrom: number;
+  valueTo: number;
+}
+
+/** Maps DOM nodes of a parsed document back to their source text ranges. */
+export interface NodeSourceMap {
+  element(el: Element): ElementSourceRange | null;
+  attribute(attr: Attr): AttributeSourceRange | null;
+  text(node: Text): { from: number; to: number } | null;
+}
+
+const SOURCE_ATTR_REGEX = /(\s+)([^\s=/>]+)\s*=\s*("[^"]*"|'[^']*')/g;
+
+/**
+ * Source ranges for the nodes of `doc`, the DOM of the WELL-FORMED `xml`
+ * (what the quick-fix engine needs to turn node operations into text
+ * edits). Same correspondence as createElementLineResolver: the n-th
+ * open/self-close token is the n-th element in document order, and the
+ * n-th non-empty gap between tokens inside the root is the n-th text node
+ * (comments and CDATA split text nodes in both). Lookups return null when
+ * the two walks disagree (e.g. entities that expand to markup).
+ */
+export function createNodeSourceMap(xml: string, doc: Document): NodeSourceMap {
+  const tokens = tokenizeXmlTagsToArray(xml);
+
+  const elements = Array.from(doc.getElementsByTagName('*'));
+  const starts: XmlTagToken[] = [];
+  const ends = new Map<number, XmlTagToken>();
+  const textRanges: { from: number; to: number }[] = [];
+  const stack: number[] = [];
+  let prevEnd = 0;
+  for (const tok of tokens) {
+    if (stack.length > 0 && tok.offset > prevEnd) textRanges.push({ from: prevEnd, to: tok.offset });
+    prevEnd = tok.offset + tok.length;
+    if (tok.kind === 'open' || tok.kind === 'self-close') {
+      starts.push(tok);
+      if (tok.kind === 'open') stack.push(starts.length - 1);
+    } else if (tok.kind === 'close') {
+      const index = stack.pop();
+      if (index !== undefined) ends.set(index, tok);
+    }
+  }
+
+  const elementIndex = new Map<Element, number>();
+  if (elements.length === starts.length) elements.forEach((el, i) => elementIndex.set(el, i));
+
+  const textIndex = new Map<Node, number>();
+  const root = doc.documentElement;
+  if (root) {
+    const texts: Node[] = [];
+    const walker = doc.createTreeWalker(root, 4 /* NodeFilter.SHOW_TEXT */);
+    for (let n = walker.nextNode(); n; n = walker.nextNode()) texts.push(n);
+    if (texts.length === textRanges.length) texts.forEach((n, i) => textIndex.set(n, i));
+  }
+
+  const element = (el: Element): ElementSourceRange | null => {
+    const index = elementIndex.get(el);
+    if (index === undefined) return null;
+    const start = starts[index];
+    const openEnd = start.offset + start.length;
+    const end = ends.get(index);
+    let attributesEnd = start.offset + 1 + start.name.length;
+    const raw = xml.slice(start.offset, openEnd);
+    SOURCE_ATTR_REGEX.lastIndex = 0;
+    for (let m = SOURCE_ATTR_REGEX.exec(raw); m; m = SOURCE_ATTR_REGEX.exec(raw)) {
+      attributesEnd = start.offset + m.index + m[0].length;
+    }
+    return {
+      from: start.offset,
+      to: end ? end.offset + end.length : openEnd,
+      openEnd,
+      closeStart: end ? end.offset : openEnd,
+      selfClosing: start.kind === 'self-close',
+      attributesEnd,
+    };
+  };
+
+  return {
+    element,
+    attribute(attr) {
+      const owner = attr.ownerElement && element(attr.ownerElement);
+      if (!owner) return null;
+      const raw = xml.slice(owner.from, owner.openEnd);
+      SOURCE_ATTR_REGEX.lastIndex = 0;
+      for (let m = SOURCE_ATTR_REGEX.exec(raw); m; m = SOURCE_ATTR_REGEX.exec(raw)) {
+        if (m[2] !== attr.name) continue;
+        const from = owner.from + m.index;
+        const to = from + m[0].length;
+        return { from, to, valueFrom: to - m[3].length + 1, valueTo: to - 1 };
+      }
+      return null;
+    },
+    text(node) {
+      const index = textIndex.get(node);
+      return index === undefined ? null : textRanges[index];
+    },
+  };
+}
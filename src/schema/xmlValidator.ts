@@ -3,6 +3,8 @@ import type { SchemaInfo } from '../types/schema';
 // NOTE: the validator keeps its own well-formedness path (see file header);
 // only the quote-aware attribute-name scanner is shared with the tokenizer.
 import { scanAttributeNames } from './xmlTokenizer';
+import { validateElementContent, type ContentEvent } from './rngValidator';
+import { checkAttributeDatatype } from './attributeDatatypes';
 
 /**
  * XML validator that provides two levels of checking:
@@ -10,8 +12,10 @@ import { scanAttributeNames } from './xmlTokenizer';
  * 2. Schema-aware: Validates element nesting against ElementSpec data
  * 3. ContentModel-aware: Validates choice/cardinality constraints (Phase 2)
  *
- * This is lighter than full RelaxNG validation via salve, but catches
- * the most common authoring errors in real-time.
+ * When the schema carries a usable grammar (`hasSalveGrammar` — custom RNGs
+ * and TEI All), step 3 is the derivative-based RELAX NG engine in
+ * rngValidator.ts (ordering, interleave, nested cardinality, text); the
+ * lighter heuristic checks below remain for grammar-less schemas.
  */
 export function validateXml(
   xmlStr: string,
@@ -41,8 +45,11 @@ export function validateXml(
  * - Multi-byte characters (Unicode, Korean, etc.)
  * - Different browser implementations
  * For tag mismatch errors, we run our own detection to get accurate line numbers.
+ *
+ * Exported for the validation service: DOMParser does not exist inside a
+ * dedicated Web Worker, so this phase always runs on the main thread.
  */
-function checkWellFormedness(xmlStr: string): ValidationError[] {
+export function checkWellFormedness(xmlStr: string): ValidationError[] {
   const errors: ValidationError[] = [];
   const parser = new DOMParser();
   const doc = parser.parseFromString(xmlStr, 'application/xml');
@@ -397,10 +404,17 @@ function findTagMismatchErrors(xmlStr: string, firstErrorLine: number): Validati
 interface StackEntry {
   name: string;
   line: number;
+  column: number;
   children: { name: string; line: number }[];  // Track children for ContentModel validation
+  events: ContentEvent[];  // Children + text runs, in order (grammar validation)
 }
 
-function checkSchemaConformance(
+/**
+ * Phase 2 entry point. Pure string scanning (no DOM), so the validation
+ * service runs it inside the worker; callers must have already confirmed
+ * well-formedness — validateXml() never reaches this on malformed input.
+ */
+export function checkSchemaConformance(
   xmlStr: string,
   schema: SchemaInfo,
 ): ValidationError[] {
@@ -425,6 +439,8 @@ function checkSchemaConformance(
   // a real tag boundary because an unquoted '>' always stops it.
   const tagRegex = /<(\/?[^\s/>][^\s/>]*)(\s(?:[^>"'/]|"[^"]*"|'[^']*')*)?\s*\/?>/g;
   let match: RegExpExecArray | null;
+  const useGrammar = schema.hasSalveGrammar;
+  let lastTagEnd = 0;
 
   while ((match = tagRegex.exec(stripped)) !== null) {
     const fullTag = match[0];
@@ -434,6 +450,17 @@ function checkSchemaConformance(
     const col = pos.column;
     const lineNum = pos.line;
 
+    // Character data since the previous tag belongs to the current element
+    // (whitespace-only runs are insignificant in RELAX NG).
+    if (useGrammar && stack.length > 0) {
+      const textStart = stripped.slice(lastTagEnd, match.index).search(/\S/);
+      if (textStart >= 0) {
+        const textPos = offsetToLineCol(lineStarts, lastTagEnd + textStart);
+        stack[stack.length - 1].events.push({ kind: 'text', line: textPos.line, column: textPos.column });
+      }
+    }
+    lastTagEnd = match.index + fullTag.length;
+
     // Skip processing instructions, XML declarations, and markup declarations.
     // The tag regex captures the token after '<', so a DOCTYPE like
     // `<!DOCTYPE TEI SYSTEM "...">` would otherwise be read as an element named
@@ -452,6 +479,11 @@ function checkSchemaConformance(
         const closedElement = stack.pop()!;
         const elSpec = schema.elementMap.get(tagName);
 
+        if (useGrammar) {
+          errors.push(...validateElementContent(schema, closedElement, closedElement.events));
+          continue;
+        }
+
         // Phase 2: ContentModel validation on element close
         if (elSpec?.contentModel) {
           errors.push(...validateContentModel(elSpec, closedElement.children));
@@ -543,6 +575,19 @@ function checkSchemaConformance(
                 severity: 'warning',
               });
             }
+          } else {
+            // Check 3.6: Validate the value's syntax against its datatype
+            const actualValue = extractAttributeValue(attrString, attrName);
+            const expected = actualValue ? checkAttributeDatatype(attrSpec, actualValue) : null;
+            if (expected) {
+              const attrPos = offsetToLineCol(lineStarts, attrStringStart + attrIndex);
+              errors.push({
+                message: `Invalid value "${actualValue}" for @${attrName}. Expected ${expected}`,
+                line: attrPos.line,
+                column: attrPos.column,
+                severity: 'warning',
+              });
+            }
           }
         }
       }
@@ -565,11 +610,15 @@ function checkSchemaConformance(
     // Track as child of parent
     if (stack.length > 0) {
       stack[stack.length - 1].children.push({ name: tagName, line: lineNum });
+      stack[stack.length - 1].events.push({ kind: 'element', name: tagName, line: lineNum, column: col });
     }
 
     // Push to stack if not self-closing
     if (!fullTag.endsWith('/>')) {
-      stack.push({ name: tagName, line: lineNum, children: [] });
+      stack.push({ name: tagName, line: lineNum, column: col, children: [], events: [] });
+    } else if (useGrammar) {
+      // Self-closing = empty content; the grammar decides if that's complete
+      errors.push(...validateElementContent(schema, { name: tagName, line: lineNum, column: col }, []));
     } else {
       // Self-closing tag: validate empty constraint if applicable
       if (elSpec?.contentModel && elSpec.contentModel.type !== 'empty') {
@@ -0,0 +1,881 @@
+/**
+ * XPath 1.0 over the XML DOM of xmlDom.ts — what document.evaluate does in
+ * the browser, for the Schematron engine in the validation worker (where
+ * there is none) and on the main thread alike.
+ *
+ * The whole language: location paths on all axes but namespace (which
+ * selects nothing here), predicates, unions, the four value types with
+ * their conversions and comparison rules, and the core function library
+ * (id() finds elements by xml:id). Results come back in the shape of the
+ * DOM's XPathResult, for the result types the Schematron engine asks for.
+ *
+ * Variables are bound to values the caller has already evaluated (the
+ * Schematron engine's <let>s, see schematron.ts): a node-set stays the
+ * nodes themselves, so `$ids` costs a lookup wherever it is used. An
+ * unbound reference is an error.
+ */
+
+import { NODE_TYPES, type XmlAttr, type XmlElement, type XmlNode } from './xmlDom';
+
+/** XPathResult type numbers, as in the DOM's `XPathResult` interface. */
+export const XPATH_RESULT_TYPES = {
+  ANY_TYPE: 0,
+  NUMBER_TYPE: 1,
+  STRING_TYPE: 2,
+  BOOLEAN_TYPE: 3,
+  UNORDERED_NODE_ITERATOR_TYPE: 4,
+  ORDERED_NODE_ITERATOR_TYPE: 5,
+  UNORDERED_NODE_SNAPSHOT_TYPE: 6,
+  ORDERED_NODE_SNAPSHOT_TYPE: 7,
+  ANY_UNORDERED_NODE_TYPE: 8,
+  FIRST_ORDERED_NODE_TYPE: 9,
+} as const;
+
+export type XPathNamespaceResolver =
+  | ((prefix: string | null) => string | null)
+  | { lookupNamespaceURI(prefix: string | null): string | null };
+
+/** The part of the DOM's XPathResult the engine returns. */
+export interface XPathResultLike {
+  readonly resultType: number;
+  readonly numberValue: number;
+  readonly stringValue: string;
+  readonly booleanValue: boolean;
+  readonly singleNodeValue: XmlNode | null;
+  readonly snapshotLength: number;
+  snapshotItem(index: number): XmlNode | null;
+  iterateNext(): XmlNode | null;
+}
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+/** An XPath 1.0 value: node-set (in document order), string, number or boolean. */
+export type XPathValue = XmlNode[] | string | number | boolean;
+
+/** Variable bindings by name (without the `$`). */
+export type XPathVariables = ReadonlyMap<string, XPathValue>;
+
+const NO_VARIABLES: XPathVariables = new Map();
+
+type Axis =
+  | 'ancestor' | 'ancestor-or-self' | 'attribute' | 'child' | 'descendant' | 'descendant-or-self'
+  | 'following' | 'following-sibling' | 'namespace' | 'parent' | 'preceding' | 'preceding-sibling' | 'self';
+
+const AXES = new Set<string>([
+  'ancestor', 'ancestor-or-self', 'attribute', 'child', 'descendant', 'descendant-or-self',
+  'following', 'following-sibling', 'namespace', 'parent', 'preceding', 'preceding-sibling', 'self',
+]);
+
+const NODE_TYPE_TESTS = new Set(['node', 'text', 'comment', 'processing-instruction']);
+
+type NodeTest =
+  | { kind: 'name'; prefix: string | null; local: string }
+  | { kind: 'type'; type: string; target: string | null };
+
+interface Step {
+  axis: Axis;
+  test: NodeTest;
+  predicates: Expr[];
+}
+
+type Expr =
+  | { type: 'binary'; op: string; left: Expr; right: Expr }
+  | { type: 'negate'; operand: Expr }
+  | { type: 'literal'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'call'; name: string; args: Expr[] }
+  | { type: 'filter'; primary: Expr; predicates: Expr[] }
+  | { type: 'path'; start: 'root' | 'context' | Expr; steps: Step[] };
+
+// ── Lexer ──
+
+type TokenKind = 'number' | 'literal' | 'variable' | 'name' | 'function' | 'nodeType' | 'axis' | 'operator' | 'punct';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+}
+
+const NCNAME = /[A-Za-z_\u00C0-\uFFFF][\w.\-\u00B7\u00C0-\uFFFF]*/y;
+const NUMBER = /\d+(?:\.\d*)?|\.\d+/y;
+const OPERATOR_NAMES = new Set(['and', 'or', 'mod', 'div']);
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const matchAt = (regex: RegExp): string | null => {
+    regex.lastIndex = i;
+    return regex.exec(expr)?.[0] ?? null;
+  };
+  const skipSpace = (from: number): number => {
+    let j = from;
+    while (j < expr.length && /\s/.test(expr[j])) j++;
+    return j;
+  };
+
+  while ((i = skipSpace(i)) < expr.length) {
+    const prev = tokens[tokens.length - 1];
+    // XPath 1.0 §3.7: after an operand, `*` multiplies and a name is an operator
+    const operatorPosition = !!prev && !(
+      (prev.kind === 'punct' && ['@', '(', '[', ','].includes(prev.value))
+      || prev.kind === 'axis' || prev.kind === 'operator'
+    );
+    const ch = expr[i];
+    const two = expr.slice(i, i + 2);
+
+    if (ch === '"' || ch === "'") {
+      const end = expr.indexOf(ch, i + 1);
+      if (end === -1) throw new Error('Unterminated string literal');
+      tokens.push({ kind: 'literal', value: expr.slice(i + 1, end) });
+      i = end + 1;
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(expr[i + 1] ?? ''))) {
+      const number = matchAt(NUMBER)!;
+      tokens.push({ kind: 'number', value: number });
+      i += number.length;
+    } else if (two === '..' || two === '//' || two === '!=' || two === '<=' || two === '>=') {
+      tokens.push({ kind: two === '..' ? 'punct' : 'operator', value: two });
+      i += 2;
+    } else if ('()[].@,'.includes(ch)) {
+      tokens.push({ kind: 'punct', value: ch });
+      i++;
+    } else if ('/|+-=<>'.includes(ch)) {
+      tokens.push({ kind: 'operator', value: ch });
+      i++;
+    } else if (ch === '*') {
+      tokens.push({ kind: operatorPosition ? 'operator' : 'name', value: '*' });
+      i++;
+    } else if (ch === '$') {
+      i++;
+      const name = readQName();
+      if (!name) throw new Error('Variable name expected');
+      tokens.push({ kind: 'variable', value: name });
+    } else {
+      const name = readQName();
+      if (!name) throw new Error(`Unexpected character '${ch}'`);
+      if (operatorPosition) {
+        if (!OPERATOR_NAMES.has(name)) throw new Error(`Unexpected name '${name}'`);
+        tokens.push({ kind: 'operator', value: name });
+        continue;
+      }
+      const next = skipSpace(i);
+      if (expr[next] === '(') {
+        tokens.push({ kind: NODE_TYPE_TESTS.has(name) ? 'nodeType' : 'function', value: name });
+      } else if (expr.startsWith('::', next)) {
+        if (!AXES.has(name)) throw new Error(`Unknown axis '${name}'`);
+        tokens.push({ kind: 'axis', value: name });
+        i = next + 2;
+      } else {
+        tokens.push({ kind: 'name', value: name });
+      }
+    }
+  }
+  return tokens;
+
+  /** A QName, or `prefix:*`, at `i`. */
+  function readQName(): string | null {
+    const first = matchAt(NCNAME);
+    if (!first) return null;
+    i += first.length;
+    if (expr[i] !== ':' || expr[i + 1] === ':') return first;
+    i++;
+    if (expr[i] === '*') {
+      i++;
+      return `${first}:*`;
+    }
+    const local = matchAt(NCNAME);
+    if (!local) throw new Error(`Name expected after '${first}:'`);
+    i += local.length;
+    return `${first}:${local}`;
+  }
+}
+
+// ── Parser ──
+
+const DESCENDANT_OR_SELF: Step = { axis: 'descendant-or-self', test: { kind: 'type', type: 'node', target: null }, predicates: [] };
+
+function parse(expr: string): Expr {
+  const tokens = tokenize(expr);
+  let p = 0;
+  const peek = (): Token | undefined => tokens[p];
+  const is = (kind: TokenKind, value?: string): boolean =>
+    tokens[p]?.kind === kind && (value === undefined || tokens[p].value === value);
+  const expect = (kind: TokenKind, value: string) => {
+    if (!is(kind, value)) throw new Error(`Expected '${value}'${peek() ? ` before '${peek()!.value}'` : ' at the end'}`);
+    p++;
+  };
+
+  const binary = (next: () => Expr, ops: string[]) => (): Expr => {
+    let left = next();
+    while (peek()?.kind === 'operator' && ops.includes(peek()!.value)) {
+      const op = tokens[p++].value;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const parsePredicates = (): Expr[] => {
+    const predicates: Expr[] = [];
+    while (is('punct', '[')) {
+      p++;
+      predicates.push(parseExpr());
+      expect('punct', ']');
+    }
+    return predicates;
+  };
+
+  const canStartStep = (): boolean =>
+    is('name') || is('nodeType') || is('axis') || is('punct', '@') || is('punct', '.') || is('punct', '..');
+
+  const parseStep = (): Step => {
+    if (is('punct', '.')) {
+      p++;
+      return { axis: 'self', test: { kind: 'type', type: 'node', target: null }, predicates: [] };
+    }
+    if (is('punct', '..')) {
+      p++;
+      return { axis: 'parent', test: { kind: 'type', type: 'node', target: null }, predicates: [] };
+    }
+    let axis: Axis = 'child';
+    if (is('axis')) axis = tokens[p++].value as Axis;
+    else if (is('punct', '@')) {
+      p++;
+      axis = 'attribute';
+    }
+    let test: NodeTest;
+    if (is('name')) {
+      const name = tokens[p++].value;
+      const colon = name.indexOf(':');
+      test = colon === -1
+        ? { kind: 'name', prefix: null, local: name }
+        : { kind: 'name', prefix: name.slice(0, colon), local: name.slice(colon + 1) };
+    } else if (is('nodeType')) {
+      const type = tokens[p++].value;
+      expect('punct', '(');
+      let target: string | null = null;
+      if (type === 'processing-instruction' && is('literal')) target = tokens[p++].value;
+      expect('punct', ')');
+      test = { kind: 'type', type, target };
+    } else {
+      throw new Error(peek() ? `Unexpected '${peek()!.value}'` : 'Unexpected end of expression');
+    }
+    return { axis, test, predicates: parsePredicates() };
+  };
+
+  const parseRelativePath = (steps: Step[]): Step[] => {
+    steps.push(parseStep());
+    while (is('operator', '/') || is('operator', '//')) {
+      if (tokens[p++].value === '//') steps.push(DESCENDANT_OR_SELF);
+      steps.push(parseStep());
+    }
+    return steps;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = tokens[p++];
+    switch (token?.kind) {
+      case 'literal':
+        return { type: 'literal', value: token.value };
+      case 'number':
+        return { type: 'number', value: Number(token.value) };
+      case 'variable':
+        return { type: 'variable', name: token.value };
+      case 'function': {
+        expect('punct', '(');
+        const args: Expr[] = [];
+        if (!is('punct', ')')) {
+          args.push(parseExpr());
+          while (is('punct', ',')) {
+            p++;
+            args.push(parseExpr());
+          }
+        }
+        expect('punct', ')');
+        return { type: 'call', name: token.value, args };
+      }
+      default: {
+        // '('
+        const inner = parseExpr();
+        expect('punct', ')');
+        return inner;
+      }
+    }
+  };
+
+  const parsePath = (): Expr => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+    if (['number', 'literal', 'variable', 'function'].includes(token.kind) || is('punct', '(')) {
+      const primary = parsePrimary();
+      const predicates = parsePredicates();
+      const filter: Expr = predicates.length > 0 ? { type: 'filter', primary, predicates } : primary;
+      if (!is('operator', '/') && !is('operator', '//')) return filter;
+      const steps = tokens[p++].value === '//' ? [DESCENDANT_OR_SELF] : [];
+      return { type: 'path', start: filter, steps: parseRelativePath(steps) };
+    }
+    if (is('operator', '/')) {
+      p++;
+      return { type: 'path', start: 'root', steps: canStartStep() ? parseRelativePath([]) : [] };
+    }
+    if (is('operator', '//')) {
+      p++;
+      return { type: 'path', start: 'root', steps: parseRelativePath([DESCENDANT_OR_SELF]) };
+    }
+    return { type: 'path', start: 'context', steps: parseRelativePath([]) };
+  };
+
+  const parseUnion = binary(parsePath, ['|']);
+  const parseUnary = (): Expr => {
+    if (is('operator', '-')) {
+      p++;
+      return { type: 'negate', operand: parseUnary() };
+    }
+    return parseUnion();
+  };
+  const parseMultiplicative = binary(parseUnary, ['*', 'div', 'mod']);
+  const parseAdditive = binary(parseMultiplicative, ['+', '-']);
+  const parseRelational = binary(parseAdditive, ['<', '<=', '>', '>=']);
+  const parseEquality = binary(parseRelational, ['=', '!=']);
+  const parseAnd = binary(parseEquality, ['and']);
+  const parseExpr: () => Expr = binary(parseAnd, ['or']);
+
+  const result = parseExpr();
+  if (p < tokens.length) throw new Error(`Unexpected '${tokens[p].value}'`);
+  return result;
+}
+
+// Schematron evaluates each test once per matched node: parse it once
+const parsed = new Map<string, Expr>();
+const MAX_PARSED = 2000;
+
+function parseCached(expr: string): Expr {
+  let result = parsed.get(expr);
+  if (!result) {
+    if (parsed.size >= MAX_PARSED) parsed.clear();
+    result = parse(expr);
+    parsed.set(expr, result);
+  }
+  return result;
+}
+
+// ── Values ──
+
+function stringValue(node: XmlNode): string {
+  switch (node.nodeType) {
+    case NODE_TYPES.ELEMENT_NODE:
+    case NODE_TYPES.DOCUMENT_NODE: {
+      let out = '';
+      const visit = (n: XmlNode) => {
+        for (const child of n.childNodes) {
+          if (child.nodeType === NODE_TYPES.TEXT_NODE || child.nodeType === NODE_TYPES.CDATA_SECTION_NODE) {
+            out += child.nodeValue;
+          } else if (child.nodeType === NODE_TYPES.ELEMENT_NODE) visit(child);
+        }
+      };
+      visit(node);
+      return out;
+    }
+    default:
+      return node.nodeValue ?? '';
+  }
+}
+
+function numberToString(n: number): string {
+  if (Number.isNaN(n)) return 'NaN';
+  if (!Number.isFinite(n)) return n > 0 ? 'Infinity' : '-Infinity';
+  if (n === 0) return '0';
+  const s = String(n);
+  const e = s.indexOf('e');
+  if (e === -1) return s;
+  // XPath never writes an exponent
+  const negative = n < 0;
+  const mantissa = s.slice(negative ? 1 : 0, e);
+  const point = mantissa.indexOf('.');
+  const digits = mantissa.replace('.', '');
+  const at = (point === -1 ? mantissa.length : point) + Number(s.slice(e + 1));
+  const plain = at <= 0 ? `0.${'0'.repeat(-at)}${digits}`
+    : at >= digits.length ? digits + '0'.repeat(at - digits.length)
+      : `${digits.slice(0, at)}.${digits.slice(at)}`;
+  return negative ? `-${plain}` : plain;
+}
+
+function toString(value: XPathValue): string {
+  if (Array.isArray(value)) return value.length > 0 ? stringValue(value[0]) : '';
+  if (typeof value === 'number') return numberToString(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return value;
+}
+
+function toNumber(value: XPathValue): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const s = toString(value);
+  return /^\s*-?(?:\d+(?:\.\d*)?|\.\d+)\s*$/.test(s) ? Number(s) : NaN;
+}
+
+function toBoolean(value: XPathValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  if (typeof value === 'string') return value.length > 0;
+  return value;
+}
+
+function toNodeSet(value: XPathValue, what: string): XmlNode[] {
+  if (!Array.isArray(value)) throw new Error(`${what} is not a node-set`);
+  return value;
+}
+
+function sortUnique(nodes: XmlNode[]): XmlNode[] {
+  return [...new Set(nodes)].sort((a, b) => a.order - b.order);
+}
+
+function compareAtoms(op: string, a: string | number | boolean, b: string | number | boolean): boolean {
+  if (op === '=' || op === '!=') {
+    const equal = typeof a === 'boolean' || typeof b === 'boolean' ? toBoolean(a) === toBoolean(b)
+      : typeof a === 'number' || typeof b === 'number' ? toNumber(a) === toNumber(b)
+        : a === b;
+    return op === '=' ? equal : !equal;
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  switch (op) {
+    case '<': return x < y;
+    case '<=': return x <= y;
+    case '>': return x > y;
+    default: return x >= y;
+  }
+}
+
+/** String values of a node-set, kept per set: a bound variable is compared again and again. */
+const stringSets = new WeakMap<XmlNode[], Set<string>>();
+
+function stringSet(nodes: XmlNode[]): Set<string> {
+  let set = stringSets.get(nodes);
+  if (!set) {
+    set = new Set(nodes.map(stringValue));
+    stringSets.set(nodes, set);
+  }
+  return set;
+}
+
+function compare(op: string, a: XPathValue, b: XPathValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (op === '=') {
+      const [probe, lookup] = a.length < b.length ? [a, stringSet(b)] : [b, stringSet(a)];
+      return probe.some((x) => lookup.has(stringValue(x)));
+    }
+    const right = b.map(stringValue);
+    return a.some((x) => {
+      const left = stringValue(x);
+      return right.some((y) => compareAtoms(op, left, y));
+    });
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const set = (Array.isArray(a) ? a : b) as XmlNode[];
+    const other = (Array.isArray(a) ? b : a) as string | number | boolean;
+    const ordered = (x: string | number | boolean) => (Array.isArray(a) ? compareAtoms(op, x, other) : compareAtoms(op, other, x));
+    if (typeof other === 'boolean') return ordered(set.length > 0);
+    return set.some((n) => ordered(typeof other === 'number' ? toNumber(stringValue(n)) : stringValue(n)));
+  }
+  return compareAtoms(op, a, b);
+}
+
+// ── Axes ──
+
+function parentOf(node: XmlNode): XmlNode | null {
+  return node.nodeType === NODE_TYPES.ATTRIBUTE_NODE ? (node as XmlAttr).ownerElement : node.parentNode;
+}
+
+function descendants(node: XmlNode, out: XmlNode[]): XmlNode[] {
+  for (const child of node.childNodes) {
+    out.push(child);
+    descendants(child, out);
+  }
+  return out;
+}
+
+/** The nodes on `axis` from `node`, nearest first (so reverse axes run backwards). */
+function axisNodes(node: XmlNode, axis: Axis): XmlNode[] {
+  switch (axis) {
+    case 'child':
+      return node.childNodes;
+    case 'descendant':
+      return descendants(node, []);
+    case 'descendant-or-self':
+      return descendants(node, [node]);
+    case 'self':
+      return [node];
+    case 'parent': {
+      const parent = parentOf(node);
+      return parent ? [parent] : [];
+    }
+    case 'ancestor':
+    case 'ancestor-or-self': {
+      const out = axis === 'ancestor-or-self' ? [node] : [];
+      for (let n = parentOf(node); n; n = parentOf(n)) out.push(n);
+      return out;
+    }
+    case 'following-sibling':
+    case 'preceding-sibling': {
+      const out: XmlNode[] = [];
+      if (node.nodeType === NODE_TYPES.ATTRIBUTE_NODE) return out;
+      const next = (n: XmlNode) => (axis === 'following-sibling' ? n.nextSibling : n.previousSibling);
+      for (let n = next(node); n; n = next(n)) out.push(n);
+      return out;
+    }
+    case 'following': {
+      const out: XmlNode[] = [];
+      // An attribute's following nodes start with its element's content
+      let n: XmlNode | null = node;
+      if (node.nodeType === NODE_TYPES.ATTRIBUTE_NODE) {
+        n = (node as XmlAttr).ownerElement;
+        if (n) descendants(n, out);
+      }
+      for (; n; n = n.parentNode) {
+        for (let sib = n.nextSibling; sib; sib = sib.nextSibling) {
+          out.push(sib);
+          descendants(sib, out);
+        }
+      }
+      return out;
+    }
+    case 'preceding': {
+      const ancestors = new Set(axisNodes(node, 'ancestor'));
+      const root = axisNodes(node, 'ancestor-or-self').pop()!;
+      return descendants(root, [])
+        .filter((n) => n.order < node.order && !ancestors.has(n))
+        .reverse();
+    }
+    case 'attribute':
+      return node.nodeType === NODE_TYPES.ELEMENT_NODE
+        ? (node as XmlElement).attributes.filter((a) => a.namespaceURI !== XMLNS_NS)
+        : [];
+    case 'namespace':
+      return [];
+  }
+}
+
+const REVERSE_AXES = new Set<Axis>(['ancestor', 'ancestor-or-self', 'preceding', 'preceding-sibling']);
+
+// ── Evaluation ──
+
+interface Context {
+  node: XmlNode;
+  position: number;
+  size: number;
+  resolve: (prefix: string) => string;
+  variables: XPathVariables;
+}
+
+function nodeMatcher(test: NodeTest, axis: Axis, ctx: Context): (node: XmlNode) => boolean {
+  if (test.kind === 'type') {
+    switch (test.type) {
+      case 'node':
+        return () => true;
+      case 'text':
+        return (n) => n.nodeType === NODE_TYPES.TEXT_NODE || n.nodeType === NODE_TYPES.CDATA_SECTION_NODE;
+      case 'comment':
+        return (n) => n.nodeType === NODE_TYPES.COMMENT_NODE;
+      default:
+        return (n) => n.nodeType === NODE_TYPES.PROCESSING_INSTRUCTION_NODE
+          && (test.target === null || n.nodeName === test.target);
+    }
+  }
+  const principal = axis === 'attribute' ? NODE_TYPES.ATTRIBUTE_NODE : NODE_TYPES.ELEMENT_NODE;
+  if (test.local === '*' && test.prefix === null) return (n) => n.nodeType === principal;
+  const ns = test.prefix === null ? null : ctx.resolve(test.prefix);
+  return (n) => {
+    if (n.nodeType !== principal) return false;
+    const named = n as XmlElement | XmlAttr;
+    return named.namespaceURI === ns && (test.local === '*' || named.localName === test.local);
+  };
+}
+
+function applyPredicates(nodes: XmlNode[], predicates: Expr[], ctx: Context): XmlNode[] {
+  let current = nodes;
+  for (const predicate of predicates) {
+    current = current.filter((node, index) => {
+      const value = evaluate(predicate, { ...ctx, node, position: index + 1, size: current.length });
+      return typeof value === 'number' ? value === index + 1 : toBoolean(value);
+    });
+  }
+  return current;
+}
+
+function evaluatePath(expr: Extract<Expr, { type: 'path' }>, ctx: Context): XmlNode[] {
+  let current: XmlNode[];
+  if (expr.start === 'root') {
+    let root = ctx.node;
+    for (let n = parentOf(root); n; n = parentOf(n)) root = n;
+    current = [root];
+  } else if (expr.start === 'context') {
+    current = [ctx.node];
+  } else {
+    current = toNodeSet(evaluate(expr.start, ctx), 'The path start');
+  }
+
+  const { steps } = expr;
+  for (let s = 0; s < steps.length; s++) {
+    let step = steps[s];
+    // `//name` without a positional predicate: one descendant walk
+    const next = steps[s + 1];
+    if (step === DESCENDANT_OR_SELF && next?.axis === 'child' && next.predicates.length === 0) {
+      step = { ...next, axis: 'descendant' };
+      s++;
+    }
+    const matches = nodeMatcher(step.test, step.axis, ctx);
+    const out: XmlNode[] = [];
+    for (const node of current) {
+      const selected = axisNodes(node, step.axis).filter(matches);
+      out.push(...(step.predicates.length > 0 ? applyPredicates(selected, step.predicates, ctx) : selected));
+    }
+    current = current.length > 1 || REVERSE_AXES.has(step.axis) || step.axis === 'descendant-or-self'
+      ? sortUnique(out) : out;
+  }
+  return current;
+}
+
+function evaluate(expr: Expr, ctx: Context): XPathValue {
+  switch (expr.type) {
+    case 'literal':
+      return expr.value;
+    case 'number':
+      return expr.value;
+    case 'variable': {
+      const value = ctx.variables.get(expr.name);
+      if (value === undefined) throw new Error(`Unknown variable $${expr.name}`);
+      return value;
+    }
+    case 'negate':
+      return -toNumber(evaluate(expr.operand, ctx));
+    case 'path':
+      return evaluatePath(expr, ctx);
+    case 'filter': {
+      const nodes = toNodeSet(evaluate(expr.primary, ctx), 'A filtered expression');
+      return applyPredicates(nodes, expr.predicates, ctx);
+    }
+    case 'call':
+      return callFunction(expr.name, expr.args, ctx);
+    case 'binary': {
+      const { op } = expr;
+      if (op === 'or') return toBoolean(evaluate(expr.left, ctx)) || toBoolean(evaluate(expr.right, ctx));
+      if (op === 'and') return toBoolean(evaluate(expr.left, ctx)) && toBoolean(evaluate(expr.right, ctx));
+      const left = evaluate(expr.left, ctx);
+      const right = evaluate(expr.right, ctx);
+      switch (op) {
+        case '|':
+          return sortUnique([...toNodeSet(left, 'A union operand'), ...toNodeSet(right, 'A union operand')]);
+        case '=': case '!=': case '<': case '<=': case '>': case '>=':
+          return compare(op, left, right);
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case 'div': return toNumber(left) / toNumber(right);
+        default: return toNumber(left) % toNumber(right);
+      }
+    }
+  }
+}
+
+function callFunction(name: string, args: Expr[], ctx: Context): XPathValue {
+  const arity = (min: number, max = min) => {
+    if (args.length < min || args.length > max) throw new Error(`Wrong number of arguments to ${name}()`);
+  };
+  const arg = (i: number): XPathValue => evaluate(args[i], ctx);
+  const str = (i: number): string => (i < args.length ? toString(arg(i)) : stringValue(ctx.node));
+  const num = (i: number): number => toNumber(arg(i));
+  /** The first node of the optional node-set argument, else the context node. */
+  const subject = (): XmlNode | undefined => (args.length > 0 ? toNodeSet(arg(0), `The argument of ${name}()`)[0] : ctx.node);
+
+  switch (name) {
+    case 'last': arity(0); return ctx.size;
+    case 'position': arity(0); return ctx.position;
+    case 'count': arity(1); return toNodeSet(arg(0), 'The argument of count()').length;
+    case 'id': {
+      arity(1);
+      const value = arg(0);
+      const ids = new Set((Array.isArray(value) ? value.map(stringValue).join(' ') : toString(value)).split(/\s+/).filter(Boolean));
+      const root = axisNodes(ctx.node, 'ancestor-or-self').pop()!;
+      return descendants(root, []).filter((n) =>
+        n.nodeType === NODE_TYPES.ELEMENT_NODE
+        && ids.has((n as XmlElement).attributes.find((a) => a.namespaceURI === XML_NS && a.localName === 'id')?.value ?? '\0'));
+    }
+    case 'local-name': {
+      arity(0, 1);
+      const node = subject();
+      if (!node) return '';
+      if (node.nodeType === NODE_TYPES.ELEMENT_NODE || node.nodeType === NODE_TYPES.ATTRIBUTE_NODE) return (node as XmlElement).localName;
+      return node.nodeType === NODE_TYPES.PROCESSING_INSTRUCTION_NODE ? node.nodeName : '';
+    }
+    case 'namespace-uri': {
+      arity(0, 1);
+      const node = subject();
+      return node && (node.nodeType === NODE_TYPES.ELEMENT_NODE || node.nodeType === NODE_TYPES.ATTRIBUTE_NODE)
+        ? (node as XmlElement).namespaceURI ?? '' : '';
+    }
+    case 'name': {
+      arity(0, 1);
+      const node = subject();
+      return node && (node.nodeType === NODE_TYPES.ELEMENT_NODE || node.nodeType === NODE_TYPES.ATTRIBUTE_NODE
+        || node.nodeType === NODE_TYPES.PROCESSING_INSTRUCTION_NODE) ? node.nodeName : '';
+    }
+    case 'string': arity(0, 1); return str(0);
+    case 'concat': {
+      if (args.length < 2) throw new Error('Wrong number of arguments to concat()');
+      return args.map((_, i) => str(i)).join('');
+    }
+    case 'starts-with': arity(2); return str(0).startsWith(str(1));
+    case 'contains': arity(2); return str(0).includes(str(1));
+    case 'substring-before': {
+      arity(2);
+      const s = str(0);
+      const at = s.indexOf(str(1));
+      return at === -1 ? '' : s.slice(0, at);
+    }
+    case 'substring-after': {
+      arity(2);
+      const s = str(0);
+      const needle = str(1);
+      const at = s.indexOf(needle);
+      return at === -1 ? '' : s.slice(at + needle.length);
+    }
+    case 'substring': {
+      arity(2, 3);
+      const s = str(0);
+      const first = Math.round(num(1));
+      const last = args.length === 3 ? first + Math.round(num(2)) : Infinity;
+      let out = '';
+      for (let i = 0; i < s.length; i++) {
+        if (i + 1 >= first && i + 1 < last) out += s[i];
+      }
+      return out;
+    }
+    case 'string-length': arity(0, 1); return str(0).length;
+    case 'normalize-space': arity(0, 1); return str(0).trim().replace(/\s+/g, ' ');
+    case 'translate': {
+      arity(3);
+      const from = str(1);
+      const to = str(2);
+      return Array.from(str(0), (c) => {
+        const at = from.indexOf(c);
+        return at === -1 ? c : (to[at] ?? '');
+      }).join('');
+    }
+    case 'boolean': arity(1); return toBoolean(arg(0));
+    case 'not': arity(1); return !toBoolean(arg(0));
+    case 'true': arity(0); return true;
+    case 'false': arity(0); return false;
+    case 'lang': {
+      arity(1);
+      const lang = str(0).toLowerCase();
+      for (const n of axisNodes(ctx.node, 'ancestor-or-self')) {
+        if (n.nodeType !== NODE_TYPES.ELEMENT_NODE) continue;
+        const value = (n as XmlElement).getAttributeNS(XML_NS, 'lang');
+        if (value !== null) {
+          const own = value.toLowerCase();
+          return own === lang || own.startsWith(`${lang}-`);
+        }
+      }
+      return false;
+    }
+    case 'number': arity(0, 1); return args.length > 0 ? num(0) : toNumber(stringValue(ctx.node));
+    case 'sum': arity(1); return toNodeSet(arg(0), 'The argument of sum()').reduce((sum, n) => sum + toNumber(stringValue(n)), 0);
+    case 'floor': arity(1); return Math.floor(num(0));
+    case 'ceiling': arity(1); return Math.ceil(num(0));
+    case 'round': arity(1); return Math.round(num(0));
+    default:
+      throw new Error(`Unknown function ${name}()`);
+  }
+}
+
+// ── Results ──
+
+class XPathResultValue implements XPathResultLike {
+  private next = 0;
+
+  constructor(readonly resultType: number, private readonly value: XPathValue) {}
+
+  private as<T>(type: number, v: T): T {
+    if (this.resultType !== type) throw new TypeError('The result is of another type');
+    return v;
+  }
+
+  get numberValue(): number {
+    return this.as(XPATH_RESULT_TYPES.NUMBER_TYPE, this.value as number);
+  }
+
+  get stringValue(): string {
+    return this.as(XPATH_RESULT_TYPES.STRING_TYPE, this.value as string);
+  }
+
+  get booleanValue(): boolean {
+    return this.as(XPATH_RESULT_TYPES.BOOLEAN_TYPE, this.value as boolean);
+  }
+
+  private get nodes(): XmlNode[] {
+    if (!Array.isArray(this.value)) throw new TypeError('The result is not a node-set');
+    return this.value;
+  }
+
+  get singleNodeValue(): XmlNode | null {
+    return this.nodes[0] ?? null;
+  }
+
+  get snapshotLength(): number {
+    return this.nodes.length;
+  }
+
+  snapshotItem(index: number): XmlNode | null {
+    return this.nodes[index] ?? null;
+  }
+
+  iterateNext(): XmlNode | null {
+    return this.nodes[this.next++] ?? null;
+  }
+}
+
+/** The value of `expression` from `contextNode`, with `variables` bound. */
+export function evaluateXPathValue(
+  expression: string,
+  contextNode: XmlNode,
+  resolver: XPathNamespaceResolver | null,
+  variables: XPathVariables = NO_VARIABLES,
+): XPathValue {
+  const lookup = typeof resolver === 'function' ? resolver : resolver ? (prefix: string | null) => resolver.lookupNamespaceURI(prefix) : null;
+  const resolve = (prefix: string): string => {
+    const uri = lookup?.(prefix) ?? (prefix === 'xml' ? XML_NS : null);
+    if (!uri) throw new Error(`Namespace prefix '${prefix}' is not declared`);
+    return uri;
+  };
+  return evaluate(parseCached(expression), { node: contextNode, position: 1, size: 1, resolve, variables });
+}
+
+/** Evaluate `expression` from `contextNode`, as document.evaluate does (plus `variables`). */
+export function evaluateXPath(
+  expression: string,
+  contextNode: XmlNode,
+  resolver: XPathNamespaceResolver | null,
+  type: number,
+  variables: XPathVariables = NO_VARIABLES,
+): XPathResultLike {
+  const value = evaluateXPathValue(expression, contextNode, resolver, variables);
+
+  switch (type) {
+    case XPATH_RESULT_TYPES.ANY_TYPE:
+      return new XPathResultValue(
+        Array.isArray(value) ? XPATH_RESULT_TYPES.UNORDERED_NODE_ITERATOR_TYPE
+          : typeof value === 'number' ? XPATH_RESULT_TYPES.NUMBER_TYPE
+            : typeof value === 'string' ? XPATH_RESULT_TYPES.STRING_TYPE : XPATH_RESULT_TYPES.BOOLEAN_TYPE,
+        value,
+      );
+    case XPATH_RESULT_TYPES.NUMBER_TYPE:
+      return new XPathResultValue(type, toNumber(value));
+    case XPATH_RESULT_TYPES.STRING_TYPE:
+      return new XPathResultValue(type, toString(value));
+    case XPATH_RESULT_TYPES.BOOLEAN_TYPE:
+      return new XPathResultValue(type, toBoolean(value));
+    default:
+      return new XPathResultValue(type, toNodeSet(value, 'The result'));
+  }
+}
@@ -1,6 +1,6 @@
 import { useReducer, useCallback, useRef, useMemo, type ReactNode } from 'react';
 import type { EditorView } from '@codemirror/view';
-import type { ViewMode } from '../types/editor';
+import type { TagDisplayMode, TrackingState, ViewMode } from '../types/editor';
 import type { ValidationError } from '../types/schema';
 import type { OpenDocument, MultiTabEditorState } from '../types/workspace';
 import { generateDocumentId, createNewDocument } from '../types/workspace';
@@ -71,12 +71,16 @@ type Action =
   | { type: 'SET_ERRORS'; errors: ValidationError[] }
   | { type: 'SET_VALIDATING'; isValidating: boolean }
   | { type: 'SET_VIEW_MODE'; viewMode: ViewMode }
+  | { type: 'SET_TAG_DISPLAY_MODE'; mode: TagDisplayMode }
+  | { type: 'SET_REVIEWER_NAME'; name: string }
   // Specific tab updates
   | { type: 'UPDATE_TAB_CONTENT'; id: string; content: string }
   | { type: 'MARK_TAB_SAVED'; id: string }
   | { type: 'SET_TAB_ERRORS'; id: string; errors: ValidationError[] }
   | { type: 'SET_TAB_CURSOR'; id: string; line: number; column: number }
   | { type: 'SET_TAB_SCHEMA'; id: string; schemaId: string }
+  | { type: 'SET_TAB_TRACKING'; id: string; tracking: TrackingState }
+  | { type: 'SET_TAB_FILE'; id: string; fileName: string; fileHandle: FileSystemFileHandle | null; filePath: string | null }
   // Global settings
   | { type: 'SET_EDITOR_FONT_SIZE'; size: number }
   | { type: 'SET_OUTLINE_FONT_SIZE'; size: number }
@@ -250,6 +254,12 @@ function reducer(state: MultiTabEditorState, action: Action): MultiTabEditorStat
     case 'SET_VIEW_MODE':
       return { ...state, viewMode: action.viewMode };
 
+    case 'SET_TAG_DISPLAY_MODE':
+      return { ...state, tagDisplayMode: action.mode };
+
+    case 'SET_REVIEWER_NAME':
+      return { ...state, reviewerName: action.name };
+
     // ─── Specific tab updates ───
 
     case 'UPDATE_TAB_CONTENT':
@@ -308,6 +318,24 @@ function reducer(state: MultiTabEditorState, action: Action): MultiTabEditorStat
         }),
       };
 
+    case 'SET_TAB_TRACKING':
+      return {
+        ...state,
+        openDocuments: updateDocument(state.openDocuments, action.id, {
+          tracking: action.tracking,
+        }),
+      };
+
+    case 'SET_TAB_FILE':
+      return {
+        ...state,
+        openDocuments: updateDocument(state.openDocuments, action.id, {
+          fileName: action.fileName,
+          fileHandle: action.fileHandle,
+          filePath: action.filePath,
+        }),
+      };
+
     case 'INCREMENT_DOCUMENT_VERSION': {
       const doc = state.openDocuments.find(d => d.id === action.id);
       if (!doc) return state;
@@ -332,6 +360,16 @@ function reducer(state: MultiTabEditorState, action: Action): MultiTabEditorStat
   }
 }
 
+const REVIEWER_STORAGE_KEY = 'oxide-reviewer-name';
+
+function loadReviewerName(): string {
+  try {
+    return localStorage.getItem(REVIEWER_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
 // Create initial state with one empty document
 const initialDoc = createInitialDocument();
 const initialState: MultiTabEditorState = {
@@ -341,6 +379,8 @@ const initialState: MultiTabEditorState = {
   editorFontSize: 14,
   outlineFontSize: 12,
   viewMode: 'split',
+  tagDisplayMode: 'full',
+  reviewerName: loadReviewerName(),
 };
 
 export function EditorProvider({ children }: { children: ReactNode }) {
@@ -348,6 +388,10 @@ export function EditorProvider({ children }: { children: ReactNode }) {
 
   // Ref to hold the CodeMirror EditorView instance (set by XmlEditor)
   const editorViewRef = useRef<EditorView | null>(null);
+  // Document in editorViewRef (its path follows renames, see setTabFile),
+  // and work waiting for a file's view (runInFileEditor)
+  const editorDocumentRef = useRef<{ id: string; filePath: string | null } | null>(null);
+  const viewWaitersRef = useRef<{ filePath: string; run: (view: EditorView) => void }[]>([]);
 
   // Get active document
   const getActiveDocument = useCallback(() => {
@@ -444,6 +488,15 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   const setErrors = useCallback((errors: ValidationError[]) => dispatch({ type: 'SET_ERRORS', errors }), []);
   const setValidating = useCallback((isValidating: boolean) => dispatch({ type: 'SET_VALIDATING', isValidating }), []);
   const setViewMode = useCallback((viewMode: ViewMode) => dispatch({ type: 'SET_VIEW_MODE', viewMode }), []);
+  const setTagDisplayMode = useCallback((mode: TagDisplayMode) => dispatch({ type: 'SET_TAG_DISPLAY_MODE', mode }), []);
+  const setReviewerName = useCallback((name: string) => {
+    try {
+      localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+    } catch {
+      // localStorage unavailable (Private Mode) — the name lasts this session
+    }
+    dispatch({ type: 'SET_REVIEWER_NAME', name });
+  }, []);
 
   // ─── Specific tab updates ───
 
@@ -452,6 +505,14 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   const setTabErrors = useCallback((id: string, errors: ValidationError[]) => dispatch({ type: 'SET_TAB_ERRORS', id, errors }), []);
   const setTabCursor = useCallback((id: string, line: number, column: number) => dispatch({ type: 'SET_TAB_CURSOR', id, line, column }), []);
   const setDocumentSchemaId = useCallback((id: string, schemaId: string) => dispatch({ type: 'SET_TAB_SCHEMA', id, schemaId }), []);
+  const setTabTracking = useCallback((id: string, tracking: TrackingState) => dispatch({ type: 'SET_TAB_TRACKING', id, tracking }), []);
+  const setTabFile = useCallback(
+    (id: string, fileName: string, fileHandle: FileSystemFileHandle | null, filePath: string | null) => {
+      if (editorDocumentRef.current?.id === id) editorDocumentRef.current = { id, filePath };
+      dispatch({ type: 'SET_TAB_FILE', id, fileName, fileHandle, filePath });
+    },
+    [],
+  );
 
   // ─── Global settings ───
 
@@ -466,6 +527,23 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     goToLineInView(view, line);
   }, []);
 
+  const editorViewCreated = useCallback((view: EditorView, documentId: string, filePath: string | null) => {
+    editorViewRef.current = view;
+    editorDocumentRef.current = { id: documentId, filePath };
+    // A view for another file means the awaited one was superseded
+    const waiting = viewWaitersRef.current;
+    viewWaitersRef.current = [];
+    for (const waiter of waiting) {
+      if (filePath !== null && waiter.filePath === filePath) waiter.run(view);
+    }
+  }, []);
+
+  const runInFileEditor = useCallback((filePath: string, run: (view: EditorView) => void) => {
+    const view = editorViewRef.current;
+    if (view && editorDocumentRef.current?.filePath === filePath) run(view);
+    else viewWaitersRef.current.push({ filePath, run });
+  }, []);
+
   const getSelection = useCallback(() => {
     const view = editorViewRef.current;
     if (!view) return '';
@@ -493,16 +571,22 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       setErrors,
       setValidating,
       setViewMode,
+      setTagDisplayMode,
+      setReviewerName,
       updateTabContent,
       markTabSaved,
       setTabErrors,
       setTabCursor,
       setDocumentSchemaId,
+      setTabTracking,
+      setTabFile,
       setEditorFontSize,
       setOutlineFontSize,
       editorViewRef,
       scrollToLine,
       goToLine: scrollToLine, // Alias for XPath search
+      editorViewCreated,
+      runInFileEditor,
       getSelection,
     }),
     [
@@ -523,15 +607,21 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       setErrors,
       setValidating,
       setViewMode,
+      setTagDisplayMode,
+      setReviewerName,
       updateTabContent,
       markTabSaved,
       setTabErrors,
       setTabCursor,
       setDocumentSchemaId,
+      setTabTracking,
+      setTabFile,
       setEditorFontSize,
       setOutlineFontSize,
       editorViewRef,
       scrollToLine,
+      editorViewCreated,
+      runInFileEditor,
       getSelection,
     ],
   );
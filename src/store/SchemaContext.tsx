@@ -2,6 +2,7 @@ import { useState, useCallback, useEffect, useMemo, useRef, type ReactNode } fro
 import type { SchemaInfo } from '../types/schema';
 import { schemaEngine } from '../schema/SchemaEngine';
 import { parseSchematron, type SchematronSchema } from '../schema/schematron';
+import { parseDocumentSchematron } from '../file/documentSchematron';
 import { SchemaContext } from './useSchema';
 
 const BUILTIN_SCHEMAS = ['tei_lite', 'tei_all'];
@@ -77,6 +78,30 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
 
   const clearSchematron = useCallback(() => setSchematron(null), []);
 
+  /**
+   * Pick the phase to validate with (null = the ruleset's @defaultPhase).
+   * A new schema object, so editors and batch runs pick up the change.
+   */
+  const setSchematronPhase = useCallback((phase: string | null) => {
+    setSchematron((current) => (current ? { ...current, activePhase: phase } : current));
+  }, []);
+
+  // ─── Per-document Schematron (xml-model schematypens), keyed by the
+  //     ruleset's workspace path; null = declared but unusable ───
+
+  const [documentSchematrons, setDocumentSchematrons] = useState<Record<string, SchematronSchema | null>>({});
+
+  /** Parse a document-declared ruleset (null content = file missing/unreadable). */
+  const loadDocumentSchematron = useCallback((path: string, schXml: string | null) => {
+    const parsed = schXml === null ? null : parseDocumentSchematron(schXml, path);
+    setDocumentSchematrons(prev => ({ ...prev, [path]: parsed }));
+  }, []);
+
+  /** Re-parse a ruleset after it was saved — only if some document uses it. */
+  const refreshDocumentSchematron = useCallback((path: string, schXml: string) => {
+    setDocumentSchematrons(prev => (path in prev ? { ...prev, [path]: parseDocumentSchematron(schXml, path) } : prev));
+  }, []);
+
   // ─── Legacy single-schema API (backward compatibility) ───
 
   const [legacySchemaId, setLegacySchemaId] = useState<string>(DEFAULT_SCHEMA_ID);
@@ -114,8 +139,12 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
       schematron,
       loadSchematron,
       clearSchematron,
+      setSchematronPhase,
+      documentSchematrons,
+      loadDocumentSchematron,
+      refreshDocumentSchematron,
     }),
-    [schema, schemasById, isLoading, loadSchema, setSchema, ensureSchema, resolveSchema, registerCustomSchema, schematron, loadSchematron, clearSchematron],
+    [schema, schemasById, isLoading, loadSchema, setSchema, ensureSchema, resolveSchema, registerCustomSchema, schematron, loadSchematron, clearSchematron, setSchematronPhase, documentSchematrons, loadDocumentSchematron, refreshDocumentSchematron],
   );
 
   return <SchemaContext.Provider value={value}>{children}</SchemaContext.Provider>;
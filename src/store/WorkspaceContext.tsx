@@ -1,7 +1,25 @@
-import { useReducer, useCallback, useMemo, useState, type ReactNode } from 'react';
+import { useReducer, useCallback, useMemo, useState, useEffect, type ReactNode } from 'react';
 import type { FileTreeNode, WorkspaceState } from '../types/workspace';
-import type { BatchFileResult } from '../file/batchValidation';
+import { flattenFileNodes, type BatchFileResult } from '../file/batchValidation';
+import { insertTreeNode, isWithinPath, rebasePath, removeTreeNode } from '../file/fileTreeEdit';
 import { openDirectory, buildFileTree, supportsDirectoryPicker } from '../file/fileSystemAccess';
+import {
+  buildAuthorityIndex,
+  buildWorkspaceIdIndex,
+  loadAuthorityFiles,
+  saveAuthorityFiles,
+} from '../file/workspaceIdIndex';
+import {
+  loadRevisionLogSettings,
+  saveRevisionLogSettings,
+  type RevisionLogSettings,
+} from '../file/revisionLogSettings';
+import {
+  collectIdTargets,
+  collectXmlIds,
+  type AuthorityIndex,
+  type WorkspaceIdIndex,
+} from '../schema/referenceIntegrity';
 import { WorkspaceContext, type BatchValidationState } from './useWorkspace';
 
 const IDLE_BATCH: BatchValidationState = { running: false, done: 0, total: 0, results: null };
@@ -14,7 +32,9 @@ type WorkspaceAction =
   | { type: 'SET_FILE_TREE'; fileTree: FileTreeNode[] }
   | { type: 'SET_LOADING'; isLoading: boolean }
   | { type: 'CLOSE_WORKSPACE' }
-  | { type: 'TOGGLE_DIRECTORY'; path: string };
+  | { type: 'TOGGLE_DIRECTORY'; path: string }
+  | { type: 'ADD_TREE_NODE'; dir: string; node: FileTreeNode }
+  | { type: 'REMOVE_TREE_NODE'; path: string };
 
 function reducer(state: WorkspaceState, action: WorkspaceAction): WorkspaceState {
   switch (action.type) {
@@ -60,6 +80,12 @@ function reducer(state: WorkspaceState, action: WorkspaceAction): WorkspaceState
       return { ...state, fileTree: toggleDir(state.fileTree) };
     }
 
+    case 'ADD_TREE_NODE':
+      return { ...state, fileTree: insertTreeNode(state.fileTree, action.dir, action.node) };
+
+    case 'REMOVE_TREE_NODE':
+      return { ...state, fileTree: removeTreeNode(state.fileTree, action.path) };
+
     default:
       return state;
   }
@@ -94,6 +120,86 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
 
   const clearBatch = useCallback(() => setBatch(IDLE_BATCH), []);
 
+  // ─── xml:id index for cross-file pointer checks ───
+  // Keyed on the set of file paths, not the tree object: expanding a folder
+  // (TOGGLE_DIRECTORY) rebuilds the tree but must not re-read every file.
+  // An index built for a different file set reads as null (still building).
+  const [builtIndex, setBuiltIndex] = useState<{ key: string; index: WorkspaceIdIndex } | null>(null);
+  const filePathsKey = useMemo(
+    () => flattenFileNodes(state.fileTree).map(n => n.path).join('\n'),
+    [state.fileTree],
+  );
+  useEffect(() => {
+    if (!filePathsKey) return;
+    let cancelled = false;
+    buildWorkspaceIdIndex(flattenFileNodes(state.fileTree)).then((index) => {
+      if (!cancelled) setBuiltIndex({ key: filePathsKey, index });
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- rebuild only when the file set changes
+  }, [filePathsKey]);
+  const idIndex = filePathsKey && builtIndex?.key === filePathsKey ? builtIndex.index : null;
+
+  // ─── Authority files for pointer completion ───
+  // The choice is per workspace folder; re-read it when another one opens.
+  const rootName = state.rootName;
+  const [authority, setAuthority] = useState<{ root: string | null; paths: string[] }>({ root: null, paths: [] });
+  if (authority.root !== rootName) {
+    setAuthority({ root: rootName, paths: rootName ? loadAuthorityFiles(rootName) : [] });
+  }
+  const authorityFiles = authority.paths;
+
+  const toggleAuthorityFile = useCallback((path: string) => {
+    setAuthority(prev => {
+      const paths = prev.paths.includes(path) ? prev.paths.filter(p => p !== path) : [...prev.paths, path];
+      if (prev.root) saveAuthorityFiles(prev.root, paths);
+      return { ...prev, paths };
+    });
+  }, []);
+
+  // ─── Revision log on save ───
+  // Also per workspace folder; files opened without one share a setting.
+  const [revisionLogState, setRevisionLogState] = useState(() => ({
+    root: rootName,
+    settings: loadRevisionLogSettings(rootName),
+  }));
+  if (revisionLogState.root !== rootName) {
+    setRevisionLogState({ root: rootName, settings: loadRevisionLogSettings(rootName) });
+  }
+  const revisionLog = revisionLogState.settings;
+
+  const setRevisionLog = useCallback((settings: RevisionLogSettings) => {
+    setRevisionLogState(prev => {
+      saveRevisionLogSettings(prev.root, settings);
+      return { ...prev, settings };
+    });
+  }, []);
+
+  const [builtAuthorities, setBuiltAuthorities] = useState<{ key: string; index: AuthorityIndex } | null>(null);
+  const authorityKey = `${filePathsKey}\u0000${authorityFiles.join('\n')}`;
+  useEffect(() => {
+    if (!filePathsKey || authorityFiles.length === 0) return;
+    const nodes = flattenFileNodes(state.fileTree).filter(n => authorityFiles.includes(n.path));
+    let cancelled = false;
+    buildAuthorityIndex(nodes).then((index) => {
+      if (!cancelled) setBuiltAuthorities({ key: authorityKey, index });
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- rebuild only when the file set or the choice changes
+  }, [authorityKey]);
+  const authorityIndex = builtAuthorities?.key === authorityKey && authorityFiles.length > 0 ? builtAuthorities.index : null;
+
+  const updateFileIds = useCallback((path: string, content: string) => {
+    setBuiltIndex(prev => (prev ? { key: prev.key, index: new Map(prev.index).set(path, collectXmlIds(content)) } : prev));
+    setBuiltAuthorities(prev =>
+      prev?.index.has(path) ? { key: prev.key, index: new Map(prev.index).set(path, collectIdTargets(content)) } : prev,
+    );
+  }, []);
+
   const openWorkspace = useCallback(async () => {
     try {
       const { handle, name } = await openDirectory();
@@ -136,6 +242,32 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'TOGGLE_DIRECTORY', path });
   }, []);
 
+  // ─── Tree edits after file operations (useWorkspaceFileOps) ───
+  // Authority files follow a renamed or moved entry, and go with a deleted one.
+  const updateAuthorityPaths = useCallback((update: (path: string) => string | null) => {
+    setAuthority(prev => {
+      const paths = prev.paths.map(update).filter((p): p is string => p !== null);
+      if (paths.length === prev.paths.length && paths.every((p, i) => p === prev.paths[i])) return prev;
+      if (prev.root) saveAuthorityFiles(prev.root, paths);
+      return { ...prev, paths };
+    });
+  }, []);
+
+  const addTreeNode = useCallback((dir: string, node: FileTreeNode) => {
+    dispatch({ type: 'ADD_TREE_NODE', dir, node });
+  }, []);
+
+  const removeTreeNodeAt = useCallback((path: string) => {
+    dispatch({ type: 'REMOVE_TREE_NODE', path });
+    updateAuthorityPaths(p => (isWithinPath(p, path) ? null : p));
+  }, [updateAuthorityPaths]);
+
+  const moveTreeNode = useCallback((from: string, dir: string, node: FileTreeNode) => {
+    dispatch({ type: 'REMOVE_TREE_NODE', path: from });
+    dispatch({ type: 'ADD_TREE_NODE', dir, node });
+    updateAuthorityPaths(p => rebasePath(p, from, node.path));
+  }, [updateAuthorityPaths]);
+
   const findFileNode = useCallback(
     (path: string): FileTreeNode | null => {
       const searchInNodes = (nodes: FileTreeNode[]): FileTreeNode | null => {
@@ -167,8 +299,18 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
       reportBatchProgress,
       finishBatch,
       clearBatch,
+      idIndex,
+      updateFileIds,
+      authorityFiles,
+      toggleAuthorityFile,
+      authorityIndex,
+      revisionLog,
+      setRevisionLog,
+      addTreeNode,
+      removeTreeNode: removeTreeNodeAt,
+      moveTreeNode,
     }),
-    [state, isSupported, openWorkspace, closeWorkspace, refreshFileTree, toggleDirectory, findFileNode, batch, startBatch, reportBatchProgress, finishBatch, clearBatch],
+    [state, isSupported, openWorkspace, closeWorkspace, refreshFileTree, toggleDirectory, findFileNode, batch, startBatch, reportBatchProgress, finishBatch, clearBatch, idIndex, updateFileIds, authorityFiles, toggleAuthorityFile, authorityIndex, revisionLog, setRevisionLog, addTreeNode, removeTreeNodeAt, moveTreeNode],
   );
 
   return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
@@ -1,6 +1,6 @@
 import { createContext, useContext, type MutableRefObject } from 'react';
 import type { EditorView } from '@codemirror/view';
-import type { ViewMode } from '../types/editor';
+import type { TagDisplayMode, TrackingState, ViewMode } from '../types/editor';
 import type { ValidationError } from '../types/schema';
 import type { OpenDocument, MultiTabEditorState } from '../types/workspace';
 
@@ -61,6 +61,9 @@ export interface EditorContextValue {
   setErrors: (errors: ValidationError[]) => void;
   setValidating: (isValidating: boolean) => void;
   setViewMode: (viewMode: ViewMode) => void;
+  setTagDisplayMode: (mode: TagDisplayMode) => void;
+  /** Set (and remember) the author recorded for tracked changes */
+  setReviewerName: (name: string) => void;
 
   // Specific tab updates
   updateTabContent: (id: string, content: string) => void;
@@ -69,6 +72,10 @@ export interface EditorContextValue {
   setTabCursor: (id: string, line: number, column: number) => void;
   /** Associate a schema id with a specific document (M3 per-doc schema) */
   setDocumentSchemaId: (id: string, schemaId: string) => void;
+  /** Mirror a document's track-changes state (from its editor) */
+  setTabTracking: (id: string, tracking: TrackingState) => void;
+  /** Point a document at another file (renamed, moved or deleted in the workspace) */
+  setTabFile: (id: string, fileName: string, fileHandle: FileSystemFileHandle | null, filePath: string | null) => void;
 
   // Global settings
   setEditorFontSize: (size: number) => void;
@@ -79,6 +86,14 @@ export interface EditorContextValue {
   scrollToLine: (line: number) => void;
   /** Alias for scrollToLine - used by XPath search */
   goToLine: (line: number) => void;
+  /** Called by XmlEditor for each editor view it creates, with its document's id and path. */
+  editorViewCreated: (view: EditorView, documentId: string, filePath: string | null) => void;
+  /**
+   * Run `run` on the editor of the workspace file `filePath`: now when it
+   * is the one showing, else once the tab being opened for it gets its view
+   * (dropped if another file's view comes first).
+   */
+  runInFileEditor: (filePath: string, run: (view: EditorView) => void) => void;
   getSelection: () => string;
 }
 
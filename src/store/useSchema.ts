@@ -27,6 +27,17 @@ export interface SchemaContextValue {
   loadSchematron: (schXml: string, name: string) => SchematronSchema;
   /** Deactivate the Schematron ruleset */
   clearSchematron: () => void;
+  /** Validate with a Schematron <phase> (`#ALL` = every pattern, null = @defaultPhase) */
+  setSchematronPhase: (phase: string | null) => void;
+  /**
+   * Rulesets documents declare via xml-model, by workspace path. Missing =
+   * not loaded yet; null = declared but missing or unusable.
+   */
+  documentSchematrons: Record<string, SchematronSchema | null>;
+  /** Parse + register a document-declared ruleset (null = could not be read) */
+  loadDocumentSchematron: (path: string, schXml: string | null) => void;
+  /** Re-parse a registered ruleset after its file was saved (no-op otherwise) */
+  refreshDocumentSchematron: (path: string, schXml: string) => void;
 }
 
 export const SchemaContext = createContext<SchemaContextValue | null>(null);
@@ -1,6 +1,8 @@
 import { createContext, useContext } from 'react';
 import type { FileTreeNode, WorkspaceState } from '../types/workspace';
 import type { BatchFileResult } from '../file/batchValidation';
+import type { RevisionLogSettings } from '../file/revisionLogSettings';
+import type { AuthorityIndex, WorkspaceIdIndex } from '../schema/referenceIntegrity';
 
 /** Batch-validation UI state (results shared between trigger and panel). */
 export interface BatchValidationState {
@@ -31,6 +33,38 @@ export interface WorkspaceContextValue {
   reportBatchProgress: (done: number) => void;
   finishBatch: (results: BatchFileResult[]) => void;
   clearBatch: () => void;
+  /**
+   * xml:ids per workspace file, for cross-file pointer checks. null while
+   * no workspace is open or the index is still being built.
+   */
+  idIndex: WorkspaceIdIndex | null;
+  /** Refresh one file's entry after its content was written to disk. */
+  updateFileIds: (path: string, content: string) => void;
+  /**
+   * Workspace files used as authority files (personography, placeography):
+   * pointer attributes complete against their xml:ids. Remembered per
+   * workspace folder.
+   */
+  authorityFiles: string[];
+  toggleAuthorityFile: (path: string) => void;
+  /** Id targets per authority file. null while none is set or still reading. */
+  authorityIndex: AuthorityIndex | null;
+  /**
+   * Whether saving adds a `<change>` to the document's revisionDesc.
+   * Remembered per workspace folder (and once for files outside one).
+   */
+  revisionLog: RevisionLogSettings;
+  setRevisionLog: (settings: RevisionLogSettings) => void;
+  /*
+   * The tree after a file operation, without re-scanning the folder
+   * (fileTreeEdit.ts). Folders are workspace paths, '' for the root.
+   */
+  /** Add `node` to folder `dir`, expanding the folders down to it. */
+  addTreeNode: (dir: string, node: FileTreeNode) => void;
+  /** Drop the entry at `path` (and its authority-file choices). */
+  removeTreeNode: (path: string) => void;
+  /** Replace the entry at `from` with `node` in folder `dir` (rename or move). */
+  moveTreeNode: (from: string, dir: string, node: FileTreeNode) => void;
 }
 
 export const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
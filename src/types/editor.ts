@@ -1,7 +1,10 @@
 import type { ValidationError } from './schema';
 
 /** View mode for the editor layout */
-export type ViewMode = 'split' | 'editor' | 'preview';
+export type ViewMode = 'split' | 'editor' | 'preview' | 'author';
+
+/** How tags are drawn in the code editor: as written, name only, or a marker */
+export type TagDisplayMode = 'full' | 'short' | 'hidden';
 
 /** Editor state shared across components */
 export interface EditorState {
@@ -31,3 +34,28 @@ export interface EditorState {
   /** Outline panel font size in pixels */
   outlineFontSize: number;
 }
+
+/**
+ * A pending tracked change. An insertion spans its text in the document
+ * (`from`–`to`); a deletion is a point (`from === to`) holding the text that
+ * was deleted there.
+ */
+export interface TrackedChange {
+  id: string;
+  kind: 'insertion' | 'deletion';
+  from: number;
+  to: number;
+  /** The deleted text ('' for an insertion, whose text is in the document). */
+  text: string;
+  author: string;
+  /** When the change was made (ms since the epoch). */
+  timestamp: number;
+}
+
+/** Track-changes state of one document. */
+export interface TrackingState {
+  /** Whether edits are being recorded. */
+  enabled: boolean;
+  /** Pending changes, in document order. */
+  changes: readonly TrackedChange[];
+}
@@ -94,6 +94,27 @@ export interface ValidationError {
   /** Optional end position for range highlighting */
   endLine?: number;
   endColumn?: number;
+  /** Quick fixes offered with the diagnostic (Schematron SQF) */
+  fixes?: QuickFix[];
+}
+
+/** Replace the text between `from` and `to` (0-based offsets) with `insert`. */
+export interface TextEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+/** A quick fix, already resolved to text edits against the validated text. */
+export interface QuickFix {
+  /** Button / menu label */
+  description: string;
+  edits: TextEdit[];
+  /**
+   * Source range and text of the node the fix was computed for. The edits
+   * are only valid while that text is unchanged.
+   */
+  anchor: { from: number; to: number; text: string };
 }
 
 /** Schema information loaded by SchemaEngine */
@@ -106,6 +127,12 @@ export interface SchemaInfo {
   elements: ElementSpec[];
   /** Map from element name to its spec for fast lookup */
   elementMap: Map<string, ElementSpec>;
-  /** Whether salve grammar is available for dynamic validation */
+  /**
+   * Whether element content is validated by the RELAX NG derivative engine
+   * (rngValidator.ts) rather than the heuristic content-model checks.
+   * The name predates the engine (salve was the original candidate).
+   */
   hasSalveGrammar: boolean;
+  /** Workspace path the schema was read from (workspace schemas only). */
+  sourcePath?: string;
 }
@@ -3,6 +3,7 @@
  */
 
 import type { ValidationError } from './schema';
+import type { TagDisplayMode, TrackingState, ViewMode } from './editor';
 
 /**
  * Represents a single open document (tab) in the editor.
@@ -41,6 +42,12 @@ export interface OpenDocument {
    * document's own xml-model declaration.
    */
   schemaId?: string;
+  /**
+   * Track changes (trackChanges.ts), mirrored from the editor so it
+   * survives tab switches. Undefined until tracking is first used (or a
+   * workspace sidecar is loaded).
+   */
+  tracking?: TrackingState;
 }
 
 /**
@@ -92,7 +99,11 @@ export interface MultiTabEditorState {
   /** Global outline font size */
   outlineFontSize: number;
   /** Current view mode */
-  viewMode: 'split' | 'editor' | 'preview';
+  viewMode: ViewMode;
+  /** How tags are drawn in the code editor (global) */
+  tagDisplayMode: TagDisplayMode;
+  /** Author recorded for tracked changes (global, kept in localStorage) */
+  reviewerName: string;
 }
 
 /**
@@ -0,0 +1,9 @@
+/** FNV-1a hash of a text, as 8 hex digits — cheap identity for "same text?" checks. */
+export function contentHash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
@@ -22,6 +22,9 @@ export function isValidXmlFile(fileName: string): boolean {
 /** MIME type for internal drag operations */
 export const INTERNAL_DRAG_TYPE = 'application/x-oxide-file';
 
+/** MIME type carrying a workspace path, for moves within the file tree */
+export const TREE_DRAG_TYPE = 'application/x-oxide-tree-path';
+
 /** Data stored for internal drag operations */
 export interface InternalDragData {
   filePath: string;
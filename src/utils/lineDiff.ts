@@ -0,0 +1,178 @@
+/**
+ * Line diff for side-by-side comparison views.
+ *
+ * Myers' O(ND) algorithm over lines, after trimming the common head and
+ * tail (usually most of a document between two revisions). The edit script
+ * is turned into aligned rows: a run of deleted lines followed by inserted
+ * ones is paired up as changed lines, the remainder shows on one side only.
+ * The edit script itself is exported for other sequences (the structural
+ * compare aligns sibling elements with it).
+ */
+
+/** A line of one side, 1-based. */
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export type DiffRowKind = 'same' | 'changed' | 'removed' | 'added';
+
+/** One row of a side-by-side view. `left` is the old text, `right` the new. */
+export interface DiffRow {
+  kind: DiffRowKind;
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/** Unchanged rows folded away by {@link collapseUnchanged}. */
+export interface DiffSkip {
+  kind: 'skip';
+  count: number;
+}
+
+/** Keep, delete (from the old sequence), insert (from the new one). */
+export type EditOp = '=' | '-' | '+';
+
+/*
+ * Past this many edits the trace (O(D²) memory) gets expensive; the middle
+ * is then shown as one replaced block, which is what it is for a reader.
+ */
+const MAX_EDIT_DISTANCE = 4000;
+
+function myers(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d-1 .. d+1] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push('=');
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(x === prevX ? '+' : '-');
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/\r?\n/);
+}
+
+/**
+ * A shortest edit script turning `a` into `b`: one op per kept, deleted or
+ * inserted item, in order (past MAX_EDIT_DISTANCE, the differing middle
+ * deleted and inserted whole).
+ */
+export function editScript(a: string[], b: string[]): EditOp[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  return [
+    ...Array<EditOp>(head).fill('='),
+    ...(myers(midA, midB) ?? [...Array<EditOp>(midA.length).fill('-'), ...Array<EditOp>(midB.length).fill('+')]),
+    ...Array<EditOp>(tail).fill('='),
+  ];
+}
+
+/** Side-by-side rows turning `oldText` into `newText`. */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const ops = editScript(a, b);
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  for (let p = 0; p < ops.length;) {
+    if (ops[p] === '=') {
+      rows.push({ kind: 'same', left: { number: i + 1, text: a[i] }, right: { number: j + 1, text: b[j] } });
+      i++;
+      j++;
+      p++;
+      continue;
+    }
+    // A run of edits: deletions and insertions, paired up in order
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    for (; p < ops.length && ops[p] !== '='; p++) {
+      if (ops[p] === '-') removed.push({ number: i + 1, text: a[i++] });
+      else added.push({ number: j + 1, text: b[j++] });
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      const left = removed[r] ?? null;
+      const right = added[r] ?? null;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+}
+
+/** Whether the rows contain any change. */
+export function hasChanges(rows: DiffRow[]): boolean {
+  return rows.some(r => r.kind !== 'same');
+}
+
+/**
+ * The rows with unchanged stretches longer than `2 × context` folded into
+ * skips, keeping `context` lines around each change.
+ */
+export function collapseUnchanged(rows: DiffRow[], context = 3): (DiffRow | DiffSkip)[] {
+  const keep = rows.map(() => false);
+  rows.forEach((row, i) => {
+    if (row.kind === 'same') return;
+    for (let c = Math.max(0, i - context); c <= Math.min(rows.length - 1, i + context); c++) keep[c] = true;
+  });
+  const out: (DiffRow | DiffSkip)[] = [];
+  for (let i = 0; i < rows.length;) {
+    if (keep[i]) {
+      out.push(rows[i++]);
+      continue;
+    }
+    let count = 0;
+    while (i < rows.length && !keep[i]) {
+      count++;
+      i++;
+    }
+    out.push({ kind: 'skip', count });
+  }
+  return out;
+}
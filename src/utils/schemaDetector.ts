@@ -1,3 +1,5 @@
+import type { TextEdit } from '../types/schema';
+
 /**
  * Detect schema declarations in XML content and validate availability.
  * Supports:
@@ -8,28 +10,55 @@
 export interface SchemaDeclaration {
   type: 'xml-model' | 'doctype';
   href: string;
-  format: 'rng' | 'dtd' | 'xsd' | 'rnc' | 'unknown';
+  format: 'rng' | 'odd' | 'dtd' | 'xsd' | 'rnc' | 'sch' | 'unknown';
   isLocal: boolean;
+  /** xml-model @schematypens (null when absent, and for DOCTYPEs) */
+  schematypens: string | null;
   originalDeclaration: string;
 }
 
+/** xml-model @schematypens of an ISO Schematron ruleset. */
+export const SCHEMATRON_NS = 'http://purl.oclc.org/dsdl/schematron';
+
+/** xml-model @schematypens of a RELAX NG grammar. */
+export const RELAXNG_NS = 'http://relaxng.org/ns/structure/1.0';
+
+/** The hrefs written for the built-in schemas (as in the new-document templates). */
+export const BUILTIN_SCHEMA_HREFS: Record<string, string> = {
+  tei_lite: 'http://www.tei-c.org/release/xml/tei/custom/schema/relaxng/tei_lite.rng',
+  tei_all: 'http://www.tei-c.org/release/xml/tei/custom/schema/relaxng/tei_all.rng',
+};
+
+/**
+ * Whether a declaration associates a Schematron ruleset: typed with the
+ * Schematron namespace, or an untyped reference to a .sch file.
+ */
+export function isSchematronDeclaration(decl: SchemaDeclaration): boolean {
+  if (decl.type !== 'xml-model') return false;
+  return decl.schematypens !== null ? decl.schematypens === SCHEMATRON_NS : decl.format === 'sch';
+}
+
 /**
  * Parse XML content to find schema declarations
  */
 export function detectSchemaDeclarations(xmlContent: string): SchemaDeclaration[] {
   const declarations: SchemaDeclaration[] = [];
 
-  // Match <?xml-model href="..."> processing instructions
-  const xmlModelRegex = /<\?xml-model\s+href=["']([^"']+)["'][^?]*\?>/gi;
+  // Match <?xml-model ...?> processing instructions; the pseudo-attributes
+  // may come in any order (schematypens/type often precede href).
+  const xmlModelRegex = /<\?xml-model\s([^?]*(?:\?(?!>)[^?]*)*)\?>/gi;
   let match: RegExpExecArray | null;
 
   while ((match = xmlModelRegex.exec(xmlContent)) !== null) {
-    const href = match[1];
+    const pseudo = parsePseudoAttributes(match[1]);
+    const href = pseudo.href;
+    if (!href) continue;
     declarations.push({
       type: 'xml-model',
       href,
       format: getSchemaFormat(href),
       isLocal: isLocalPath(href),
+      schematypens: pseudo.schematypens ?? null,
       originalDeclaration: match[0],
     });
   }
@@ -53,6 +82,7 @@ export function detectSchemaDeclarations(xmlContent: string): SchemaDeclaration[
       href,
       format: getSchemaFormat(href),
       isLocal: isLocalPath(href),
+      schematypens: null,
       originalDeclaration: match[0],
     });
   }
@@ -60,15 +90,26 @@ export function detectSchemaDeclarations(xmlContent: string): SchemaDeclaration[
   return declarations;
 }
 
+/** `name="value"` / `name='value'` pairs of a processing instruction. */
+function parsePseudoAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]] = m[2] ?? m[3];
+  }
+  return attrs;
+}
+
 /**
  * Determine schema format from file extension
  */
 function getSchemaFormat(href: string): SchemaDeclaration['format'] {
   const lower = href.toLowerCase();
   if (lower.endsWith('.rng')) return 'rng';
+  if (lower.endsWith('.odd')) return 'odd';
   if (lower.endsWith('.dtd')) return 'dtd';
   if (lower.endsWith('.xsd')) return 'xsd';
   if (lower.endsWith('.rnc')) return 'rnc';
+  if (lower.endsWith('.sch')) return 'sch';
   return 'unknown';
 }
 
@@ -85,8 +126,8 @@ function isLocalPath(href: string): boolean {
  * Pure — usable from EditorContext without importing SchemaContext (keeps
  * the providers decoupled). Returns null when nothing recognizable is
  * declared (caller falls back to the default schema); a local/custom .rng
- * reference also returns null — we cannot load it from disk automatically,
- * and the existing alert flow already tells the user to upload it.
+ * reference also returns null — a workspace file is resolved separately
+ * (file/documentSchema.ts), anything else has to be uploaded.
  */
 export function resolveSchemaIdFromDeclarations(declarations: SchemaDeclaration[]): string | null {
   for (const decl of declarations) {
@@ -103,6 +144,51 @@ export function detectSchemaIdFromContent(xmlContent: string): string | null {
   return resolveSchemaIdFromDeclarations(detectSchemaDeclarations(xmlContent));
 }
 
+/**
+ * The prolog of a document: everything before the root element's start tag
+ * (XML declaration, PIs, comments, DOCTYPE, whitespace). Schema
+ * declarations live here, so watching it is enough to notice a changed
+ * xml-model without rescanning the whole document.
+ */
+export function extractProlog(xmlContent: string): string {
+  const match = /^(?:\s|<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE(?:[^[>]|\[[\s\S]*?\])*>)*/i.exec(xmlContent);
+  return match ? match[0] : '';
+}
+
+/** Whether an xml-model declaration names the document's grammar (not a Schematron ruleset). */
+function isGrammarDeclaration(decl: SchemaDeclaration): boolean {
+  if (decl.type !== 'xml-model' || isSchematronDeclaration(decl)) return false;
+  return decl.schematypens === RELAXNG_NS || decl.format === 'rng' || decl.format === 'odd' || decl.format === 'rnc';
+}
+
+/**
+ * The edit that makes the document declare `href` as its schema: the first
+ * grammar xml-model PI is rewritten, otherwise a new one goes after the XML
+ * declaration (or at the very start). Schematron declarations are left
+ * alone. Null when the document already declares exactly that href.
+ */
+export function schemaDeclarationEdit(xmlContent: string, href: string): TextEdit | null {
+  const prolog = extractProlog(xmlContent);
+  const attrs = /\.rng$/i.test(href)
+    ? ` type="application/xml" schematypens="${RELAXNG_NS}"`
+    : ' type="application/xml"';
+  const pi = `<?xml-model href="${href.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"${attrs}?>`;
+
+  const xmlModelRegex = /<\?xml-model\s([^?]*(?:\?(?!>)[^?]*)*)\?>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = xmlModelRegex.exec(prolog)) !== null) {
+    const decl = detectSchemaDeclarations(match[0])[0];
+    if (!decl || !isGrammarDeclaration(decl)) continue;
+    if (decl.href === href) return null;
+    return { from: match.index, to: match.index + match[0].length, insert: pi };
+  }
+
+  const xmlDecl = /^\s*<\?xml\s[^?]*(?:\?(?!>)[^?]*)*\?>/.exec(prolog);
+  return xmlDecl
+    ? { from: xmlDecl[0].length, to: xmlDecl[0].length, insert: `\n${pi}` }
+    : { from: 0, to: 0, insert: `${pi}\n` };
+}
+
 /**
  * Analyze schema declarations and return user-friendly messages
  */
@@ -120,7 +206,9 @@ export function analyzeSchemaDeclarations(declarations: SchemaDeclaration[]): {
   const localSchemas: SchemaDeclaration[] = [];
 
   for (const decl of declarations) {
-    if (decl.isLocal) {
+    // Local Schematron rulesets are picked up from the workspace
+    // (file/documentSchematron.ts) — nothing to upload.
+    if (decl.isLocal && !isSchematronDeclaration(decl)) {
       hasLocalSchema = true;
       localSchemas.push(decl);
     }
@@ -188,13 +276,13 @@ export function buildSchemaAlertMessage(
 
   if (analysis.hasLocalSchema && !analysis.hasUnsupportedFormat) {
     const localPaths = analysis.localSchemas
-      .filter(s => s.format === 'rng')
+      .filter(s => s.format === 'rng' || s.format === 'odd')
       .map(s => s.href);
 
     if (localPaths.length > 0) {
       parts.push('\n\n📁 로컬 스키마 참조:\n');
       parts.push(localPaths.join('\n'));
-      parts.push('\n\n스키마 메뉴에서 해당 .rng 파일을 업로드하세요.');
+      parts.push('\n\n스키마 메뉴에서 해당 .rng/.odd 파일을 업로드하거나, 스키마가 들어 있는 폴더를 워크스페이스로 여세요.');
     }
   }
 
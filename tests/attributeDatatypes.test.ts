@@ -0,0 +1,168 @@
+/**
+ * Attribute datatype registry tests — one block per datatype family, plus
+ * the validateXml integration (positions, TEI Lite built-ins, custom RNG).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { getDatatypeChecker, checkAttributeDatatype, registerDatatype } from '../src/schema/attributeDatatypes';
+import { SchemaEngine } from '../src/schema/SchemaEngine';
+import { validateXml } from '../src/schema/xmlValidator';
+import { parseRng } from '../src/schema/rngParser';
+import type { SchemaInfo } from '../src/types/schema';
+
+function accepts(datatype: string, values: string[]) {
+  const check = getDatatypeChecker(datatype)!;
+  for (const v of values) expect(check(v), `${datatype}: "${v}"`).toBeNull();
+}
+
+function rejects(datatype: string, values: string[]) {
+  const check = getDatatypeChecker(datatype)!;
+  for (const v of values) expect(check(v), `${datatype}: "${v}"`).not.toBeNull();
+}
+
+describe('teidata.temporal.w3c', () => {
+  it('accepts every XSD date/time form TEI allows', () => {
+    accepts('teidata.temporal.w3c', [
+      '2024-03-15', '1867', '1867-05', '--05-14', '--05', '---14', '14:30:00',
+      '2024-03-15T14:30:00', '2024-03-15T14:30:00.5Z', '2024-03-15+09:00', '-0044-03-15', '12345', '2024-02-29', '--02-29',
+    ]);
+  });
+
+  it('rejects impossible or non-W3C dates', () => {
+    rejects('teidata.temporal.w3c', [
+      '2024-13-01', '2023-02-29', '2024-04-31', '0000', '867', '15.3.2024', '2024/03/15', '2024-3-5', 'c. 1850', '25:00:00',
+    ]);
+  });
+});
+
+describe('teidata.duration.w3c', () => {
+  it('accepts XSD durations', () => {
+    accepts('teidata.duration.w3c', ['P1Y', 'P1Y2M3D', 'PT30M', 'P2DT3H', 'PT1.5S', '-P10D']);
+  });
+
+  it('rejects empty or malformed durations', () => {
+    rejects('teidata.duration.w3c', ['P', 'PT', 'P1H', '1Y', 'P1DT', 'P1.5Y']);
+  });
+});
+
+describe('numbers', () => {
+  it('teidata.count takes non-negative integers only', () => {
+    accepts('teidata.count', ['0', '12', '+3']);
+    rejects('teidata.count', ['-1', '1.5', 'two', '']);
+  });
+
+  it('teidata.unboundedCount also takes "unbounded"', () => {
+    accepts('teidata.unboundedCount', ['3', 'unbounded']);
+    rejects('teidata.unboundedCount', ['many']);
+  });
+
+  it('teidata.numeric takes decimals, doubles and fractions', () => {
+    accepts('teidata.numeric', ['12', '-0.5', '.5', '1e3', '3/4', 'INF']);
+    rejects('teidata.numeric', ['1,5', 'twelve', '3/']);
+  });
+
+  it('teidata.probability stays within 0..1', () => {
+    accepts('teidata.probability', ['0', '0.25', '1']);
+    rejects('teidata.probability', ['1.2', '-0.1', 'high']);
+  });
+
+  it('truth values', () => {
+    accepts('teidata.truthValue', ['true', 'false', '1', '0']);
+    rejects('teidata.truthValue', ['yes', 'True']);
+    accepts('teidata.xTruthValue', ['unknown', 'inapplicable']);
+  });
+});
+
+describe('xml:id (NCName)', () => {
+  it('accepts XML names, including non-Latin letters', () => {
+    accepts('ID', ['p1', '_x', 'sec.2-a', 'ch1_v2', '한국어', 'α1']);
+  });
+
+  it('rejects names starting with a digit, "-" or ".", and names with ":" or spaces', () => {
+    rejects('ID', ['1st', '-a', '.a', 'tei:p', 'a b', '#p1']);
+  });
+});
+
+describe('xml:lang (BCP 47)', () => {
+  it('accepts well-formed language tags', () => {
+    accepts('teidata.language', ['en', 'ko', 'grc', 'en-US', 'zh-Hant-TW', 'sr-Latn', 'la-x-medieval', 'x-private', 'de-CH-1996', 'i-klingon', '']);
+  });
+
+  it('rejects malformed tags', () => {
+    rejects('teidata.language', ['englishlang', 'en_US', 'e', 'en-', 'ko-KR-', '12']);
+  });
+});
+
+describe('teidata.pointer (URI)', () => {
+  it('accepts fragments, relative and absolute URIs and whitespace-separated lists', () => {
+    accepts('teidata.pointer', [
+      '#p1', '#p1 #p2', 'persons.xml#shakespeare', 'https://example.org/a?b=c&d=e', 'viaf:12345', '../img/f1.jpg', 'a%20b.xml',
+    ]);
+  });
+
+  it('rejects characters a URI cannot carry', () => {
+    rejects('teidata.pointer', ['#a#b', 'a<b', 'bad%zz', '{x}', '1x:foo', ':foo']);
+  });
+
+  it('names the offending token in a list', () => {
+    expect(getDatatypeChecker('teidata.pointer')!('#ok #bad#bad')).toContain('"#bad#bad"');
+  });
+});
+
+describe('registry', () => {
+  it('leaves unregistered datatypes unchecked', () => {
+    expect(checkAttributeDatatype({ name: 'x', datatype: 'teidata.text' }, 'anything at all')).toBeNull();
+    expect(checkAttributeDatatype({ name: 'x' }, '!!!')).toBeNull();
+  });
+
+  it('checks xml:id and xml:lang even when the schema declares no datatype', () => {
+    expect(checkAttributeDatatype({ name: 'xml:id' }, '1st')).not.toBeNull();
+    expect(checkAttributeDatatype({ name: 'xml:lang' }, 'en_US')).not.toBeNull();
+  });
+
+  it('decodes entity references before checking', () => {
+    expect(checkAttributeDatatype({ name: 'target', datatype: 'teidata.pointer' }, 'a.xml?x=1&amp;y=2')).toBeNull();
+  });
+
+  it('accepts new checkers', () => {
+    registerDatatype('test.even', (v) => (Number(v) % 2 === 0 ? null : 'an even number'));
+    expect(checkAttributeDatatype({ name: 'x', datatype: 'test.even' }, '3')).toBe('an even number');
+  });
+});
+
+describe('validateXml integration', () => {
+  let teiLite: SchemaInfo;
+  beforeAll(async () => {
+    teiLite = await new SchemaEngine().loadBuiltin('tei_lite');
+  });
+
+  it('warns at the attribute with the expected form', () => {
+    const doc = '<TEI xmlns="http://www.tei-c.org/ns/1.0">\n<text><body>\n<p>On <date   when="1867-13-01">that day</date></p>\n</body></text>\n</TEI>';
+    const errors = validateXml(doc, teiLite).filter((e) => e.message.includes('@when'));
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ line: 3, column: 15, severity: 'warning' });
+    expect(errors[0].message).toMatch(/^Invalid value "1867-13-01" for @when\. Expected a W3C date/);
+  });
+
+  it('flags bad xml:id and xml:lang values and ignores empty ones', () => {
+    const doc = '<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><p xml:id="1st" xml:lang="en_US">x</p><p xml:id="">y</p></body></text></TEI>';
+    const messages = validateXml(doc, teiLite).map((e) => e.message);
+    expect(messages.filter((m) => m.includes('@xml:id'))).toHaveLength(1);
+    expect(messages.filter((m) => m.includes('@xml:lang'))).toHaveLength(1);
+  });
+
+  it('picks up datatypes from a custom RNG', () => {
+    const rng = `<grammar xmlns="http://relaxng.org/ns/structure/1.0"><start>
+      <element name="event">
+        <attribute name="count"><data type="nonNegativeInteger"/></attribute>
+        <optional><attribute name="when"><ref name="teidata.temporal.w3c"/></attribute></optional>
+        <empty/>
+      </element></start>
+      <define name="teidata.temporal.w3c"><data type="date"/></define>
+    </grammar>`;
+    const spec = parseRng(rng).find((e) => e.name === 'event')!;
+    expect(spec.attributes?.map((a) => [a.name, a.datatype])).toEqual([
+      ['count', 'nonNegativeInteger'],
+      ['when', 'teidata.temporal.w3c'],
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Attributes panel: the element under the cursor, its written and declared
+ * attributes, and edits written back as minimal source changes. The editor,
+ * cursor and schema hooks are mocked so the panel renders without providers.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import {
+  attributeRows,
+  inspectElementAt,
+  removeAttributeChange,
+  setAttributeChange,
+} from '../src/components/Attributes/attributeModel';
+import { AttributeInspector } from '../src/components/Attributes/AttributeInspector';
+import type { AttrSpec, SchemaInfo } from '../src/types/schema';
+
+const attributes: AttrSpec[] = [
+  { name: 'when', datatype: 'teidata.temporal.w3c', documentation: 'date of the event' },
+  { name: 'type', values: ['birth', 'death'] },
+  { name: 'who', required: true, datatype: 'teidata.pointer' },
+  { name: 'xml:id' },
+];
+const schema: SchemaInfo = {
+  id: 'test', name: 'Test', hasSalveGrammar: false,
+  elements: [{ name: 'event', attributes }],
+  elementMap: new Map([['event', { name: 'event', attributes }]]),
+};
+
+const ed = vi.hoisted(() => ({
+  content: '',
+  editorViewRef: { current: null as unknown },
+}));
+const cursor = vi.hoisted(() => ({ line: 1, column: 1 }));
+vi.mock('../src/store/useEditor', () => ({
+  useEditor: () => ({ getActiveDocument: () => ({ content: ed.content }), editorViewRef: ed.editorViewRef }),
+}));
+vi.mock('../src/store/useCursor', () => ({ useCursor: () => cursor }));
+vi.mock('../src/hooks/useActiveSchema', () => ({ useActiveSchema: () => schema }));
+
+let view: EditorView | null = null;
+afterEach(() => {
+  cleanup();
+  view?.destroy();
+  view = null;
+});
+
+const DOC = `<listEvent><event type='death' when="1616-04-23"\n    xml:id="e1">x</event></listEvent>`;
+
+describe('inspectElementAt', () => {
+  it('locates the start tag attributes, quote style included', () => {
+    const el = inspectElementAt(DOC, DOC.indexOf('x</event>'));
+    expect(el?.name).toBe('event');
+    expect(el?.attributes.map(a => [a.name, a.raw, a.quote])).toEqual([
+      ['type', 'death', "'"],
+      ['when', '1616-04-23', '"'],
+      ['xml:id', 'e1', '"'],
+    ]);
+    expect(DOC.slice(el!.attributesEnd)).toBe('>x</event></listEvent>');
+    expect(inspectElementAt(DOC, DOC.length)).toBeNull();
+  });
+});
+
+describe('attributeRows', () => {
+  it('lists written attributes first, then missing required, then the rest', () => {
+    const rows = attributeRows(schema, inspectElementAt('<event when="2024-13-01"/>', 1)!);
+    expect(rows.map(r => [r.name, r.value, r.required])).toEqual([
+      ['when', '2024-13-01', false],
+      ['who', null, true],
+      ['type', null, false],
+      ['xml:id', null, false],
+    ]);
+    expect(rows[0].problem).toMatch(/W3C date/);
+    expect(rows[3].datatype).toBe('ID');
+  });
+});
+
+describe('attribute changes', () => {
+  const el = inspectElementAt(DOC, 12)!;
+  const apply = (change: { from: number; to: number; insert: string } | null) =>
+    change && DOC.slice(0, change.from) + change.insert + DOC.slice(change.to);
+
+  it('replaces only the value, escaped for its quote style', () => {
+    expect(apply(setAttributeChange(el, 'type', "a'b&c"))).toContain(`type='a&apos;b&amp;c'`);
+    expect(setAttributeChange(el, 'when', '1616-04-23')).toBeNull();
+  });
+
+  it('appends a new attribute and removes one with its leading space', () => {
+    expect(apply(setAttributeChange(el, 'who', '#shakespeare'))).toContain('xml:id="e1" who="#shakespeare">x');
+    expect(apply(removeAttributeChange(el, 'when'))).toBe(`<listEvent><event type='death'\n    xml:id="e1">x</event></listEvent>`);
+    expect(removeAttributeChange(el, 'who')).toBeNull();
+  });
+});
+
+describe('AttributeInspector', () => {
+  function setup(doc: string, offset: number) {
+    ed.content = doc;
+    cursor.line = 1;
+    cursor.column = offset + 1;
+    view = new EditorView({ state: EditorState.create({ doc }), parent: document.body });
+    ed.editorViewRef = { current: view };
+    render(<AttributeInspector />);
+  }
+
+  it('writes a committed value back into the source', () => {
+    setup('<event when="1616">x</event>', 20);
+    expect(screen.getByText('<event>')).toBeInTheDocument();
+    expect(screen.getByText('★')).toBeInTheDocument();
+
+    const who = screen.getByLabelText(/^who/);
+    fireEvent.change(who, { target: { value: '#ws' } });
+    fireEvent.keyDown(who, { key: 'Enter' });
+    expect(view!.state.doc.toString()).toBe('<event when="1616" who="#ws">x</event>');
+
+    fireEvent.change(screen.getByLabelText(/^type/), { target: { value: 'birth' } });
+    expect(view!.state.doc.toString()).toBe('<event when="1616" who="#ws" type="birth">x</event>');
+  });
+
+  it('removes an attribute', () => {
+    setup('<event when="1616">x</event>', 20);
+    fireEvent.click(screen.getByRole('button', { name: 'Remove when' }));
+    expect(view!.state.doc.toString()).toBe('<event>x</event>');
+  });
+
+  it('says so outside any element', () => {
+    setup('text', 0);
+    expect(screen.getByText(/Place the cursor inside an element/)).toBeInTheDocument();
+  });
+});
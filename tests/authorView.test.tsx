@@ -0,0 +1,162 @@
+/**
+ * Author view: the styled projection of the source, its offset mapping
+ * both ways, and text edits written back as minimal source changes. The
+ * editor hook is mocked around a real EditorView, which stands in for the
+ * hidden code editor the view dispatches to.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, cleanup, screen, fireEvent } from '@testing-library/react';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import {
+  buildAuthorTree,
+  rawOffset,
+  shownOffset,
+  textAt,
+  textEdit,
+  type AuthorElement,
+  type AuthorText,
+} from '../src/components/Author/authorModel';
+import { AuthorView } from '../src/components/Author/AuthorView';
+
+const ed = vi.hoisted(() => ({ view: null as EditorView | null }));
+vi.mock('../src/store/useEditor', () => ({
+  useEditor: () => ({
+    state: { content: ed.view?.state.doc.toString() ?? '' },
+    editorViewRef: { current: ed.view },
+  }),
+}));
+
+afterEach(() => {
+  cleanup();
+  ed.view?.destroy();
+  ed.view = null;
+  localStorage.clear();
+});
+
+const DOC = '<?xml version="1.0"?>\n<TEI><text><p>Fish &amp; chips<!-- c --> for <persName>Ann</persName>.<lb/>End</p></text></TEI>';
+
+describe('buildAuthorTree', () => {
+  it('keeps text runs with their source ranges, outside the prolog and comments', () => {
+    const root = buildAuthorTree(DOC)!;
+    const p = ((root.children[0] as AuthorElement).children[0]) as AuthorElement;
+    expect(p.name).toBe('p');
+    expect(p.children.map(c => (c.kind === 'text' ? c.text : `<${c.name}>`))).toEqual([
+      'Fish & chips', ' for ', '<persName>', '.', '<lb>', 'End',
+    ]);
+    const fish = p.children[0] as AuthorText;
+    expect(DOC.slice(fish.from, fish.to)).toBe('Fish &amp; chips');
+    expect(p.to).toBe(DOC.indexOf('</text>'));
+  });
+
+  it('gives an element with no content a zero-length run', () => {
+    const doc = '<div><p>one</p><p></p></div>';
+    const run = textAt(buildAuthorTree(doc), 18)!;
+    expect(run).toMatchObject({ from: 18, to: 18, text: '' });
+    expect(textAt(buildAuthorTree('<div><p/></div>'), 5)).toBeNull();
+  });
+
+  it('closes unclosed elements at the end of the document', () => {
+    const root = buildAuthorTree('<p>open <hi>ended')!;
+    expect(root.to).toBe(17);
+    expect((root.children[1] as AuthorElement).children).toMatchObject([{ text: 'ended' }]);
+  });
+});
+
+describe('offset mapping', () => {
+  const fish = (() => {
+    const root = buildAuthorTree(DOC)!;
+    return textAt(root, DOC.indexOf('chips'))!;
+  })();
+
+  it('maps shown characters to source offsets across entities', () => {
+    expect(fish.text).toBe('Fish & chips');
+    expect(rawOffset(fish, 5)).toBe(DOC.indexOf('&amp;'));
+    expect(rawOffset(fish, 6)).toBe(DOC.indexOf(' chips'));
+    expect(shownOffset(fish, DOC.indexOf(' chips'))).toBe(6);
+    // Inside the entity counts as before it
+    expect(shownOffset(fish, DOC.indexOf('amp;'))).toBe(5);
+  });
+
+  it('edits only what changed, escaping new text', () => {
+    expect(textEdit(fish, 0, 4, 'Chips')).toEqual({ from: fish.from, to: fish.from + 4, insert: 'Chips' });
+    const change = textEdit(fish, 5, 6, '<&>')!;
+    expect(DOC.slice(0, change.from) + change.insert + DOC.slice(change.to)).toContain('<p>Fish &lt;&amp;&gt; chips');
+    expect(change.to - change.from).toBeLessThan('&amp;'.length);
+    expect(textEdit(fish, 0, 4, 'Fish')).toBeNull();
+  });
+});
+
+describe('AuthorView', () => {
+  function mount(doc: string) {
+    ed.view = new EditorView({ state: EditorState.create({ doc }), parent: document.body });
+    return render(<AuthorView />);
+  }
+
+  function caretAt(text: string, offset: number) {
+    const walker = document.createTreeWalker(screen.getByLabelText('Author view'), NodeFilter.SHOW_TEXT);
+    for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+      if (n.textContent === text && n.parentElement?.classList.contains('author-tag') === false) {
+        document.getSelection()!.collapse(n, offset);
+        return;
+      }
+    }
+    throw new Error(`no text run "${text}"`);
+  }
+
+  function input(inputType: string, data: string | null = null) {
+    fireEvent(screen.getByLabelText('Author view'), new InputEvent('beforeinput', { inputType, data, bubbles: true, cancelable: true }));
+  }
+
+  it('renders with the preview classes and tag chips', () => {
+    mount(DOC);
+    const box = screen.getByLabelText('Author view');
+    expect(box.querySelector('p.tei-p')).toBeTruthy();
+    expect(box.querySelector('.tei-persName')?.textContent).toBe('persNameAnnpersName');
+    expect(box.querySelectorAll('.author-tag-empty')).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hide tags' }));
+    expect(box.parentElement?.className).toContain('author-tags-hidden');
+    expect(localStorage.getItem('tei-editor-author-tags')).toBe('hidden');
+  });
+
+  it('turns typing and deletion into source changes and keeps the caret', () => {
+    const { rerender } = mount(DOC);
+    caretAt('Ann', 3);
+    input('insertText', 'a & B');
+    rerender(<AuthorView />);
+    expect(ed.view!.state.doc.toString()).toContain('<persName>Anna &amp; B</persName>');
+    expect(document.getSelection()!.anchorOffset).toBe(8);
+
+    input('deleteContentBackward');
+    rerender(<AuthorView />);
+    expect(ed.view!.state.doc.toString()).toContain('<persName>Anna &amp; </persName>');
+
+    // Backspace at the start of a run never deletes markup
+    caretAt('End', 0);
+    input('deleteContentBackward');
+    expect(ed.view!.state.doc.toString()).toContain('<lb/>End');
+  });
+
+  it('splits the element on Enter', () => {
+    const { rerender } = mount('<div><p>one two</p></div>');
+    caretAt('one two', 4);
+    input('insertParagraph');
+    rerender(<AuthorView />);
+    expect(ed.view!.state.doc.toString()).toBe('<div><p>one </p><p>two</p></div>');
+  });
+
+  it('puts the caret in the new empty paragraph after Enter, ready to type', () => {
+    const { rerender } = mount('<div><p>one</p></div>');
+    caretAt('one', 3);
+    input('insertParagraph');
+    rerender(<AuthorView />);
+    expect(ed.view!.state.doc.toString()).toBe('<div><p>one</p><p></p></div>');
+
+    input('insertText', 'two');
+    rerender(<AuthorView />);
+    expect(ed.view!.state.doc.toString()).toBe('<div><p>one</p><p>two</p></div>');
+    expect(document.getSelection()!.anchorNode?.textContent).toBe('two');
+    expect(document.getSelection()!.anchorOffset).toBe(3);
+  });
+});
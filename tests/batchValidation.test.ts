@@ -121,6 +121,48 @@ describe('runBatchValidation', () => {
     expect(results[0].errors.find(e => e.message.includes('[Schematron]'))?.line).toBe(2);
   });
 
+  it('resolves cross-file pointers against the ids of the whole corpus', async () => {
+    const tree = [
+      fakeDir('texts', 'texts', [
+        fakeFile('a.xml', 'texts/a.xml', '<TEI><persName ref="../persons.xml#p1"/>\n<persName ref="../persons.xml#p2"/></TEI>'),
+      ]),
+      fakeFile('persons.xml', 'persons.xml', '<TEI><person xml:id="p1"/></TEI>'),
+    ];
+
+    const results = await runBatchValidation(tree, async () => null, null);
+
+    expect(results[0].errors.map(e => [e.line, e.message])).toEqual([
+      [2, '@ref points to "../persons.xml#p2", but persons.xml has no xml:id="p2"'],
+    ]);
+    expect(results[1].errors).toEqual([]);
+  });
+
+  it('reads a large corpus a few files at a time, keeping tree order', async () => {
+    let reading = 0;
+    let mostAtOnce = 0;
+    const tree = Array.from({ length: 30 }, (_, i): FileTreeNode => ({
+      name: `f${i}.xml`,
+      path: `f${i}.xml`,
+      type: 'file',
+      handle: {
+        kind: 'file',
+        name: `f${i}.xml`,
+        getFile: async () => {
+          mostAtOnce = Math.max(mostAtOnce, ++reading);
+          await new Promise(resolve => setTimeout(resolve, 1));
+          reading--;
+          return { text: async () => `<TEI xml:id="f${i}"/>` };
+        },
+      } as unknown as FileSystemHandle,
+    }));
+
+    const results = await runBatchValidation(tree, async () => null, null);
+
+    expect(mostAtOnce).toBeGreaterThan(1);
+    expect(mostAtOnce).toBeLessThanOrEqual(8);
+    expect(results.map(r => r.path)).toEqual(tree.map(n => n.path));
+  });
+
   it('reports unreadable files as a synthetic error instead of aborting the run', async () => {
     const broken: FileTreeNode = {
       name: 'broken.xml',
@@ -138,6 +180,15 @@ describe('runBatchValidation', () => {
     expect(results[1].errorCount).toBe(0);
   });
 
+  it('reports a schema that fails to load apart from an unreadable file', async () => {
+    const tree = [fakeFile('a.xml', 'a.xml', VALID_TEI)];
+
+    const results = await runBatchValidation(tree, async () => { throw new Error('schema.rng: 404'); }, null);
+
+    expect(results[0].errorCount).toBe(1);
+    expect(results[0].errors[0].message).toBe('Could not load schema: schema.rng: 404');
+  });
+
   it('reports progress per file and a final completion tick', async () => {
     const tree = [fakeFile('a.xml', 'a.xml', VALID_TEI), fakeFile('b.xml', 'b.xml', VALID_TEI)];
     const ticks: Array<{ done: number; total: number }> = [];
@@ -0,0 +1,142 @@
+/**
+ * Characters panel: derived character names and search, gaiji from the
+ * document's charDecl, internal-subset entities, per-folder favorites, and
+ * what a click inserts. The editor and workspace hooks are mocked so the
+ * panel renders without providers.
+ */
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import {
+  UNICODE_BLOCKS,
+  blockCharacters,
+  characterName,
+  charDeclEntries,
+  insertionText,
+  internalSubsetEntities,
+  loadFavorites,
+  saveFavorites,
+  searchCharacters,
+} from '../src/components/Characters/characterModel';
+import { CharacterPalette } from '../src/components/Characters/CharacterPalette';
+
+const ed = vi.hoisted(() => ({ content: '', inserted: [] as string[] }));
+const ws = vi.hoisted(() => ({ rootName: 'folio' as string | null }));
+vi.mock('../src/store/useEditor', () => ({
+  useEditor: () => ({ getActiveDocument: () => ({ content: ed.content }) }),
+}));
+vi.mock('../src/store/useWorkspace', () => ({ useWorkspace: () => ({ state: { rootName: ws.rootName } }) }));
+vi.mock('../src/hooks/useEditorActions', () => ({
+  useEditorActions: () => ({ replaceSelection: (text: string) => ed.inserted.push(text) }),
+}));
+
+beforeEach(() => {
+  localStorage.clear();
+  ed.inserted = [];
+  ws.rootName = 'folio';
+});
+afterEach(cleanup);
+
+const DOC = `<?xml version="1.0"?>
+<!DOCTYPE TEI [
+  <!ENTITY ct "&#xFB05;">
+  <!ENTITY % param "ignored">
+  <!ENTITY ext SYSTEM "ext.xml">
+  <!ENTITY printer 'J. &amp; R.'>
+]>
+<TEI><teiHeader><encodingDesc><charDecl>
+  <char xml:id="ctlig"><charName>LATIN SMALL LIGATURE CT</charName><mapping type="standard">ct</mapping></char>
+  <glyph xml:id="r-rot"><glyphName>r rotunda</glyphName><mapping>&#xA75B;</mapping></glyph>
+  <char><charName>no id</charName></char>
+</charDecl></encodingDesc></teiHeader><text/></TEI>`;
+
+describe('character names and search', () => {
+  it('names curated and decomposable characters', () => {
+    expect(characterName('ſ')).toBe('LATIN SMALL LETTER LONG S');
+    expect(characterName('ꝛ')).toBe('LATIN SMALL LETTER R ROTUNDA');
+    expect(characterName('é')).toBe('LATIN SMALL LETTER E WITH ACUTE');
+    expect(characterName('ǖ')).toBe('LATIN SMALL LETTER U WITH DIAERESIS AND MACRON');
+    expect(characterName('ͤ')).toBe('COMBINING LATIN SMALL LETTER E');
+    expect(characterName('Æ')).toBe('LATIN CAPITAL LETTER AE');
+    expect(characterName('Ç')).toBe('LATIN CAPITAL LETTER C WITH CEDILLA');
+    expect(searchCharacters('c cedilla')).toContain('Ç');
+    expect(searchCharacters('small letter ae')).not.toContain('Ç');
+  });
+
+  it('finds characters by name words, code point or the character itself', () => {
+    expect(searchCharacters('long s')).toContain('ſ');
+    expect(searchCharacters('thorn stroke')).toEqual(['Ꝥ', 'ꝥ', 'Ꝧ', 'ꝧ']);
+    expect(searchCharacters('U+017F')).toEqual(['ſ']);
+    expect(searchCharacters('a7')).toEqual(['§']);
+    expect(searchCharacters('no such letter')).toEqual([]);
+    expect(searchCharacters('þ')).toEqual(['þ']);
+    expect(searchCharacters('  ')).toEqual([]);
+  });
+
+  it('leaves unassigned code points out of a block', () => {
+    const greek = UNICODE_BLOCKS.find(b => b.name === 'Greek and Coptic')!;
+    expect(blockCharacters(greek)).not.toContain('͸');
+    expect(blockCharacters(greek)).toContain('α');
+  });
+});
+
+describe('document characters', () => {
+  it('reads charDecl entries that have an xml:id', () => {
+    expect(charDeclEntries(DOC)).toEqual([
+      { id: 'ctlig', kind: 'char', name: 'LATIN SMALL LIGATURE CT', mapping: 'ct' },
+      { id: 'r-rot', kind: 'glyph', name: 'r rotunda', mapping: 'ꝛ' },
+    ]);
+    expect(charDeclEntries('<TEI><char xml:id="x"/></TEI>')).toEqual([]);
+  });
+
+  it('reads general internal entities of the DOCTYPE', () => {
+    expect(internalSubsetEntities(DOC)).toEqual([
+      { name: 'ct', value: 'ﬅ' },
+      { name: 'printer', value: 'J. & R.' },
+    ]);
+    expect(internalSubsetEntities('<TEI/>')).toEqual([]);
+  });
+
+  it('inserts characters, g elements and entity references', () => {
+    expect(insertionText({ kind: 'char', value: 'ſ' })).toBe('ſ');
+    expect(insertionText({ kind: 'gaiji', value: 'ctlig' })).toBe('<g ref="#ctlig"/>');
+    expect(insertionText({ kind: 'entity', value: 'ct' })).toBe('&ct;');
+  });
+});
+
+describe('favorites', () => {
+  it('are stored per workspace folder', () => {
+    saveFavorites('folio', [{ kind: 'char', value: 'ſ' }]);
+    expect(loadFavorites('folio')).toEqual([{ kind: 'char', value: 'ſ' }]);
+    expect(loadFavorites('quarto')).toEqual([]);
+    localStorage.setItem('oxide-char-favorites:bad', '{not json');
+    expect(loadFavorites('bad')).toEqual([]);
+  });
+});
+
+describe('CharacterPalette', () => {
+  it('inserts from the grid, charDecl and entities, and keeps favorites', () => {
+    ed.content = DOC;
+    render(<CharacterPalette />);
+
+    fireEvent.change(screen.getByLabelText('Search characters'), { target: { value: 'long s' } });
+    fireEvent.click(screen.getByTitle('LATIN SMALL LETTER LONG S · U+017F'));
+    expect(ed.inserted).toEqual(['ſ']);
+
+    fireEvent.click(screen.getByTitle('Add to favorites'));
+    expect(loadFavorites('folio')).toEqual([{ kind: 'char', value: 'ſ' }]);
+    expect(screen.getByText('Favorites')).toBeTruthy();
+
+    fireEvent.click(screen.getByTitle('<g ref="#r-rot"/> · r rotunda'));
+    fireEvent.click(screen.getByTitle('&ct; · ﬅ'));
+    expect(ed.inserted).toEqual(['ſ', '<g ref="#r-rot"/>', '&ct;']);
+  });
+
+  it('browses a block when there is no search', () => {
+    ed.content = '<TEI/>';
+    render(<CharacterPalette />);
+    fireEvent.change(screen.getByLabelText('Unicode block'), { target: { value: 'Latin Extended-D (medieval)' } });
+    fireEvent.click(screen.getByTitle('LATIN SMALL LETTER CON · U+A76F'));
+    expect(ed.inserted).toEqual(['ꝯ']);
+    expect(screen.queryByText('Document glyphs (charDecl)')).toBeNull();
+  });
+});
@@ -401,11 +401,12 @@ describe('Element Completion Context Awareness', () => {
 
     expect(result).not.toBeNull();
 
-    // Check that allowed children are present with high boost
+    // Check that allowed children are present with high boost. The header is
+    // empty, so the sequence admits only its first item here.
     const fileDescOption = result!.options.find(o => o.label.includes('fileDesc'));
     const encodingDescOption = result!.options.find(o => o.label.includes('encodingDesc'));
     expect(fileDescOption).toBeDefined();
-    expect(encodingDescOption).toBeDefined();
+    expect(encodingDescOption).toBeUndefined();
 
     // p is not a direct child of teiHeader, should NOT be in the list at all
     const pOption = result!.options.find(o => o.label === 'p' || o.label === 'p/>');
@@ -445,14 +446,15 @@ describe('Element Completion Context Awareness', () => {
   it('should NOT suggest elements outside parent\'s children list', () => {
     const doc = `<TEI>
   <teiHeader>
+    <fileDesc/>
     <`;
     const context = createMockContext(doc);
     const result = completionSource(context);
 
     expect(result).not.toBeNull();
 
-    // teiHeader의 자식만 제안되어야 함
-    const allowedLabels = ['fileDesc', 'encodingDesc', 'profileDesc', 'revisionDesc'];
+    // teiHeader의 자식 중 fileDesc 다음에 올 수 있는 것만 제안되어야 함
+    const allowedLabels = ['encodingDesc', 'profileDesc', 'revisionDesc'];
 
     // 허용된 요소는 있어야 함
     for (const label of allowedLabels) {
@@ -461,7 +463,7 @@ describe('Element Completion Context Awareness', () => {
     }
 
     // 허용되지 않은 요소 (p, TEI, titleStmt 등)는 없어야 함
-    const disallowedLabels = ['p', 'TEI', 'titleStmt', 'author', 'editor'];
+    const disallowedLabels = ['p', 'TEI', 'titleStmt', 'author', 'editor', 'fileDesc'];
     for (const label of disallowedLabels) {
       const option = result!.options.find(o => o.label === label || o.label === `${label}/>`);
       expect(option).toBeUndefined();
@@ -495,6 +497,30 @@ describe('Element Completion Context Awareness', () => {
 // Test Suite: No Schema
 // ============================================================================
 
+describe('Sequence-aware element completion', () => {
+  const source = createSchemaCompletionSource(buildTestSchema(testElements));
+  const labelsAt = (marked: string) => {
+    const pos = marked.indexOf('|');
+    return source(createMockContext(marked.replace('|', ''), pos))!.options.map(o => o.label);
+  };
+
+  it('ranks the next required element of the sequence first', () => {
+    // fileDesc = titleStmt, editionStmt?, publicationStmt, sourceDesc*
+    expect(labelsAt('<fileDesc><titleStmt/><|')[0]).toBe('publicationStmt ★');
+  });
+
+  it('offers only what fits between the siblings around the cursor', () => {
+    expect(labelsAt('<fileDesc><|<publicationStmt/></fileDesc>')).toEqual(['titleStmt ★']);
+  });
+
+  it('hides elements whose maxOccurs is exhausted', () => {
+    const labels = labelsAt('<teiHeader><fileDesc/><encodingDesc/><|');
+    expect(labels).not.toContain('encodingDesc');
+    expect(labels).not.toContain('fileDesc');
+    expect(labels).toEqual(expect.arrayContaining(['profileDesc', 'revisionDesc']));
+  });
+});
+
 describe('No Schema Handling', () => {
   it('should return null when schema is null', () => {
     const completionSource = createSchemaCompletionSource(null);
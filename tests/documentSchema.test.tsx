@@ -0,0 +1,170 @@
+/**
+ * Workspace schemas via xml-model: local .rng/.odd hrefs resolved against
+ * the document path, read through the workspace directory handle, used by
+ * the batch run, and assigned to open tabs by useWorkspaceSchemas.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { findDocumentSchemaPath, loadWorkspaceSchema } from '../src/file/documentSchema';
+import { readWorkspaceFile } from '../src/file/fileSystemAccess';
+import { runBatchValidation } from '../src/file/batchValidation';
+import { EditorProvider } from '../src/store/EditorContext';
+import { SchemaProvider } from '../src/store/SchemaContext';
+import { useEditor } from '../src/store/useEditor';
+import { useSchema } from '../src/store/useSchema';
+import { useWorkspaceSchemas } from '../src/hooks/useWorkspaceSchemas';
+import type { FileTreeNode } from '../src/types/workspace';
+
+const RNG_NS = 'http://relaxng.org/ns/structure/1.0';
+
+const POEM_RNG = `<grammar xmlns="${RNG_NS}">
+  <start><element name="poem"><oneOrMore><element name="line"><text/></element></oneOrMore></element></start>
+</grammar>`;
+
+const declaring = (href: string, body = '<poem><line>x</line></poem>') =>
+  `<?xml-model href="${href}" type="application/xml" schematypens="${RNG_NS}"?>\n${body}`;
+
+/** A FileSystemDirectoryHandle over a { path: content } map. */
+function fakeRoot(files: Record<string, string>, prefix = ''): FileSystemDirectoryHandle {
+  return {
+    kind: 'directory',
+    name: prefix,
+    getDirectoryHandle: async (name: string) => {
+      const dir = `${prefix}${name}/`;
+      if (!Object.keys(files).some(p => p.startsWith(dir))) throw new DOMException(name, 'NotFoundError');
+      return fakeRoot(files, dir);
+    },
+    getFileHandle: async (name: string) => {
+      const content = files[`${prefix}${name}`];
+      if (content === undefined) throw new DOMException(name, 'NotFoundError');
+      return { kind: 'file', name, getFile: async () => ({ text: async () => content }) };
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+function fakeFile(path: string, content: string): FileTreeNode {
+  const name = path.split('/').pop()!;
+  return {
+    name,
+    path,
+    type: 'file',
+    handle: { kind: 'file', name, getFile: async () => ({ text: async () => content }) } as unknown as FileSystemHandle,
+  };
+}
+
+const workspace = vi.hoisted(() => ({ rootHandle: null as FileSystemDirectoryHandle | null }));
+vi.mock('../src/store/useWorkspace', () => ({
+  useWorkspace: () => ({ state: { rootHandle: workspace.rootHandle } }),
+}));
+
+afterEach(() => {
+  cleanup();
+  workspace.rootHandle = null;
+});
+
+describe('findDocumentSchemaPath', () => {
+  it('resolves local RELAX NG and ODD hrefs against the document path', () => {
+    expect(findDocumentSchemaPath(declaring('../schema/project.rng'), 'texts/a.xml')).toBe('schema/project.rng');
+    expect(findDocumentSchemaPath(declaring('project.odd'), 'texts/a.xml')).toBe('texts/project.odd');
+  });
+
+  it('ignores remote schemas, Schematron, other formats and paths above the root', () => {
+    expect(findDocumentSchemaPath(declaring('https://tei-c.org/release/xml/tei/custom/schema/relaxng/tei_all.rng'), 'a.xml')).toBeNull();
+    expect(findDocumentSchemaPath('<?xml-model href="house.sch" schematypens="http://purl.oclc.org/dsdl/schematron"?><r/>', 'a.xml')).toBeNull();
+    expect(findDocumentSchemaPath('<?xml-model href="project.xsd"?><r/>', 'a.xml')).toBeNull();
+    expect(findDocumentSchemaPath(declaring('../project.rng'), 'a.xml')).toBeNull();
+  });
+});
+
+describe('reading workspace schemas', () => {
+  const root = fakeRoot({ 'schema/project.rng': POEM_RNG });
+
+  it('walks directory handles to the file', async () => {
+    expect(await readWorkspaceFile(root, 'schema/project.rng')).toBe(POEM_RNG);
+    await expect(readWorkspaceFile(root, 'schema/missing.rng')).rejects.toThrow();
+  });
+
+  it('loads the schema under a path-derived id', async () => {
+    const info = await loadWorkspaceSchema(root, 'schema/project.rng');
+    expect(info.id).toBe('custom_schema/project');
+    expect(info.elements.map(e => e.name).sort()).toEqual(['line', 'poem']);
+  });
+});
+
+describe('batch validation', () => {
+  it("validates against the file's workspace schema, falling back to detection", async () => {
+    const root = fakeRoot({ 'schema/project.rng': POEM_RNG });
+    const tree = [
+      fakeFile('poems/good.xml', declaring('../schema/project.rng')),
+      fakeFile('poems/bad.xml', declaring('../schema/project.rng', '<poem><stanza/></poem>')),
+      fakeFile('poems/missing.xml', declaring('../schema/gone.rng')),
+    ];
+    const resolver = vi.fn((path: string) => loadWorkspaceSchema(root, path));
+
+    const results = await runBatchValidation(tree, async () => null, null, undefined, (path) =>
+      resolver(path).catch(() => null));
+
+    expect(results.map(r => r.schemaId)).toEqual(['custom_schema/project', 'custom_schema/project', 'tei_lite']);
+    expect(results[0].errors).toEqual([]);
+    expect(results[1].errors.some(e => e.message.includes('stanza'))).toBe(true);
+    // One load per declared schema, however many files share it.
+    expect(resolver).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useWorkspaceSchemas', () => {
+  function setup() {
+    return renderHook(
+      () => {
+        useWorkspaceSchemas();
+        return { editor: useEditor(), schema: useSchema() };
+      },
+      {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <SchemaProvider>
+            <EditorProvider>{children}</EditorProvider>
+          </SchemaProvider>
+        ),
+      },
+    );
+  }
+
+  const activeSchemaId = (editor: ReturnType<typeof useEditor>) => editor.getActiveDocument()?.schemaId;
+
+  it('assigns and registers the declared workspace schema on open', async () => {
+    workspace.rootHandle = fakeRoot({ 'schema/project.rng': POEM_RNG });
+    const { result } = setup();
+
+    act(() => result.current.editor.openFileAsTab(declaring('../schema/project.rng'), 'a.xml', null, 'poems/a.xml'));
+    await waitFor(() => expect(activeSchemaId(result.current.editor)).toBe('custom_schema/project'));
+    expect(result.current.schema.resolveSchema('custom_schema/project')?.elements.map(e => e.name)).toContain('poem');
+  });
+
+  it('keeps a manual override until the declaration changes', async () => {
+    workspace.rootHandle = fakeRoot({ 'schema/project.rng': POEM_RNG, 'schema/other.rng': POEM_RNG });
+    const { result } = setup();
+
+    act(() => result.current.editor.openFileAsTab(declaring('../schema/project.rng'), 'a.xml', null, 'poems/a.xml'));
+    await waitFor(() => expect(activeSchemaId(result.current.editor)).toBe('custom_schema/project'));
+    const id = result.current.editor.multiTabState.activeDocumentId!;
+
+    act(() => result.current.editor.setDocumentSchemaId(id, 'tei_all'));
+    act(() => result.current.editor.updateTabContent(id, declaring('../schema/project.rng', '<poem/>')));
+    expect(activeSchemaId(result.current.editor)).toBe('tei_all');
+
+    act(() => result.current.editor.updateTabContent(id, declaring('../schema/other.rng')));
+    await waitFor(() => expect(activeSchemaId(result.current.editor)).toBe('custom_schema/other'));
+  });
+
+  it('leaves documents alone without a workspace or a loadable schema', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    workspace.rootHandle = fakeRoot({});
+    const { result } = setup();
+
+    act(() => result.current.editor.openFileAsTab(declaring('../schema/project.rng'), 'a.xml', null, 'poems/a.xml'));
+    await waitFor(() => expect(warn).toHaveBeenCalled());
+    expect(activeSchemaId(result.current.editor)).toBe('tei_lite');
+    warn.mockRestore();
+  });
+});
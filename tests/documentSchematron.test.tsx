@@ -0,0 +1,125 @@
+/**
+ * Per-document Schematron via xml-model (schematypens = ISO Schematron):
+ * href resolution against the workspace, the batch run honouring each
+ * file's own ruleset, and useActiveSchematron following the active tab
+ * with the app-level ruleset as the fallback.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { findDocumentSchematronPath, parseDocumentSchematron } from '../src/file/documentSchematron';
+import { runBatchValidation } from '../src/file/batchValidation';
+import { parseSchematron } from '../src/schema/schematron';
+import { EditorProvider } from '../src/store/EditorContext';
+import { SchemaProvider } from '../src/store/SchemaContext';
+import { useEditor } from '../src/store/useEditor';
+import { useSchema } from '../src/store/useSchema';
+import { useActiveSchematron } from '../src/hooks/useActiveSchematron';
+import type { FileTreeNode } from '../src/types/workspace';
+
+const SCH_NS = 'http://purl.oclc.org/dsdl/schematron';
+
+function fakeFile(path: string, content: string): FileTreeNode {
+  const name = path.split('/').pop()!;
+  return {
+    name,
+    path,
+    type: 'file',
+    handle: { kind: 'file', name, getFile: async () => ({ text: async () => content }) } as unknown as FileSystemHandle,
+  };
+}
+
+const rules = (message: string) => `<schema xmlns="${SCH_NS}"><pattern>
+  <rule context="chapter"><assert test="@title">${message}</assert></rule>
+</pattern></schema>`;
+const declaring = (href: string) => `<?xml-model href="${href}" schematypens="${SCH_NS}"?>\n<book><chapter/></book>`;
+
+const workspace = vi.hoisted(() => ({ files: [] as FileTreeNode[] }));
+vi.mock('../src/store/useWorkspace', () => ({
+  useWorkspace: () => ({ findFileNode: (path: string) => workspace.files.find(f => f.path === path) ?? null }),
+}));
+
+afterEach(() => {
+  cleanup();
+  workspace.files = [];
+});
+
+describe('findDocumentSchematronPath', () => {
+  it('resolves the href against the document path', () => {
+    expect(findDocumentSchematronPath(declaring('../rules/house.sch'), 'texts/a.xml')).toBe('rules/house.sch');
+  });
+
+  it('ignores remote rulesets, RELAX NG declarations and paths above the root', () => {
+    expect(findDocumentSchematronPath(declaring('https://example.org/house.sch'), 'a.xml')).toBeNull();
+    expect(findDocumentSchematronPath('<?xml-model href="tei.rng" schematypens="http://relaxng.org/ns/structure/1.0"?><r/>', 'a.xml')).toBeNull();
+    expect(findDocumentSchematronPath(declaring('../house.sch'), 'a.xml')).toBeNull();
+  });
+
+  it('returns null for an unusable ruleset', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseDocumentSchematron('<grammar/>', 'schema/tei.rng')).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('batch validation', () => {
+  it("uses each file's declared ruleset and the app-level one otherwise", async () => {
+    const tree = [
+      fakeFile('rules/house.sch', rules('house rule')),
+      fakeFile('declares.xml', declaring('rules/house.sch')),
+      fakeFile('missing.xml', declaring('rules/gone.sch')),
+      fakeFile('plain.xml', '<book><chapter/></book>'),
+    ];
+    const app = parseSchematron(rules('app rule'), 'app');
+
+    const results = await runBatchValidation(tree, async () => null, app);
+
+    // The ruleset itself is not validated as a document.
+    expect(results.map(r => r.path)).toEqual(['declares.xml', 'missing.xml', 'plain.xml']);
+    const messages = results.map(r => r.errors.filter(e => e.message.startsWith('[Schematron]')).map(e => e.message));
+    expect(messages).toEqual([
+      ['[Schematron] house rule'],
+      ['[Schematron] app rule'],
+      ['[Schematron] app rule'],
+    ]);
+  });
+});
+
+describe('useActiveSchematron', () => {
+  function setup() {
+    return renderHook(
+      () => ({ editor: useEditor(), schema: useSchema(), ruleset: useActiveSchematron() }),
+      {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <SchemaProvider>
+            <EditorProvider>{children}</EditorProvider>
+          </SchemaProvider>
+        ),
+      },
+    );
+  }
+
+  it('loads the declared ruleset for workspace documents and falls back elsewhere', async () => {
+    workspace.files = [fakeFile('rules/house.sch', rules('house rule'))];
+    const { result } = setup();
+    act(() => {
+      result.current.schema.loadSchematron(rules('app rule'), 'app');
+    });
+
+    act(() => result.current.editor.openFileAsTab(declaring('rules/house.sch'), 'a.xml', null, 'a.xml'));
+    await waitFor(() => expect(result.current.ruleset?.name).toBe('house'));
+    const aId = result.current.editor.multiTabState.activeDocumentId!;
+
+    // Same declaration, but not a workspace file: nothing to resolve against.
+    act(() => result.current.editor.openFileAsTab(declaring('rules/house.sch'), 'b.xml', null, null));
+    expect(result.current.ruleset?.name).toBe('app');
+
+    act(() => result.current.editor.setActiveTab(aId));
+    expect(result.current.ruleset?.name).toBe('house');
+
+    // Saving the ruleset re-parses it for the documents using it.
+    act(() => result.current.schema.refreshDocumentSchematron('rules/house.sch', rules('updated')));
+    expect(result.current.ruleset?.patterns[0].rules[0].tests[0].message).toBe('updated');
+  });
+});
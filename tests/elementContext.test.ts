@@ -0,0 +1,188 @@
+/**
+ * Element context service: the syntax-tree path must give the same answers
+ * as the tokenizer-based code it replaced. Every fixture here is lifted from
+ * the completion, breadcrumb, tag-sync and paragraph-indent tests and run
+ * twice — once on a state with lang-xml (tree) and once without (fallback)
+ * — and compared with the pre-existing text scans.
+ */
+import { describe, it, expect } from 'vitest';
+import { EditorState, Text } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { xml } from '@codemirror/lang-xml';
+import { ensureSyntaxTree } from '@codemirror/language';
+import type { CompletionContext } from '@codemirror/autocomplete';
+import { elementContextFromTree, getElementContext } from '../src/components/Editor/elementContext';
+import { getElementPathAtOffset, pathFromElementContext } from '../src/components/Editor/breadcrumbPath';
+import { findMatchingTag, findMatchingTagInState, findTagAtPosition } from '../src/components/Editor/tagSync';
+import { openParagraphTagsAt, updateTagStack } from '../src/components/Editor/paragraphIndent';
+import { createSchemaCompletionSource } from '../src/components/Editor/completionSource';
+import type { ElementSpec, SchemaInfo } from '../src/types/schema';
+
+/** A state with lang-xml, parsed to the end up front so the service's 50 ms
+ *  parse budget can't run out on a busy test machine. */
+const withTree = (doc: string) => {
+  const state = EditorState.create({ doc, extensions: [xml()] });
+  ensureSyntaxTree(state, doc.length, 5000);
+  return state;
+};
+const withoutTree = (doc: string) => EditorState.create({ doc });
+
+/** Documents with the cursor at the end, from tests/completionSource.test.ts. */
+const COMPLETION_FIXTURES = [
+  '<?xml version="1.0"?>\n<TEI>\n  <teiHeader>\n    <',
+  '<?xml version="1.0"?>\n<TEI>\n  <teiHeader>\n    <fileDesc></fileDesc>\n    <',
+  '<title ',
+  '<title level="m" ',
+  '<TEI>\n  <teiHeader>\n    </',
+  '<TEI>\n  <teiHeader>\n    <file',
+  '<',
+  '<unknownElement><',
+  '<TEI>\n  <teiHeader>\n    <fileDesc/>\n    <',
+  '',
+  'Some text without tag',
+  '<TEI><text><body><p><term>x</term></p><p><t',
+  `<TEI>\n  <teiHeader><fileDesc/></teiHeader>\n  <text>\n  <body>\n${
+    Array.from({ length: 60 }, (_, i) => `    <p>Paragraph ${i} — ${'lorem ipsum '.repeat(3)}</p>`).join('\n')
+  }\n  </body>\n  </text>\n  <t`,
+];
+
+/** From tests/breadcrumbPath.test.ts: [document, offset]. */
+const BREADCRUMB_FIXTURES: [string, number][] = [
+  ['<a><b><c>text', 13],
+  ['<a><b></b>', 10],
+  ['<a><b/>', 7],
+  ['<a><b><c></c></b></a>', '<a><b>'.length],
+  ['<a>\n  <b>\n    <c>', 17],
+];
+
+/** From tests/tagSync.test.ts: [document, a position inside the tag to match]. */
+const TAG_SYNC_FIXTURES: [string, number][] = [
+  ['<div>content</div>', 2],
+  ['<div>content</div>', 15],
+  ['<div id="outer"><div id="inner">text</div></div>', 17],
+  ['<div id="outer"><div id="inner">text</div></div>', 2],
+  ['<div id="outer"><div id="inner">text</div></div>', 39],
+  ['<br/>', 2],
+  ['<div>unclosed content', 2],
+  ['<div><br/><span/></div>', 2],
+  ['<div><span>text</span></div>', 2],
+  ['<tei:div>content</tei:div>', 5],
+];
+
+/** From tests/paragraphIndent.test.ts. */
+const PARAGRAPH_FIXTURES = [
+  ['<lg>', '  <l>a</l>', '  <l>b</l>', '</lg>'],
+  ['<quote>', '<p>', 'inner', '</p>', 'outer', '</quote>'],
+  ['<div>', '  <head>Title</head>', '</div>'],
+  ['<body>', '  <p/>', '  next', '</body>'],
+  ['<body>', '<p>a</p><lg>', '  line', '</lg>', '</body>'],
+];
+
+describe('getElementContext', () => {
+  it.each(COMPLETION_FIXTURES)('agrees with the tokenizer fallback: %#', (doc) => {
+    const fromTree = elementContextFromTree(withTree(doc), doc.length);
+    expect(fromTree).not.toBeNull();
+    expect(fromTree).toEqual(getElementContext(withoutTree(doc), doc.length));
+  });
+
+  it('reports ancestors, earlier siblings and the tag being typed', () => {
+    const doc = '<TEI><teiHeader><fileDesc/><encodingDesc></encodingDesc><profileDesc type="x" ';
+    expect(getElementContext(withTree(doc), doc.length)).toEqual({
+      ancestors: [{ name: 'TEI', from: 0 }, { name: 'teiHeader', from: 5 }],
+      siblings: ['fileDesc', 'encodingDesc'],
+      followingSiblings: [],
+      tag: { name: 'profileDesc', from: 56, attributes: ['type'] },
+    });
+  });
+
+  it.each([
+    ['<h>\n <|\n <e/><p>x</p></h><after/>', ['e', 'p']],
+    ['<h><f>|</f><e/></h>', []],
+    ['<h><f/>|<!-- c --><e><g/></e>\n</h>', ['e']],
+    ['|<h/>', []],
+  ])('lists the siblings after the cursor: %j', (marked, expected) => {
+    const pos = marked.indexOf('|');
+    const doc = marked.replace('|', '');
+    expect(getElementContext(withTree(doc), pos).followingSiblings).toEqual(expected);
+    expect(getElementContext(withoutTree(doc), pos).followingSiblings).toEqual(expected);
+  });
+
+  it('sees attributes after the cursor only through the tree', () => {
+    const doc = '<title  level="m">';
+    expect(getElementContext(withTree(doc), 7).tag?.attributes).toEqual(['level']);
+    expect(getElementContext(withoutTree(doc), 7).tag?.attributes).toEqual([]);
+  });
+});
+
+describe('breadcrumb parity', () => {
+  it.each(BREADCRUMB_FIXTURES)('%j at %i', (doc, offset) => {
+    const state = withTree(doc);
+    const context = elementContextFromTree(state, offset)!;
+    expect(pathFromElementContext(state.doc, context)).toEqual(getElementPathAtOffset(doc, offset));
+  });
+});
+
+describe('tag sync parity', () => {
+  it.each(TAG_SYNC_FIXTURES)('%j at %i', (doc, pos) => {
+    const tag = findTagAtPosition(Text.of([doc]), pos)!;
+    const expected = findMatchingTag(Text.of([doc]), tag);
+    expect(findMatchingTagInState(withTree(doc), tag)).toEqual(expected);
+    expect(findMatchingTagInState(withoutTree(doc), tag)).toEqual(expected);
+  });
+});
+
+describe('paragraph indent parity', () => {
+  it.each(PARAGRAPH_FIXTURES)('%j', (...lines) => {
+    const doc = lines.join('\n');
+    const view = new EditorView({ state: withTree(doc) });
+    const plain = new EditorView({ state: withoutTree(doc) });
+    const stack: string[] = [];
+    for (let i = 1; i <= view.state.doc.lines; i++) {
+      const from = view.state.doc.line(i).from;
+      expect(openParagraphTagsAt(view, from)).toEqual(stack);
+      expect(openParagraphTagsAt(plain, from)).toEqual(stack);
+      updateTagStack(lines[i - 1], stack);
+    }
+    view.destroy();
+    plain.destroy();
+  });
+});
+
+describe('completion with a syntax tree', () => {
+  const spec = (name: string, children: string[] = []): ElementSpec =>
+    ({ name, documentation: name, children, attributes: [] });
+  const elements = [
+    spec('TEI', ['teiHeader', 'text']),
+    spec('teiHeader', ['fileDesc', 'encodingDesc', 'profileDesc', 'revisionDesc']),
+    spec('fileDesc', ['titleStmt']),
+    spec('encodingDesc'), spec('profileDesc'), spec('revisionDesc'), spec('titleStmt'),
+    spec('text', ['body']), spec('body', ['p', 'table', 'trailer']), spec('p', ['term']),
+    spec('term'), spec('table'), spec('trailer'),
+    { ...spec('title'), attributes: [{ name: 'level', required: false }, { name: 'type', required: false }] },
+  ];
+  const schema: SchemaInfo = {
+    id: 'test', name: 'Test', elements, elementMap: new Map(elements.map((e) => [e.name, e])), hasSalveGrammar: false,
+  };
+  const source = createSchemaCompletionSource(schema);
+
+  const complete = (state: EditorState) => {
+    const doc = state.doc.toString();
+    const result = source({
+      state,
+      pos: doc.length,
+      explicit: true,
+      tokenBefore: () => null,
+      matchBefore: (regex: RegExp) => {
+        const match = doc.match(regex);
+        return match ? { from: doc.length - match[0].length, to: doc.length, text: match[0] } : null;
+      },
+      aborted: false,
+      addEventListener: () => {},
+    } as unknown as CompletionContext);
+    return result && { from: result.from, labels: result.options.map((o) => o.label) };
+  };
+
+  it.each(COMPLETION_FIXTURES)('offers the same completions: %#', (doc) => {
+    expect(complete(withTree(doc))).toEqual(complete(withoutTree(doc)));
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Insert Element: the skeleton of required attributes and content built
+ * from a schema's ContentModel, inserted as a snippet, and the picker that
+ * lists what the schema allows at the cursor.
+ */
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { render, cleanup, fireEvent, screen } from '@testing-library/react';
+import { EditorState, EditorSelection } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { xml } from '@codemirror/lang-xml';
+import { nextSnippetField } from '@codemirror/autocomplete';
+import { SchemaEngine } from '../src/schema/SchemaEngine';
+import { buildElementSkeleton, insertableElementsAt, insertElementSkeleton } from '../src/components/Editor/elementSkeleton';
+import { InsertElementMenu } from '../src/components/Editor/InsertElementMenu';
+import type { SchemaInfo } from '../src/types/schema';
+
+const RNG = `<?xml version="1.0"?>
+<grammar xmlns="http://relaxng.org/ns/structure/1.0">
+  <start><ref name="body"/></start>
+  <define name="body">
+    <element name="body"><oneOrMore><choice><ref name="p"/><ref name="msDesc"/><ref name="graphic"/></choice></oneOrMore></element>
+  </define>
+  <define name="p">
+    <element name="p"><zeroOrMore><choice><text/><ref name="choice"/><ref name="app"/></choice></zeroOrMore></element>
+  </define>
+  <define name="choicePart"><choice><ref name="sic"/><ref name="corr"/></choice></define>
+  <define name="choice">
+    <element name="choice"><ref name="choicePart"/><oneOrMore><ref name="choicePart"/></oneOrMore></element>
+  </define>
+  <define name="sic"><element name="sic"><text/></element></define>
+  <define name="corr"><element name="corr"><text/></element></define>
+  <define name="app">
+    <element name="app">
+      <optional><ref name="lem"/></optional>
+      <oneOrMore><ref name="rdg"/></oneOrMore>
+    </element>
+  </define>
+  <define name="lem"><element name="lem"><text/></element></define>
+  <define name="rdg"><element name="rdg"><attribute name="wit"/><text/></element></define>
+  <define name="msDesc">
+    <element name="msDesc">
+      <ref name="msIdentifier"/>
+      <choice><oneOrMore><ref name="p"/></oneOrMore><ref name="msContents"/></choice>
+    </element>
+  </define>
+  <define name="msIdentifier">
+    <element name="msIdentifier"><ref name="repository"/><ref name="idno"/></element>
+  </define>
+  <define name="repository"><element name="repository"><text/></element></define>
+  <define name="idno"><element name="idno"><text/></element></define>
+  <define name="msContents"><element name="msContents"><text/></element></define>
+  <define name="graphic"><element name="graphic"><attribute name="url"/><empty/></element></define>
+</grammar>`;
+
+let schema: SchemaInfo;
+beforeAll(async () => {
+  schema = await new SchemaEngine().loadCustomRng(RNG, 'skeleton');
+});
+
+let view: EditorView | null = null;
+afterEach(() => {
+  cleanup();
+  view?.destroy();
+  view = null;
+});
+
+describe('buildElementSkeleton', () => {
+  it('fills a required choice twice with different alternatives', () => {
+    expect(buildElementSkeleton(schema, 'choice')).toBe('<choice><sic>${1}</sic><corr>${2}</corr></choice>');
+  });
+
+  it('adds required attributes and skips optional children', () => {
+    expect(buildElementSkeleton(schema, 'app', true)).toBe('<app>\n\t<rdg wit="${1}">${2}</rdg>\n</app>');
+    expect(buildElementSkeleton(schema, 'graphic')).toBe('<graphic url="${1}"/>');
+  });
+
+  it('scaffolds nested required content in block form', () => {
+    expect(buildElementSkeleton(schema, 'msDesc', true)).toBe([
+      '<msDesc>',
+      '\t<msIdentifier>',
+      '\t\t<repository>${1}</repository>',
+      '\t\t<idno>${2}</idno>',
+      '\t</msIdentifier>',
+      '\t<p>${3}</p>',
+      '</msDesc>',
+    ].join('\n'));
+    expect(buildElementSkeleton(schema, 'msDesc')).toBe(
+      '<msDesc><msIdentifier><repository>${1}</repository><idno>${2}</idno></msIdentifier><p>${3}</p></msDesc>',
+    );
+  });
+
+  it('stops at an element that requires itself', () => {
+    const loop: SchemaInfo = {
+      id: 'loop', name: 'Loop', hasSalveGrammar: false, elements: [], elementMap: new Map([[
+        'a', {
+          name: 'a', children: ['a'], attributes: [],
+          contentModel: { type: 'sequence', items: [{ kind: 'element', name: 'a', minOccurs: 1, maxOccurs: 1 }], minOccurs: 1, maxOccurs: 1 },
+        },
+      ]]),
+    };
+    expect(buildElementSkeleton(loop, 'a')).toBe('<a><a>${1}</a></a>');
+  });
+});
+
+describe('buildElementSkeleton — bundled TEI All', () => {
+  let teiAll: SchemaInfo;
+  beforeAll(async () => {
+    teiAll = await new SchemaEngine().loadBuiltin('tei_all');
+  });
+
+  it('scaffolds compound elements from their P5 content models', () => {
+    expect(buildElementSkeleton(teiAll, 'choice')).toBe('<choice><abbr>${1}</abbr><expan>${2}</expan></choice>');
+    expect(buildElementSkeleton(teiAll, 'biblStruct', true)).toBe([
+      '<biblStruct>',
+      '\t<monogr>',
+      '\t\t<imprint>',
+      '\t\t\t<pubPlace>${1}</pubPlace>',
+      '\t\t</imprint>',
+      '\t</monogr>',
+      '</biblStruct>',
+    ].join('\n'));
+    // The alternative to paragraphs (msContents, physDesc, …) is all optional
+    expect(buildElementSkeleton(teiAll, 'msDesc')).toBe('<msDesc><msIdentifier>${1}</msIdentifier></msDesc>');
+  });
+
+  it('scaffolds the header in P5 order', () => {
+    expect(buildElementSkeleton(teiAll, 'fileDesc')).toBe(
+      '<fileDesc><titleStmt><title>${1}</title></titleStmt>'
+      + '<publicationStmt><authority>${2}</authority></publicationStmt>'
+      + '<sourceDesc><p>${3}</p></sourceDesc></fileDesc>',
+    );
+  });
+});
+
+describe('insertElementSkeleton', () => {
+  it('indents a block skeleton on a blank line and walks the fields with Tab', () => {
+    const doc = '<body>\n  \n</body>';
+    view = new EditorView({
+      state: EditorState.create({ doc, selection: EditorSelection.cursor(9), extensions: [xml()] }),
+      parent: document.body,
+    });
+    insertElementSkeleton(view, schema, 'app');
+    expect(view.state.doc.toString()).toBe('<body>\n  <app>\n    <rdg wit=""></rdg>\n  </app>\n</body>');
+    const wit = view.state.doc.toString().indexOf('wit=""') + 5;
+    expect(view.state.selection.main.head).toBe(wit);
+    nextSnippetField(view);
+    expect(view.state.selection.main.head).toBe(wit + 2);
+  });
+
+  it('replaces the selection and stays inline inside text', () => {
+    view = new EditorView({
+      state: EditorState.create({ doc: '<p>colour</p>', selection: EditorSelection.range(3, 9) }),
+      parent: document.body,
+    });
+    insertElementSkeleton(view, schema, 'choice');
+    expect(view.state.doc.toString()).toBe('<p><choice><sic></sic><corr></corr></choice></p>');
+  });
+});
+
+describe('insertableElementsAt', () => {
+  it("lists the parent's allowed children, required first", () => {
+    const doc = '<body><p><app><lem>a</lem></app></p></body>';
+    const inApp = insertableElementsAt(schema, EditorState.create({ doc }), doc.indexOf('</app>'));
+    expect(inApp.map(el => [el.name, el.required])).toEqual([['rdg', true]]);
+
+    const top = insertableElementsAt(schema, EditorState.create({ doc: '' }), 0);
+    expect(top.map(el => el.name)).toEqual(schema.elements.map(el => el.name).sort((a, b) => a.localeCompare(b)));
+  });
+});
+
+describe('InsertElementMenu', () => {
+  Element.prototype.scrollIntoView = vi.fn();
+
+  it('filters the list and inserts the selected element on Enter', () => {
+    const onSelect = vi.fn();
+    render(
+      <InsertElementMenu
+        position={{ x: 10, y: 10 }}
+        parentElement="app"
+        elements={[
+          { name: 'rdg', required: true, documentation: 'reading' },
+          { name: 'lem', required: false, documentation: 'lemma' },
+        ]}
+        onSelect={onSelect}
+        onClose={() => {}}
+      />,
+    );
+    expect(screen.getByText('in <app>')).toBeTruthy();
+    expect(screen.getByText('<rdg> ★')).toBeTruthy();
+
+    const input = screen.getByLabelText('Filter elements');
+    expect(document.activeElement).toBe(input);
+    fireEvent.change(input, { target: { value: 'le' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSelect).toHaveBeenCalledWith('lem');
+  });
+
+  it('takes a typed name only when custom names are allowed', () => {
+    const onSelect = vi.fn();
+    const menu = (allowCustomName: boolean) => (
+      <InsertElementMenu position={{ x: 0, y: 0 }} parentElement={null} elements={[]} onSelect={onSelect} onClose={() => {}} allowCustomName={allowCustomName} />
+    );
+    const { rerender } = render(menu(false));
+    const input = screen.getByLabelText('Filter elements');
+    fireEvent.change(input, { target: { value: 'persName' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSelect).not.toHaveBeenCalled();
+
+    rerender(menu(true));
+    expect(screen.getByText('Press Enter to use <persName>')).toBeTruthy();
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSelect).toHaveBeenCalledWith('persName');
+    fireEvent.change(input, { target: { value: '1x' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSelect).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes on Escape', () => {
+    const onClose = vi.fn();
+    render(<InsertElementMenu position={{ x: 0, y: 0 }} parentElement={null} elements={[]} onSelect={() => {}} onClose={onClose} />);
+    fireEvent.keyDown(screen.getByLabelText('Filter elements'), { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -105,7 +105,8 @@ describe('completionSource — against real TEI Lite', () => {
     const result = completer(mockContext(doc));
     expect(result).not.toBeNull();
     const labels = result!.options.map((o) => o.label);
-    expect(labels).toContain('teiHeader');
+    // Marked ★ as the next expected child by TEI's content model
+    expect(labels).toContain('teiHeader ★');
   });
 
   it('suggests element-name attributes when typing inside a known tag', () => {
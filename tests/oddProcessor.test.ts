@@ -0,0 +1,204 @@
+/**
+ * ODD customization tests — element selection, elementSpec / classSpec /
+ * attDef / valList changes against the bundled P5 data, and registration
+ * through SchemaEngine + validateXml.
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parseOdd, isOdd } from '../src/schema/oddProcessor';
+import { SchemaEngine } from '../src/schema/SchemaEngine';
+import { validateXml } from '../src/schema/xmlValidator';
+import { TEI_ELEMENT_MODULES, TEI_P5_ELEMENTS } from '../src/schema/teiP5Generated';
+import type { ElementSpec } from '../src/types/schema';
+
+const odd = (specs: string) => `<?xml version="1.0"?>
+<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body>
+  <schemaSpec ident="myProject" start="TEI">${specs}</schemaSpec>
+</body></text></TEI>`;
+
+const CORE = `
+  <moduleRef key="tei"/>
+  <moduleRef key="header"/>
+  <moduleRef key="textstructure"/>
+  <moduleRef key="core"/>`;
+
+const byName = (elements: ElementSpec[], name: string) => elements.find((e) => e.name === name);
+const attr = (el: ElementSpec | undefined, name: string) => el?.attributes?.find((a) => a.name === name);
+
+describe('TEI_ELEMENT_MODULES', () => {
+  it('places every P5 element in a module', () => {
+    for (const el of TEI_P5_ELEMENTS) {
+      expect(TEI_ELEMENT_MODULES[el.name], el.name).toBeTruthy();
+    }
+  });
+});
+
+describe('element selection', () => {
+  it('includes whole modules and nothing else', async () => {
+    const elements = await parseOdd(odd(CORE));
+    expect(byName(elements, 'p')).toBeDefined();
+    expect(byName(elements, 'teiHeader')).toBeDefined();
+    expect(byName(elements, 'persName')).toBeUndefined(); // namesdates
+    expect(byName(elements, 'div')?.children).not.toContain('listPerson');
+  });
+
+  it('honours include and except', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <moduleRef key="namesdates" include="persName placeName"/>
+      <moduleRef key="transcr" except="facsimile surface zone"/>`));
+    expect(byName(elements, 'persName')).toBeDefined();
+    expect(byName(elements, 'orgName')).toBeUndefined();
+    expect(byName(elements, 'supplied')).toBeDefined();
+    expect(byName(elements, 'facsimile')).toBeUndefined();
+  });
+
+  it('adds single elements with elementRef and removes them with elementSpec mode="delete"', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <elementRef key="persName"/>
+      <elementSpec ident="said" mode="delete"/>`));
+    expect(byName(elements, 'persName')).toBeDefined();
+    expect(byName(elements, 'said')).toBeUndefined();
+    expect(byName(elements, 'p')?.children).not.toContain('said');
+  });
+});
+
+describe('elementSpec', () => {
+  it('adds a new element with documentation, attributes and a content model', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <elementSpec ident="shelfmark" mode="add">
+        <gloss>shelf mark</gloss>
+        <desc>the library shelf mark of the source.</desc>
+        <classes><memberOf key="att.global"/><memberOf key="model.phrase"/></classes>
+        <content><sequence><elementRef key="idno"/><elementRef key="note" minOccurs="0" maxOccurs="unbounded"/></sequence></content>
+        <attList><attDef ident="library" usage="req"><datatype><dataRef key="teidata.pointer"/></datatype></attDef></attList>
+      </elementSpec>`));
+    const el = byName(elements, 'shelfmark')!;
+    expect(el.documentation).toBe('(shelf mark) the library shelf mark of the source.');
+    expect(el.children).toEqual(['idno', 'note']);
+    expect(attr(el, 'library')).toMatchObject({ required: true, datatype: 'teidata.pointer' });
+    expect(attr(el, 'xml:id')).toBeDefined(); // from att.global
+    expect(el.contentModel?.items?.[0].content?.items?.[1]).toMatchObject({ name: 'note', minOccurs: 0, maxOccurs: Infinity });
+  });
+
+  it('changes documentation and attributes while keeping the rest of the P5 spec', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <elementSpec ident="div" mode="change">
+        <desc>a chapter of the edition.</desc>
+        <classes mode="change"><memberOf key="att.typed" mode="delete"/></classes>
+        <attList><attDef ident="rend" mode="delete"/></attList>
+      </elementSpec>`));
+    const div = byName(elements, 'div')!;
+    expect(div.documentation).toBe('a chapter of the edition.');
+    expect(attr(div, 'type')).toBeUndefined();
+    expect(attr(div, 'rend')).toBeUndefined();
+    expect(attr(div, 'xml:id')).toBeDefined();
+    expect(div.children).toContain('p');
+    expect(div.contentModel).toBeDefined();
+  });
+});
+
+describe('attDef and valList', () => {
+  it('closes a value list and makes the attribute required', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <elementSpec ident="div" mode="change"><attList>
+        <attDef ident="type" mode="change" usage="req">
+          <valList type="closed" mode="replace">
+            <valItem ident="chapter"><desc>a chapter</desc></valItem>
+            <valItem ident="letter"/>
+          </valList>
+        </attDef>
+      </attList></elementSpec>`));
+    expect(attr(byName(elements, 'div'), 'type')).toMatchObject({ required: true, values: ['chapter', 'letter'] });
+  });
+
+  it('edits an existing closed list item by item', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <elementSpec ident="abbr" mode="change"><attList>
+        <attDef ident="type" mode="change">
+          <valList mode="change">
+            <valItem ident="title" mode="delete"/>
+            <valItem ident="honorific"/>
+          </valList>
+        </attDef>
+      </attList></elementSpec>`));
+    const values = attr(byName(elements, 'abbr'), 'type')?.values;
+    expect(values).toContain('suspension');
+    expect(values).toContain('honorific');
+    expect(values).not.toContain('title');
+  });
+
+  it('leaves open lists unenforced', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <elementSpec ident="div" mode="change"><attList>
+        <attDef ident="type" mode="change"><valList type="open"><valItem ident="chapter"/></valList></attDef>
+      </attList></elementSpec>`));
+    expect(attr(byName(elements, 'div'), 'type')?.values).toBeUndefined();
+  });
+});
+
+describe('classSpec', () => {
+  it('removes an attribute from every member of the class', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <classSpec ident="att.global.rendition" type="atts" mode="change">
+        <attList><attDef ident="rendition" mode="delete"/></attList>
+      </classSpec>`));
+    expect(attr(byName(elements, 'p'), 'rendition')).toBeUndefined();
+    expect(attr(byName(elements, 'p'), 'rend')).toBeDefined();
+  });
+
+  it('adds an attribute to a class', async () => {
+    const elements = await parseOdd(odd(`${CORE}
+      <classSpec ident="att.typed" type="atts" mode="change">
+        <attList><attDef ident="status" mode="add"><desc>editorial status</desc></attDef></attList>
+      </classSpec>`));
+    expect(attr(byName(elements, 'div'), 'status')?.documentation).toBe('editorial status');
+  });
+});
+
+describe('input handling', () => {
+  it('recognises ODDs and rejects documents without a schemaSpec', async () => {
+    expect(isOdd(odd(CORE))).toBe(true);
+    expect(isOdd('<grammar xmlns="http://relaxng.org/ns/structure/1.0"/>')).toBe(false);
+    await expect(parseOdd('<TEI xmlns="http://www.tei-c.org/ns/1.0"/>')).rejects.toThrow(/schemaSpec/);
+  });
+
+  it('expands specGrpRef', async () => {
+    const elements = await parseOdd(`<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body>
+      <specGrp xml:id="names"><moduleRef key="namesdates" include="persName"/></specGrp>
+      <schemaSpec ident="x">${CORE}<specGrpRef target="#names"/></schemaSpec>
+    </body></text></TEI>`);
+    expect(byName(elements, 'persName')).toBeDefined();
+  });
+});
+
+describe('SchemaEngine.loadCustomOdd', () => {
+  const xml = (body: string) =>
+    `<TEI xmlns="http://www.tei-c.org/ns/1.0"><teiHeader><fileDesc><titleStmt><title>t</title></titleStmt>` +
+    `<publicationStmt><p>p</p></publicationStmt><sourceDesc><p>s</p></sourceDesc></fileDesc></teiHeader>` +
+    `<text><body>${body}</body></text></TEI>`;
+  let engine: SchemaEngine;
+
+  beforeAll(() => {
+    engine = new SchemaEngine();
+  });
+
+  it('registers the customization and validates against it', async () => {
+    const info = await engine.loadCustomOdd(odd(`${CORE}
+      <elementSpec ident="div" mode="change"><attList>
+        <attDef ident="type" mode="change" usage="req"><valList type="closed" mode="replace"><valItem ident="chapter"/></valList></attDef>
+      </attList></elementSpec>`), 'project');
+    expect(info.id).toBe('custom_project');
+    expect(info.hasSalveGrammar).toBe(true);
+
+    expect(validateXml(xml('<div type="chapter"><p>x</p></div>'), info)).toEqual([]);
+    const messages = validateXml(xml('<div><p>x <persName>y</persName></p></div><div type="poem"><p/></div>'), info)
+      .map((e) => e.message);
+    expect(messages.some((m) => m.includes('Missing required attribute "type"'))).toBe(true);
+    expect(messages.some((m) => m.includes('"poem"'))).toBe(true);
+    expect(messages.some((m) => m.includes('persName'))).toBe(true);
+  });
+
+  it('caches by content', async () => {
+    const a = await engine.loadCustomOdd(odd(CORE), 'cached');
+    expect(await engine.loadCustomOdd(odd(CORE), 'cached')).toBe(a);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Pointer attribute value completion: `@ref="#` and friends offer the
+ * document's xml:ids with a preview of each target, then the ids of the
+ * workspace's authority files as relative `file.xml#id` pointers.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { EditorState } from '@codemirror/state';
+import type { CompletionContext } from '@codemirror/autocomplete';
+import { createSchemaCompletionSource, type PointerSources } from '../src/components/Editor/completionSource';
+import { collectIdTargets } from '../src/schema/referenceIntegrity';
+import { WorkspaceProvider } from '../src/store/WorkspaceContext';
+import { useWorkspace } from '../src/store/useWorkspace';
+import type { ElementSpec, SchemaInfo } from '../src/types/schema';
+import type { FileTreeNode } from '../src/types/workspace';
+
+const fsa = vi.hoisted(() => ({
+  openDirectory: vi.fn(),
+  buildFileTree: vi.fn(),
+  supportsDirectoryPicker: vi.fn(() => true),
+  readFileContent: vi.fn(),
+}));
+vi.mock('../src/file/fileSystemAccess', () => fsa);
+
+const PERSONS = `<TEI><standOff><listPerson>
+  <person xml:id="shakespeare"><persName>William Shakespeare</persName><birth when="1564"/></person>
+  <person xml:id="marlowe"><persName>Christopher Marlowe</persName></person>
+</listPerson></standOff></TEI>`;
+
+const elements: ElementSpec[] = [
+  { name: 'persName', attributes: [{ name: 'ref', datatype: 'teidata.pointer' }, { name: 'type' }] },
+  { name: 'rs', attributes: [{ name: 'type', values: ['person', 'place'] }] },
+];
+const schema: SchemaInfo = {
+  id: 'test', name: 'Test', elements, elementMap: new Map(elements.map(e => [e.name, e])), hasSalveGrammar: false,
+};
+
+function complete(doc: string, sources: PointerSources | null = null) {
+  const source = createSchemaCompletionSource(schema, () => sources);
+  const result = source({
+    state: EditorState.create({ doc }),
+    pos: doc.length,
+    explicit: true,
+    matchBefore: () => null,
+    aborted: false,
+    addEventListener: () => {},
+  } as unknown as CompletionContext);
+  return result && { from: result.from, options: result.options.map(o => ({ label: o.label, detail: o.detail })) };
+}
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  fsa.openDirectory.mockReset();
+  fsa.buildFileTree.mockReset();
+  fsa.readFileContent.mockReset();
+});
+
+describe('collectIdTargets', () => {
+  it('records the element and the start of its text', () => {
+    expect(collectIdTargets(PERSONS)).toEqual([
+      { id: 'shakespeare', element: 'person', preview: 'William Shakespeare' },
+      { id: 'marlowe', element: 'person', preview: 'Christopher Marlowe' },
+    ]);
+  });
+
+  it('truncates long text and handles empty and unclosed elements', () => {
+    const long = 'word '.repeat(30);
+    const [div, p, pb] = collectIdTargets(`<div xml:id="d"><p xml:id='p'>${long}</p><pb xml:id="pb1"/>`);
+    expect(p.preview).toHaveLength(60);
+    expect(p.preview.endsWith('…')).toBe(true);
+    expect(pb).toEqual({ id: 'pb1', element: 'pb', preview: '' });
+    expect(div).toEqual({ id: 'd', element: 'div', preview: p.preview });
+  });
+});
+
+describe('pointer value completion', () => {
+  const doc = `${PERSONS.replace('</TEI>', '')}<text><p><persName ref="`;
+
+  it("offers the document's ids with a preview", () => {
+    expect(complete(`${doc}#`)).toEqual({
+      from: doc.length,
+      options: [
+        { label: '#shakespeare', detail: '<person> William Shakespeare' },
+        { label: '#marlowe', detail: '<person> Christopher Marlowe' },
+      ],
+    });
+  });
+
+  it('completes the last pointer of a list, for untyped pointer attributes too', () => {
+    const result = complete('<x xml:id="a"/><y xml:id="b"/><sp who="#a #');
+    expect(result?.options.map(o => o.label)).toEqual(['#a', '#b']);
+    expect(result?.from).toBe('<x xml:id="a"/><y xml:id="b"/><sp who="#a '.length);
+  });
+
+  it('adds authority file ids relative to the document', () => {
+    const sources: PointerSources = {
+      filePath: 'texts/play.xml',
+      authorities: new Map([['authority/persons.xml', collectIdTargets(PERSONS)]]),
+    };
+    const labels = complete('<text><persName ref="mar', sources)?.options.map(o => o.label);
+    expect(labels).toEqual(['../authority/persons.xml#marlowe']);
+  });
+
+  it('keeps enumerated values for other attributes', () => {
+    expect(complete('<rs type="pe')?.options.map(o => o.label)).toEqual(['person']);
+    expect(complete('<persName type="')).toBeNull();
+  });
+});
+
+describe('authority files in the workspace', () => {
+  const persons: FileTreeNode = { name: 'persons.xml', path: 'persons.xml', type: 'file', handle: {} as FileSystemHandle };
+
+  async function openWorkspace() {
+    fsa.openDirectory.mockResolvedValue({ handle: {}, name: 'edition' });
+    fsa.buildFileTree.mockResolvedValue([persons]);
+    fsa.readFileContent.mockResolvedValue(PERSONS);
+    const hook = renderHook(() => useWorkspace(), {
+      wrapper: ({ children }: { children: ReactNode }) => <WorkspaceProvider>{children}</WorkspaceProvider>,
+    });
+    await act(async () => {
+      await hook.result.current.openWorkspace();
+    });
+    return hook;
+  }
+
+  it('indexes the chosen files and remembers the choice per folder', async () => {
+    const first = await openWorkspace();
+    expect(first.result.current.authorityIndex).toBeNull();
+
+    act(() => first.result.current.toggleAuthorityFile('persons.xml'));
+    await waitFor(() =>
+      expect(first.result.current.authorityIndex?.get('persons.xml')?.map(t => t.id)).toEqual(['shakespeare', 'marlowe']));
+    first.unmount();
+
+    const second = await openWorkspace();
+    expect(second.result.current.authorityFiles).toEqual(['persons.xml']);
+    act(() => second.result.current.toggleAuthorityFile('persons.xml'));
+    expect(second.result.current.authorityIndex).toBeNull();
+  });
+});
@@ -3,8 +3,8 @@
  *
  * Corpus-validation panel: renders the empty/running/summary states and, on a
  * diagnostic click, opens the offending file (deduped) and navigates to the
- * line. The three data hooks + the file reader are mocked so the panel renders
- * without the Workspace/Editor providers.
+ * line once its editor view is ready. The data hooks, the toast and the file
+ * reader are mocked so the panel renders without the providers.
  */
 import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
 import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
@@ -20,7 +20,13 @@ const ws = vi.hoisted(() => ({
   },
   findFileNode: vi.fn(),
 }));
-const ed = vi.hoisted(() => ({ openFileAsTab: vi.fn(), goToLine: vi.fn() }));
+const ed = vi.hoisted(() => ({
+  openFileAsTab: vi.fn(),
+  runInFileEditor: vi.fn(),
+}));
+const applyQuickFix = vi.hoisted(() => vi.fn());
+const goToLineInView = vi.hoisted(() => vi.fn());
+const toast = vi.hoisted(() => ({ warning: vi.fn() }));
 const runBatch = vi.hoisted(() => vi.fn());
 const readFileContent = vi.hoisted(() => vi.fn());
 
@@ -28,13 +34,19 @@ vi.mock('../src/store/useWorkspace', () => ({ useWorkspace: () => ws }));
 vi.mock('../src/store/useEditor', () => ({ useEditor: () => ed }));
 vi.mock('../src/hooks/useBatchValidation', () => ({ useBatchValidation: () => runBatch }));
 vi.mock('../src/file/fileSystemAccess', () => ({ readFileContent }));
+vi.mock('../src/components/Editor/quickFix', () => ({ applyQuickFix }));
+vi.mock('../src/utils/goToLineInView', () => ({ goToLineInView }));
+vi.mock('../src/components/Toast/useToast', () => ({ useToast: () => toast }));
 
 function resetState() {
   ws.state = { rootHandle: null };
   ws.batch = { results: null, running: false, done: 0, total: 0 };
   ws.findFileNode.mockReset();
   ed.openFileAsTab.mockReset();
-  ed.goToLine.mockReset();
+  ed.runInFileEditor.mockReset();
+  applyQuickFix.mockReset();
+  goToLineInView.mockReset();
+  toast.warning.mockReset();
   runBatch.mockReset();
   readFileContent.mockReset();
 }
@@ -115,11 +127,14 @@ describe('ProblemsPanel render states (#U6)', () => {
 });
 
 describe('ProblemsPanel diagnostic navigation (#U6)', () => {
-  beforeEach(() => vi.useFakeTimers());
-  afterEach(() => {
-    vi.runOnlyPendingTimers();
-    vi.useRealTimers();
-  });
+  /** The view the file opens in, handed over once it exists. */
+  const view = { focus: vi.fn() };
+  const openView = () => {
+    const [path, run] = ed.runInFileEditor.mock.calls[0];
+    run(view);
+    return path;
+  };
+  beforeEach(() => view.focus.mockReset());
 
   it('opens the file (deduped) and navigates to the error line on click', async () => {
     ws.state = { rootHandle: {} };
@@ -143,8 +158,6 @@ describe('ProblemsPanel diagnostic navigation (#U6)', () => {
     };
     render(<ProblemsPanel />);
 
-    // Click the diagnostic; the async readFileContent → openFileAsTab chain
-    // must settle before the goToLine timers.
     await act(async () => {
       fireEvent.click(screen.getByText('Unknown element <foo>'));
     });
@@ -152,11 +165,77 @@ describe('ProblemsPanel diagnostic navigation (#U6)', () => {
     expect(ws.findFileNode).toHaveBeenCalledWith('nested/poem.xml');
     expect(ed.openFileAsTab).toHaveBeenCalledWith('<TEI/>', 'poem.xml', handle, 'nested/poem.xml');
 
-    // goToLine fires on 50ms + 400ms timers.
+    // Nothing moves until the file's view is there
+    expect(goToLineInView).not.toHaveBeenCalled();
+    expect(openView()).toBe('nested/poem.xml');
+    expect(goToLineInView.mock.calls).toEqual([[view, 12]]);
+  });
+
+  it('opens the file and applies a quick fix once to the live editor', async () => {
+    ws.state = { rootHandle: {} };
+    const handle = { kind: 'file' };
+    ws.findFileNode.mockReturnValue({ type: 'file', name: 'poem.xml', handle });
+    readFileContent.mockResolvedValue('<TEI/>');
+    const fix = { description: 'Add @n', edits: [], anchor: { from: 0, to: 6, text: '<TEI/>' } };
+    ws.batch = {
+      results: [
+        {
+          path: 'poem.xml',
+          fileName: 'poem.xml',
+          schemaId: 'tei_all',
+          errorCount: 1,
+          warningCount: 0,
+          errors: [{ line: 1, column: 1, message: '[Schematron] unnumbered', severity: 'error', fixes: [fix] }],
+        },
+      ],
+      running: false,
+      done: 1,
+      total: 1,
+    };
+    applyQuickFix.mockReturnValue(true);
+    render(<ProblemsPanel />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Add @n' }));
+    });
+    expect(ed.openFileAsTab).toHaveBeenCalledWith('<TEI/>', 'poem.xml', handle, 'poem.xml');
+    expect(applyQuickFix).not.toHaveBeenCalled();
+
+    expect(openView()).toBe('poem.xml');
+    expect(applyQuickFix.mock.calls).toEqual([[view, fix]]);
+    expect(view.focus).toHaveBeenCalled();
+    expect(toast.warning).not.toHaveBeenCalled();
+  });
+
+  it('warns with a toast when the file changed since it was validated', async () => {
+    ws.state = { rootHandle: {} };
+    ws.findFileNode.mockReturnValue({ type: 'file', name: 'poem.xml', handle: { kind: 'file' } });
+    readFileContent.mockResolvedValue('<TEI/>');
+    const fix = { description: 'Add @n', edits: [], anchor: { from: 0, to: 6, text: '<TEI/>' } };
+    ws.batch = {
+      results: [
+        {
+          path: 'poem.xml',
+          fileName: 'poem.xml',
+          schemaId: 'tei_all',
+          errorCount: 1,
+          warningCount: 0,
+          errors: [{ line: 1, column: 1, message: '[Schematron] unnumbered', severity: 'error', fixes: [fix] }],
+        },
+      ],
+      running: false,
+      done: 1,
+      total: 1,
+    };
+    applyQuickFix.mockReturnValue(false);
+    render(<ProblemsPanel />);
+
     await act(async () => {
-      vi.advanceTimersByTime(500);
+      fireEvent.click(screen.getByRole('button', { name: 'Add @n' }));
     });
-    expect(ed.goToLine).toHaveBeenCalledWith(12);
-    expect(ed.goToLine).toHaveBeenCalledTimes(2);
+    openView();
+    expect(view.focus).not.toHaveBeenCalled();
+    expect(toast.warning).toHaveBeenCalledTimes(1);
+    expect(toast.warning.mock.calls[0][0]).toMatch('"Add @n" no longer applies: poem.xml changed');
   });
 });
@@ -0,0 +1,71 @@
+/**
+ * Applying Schematron quick fixes to an editor: one undoable transaction,
+ * refused once the anchored node's text has changed, and offered as lint
+ * actions on the diagnostics.
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { history, undo } from '@codemirror/commands';
+import { forceLinting, diagnosticCount, forEachDiagnostic, type Diagnostic } from '@codemirror/lint';
+import { applyQuickFix } from '../src/components/Editor/quickFix';
+import { createValidationLinter } from '../src/components/Editor/validationLinter';
+import { parseSchematron } from '../src/schema/schematron';
+import type { QuickFix } from '../src/types/schema';
+
+Element.prototype.scrollIntoView = vi.fn();
+
+const XML = '<book><chapter/></book>';
+const FIX: QuickFix = {
+  description: 'Number it',
+  edits: [{ from: 14, to: 14, insert: ' n="1"' }],
+  anchor: { from: 6, to: 16, text: '<chapter/>' },
+};
+
+let view: EditorView | null = null;
+function mount(doc: string, extensions = [history()]): EditorView {
+  view = new EditorView({ state: EditorState.create({ doc, extensions }), parent: document.body });
+  return view;
+}
+
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+describe('applyQuickFix', () => {
+  it('applies the edits as one undoable change', () => {
+    const v = mount(XML);
+    expect(applyQuickFix(v, FIX)).toBe(true);
+    expect(v.state.doc.toString()).toBe('<book><chapter n="1"/></book>');
+    undo(v);
+    expect(v.state.doc.toString()).toBe(XML);
+  });
+
+  it('refuses a fix whose anchor text changed', () => {
+    const v = mount('<book><chapter rend="x"/></book>');
+    expect(applyQuickFix(v, FIX)).toBe(false);
+    expect(v.state.doc.toString()).toBe('<book><chapter rend="x"/></book>');
+  });
+});
+
+describe('lint actions', () => {
+  it('offers each fix on the Schematron diagnostic', async () => {
+    const sch = parseSchematron(`<schema xmlns="http://purl.oclc.org/dsdl/schematron"
+        xmlns:sqf="http://www.schematron-quickfix.com/validator/process"><pattern>
+      <rule context="chapter"><assert test="@n" sqf:fix="n">unnumbered</assert>
+        <sqf:fix id="n"><sqf:description><sqf:title>Number it</sqf:title></sqf:description>
+          <sqf:add node-type="attribute" target="n">1</sqf:add></sqf:fix></rule>
+    </pattern></schema>`, 's');
+    const v = mount(XML, [history(), createValidationLinter(null, undefined, sch)]);
+    forceLinting(v);
+    await vi.waitFor(() => expect(diagnosticCount(v.state)).toBeGreaterThan(0));
+
+    const diagnostics: Diagnostic[] = [];
+    forEachDiagnostic(v.state, (d) => diagnostics.push(d));
+    const action = diagnostics.find((d) => d.message.includes('unnumbered'))?.actions?.[0];
+    expect(action?.name).toBe('Number it');
+    action!.apply(v, 0, 0);
+    expect(v.state.doc.toString()).toBe('<book><chapter n="1"/></book>');
+  });
+});
@@ -23,7 +23,10 @@ vi.mock('../src/hooks/useActiveSchema', () => ({
       { name: 'name', documentation: 'Name', children: [], attributes: [] },
       { name: 'persName', documentation: 'Personal name', children: [], attributes: [] },
     ],
-    elementMap: new Map(),
+    // Only a parent spec: the allowed-children filter is looked up here.
+    elementMap: new Map([
+      ['title', { name: 'title', documentation: 'Title', children: ['hi', 'persName'], attributes: [] }],
+    ]),
     hasSalveGrammar: false,
   }),
 }));
@@ -145,3 +148,18 @@ describe('QuickTagMenu focus + keyboard model', () => {
     expect(onEscape).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('QuickTagMenu parent filtering', () => {
+  const listed = () =>
+    Array.from(document.querySelectorAll('.quick-tag-item .quick-tag-name')).map(e => e.textContent).sort();
+
+  it("offers only the parent's allowed children", () => {
+    renderMenu({ parentElement: 'title' });
+    expect(listed()).toEqual(['<hi>', '<persName>']);
+  });
+
+  it('offers every element when the parent is unknown', () => {
+    renderMenu({ parentElement: 'div' });
+    expect(listed()).toEqual(['<hi>', '<name>', '<persName>']);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * xml:id uniqueness + pointer integrity tests (same-document, cross-file,
+ * and through the validation service the linter uses).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  checkReferenceIntegrity,
+  collectXmlIds,
+  resolveWorkspacePath,
+  type WorkspaceIdIndex,
+} from '../src/schema/referenceIntegrity';
+import { ValidationService } from '../src/schema/validationService';
+
+const messages = (xml: string, ctx: Parameters<typeof checkReferenceIntegrity>[1] = null) =>
+  checkReferenceIntegrity(xml, ctx).map((e) => e.message);
+
+describe('collectXmlIds', () => {
+  it('collects ids from open and self-closing tags, ignoring comments', () => {
+    const xml = '<TEI><p xml:id="a">x</p><pb xml:id="b"/><!-- <p xml:id="c"/> --></TEI>';
+    expect([...collectXmlIds(xml)]).toEqual(['a', 'b']);
+  });
+});
+
+describe('duplicate xml:ids', () => {
+  it('flags every repeat as an error at the repeated value', () => {
+    const xml = '<TEI>\n<p xml:id="p1"/>\n<p xml:id="p2"/>\n<ab   xml:id="p1"/>\n</TEI>';
+    const errors = checkReferenceIntegrity(xml);
+    expect(errors).toEqual([
+      {
+        message: 'Duplicate xml:id "p1" (first declared on line 2)',
+        line: 4,
+        column: 15,
+        endLine: 4,
+        endColumn: 17,
+        severity: 'error',
+      },
+    ]);
+  });
+});
+
+describe('#fragment pointers', () => {
+  it('accepts pointers to ids declared anywhere in the document', () => {
+    const xml = `<TEI><sp who="#hamlet #horatio"><p>x</p></sp>
+      <listPerson><person xml:id="hamlet"/><person xml:id='horatio'/></listPerson></TEI>`;
+    expect(checkReferenceIntegrity(xml)).toEqual([]);
+  });
+
+  it('warns on each dangling token, positioned on the token', () => {
+    const xml = '<TEI><person xml:id="a"/>\n<sp who="#a #b"/></TEI>';
+    const errors = checkReferenceIntegrity(xml);
+    expect(errors.map((e) => e.message)).toEqual(['@who points to "#b", but no element has xml:id="b"']);
+    expect(errors[0]).toMatchObject({ line: 2, column: 13, severity: 'warning' });
+  });
+
+  it('ignores absolute URIs, prefixed pointers and attributes that are not pointers', () => {
+    const xml = '<TEI><ref target="https://example.org/#x"/><persName ref="viaf:123#x"/><seg n="#nope"/></TEI>';
+    expect(checkReferenceIntegrity(xml)).toEqual([]);
+  });
+
+  it('skips cross-file pointers when no workspace is open', () => {
+    expect(checkReferenceIntegrity('<TEI><persName ref="persons.xml#nobody"/></TEI>')).toEqual([]);
+  });
+});
+
+describe('cross-file pointers', () => {
+  const workspaceIds: WorkspaceIdIndex = new Map([
+    ['persons.xml', new Set(['shakespeare'])],
+    ['texts/hamlet.xml', new Set(['act1'])],
+  ]);
+  const ctx = { filePath: 'texts/hamlet.xml', workspaceIds };
+
+  it('resolves paths relative to the referring file', () => {
+    expect(messages('<TEI><persName ref="../persons.xml#shakespeare"/></TEI>', ctx)).toEqual([]);
+  });
+
+  it('warns when the file is missing or lacks the id', () => {
+    expect(messages('<TEI><persName ref="persons.xml#shakespeare"/><persName ref="../persons.xml#marlowe"/></TEI>', ctx)).toEqual([
+      '@ref points to "persons.xml#shakespeare", but persons.xml is not in the workspace',
+      '@ref points to "../persons.xml#marlowe", but persons.xml has no xml:id="marlowe"',
+    ]);
+  });
+
+  it('leaves pointers into files other than XML alone', () => {
+    expect(messages('<TEI><pb facs="../images/p1.jpg#xywh=0,0,10,10"/><ref target="notes.pdf#p3"/></TEI>', ctx)).toEqual([]);
+  });
+
+  it('checks pointers back into the same file against the live text', () => {
+    // The saved copy knows act1; the live text has renamed it to scene1.
+    expect(messages('<TEI><div xml:id="scene1"/><ptr target="hamlet.xml#act1"/></TEI>', ctx)).toEqual([
+      '@target points to "hamlet.xml#act1", but texts/hamlet.xml has no xml:id="act1"',
+    ]);
+  });
+});
+
+describe('resolveWorkspacePath', () => {
+  it('normalises ./, ../ and percent-escapes', () => {
+    expect(resolveWorkspacePath('a/b/c.xml', './d.xml')).toBe('a/b/d.xml');
+    expect(resolveWorkspacePath('a/b/c.xml', '../../e%20f.xml')).toBe('e f.xml');
+    expect(resolveWorkspacePath('c.xml', '../x.xml')).toBeNull();
+    expect(resolveWorkspacePath('a/c.xml', '/x.xml')).toBe('x.xml');
+  });
+});
+
+describe('validation service', () => {
+  it('appends integrity diagnostics to the schema pass, cross-file when given a context', async () => {
+    const service = new ValidationService(null);
+    const xml = '<TEI><p xml:id="a"/><p xml:id="a"/><ptr target="other.xml#x"/></TEI>';
+
+    const local = await service.validate('doc', xml, null);
+    expect(local?.map((e) => e.message)).toEqual(['Duplicate xml:id "a" (first declared on line 1)']);
+
+    const withWorkspace = await service.validate('doc', xml, null, null, {
+      filePath: 'main.xml',
+      workspaceIds: new Map([['other.xml', new Set<string>()]]),
+    });
+    expect(withWorkspace).toHaveLength(2);
+  });
+
+  it('skips the pass for malformed documents', async () => {
+    const errors = await new ValidationService(null).validate('doc', '<TEI><p xml:id="a"/><p xml:id="a"></TEI>', null);
+    expect(errors?.some((e) => e.message.startsWith('Duplicate'))).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Change log entries: revisionDesc created in its schema position when
+ * missing, the newest <change> first, indentation kept — and the entry
+ * added as one undo step.
+ */
+import { describe, it, expect } from 'vitest';
+import { EditorState } from '@codemirror/state';
+import { history, undo } from '@codemirror/commands';
+import {
+  addChangeEntry,
+  changeEntryChange,
+  initialsOf,
+  isoDate,
+  whoPointer,
+  type ChangeEntry,
+} from '../src/components/Editor/revisionDesc';
+import { checkReferenceIntegrity } from '../src/schema/referenceIntegrity';
+import { createTrackChangesExtension, getTracking, restoreTracking, trackAuthorEffect } from '../src/components/Editor/trackChanges';
+import { parseSidecar, serializeSidecar } from '../src/file/trackChangesSidecar';
+
+const ENTRY: ChangeEntry = { when: '2026-10-19', who: '#JD', text: 'Tagged names' };
+
+function apply(text: string, entry = ENTRY): string | null {
+  const change = changeEntryChange(text, entry);
+  return change && text.slice(0, change.from) + change.insert + text.slice(change.to);
+}
+
+const header = (inner: string) => `<TEI xmlns="http://www.tei-c.org/ns/1.0">
+  <teiHeader>
+    <fileDesc><titleStmt><title>T</title></titleStmt></fileDesc>${inner}
+  </teiHeader>
+  <text><body><p/></body></text>
+</TEI>`;
+
+describe('changeEntryChange', () => {
+  it('creates revisionDesc as the last child of teiHeader', () => {
+    const doc = header(`
+    <profileDesc/>`);
+    expect(apply(doc)).toBe(header(`
+    <profileDesc/>
+    <revisionDesc>
+      <change when="2026-10-19" who="#JD">Tagged names</change>
+    </revisionDesc>`));
+  });
+
+  it('puts the new entry before the newest one', () => {
+    const doc = header(`
+    <revisionDesc status="draft">
+      <change when="2026-01-02">Created</change>
+    </revisionDesc>`);
+    expect(apply(doc)).toBe(header(`
+    <revisionDesc status="draft">
+      <change when="2026-10-19" who="#JD">Tagged names</change>
+      <change when="2026-01-02">Created</change>
+    </revisionDesc>`));
+  });
+
+  it('adds to a listChange, and fills an empty or self-closing revisionDesc', () => {
+    expect(apply(header(`
+    <revisionDesc><listChange><change/></listChange></revisionDesc>`))).toContain(
+      '<listChange><change when="2026-10-19" who="#JD">Tagged names</change><change/></listChange>',
+    );
+    const filled = header(`
+    <revisionDesc>
+      <change when="2026-10-19" who="#JD">Tagged names</change>
+    </revisionDesc>`);
+    expect(apply(header(`
+    <revisionDesc/>`))).toBe(filled);
+    expect(apply(header(`
+    <revisionDesc>
+    </revisionDesc>`))).toBe(filled);
+  });
+
+  it('escapes the description and leaves out an empty @who or text', () => {
+    expect(apply(header(''), { when: '2026-10-19', who: '', text: 'A & <b>' })).toContain(
+      '<change when="2026-10-19">A &amp; &lt;b></change>',
+    );
+    expect(apply(header(''), { ...ENTRY, text: ' ' })).toContain('<change when="2026-10-19" who="#JD"/>');
+  });
+
+  it('returns null without a teiHeader, or for a revisionDesc list', () => {
+    expect(changeEntryChange('<TEI><text/></TEI>', ENTRY)).toBeNull();
+    expect(changeEntryChange('<p><teiHeader/></p>', ENTRY)).toBeNull();
+    expect(changeEntryChange(header('<revisionDesc><list><item/></list></revisionDesc>'), ENTRY)).toBeNull();
+  });
+});
+
+describe('helpers', () => {
+  it('builds @who from initials and dates from local time', () => {
+    expect(initialsOf(' Jane van Doe ')).toBe('JvD');
+    expect(whoPointer('JD')).toBe('#JD');
+    expect(whoPointer('#JD')).toBe('#JD');
+    expect(whoPointer('https://orcid.org/0000')).toBe('https://orcid.org/0000');
+    expect(whoPointer('')).toBe('');
+    expect(isoDate(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+  });
+});
+
+describe('addChangeEntry', () => {
+  it('adds the entry, declaring its @who, as one undo step', () => {
+    const doc = header('');
+    let state = EditorState.create({ doc, extensions: [history()] });
+    const dispatch = (tr: ReturnType<EditorState['update']>) => {
+      state = tr.state;
+    };
+    const declared = doc.replace('<title>T</title>', '<title>T</title><respStmt xml:id="JD"><resp>revised by</resp><name>Jane Doe</name></respStmt>');
+    expect(addChangeEntry({ ...ENTRY, name: 'Jane Doe' })({ state, dispatch })).toBe(true);
+    expect(state.doc.toString()).toBe(apply(declared));
+    expect(checkReferenceIntegrity(state.doc.toString())).toEqual([]);
+    undo({ state, dispatch });
+    expect(state.doc.toString()).toBe(doc);
+    // Declared already: only the entry
+    state = EditorState.create({ doc: declared });
+    addChangeEntry(ENTRY)({ state, dispatch });
+    expect(state.doc.toString()).toBe(apply(declared));
+    expect(addChangeEntry(ENTRY)({ state: EditorState.create({ doc: '<TEI/>' }), dispatch })).toBe(false);
+  });
+
+  it('moves pending tracked changes past the entry without recording it', () => {
+    const doc = header('').replace('<p/>', '<p>hello</p>');
+    let state = EditorState.create({ doc, extensions: [createTrackChangesExtension()] });
+    const dispatch = (tr: ReturnType<EditorState['update']>) => {
+      state = tr.state;
+    };
+    dispatch(state.update({ effects: [trackAuthorEffect('Jane Doe'), restoreTracking.of({ enabled: true, changes: [] })] }));
+    const at = doc.indexOf('hello') + 5;
+    dispatch(state.update({ changes: { from: at, insert: ' world' } }));
+
+    addChangeEntry({ ...ENTRY, name: 'Jane Doe' })({ state, dispatch });
+
+    // Only the typing is pending, still on its own text — in the sidecar too
+    const saved = state.doc.toString();
+    const { changes } = getTracking(state);
+    expect(changes).toHaveLength(1);
+    expect(saved.slice(changes[0].from, changes[0].to)).toBe(' world');
+    const restored = parseSidecar(serializeSidecar(saved, getTracking(state)), saved);
+    expect(restored?.changes.map(c => saved.slice(c.from, c.to))).toEqual([' world']);
+  });
+});
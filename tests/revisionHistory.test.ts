@@ -0,0 +1,211 @@
+/**
+ * Local revision history: file identity (workspace path, or a file handle
+ * matched with isSameEntry), recording on save with unchanged text skipped,
+ * the per-file cap, periodic snapshots of dirty documents — and the line
+ * diff the compare view is built on. idb-keyval is replaced by an in-memory
+ * map.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MAX_REVISIONS,
+  deleteFileHistory,
+  historyKey,
+  listRevisions,
+  loadRevisionContent,
+  moveFileHistory,
+  recordDocumentRevision,
+  recordRevision,
+  revisionFileName,
+  startHistorySnapshots,
+  stopHistorySnapshots,
+  subscribeRevisions,
+} from '../src/file/revisionHistory';
+import { collapseUnchanged, diffLines, hasChanges } from '../src/utils/lineDiff';
+
+const db = vi.hoisted(() => ({ data: new Map<unknown, unknown>(), fail: false }));
+vi.mock('idb-keyval', () => {
+  const check = () => {
+    if (db.fail) throw new Error('idb down');
+  };
+  return {
+    createStore: vi.fn(() => 'history-store'),
+    get: vi.fn(async (key: unknown) => {
+      check();
+      return db.data.get(key);
+    }),
+    set: vi.fn(async (key: unknown, value: unknown) => {
+      check();
+      db.data.set(key, value);
+    }),
+    update: vi.fn(async (key: unknown, updater: (old: unknown) => unknown) => {
+      check();
+      db.data.set(key, updater(db.data.get(key)));
+    }),
+    delMany: vi.fn(async (keys: unknown[]) => {
+      check();
+      keys.forEach(k => db.data.delete(k));
+    }),
+    keys: vi.fn(async () => {
+      check();
+      return [...db.data.keys()];
+    }),
+  };
+});
+
+/** A stand-in FileSystemFileHandle: same entry when the names match. */
+function handle(name: string): FileSystemFileHandle {
+  return {
+    kind: 'file',
+    name,
+    isSameEntry: async (other: FileSystemHandle) => other.name === name,
+  } as unknown as FileSystemFileHandle;
+}
+
+beforeEach(() => {
+  db.data.clear();
+  db.fail = false;
+});
+afterEach(() => {
+  stopHistorySnapshots();
+  vi.useRealTimers();
+});
+
+describe('historyKey', () => {
+  it('uses the workspace path, then the file handle identity', async () => {
+    expect(await historyKey({ root: 'folio', filePath: 'acts/1.xml', fileHandle: handle('1.xml') })).toBe('path:folio/acts/1.xml');
+    expect(await historyKey({ root: null, filePath: null, fileHandle: null })).toBeNull();
+
+    const first = await historyKey({ root: null, filePath: null, fileHandle: handle('letter.xml') });
+    expect(first).toMatch(/^handle:/);
+    // The same file picked again is a new handle object for the same entry
+    expect(await historyKey({ root: null, filePath: null, fileHandle: handle('letter.xml') })).toBe(first);
+    expect(await historyKey({ root: null, filePath: null, fileHandle: handle('other.xml') })).not.toBe(first);
+  });
+});
+
+describe('recordRevision', () => {
+  it('records changed text only, newest first, and notifies', async () => {
+    const changed: string[] = [];
+    const unsubscribe = subscribeRevisions(key => changed.push(key));
+    const first = await recordRevision('path:f/a.xml', '<TEI>1</TEI>', 'save');
+    expect(first).not.toBeNull();
+    expect(await recordRevision('path:f/a.xml', '<TEI>1</TEI>', 'auto')).toBeNull();
+    await recordRevision('path:f/a.xml', '<TEI>2</TEI>', 'auto');
+    unsubscribe();
+
+    const revisions = await listRevisions('path:f/a.xml');
+    expect(revisions.map(r => r.reason)).toEqual(['auto', 'save']);
+    expect(await loadRevisionContent(revisions[1].id)).toBe('<TEI>1</TEI>');
+    expect(changed).toEqual(['path:f/a.xml', 'path:f/a.xml']);
+    expect(await listRevisions('path:f/b.xml')).toEqual([]);
+  });
+
+  it(`keeps the newest ${MAX_REVISIONS} revisions and drops the oldest texts`, async () => {
+    for (let i = 0; i <= MAX_REVISIONS; i++) await recordRevision('k', `v${i}`, 'save');
+    const revisions = await listRevisions('k');
+    expect(revisions).toHaveLength(MAX_REVISIONS);
+    expect(await loadRevisionContent(revisions[revisions.length - 1].id)).toBe('v1');
+    expect([...db.data.values()]).not.toContain('v0');
+  });
+
+  it('reports storage failures instead of throwing', async () => {
+    db.fail = true;
+    const onError = vi.fn();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await recordRevision('k', 'x', 'save', onError)).toBeNull();
+    expect(await listRevisions('k', onError)).toEqual([]);
+    expect(onError).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe('workspace file operations', () => {
+  it('moves the history of a renamed file or moved folder to the new path', async () => {
+    await recordRevision('path:folio/acts/1.xml', 'one', 'save');
+    await recordRevision('path:folio/acts/2.xml', 'two', 'save');
+    await recordRevision('path:folio/acts2/3.xml', 'three', 'save');
+    await recordRevision('path:folio/old/1.xml', 'stale', 'save');
+
+    await moveFileHistory('folio', 'acts/2.xml', 'acts/two.xml');
+    expect(await listRevisions('path:folio/acts/2.xml')).toEqual([]);
+    expect(await loadRevisionContent((await listRevisions('path:folio/acts/two.xml'))[0].id)).toBe('two');
+
+    await moveFileHistory('folio', 'acts', 'old');
+    const moved = await listRevisions('path:folio/old/1.xml');
+    expect(moved).toHaveLength(1);
+    expect(await loadRevisionContent(moved[0].id)).toBe('one');
+    expect(await listRevisions('path:folio/old/two.xml')).toHaveLength(1);
+    expect(await listRevisions('path:folio/acts2/3.xml')).toHaveLength(1);
+    expect([...db.data.values()]).not.toContain('stale');
+  });
+
+  it('deletes the history of a deleted file or folder with its texts', async () => {
+    await recordRevision('path:folio/acts/1.xml', 'one', 'save');
+    await recordRevision('path:other/acts/1.xml', 'elsewhere', 'save');
+    await deleteFileHistory('folio', 'acts');
+    expect(await listRevisions('path:folio/acts/1.xml')).toEqual([]);
+    expect([...db.data.values()]).not.toContain('one');
+    expect(await listRevisions('path:other/acts/1.xml')).toHaveLength(1);
+  });
+});
+
+describe('history snapshots', () => {
+  it('snapshot dirty documents every five minutes', async () => {
+    vi.useFakeTimers();
+    const doc = { root: 'folio', filePath: 'a.xml', fileHandle: null, content: '<TEI/>' };
+    startHistorySnapshots(() => [doc]);
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    expect((await listRevisions('path:folio/a.xml')).map(r => r.reason)).toEqual(['auto']);
+    // Nothing changed since: nothing recorded
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    expect(await listRevisions('path:folio/a.xml')).toHaveLength(1);
+    // An untitled document has no history
+    expect(await recordDocumentRevision({ root: null, filePath: null, fileHandle: null }, 'x', 'save')).toBeNull();
+  });
+
+  it('names a revision opened as a tab after its time', () => {
+    const t = new Date(2026, 9, 19, 14, 5).getTime();
+    expect(revisionFileName('letter.xml', t)).toBe('letter (2026-10-19 14.05).xml');
+    expect(revisionFileName('README', t)).toBe('README (2026-10-19 14.05)');
+  });
+});
+
+describe('diffLines', () => {
+  it('aligns changed, removed and added lines side by side', () => {
+    const rows = diffLines('a\nb\nc\nd\ne', 'a\nB\nc\ne\nf');
+    expect(rows.map(r => [r.kind, r.left?.text ?? null, r.right?.text ?? null])).toEqual([
+      ['same', 'a', 'a'],
+      ['changed', 'b', 'B'],
+      ['same', 'c', 'c'],
+      ['removed', 'd', null],
+      ['same', 'e', 'e'],
+      ['added', null, 'f'],
+    ]);
+    expect(rows[5].right?.number).toBe(5);
+    expect(hasChanges(diffLines('x\ny', 'x\ny'))).toBe(false);
+    expect(diffLines('', 'x').map(r => r.kind)).toEqual(['added']);
+  });
+
+  it('rebuilds both texts from the rows, with a minimal script', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (let round = 0; round < 200; round++) {
+      const a = Array.from({ length: Math.floor(random() * 15) }, () => 'abcd'[Math.floor(random() * 4)]);
+      const b = Array.from({ length: Math.floor(random() * 15) }, () => 'abcd'[Math.floor(random() * 4)]);
+      const rows = diffLines(a.join('\n'), b.join('\n'));
+      expect(rows.flatMap(r => (r.left ? [r.left.text] : []))).toEqual(a);
+      expect(rows.flatMap(r => (r.right ? [r.right.text] : []))).toEqual(b);
+      expect(rows.every(r => r.kind !== 'same' || r.left!.text === r.right!.text)).toBe(true);
+    }
+  });
+
+  it('folds long unchanged stretches around the changes', () => {
+    const old = Array.from({ length: 20 }, (_, i) => `l${i}`);
+    const edited = [...old];
+    edited[10] = 'changed';
+    const shown = collapseUnchanged(diffLines(old.join('\n'), edited.join('\n')), 2);
+    expect(shown.map(r => (r.kind === 'skip' ? `skip ${r.count}` : r.kind))).toEqual([
+      'skip 8', 'same', 'same', 'changed', 'same', 'same', 'skip 7',
+    ]);
+  });
+});
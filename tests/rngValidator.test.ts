@@ -0,0 +1,244 @@
+/**
+ * RELAX NG derivative engine tests.
+ *
+ * Custom grammars go through the real pipeline (parseRng → SchemaEngine →
+ * validateXml) so the tests pin what the editor reports, not just the
+ * pattern algebra. TEI All checks the header and text frame with their
+ * real models (teiContentModels.ts) and the rest on the relaxed P5 models:
+ * order checks only, never a false positive on a valid document.
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { SchemaEngine } from '../src/schema/SchemaEngine';
+import { validateXml } from '../src/schema/xmlValidator';
+import { allowedChildrenAt } from '../src/schema/rngValidator';
+import { TEMPLATES, getTemplateContent } from '../src/file/templates';
+import type { SchemaInfo, ValidationError } from '../src/types/schema';
+
+const HEADER_RNG = `<?xml version="1.0"?>
+<grammar xmlns="http://relaxng.org/ns/structure/1.0">
+  <start><ref name="fileDesc"/></start>
+  <define name="fileDesc">
+    <element name="fileDesc">
+      <ref name="titleStmt"/>
+      <optional><element name="editionStmt"><text/></element></optional>
+      <ref name="publicationStmt"/>
+      <oneOrMore><element name="sourceDesc"><text/></element></oneOrMore>
+    </element>
+  </define>
+  <define name="titleStmt"><element name="titleStmt"><text/></element></define>
+  <define name="publicationStmt"><element name="publicationStmt"><text/></element></define>
+</grammar>`;
+
+const STRUCTURE_RNG = `<?xml version="1.0"?>
+<grammar xmlns="http://relaxng.org/ns/structure/1.0">
+  <start><element name="root">
+    <optional><element name="meta">
+      <interleave>
+        <element name="author"><text/></element>
+        <element name="date"><text/></element>
+      </interleave>
+    </element></optional>
+    <optional><element name="pairs">
+      <oneOrMore><group>
+        <element name="key"><text/></element>
+        <element name="value"><text/></element>
+      </group></oneOrMore>
+    </element></optional>
+    <optional><element name="variant">
+      <choice>
+        <element name="orig"><text/></element>
+        <element name="reg"><text/></element>
+      </choice>
+    </element></optional>
+    <zeroOrMore><element name="para">
+      <mixed><zeroOrMore><element name="hi"><text/></element></zeroOrMore></mixed>
+    </element></zeroOrMore>
+  </element></start>
+</grammar>`;
+
+let header: SchemaInfo;
+let structure: SchemaInfo;
+let teiAll: SchemaInfo;
+let teiLite: SchemaInfo;
+
+beforeAll(async () => {
+  const engine = new SchemaEngine();
+  header = await engine.loadCustomRng(HEADER_RNG, 'header.rng');
+  structure = await engine.loadCustomRng(STRUCTURE_RNG, 'structure.rng');
+  teiAll = await engine.loadBuiltin('tei_all');
+  teiLite = await engine.loadBuiltin('tei_lite');
+});
+
+const messages = (errors: ValidationError[]) => errors.map((e) => e.message);
+
+describe('grammar availability', () => {
+  it('is on for custom RNGs and both built-in schemas', () => {
+    expect(header.hasSalveGrammar).toBe(true);
+    expect(teiAll.hasSalveGrammar).toBe(true);
+    expect(teiLite.hasSalveGrammar).toBe(true);
+  });
+});
+
+describe('sequence', () => {
+  it('accepts content in schema order, with optional parts omitted', () => {
+    const doc = '<fileDesc><titleStmt>t</titleStmt><publicationStmt>p</publicationStmt><sourceDesc>s</sourceDesc><sourceDesc>s2</sourceDesc></fileDesc>';
+    expect(validateXml(doc, header)).toEqual([]);
+  });
+
+  it('reports a missing required element before the one that follows it', () => {
+    const doc = '<fileDesc>\n<publicationStmt>p</publicationStmt>\n<sourceDesc>s</sourceDesc>\n</fileDesc>';
+    const errors = validateXml(doc, header);
+    expect(messages(errors)).toEqual(['Expected <titleStmt> before <publicationStmt> in <fileDesc>']);
+    expect(errors[0]).toMatchObject({ line: 2, column: 1, severity: 'warning' });
+  });
+
+  it('reports misordered content with what was expected instead', () => {
+    const doc = '<fileDesc><titleStmt>t</titleStmt><publicationStmt>p</publicationStmt><editionStmt>e</editionStmt><sourceDesc>s</sourceDesc></fileDesc>';
+    expect(messages(validateXml(doc, header))).toEqual([
+      '<editionStmt> is not allowed at this position in <fileDesc>; expected <sourceDesc>',
+    ]);
+  });
+
+  it('reports an element that ends before its required content', () => {
+    const doc = '<fileDesc><titleStmt>t</titleStmt><publicationStmt>p</publicationStmt></fileDesc>';
+    const errors = validateXml(doc, header);
+    expect(messages(errors)).toEqual(['<fileDesc> is incomplete: expected <sourceDesc>']);
+    expect(errors[0]).toMatchObject({ line: 1, column: 1, severity: 'warning' });
+  });
+
+  it('treats a self-closing element as empty content', () => {
+    expect(messages(validateXml('<fileDesc/>', header))).toEqual(['<fileDesc> is incomplete: expected <titleStmt>']);
+  });
+});
+
+describe('allowedChildrenAt (completion)', () => {
+  const at = (schema: SchemaInfo, parent: string, before: string[], after: string[] = []) =>
+    allowedChildrenAt(schema, parent, before, after)?.sort((x, y) => x.name.localeCompare(y.name));
+
+  it('offers what fits next in the sequence and flags the expected element', () => {
+    expect(at(header, 'fileDesc', [])).toEqual([{ name: 'titleStmt', required: true, remaining: 1 }]);
+    expect(at(header, 'fileDesc', ['titleStmt'])).toEqual([
+      { name: 'editionStmt', required: false, remaining: 1 },
+      { name: 'publicationStmt', required: true, remaining: 1 },
+    ]);
+    expect(at(header, 'fileDesc', ['titleStmt', 'publicationStmt', 'sourceDesc'])).toEqual([
+      { name: 'sourceDesc', required: false, remaining: -1 },
+    ]);
+  });
+
+  it('keeps the children after the position valid', () => {
+    expect(at(header, 'fileDesc', ['titleStmt'], ['publicationStmt', 'sourceDesc'])).toEqual([
+      { name: 'editionStmt', required: false, remaining: 1 },
+    ]);
+    // Already broken after the position: judged on what comes before alone.
+    expect(at(header, 'fileDesc', [], ['editionStmt', 'titleStmt']).map((c) => c.name)).toEqual(['titleStmt']);
+  });
+
+  it('drops elements whose maxOccurs is used up and credits every alternative', () => {
+    expect(at(structure, 'root', ['meta']).map((c) => c.name)).toEqual(['pairs', 'para', 'variant']);
+    expect(at(structure, 'variant', [])).toEqual([
+      { name: 'orig', required: true, remaining: 1 },
+      { name: 'reg', required: true, remaining: 1 },
+    ]);
+  });
+
+  it('returns null without a content model', () => {
+    expect(allowedChildrenAt(header, 'nope', [], [])).toBeNull();
+  });
+
+  it('follows the TEI header sequence in both built-in schemas', () => {
+    for (const tei of [teiAll, teiLite]) {
+      expect(at(tei, 'fileDesc', [])).toEqual([{ name: 'titleStmt', required: true, remaining: 1 }]);
+      const afterPublication = at(tei, 'fileDesc', ['titleStmt', 'publicationStmt'])!;
+      expect(afterPublication.map((c) => c.name)).toEqual(['notesStmt', 'seriesStmt', 'sourceDesc']);
+      expect(afterPublication.find((c) => c.name === 'sourceDesc')).toEqual({ name: 'sourceDesc', required: true, remaining: -1 });
+      expect(at(tei, 'TEI', []).map((c) => c.name)).toEqual(['teiHeader']);
+      expect(at(tei, 'TEI', ['teiHeader'])!.map((c) => c.name)).not.toContain('teiHeader');
+      expect(at(tei, 'TEI', ['teiHeader'])!.find((c) => c.name === 'text')).toMatchObject({ required: true });
+    }
+  });
+});
+
+describe('interleave, nested groups, choice, mixed', () => {
+  it('accepts interleaved children in any order but only once each', () => {
+    expect(validateXml('<root><meta><date>d</date><author>a</author></meta></root>', structure)).toEqual([]);
+    expect(messages(validateXml('<root><meta><date>d</date><author>a</author><date>d</date></meta></root>', structure)))
+      .toEqual(['<date> is not allowed at this position in <meta>; expected </meta>']);
+  });
+
+  it('enforces cardinality of a repeated group as a unit', () => {
+    expect(validateXml('<root><pairs><key>k</key><value>v</value><key>k</key><value>v</value></pairs></root>', structure)).toEqual([]);
+    expect(messages(validateXml('<root><pairs><key>k</key><value>v</value><key>k</key></pairs></root>', structure)))
+      .toEqual(['<pairs> is incomplete: expected <value>']);
+  });
+
+  it('allows only one alternative of a choice', () => {
+    expect(messages(validateXml('<root><variant><orig>o</orig><reg>r</reg></variant></root>', structure)))
+      .toEqual(['<reg> is not allowed at this position in <variant>; expected </variant>']);
+  });
+
+  it('accepts text in mixed content and rejects it in element-only content', () => {
+    expect(validateXml('<root><para>some <hi>marked</hi> text</para></root>', structure)).toEqual([]);
+    const errors = validateXml('<root>\n  stray text\n  <para/></root>', structure);
+    expect(messages(errors)).toEqual(['Text is not allowed here in <root>']);
+    expect(errors[0]).toMatchObject({ line: 2, column: 3 });
+  });
+
+  it('ignores whitespace and comments between children', () => {
+    const doc = '<root>\n  <!-- note -->\n  <para>x</para>\n</root>';
+    expect(validateXml(doc, structure)).toEqual([]);
+  });
+});
+
+describe('TEI All', () => {
+  const tei = (header: string, text = '<text><body><p>x</p></body></text>') =>
+    `<TEI xmlns="http://www.tei-c.org/ns/1.0">\n<teiHeader>\n${header}\n</teiHeader>\n${text}\n</TEI>`;
+  const FILE_DESC = '<fileDesc><titleStmt><title>t</title></titleStmt><publicationStmt><p/></publicationStmt><sourceDesc><p/></sourceDesc></fileDesc>';
+  const grammar = (doc: string) => messages(validateXml(doc, teiAll)).filter((m) =>
+    /at this position|is incomplete|Expected <|Text is not allowed/.test(m),
+  );
+
+  it('produces no grammar diagnostics for the built-in templates', () => {
+    for (const template of TEMPLATES) {
+      const grammarErrors = validateXml(getTemplateContent(template.id), teiAll).filter((e) =>
+        /at this position|is incomplete|Expected <|Text is not allowed/.test(e.message),
+      );
+      expect(grammarErrors, template.id).toEqual([]);
+    }
+  });
+
+  it('flags a teiHeader placed after the text', () => {
+    const doc = `<TEI xmlns="http://www.tei-c.org/ns/1.0">
+<text><body><p>x</p></body></text>
+<teiHeader><fileDesc><titleStmt><title>t</title></titleStmt><publicationStmt><p/></publicationStmt><sourceDesc><p/></sourceDesc></fileDesc></teiHeader>
+</TEI>`;
+    const errors = validateXml(doc, teiAll);
+    expect(errors.some((e) => e.message.startsWith('<teiHeader> is not allowed at this position in <TEI>') && e.line === 3)).toBe(true);
+  });
+
+  it('accepts a minimal document', () => {
+    expect(grammar(tei(FILE_DESC))).toEqual([]);
+  });
+
+  it('checks the order and cardinality of the header', () => {
+    expect(grammar(tei('<fileDesc><publicationStmt><p/></publicationStmt><titleStmt><title>t</title></titleStmt><sourceDesc><p/></sourceDesc></fileDesc>'))).toEqual([
+      'Expected <titleStmt> before <publicationStmt> in <fileDesc>',
+      '<titleStmt> is not allowed at this position in <fileDesc>; expected <notesStmt>, <seriesStmt> or <sourceDesc>',
+    ]);
+    expect(grammar(tei('<fileDesc><publicationStmt><p/></publicationStmt><sourceDesc><p/></sourceDesc></fileDesc>')))
+      .toEqual(['Expected <titleStmt> before <publicationStmt> in <fileDesc>']);
+    expect(grammar(tei('<fileDesc><titleStmt/><publicationStmt><p/></publicationStmt><sourceDesc><p/></sourceDesc></fileDesc>')))
+      .toEqual(['<titleStmt> is incomplete: expected <title>']);
+  });
+
+  it('takes one teiHeader', () => {
+    const doc = tei(FILE_DESC).replace('<text>', `<teiHeader>${FILE_DESC}</teiHeader>\n<text>`);
+    expect(grammar(doc)).toEqual([expect.stringMatching(/^<teiHeader> is not allowed at this position in <TEI>/)]);
+  });
+
+  it('reports loose text in body', () => {
+    expect(grammar(tei(FILE_DESC, '<text><body>loose <p>x</p></body></text>'))).toEqual([
+      expect.stringMatching(/^Text is not allowed/),
+    ]);
+  });
+});
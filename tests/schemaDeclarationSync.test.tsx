@@ -0,0 +1,150 @@
+/**
+ * Two-way sync between a document's xml-model PI and its schemaId:
+ * editing the PI re-associates the tab (debounced), and picking a schema in
+ * the selector writes the PI back as one undoable edit.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, cleanup, fireEvent, render, renderHook, screen, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { history, undo } from '@codemirror/commands';
+import { EditorProvider } from '../src/store/EditorContext';
+import { SchemaProvider } from '../src/store/SchemaContext';
+import { useEditor } from '../src/store/useEditor';
+import { useSchemaDeclarationSync } from '../src/hooks/useSchemaDeclarationSync';
+import { SchemaSelector } from '../src/components/Toolbar/SchemaSelector';
+import { BUILTIN_SCHEMA_HREFS, extractProlog, schemaDeclarationEdit } from '../src/utils/schemaDetector';
+import { schemaDeclarationHref } from '../src/file/documentSchema';
+import { relativeWorkspacePath } from '../src/schema/referenceIntegrity';
+import type { SchemaInfo } from '../src/types/schema';
+
+const RNG_NS = 'http://relaxng.org/ns/structure/1.0';
+const pi = (href: string) => `<?xml-model href="${href}" type="application/xml" schematypens="${RNG_NS}"?>`;
+const LITE_PI = pi(BUILTIN_SCHEMA_HREFS.tei_lite);
+const ALL_PI = pi(BUILTIN_SCHEMA_HREFS.tei_all);
+const SCH_PI = '<?xml-model href="house.sch" schematypens="http://purl.oclc.org/dsdl/schematron"?>';
+const BODY = '<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><p>x</p></body></text></TEI>';
+
+function apply(xml: string, edit: ReturnType<typeof schemaDeclarationEdit>): string {
+  return edit ? xml.slice(0, edit.from) + edit.insert + xml.slice(edit.to) : xml;
+}
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <SchemaProvider>
+    <EditorProvider>{children}</EditorProvider>
+  </SchemaProvider>
+);
+
+let view: EditorView | null = null;
+afterEach(() => {
+  cleanup();
+  view?.destroy();
+  view = null;
+});
+
+describe('extractProlog', () => {
+  it('stops at the root start tag', () => {
+    const prolog = `<?xml version="1.0"?>\n<!-- <?xml-model href="no.rng"?> -->\n<!DOCTYPE TEI [ <!ENTITY a "b"> ]>\n${LITE_PI}\n`;
+    expect(extractProlog(prolog + BODY)).toBe(prolog);
+    expect(extractProlog(BODY)).toBe('');
+  });
+});
+
+describe('schemaDeclarationEdit', () => {
+  it('rewrites the grammar declaration and leaves Schematron alone', () => {
+    const xml = `<?xml version="1.0"?>\n${SCH_PI}\n${LITE_PI}\n${BODY}`;
+    expect(apply(xml, schemaDeclarationEdit(xml, BUILTIN_SCHEMA_HREFS.tei_all)))
+      .toBe(`<?xml version="1.0"?>\n${SCH_PI}\n${ALL_PI}\n${BODY}`);
+  });
+
+  it('inserts after the XML declaration, or at the start without one', () => {
+    const withDecl = `<?xml version="1.0" encoding="UTF-8"?>\n${BODY}`;
+    expect(apply(withDecl, schemaDeclarationEdit(withDecl, BUILTIN_SCHEMA_HREFS.tei_all)))
+      .toBe(`<?xml version="1.0" encoding="UTF-8"?>\n${ALL_PI}\n${BODY}`);
+    expect(apply(BODY, schemaDeclarationEdit(BODY, BUILTIN_SCHEMA_HREFS.tei_all))).toBe(`${ALL_PI}\n${BODY}`);
+  });
+
+  it('ignores look-alikes after the root start tag and returns null when already declared', () => {
+    const xml = `${BODY}<!-- ${LITE_PI} -->`;
+    expect(schemaDeclarationEdit(xml, BUILTIN_SCHEMA_HREFS.tei_lite)?.from).toBe(0);
+    expect(schemaDeclarationEdit(`${LITE_PI}${BODY}`, BUILTIN_SCHEMA_HREFS.tei_lite)).toBeNull();
+  });
+});
+
+describe('schemaDeclarationHref', () => {
+  const workspaceSchema = { id: 'custom_schema/project', sourcePath: 'schema/project.rng' } as SchemaInfo;
+
+  it('uses the canonical URL for built-ins and a relative path for workspace schemas', () => {
+    expect(schemaDeclarationHref('tei_all', null, null)).toBe(BUILTIN_SCHEMA_HREFS.tei_all);
+    expect(schemaDeclarationHref(workspaceSchema.id, workspaceSchema, 'texts/a.xml')).toBe('../schema/project.rng');
+    expect(schemaDeclarationHref(workspaceSchema.id, workspaceSchema, null)).toBeNull();
+    expect(schemaDeclarationHref('custom_upload', { id: 'custom_upload' } as SchemaInfo, 'a.xml')).toBeNull();
+  });
+
+  it('computes relative paths', () => {
+    expect(relativeWorkspacePath('a/b/c.xml', 'a/b/s.rng')).toBe('s.rng');
+    expect(relativeWorkspacePath('a/b/c.xml', 'a/x/s.rng')).toBe('../x/s.rng');
+    expect(relativeWorkspacePath('c.xml', 'my schema/s.rng')).toBe('my%20schema/s.rng');
+  });
+});
+
+describe('useSchemaDeclarationSync', () => {
+  function setup() {
+    return renderHook(() => {
+      useSchemaDeclarationSync();
+      return useEditor();
+    }, { wrapper });
+  }
+
+  it('re-associates the tab once the edited PI names another schema', async () => {
+    const { result } = setup();
+    act(() => result.current.openFileAsTab(`${LITE_PI}\n${BODY}`, 'a.xml', null, null));
+    const id = result.current.multiTabState.activeDocumentId!;
+    // Let the first pass record the opened prolog.
+    await new Promise((r) => setTimeout(r, 500));
+
+    act(() => result.current.updateTabContent(id, `${ALL_PI}\n${BODY}`));
+    expect(result.current.getActiveDocument()?.schemaId).toBe('tei_lite');
+    await waitFor(() => expect(result.current.getActiveDocument()?.schemaId).toBe('tei_all'));
+  });
+
+  it('keeps a manual override while the declaration still names the same schema', async () => {
+    const { result } = setup();
+    act(() => result.current.openFileAsTab(`${LITE_PI}\n${BODY}`, 'a.xml', null, null));
+    const id = result.current.multiTabState.activeDocumentId!;
+    await new Promise((r) => setTimeout(r, 500));
+
+    act(() => result.current.setDocumentSchemaId(id, 'custom_mine'));
+    act(() => result.current.updateTabContent(id, `<?xml version="1.0"?>\n${LITE_PI}\n${BODY}`));
+    await new Promise((r) => setTimeout(r, 500));
+    expect(result.current.getActiveDocument()?.schemaId).toBe('custom_mine');
+  });
+});
+
+describe('SchemaSelector write-back', () => {
+  it('writes the chosen schema into the PI as one undoable edit', async () => {
+    let editor!: ReturnType<typeof useEditor>;
+    function Probe() {
+      editor = useEditor();
+      return null;
+    }
+    render(<SchemaSelector />, {
+      wrapper: ({ children }) => wrapper({ children: <>{children}<Probe /></> }),
+    });
+
+    const content = `<?xml version="1.0"?>\n${LITE_PI}\n${BODY}`;
+    act(() => editor.openFileAsTab(content, 'a.xml', null, null));
+    view = new EditorView({ state: EditorState.create({ doc: content, extensions: [history()] }), parent: document.body });
+    editor.editorViewRef.current = view;
+
+    const select = screen.getByTitle('Select TEI schema for the current document') as HTMLSelectElement;
+    await waitFor(() => expect(select.disabled).toBe(false));
+    fireEvent.change(select, { target: { value: 'tei_all' } });
+
+    expect(editor.getActiveDocument()?.schemaId).toBe('tei_all');
+    expect(view.state.doc.toString()).toBe(`<?xml version="1.0"?>\n${ALL_PI}\n${BODY}`);
+    undo(view);
+    expect(view.state.doc.toString()).toBe(content);
+  });
+});
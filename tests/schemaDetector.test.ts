@@ -9,8 +9,12 @@
  */
 import { describe, it, expect } from 'vitest';
 import {
+  analyzeSchemaDeclarations,
+  buildSchemaAlertMessage,
   detectSchemaDeclarations,
   detectSchemaIdFromContent,
+  isSchematronDeclaration,
+  SCHEMATRON_NS,
 } from '../src/utils/schemaDetector';
 
 describe('detectSchemaDeclarations — DOCTYPE percent handling (#11)', () => {
@@ -53,3 +57,25 @@ describe('detectSchemaDeclarations / resolve — normal detection', () => {
     expect(detectSchemaIdFromContent('<TEI><text/></TEI>')).toBeNull();
   });
 });
+
+describe('detectSchemaDeclarations — Schematron xml-model', () => {
+  it('reads pseudo-attributes in any order and recognises Schematron rulesets', () => {
+    const xml = `<?xml-model schematypens="${SCHEMATRON_NS}" href="rules/house.sch" type="application/xml"?>
+<?xml-model href="tei_all.rng" schematypens="http://purl.oclc.org/dsdl/schematron"?>
+<?xml-model href="extra.sch"?>
+<?xml-model href='tei_lite.rng' schematypens='http://relaxng.org/ns/structure/1.0'?><TEI/>`;
+    const decls = detectSchemaDeclarations(xml);
+    expect(decls.map(d => [d.href, d.format, d.schematypens])).toEqual([
+      ['rules/house.sch', 'sch', SCHEMATRON_NS],
+      ['tei_all.rng', 'rng', SCHEMATRON_NS],
+      ['extra.sch', 'sch', null],
+      ['tei_lite.rng', 'rng', 'http://relaxng.org/ns/structure/1.0'],
+    ]);
+    expect(decls.map(isSchematronDeclaration)).toEqual([true, true, true, false]);
+  });
+
+  it('does not ask for local Schematron rulesets to be uploaded', () => {
+    const decls = detectSchemaDeclarations(`<?xml-model href="house.sch" schematypens="${SCHEMATRON_NS}"?><TEI/>`);
+    expect(buildSchemaAlertMessage(analyzeSchemaDeclarations(decls))).toBeNull();
+  });
+});
@@ -1,15 +1,15 @@
 /**
  * Schematron engine tests (P2, 2026-07).
  *
- * jsdom's XPath engine cannot evaluate namespace-prefixed name tests or
- * local-name() predicates, so evaluation against TEI-namespaced documents
- * is verified in a real browser. These tests cover the full parse surface
- * and end-to-end evaluation over no-namespace documents (which jsdom's
- * XPath handles natively), including line attribution, first-rule-wins,
- * role→severity mapping, <name/> substitution, and rule-error reporting.
+ * These tests cover the full parse surface and end-to-end evaluation over
+ * no-namespace documents, including line attribution, first-rule-wins,
+ * role→severity mapping, <name/> substitution, <let> binding, and
+ * rule-error reporting. Namespace-prefixed TEI rules are covered in
+ * xmlDom.test.ts, next to the XML DOM and XPath engine they run on.
  */
 import { describe, it, expect } from 'vitest';
 import { parseSchematron, validateSchematron } from '../src/schema/schematron';
+import type { QuickFix } from '../src/types/schema';
 
 const ISO_NS = 'http://purl.oclc.org/dsdl/schematron';
 
@@ -85,7 +85,7 @@ describe('parseSchematron', () => {
 });
 
 // ───────────────────────────────────────────────────────────────────────────
-// Evaluation over no-namespace documents (jsdom-evaluable)
+// Evaluation over no-namespace documents
 // ───────────────────────────────────────────────────────────────────────────
 
 const BOOK_SCH = `<schema xmlns="${ISO_NS}"><pattern>
@@ -221,3 +221,219 @@ describe('validateSchematron (no-namespace documents)', () => {
     expect(errors[0].line).toBe(2);
   });
 });
+
+// ───────────────────────────────────────────────────────────────────────────
+// let / value-of / phases / abstract patterns
+// ───────────────────────────────────────────────────────────────────────────
+
+const messagesOf = (xml: string, sch: string, phase: string | null = null) =>
+  validateSchematron(xml, { ...parseSchematron(sch, 's'), activePhase: phase }).map(e => e.message);
+
+describe('<let> variables', () => {
+  const xml = `<book max="2">
+  <chapter n="1" title="It's &quot;one&quot;"/>
+  <chapter n="2"/>
+  <chapter n="3"/>
+  <person id="a"/>
+</book>`;
+
+  it('binds schema-, pattern- and rule-level values, each in its own scope', () => {
+    const sch = `<schema xmlns="${ISO_NS}">
+      <let name="max" value="number(/book/@max)"/>
+      <pattern>
+        <let name="label" value="'chapter'"/>
+        <rule context="chapter">
+          <let name="n" value="number(@n)"/>
+          <assert test="$n &lt;= $max">The <value-of select="$label"/> number <value-of select="$n"/> exceeds <value-of select="$max"/>.</assert>
+        </rule>
+      </pattern>
+    </schema>`;
+    expect(messagesOf(xml, sch)).toEqual(['[Schematron] The chapter number 3 exceeds 2.']);
+  });
+
+  it('keeps node-set values usable from any context', () => {
+    const sch = `<schema xmlns="${ISO_NS}">
+      <let name="people" value="//person"/>
+      <let name="ids" value="//person/@id"/>
+      <pattern><rule context="chapter[@n = '1']">
+        <report test="count($people) = 1 and $ids = 'a'">one person</report>
+        <assert test="$people[@id = 'b']">no b</assert>
+      </rule></pattern>
+    </schema>`;
+    expect(messagesOf(xml, sch)).toEqual(['[Schematron] one person', '[Schematron] no b']);
+  });
+
+  it('binds a node-set once, not per use (a large id list stays fast)', () => {
+    const count = 3000;
+    const people = Array.from({ length: count }, (_, i) => `<person id="p${i}"/>`).join('');
+    const refs = Array.from({ length: count }, (_, i) => `<ref target="p${i === 7 ? 'x' : i}"/>`).join('');
+    const sch = `<schema xmlns="${ISO_NS}">
+      <let name="ids" value="//person/@id"/>
+      <pattern><rule context="ref">
+        <assert test="@target = $ids">Unknown target <value-of select="@target"/>.</assert>
+      </rule></pattern>
+    </schema>`;
+    const started = performance.now();
+    expect(messagesOf(`<book>${people}${refs}</book>`, sch)).toEqual(['[Schematron] Unknown target px.']);
+    expect(performance.now() - started).toBeLessThan(3000);
+  });
+
+  it('carries strings with both quote characters intact', () => {
+    const sch = `<schema xmlns="${ISO_NS}"><pattern><rule context="chapter[@title]">
+      <let name="t" value="string(@title)"/>
+      <report test="$t = @title">title: <value-of select="$t"/></report>
+    </rule></pattern></schema>`;
+    expect(messagesOf(xml, sch)).toEqual(['[Schematron] title: It\'s "one"']);
+  });
+
+  it('resolves <name path> against the context node', () => {
+    const sch = `<schema xmlns="${ISO_NS}"><pattern><rule context="chapter[@n = '2']">
+      <report test="true()"><name path="@n"/> on <name path=".."/></report>
+    </rule></pattern></schema>`;
+    expect(messagesOf(xml, sch)).toEqual(['[Schematron] @n on <book>']);
+  });
+});
+
+describe('phases', () => {
+  const sch = `<schema xmlns="${ISO_NS}" defaultPhase="draft">
+    <phase id="draft"><active pattern="structure"/></phase>
+    <phase id="final"><let name="strict" value="true()"/><active pattern="structure"/><active pattern="metadata"/></phase>
+    <pattern id="structure"><rule context="chapter"><assert test="@title">needs title</assert></rule></pattern>
+    <pattern id="metadata"><rule context="book"><assert test="@isbn and not($strict)">needs isbn</assert></rule></pattern>
+  </schema>`;
+  const xml = '<book><chapter/></book>';
+
+  it('parses phases and the default phase', () => {
+    const s = parseSchematron(sch, 'p');
+    expect(s.defaultPhase).toBe('draft');
+    expect(s.phases.map(p => [p.id, p.patterns])).toEqual([['draft', ['structure']], ['final', ['structure', 'metadata']]]);
+  });
+
+  it('runs the default phase unless another is chosen', () => {
+    expect(messagesOf(xml, sch)).toEqual(['[Schematron] needs title']);
+    expect(messagesOf(xml, sch, 'final')).toEqual(['[Schematron] needs title', '[Schematron] needs isbn']);
+    expect(messagesOf(xml, sch, '#ALL')).toHaveLength(2);
+  });
+});
+
+describe('abstract patterns and rules', () => {
+  it('instantiates abstract patterns with <param> substitution', () => {
+    const sch = `<schema xmlns="${ISO_NS}">
+      <pattern abstract="true" id="requires-attr">
+        <rule context="$element"><assert test="$attr">&lt;<name/>&gt; needs <value-of select="'$attr'"/></assert></rule>
+      </pattern>
+      <pattern is-a="requires-attr" id="chapters"><param name="element" value="chapter"/><param name="attr" value="@title"/></pattern>
+      <pattern is-a="requires-attr" id="figures"><param name="element" value="figure"/><param name="attr" value="@src"/></pattern>
+    </schema>`;
+    const s = parseSchematron(sch, 'a');
+    expect(s.patterns.map(p => [p.id, p.rules[0].context])).toEqual([['chapters', 'chapter'], ['figures', 'figure']]);
+    expect(messagesOf('<book><chapter/><figure src="x"/><figure/></book>', sch)).toEqual([
+      '[Schematron] <<chapter>> needs @title',
+      '[Schematron] <<figure>> needs @src',
+    ]);
+  });
+
+  it('rejects an is-a without a matching abstract pattern', () => {
+    expect(() => parseSchematron(`<schema xmlns="${ISO_NS}"><pattern is-a="nope"/></schema>`, 'x')).toThrow(/is-a="nope"/);
+  });
+
+  it('splices <extends>ed abstract rules into concrete ones', () => {
+    const sch = `<schema xmlns="${ISO_NS}"><pattern>
+      <rule abstract="true" id="numbered"><assert test="@n">unnumbered <name/></assert></rule>
+      <rule context="chapter"><extends rule="numbered"/><assert test="@title">untitled</assert></rule>
+    </pattern></schema>`;
+    expect(parseSchematron(sch, 'e').patterns[0].rules[0].tests.map(t => t.test)).toEqual(['@n', '@title']);
+    expect(messagesOf('<book><chapter/></book>', sch)).toEqual(['[Schematron] unnumbered <chapter>', '[Schematron] untitled']);
+  });
+});
+
+describe('Schematron Quick Fixes (SQF)', () => {
+  const SQF_NS = 'http://www.schematron-quickfix.com/validator/process';
+  const sqf = (body: string, fixes = '') => `<schema xmlns="${ISO_NS}" xmlns:sqf="${SQF_NS}">
+    <sqf:fixes>${fixes}</sqf:fixes>
+    <pattern>${body}</pattern>
+  </schema>`;
+
+  /** Apply a fix's edits to the text they were computed against. */
+  const applied = (xml: string, fix: QuickFix) =>
+    [...fix.edits].reverse().reduce((s, e) => s.slice(0, e.from) + e.insert + s.slice(e.to), xml);
+  const fixesOf = (xml: string, sch: string) => validateSchematron(xml, parseSchematron(sch, 's')).flatMap(e => e.fixes ?? []);
+
+  it('parses fixes from the rule and from <sqf:fixes>, expanding groups', () => {
+    const sch = sqf(`
+      <rule context="chapter">
+        <assert test="@n" sqf:fix="number shared">unnumbered</assert>
+        <sqf:fix id="number"><sqf:description><sqf:title>Number it</sqf:title></sqf:description>
+          <sqf:add node-type="attribute" target="n">1</sqf:add></sqf:fix>
+      </rule>`, `
+      <sqf:group id="shared">
+        <sqf:fix id="drop"><sqf:delete/></sqf:fix>
+        <sqf:fix id="ask"><sqf:user-entry name="n"/><sqf:add node-type="attribute" target="n" select="$n"/></sqf:fix>
+      </sqf:group>`);
+    const [test] = parseSchematron(sch, 's').patterns[0].rules[0].tests;
+    expect(test.fixes.map(f => [f.id, f.description])).toEqual([['number', 'Number it'], ['drop', 'drop']]);
+  });
+
+  it('adds, replaces and deletes attributes', () => {
+    const sch = sqf(`<rule context="chapter">
+      <assert test="@n" sqf:fix="number">unnumbered</assert>
+      <report test="@rend" sqf:fix="unrend">rend</report>
+      <sqf:fix id="number"><sqf:add node-type="attribute" target="n" select="count(preceding-sibling::chapter) + 1"/></sqf:fix>
+      <sqf:fix id="unrend"><sqf:delete match="@rend"/></sqf:fix>
+    </rule>`);
+    const xml = '<book><chapter/><chapter rend="x" n="2">t</chapter><chapter  title="c"></chapter></book>';
+    const fixes = fixesOf(xml, sch);
+    expect(fixes.map(f => applied(xml, f))).toEqual([
+      '<book><chapter n="1"/><chapter rend="x" n="2">t</chapter><chapter  title="c"></chapter></book>',
+      '<book><chapter/><chapter n="2">t</chapter><chapter  title="c"></chapter></book>',
+      '<book><chapter/><chapter rend="x" n="2">t</chapter><chapter  title="c" n="3"></chapter></book>',
+    ]);
+  });
+
+  it('adds elements at each position, opening up self-closing elements', () => {
+    const fix = (position: string) => sqf(`<rule context="div">
+      <assert test="head" sqf:fix="f">no head</assert>
+      <sqf:fix id="f"><sqf:add node-type="element" target="head" position="${position}">Title of <sch:value-of xmlns:sch="${ISO_NS}" select="@n"/></sqf:add></sqf:fix>
+    </rule>`);
+    const open = '<text><div n="a&amp;b"><p/></div></text>';
+    expect(applied(open, fixesOf(open, fix('first-child'))[0])).toBe('<text><div n="a&amp;b"><head>Title of a&amp;b</head><p/></div></text>');
+    expect(applied(open, fixesOf(open, fix('last-child'))[0])).toBe('<text><div n="a&amp;b"><p/><head>Title of a&amp;b</head></div></text>');
+    expect(applied(open, fixesOf(open, fix('before'))[0])).toBe('<text><head>Title of a&amp;b</head><div n="a&amp;b"><p/></div></text>');
+    const empty = '<text><div n="1" /></text>';
+    expect(applied(empty, fixesOf(empty, fix('first-child'))[0])).toBe('<text><div n="1"><head>Title of 1</head></div></text>');
+  });
+
+  it('replaces nodes with literal markup or selected source', () => {
+    const sch = sqf(`<rule context="hi">
+      <report test="@rend = 'italic'" sqf:fix="emph unwrap">use emph</report>
+      <sqf:fix id="emph"><sqf:description><sqf:title>Use &lt;emph&gt;</sqf:title></sqf:description>
+        <sqf:replace node-type="element" target="emph" select="node()"/></sqf:fix>
+      <sqf:fix id="unwrap"><sqf:replace select="node()"/></sqf:fix>
+    </rule>`);
+    const xml = '<p>a <hi rend="italic">b <lb/>c</hi></p>';
+    const [emph, unwrap] = fixesOf(xml, sch);
+    expect(emph.description).toBe('Use <emph>');
+    expect(applied(xml, emph)).toBe('<p>a <emph>b <lb/>c</emph></p>');
+    expect(applied(xml, unwrap)).toBe('<p>a b <lb/>c</p>');
+  });
+
+  it('replaces strings in the text below the matched node', () => {
+    const sch = sqf(`<rule context="p">
+      <report test="contains(., '  ')" sqf:fix="squash">double space</report>
+      <sqf:fix id="squash"><sqf:stringReplace regex=" {2,}"> </sqf:stringReplace></sqf:fix>
+    </rule>`);
+    const xml = '<p>a  b <hi>c   d</hi> e&amp;  f</p>';
+    expect(applied(xml, fixesOf(xml, sch)[0])).toBe('<p>a b <hi>c d</hi> e&amp; f</p>');
+  });
+
+  it('honours use-when and skips fixes whose edits overlap', () => {
+    const sch = sqf(`<rule context="chapter">
+      <assert test="@n" sqf:fix="only-first clash">unnumbered</assert>
+      <sqf:fix id="only-first" use-when="not(preceding-sibling::chapter)"><sqf:delete/></sqf:fix>
+      <sqf:fix id="clash"><sqf:delete/><sqf:add position="first-child">x</sqf:add></sqf:fix>
+    </rule>`);
+    const errors = validateSchematron('<book><chapter/><chapter/></book>', parseSchematron(sch, 's'));
+    expect(errors.map(e => e.fixes?.length ?? 0)).toEqual([1, 0]);
+    expect(errors[0].fixes![0].anchor).toEqual({ from: 6, to: 16, text: '<chapter/>' });
+  });
+});
@@ -9,10 +9,20 @@ import { describe, it, expect, vi, afterEach } from 'vitest';
 import { render, screen, fireEvent, cleanup, waitFor } from '@testing-library/react';
 import { SchematronSelector } from '../src/components/Toolbar/SchematronSelector';
 
+interface RulesetStub {
+  name: string;
+  testCount: number;
+  title?: string;
+  phases: { id: string }[];
+  defaultPhase: string | null;
+  activePhase: string | null;
+}
+
 const hooks = vi.hoisted(() => ({
-  schematron: null as null | { name: string; testCount: number; title?: string },
+  schematron: null as null | RulesetStub,
   loadSchematron: vi.fn(),
   clearSchematron: vi.fn(),
+  setSchematronPhase: vi.fn(),
 }));
 
 vi.mock('../src/store/useSchema', () => ({
@@ -20,6 +30,7 @@ vi.mock('../src/store/useSchema', () => ({
     schematron: hooks.schematron,
     loadSchematron: hooks.loadSchematron,
     clearSchematron: hooks.clearSchematron,
+    setSchematronPhase: hooks.setSchematronPhase,
   }),
 }));
 
@@ -28,6 +39,7 @@ afterEach(() => {
   hooks.schematron = null;
   hooks.loadSchematron.mockClear();
   hooks.clearSchematron.mockClear();
+  hooks.setSchematronPhase.mockClear();
 });
 
 describe('SchematronSelector (#U6)', () => {
@@ -41,7 +53,7 @@ describe('SchematronSelector (#U6)', () => {
   });
 
   it('shows the active ruleset name + ✕ and clears it on click', () => {
-    hooks.schematron = { name: 'house-rules', testCount: 12, title: 'House rules' };
+    hooks.schematron = { name: 'house-rules', testCount: 12, title: 'House rules', phases: [], defaultPhase: null, activePhase: null };
     render(<SchematronSelector />);
     const btn = screen.getByRole('button', { name: /Rules: house-rules ✕/ });
     expect(btn).toHaveClass('toolbar-btn-active');
@@ -65,6 +77,27 @@ describe('SchematronSelector (#U6)', () => {
     expect(input.value).toBe('');
   });
 
+  it('offers a phase picker only for rulesets with phases, starting at the default phase', () => {
+    hooks.schematron = { name: 'house-rules', testCount: 12, phases: [], defaultPhase: null, activePhase: null };
+    const { unmount } = render(<SchematronSelector />);
+    expect(screen.queryByRole('combobox')).toBeNull();
+    unmount();
+
+    hooks.schematron = {
+      name: 'house-rules',
+      testCount: 12,
+      phases: [{ id: 'draft' }, { id: 'final' }],
+      defaultPhase: 'draft',
+      activePhase: null,
+    };
+    render(<SchematronSelector />);
+    const select = screen.getByRole('combobox') as HTMLSelectElement;
+    expect(select.value).toBe('draft');
+    expect(Array.from(select.options).map((o) => o.textContent)).toEqual(['All phases', 'draft (default)', 'final']);
+    fireEvent.change(select, { target: { value: 'final' } });
+    expect(hooks.setSchematronPhase).toHaveBeenCalledWith('final');
+  });
+
   it('does nothing when the file picker is dismissed with no file', () => {
     render(<SchematronSelector />);
     const input = document.querySelector('input[type="file"]') as HTMLInputElement;
@@ -0,0 +1,210 @@
+/**
+ * Element commands: rename, unwrap, split, join and move the element at the
+ * cursor, each one undoable transaction.
+ */
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import { EditorState, EditorSelection, type StateCommand } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { history, undo } from '@codemirror/commands';
+import { xml } from '@codemirror/lang-xml';
+import { SchemaEngine } from '../src/schema/SchemaEngine';
+import { createTagSyncExtension } from '../src/components/Editor/tagSync';
+import {
+  elementAt,
+  joinElements,
+  moveElementDown,
+  moveElementUp,
+  parseElementRanges,
+  renameCandidatesAt,
+  renameElement,
+  splitElement,
+  unwrapElement,
+} from '../src/components/Editor/structuralCommands';
+import type { SchemaInfo } from '../src/types/schema';
+
+/** Run `command` with the cursor at the `|` in `doc`; the result with its cursor marked. */
+function run(command: StateCommand, doc: string): string | null {
+  const cursor = doc.indexOf('|');
+  let state = EditorState.create({ doc: doc.replace('|', ''), selection: EditorSelection.cursor(cursor) });
+  const done = command({ state, dispatch: tr => { state = tr.state; } });
+  if (!done) return null;
+  const head = state.selection.main.head;
+  return state.sliceDoc(0, head) + '|' + state.sliceDoc(head);
+}
+
+let view: EditorView | null = null;
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+describe('parseElementRanges / elementAt', () => {
+  it('nests elements and skips stray end tags', () => {
+    const [body] = parseElementRanges('<body><p>a<lb/></p></x><p>b</p></body>');
+    expect(body.children.map(el => el.name)).toEqual(['p', 'p']);
+    expect(body.children[0].children[0]).toMatchObject({ name: 'lb', closeFrom: null, from: 10, to: 15 });
+  });
+
+  it('finds the innermost element, tags included', () => {
+    const state = EditorState.create({ doc: '<p>a <hi>b</hi></p>' });
+    expect(elementAt(state, 0)?.name).toBe('p');
+    expect(elementAt(state, 7)?.name).toBe('hi');
+    expect(elementAt(state, 14)?.name).toBe('hi');
+    expect(elementAt(state, 15)?.name).toBe('p');
+    expect(elementAt(state, 19)).toBeNull();
+  });
+});
+
+describe('renameElement', () => {
+  it('renames both tags and keeps attributes', () => {
+    expect(run(renameElement('persName'), '<p><name ref="#a">Jo|hn</name></p>'))
+      .toBe('<p><persName ref="#a">Jo|hn</persName></p>');
+    expect(run(renameElement('pb'), '<p><lb n="1"|/></p>')).toBe('<p><pb n="1"|/></p>');
+    expect(run(renameElement('p'), '<p>|a</p>')).toBeNull();
+  });
+
+  it('is not doubled by tag sync when the cursor sits in the name', () => {
+    view = new EditorView({
+      state: EditorState.create({ doc: '<div><hi>x</hi></div>', selection: EditorSelection.cursor(7), extensions: [xml(), createTagSyncExtension()] }),
+      parent: document.body,
+    });
+    renameElement('emph')(view);
+    expect(view.state.doc.toString()).toBe('<div><emph>x</emph></div>');
+  });
+});
+
+describe('unwrapElement', () => {
+  it('removes the tags and keeps the content', () => {
+    expect(run(unwrapElement, '<p>a <hi rend="b">bo|ld</hi> c</p>')).toBe('<p>a bo|ld c</p>');
+    expect(run(unwrapElement, '<p>a<lb|/></p>')).toBeNull();
+  });
+});
+
+describe('splitElement', () => {
+  it('splits at the cursor and drops xml:id from the second half', () => {
+    expect(run(splitElement, '<p xml:id="p1" rend="x">one |two</p>'))
+      .toBe('<p xml:id="p1" rend="x">one </p><p rend="x">|two</p>');
+    expect(run(splitElement, '<div><p>a</p>|</div>')).toBe('<div><p>a</p></div><div>|</div>');
+  });
+
+  it('needs an element around the cursor', () => {
+    expect(run(splitElement, '|<p>a</p>')).toBeNull();
+  });
+
+  it('only splits at character data, never inside markup', () => {
+    expect(run(splitElement, '<p>aa<hi re|nd="x">b</hi>cc</p>')).toBeNull();
+    expect(run(splitElement, '<p>aa<hi rend="x|y">b</hi>cc</p>')).toBeNull();
+    expect(run(splitElement, '<p>aa<!-- x | y -->cc</p>')).toBeNull();
+    expect(run(splitElement, '<p>aa<?pi x| y?>cc</p>')).toBeNull();
+    expect(run(splitElement, '<p>aa<![CDATA[x| y]]>cc</p>')).toBeNull();
+    expect(run(splitElement, '<p>aa</h|i>cc</p>')).toBeNull();
+    expect(run(splitElement, '<p>a &am|p; b</p>')).toBeNull();
+    // Right after a child's end tag is the parent's content
+    expect(run(splitElement, '<p>aa<hi>b</hi>|cc</p>')).toBe('<p>aa<hi>b</hi></p><p>|cc</p>');
+    expect(run(splitElement, '<p>a &amp;| b</p>')).toBe('<p>a &amp;</p><p>| b</p>');
+  });
+});
+
+describe('joinElements', () => {
+  it('joins with the next same-name sibling, or else the previous one', () => {
+    expect(run(joinElements, '<div><p>o|ne</p>\n  <p>two</p></div>')).toBe('<div><p>one|two</p></div>');
+    expect(run(joinElements, '<div><p>one</p> <p>t|wo</p></div>')).toBe('<div><p>one|two</p></div>');
+  });
+
+  it('refuses different names or text in between', () => {
+    expect(run(joinElements, '<div><p>o|ne</p><ab>two</ab></div>')).toBeNull();
+    expect(run(joinElements, '<div><p>o|ne</p> x <p>two</p></div>')).toBeNull();
+  });
+});
+
+describe('moveElementUp / moveElementDown', () => {
+  const doc = '<div>\n  <p>one</p>\n  <p>t|wo</p>\n  <lg/>\n</div>';
+
+  it('swaps with the neighbouring element sibling and keeps the cursor in the element', () => {
+    expect(run(moveElementUp, doc)).toBe('<div>\n  <p>t|wo</p>\n  <p>one</p>\n  <lg/>\n</div>');
+    expect(run(moveElementDown, doc)).toBe('<div>\n  <p>one</p>\n  <lg/>\n  <p>t|wo</p>\n</div>');
+    expect(run(moveElementDown, '<div><p>a</p><p>|b</p></div>')).toBeNull();
+  });
+
+  it('is a single undo step', () => {
+    let state = EditorState.create({ doc: doc.replace('|', ''), selection: EditorSelection.cursor(doc.indexOf('|')), extensions: [history()] });
+    const dispatch = (tr: Parameters<Parameters<StateCommand>[0]['dispatch']>[0]) => { state = tr.state; };
+    moveElementUp({ state, dispatch });
+    undo({ state, dispatch });
+    expect(state.doc.toString()).toBe(doc.replace('|', ''));
+  });
+});
+
+describe('with tag sync loaded', () => {
+  /**
+   * `run` in a live view with the editor's tag sync; console errors
+   * collected. The view goes before it measures (jsdom has no layout).
+   */
+  function runInView(command: StateCommand, doc: string): { result: string; errors: unknown[][] } {
+    const errors: unknown[][] = [];
+    const spy = vi.spyOn(console, 'error').mockImplementation((...args) => { errors.push(args); });
+    try {
+      view = new EditorView({
+        state: EditorState.create({
+          doc: doc.replace('|', ''),
+          selection: EditorSelection.cursor(doc.indexOf('|')),
+          extensions: [xml(), createTagSyncExtension()],
+        }),
+        parent: document.body,
+      });
+      expect(command(view)).toBe(true);
+    } finally {
+      spy.mockRestore();
+    }
+    const { state } = view;
+    view.destroy();
+    view = null;
+    const head = state.selection.main.head;
+    return { result: state.sliceDoc(0, head) + '|' + state.sliceDoc(head), errors };
+  }
+
+  it('unwraps without the sync deleting other tags', () => {
+    expect(runInView(unwrapElement, '<p>a <hi rend="b">bo|ld</hi> c</p>'))
+      .toEqual({ result: '<p>a bo|ld c</p>', errors: [] });
+    expect(runInView(unwrapElement, '<d|iv><p>one</p><p>two</p></div>'))
+      .toEqual({ result: '|<p>one</p><p>two</p>', errors: [] });
+  });
+
+  it('joins, splits and moves with the document intact', () => {
+    expect(runInView(joinElements, '<div><p>o|ne</p><p>two</p></div>'))
+      .toEqual({ result: '<div><p>one|two</p></div>', errors: [] });
+    expect(runInView(splitElement, '<div><p>one |two</p></div>'))
+      .toEqual({ result: '<div><p>one </p><p>|two</p></div>', errors: [] });
+    expect(runInView(moveElementUp, '<div><p>one</p><p>t|wo</p></div>'))
+      .toEqual({ result: '<div><p>t|wo</p><p>one</p></div>', errors: [] });
+  });
+});
+
+describe('renameCandidatesAt', () => {
+  let schema: SchemaInfo;
+  beforeAll(async () => {
+    schema = await new SchemaEngine().loadCustomRng(`<?xml version="1.0"?>
+<grammar xmlns="http://relaxng.org/ns/structure/1.0">
+  <start><ref name="sp"/></start>
+  <define name="sp">
+    <element name="sp"><optional><ref name="speaker"/></optional><oneOrMore><choice><ref name="p"/><ref name="l"/></choice></oneOrMore></element>
+  </define>
+  <define name="speaker"><element name="speaker"><text/></element></define>
+  <define name="p"><element name="p"><text/></element></define>
+  <define name="l"><element name="l"><text/></element></define>
+</grammar>`, 'rename');
+  });
+
+  it("offers what the parent allows in the element's place", () => {
+    const state = EditorState.create({ doc: '<sp><speaker>A</speaker><p>x</p></sp>' });
+    const rename = renameCandidatesAt(schema, state, 27);
+    expect(rename?.element.name).toBe('p');
+    expect(rename?.candidates.map(c => c.name)).toEqual(['l']);
+    expect(renameCandidatesAt(schema, state, 40)).toBeNull();
+  });
+
+  it('offers nothing to pick without a schema, leaving the name to be typed', () => {
+    const state = EditorState.create({ doc: '<sp><p>x</p></sp>' });
+    expect(renameCandidatesAt(null, state, 5)).toMatchObject({ element: { name: 'p' }, candidates: [] });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tag display modes and element folding in the code editor. A real
+ * EditorView with the XML language renders the chips, so these check what
+ * the user sees; the document itself must never change.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { EditorState, EditorSelection } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { codeFolding, foldedRanges } from '@codemirror/language';
+import { xml } from '@codemirror/lang-xml';
+import { createTagDisplayExtension, tagDisplayModeEffect, tagsInRange } from '../src/components/Editor/tagDisplay';
+import { foldableElementsAt, foldElement } from '../src/components/Editor/elementFolding';
+
+let view: EditorView | null = null;
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+const DOC = '<p>Met <persName ref="#p1">Ann</persName> here.<lb/>Next <pb n="2"/>page</p>';
+
+function mount(doc: string, cursor = 0) {
+  view = new EditorView({
+    state: EditorState.create({
+      doc,
+      selection: EditorSelection.cursor(cursor),
+      extensions: [xml(), codeFolding(), createTagDisplayExtension()],
+    }),
+    parent: document.body,
+  });
+  return view;
+}
+
+const chips = () => [...view!.contentDOM.querySelectorAll('.cm-tag-chip')].map(c => c.textContent);
+
+describe('tagsInRange', () => {
+  it('lists complete tags with their names', () => {
+    const state = EditorState.create({ doc: DOC + '<hi', extensions: [xml()] });
+    expect(tagsInRange(state, 0, state.doc.length).map(t => `${t.kind}:${t.name}`)).toEqual([
+      'open:p', 'open:persName', 'close:persName', 'empty:lb', 'empty:pb', 'close:p',
+    ]);
+  });
+});
+
+describe('tag display modes', () => {
+  it('shows the source as written in full mode', () => {
+    mount(DOC);
+    expect(chips()).toEqual([]);
+    expect(view!.contentDOM.textContent).toBe(DOC);
+  });
+
+  it('replaces tags with name chips, keeping the full tag as the tooltip', () => {
+    mount(DOC);
+    view!.dispatch({ effects: tagDisplayModeEffect('short') });
+    expect(chips()).toEqual(['p', 'persName', '/persName', 'lb', 'pb', '/p']);
+    expect(view!.contentDOM.textContent).toBe('pMet persNameAnn/persName here.lbNext pbpage/p');
+    expect(view!.contentDOM.querySelector('.cm-tag-chip-empty[title="<pb n=\\"2\\"/>"]')).toBeTruthy();
+    expect(view!.state.doc.toString()).toBe(DOC);
+  });
+
+  it('shows markers only in hidden mode and goes back to full', () => {
+    mount(DOC);
+    view!.dispatch({ effects: tagDisplayModeEffect('hidden') });
+    expect(chips()).toEqual(['‹', '‹', '›', '◆', '◆', '›']);
+    view!.dispatch({ effects: tagDisplayModeEffect('full') });
+    expect(chips()).toEqual([]);
+  });
+
+  it('leaves the tag the cursor is in, and tags over several lines, as written', () => {
+    mount('<p>a <hi\n  rend="b">x</hi> <persName>Ann</persName></p>', 0);
+    view!.dispatch({ effects: tagDisplayModeEffect('short'), selection: { anchor: 2 } });
+    expect(chips()).toEqual(['/hi', 'persName', '/persName', '/p']);
+  });
+});
+
+describe('foldElement', () => {
+  const doc = '<text>\n<body>\n<p>one\n<hi>two</hi>\nthree</p>\n</body>\n</text>';
+
+  it('folds the element around the cursor, then each enclosing one', () => {
+    mount(doc, doc.indexOf('two'));
+    // <hi> is on one line: the innermost foldable element is <p>
+    expect(foldableElementsAt(view!.state, view!.state.selection.main.head).map(f => f.name)).toEqual(['p', 'body', 'text']);
+
+    expect(foldElement(view!)).toBe(true);
+    expect(foldElement(view!)).toBe(true);
+    const folded: string[] = [];
+    foldedRanges(view!.state).between(0, doc.length, (from, to) => {
+      folded.push(view!.state.sliceDoc(from, to));
+    });
+    // The <p> fold stays inside the <body> one
+    expect(folded).toEqual(['\n<p>one\n<hi>two</hi>\nthree</p>\n', 'one\n<hi>two</hi>\nthree']);
+  });
+
+  it('does nothing outside a multi-line element', () => {
+    mount('<p>one</p>', 4);
+    expect(foldElement(view!)).toBe(false);
+  });
+});
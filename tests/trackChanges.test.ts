@@ -0,0 +1,224 @@
+/**
+ * Track changes: edits recorded as insertions and deletions with author
+ * and time, extended by consecutive typing, accepted or rejected one by one
+ * or all at once, undone together with the text, written into the document
+ * as TEI <add>/<del> — and kept in a workspace sidecar.
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { EditorState, EditorSelection } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { history, undo, redo } from '@codemirror/commands';
+import {
+  acceptChanges,
+  createTrackChangesExtension,
+  getTracking,
+  rejectChanges,
+  restoreTracking,
+  teiChangesSpec,
+  toggleTrackChanges,
+  trackAuthorEffect,
+} from '../src/components/Editor/trackChanges';
+import { parseSidecar, serializeSidecar, sidecarPath } from '../src/file/trackChangesSidecar';
+import { checkReferenceIntegrity } from '../src/schema/referenceIntegrity';
+
+let view: EditorView | null = null;
+afterEach(() => {
+  view?.destroy();
+  view = null;
+});
+
+/** An editor with tracking on, recording for `author`. */
+function mount(doc: string, author = 'Ann') {
+  view = new EditorView({
+    state: EditorState.create({ doc, extensions: [history(), createTrackChangesExtension()] }),
+    parent: document.body,
+  });
+  view.dispatch({ effects: trackAuthorEffect(author) });
+  toggleTrackChanges(view);
+  return view;
+}
+
+const type = (v: EditorView, at: number, text: string) => v.dispatch({ changes: { from: at, insert: text }, selection: EditorSelection.cursor(at + text.length) });
+const remove = (v: EditorView, from: number, to: number) => v.dispatch({ changes: { from, to } });
+const summary = (v: EditorView) => getTracking(v.state).changes.map(c => (
+  c.kind === 'insertion' ? `+${v.state.sliceDoc(c.from, c.to)}@${c.from}` : `-${c.text}@${c.from}`
+));
+
+const DOC = '<TEI><text><p>Arma virumque cano</p></text></TEI>';
+const at = (text: string) => DOC.indexOf(text);
+
+describe('recording', () => {
+  it('records typing as one insertion per run, with author and time', () => {
+    const v = mount(DOC);
+    const pos = at(' cano');
+    type(v, pos, ' ');
+    type(v, pos + 1, 'et');
+    expect(summary(v)).toEqual([`+ et@${pos}`]);
+    const [change] = getTracking(v.state).changes;
+    expect(change.author).toBe('Ann');
+    expect(change.timestamp).toBeGreaterThan(0);
+  });
+
+  it('keeps deleted text out of the document, extending by backspace and delete', () => {
+    const v = mount(DOC);
+    const pos = at('virumque');
+    // Backspace twice from the end of "virumque", then delete forward
+    remove(v, pos + 7, pos + 8);
+    remove(v, pos + 6, pos + 7);
+    remove(v, pos + 6, pos + 7);
+    expect(v.state.doc.toString()).toBe(DOC.replace('virumque cano', 'virumqcano'));
+    expect(summary(v)).toEqual([`-ue @${pos + 6}`]);
+  });
+
+  it('takes pending inserted text out again instead of recording a deletion', () => {
+    const v = mount(DOC);
+    const pos = at(' cano');
+    type(v, pos, ' et');
+    remove(v, pos + 1, pos + 3);
+    expect(summary(v)).toEqual([`+ @${pos}`]);
+    remove(v, pos, pos + 1);
+    expect(summary(v)).toEqual([]);
+    expect(v.state.doc.toString()).toBe(DOC);
+  });
+
+  it('records a replacement as a deletion followed by an insertion', () => {
+    const v = mount(DOC);
+    const pos = at('cano');
+    v.dispatch({ changes: { from: pos, to: pos + 4, insert: 'canto' } });
+    expect(summary(v)).toEqual([`-cano@${pos}`, `+canto@${pos}`]);
+  });
+
+  it('records nothing while off, but keeps positions up to date', () => {
+    const v = mount(DOC);
+    type(v, at('cano'), 'X');
+    toggleTrackChanges(v);
+    type(v, 0, '<?xml version="1.0"?>');
+    expect(summary(v)).toEqual([`+X@${at('cano') + 21}`]);
+  });
+
+  it('separates authors', () => {
+    const v = mount(DOC);
+    const pos = at('</p>');
+    type(v, pos, ' I');
+    v.dispatch({ effects: trackAuthorEffect('Bo') });
+    type(v, pos + 2, 'I');
+    expect(getTracking(v.state).changes.map(c => c.author)).toEqual(['Ann', 'Bo']);
+  });
+});
+
+describe('review', () => {
+  it('accepts and rejects single changes and all of them', () => {
+    const v = mount(DOC);
+    remove(v, at(' cano'), at(' cano') + 5);
+    type(v, at('Arma'), 'Ecce ');
+    const [insertion, deletion] = getTracking(v.state).changes;
+    expect(insertion.kind).toBe('insertion');
+
+    acceptChanges(new Set([insertion.id]))(v);
+    expect(v.state.doc.toString()).toBe('<TEI><text><p>Ecce Arma virumque</p></text></TEI>');
+    rejectChanges(new Set([deletion.id]))(v);
+    expect(v.state.doc.toString()).toBe('<TEI><text><p>Ecce Arma virumque cano</p></text></TEI>');
+    expect(getTracking(v.state).changes).toEqual([]);
+    expect(rejectChanges()(v)).toBe(false);
+
+    type(v, 0, '<!-- x -->');
+    const cano = v.state.doc.toString().indexOf(' cano');
+    remove(v, cano, cano + 5);
+    expect(getTracking(v.state).changes).toHaveLength(2);
+    rejectChanges()(v);
+    expect(v.state.doc.toString()).toBe('<TEI><text><p>Ecce Arma virumque cano</p></text></TEI>');
+  });
+
+  it('undoes edits and review actions together with their tracking', () => {
+    const v = mount(DOC);
+    type(v, at('</p>'), '!');
+    const recorded = summary(v);
+    rejectChanges()(v);
+    expect(summary(v)).toEqual([]);
+    undo(v);
+    expect(summary(v)).toEqual(recorded);
+    undo(v);
+    expect(summary(v)).toEqual([]);
+    expect(v.state.doc.toString()).toBe(DOC);
+    redo(v);
+    expect(summary(v)).toEqual(recorded);
+  });
+
+  it('restores saved state, dropping changes that no longer fit', () => {
+    const v = mount('<p>short</p>');
+    const change = { id: 'x', author: 'Ann', timestamp: 1, text: '' };
+    v.dispatch({ effects: restoreTracking.of({ enabled: false, changes: [
+      { ...change, kind: 'insertion', from: 3, to: 8 },
+      { ...change, id: 'y', kind: 'insertion', from: 3, to: 99 },
+    ] }) });
+    expect(getTracking(v.state)).toMatchObject({ enabled: false, changes: [{ id: 'x' }] });
+  });
+});
+
+describe('teiChangesSpec', () => {
+  it('writes changes as <add>/<del> with @resp and @when', () => {
+    const v = mount(DOC, 'Jane Doe');
+    const pos = at('cano');
+    v.dispatch({ changes: { from: pos, to: pos + 4, insert: 'canto' } });
+    const { spec, written, skipped } = teiChangesSpec(v.state);
+    expect([written, skipped]).toEqual([2, 0]);
+    v.dispatch(spec!);
+    expect(v.state.doc.toString()).toMatch(
+      /<p>Arma virumque <del resp="#Jane_Doe" when="\d{4}-\d\d-\d\dT\d\d:\d\d:\d\dZ">cano<\/del><add resp="#Jane_Doe" when="[^"]+">canto<\/add><\/p>/,
+    );
+    expect(getTracking(v.state).changes).toEqual([]);
+  });
+
+  it('declares the author in titleStmt, so @resp points at something', () => {
+    const doc = [
+      '<TEI>',
+      '  <teiHeader>',
+      '    <fileDesc>',
+      '      <titleStmt>',
+      '        <title>Aeneid</title>',
+      '      </titleStmt>',
+      '    </fileDesc>',
+      '  </teiHeader>',
+      '  <text><p>Arma virumque cano</p></text>',
+      '</TEI>',
+    ].join('\n');
+    const v = mount(doc, 'Jane Doe');
+    type(v, doc.indexOf(' cano'), ' et');
+    v.dispatch(teiChangesSpec(v.state).spec!);
+    expect(v.state.doc.toString()).toContain([
+      '        <title>Aeneid</title>',
+      '        <respStmt xml:id="Jane_Doe">',
+      '          <resp>revised by</resp>',
+      '          <name>Jane Doe</name>',
+      '        </respStmt>',
+      '      </titleStmt>',
+    ].join('\n'));
+    expect(checkReferenceIntegrity(v.state.doc.toString())).toEqual([]);
+
+    // Declared once: the next written change reuses it
+    type(v, v.state.doc.toString().indexOf(' cano'), '!');
+    v.dispatch(teiChangesSpec(v.state).spec!);
+    expect(v.state.doc.toString().match(/<respStmt/g)).toHaveLength(1);
+  });
+
+  it('leaves changes pending where the markup does not allow them', () => {
+    const v = mount(DOC);
+    // Inside a start tag, and cutting a tag in half
+    type(v, at('<p>') + 2, ' n="1"');
+    remove(v, at('</p>') + 6, at('</p>') + 13);
+    const { written, skipped } = teiChangesSpec(v.state);
+    expect([written, skipped]).toEqual([0, 2]);
+  });
+});
+
+describe('sidecar', () => {
+  it('round-trips for the same text only', () => {
+    const content = '<p>text</p>';
+    const tracking = { enabled: true, changes: [{ id: 'a', kind: 'deletion' as const, from: 3, to: 3, text: 'old ', author: 'Ann', timestamp: 5 }] };
+    const json = serializeSidecar(content, tracking);
+    expect(parseSidecar(json, content)).toEqual(tracking);
+    expect(parseSidecar(json, '<p>other</p>')).toBeNull();
+    expect(parseSidecar('{"version":1', content)).toBeNull();
+    expect(sidecarPath('letters/1.xml')).toBe('letters/1.xml.changes.json');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Validation service tests (worker pool + per-document lanes).
+ *
+ * jsdom has no Worker, so the pool is driven through an in-process fake
+ * that runs the REAL worker handler (validationWorkerCore) asynchronously —
+ * the same code the browser worker executes, minus the thread.
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ValidationService, type ValidationWorkerLike } from '../src/schema/validationService';
+import { createValidationWorkerHandler, type ValidationWorkerRequest } from '../src/schema/validationWorkerCore';
+import { validateXml } from '../src/schema/xmlValidator';
+import { parseSchematron } from '../src/schema/schematron';
+import { schemaEngine } from '../src/schema/SchemaEngine';
+import type { SchemaInfo } from '../src/types/schema';
+
+class FakeWorker implements ValidationWorkerLike {
+  onmessage: ValidationWorkerLike['onmessage'] = null;
+  onerror: ValidationWorkerLike['onerror'] = null;
+  received: ValidationWorkerRequest[] = [];
+  terminated = false;
+  private handle = createValidationWorkerHandler();
+
+  constructor(private failOnValidate = false) {}
+
+  postMessage(msg: ValidationWorkerRequest): void {
+    this.received.push(msg);
+    setTimeout(() => {
+      if (this.failOnValidate && msg.type === 'validate') {
+        this.onerror?.(new Error('boom'));
+        return;
+      }
+      const response = this.handle(msg);
+      if (response) this.onmessage?.({ data: response });
+    }, 0);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+const INVALID_TEI = `<?xml version="1.0"?>
+<TEI xmlns="http://www.tei-c.org/ns/1.0">
+  <text><body><nosuchelement>x</nosuchelement></body></text>
+</TEI>`;
+
+let teiLite: SchemaInfo;
+beforeAll(async () => {
+  teiLite = await schemaEngine.loadBuiltin('tei_lite');
+});
+
+describe('ValidationService', () => {
+  it('matches validateXml on the inline fallback (no Worker)', async () => {
+    const service = new ValidationService(null);
+    expect(service.usesWorkers).toBe(false);
+    expect(await service.validate('doc', INVALID_TEI, teiLite)).toEqual(validateXml(INVALID_TEI, teiLite));
+  });
+
+  it('matches validateXml through the worker and registers each schema once', async () => {
+    const workers: FakeWorker[] = [];
+    const service = new ValidationService(() => {
+      const w = new FakeWorker();
+      workers.push(w);
+      return w;
+    }, 1);
+
+    expect(await service.validate('doc', INVALID_TEI, teiLite)).toEqual(validateXml(INVALID_TEI, teiLite));
+    await service.validate('doc', INVALID_TEI.replace('x', 'y'), teiLite);
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].received.map(m => m.type)).toEqual(['register-schema', 'validate', 'validate']);
+  });
+
+  it('answers malformed documents on the main thread without a worker round-trip', async () => {
+    const worker = new FakeWorker();
+    const service = new ValidationService(() => worker, 1);
+
+    const errors = await service.validate('doc', '<TEI><p></TEI>', teiLite);
+
+    expect(errors?.length).toBeGreaterThan(0);
+    expect(worker.received).toHaveLength(0);
+  });
+
+  it('resolves superseded snapshots of the same document as null', async () => {
+    const service = new ValidationService(() => new FakeWorker(), 1);
+
+    const results = await Promise.all([
+      service.validate('doc', INVALID_TEI, teiLite), // running when overtaken
+      service.validate('doc', INVALID_TEI, teiLite), // queued, replaced
+      service.validate('doc', INVALID_TEI, teiLite), // newest
+    ]);
+
+    expect(results[0]).toBeNull();
+    expect(results[1]).toBeNull();
+    expect(results[2]).toEqual(validateXml(INVALID_TEI, teiLite));
+  });
+
+  it('never cancels across documents', async () => {
+    const service = new ValidationService(() => new FakeWorker(), 2);
+
+    const [a, b] = await Promise.all([
+      service.validate('a', INVALID_TEI, teiLite),
+      service.validate('b', INVALID_TEI, teiLite),
+    ]);
+
+    expect(a).not.toBeNull();
+    expect(b).not.toBeNull();
+  });
+
+  it('falls back to inline validation when a worker fails', async () => {
+    const worker = new FakeWorker(true);
+    const service = new ValidationService(() => worker, 1);
+
+    const errors = await service.validate('doc', INVALID_TEI, teiLite);
+
+    expect(errors).toEqual(validateXml(INVALID_TEI, teiLite));
+    expect(worker.terminated).toBe(true);
+    expect(service.usesWorkers).toBe(false);
+  });
+
+  it('layers Schematron diagnostics after the schema pass', async () => {
+    const sch = parseSchematron(
+      `<schema xmlns="http://purl.oclc.org/dsdl/schematron"><pattern>
+        <rule context="chapter"><assert test="@title">chapter needs title</assert></rule>
+      </pattern></schema>`,
+      'rules',
+    );
+    const worker = new FakeWorker();
+    const service = new ValidationService(() => worker, 1);
+
+    const errors = await service.validate('doc', '<book>\n<chapter/>\n</book>', null, sch);
+
+    expect(errors?.find(e => e.message.includes('[Schematron] chapter needs title'))?.line).toBe(2);
+    expect(worker.received.map(m => m.type)).toEqual(['register-schematron', 'validate']);
+  });
+
+  it('unregisters a ruleset once no document validates with it', async () => {
+    const rules = (test: string) => parseSchematron(
+      `<schema xmlns="http://purl.oclc.org/dsdl/schematron"><pattern>
+        <rule context="chapter"><assert test="${test}">chapter needs ${test}</assert></rule>
+      </pattern></schema>`,
+      'rules',
+    );
+    const [shared, replaced, next] = [rules('@title'), rules('@n'), rules('@type')];
+    const worker = new FakeWorker();
+    const service = new ValidationService(() => worker, 1);
+    const doc = '<book><chapter/></book>';
+
+    await service.validate('a', doc, null, shared);
+    await service.validate('b', doc, null, shared);
+    await service.validate('a', doc, null, replaced);
+    // b still uses the shared ruleset
+    expect(worker.received.map(m => m.type)).not.toContain('unregister-schematron');
+
+    const errors = await service.validate('a', doc, null, next);
+    await service.validate('b', doc, null, null);
+
+    expect(errors?.map(e => e.message)).toEqual(['[Schematron] chapter needs @type']);
+    const dropped = worker.received.flatMap(m => (m.type === 'unregister-schematron' ? [m.id] : []));
+    const registered = new Map(worker.received.flatMap(m => (m.type === 'register-schematron' ? [[m.schematron, m.id] as const] : [])));
+    expect(dropped).toEqual([registered.get(replaced), registered.get(shared)]);
+  });
+
+  it('terminates a worker left with only superseded work', async () => {
+    const workers: FakeWorker[] = [];
+    const service = new ValidationService(() => {
+      const w = new FakeWorker();
+      workers.push(w);
+      return w;
+    }, 1);
+
+    const stale = service.validate('doc', INVALID_TEI, teiLite);
+    await Promise.resolve(); // let the first snapshot reach the worker
+    const fresh = service.validate('doc', INVALID_TEI.replace('x', 'y'), teiLite);
+
+    expect(await stale).toBeNull();
+    expect(await fresh).toEqual(validateXml(INVALID_TEI.replace('x', 'y'), teiLite));
+    expect(workers).toHaveLength(2);
+    expect(workers[0].terminated).toBe(true);
+    expect(workers[1].received.map(m => m.type)).toEqual(['register-schema', 'validate']);
+  });
+
+  it('ignores the answer to a superseded job by request id on a shared worker', async () => {
+    const workers: FakeWorker[] = [];
+    const service = new ValidationService(() => {
+      const w = new FakeWorker();
+      workers.push(w);
+      return w;
+    }, 1);
+
+    const stale = service.validate('a', INVALID_TEI, teiLite);
+    const other = service.validate('b', INVALID_TEI, teiLite);
+    await Promise.resolve();
+    const fresh = service.validate('a', INVALID_TEI.replace('x', 'y'), teiLite);
+
+    expect(await stale).toBeNull();
+    expect(await other).toEqual(validateXml(INVALID_TEI, teiLite));
+    expect(await fresh).toEqual(validateXml(INVALID_TEI.replace('x', 'y'), teiLite));
+    // The worker still had lane b's job, so it was kept
+    expect(workers).toHaveLength(1);
+    expect(workers[0].received.filter(m => m.type === 'validate')).toHaveLength(3);
+  });
+});
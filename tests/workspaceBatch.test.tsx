@@ -52,12 +52,12 @@ describe('workspace batch reset (#2/#12)', () => {
 
   it('openWorkspace clears the previous workspace results before loading the new tree', async () => {
     fsa.openDirectory.mockResolvedValue({ handle: {}, name: 'new-project' });
-    fsa.buildFileTree.mockResolvedValue({
+    fsa.buildFileTree.mockResolvedValue([{
       name: 'new-project',
       type: 'directory',
       path: 'new-project',
       children: [],
-    });
+    }]);
 
     const { result } = renderWorkspace();
     act(() => result.current.finishBatch(SAMPLE_RESULTS));
@@ -0,0 +1,253 @@
+/**
+ * Workspace file operations: create, rename, move, duplicate and delete
+ * through the directory handle, the tree edited in place, open tabs
+ * following their files (or closing with them), and sidecars kept along.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, cleanup, renderHook } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { WorkspaceProvider } from '../src/store/WorkspaceContext';
+import { EditorProvider } from '../src/store/EditorContext';
+import { useWorkspace } from '../src/store/useWorkspace';
+import { useEditor } from '../src/store/useEditor';
+import { useWorkspaceFileOps } from '../src/hooks/useWorkspaceFileOps';
+import { copyName, insertTreeNode, rebasePath, removeTreeNode } from '../src/file/fileTreeEdit';
+import type { FileTreeNode } from '../src/types/workspace';
+
+const fsa = vi.hoisted(() => ({ openDirectory: vi.fn() }));
+vi.mock('../src/file/fileSystemAccess', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/file/fileSystemAccess')>()),
+  openDirectory: fsa.openDirectory,
+}));
+
+const history = vi.hoisted(() => ({ moveFileHistory: vi.fn(), deleteFileHistory: vi.fn() }));
+vi.mock('../src/file/revisionHistory', () => history);
+
+/**
+ * A folder in memory: file contents by name, or nested folders. Names are
+ * looked up case-insensitively, as on the Windows and macOS file systems.
+ */
+interface Folder { [name: string]: string | Folder }
+
+/** The name `key` has in `folder`, whatever its case; `key` itself when absent. */
+const stored = (folder: Folder, key: string) => Object.keys(folder).find(k => k.toLowerCase() === key.toLowerCase()) ?? key;
+
+const notFound = (name: string) => new DOMException(name, 'NotFoundError');
+
+function fileHandle(parent: Folder, name: string): FileSystemFileHandle {
+  return {
+    kind: 'file',
+    name,
+    getFile: async () => ({ text: async () => parent[name] as string }),
+    createWritable: async () => {
+      let data = '';
+      return {
+        write: async (chunk: string | { text(): Promise<string> }) => {
+          data = typeof chunk === 'string' ? chunk : await chunk.text();
+        },
+        close: async () => {
+          parent[name] = data;
+        },
+      };
+    },
+  } as unknown as FileSystemFileHandle;
+}
+
+function folderHandle(folder: Folder, name = 'project'): FileSystemDirectoryHandle {
+  return {
+    kind: 'directory',
+    name,
+    keys: async function* () {
+      yield* Object.keys(folder);
+    },
+    entries: async function* () {
+      for (const [key, entry] of Object.entries(folder)) {
+        yield [key, typeof entry === 'string' ? fileHandle(folder, key) : folderHandle(entry, key)];
+      }
+    },
+    getFileHandle: async (name: string, options?: { create?: boolean }) => {
+      const key = stored(folder, name);
+      if (!(key in folder)) {
+        if (!options?.create) throw notFound(key);
+        folder[key] = '';
+      }
+      if (typeof folder[key] !== 'string') throw new DOMException(key, 'TypeMismatchError');
+      return fileHandle(folder, key);
+    },
+    getDirectoryHandle: async (name: string, options?: { create?: boolean }) => {
+      const key = stored(folder, name);
+      if (!(key in folder)) {
+        if (!options?.create) throw notFound(key);
+        folder[key] = {};
+      }
+      const entry = folder[key];
+      if (typeof entry === 'string') throw new DOMException(key, 'TypeMismatchError');
+      return folderHandle(entry, key);
+    },
+    removeEntry: async (name: string) => {
+      const key = stored(folder, name);
+      if (!(key in folder)) throw notFound(key);
+      delete folder[key];
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+async function openProject(disk: Folder) {
+  fsa.openDirectory.mockResolvedValue({ handle: folderHandle(disk), name: 'project' });
+  const hook = renderHook(
+    () => ({ ops: useWorkspaceFileOps(), workspace: useWorkspace(), editor: useEditor() }),
+    {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <WorkspaceProvider>
+          <EditorProvider>{children}</EditorProvider>
+        </WorkspaceProvider>
+      ),
+    },
+  );
+  await act(async () => {
+    await hook.result.current.workspace.openWorkspace();
+  });
+  return hook;
+}
+
+/** Paths in the tree, depth first. */
+const treePaths = (nodes: FileTreeNode[]): string[] => nodes.flatMap(n => [n.path, ...treePaths(n.children ?? [])]);
+
+afterEach(() => {
+  cleanup();
+  fsa.openDirectory.mockReset();
+  history.moveFileHistory.mockReset();
+  history.deleteFileHistory.mockReset();
+});
+
+describe('useWorkspaceFileOps', () => {
+  it('creates files from content and folders, and opens the new file', async () => {
+    const disk: Folder = { letters: { 'a.xml': '<a/>' } };
+    const { result } = await openProject(disk);
+    await act(async () => {
+      await result.current.ops.createFile('letters', 'b.xml', '<b/>');
+      await result.current.ops.createFolder('', 'drafts');
+    });
+    expect(disk).toEqual({ letters: { 'a.xml': '<a/>', 'b.xml': '<b/>' }, drafts: {} });
+    expect(treePaths(result.current.workspace.state.fileTree)).toEqual(['drafts', 'letters', 'letters/a.xml', 'letters/b.xml']);
+    expect(result.current.editor.getActiveDocument()).toMatchObject({ fileName: 'b.xml', filePath: 'letters/b.xml', content: '<b/>' });
+    await expect(result.current.ops.createFile('letters', 'a.xml', '')).rejects.toThrow('already exists');
+  });
+
+  it('renames an open file with its sidecar, and moves folders with their tabs', async () => {
+    const disk: Folder = { letters: { 'a.xml': '<a/>', 'a.xml.changes.json': '{}' }, archive: { 'old.xml': '<o/>' } };
+    const { result } = await openProject(disk);
+    const find = (path: string) => result.current.workspace.findFileNode(path)!;
+    act(() => result.current.editor.openFileAsTab('<a/>', 'a.xml', find('letters/a.xml').handle as FileSystemFileHandle, 'letters/a.xml'));
+
+    await act(async () => {
+      await result.current.ops.rename(find('letters/a.xml'), 'b.xml');
+    });
+    expect(disk.letters).toEqual({ 'b.xml': '<a/>', 'b.xml.changes.json': '{}' });
+    expect(result.current.editor.getActiveDocument()).toMatchObject({ fileName: 'b.xml', filePath: 'letters/b.xml' });
+
+    await act(async () => {
+      expect(await result.current.ops.move(find('letters'), 'archive')).toBe(true);
+    });
+    expect(Object.keys(disk)).toEqual(['archive']);
+    expect(treePaths(result.current.workspace.state.fileTree)).toEqual([
+      'archive', 'archive/letters', 'archive/letters/b.xml', 'archive/old.xml',
+    ]);
+    expect(result.current.editor.getActiveDocument()?.filePath).toBe('archive/letters/b.xml');
+    expect(history.moveFileHistory.mock.calls).toEqual([
+      ['project', 'letters/a.xml', 'letters/b.xml'],
+      ['project', 'letters', 'archive/letters'],
+    ]);
+    await expect(result.current.ops.move(find('archive'), 'archive/letters')).rejects.toThrow('into itself');
+  });
+
+  it('renames a file to another case without losing it', async () => {
+    const disk: Folder = { 'letter.xml': '<a/>' };
+    const { result } = await openProject(disk);
+    expect(result.current.ops.nameError('', 'Letter.xml', 'file', 'letter.xml')).toBeNull();
+    await act(async () => {
+      await result.current.ops.rename(result.current.workspace.findFileNode('letter.xml')!, 'Letter.xml');
+    });
+    expect(disk).toEqual({ 'Letter.xml': '<a/>' });
+    expect(treePaths(result.current.workspace.state.fileTree)).toEqual(['Letter.xml']);
+  });
+
+  it('reports a sidecar that could not be moved', async () => {
+    // A stale sidecar where the moved one should go
+    const disk: Folder = { 'a.xml': '<a/>', 'a.xml.changes.json': '{}', 'b.xml.changes.json': '{}' };
+    const { result } = await openProject(disk);
+    await act(async () => {
+      await expect(result.current.ops.rename(result.current.workspace.findFileNode('a.xml')!, 'b.xml'))
+        .rejects.toThrow('"b.xml.changes.json" already exists');
+    });
+    expect(disk['b.xml']).toBe('<a/>');
+    expect(result.current.workspace.findFileNode('b.xml')).not.toBeNull();
+  });
+
+  it('duplicates next to the original', async () => {
+    const disk: Folder = { 'a.xml': '<a/>', 'a copy.xml': '<c/>' };
+    const { result } = await openProject(disk);
+    await act(async () => {
+      await result.current.ops.duplicate(result.current.workspace.findFileNode('a.xml')!);
+    });
+    expect(disk['a copy 2.xml']).toBe('<a/>');
+    expect(result.current.workspace.findFileNode('a copy 2.xml')).not.toBeNull();
+  });
+
+  it('closes the tabs of deleted files, keeping unsaved ones detached', async () => {
+    const disk: Folder = { letters: { 'a.xml': '<a/>', 'b.xml': '<b/>' } };
+    const { result } = await openProject(disk);
+    const find = (path: string) => result.current.workspace.findFileNode(path)!;
+    act(() => {
+      result.current.editor.openFileAsTab('<a/>', 'a.xml', find('letters/a.xml').handle as FileSystemFileHandle, 'letters/a.xml');
+      result.current.editor.openFileAsTab('<b/>', 'b.xml', find('letters/b.xml').handle as FileSystemFileHandle, 'letters/b.xml');
+    });
+    const edited = result.current.editor.getActiveDocument()!;
+    act(() => result.current.editor.updateTabContent(edited.id, '<b>edited</b>'));
+
+    await act(async () => {
+      await result.current.ops.remove(find('letters'));
+    });
+    expect(disk).toEqual({});
+    expect(result.current.workspace.state.fileTree).toEqual([]);
+    expect(history.deleteFileHistory).toHaveBeenCalledWith('project', 'letters');
+    const { openDocuments } = result.current.editor.multiTabState;
+    expect(openDocuments.some(d => d.fileName === 'a.xml')).toBe(false);
+    expect(openDocuments.find(d => d.id === edited.id)).toMatchObject({
+      fileName: 'b.xml', filePath: null, fileHandle: null, isDirty: true,
+    });
+  });
+
+  it('checks names against the folder', async () => {
+    const { result } = await openProject({ 'a.xml': '' });
+    const { nameError } = result.current.ops;
+    expect(nameError('', 'a.xml', 'file')).toMatch('already exists');
+    expect(nameError('', 'A.XML', 'file')).toMatch('already exists');
+    expect(nameError('', 'a.xml', 'file', 'a.xml')).toBeNull();
+    expect(nameError('', 'notes.txt', 'file')).toMatch('extensions');
+    expect(nameError('', 'a/b', 'directory')).toMatch('cannot contain');
+    expect(nameError('', '.hidden', 'directory')).toMatch('dot');
+  });
+});
+
+describe('fileTreeEdit', () => {
+  const file = (path: string): FileTreeNode => ({ name: path.split('/').pop()!, path, type: 'file', handle: {} as FileSystemHandle });
+
+  it('keeps the tree sorted and expands the folder an entry goes into', () => {
+    const tree: FileTreeNode[] = [
+      { name: 'd', path: 'd', type: 'directory', handle: {} as FileSystemHandle, children: [file('d/b.xml')], isExpanded: false },
+      file('z.xml'),
+    ];
+    const added = insertTreeNode(tree, 'd', file('d/a.xml'));
+    expect(added[0]).toMatchObject({ isExpanded: true, children: [{ path: 'd/a.xml' }, { path: 'd/b.xml' }] });
+    expect(insertTreeNode(tree, '', file('a.xml')).map(n => n.path)).toEqual(['d', 'a.xml', 'z.xml']);
+    expect(removeTreeNode(added, 'd/b.xml')[0].children!.map(n => n.path)).toEqual(['d/a.xml']);
+  });
+
+  it('names copies and rebases paths', () => {
+    expect(copyName('a.xml', new Set())).toBe('a copy.xml');
+    expect(copyName('notes', new Set(['notes copy']))).toBe('notes copy 2');
+    expect(rebasePath('letters/a.xml', 'letters', 'archive/letters')).toBe('archive/letters/a.xml');
+    expect(rebasePath('letters2/a.xml', 'letters', 'x')).toBe('letters2/a.xml');
+  });
+});
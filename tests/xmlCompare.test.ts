@@ -0,0 +1,95 @@
+/**
+ * Structural compare: elements matched by xml:id or path, attribute changes
+ * reported apart from text changes, whitespace-only differences optionally
+ * ignored — and merging the hunks back hunk by hunk.
+ */
+import { describe, it, expect } from 'vitest';
+import { compareXml, mergeXml, type CompareHunk, type HunkChoice } from '../src/components/Compare/xmlCompare';
+
+const allFrom = (hunks: CompareHunk[], choice: HunkChoice) => new Map(hunks.map(h => [h.id, choice]));
+
+const LEFT = `<TEI>
+  <text>
+    <body>
+      <p xml:id="p1" n="1">Arma virumque cano</p>
+      <p n="2">Troiae qui primus</p>
+    </body>
+  </text>
+</TEI>`;
+
+describe('compareXml', () => {
+  it('reports attribute changes apart from text changes', () => {
+    const right = LEFT.replace('n="2"', 'n="3" rend="i"').replace('cano', 'canto');
+    const hunks = compareXml(LEFT, right)!;
+    expect(hunks.map(h => [h.kind, h.path, h.summary])).toEqual([
+      ['text', '/TEI/text/body/p#p1', 'text changed'],
+      ['attribute', '/TEI/text/body/p', '@n: "2" → "3"'],
+      ['attribute', '/TEI/text/body/p', '@rend added: "i"'],
+    ]);
+    expect(hunks[0].left.text).toBe('Arma virumque cano');
+    expect(hunks[0].right.text).toBe('Arma virumque canto');
+  });
+
+  it('matches elements by xml:id when they move', () => {
+    const left = '<body><p xml:id="a">A</p><p xml:id="b">B</p></body>';
+    const right = '<body><p xml:id="b">B</p><p xml:id="a">A</p></body>';
+    const hunks = compareXml(left, right)!;
+    // A move is one removal and one insertion, never a rewrite of both texts
+    expect(hunks.map(h => h.summary)).toEqual(['removed <p>', 'added <p>']);
+    expect(mergeXml(left, hunks, allFrom(hunks, 'right'))).toBe(right);
+  });
+
+  it('reports added and removed elements and attributes', () => {
+    const left = '<div type="a"><p>one</p><p>two</p></div>';
+    const right = '<div><p>one</p><note>new</note><p>two</p><p>three</p></div>';
+    expect(compareXml(left, right)!.map(h => [h.path, h.summary])).toEqual([
+      ['/div', '@type removed'],
+      ['/div', 'added <note>'],
+      ['/div', 'added <p>'],
+    ]);
+    expect(compareXml(right, left)!.map(h => h.summary)).toEqual(['@type added: "a"', 'removed <note>', 'removed <p>']);
+  });
+
+  it('ignores whitespace-only changes on request', () => {
+    const reindented = LEFT.replace(/\n {6}/g, '\n        ').replace('Troiae qui', 'Troiae  qui');
+    expect(compareXml(LEFT, reindented, { ignoreWhitespace: true })).toEqual([]);
+    expect(compareXml(LEFT, reindented)!.length).toBeGreaterThan(0);
+  });
+
+  it('returns null for a document that is not well-formed', () => {
+    expect(compareXml(LEFT, '<TEI><text></TEI>')).toBeNull();
+    expect(compareXml('<TEI><p>', LEFT)).toBeNull();
+  });
+});
+
+describe('mergeXml', () => {
+  it('rebuilds the right document when every hunk comes from the right', () => {
+    const right = `<TEI>
+  <text>
+    <body>
+      <head>Liber I</head>
+      <p xml:id="p1" n="one">Arma virumque <hi>cano</hi></p>
+      <p n="2" rend="indent">Troiae qui primus ab oris</p>
+    </body>
+  </text>
+</TEI>`;
+    const hunks = compareXml(LEFT, right)!;
+    expect(mergeXml(LEFT, hunks, allFrom(hunks, 'right'))).toBe(right);
+    expect(mergeXml(LEFT, hunks, allFrom(hunks, 'left'))).toBe(LEFT);
+  });
+
+  it('applies only the hunks taken from the right', () => {
+    const right = LEFT.replace('n="1"', 'n="I"').replace('primus', 'primus ab oris');
+    const hunks = compareXml(LEFT, right)!;
+    const attribute = hunks.find(h => h.kind === 'attribute')!;
+    const merged = mergeXml(LEFT, hunks, new Map([[attribute.id, 'right' as const]]));
+    expect(merged).toBe(LEFT.replace('n="1"', 'n="I"'));
+  });
+
+  it('keeps indentation when taking an added element with whitespace ignored', () => {
+    const right = LEFT.replace('</p>\n    </body>', '</p>\n      <p n="3">ab oris</p>\n    </body>');
+    const hunks = compareXml(LEFT, right, { ignoreWhitespace: true })!;
+    expect(hunks).toHaveLength(1);
+    expect(mergeXml(LEFT, hunks, allFrom(hunks, 'right'))).toBe(right);
+  });
+});
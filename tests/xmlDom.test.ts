@@ -0,0 +1,180 @@
+/**
+ * XML DOM + XPath engine tests.
+ *
+ * Schematron reads documents with xmlDom.ts on both threads (workers have
+ * no DOMParser or document.evaluate). These tests pin the parser, the
+ * XPath 1.0 engine, and Schematron running over it — including the
+ * namespace-prefixed TEI rules jsdom's XPath cannot evaluate.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseXmlDocument, NODE_TYPES, type XmlElement } from '../src/schema/xmlDom';
+import { XPATH_RESULT_TYPES } from '../src/schema/xpathEngine';
+import { parseSchematron, validateSchematron } from '../src/schema/schematron';
+
+const TEI_NS = 'http://www.tei-c.org/ns/1.0';
+
+const DOC = `<?xml version="1.0"?>
+<TEI xmlns="${TEI_NS}" xmlns:xi="http://www.w3.org/2001/XInclude">
+  <text>
+    <body>
+      <div type="chapter" xml:id="c1"><p n="1">One &amp; <hi>two</hi></p><p n="2"/></div>
+      <div><p n="3"><![CDATA[a<b]]></p><!-- note --></div>
+      <xi:include href="more.xml"/>
+    </body>
+  </text>
+</TEI>`;
+
+const resolver = (prefix: string | null) =>
+  prefix === 'tei' ? TEI_NS : prefix === 'xi' ? 'http://www.w3.org/2001/XInclude' : null;
+
+function evaluate(expr: string, type: number = XPATH_RESULT_TYPES.ANY_TYPE) {
+  const doc = parseXmlDocument(DOC);
+  return doc.evaluate(expr, doc, resolver, type);
+}
+
+function names(expr: string): string[] {
+  const result = evaluate(expr, XPATH_RESULT_TYPES.ORDERED_NODE_SNAPSHOT_TYPE);
+  return Array.from({ length: result.snapshotLength }, (_, i) => {
+    const node = result.snapshotItem(i) as XmlElement;
+    return node.getAttribute?.('n') ?? node.nodeName;
+  });
+}
+
+describe('parseXmlDocument', () => {
+  it('resolves default and prefixed namespaces', () => {
+    const doc = parseXmlDocument(DOC);
+    expect(doc.documentElement?.namespaceURI).toBe(TEI_NS);
+    const include = doc.getElementsByTagName('xi:include')[0];
+    expect(include.localName).toBe('include');
+    expect(include.namespaceURI).toBe('http://www.w3.org/2001/XInclude');
+    expect(doc.getElementsByTagName('div')[0].getAttributeNS('http://www.w3.org/XML/1998/namespace', 'id')).toBe('c1');
+  });
+
+  it('decodes entities and keeps CDATA, comments and text', () => {
+    const doc = parseXmlDocument(DOC);
+    const [first, , third] = doc.getElementsByTagName('p');
+    expect(first.textContent).toBe('One & two');
+    expect(third.firstChild?.nodeType).toBe(NODE_TYPES.CDATA_SECTION_NODE);
+    expect(third.textContent).toBe('a<b');
+  });
+
+  it('expands entities declared in the internal subset, markup included', () => {
+    const doc = parseXmlDocument(`<!DOCTYPE TEI [
+  <!ENTITY ae "&#230;">
+  <!ENTITY ed "<hi rend='i'>ed. &ae;</hi>">
+  <!ENTITY % skipped "x">
+  <!-- <!ENTITY ae "ignored"> -->
+  <!ENTITY logo SYSTEM "logo.xml">
+]>
+<TEI xmlns="${TEI_NS}"><p n="&ae;">Cr&ae;ft, &ed; &amp; co&logo;.</p></TEI>`);
+    const p = doc.getElementsByTagName('p')[0];
+    expect(p.getAttribute('n')).toBe('\u00e6');
+    expect(p.textContent).toBe('Cr\u00e6ft, ed. \u00e6 & co.');
+    expect(p.childNodes.map(n => n.nodeName)).toEqual(['#text', 'hi', '#text']);
+    expect(doc.getElementsByTagName('hi')[0].namespaceURI).toBe(TEI_NS);
+    for (const bad of [
+      '<!DOCTYPE a [<!ENTITY e "&e;">]><a>&e;</a>',
+      '<!DOCTYPE a [<!ENTITY e "<b>">]><a>&e;</a>',
+      '<!DOCTYPE a [<!ENTITY e "<b/>">]><a x="&e;"/>',
+      '<!DOCTYPE a [<!ENTITY e "x">]><a>&f;</a>',
+    ]) {
+      expect(parseXmlDocument(bad).documentElement?.tagName, bad).toBe('parsererror');
+    }
+  });
+
+  it('reports malformed input as a parsererror document', () => {
+    for (const bad of ['<a><b></a>', '<a>&nbsp;</a>', '<a x="1" x="2"/>', '<a/><b/>', '<a>']) {
+      expect(parseXmlDocument(bad).documentElement?.tagName, bad).toBe('parsererror');
+    }
+  });
+});
+
+describe('evaluateXPath', () => {
+  it('matches prefixed name tests against namespaced elements', () => {
+    expect(names('//tei:p')).toEqual(['1', '2', '3']);
+    expect(names('//p')).toEqual([]);
+    expect(names('//tei:div[@type]/tei:p[last()]')).toEqual(['2']);
+    expect(names('//xi:include')).toEqual(['xi:include']);
+  });
+
+  it('walks forward and reverse axes', () => {
+    expect(names('//tei:p[@n="2"]/preceding-sibling::*')).toEqual(['1']);
+    expect(names('//tei:p[@n="3"]/preceding::tei:p')).toEqual(['1', '2']);
+    expect(names('//tei:hi/ancestor::*[1]')).toEqual(['1']);
+    expect(names('(//tei:p)[last()]')).toEqual(['3']);
+    expect(names('//tei:p[@n="1"]/following::*[1]')).toEqual(['2']);
+  });
+
+  it('implements the core function library', () => {
+    expect(evaluate('count(//tei:p)').numberValue).toBe(3);
+    expect(evaluate('string(//tei:p[1])').stringValue).toBe('One & two');
+    expect(evaluate('local-name(/*)').stringValue).toBe('TEI');
+    expect(evaluate('name(//xi:include)').stringValue).toBe('xi:include');
+    expect(evaluate('namespace-uri(/*)').stringValue).toBe(TEI_NS);
+    expect(evaluate('string(id("c1")/@type)').stringValue).toBe('chapter');
+    expect(evaluate('substring("12345", 0, 3)').stringValue).toBe('12');
+    expect(evaluate('normalize-space("  a   b ")').stringValue).toBe('a b');
+    expect(evaluate('translate("abc", "ab", "B")').stringValue).toBe('Bc');
+    expect(evaluate('sum(//tei:p/@n) div 2').numberValue).toBe(3);
+    expect(evaluate('not(//tei:p[@n="9"])').booleanValue).toBe(true);
+  });
+
+  it('follows the XPath 1.0 number and comparison rules', () => {
+    expect(evaluate('string(0.0000001)').stringValue).toBe('0.0000001');
+    expect(evaluate('string(1 div 0)').stringValue).toBe('Infinity');
+    expect(Number.isNaN(evaluate('number("1e3")').numberValue)).toBe(true);
+    expect(evaluate('//tei:p/@n = 2').booleanValue).toBe(true);
+    expect(evaluate('//tei:p/@n > 2').booleanValue).toBe(true);
+    expect(evaluate('//tei:p/@n != 1').booleanValue).toBe(true);
+  });
+
+  it('rejects unknown functions and unbound prefixes', () => {
+    expect(() => evaluate('frob()')).toThrow();
+    expect(() => evaluate('//foo:p')).toThrow();
+  });
+});
+
+describe('Schematron over the XML DOM', () => {
+  it('evaluates namespace-prefixed TEI rules', () => {
+    const sch = parseSchematron(
+      `<schema xmlns="http://purl.oclc.org/dsdl/schematron">
+        <ns prefix="tei" uri="${TEI_NS}"/>
+        <pattern>
+          <rule context="tei:div">
+            <assert test="@type">Every division must declare @type.</assert>
+          </rule>
+          <rule context="tei:p">
+            <report test="not(node())" role="warning">Empty paragraph.</report>
+          </rule>
+        </pattern>
+      </schema>`,
+      'house rules',
+    );
+
+    const errors = validateSchematron(DOC, sch);
+
+    expect(errors.map(e => [e.line, e.severity, e.message])).toEqual([
+      [6, 'error', '[Schematron] Every division must declare @type.'],
+      [5, 'warning', '[Schematron] Empty paragraph.'],
+    ]);
+  });
+
+  it('checks documents that declare entities', () => {
+    const sch = parseSchematron(
+      `<schema xmlns="http://purl.oclc.org/dsdl/schematron">
+        <ns prefix="tei" uri="${TEI_NS}"/>
+        <pattern>
+          <rule context="tei:p"><assert test="tei:hi">Needs a highlight.</assert></rule>
+        </pattern>
+      </schema>`,
+      'rules',
+    );
+
+    const errors = validateSchematron(`<!DOCTYPE TEI [<!ENTITY ae "&#230;">]>
+<TEI xmlns="${TEI_NS}">
+  <p>Cr&ae;ft</p>
+</TEI>`, sch);
+
+    expect(errors.map(e => [e.line, e.message])).toEqual([[3, '[Schematron] Needs a highlight.']]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Format Document / Format Selection: block structure re-indented, mixed
+ * content and xml:space="preserve" kept as written, optional attribute
+ * normalization, and idempotence — formatting formatted output changes
+ * nothing.
+ */
+import { describe, it, expect } from 'vitest';
+import { EditorState, EditorSelection } from '@codemirror/state';
+import {
+  formatDocument,
+  formatSelection,
+  formatSelectionChange,
+  formatXml,
+} from '../src/components/Editor/xmlFormatter';
+
+const TEI = `<?xml version="1.0" encoding="UTF-8"?>
+<TEI xmlns="http://www.tei-c.org/ns/1.0"><teiHeader><fileDesc>
+<titleStmt>
+      <title>Sonnets</title>
+</titleStmt></fileDesc></teiHeader>
+<text><body>   <div type="poem"><lg><l>Shall I compare thee <hi rend="italic">to</hi> a summer's day?</l>
+<l>Thou art more <w>love</w><pc>ly</pc></l></lg>
+<!-- second stanza --><p>One  <persName ref="#ws">Will</persName>,
+   two.</p><lb />
+<eg xml:space="preserve">
+   <x>  a </x>
+</eg></div></body></text></TEI>`;
+
+const FORMATTED = `<?xml version="1.0" encoding="UTF-8"?>
+<TEI xmlns="http://www.tei-c.org/ns/1.0">
+  <teiHeader>
+    <fileDesc>
+      <titleStmt>
+        <title>Sonnets</title>
+      </titleStmt>
+    </fileDesc>
+  </teiHeader>
+  <text>
+    <body>
+      <div type="poem">
+        <lg>
+          <l>Shall I compare thee <hi rend="italic">to</hi> a summer's day?</l>
+          <l>Thou art more <w>love</w><pc>ly</pc></l>
+        </lg>
+        <!-- second stanza -->
+        <p>One  <persName ref="#ws">Will</persName>,
+   two.</p>
+        <lb/>
+        <eg xml:space="preserve">
+   <x>  a </x>
+</eg>
+      </div>
+    </body>
+  </text>
+</TEI>
+`;
+
+describe('formatXml', () => {
+  it('re-indents block structure and keeps mixed and preserved content as written', () => {
+    expect(formatXml(TEI)).toBe(FORMATTED);
+  });
+
+  it('is idempotent', () => {
+    expect(formatXml(FORMATTED)).toBe(FORMATTED);
+    const canonical = formatXml(TEI, { normalizeQuotes: true, sortAttributes: true, indentUnit: '\t' })!;
+    expect(formatXml(canonical, { normalizeQuotes: true, sortAttributes: true, indentUnit: '\t' })).toBe(canonical);
+  });
+
+  it('never adds whitespace between inline elements written without any', () => {
+    expect(formatXml('<s><w>a</w><pc>,</pc></s>')).toBe('<s><w>a</w><pc>,</pc></s>\n');
+    expect(formatXml('<s><w>a</w><!-- x --><pc>,</pc></s>')).toBe('<s><w>a</w><!-- x --><pc>,</pc></s>\n');
+    expect(formatXml('<titleStmt><title>T</title></titleStmt>')).toBe('<titleStmt>\n  <title>T</title>\n</titleStmt>\n');
+    expect(formatXml('<titleStmt> <title>T</title> <author>A</author></titleStmt>'))
+      .toBe('<titleStmt>\n  <title>T</title>\n  <author>A</author>\n</titleStmt>\n');
+    // An inline element keeps its content, whitespace or not
+    expect(formatXml('<div> <persName> <forename>A</forename> </persName> </div>'))
+      .toBe('<div>\n  <persName> <forename>A</forename> </persName>\n</div>\n');
+  });
+
+  it('normalizes attribute quotes and order on request only', () => {
+    const doc = `<div xml:id='d1' type = "x" xmlns:t="urn:t" n='say "hi"'/>`;
+    expect(formatXml(doc)).toBe(`<div xml:id='d1' type = "x" xmlns:t="urn:t" n='say "hi"'/>\n`);
+    expect(formatXml(doc, { normalizeQuotes: true, sortAttributes: true }))
+      .toBe('<div xmlns:t="urn:t" xml:id="d1" n="say &quot;hi&quot;" type="x"/>\n');
+  });
+
+  it('refuses a document that is not well-formed', () => {
+    expect(formatXml('<div><p>x</div>')).toBeNull();
+    expect(formatXml('<div><p>x</p>')).toBeNull();
+    expect(formatXml('<div><p x="1"')).toBeNull();
+  });
+});
+
+describe('format selection', () => {
+  const doc = '<TEI>\n  <text><body><div><p>a</p><p>b</p></div>\n  </body></text>\n</TEI>';
+
+  it('formats the smallest laid-out element around the selection, from its line indentation', () => {
+    const change = formatSelectionChange(doc, doc.indexOf('<div>') + 2, doc.indexOf('<div>') + 2, {})!;
+    const result = doc.slice(0, change.from) + change.insert + doc.slice(change.to);
+    // <div> sits on the line of <text>, indented two spaces
+    expect(result).toBe('<TEI>\n  <text><body><div>\n    <p>a</p>\n    <p>b</p>\n  </div>\n  </body></text>\n</TEI>');
+    // Inside mixed content there is nothing to lay out
+    expect(formatSelectionChange(result, result.indexOf('a</p>'), result.indexOf('a</p>'), {})).toBeNull();
+  });
+
+  it('runs as editor commands, one change each', () => {
+    let state = EditorState.create({ doc: TEI, selection: EditorSelection.cursor(TEI.indexOf('<titleStmt>') + '<titleStmt>'.length) });
+    const run = (cmd: typeof formatSelection) => {
+      let done = false;
+      cmd()({ state, dispatch: (tr) => { state = tr.state; done = true; } });
+      return done;
+    };
+    expect(run(formatSelection)).toBe(true);
+    expect(state.doc.toString()).toContain('<fileDesc>\n<titleStmt>\n  <title>Sonnets</title>\n</titleStmt></fileDesc>');
+    expect(run(formatDocument)).toBe(true);
+    expect(state.doc.toString()).toBe(FORMATTED);
+    expect(run(formatDocument)).toBe(false);
+  });
+});
@@ -3,6 +3,7 @@ import {
   tokenizeXmlTagsToArray,
   getOpenElementStack,
   parseAttributes,
+  createNodeSourceMap,
 } from '../src/schema/xmlTokenizer';
 
 describe('tokenizeXmlTags', () => {
@@ -195,3 +196,36 @@ describe('getOpenElementStackWithChildren', () => {
     expect(stack.map(f => f.name)).toEqual(['a', 'b']);
   });
 });
+
+describe('createNodeSourceMap', () => {
+  const xml = '<?xml version="1.0"?>\n<a n="1">x<!-- c --><b  xml:id=\'q\' rend="r"/>y<c>z</c></a>';
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const map = createNodeSourceMap(xml, doc);
+  const slice = (r: { from: number; to: number } | null) => (r ? xml.slice(r.from, r.to) : null);
+
+  it('maps elements to their full source, start tag and end tag', () => {
+    const a = doc.documentElement;
+    const range = map.element(a)!;
+    expect(slice(range)).toBe(xml.slice(xml.indexOf('<a ')));
+    expect(xml.slice(range.from, range.openEnd)).toBe('<a n="1">');
+    expect(xml.slice(range.closeStart, range.to)).toBe('</a>');
+    expect(xml.slice(range.from, range.attributesEnd)).toBe('<a n="1"');
+
+    const b = map.element(a.getElementsByTagName('b')[0])!;
+    expect(slice(b)).toBe('<b  xml:id=\'q\' rend="r"/>');
+    expect(b).toMatchObject({ selfClosing: true, openEnd: b.to, closeStart: b.to });
+  });
+
+  it('maps attributes with their leading whitespace and value', () => {
+    const b = doc.getElementsByTagName('b')[0];
+    const id = map.attribute(b.getAttributeNode('xml:id')!)!;
+    expect(slice(id)).toBe("  xml:id='q'");
+    expect(xml.slice(id.valueFrom, id.valueTo)).toBe('q');
+  });
+
+  it('maps text nodes split by comments and elements', () => {
+    const texts = Array.from(doc.documentElement.childNodes).filter((n) => n.nodeType === Node.TEXT_NODE) as Text[];
+    expect(texts.map((t) => slice(map.text(t)))).toEqual(['x', 'y']);
+    expect(slice(map.text(doc.getElementsByTagName('c')[0].firstChild as Text))).toBe('z');
+  });
+});